@@ -0,0 +1,110 @@
+/**
+ * Tests that broker scenario and sync routes pass the request's audit context
+ * to the repository
+ */
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number }) => ({
+      status: init?.status ?? 200,
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('jose', () => ({ jwtVerify: jest.fn() }));
+
+jest.mock('@/lib/broker/session', () => ({
+  ...jest.requireActual('@/lib/broker/session'),
+  getSessionBroker: jest.fn(),
+}));
+
+jest.mock('@/lib/broker/repository', () => ({
+  addBrokerClientScenario: jest.fn(),
+  updateBrokerClientScenario: jest.fn(),
+  deleteBrokerClientScenario: jest.fn(),
+  importLocalClients: jest.fn(),
+}));
+
+import type { NextRequest } from 'next/server';
+import { POST as addScenario } from '@/app/api/broker/clients/[clientId]/scenarios/route';
+import { PATCH as updateScenario, DELETE as deleteScenario } from '@/app/api/broker/clients/[clientId]/scenarios/[scenarioId]/route';
+import { POST as syncLocalData } from '@/app/api/broker/sync/route';
+import { getSessionBroker } from '@/lib/broker/session';
+import {
+  addBrokerClientScenario,
+  deleteBrokerClientScenario,
+  importLocalClients,
+  updateBrokerClientScenario,
+  type BrokerRow,
+} from '@/lib/broker/repository';
+
+const broker = { id: 1, brokerId: 'broker-1', email: 'agent@example.com' } as BrokerRow;
+
+const audit = { source: 'broker_api', ipAddress: '203.0.113.7', correlationId: 'corr-1' };
+
+function request(body?: unknown): NextRequest {
+  return {
+    headers: new Map([['x-forwarded-for', '203.0.113.7, 10.0.0.1'], ['x-correlation-id', 'corr-1']]),
+    json: async () => body,
+  } as unknown as NextRequest;
+}
+
+const scenario = {
+  v: 1, zip: '27601', state: 'NC', adults: 1, children: 0, ages: [40], income: 52000,
+  chronic: false, tobacco: false, prescriptions: 0,
+};
+
+const scenarioParams = { params: Promise.resolve({ clientId: 'client-1', scenarioId: 'scenario-1' }) };
+
+describe('broker route audit context', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getSessionBroker as jest.Mock).mockResolvedValue(broker);
+  });
+
+  it('audits saving a scenario', async () => {
+    (addBrokerClientScenario as jest.Mock).mockResolvedValue({ id: 'scenario-1' });
+
+    const response = await addScenario(request({ name: 'Plan A', scenario }), scenarioParams);
+
+    expect(response.status).toBe(201);
+    expect(addBrokerClientScenario).toHaveBeenCalledWith(broker, 'client-1', expect.objectContaining({ name: 'Plan A' }), audit);
+  });
+
+  it('audits updating a scenario', async () => {
+    (updateBrokerClientScenario as jest.Mock).mockResolvedValue({ id: 'scenario-1' });
+
+    const response = await updateScenario(request({ notes: 'Reviewed' }), scenarioParams);
+
+    expect(response.status).toBe(200);
+    expect(updateBrokerClientScenario).toHaveBeenCalledWith(broker, 'client-1', 'scenario-1', { notes: 'Reviewed' }, audit);
+  });
+
+  it('audits deleting a scenario', async () => {
+    (deleteBrokerClientScenario as jest.Mock).mockResolvedValue(true);
+
+    const response = await deleteScenario(request(), scenarioParams);
+
+    expect(response.status).toBe(200);
+    expect(deleteBrokerClientScenario).toHaveBeenCalledWith(broker, 'client-1', 'scenario-1', audit);
+  });
+
+  it('audits the local data sync', async () => {
+    (importLocalClients as jest.Mock).mockResolvedValue({ imported: 0, skipped: 0, scenariosImported: 0 });
+
+    const response = await syncLocalData(request({ clients: [] }));
+
+    expect(response.status).toBe(200);
+    expect(importLocalClients).toHaveBeenCalledWith(broker, [], audit);
+  });
+
+  it('writes nothing without a broker session', async () => {
+    (getSessionBroker as jest.Mock).mockResolvedValue(null);
+
+    const response = await deleteScenario(request(), scenarioParams);
+
+    expect(response.status).toBe(401);
+    expect(deleteBrokerClientScenario).not.toHaveBeenCalled();
+  });
+});
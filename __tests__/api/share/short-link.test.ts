@@ -0,0 +1,79 @@
+/**
+ * Tests for GET /api/share/[code] passcode handling
+ */
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: { status?: number; headers?: Record<string, string> }) => ({
+      status: init?.status ?? 200,
+      headers: init?.headers ?? {},
+      json: async () => body,
+    }),
+  },
+}));
+
+jest.mock('@/lib/sharing/repository', () => ({
+  resolveShortLink: jest.fn(),
+  revokeShortLink: jest.fn(),
+}));
+
+import type { NextRequest } from 'next/server';
+import { GET } from '@/app/api/share/[code]/route';
+import { resolveShortLink } from '@/lib/sharing/repository';
+import { SHARE_PASSCODE_HEADER } from '@/lib/sharing/short-links';
+
+const mockResolve = resolveShortLink as jest.MockedFunction<typeof resolveShortLink>;
+
+const CODE = 'Ab3dE6gH9k';
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return { headers: new Map(Object.entries(headers)) } as unknown as NextRequest;
+}
+
+function open(headers?: Record<string, string>) {
+  return GET(request(headers), { params: Promise.resolve({ code: CODE }) });
+}
+
+describe('GET /api/share/[code]', () => {
+  beforeEach(() => {
+    mockResolve.mockReset();
+  });
+
+  it('returns 429 once the link is locked, whatever the client IP', async () => {
+    mockResolve.mockResolvedValue({ ok: false, error: 'passcode_locked' });
+
+    const response = await open({ [SHARE_PASSCODE_HEADER]: 'guess-1234', 'x-forwarded-for': '203.0.113.9' });
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ reason: 'passcode_locked' });
+    expect(mockResolve).toHaveBeenCalledWith(CODE, 'guess-1234');
+  });
+
+  it('returns 401 for a wrong passcode', async () => {
+    mockResolve.mockResolvedValue({ ok: false, error: 'passcode_invalid' });
+
+    const response = await open({ [SHARE_PASSCODE_HEADER]: 'guess-1234' });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ reason: 'passcode_invalid' });
+  });
+
+  it('returns the scenario for the right passcode', async () => {
+    mockResolve.mockResolvedValue({
+      ok: true,
+      scenario: { v: 1, zip: '90210', state: 'CA', adults: 1, children: 0, ages: [30], income: 52000, chronic: false, tobacco: false, prescriptions: 0 },
+    } as Awaited<ReturnType<typeof resolveShortLink>>);
+
+    const response = await open({ [SHARE_PASSCODE_HEADER]: 'correct-horse' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true, scenario: { zip: '90210' } });
+  });
+
+  it('does not look up malformed codes', async () => {
+    const response = await GET(request(), { params: Promise.resolve({ code: 'short' }) });
+
+    expect(response.status).toBe(404);
+    expect(mockResolve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+import { ProposalRequestSchema } from '@/lib/validation/api-schemas';
+import type { MarketplacePlan } from '@/lib/healthcareGovApi';
+
+const minimalPlan = (id: string) => ({
+  id,
+  name: `Plan ${id}`,
+  issuer: { name: 'Blue Cross' },
+  type: 'HMO',
+  metal_level: 'Silver',
+  premium: 450,
+  deductibles: [{ amount: 4000 }],
+});
+
+describe('ProposalRequestSchema', () => {
+  it('fills the plan fields the proposal does not read', () => {
+    const parsed = ProposalRequestSchema.parse({
+      clientName: 'Ann Lee',
+      plans: [{ plan: minimalPlan('a') }, { plan: minimalPlan('b') }],
+    });
+
+    const plan: MarketplacePlan = parsed.plans[0]!.plan;
+    expect(plan).toMatchObject({
+      issuer: { name: 'Blue Cross', id: '' },
+      deductibles: [{ amount: 4000, family_cost: '', individual: { amount: 4000, display_string: '' } }],
+      moops: [],
+      benefits: [],
+      quality_rating: { available: false, year: 0, global_rating: 0, global_not_rated_reason: null },
+      has_national_network: false,
+      disease_mgmt_programs: [],
+    });
+  });
+
+  it('keeps fields returned by the plan search', () => {
+    const parsed = ProposalRequestSchema.parse({
+      clientName: 'Ann Lee',
+      plans: [
+        {
+          plan: {
+            ...minimalPlan('a'),
+            deductibles: [{ amount: 8000, family_cost: 'Aggregate', individual: { amount: 4000, display_string: '$4,000' } }],
+            quality_rating: { available: true, year: 2025, global_rating: 4, global_not_rated_reason: null },
+            hsa_eligible: true,
+          },
+        },
+        { plan: minimalPlan('b') },
+      ],
+    });
+
+    expect(parsed.plans[0]!.plan).toMatchObject({
+      deductibles: [{ individual: { amount: 4000, display_string: '$4,000' } }],
+      quality_rating: { global_rating: 4 },
+      hsa_eligible: true,
+    });
+  });
+});
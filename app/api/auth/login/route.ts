@@ -2,7 +2,9 @@
  * Server-side Authentication API - Login
  * POST /api/auth/login
  *
- * Validates password and issues JWT token in httpOnly cookie
+ * Validates password and issues JWT token in httpOnly cookie.
+ * With a broker email, the password is checked against that broker's own
+ * password (not the site password) and the token names the broker workspace.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,6 +12,9 @@ import { SignJWT } from 'jose';
 import { timingSafeEqual, createHash } from 'crypto';
 import { logger } from '@/lib/logger';
 import { RateLimiter } from '@/lib/cache/redis';
+import { getJWTKey } from '@/lib/auth/jwt';
+import { BROKER_ID_CLAIM, normalizeBrokerEmail } from '@/lib/broker/session';
+import { verifyBrokerCredentials, type BrokerRow } from '@/lib/broker/repository';
 
 // Configuration
 const SESSION_DURATION = 24 * 60 * 60; // 24 hours in seconds
@@ -29,37 +34,10 @@ function constantTimeCompare(a: string, b: string): boolean {
   return timingSafeEqual(hashA, hashB);
 }
 
-// SECURITY: Lazy-load secrets to avoid build-time errors
-// These are evaluated when the route is actually called, not at build time
-let _jwtSecret: string | null = null;
+// SECURITY: Lazy-load the site password to avoid build-time errors
+// Evaluated when the route is actually called, not at build time
 let _password: string | null = null;
 
-function getJWTSecret(): string {
-  if (_jwtSecret) return _jwtSecret;
-
-  const secret = process.env.JWT_SECRET;
-  if (secret) {
-    _jwtSecret = secret;
-    return secret;
-  }
-
-  // In development only, allow SITE_PASSWORD as fallback with warning
-  if (process.env.NODE_ENV === 'development') {
-    const fallback = process.env.SITE_PASSWORD || process.env.NEXT_PUBLIC_SITE_PASSWORD;
-    if (fallback) {
-      logger.warn('[Auth] Using SITE_PASSWORD as JWT_SECRET - set JWT_SECRET in production!');
-      _jwtSecret = fallback;
-      return fallback;
-    }
-    // Development-only fallback with clear warning
-    logger.warn('[Auth] No JWT_SECRET configured - using insecure development fallback');
-    _jwtSecret = 'dev-only-insecure-secret-do-not-use-in-production';
-    return _jwtSecret;
-  }
-
-  throw new Error('JWT_SECRET environment variable is required in production');
-}
-
 function getPassword(): string {
   if (_password) return _password;
 
@@ -95,16 +73,21 @@ function getClientIP(request: NextRequest): string {
   return request.headers.get('x-real-ip') || 'unknown';
 }
 
-async function generateJWT(): Promise<string> {
-  const secret = new TextEncoder().encode(getJWTSecret());
-
-  const token = await new SignJWT({ authenticated: true })
+async function generateJWT(broker?: BrokerRow): Promise<string> {
+  const jwt = new SignJWT({
+    authenticated: true,
+    // Broker ID identifies the server-side broker workspace
+    ...(broker && { [BROKER_ID_CLAIM]: broker.brokerId }),
+  })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
-    .setExpirationTime(`${SESSION_DURATION}s`)
-    .sign(secret);
+    .setExpirationTime(`${SESSION_DURATION}s`);
 
-  return token;
+  if (broker) {
+    jwt.setSubject(broker.email);
+  }
+
+  return jwt.sign(getJWTKey());
 }
 
 export async function POST(request: NextRequest) {
@@ -127,7 +110,7 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { password, ndaAccepted } = body;
+    const { password, ndaAccepted, email } = body;
 
     // Validate NDA acceptance
     if (!ndaAccepted) {
@@ -145,19 +128,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Constant-time comparison to prevent timing attacks
-    const correctPassword = getPassword();
-    const passwordMatch = constantTimeCompare(password, correctPassword);
+    // Optional broker email
+    const brokerEmail = normalizeBrokerEmail(email);
+    if (email !== undefined && email !== '' && !brokerEmail) {
+      return NextResponse.json(
+        { error: 'Invalid email address' },
+        { status: 400 }
+      );
+    }
+
+    // Brokers sign in with their own password; everyone else with the site
+    // password (constant-time comparison to prevent timing attacks)
+    const broker = brokerEmail ? await verifyBrokerCredentials(brokerEmail, password) : undefined;
+    const passwordMatch = brokerEmail ? broker !== null : constantTimeCompare(password, getPassword());
 
     if (!passwordMatch) {
       // Rate limiter already incremented on checkLimit, just get current status
       const newStatus = await rateLimiter.checkLimit(ip);
 
-      logger.warn('[Auth] Failed login attempt', { ip, remainingAttempts: newStatus.remaining });
+      logger.warn('[Auth] Failed login attempt', { ip, broker: !!brokerEmail, remainingAttempts: newStatus.remaining });
 
       return NextResponse.json(
         {
-          error: 'Incorrect password',
+          error: brokerEmail ? 'Incorrect email or password' : 'Incorrect password',
           remainingAttempts: newStatus.remaining,
           isLockedOut: !newStatus.allowed,
           lockoutRemaining: !newStatus.allowed ? Math.ceil((newStatus.resetTime - Date.now()) / 1000) : undefined,
@@ -168,11 +161,11 @@ export async function POST(request: NextRequest) {
 
     // Successful login - reset rate limit counter
     await rateLimiter.reset(ip);
-    const token = await generateJWT();
+    const token = await generateJWT(broker ?? undefined);
 
-    logger.info('[Auth] Successful login', { ip });
+    logger.info('[Auth] Successful login', { ip, broker: !!brokerEmail });
 
-    const response = NextResponse.json({ success: true });
+    const response = NextResponse.json({ success: true, broker: !!brokerEmail });
 
     // Set httpOnly cookie with JWT
     response.cookies.set('auth-token', token, {
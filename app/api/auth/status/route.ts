@@ -7,36 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { jwtVerify } from 'jose';
-import { logger } from '@/lib/logger';
-
-// SECURITY: Lazy-load secret to avoid build-time errors
-let _jwtSecret: string | null = null;
-
-function getJWTSecret(): string {
-  if (_jwtSecret) return _jwtSecret;
-
-  const secret = process.env.JWT_SECRET;
-  if (secret) {
-    _jwtSecret = secret;
-    return secret;
-  }
-
-  // In development only, allow SITE_PASSWORD as fallback with warning
-  if (process.env.NODE_ENV === 'development') {
-    const fallback = process.env.SITE_PASSWORD;
-    if (fallback) {
-      logger.warn('[Auth Status] Using SITE_PASSWORD as JWT_SECRET - set JWT_SECRET in production!');
-      _jwtSecret = fallback;
-      return fallback;
-    }
-    // Development-only fallback with clear warning
-    logger.warn('[Auth Status] No JWT_SECRET configured - using insecure development fallback');
-    _jwtSecret = 'dev-only-insecure-secret-do-not-use-in-production';
-    return _jwtSecret;
-  }
-
-  throw new Error('JWT_SECRET environment variable is required in production');
-}
+import { getJWTKey } from '@/lib/auth/jwt';
+import { BROKER_ID_CLAIM } from '@/lib/broker/session';
 
 export async function GET(request: NextRequest) {
   try {
@@ -51,14 +23,13 @@ export async function GET(request: NextRequest) {
     }
 
     // Verify JWT
-    const secret = new TextEncoder().encode(getJWTSecret());
-
     try {
-      const { payload } = await jwtVerify(token, secret);
+      const { payload } = await jwtVerify(token, getJWTKey());
 
       return NextResponse.json({
         authenticated: payload.authenticated === true,
         ndaAccepted,
+        brokerEmail: typeof payload.sub === 'string' && typeof payload[BROKER_ID_CLAIM] === 'string' ? payload.sub : null,
         expiresAt: payload.exp ? new Date(payload.exp * 1000).toISOString() : null,
       });
     } catch {
@@ -0,0 +1,38 @@
+/**
+ * Public Branding API Route
+ *
+ * GET /api/branding/[profileId] - Branding shown on a broker's shared scenario links
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublicBranding } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+
+interface RouteContext {
+  params: Promise<{ profileId: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { profileId } = await context.params;
+
+  try {
+    const branding = await getPublicBranding(profileId);
+    if (!branding) {
+      return NextResponse.json({ error: 'Branding not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { success: true, branding },
+      { headers: { 'Cache-Control': 'public, max-age=300' } }
+    );
+  } catch (error) {
+    logger.error('[Branding API] Failed to load branding', createLoggerContext(correlationId, {
+      profileId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to load branding' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Broker Branding Profile API Route
+ *
+ * PATCH  /api/broker/branding/[profileId] - Update a branding profile
+ * DELETE /api/broker/branding/[profileId] - Delete a branding profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker } from '@/lib/broker/session';
+import { updateBrandingProfile, deleteBrandingProfile } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrandingProfileUpdateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+interface RouteContext {
+  params: Promise<{ profileId: string }>;
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { profileId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrandingProfileUpdateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const profile = await updateBrandingProfile(broker, profileId, parsed.data);
+    if (!profile) {
+      return NextResponse.json({ error: 'Branding profile not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    logger.error('[Broker API] Failed to update branding profile', createLoggerContext(correlationId, {
+      profileId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to update branding profile' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { profileId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const deleted = await deleteBrandingProfile(broker, profileId);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Branding profile not found' }, { status: 404 });
+    }
+
+    logger.info('[Broker API] Branding profile deleted', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      profileId,
+    }));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Broker API] Failed to delete branding profile', createLoggerContext(correlationId, {
+      profileId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to delete branding profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Broker Branding Profiles API Route
+ *
+ * GET  /api/broker/branding - List the signed-in broker's branding profiles
+ * POST /api/broker/branding - Create a branding profile
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker } from '@/lib/broker/session';
+import { listBrandingProfiles, createBrandingProfile } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrandingProfileCreateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function GET(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const profiles = await listBrandingProfiles(broker);
+
+    return NextResponse.json({ success: true, profiles });
+  } catch (error) {
+    logger.error('[Broker API] Failed to list branding profiles', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to load branding profiles' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrandingProfileCreateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const profile = await createBrandingProfile(broker, parsed.data);
+
+    logger.info('[Broker API] Branding profile created', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      profileId: profile.id,
+    }));
+
+    return NextResponse.json({ success: true, profile }, { status: 201 });
+  } catch (error) {
+    logger.error('[Broker API] Failed to create branding profile', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to create branding profile' }, { status: 500 });
+  }
+}
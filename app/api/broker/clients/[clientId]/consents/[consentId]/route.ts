@@ -0,0 +1,54 @@
+/**
+ * Broker Client Consent API Route
+ *
+ * DELETE /api/broker/clients/[clientId]/consents/[consentId] - Revoke a consent
+ * (the record is kept with its revocation date)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { revokeBrokerClientConsent } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+
+interface RouteContext {
+  params: Promise<{ clientId: string; consentId: string }>;
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId, consentId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const consent = await revokeBrokerClientConsent(
+      broker,
+      clientId,
+      consentId,
+      getClientAuditContext(request, correlationId)
+    );
+    if (!consent) {
+      return NextResponse.json({ error: 'Consent not found' }, { status: 404 });
+    }
+
+    logger.info('[Broker API] Consent revoked', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      clientId,
+      consentId,
+    }));
+
+    return NextResponse.json({ success: true, consent });
+  } catch (error) {
+    logger.error('[Broker API] Failed to revoke consent', createLoggerContext(correlationId, {
+      clientId,
+      consentId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to revoke consent' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Broker Client Consents API Route
+ *
+ * POST /api/broker/clients/[clientId]/consents - Record a household consent
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { addBrokerClientConsent } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { ClientConsentCreateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+interface RouteContext {
+  params: Promise<{ clientId: string }>;
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(ClientConsentCreateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const consent = await addBrokerClientConsent(
+      broker,
+      clientId,
+      parsed.data,
+      getClientAuditContext(request, correlationId)
+    );
+    if (!consent) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, consent }, { status: 201 });
+  } catch (error) {
+    logger.error('[Broker API] Failed to record consent', createLoggerContext(correlationId, {
+      clientId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to record consent' }, { status: 500 });
+  }
+}
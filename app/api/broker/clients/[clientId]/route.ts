@@ -0,0 +1,109 @@
+/**
+ * Broker Client API Route
+ *
+ * GET    /api/broker/clients/[clientId] - Get a client with its scenarios
+ * PATCH  /api/broker/clients/[clientId] - Update a client
+ * DELETE /api/broker/clients/[clientId] - Delete a client and its scenarios
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { getBrokerClient, updateBrokerClient, deleteBrokerClient } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrokerClientUpdateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+interface RouteContext {
+  params: Promise<{ clientId: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const client = await getBrokerClient(broker, clientId, getClientAuditContext(request, correlationId));
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, client });
+  } catch (error) {
+    logger.error('[Broker API] Failed to load client', createLoggerContext(correlationId, {
+      clientId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to load client' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrokerClientUpdateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const client = await updateBrokerClient(broker, clientId, parsed.data, getClientAuditContext(request, correlationId));
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, client });
+  } catch (error) {
+    logger.error('[Broker API] Failed to update client', createLoggerContext(correlationId, {
+      clientId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to update client' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const deleted = await deleteBrokerClient(broker, clientId, getClientAuditContext(request, correlationId));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    logger.info('[Broker API] Client deleted', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      clientId,
+    }));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Broker API] Failed to delete client', createLoggerContext(correlationId, {
+      clientId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to delete client' }, { status: 500 });
+  }
+}
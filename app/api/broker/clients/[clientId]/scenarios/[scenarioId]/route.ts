@@ -0,0 +1,79 @@
+/**
+ * Broker Client Scenario API Route
+ *
+ * PATCH  /api/broker/clients/[clientId]/scenarios/[scenarioId] - Update a scenario
+ * DELETE /api/broker/clients/[clientId]/scenarios/[scenarioId] - Delete a scenario
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { updateBrokerClientScenario, deleteBrokerClientScenario } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrokerScenarioUpdateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+interface RouteContext {
+  params: Promise<{ clientId: string; scenarioId: string }>;
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId, scenarioId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrokerScenarioUpdateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const scenario = await updateBrokerClientScenario(broker, clientId, scenarioId, parsed.data, getClientAuditContext(request, correlationId));
+    if (!scenario) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, scenario });
+  } catch (error) {
+    logger.error('[Broker API] Failed to update scenario', createLoggerContext(correlationId, {
+      clientId,
+      scenarioId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to update scenario' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const correlationId = getCorrelationId(request);
+  const { clientId, scenarioId } = await context.params;
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const deleted = await deleteBrokerClientScenario(broker, clientId, scenarioId, getClientAuditContext(request, correlationId));
+    if (!deleted) {
+      return NextResponse.json({ error: 'Scenario not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Broker API] Failed to delete scenario', createLoggerContext(correlationId, {
+      clientId,
+      scenarioId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to delete scenario' }, { status: 500 });
+  }
+}
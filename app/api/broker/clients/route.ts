@@ -0,0 +1,68 @@
+/**
+ * Broker Clients API Route
+ *
+ * GET  /api/broker/clients - List the signed-in broker's clients
+ * POST /api/broker/clients - Create a client
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { listBrokerClients, createBrokerClient } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrokerClientCreateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function GET(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const clients = await listBrokerClients(broker, { audit: getClientAuditContext(request, correlationId) });
+
+    return NextResponse.json({ success: true, clients });
+  } catch (error) {
+    logger.error('[Broker API] Failed to list clients', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to load clients' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrokerClientCreateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const client = await createBrokerClient(broker, parsed.data);
+
+    logger.info('[Broker API] Client created', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      clientId: client.id,
+    }));
+
+    return NextResponse.json({ success: true, client }, { status: 201 });
+  } catch (error) {
+    logger.error('[Broker API] Failed to create client', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to create client' }, { status: 500 });
+  }
+}
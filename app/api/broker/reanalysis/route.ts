@@ -0,0 +1,73 @@
+/**
+ * Broker Bulk Re-analysis API Route
+ *
+ * POST /api/broker/reanalysis
+ * Re-run the saved scenarios of selected clients against a new plan year and
+ * report which clients had material changes. Requests are limited to
+ * MAX_REANALYSIS_CLIENTS_PER_REQUEST clients; runRemoteBulkReanalysis sends
+ * larger selections in batches.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { listBrokerClients } from '@/lib/broker/repository';
+import { reanalyzeClients } from '@/lib/broker/bulk-reanalysis';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrokerReanalysisRequestSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrokerReanalysisRequestSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const { clientIds, planYear, previousPlanYear, thresholds } = parsed.data;
+    const clients = await listBrokerClients(broker, {
+      clientIds,
+      audit: getClientAuditContext(request, correlationId),
+    });
+
+    if (clients.length === 0) {
+      return NextResponse.json({ error: 'No matching clients found' }, { status: 404 });
+    }
+
+    logger.info('[Broker API] Bulk re-analysis started', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      clients: clients.length,
+      planYear,
+    }));
+
+    const report = await reanalyzeClients(clients, { planYear, previousPlanYear, thresholds });
+
+    logger.info('[Broker API] Bulk re-analysis complete', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      scenariosAnalyzed: report.scenariosAnalyzed,
+      scenariosFailed: report.scenariosFailed,
+      clientsToContact: report.clientsToContact.length,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      report,
+      missingClientIds: clientIds.filter((id) => !clients.some((c) => c.id === id)),
+    });
+  } catch (error) {
+    logger.error('[Broker API] Bulk re-analysis failed', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to re-analyze clients' }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Broker Retention Policy API Route
+ *
+ * GET /api/broker/retention - Get the signed-in broker's retention policy
+ * PUT /api/broker/retention - Replace the broker's retention policy overrides
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker } from '@/lib/broker/session';
+import { getRetentionPolicy, updateRetentionPolicy } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { RetentionPolicyUpdateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function GET(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    return NextResponse.json({ success: true, policy: getRetentionPolicy(broker) });
+  } catch (error) {
+    logger.error('[Broker API] Failed to load retention policy', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to load retention policy' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(RetentionPolicyUpdateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const policy = await updateRetentionPolicy(broker, parsed.data);
+
+    logger.info('[Broker API] Retention policy updated', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+    }));
+
+    return NextResponse.json({ success: true, policy });
+  } catch (error) {
+    logger.error('[Broker API] Failed to update retention policy', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to update retention policy' }, { status: 500 });
+  }
+}
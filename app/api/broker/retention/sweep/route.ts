@@ -0,0 +1,51 @@
+/**
+ * Broker Retention Sweep API Route
+ *
+ * POST /api/broker/retention/sweep
+ * Anonymize or delete the signed-in broker's clients whose retention period
+ * has passed. Defaults to a dry run that only reports due actions.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker } from '@/lib/broker/session';
+import { runRetentionSweep } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { RetentionSweepRequestSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(RetentionSweepRequestSchema, await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const result = await runRetentionSweep({ broker, dryRun: parsed.data.dryRun });
+
+    logger.info('[Broker API] Retention sweep complete', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      dryRun: result.dryRun,
+      due: result.decisions.length,
+      anonymized: result.anonymized,
+      deleted: result.deleted,
+    }));
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    logger.error('[Broker API] Retention sweep failed', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to apply retention policy' }, { status: 500 });
+  }
+}
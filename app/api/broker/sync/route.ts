@@ -0,0 +1,49 @@
+/**
+ * Broker Local Data Sync API Route
+ *
+ * POST /api/broker/sync
+ * Upload the client book a broker kept in localStorage before the server-side
+ * workspace existed. Clients already on the server are skipped, so the call is
+ * safe to repeat.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionBroker, getClientAuditContext } from '@/lib/broker/session';
+import { importLocalClients } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { BrokerSyncRequestSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const broker = await getSessionBroker(request);
+    if (!broker) {
+      return NextResponse.json({ error: 'Broker sign-in required' }, { status: 401 });
+    }
+
+    const parsed = parseRequestBody(BrokerSyncRequestSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const result = await importLocalClients(broker, parsed.data.clients, getClientAuditContext(request, correlationId));
+
+    logger.info('[Broker API] Local client data synced', createLoggerContext(correlationId, {
+      brokerId: broker.brokerId,
+      ...result,
+    }));
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    logger.error('[Broker API] Local data sync failed', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to sync client data' }, { status: 500 });
+  }
+}
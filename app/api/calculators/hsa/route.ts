@@ -188,7 +188,8 @@ export async function GET() {
       fullAnalysis: {
         coverageType: "'individual' or 'family' (required)",
         age: 'Account holder age (required)',
-        annualIncome: 'Annual household income (required)',
+        annualIncome: 'Annual household income (required unless incomeProfile is given)',
+        incomeProfile: 'Itemized income (wages, selfEmploymentIncome, socialSecurityBenefits, ...) used instead of annualIncome',
         federalTaxRate: 'Federal tax rate as decimal, e.g., 0.22 (required)',
         monthlyPremium: 'HDHP monthly premium (required)',
         deductible: 'HDHP deductible (required)',
@@ -13,6 +13,7 @@ import {
   getIncomeAtFPL,
   isMedicaidExpansionState,
 } from '@/lib/calculators';
+import { DEFAULT_PLAN_YEAR } from '@/lib/calculator/plan-year-rules';
 import { logger } from '@/lib/logger';
 import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
 import {
@@ -65,8 +66,10 @@ function handleFullAnalysis(body: unknown, correlationId: string) {
 
   logger.info('[MAGI Optimizer API] Calculating optimization', createLoggerContext(correlationId, {
     estimatedMAGI: data.estimatedMAGI,
+    hasIncomeProfile: data.incomeProfile !== undefined,
     householdSize: data.householdSize,
     state: data.state,
+    planYear: data.planYear,
   }));
 
   const analysis = analyzeMAGI(data);
@@ -75,6 +78,8 @@ function handleFullAnalysis(body: unknown, correlationId: string) {
     currentFPL: analysis.current.fplPercent,
     currentSubsidy: analysis.current.annualSubsidy,
     optimalMAGI: analysis.optimal.targetMAGI,
+    seHealthInsuranceDeduction: analysis.selfEmployedHealthInsurance?.deduction,
+    seDeductionConverged: analysis.selfEmployedHealthInsurance?.converged,
   }));
 
   return NextResponse.json({
@@ -108,7 +113,8 @@ function handleQuickCalculation(body: unknown, correlationId: string) {
       const result = quickSubsidyCalculator(
         data.magi,
         data.householdSize,
-        data.benchmarkPremium
+        data.benchmarkPremium,
+        data.planYear
       );
 
       return NextResponse.json({
@@ -119,7 +125,7 @@ function handleQuickCalculation(body: unknown, correlationId: string) {
     }
 
     case 'fpl_percent': {
-      const fplPercent = calculateFPLPercent(data.magi, data.householdSize);
+      const fplPercent = calculateFPLPercent(data.magi, data.householdSize, data.planYear);
 
       return NextResponse.json({
         success: true,
@@ -137,7 +143,7 @@ function handleQuickCalculation(body: unknown, correlationId: string) {
     }
 
     case 'income_at_fpl': {
-      const income = getIncomeAtFPL(data.fplPercent, data.householdSize);
+      const income = getIncomeAtFPL(data.fplPercent, data.householdSize, data.planYear);
 
       return NextResponse.json({
         success: true,
@@ -173,7 +179,9 @@ export async function GET() {
     description: 'Calculate MAGI optimization for ACA marketplace subsidies',
     parameters: {
       fullAnalysis: {
-        estimatedMAGI: 'Current estimated Modified Adjusted Gross Income (required)',
+        estimatedMAGI: 'Current estimated Modified Adjusted Gross Income (required unless preDeductionMAGI or incomeProfile is given)',
+        preDeductionMAGI: 'MAGI before the self-employed health insurance deduction; the deduction is solved against the premium tax credit and used instead of estimatedMAGI',
+        incomeProfile: 'Itemized income (wages, selfEmploymentIncome, socialSecurityBenefits, taxExemptInterest, foreignIncomeExclusion, iraContribution, hsaContribution, ...) used instead of estimatedMAGI',
         householdSize: 'Number of people in tax household (required)',
         filingStatus: "'single' | 'married_joint' | 'married_separate' | 'head_of_household' (required)",
         state: '2-letter state code (required)',
@@ -183,7 +191,9 @@ export async function GET() {
         currentHSAContributions: 'Current annual HSA contributions',
         has401kAccess: 'Whether user has access to 401(k)',
         hasHDHP: 'Whether user has High Deductible Health Plan',
-        selfEmploymentIncome: 'Self-employment income if any',
+        selfEmploymentIncome: 'Self-employment income if any (limits the self-employed health insurance deduction)',
+        monthlyPlanPremium: 'Monthly premium of the plan a self-employed household enrolls in (defaults to the benchmark premium)',
+        planYear: `Marketplace plan year for FPL and contribution tables: 2024, 2025 or 2026 (optional, defaults to ${DEFAULT_PLAN_YEAR})`,
       },
       quickCalculations: {
         subsidy: {
@@ -191,6 +201,7 @@ export async function GET() {
           magi: 'Modified Adjusted Gross Income',
           householdSize: 'Household size',
           benchmarkPremium: 'Benchmark silver plan premium',
+          planYear: 'Plan year (optional, applies to subsidy, fpl_percent and income_at_fpl)',
         },
         fpl_percent: {
           type: "'fpl_percent'",
@@ -0,0 +1,97 @@
+/**
+ * PTC Reconciliation API Route
+ *
+ * POST /api/calculators/reconciliation
+ * Estimate year-end premium tax credit reconciliation (Form 8962 style)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateReconciliation } from '@/lib/calculators';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import {
+  ReconciliationRequestSchema,
+  parseRequestBody,
+} from '@/lib/validation/api-schemas';
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const body = await request.json();
+
+    // Validate with Zod
+    const parsed = parseRequestBody(ReconciliationRequestSchema, body);
+    if (!parsed.success) {
+      logger.warn('[Reconciliation API] Validation failed', createLoggerContext(correlationId, {
+        error: parsed.error,
+      }));
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+
+    logger.info('[Reconciliation API] Reconciling advance credits', createLoggerContext(correlationId, {
+      taxYear: data.taxYear,
+      householdSize: data.householdSize,
+      coveredMonths: data.months.length,
+    }));
+
+    const reconciliation = calculateReconciliation(data);
+
+    logger.info('[Reconciliation API] Reconciliation complete', createLoggerContext(correlationId, {
+      outcome: reconciliation.outcome,
+      fplPercent: reconciliation.fplPercent,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      correlationId,
+      reconciliation,
+    });
+  } catch (error) {
+    logger.error('[Reconciliation API] Request error', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate premium tax credit reconciliation',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/calculators/reconciliation',
+    methods: ['POST'],
+    description: 'Estimate premium tax credit reconciliation: refund or excess APTC repayment',
+    parameters: {
+      taxYear: 'Tax/plan year being reconciled: 2024, 2025 or 2026 (required)',
+      filingStatus: "'single' | 'married_joint' | 'married_separate' | 'head_of_household' (required)",
+      householdSize: 'Tax family size on the final return (required)',
+      state: '2-letter state code (required)',
+      finalMAGI: 'Final-year household MAGI (required unless magiComponents is given)',
+      magiComponents: 'Itemized income (wages, selfEmploymentIncome, taxExemptInterest, ...) used instead of finalMAGI',
+      months: 'Array of { month, enrollmentPremium, slcspPremium, advancePTC } from Form 1095-A (required)',
+      householdChanges: 'Array of { month, description } for mid-year household changes',
+    },
+    example: {
+      taxYear: 2025,
+      filingStatus: 'married_joint',
+      householdSize: 3,
+      state: 'NC',
+      finalMAGI: 72000,
+      months: [
+        { month: 1, enrollmentPremium: 1150, slcspPremium: 1200, advancePTC: 950 },
+        { month: 2, enrollmentPremium: 1150, slcspPremium: 1200, advancePTC: 950 },
+      ],
+    },
+  });
+}
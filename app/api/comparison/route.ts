@@ -35,7 +35,7 @@ export async function POST(request: NextRequest) {
 
     if (mode === 'quick') {
       // Quick comparison for simple use cases
-      const result = quickComparison(body.planA, body.planB);
+      const result = quickComparison(body.planA, body.planB, body.csrLevel);
 
       logger.info('[Comparison API] Quick comparison completed', {
         planA: body.planA.name,
@@ -50,7 +50,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Full comparison
-    const result = comparePlans(body.planA, body.planB, body.userProfile);
+    const result = comparePlans(body.planA, body.planB, body.userProfile, body.csrLevel);
 
     logger.info('[Comparison API] Full comparison completed', {
       planA: body.planA.name,
@@ -91,6 +91,7 @@ export async function GET() {
           planA: 'PlanDetails (required)',
           planB: 'PlanDetails (required)',
           userProfile: 'UserHealthProfile (optional)',
+          csrLevel: "'94%' | '87%' | '73%' | 'None' (optional, applies CSR variant cost sharing to Silver plans)",
           mode: "'full' | 'quick' (default: 'full')",
         },
         modes: {
@@ -117,6 +118,7 @@ export async function GET() {
       coinsurance: 'number (optional, percentage 0-100)',
       hsaEligible: 'boolean (optional)',
       qualityRating: 'number 1-5 (optional)',
+      csrLevel: "'94%' | '87%' | '73%' | 'None' (optional, set when cost sharing already reflects a CSR variant)",
     },
     userHealthProfileSchema: {
       expectedDoctorVisits: 'number (optional)',
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { generatePDFBuffer, validateReportInput } from '@/lib/reports/pdf-generator';
+import { getPublicBranding } from '@/lib/broker/repository';
 import { logger } from '@/lib/logger';
 import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
 
@@ -15,6 +16,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
+    const brandingProfileId: unknown = body?.brandingProfileId;
 
     // Validate input
     if (!validateReportInput(body)) {
@@ -31,10 +33,22 @@ export async function POST(request: NextRequest) {
       recommendedInsurance: body.recommendation.recommendedInsurance,
     }));
 
+    // Branding is only applied from a saved profile, never from inline data
+    const branding = typeof brandingProfileId === 'string'
+      ? await getPublicBranding(brandingProfileId)
+      : null;
+    if (brandingProfileId && !branding) {
+      return NextResponse.json(
+        { error: 'Invalid report input', message: 'Branding profile not found' },
+        { status: 400 }
+      );
+    }
+
     // Add generation timestamp if not provided
     const input = {
       ...body,
       generatedAt: body.generatedAt ? new Date(body.generatedAt) : new Date(),
+      branding: branding ?? undefined,
     };
 
     // Generate PDF
@@ -79,6 +93,7 @@ export async function GET() {
       formData: 'Calculator form data (CalculatorFormData type)',
       recommendation: 'Insurance recommendation result (InsuranceRecommendation type)',
       generatedAt: 'Optional timestamp for the report (ISO string)',
+      brandingProfileId: 'Optional broker branding profile ID for a white-label report',
     },
     example: {
       formData: {
@@ -0,0 +1,72 @@
+/**
+ * Plan Proposal API Route
+ *
+ * POST /api/reports/proposal
+ * Generate a client-facing PDF proposal comparing 2-4 marketplace plans
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildProposal } from '@/lib/reports/proposal';
+import { generateProposalPDFBuffer } from '@/lib/reports/pdf-generator';
+import { getPublicBranding } from '@/lib/broker/repository';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { ProposalRequestSchema, parseRequestBody } from '@/lib/validation/api-schemas';
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const parsed = parseRequestBody(ProposalRequestSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const { brandingProfileId, plans, ...input } = parsed.data;
+
+    const branding = brandingProfileId ? await getPublicBranding(brandingProfileId) : null;
+    if (brandingProfileId && !branding) {
+      return NextResponse.json({ error: 'Branding profile not found' }, { status: 400 });
+    }
+
+    let proposal;
+    try {
+      proposal = buildProposal({
+        ...input,
+        plans,
+        branding: branding ?? undefined,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid proposal' },
+        { status: 400 }
+      );
+    }
+
+    const pdfBuffer = await generateProposalPDFBuffer(proposal);
+
+    logger.info('[Proposal API] Proposal generated', createLoggerContext(correlationId, {
+      plans: proposal.plans.length,
+      size: pdfBuffer.length,
+    }));
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="plan-proposal-${proposal.generatedAt.toISOString().split('T')[0]}.pdf"`,
+        'Content-Length': pdfBuffer.length.toString(),
+        'X-Correlation-ID': correlationId,
+      },
+    });
+  } catch (error) {
+    logger.error('[Proposal API] Failed to generate proposal', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json({ error: 'Failed to generate proposal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Short-Link Share API Route
+ *
+ * GET    /api/share/[code] - Open a short link (passcode in the X-Share-Passcode header)
+ * DELETE /api/share/[code] - Revoke a short link (manage token in the X-Share-Token header)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveShortLink, revokeShortLink } from '@/lib/sharing/repository';
+import { getScenarioSummary } from '@/lib/sharing/scenario-sharing';
+import {
+  isShortLinkCode,
+  SHARE_MANAGE_TOKEN_HEADER,
+  SHARE_PASSCODE_HEADER,
+  SHORT_LINK_ERROR_MESSAGES,
+  type ShortLinkError,
+} from '@/lib/sharing/short-links';
+import { logger } from '@/lib/logger';
+
+interface RouteContext {
+  params: Promise<{ code: string }>;
+}
+
+const ERROR_STATUS: Record<ShortLinkError, number> = {
+  not_found: 404,
+  expired: 410,
+  revoked: 410,
+  passcode_required: 401,
+  passcode_invalid: 401,
+  passcode_locked: 429,
+};
+
+function errorResponse(error: ShortLinkError) {
+  return NextResponse.json(
+    { error: SHORT_LINK_ERROR_MESSAGES[error], reason: error },
+    { status: ERROR_STATUS[error], headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { code } = await context.params;
+
+  if (!isShortLinkCode(code)) {
+    return errorResponse('not_found');
+  }
+
+  try {
+    // Wrong passcodes are limited per link in resolveShortLink
+    const passcode = request.headers.get(SHARE_PASSCODE_HEADER) || undefined;
+
+    const result = await resolveShortLink(code, passcode);
+    if (!result.ok) {
+      if (result.error === 'passcode_invalid' || result.error === 'passcode_locked') {
+        logger.warn('[Share API] Incorrect short link passcode', { code, locked: result.error === 'passcode_locked' });
+      }
+      return errorResponse(result.error);
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        scenario: result.scenario,
+        summary: getScenarioSummary(result.scenario),
+        expiresAt: result.expiresAt,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Share API] Short link lookup failed', {
+      code,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json({ error: 'Failed to load scenario' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { code } = await context.params;
+  const manageToken = request.headers.get(SHARE_MANAGE_TOKEN_HEADER);
+
+  if (!manageToken) {
+    return NextResponse.json({ error: 'Manage token required' }, { status: 401 });
+  }
+
+  try {
+    const revoked = isShortLinkCode(code) && await revokeShortLink(code, manageToken);
+    if (!revoked) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    logger.info('[Share API] Short link revoked', { code });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Share API] Short link revocation failed', {
+      code,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json({ error: 'Failed to revoke share link' }, { status: 500 });
+  }
+}
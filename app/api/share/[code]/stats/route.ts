@@ -0,0 +1,41 @@
+/**
+ * Short-Link Stats API Route
+ *
+ * GET /api/share/[code]/stats
+ * View count, expiry and revocation status for the link's creator (manage
+ * token in the X-Share-Token header)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getShortLinkStats } from '@/lib/sharing/repository';
+import { isShortLinkCode, SHARE_MANAGE_TOKEN_HEADER } from '@/lib/sharing/short-links';
+import { logger } from '@/lib/logger';
+
+interface RouteContext {
+  params: Promise<{ code: string }>;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { code } = await context.params;
+  const manageToken = request.headers.get(SHARE_MANAGE_TOKEN_HEADER);
+
+  if (!manageToken) {
+    return NextResponse.json({ error: 'Manage token required' }, { status: 401 });
+  }
+
+  try {
+    const stats = isShortLinkCode(code) ? await getShortLinkStats(code, manageToken) : null;
+    if (!stats) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, stats }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    logger.error('[Share API] Short link stats failed', {
+      code,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json({ error: 'Failed to load share link stats' }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 /**
  * Scenario Sharing API Route
  *
- * Provides endpoints for encoding/decoding shareable scenarios.
+ * Provides endpoints for encoding/decoding shareable scenarios. With
+ * ?mode=short the scenario is stored server-side and the link carries only a
+ * short code (see /api/share/[code]).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,13 +15,35 @@ import {
   ShareableScenarioSchema,
   type ShareableScenario,
 } from '@/lib/sharing';
+import { createShortLink } from '@/lib/sharing/repository';
+import { withShareBranding, SHARE_BRANDING_PARAM } from '@/lib/branding/branding';
+import { ShortLinkCreateSchema, parseRequestBody } from '@/lib/validation/api-schemas';
 import { logger } from '@/lib/logger';
 
 /**
- * POST /api/share
- * Encode a scenario to a shareable string
+ * Build the public URL for a share code, with broker branding when requested
+ */
+function buildShareUrl(request: NextRequest, code: string): string {
+  const baseUrl = request.headers.get('origin') || '';
+  const brandingProfileId = request.nextUrl.searchParams.get(SHARE_BRANDING_PARAM);
+  return brandingProfileId
+    ? withShareBranding(`${baseUrl}/share/${code}`, brandingProfileId)
+    : `${baseUrl}/share/${code}`;
+}
+
+/**
+ * POST /api/share?brand={profileId}
+ * Encode a scenario to a shareable string, optionally with broker branding
+ *
+ * POST /api/share?mode=short
+ * Store { scenario, expiresInDays?, passcode? } and return a short link with
+ * its manage token
  */
 export async function POST(request: NextRequest) {
+  if (request.nextUrl.searchParams.get('mode') === 'short') {
+    return createShortShareLink(request);
+  }
+
   try {
     const body = await request.json();
 
@@ -41,8 +65,7 @@ export async function POST(request: NextRequest) {
     };
 
     const encoded = encodeScenario(scenario);
-    const baseUrl = request.headers.get('origin') || '';
-    const shareUrl = `${baseUrl}/share/${encoded}`;
+    const shareUrl = buildShareUrl(request, encoded);
 
     logger.info('[Share API] Scenario encoded', {
       summary: getScenarioSummary(scenario),
@@ -67,6 +90,47 @@ export async function POST(request: NextRequest) {
   }
 }
 
+async function createShortShareLink(request: NextRequest) {
+  try {
+    const parsed = parseRequestBody(ShortLinkCreateSchema, await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error, details: parsed.details },
+        { status: 400 }
+      );
+    }
+
+    const { scenario: input, expiresInDays, passcode } = parsed.data;
+    const scenario: ShareableScenario = { ...input, ts: input.ts || Date.now() };
+
+    const link = await createShortLink(scenario, { expiresInDays, passcode });
+
+    logger.info('[Share API] Short link created', {
+      summary: getScenarioSummary(scenario),
+      expiresAt: link.expiresAt.toISOString(),
+      passcodeProtected: Boolean(passcode),
+    });
+
+    return NextResponse.json({
+      success: true,
+      code: link.code,
+      shareUrl: buildShareUrl(request, link.code),
+      manageToken: link.manageToken,
+      expiresAt: link.expiresAt.getTime(),
+      summary: getScenarioSummary(scenario),
+    }, { status: 201 });
+  } catch (error) {
+    logger.error('[Share API] Short link creation failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * GET /api/share?code={encoded}
  * Decode a shareable string to scenario data
@@ -0,0 +1,162 @@
+/**
+ * ICHRA / QSEHRA Affordability Wizard API Route
+ *
+ * POST /api/wizards/hra-affordability
+ * Tests an ICHRA or QSEHRA offer for affordability and recommends accepting or opting out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeHRAOffer, type HRAArrangement } from '@/lib/wizards';
+import { logger } from '@/lib/logger';
+import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+
+interface HRAOfferRequest {
+  arrangement: HRAArrangement;
+  monthlyAllowance: number;
+  familyMonthlyAllowance?: number;
+  householdIncome: number;
+  householdSize: number;
+  state: string;
+  age: number;
+  dependentAges?: number[];
+  planYear?: number;
+  lowestCostSilverPremium?: number;
+  selfOnlyBenchmarkPremium?: number;
+  benchmarkPremium?: number;
+}
+
+export async function POST(request: NextRequest) {
+  const correlationId = getCorrelationId(request);
+
+  try {
+    const body = (await request.json()) as HRAOfferRequest;
+
+    // Validate required fields
+    const requiredFields = [
+      'arrangement',
+      'monthlyAllowance',
+      'householdIncome',
+      'householdSize',
+      'state',
+      'age',
+    ];
+
+    const missingFields = requiredFields.filter(
+      (field) => body[field as keyof HRAOfferRequest] === undefined
+    );
+
+    if (missingFields.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Missing required fields',
+          missingFields,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate field values
+    if (!['ichra', 'qsehra'].includes(body.arrangement)) {
+      return NextResponse.json(
+        { error: "Invalid arrangement value (expected 'ichra' or 'qsehra')" },
+        { status: 400 }
+      );
+    }
+
+    if (body.monthlyAllowance < 0 || body.householdIncome < 0) {
+      return NextResponse.json(
+        { error: 'Allowance and income must be non-negative' },
+        { status: 400 }
+      );
+    }
+
+    if (body.age < 0 || body.age > 120) {
+      return NextResponse.json(
+        { error: 'Invalid age value' },
+        { status: 400 }
+      );
+    }
+
+    if (body.householdSize < 1 || body.householdSize > 20) {
+      return NextResponse.json(
+        { error: 'Invalid household size' },
+        { status: 400 }
+      );
+    }
+
+    logger.info('[HRA Affordability API] Analyzing offer', createLoggerContext(correlationId, {
+      arrangement: body.arrangement,
+      state: body.state,
+      householdSize: body.householdSize,
+    }));
+
+    const analysis = analyzeHRAOffer({
+      arrangement: body.arrangement,
+      monthlyAllowance: body.monthlyAllowance,
+      familyMonthlyAllowance: body.familyMonthlyAllowance,
+      householdIncome: body.householdIncome,
+      householdSize: body.householdSize,
+      state: body.state.toUpperCase(),
+      age: body.age,
+      dependentAges: body.dependentAges,
+      planYear: body.planYear,
+      lowestCostSilverPremium: body.lowestCostSilverPremium,
+      selfOnlyBenchmarkPremium: body.selfOnlyBenchmarkPremium,
+      benchmarkPremium: body.benchmarkPremium,
+    });
+
+    logger.info('[HRA Affordability API] Analysis complete', createLoggerContext(correlationId, {
+      isAffordable: analysis.affordability.isAffordable,
+      recommendedChoice: analysis.recommendedChoice,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      correlationId,
+      analysis,
+    });
+  } catch (error) {
+    logger.error('[HRA Affordability API] Request error', createLoggerContext(correlationId, {
+      error: error instanceof Error ? error.message : String(error),
+    }));
+
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze HRA offer',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: '/api/wizards/hra-affordability',
+    methods: ['POST'],
+    description: 'Test an ICHRA or QSEHRA offer for affordability and decide whether to accept or opt out',
+    parameters: {
+      arrangement: "'ichra' | 'qsehra' (required)",
+      monthlyAllowance: 'Monthly self-only allowance (required)',
+      familyMonthlyAllowance: 'Monthly allowance when covering dependents',
+      householdIncome: 'Projected annual household MAGI (required)',
+      householdSize: 'Tax household size (required)',
+      state: 'Two-letter state code (required)',
+      age: 'Employee age (required)',
+      dependentAges: 'Array of dependent ages',
+      planYear: 'Marketplace plan year: 2024, 2025 or 2026',
+      lowestCostSilverPremium: "Employee's self-only lowest-cost silver premium, for the ICHRA test (estimated if omitted)",
+      selfOnlyBenchmarkPremium: "Employee's self-only second-lowest-cost silver premium, for the QSEHRA test (estimated if omitted)",
+      benchmarkPremium: 'Household second-lowest-cost silver premium (estimated if omitted)',
+    },
+    example: {
+      arrangement: 'ichra',
+      monthlyAllowance: 300,
+      householdIncome: 42000,
+      householdSize: 1,
+      state: 'NC',
+      age: 45,
+      lowestCostSilverPremium: 520,
+    },
+  });
+}
@@ -9,12 +9,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { analyzeJobChange, quickCOBRAvsMarketplace } from '@/lib/wizards';
 import { logger } from '@/lib/logger';
 import { getCorrelationId, createLoggerContext } from '@/lib/middleware/correlation';
+import { IncomeProfileSchema } from '@/lib/validation/api-schemas';
+import type { IncomeProfile } from '@/types';
 
 interface JobChangeRequest {
   separationDate: string;
   currentPremium: number;
   cobraPremium: number;
-  householdIncome: number;
+  householdIncome?: number;
+  incomeProfile?: IncomeProfile;
   householdSize: number;
   state: string;
   zipCode?: string;
@@ -69,7 +72,6 @@ function handleFullAnalysis(body: JobChangeRequest, correlationId: string) {
   const requiredFields = [
     'separationDate',
     'cobraPremium',
-    'householdIncome',
     'householdSize',
     'state',
     'age',
@@ -90,6 +92,16 @@ function handleFullAnalysis(body: JobChangeRequest, correlationId: string) {
     );
   }
 
+  if (body.householdIncome === undefined && body.incomeProfile === undefined) {
+    return NextResponse.json(
+      {
+        error: 'Missing required fields',
+        missingFields: ['householdIncome'],
+      },
+      { status: 400 }
+    );
+  }
+
   // Validate field values
   if (body.age < 0 || body.age > 120) {
     return NextResponse.json(
@@ -105,6 +117,13 @@ function handleFullAnalysis(body: JobChangeRequest, correlationId: string) {
     );
   }
 
+  if (body.incomeProfile !== undefined && !IncomeProfileSchema.safeParse(body.incomeProfile).success) {
+    return NextResponse.json(
+      { error: 'Invalid incomeProfile (amounts must be non-negative numbers)' },
+      { status: 400 }
+    );
+  }
+
   if (!['low', 'medium', 'high'].includes(body.expectedUtilization)) {
     return NextResponse.json(
       { error: 'Invalid expectedUtilization value' },
@@ -124,6 +143,7 @@ function handleFullAnalysis(body: JobChangeRequest, correlationId: string) {
     currentPremium: body.currentPremium || 0,
     cobraPremium: body.cobraPremium,
     householdIncome: body.householdIncome,
+    incomeProfile: body.incomeProfile,
     householdSize: body.householdSize,
     state: body.state.toUpperCase(),
     zipCode: body.zipCode,
@@ -218,7 +238,8 @@ export async function GET() {
         separationDate: 'ISO date string (required)',
         cobraPremium: 'Full COBRA premium amount (required)',
         currentPremium: 'Current employee premium contribution',
-        householdIncome: 'Annual household income (required)',
+        householdIncome: 'Annual household income (required unless incomeProfile is given)',
+        incomeProfile: 'Itemized income (wages, selfEmploymentIncome, socialSecurityBenefits, ...) used instead of householdIncome',
         householdSize: 'Number in household (required)',
         state: 'Two-letter state code (required)',
         zipCode: 'ZIP code for location adjustment',
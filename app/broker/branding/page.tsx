@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  fetchBrandingProfiles,
+  createRemoteBrandingProfile,
+  updateRemoteBrandingProfile,
+  deleteRemoteBrandingProfile,
+  readLogoFile,
+  formatBrandLine,
+  DEFAULT_BRAND_COLORS,
+  type BrandingProfile,
+  type BrandingProfileInput,
+} from '@/lib/branding';
+import { useFeature } from '@/lib/features';
+
+const EMPTY_FORM: BrandingProfileInput = {
+  name: '',
+  agencyName: '',
+  licenseNumber: '',
+  primaryColor: DEFAULT_BRAND_COLORS.primaryColor,
+  accentColor: DEFAULT_BRAND_COLORS.accentColor,
+  disclaimer: '',
+  contact: {},
+  isDefault: false,
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg bg-white dark:bg-dark-800 text-gray-900 dark:text-gray-100';
+
+/**
+ * Drop empty strings so optional fields validate as absent
+ */
+function compact(input: BrandingProfileInput): BrandingProfileInput {
+  const contact = Object.fromEntries(
+    Object.entries(input.contact ?? {}).filter(([, value]) => value?.trim())
+  );
+  return {
+    ...input,
+    licenseNumber: input.licenseNumber?.trim() || undefined,
+    disclaimer: input.disclaimer?.trim() || undefined,
+    contact: Object.keys(contact).length > 0 ? contact : undefined,
+  };
+}
+
+export default function BrokerBrandingPage() {
+  const brandingEnabled = useFeature('showBrandingOptions');
+  const [profiles, setProfiles] = useState<BrandingProfile[]>([]);
+  const [form, setForm] = useState<BrandingProfileInput>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = () => fetchBrandingProfiles().then(setProfiles).catch((e: Error) => setError(e.message));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const update = <K extends keyof BrandingProfileInput>(key: K, value: BrandingProfileInput[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const updateContact = (key: keyof NonNullable<BrandingProfileInput['contact']>, value: string) =>
+    setForm((prev) => ({ ...prev, contact: { ...prev.contact, [key]: value } }));
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update('logoDataUrl', await readLogoFile(file));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read logo');
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      await createRemoteBrandingProfile(compact(form));
+      setForm(EMPTY_FORM);
+      setError(null);
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save branding profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeDefault = async (profile: BrandingProfile) => {
+    await updateRemoteBrandingProfile(profile.id, { isDefault: true }).catch((e: Error) => setError(e.message));
+    await refresh();
+  };
+
+  const handleDelete = async (profile: BrandingProfile) => {
+    if (!confirm(`Delete the "${profile.name}" branding profile?`)) return;
+    await deleteRemoteBrandingProfile(profile.id).catch((e: Error) => setError(e.message));
+    await refresh();
+  };
+
+  if (!brandingEnabled) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16">
+        <p className="text-gray-700 dark:text-gray-300">Switch to broker mode to manage report branding.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Report Branding</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
+        Your default profile is applied to PDF reports, shared scenario links and CSV exports.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <section className="mb-10 space-y-3">
+        {profiles.map((profile) => (
+          <div
+            key={profile.id}
+            className="flex items-center justify-between gap-4 p-4 bg-white dark:bg-dark-800 rounded-lg shadow-sm border-l-4"
+            style={{ borderLeftColor: profile.primaryColor }}
+          >
+            <div>
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {profile.name}
+                {profile.isDefault && <span className="ml-2 text-xs text-green-700 dark:text-green-400">Default</span>}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{formatBrandLine(profile)}</p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {!profile.isDefault && (
+                <button type="button" onClick={() => handleMakeDefault(profile)} className="px-3 py-1 text-sm border border-gray-300 dark:border-dark-600 rounded-lg">
+                  Make default
+                </button>
+              )}
+              <button type="button" onClick={() => handleDelete(profile)} className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-lg">
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      <form onSubmit={handleSubmit} className="p-6 bg-white dark:bg-dark-800 rounded-lg shadow-md space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">New Profile</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Profile name
+            <input required className={inputClass} value={form.name} onChange={(e) => update('name', e.target.value)} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Agency name
+            <input required className={inputClass} value={form.agencyName} onChange={(e) => update('agencyName', e.target.value)} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            License number
+            <input className={inputClass} value={form.licenseNumber ?? ''} onChange={(e) => update('licenseNumber', e.target.value)} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Logo (PNG or JPEG)
+            <input type="file" accept="image/png,image/jpeg" className={inputClass} onChange={(e) => handleLogo(e.target.files?.[0])} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Primary color
+            <input type="color" className="block h-10 w-20" value={form.primaryColor} onChange={(e) => update('primaryColor', e.target.value)} />
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            Accent color
+            <input type="color" className="block h-10 w-20" value={form.accentColor} onChange={(e) => update('accentColor', e.target.value)} />
+          </label>
+          {(['name', 'phone', 'email', 'website', 'address'] as const).map((key) => (
+            <label key={key} className="block text-sm text-gray-700 dark:text-gray-300 capitalize">
+              Contact {key}
+              <input className={inputClass} value={form.contact?.[key] ?? ''} onChange={(e) => updateContact(key, e.target.value)} />
+            </label>
+          ))}
+        </div>
+        <label className="block text-sm text-gray-700 dark:text-gray-300">
+          Disclaimer
+          <textarea rows={3} className={inputClass} value={form.disclaimer ?? ''} onChange={(e) => update('disclaimer', e.target.value)} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={form.isDefault} onChange={(e) => update('isDefault', e.target.checked)} />
+          Use as my default branding
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Profile'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  fetchRemoteClients,
+  readRosterFile,
+  suggestColumnMapping,
+  previewRosterImport,
+  commitRosterImport,
+  ROSTER_FIELDS,
+  type ParsedRoster,
+  type RosterColumnMapping,
+  type RosterField,
+  type RosterImportResult,
+} from '@/lib/broker';
+import { useFeature } from '@/lib/features';
+
+const selectClass = 'w-full px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg bg-white dark:bg-dark-800 text-gray-900 dark:text-gray-100';
+
+export default function BrokerRosterImportPage() {
+  const clientManagementEnabled = useFeature('showClientManagement');
+  const [target, setTarget] = useState<'local' | 'remote'>('local');
+  const [roster, setRoster] = useState<ParsedRoster | null>(null);
+  const [mapping, setMapping] = useState<RosterColumnMapping>({});
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Import into the server workspace when signed in, otherwise this browser's client book
+  useEffect(() => {
+    fetchRemoteClients()
+      .then(() => setTarget('remote'))
+      .catch(() => setTarget('local'));
+  }, []);
+
+  const preview = useMemo(() => {
+    if (!roster) return null;
+    try {
+      return previewRosterImport(roster, mapping);
+    } catch {
+      return null;
+    }
+  }, [roster, mapping]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setResult(null);
+    try {
+      const parsed = await readRosterFile(file);
+      setRoster(parsed);
+      setMapping(suggestColumnMapping(parsed.headers));
+      setError(null);
+    } catch (e) {
+      setRoster(null);
+      setError(e instanceof Error ? e.message : 'Failed to read roster');
+    }
+  };
+
+  const updateMapping = (field: RosterField, header: string) =>
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (header) next[field] = header;
+      else delete next[field];
+      return next;
+    });
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setImporting(true);
+    try {
+      setResult(await commitRosterImport(preview, { target }));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!clientManagementEnabled) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16">
+        <p className="text-gray-700 dark:text-gray-300">Switch to broker mode to import client rosters.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Import Client Roster</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
+        Upload an Excel (.xlsx), CSV or tab-delimited export from your agency management system. Rows are checked before anything is saved.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <input
+        type="file"
+        accept=".xlsx,.csv,.tsv,.txt,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        className={`${selectClass} mb-8`}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+
+      {roster && (
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">Columns</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {(Object.entries(ROSTER_FIELDS) as [RosterField, { label: string }][]).map(([field, { label }]) => (
+              <label key={field} className="block text-sm text-gray-700 dark:text-gray-300">
+                {label}
+                <select className={selectClass} value={mapping[field] ?? ''} onChange={(e) => updateMapping(field, e.target.value)}>
+                  <option value="">Not imported</option>
+                  {roster.headers.map((header) => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {roster && !preview && (
+        <p className="mb-10 text-sm text-amber-700 dark:text-amber-300">
+          Map either a full name column or both first and last name columns.
+        </p>
+      )}
+
+      {preview && (
+        <section className="mb-10">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+              Preview <span className="text-gray-500 font-normal">({preview.validCount} ready, {preview.errorCount} with errors)</span>
+            </h2>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || preview.validCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {importing ? 'Importing...' : `Import ${preview.validCount} clients`}
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {preview.rows.map((row) => (
+              <li
+                key={row.rowNumber}
+                className={`p-3 bg-white dark:bg-dark-800 rounded-lg shadow-sm border-l-4 ${row.errors.length > 0 ? 'border-red-500' : 'border-green-500'}`}
+              >
+                <p className="text-sm text-gray-900 dark:text-gray-100">
+                  <span className="text-gray-500 dark:text-gray-400">Row {row.rowNumber}: </span>
+                  {row.client ? `${row.client.firstName} ${row.client.lastName}` : 'Not imported'}
+                  {row.scenario && <span className="text-gray-500 dark:text-gray-400"> · {row.scenario.name}</span>}
+                </p>
+                {row.errors.map((e) => (
+                  <p key={e.message} className="text-sm text-red-600 dark:text-red-400">{e.message}</p>
+                ))}
+                {row.warnings.map((warning) => (
+                  <p key={warning} className="text-sm text-amber-700 dark:text-amber-300">{warning}</p>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {result && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-800 dark:text-green-300">
+          Imported {result.imported} clients and {result.scenariosImported} scenarios
+          {result.duplicates > 0 && `; skipped ${result.duplicates} duplicates`}.
+          {result.errors.map((message) => (
+            <p key={message} className="mt-1 text-red-700 dark:text-red-300">{message}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
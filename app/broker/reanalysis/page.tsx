@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  fetchRemoteClients,
+  runRemoteBulkReanalysis,
+  getClientDisplayName,
+  type BrokerClient,
+  type BulkReanalysisReport,
+} from '@/lib/broker';
+import { SUPPORTED_PLAN_YEARS } from '@/lib/calculator/plan-year-rules';
+import { useFeature } from '@/lib/features';
+
+export default function BrokerReanalysisPage() {
+  const bulkOperationsEnabled = useFeature('showBulkOperations');
+  const [clients, setClients] = useState<BrokerClient[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [planYear, setPlanYear] = useState<number>(SUPPORTED_PLAN_YEARS[SUPPORTED_PLAN_YEARS.length - 1]!);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [report, setReport] = useState<BulkReanalysisReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Re-analysis runs on the server, so only server workspace clients are listed
+  useEffect(() => {
+    fetchRemoteClients()
+      .then((list) => {
+        setClients(list);
+        setSelected(new Set(list.filter((c) => c.scenarios.length > 0).map((c) => c.id)));
+      })
+      .catch((e: Error) => {
+        setClients([]);
+        setError(e.message);
+      });
+  }, []);
+
+  const toggle = (clientId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(clientId)) next.delete(clientId);
+      else next.add(clientId);
+      return next;
+    });
+
+  const handleRun = async () => {
+    setError(null);
+    setReport(null);
+    setProgress({ completed: 0, total: selected.size });
+    try {
+      const result = await runRemoteBulkReanalysis([...selected], planYear, {
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+      setReport(result.report);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to re-analyze clients');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  if (!bulkOperationsEnabled) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16">
+        <p className="text-gray-700 dark:text-gray-300">Switch to broker mode to re-analyze clients in bulk.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12">
+      <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">Plan Year Re-analysis</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-8">
+        Re-run your clients&apos; saved scenarios against a new plan year and see who to contact.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {clients === null ? (
+        <p className="text-gray-600 dark:text-gray-400">Loading clients...</p>
+      ) : (
+        <section className="mb-10">
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              Plan year
+              <select
+                value={planYear}
+                onChange={(e) => setPlanYear(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 dark:border-dark-600 rounded-lg bg-white dark:bg-dark-800 text-gray-900 dark:text-gray-100"
+              >
+                {SUPPORTED_PLAN_YEARS.map((year) => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={selected.size === 0 || progress !== null}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {progress
+                ? `Re-analyzing ${progress.completed} of ${progress.total} clients...`
+                : `Re-analyze ${selected.size} clients`}
+            </button>
+          </div>
+
+          <ul className="space-y-2">
+            {clients.map((client) => (
+              <li key={client.id}>
+                <label className="flex items-center gap-3 p-3 bg-white dark:bg-dark-800 rounded-lg shadow-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(client.id)}
+                    disabled={client.scenarios.length === 0}
+                    onChange={() => toggle(client.id)}
+                  />
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{getClientDisplayName(client)}</span>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {client.scenarios.length} saved {client.scenarios.length === 1 ? 'scenario' : 'scenarios'}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {report && (
+        <section>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-2">
+            Clients to contact <span className="text-gray-500 font-normal">({report.clientsToContact.length})</span>
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+            {report.scenariosAnalyzed} scenarios compared for {report.previousPlanYear} and {report.planYear}
+            {report.scenariosFailed > 0 && `; ${report.scenariosFailed} could not be analyzed`}.
+          </p>
+          {report.clientsToContact.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No material changes.</p>
+          ) : (
+            <ul className="space-y-3">
+              {report.clientsToContact.map((client) => (
+                <li key={client.clientId} className="p-4 bg-white dark:bg-dark-800 rounded-lg shadow-sm border-l-4 border-amber-500">
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{client.clientName}</p>
+                  <ul className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    {client.scenarios.filter((s) => s.material).map((scenario) => (
+                      <li key={scenario.scenarioId}>
+                        {scenario.scenarioName}: {scenario.changes.map((c) => c.description).join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
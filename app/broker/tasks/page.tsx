@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getClients,
+  fetchRemoteClients,
+  getTaskQueue,
+  getTasks,
+  completeTask,
+  migrateLocalTasks,
+  exportTasksToICalendar,
+  downloadICalendar,
+  TASK_TYPE_LABELS,
+  type ClientTask,
+  type BrokerClient,
+  type TaskQueue,
+} from '@/lib/broker';
+import { useFeature } from '@/lib/features';
+
+const SECTIONS: Array<{ key: keyof TaskQueue; title: string; accent: string }> = [
+  { key: 'overdue', title: 'Overdue', accent: 'border-red-500' },
+  { key: 'dueSoon', title: 'Due in the next 2 weeks', accent: 'border-amber-500' },
+  { key: 'upcoming', title: 'Upcoming (90 days)', accent: 'border-blue-500' },
+];
+
+export default function BrokerTasksPage() {
+  const clientManagementEnabled = useFeature('showClientManagement');
+  const [clients, setClients] = useState<BrokerClient[] | null>(null);
+  const [target, setTarget] = useState<'local' | 'remote'>('local');
+  const [queue, setQueue] = useState<TaskQueue>({ overdue: [], dueSoon: [], upcoming: [] });
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefer the server workspace; fall back to this browser's client book
+  useEffect(() => {
+    const load = async () => {
+      let loaded: BrokerClient[];
+      let loadedTarget: 'local' | 'remote' = 'remote';
+      try {
+        loaded = await fetchRemoteClients();
+      } catch {
+        loaded = getClients();
+        loadedTarget = 'local';
+      }
+      setTarget(loadedTarget);
+      setClients(await migrateLocalTasks(loaded, { target: loadedTarget }).catch(() => loaded));
+    };
+    load();
+  }, []);
+
+  const refresh = useCallback(() => {
+    if (clients) setQueue(getTaskQueue({ clients }));
+  }, [clients]);
+
+  useEffect(refresh, [refresh]);
+
+  const handleComplete = async (task: ClientTask) => {
+    const client = clients?.find((c) => c.id === task.clientId);
+    if (!client) return;
+
+    try {
+      const updated = await completeTask(client, task.id, { target });
+      setClients((prev) => prev?.map((c) => (c.id === updated.id ? updated : c)) ?? null);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update task');
+    }
+  };
+
+  const handleExport = () => {
+    if (!clients) return;
+    downloadICalendar(exportTasksToICalendar(getTasks({ clients })));
+  };
+
+  if (!clientManagementEnabled) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-16">
+        <p className="text-gray-700 dark:text-gray-300">Switch to broker mode to see client tasks.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12">
+      <div className="flex items-center justify-between mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Client Tasks</h1>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={!clients}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Export to Calendar (.ics)
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {clients === null ? (
+        <p className="text-gray-600 dark:text-gray-400">Loading tasks...</p>
+      ) : (
+        SECTIONS.map(({ key, title, accent }) => (
+          <section key={key} className="mb-10">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
+              {title} <span className="text-gray-500 font-normal">({queue[key].length})</span>
+            </h2>
+            {queue[key].length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing here.</p>
+            ) : (
+              <ul className="space-y-3">
+                {queue[key].map((task) => (
+                  <li
+                    key={task.id}
+                    className={`flex items-start justify-between gap-4 p-4 bg-white dark:bg-dark-800 rounded-lg shadow-sm border-l-4 ${accent}`}
+                  >
+                    <div>
+                      <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                        {TASK_TYPE_LABELS[task.type]} · due {new Date(task.dueDate).toLocaleDateString()}
+                        {task.priority === 'high' && <span className="ml-2 text-red-600">High priority</span>}
+                      </p>
+                      <p className="font-medium text-gray-900 dark:text-gray-100">{task.title}</p>
+                      {task.description && (
+                        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{task.description}</p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleComplete(task)}
+                      className="shrink-0 px-3 py-1 text-sm border border-gray-300 dark:border-dark-600 rounded-lg hover:bg-gray-50 dark:hover:bg-dark-700"
+                    >
+                      Done
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
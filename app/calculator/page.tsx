@@ -16,6 +16,8 @@ import { ErrorBoundary } from '@/components/ErrorBoundary';
 import LoadingOverlay from '@/components/LoadingOverlay';
 import { loadCalculatorData, saveCalculatorData, clearCalculatorData, isDataRecent } from '@/lib/localStorage';
 import { calculatorReducer, createInitialState } from '@/lib/calculatorReducer';
+import { serializeTaxHouseholds, validateTaxHouseholds } from '@/lib/calculator/tax-households';
+import { hasIncomeProfileAmounts, serializeIncomeProfile } from '@/lib/calculator/income-profile';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardNavigation';
 import { useFocusOnError, useStepFocus, useLiveRegionAnnouncement, useFocusVisible } from '@/hooks/useFocusManagement';
 import { useDebouncedCallback } from '@/hooks/useDebounce';
@@ -329,6 +331,9 @@ export default function Calculator() {
       }
     });
 
+    // Validate tax household assignments
+    Object.assign(newErrors, validateTaxHouseholds(formData.taxHouseholds, formData.numAdults, formData.numChildren));
+
     dispatch({ type: 'SET_ERRORS', errors: newErrors });
     return Object.keys(newErrors).length === 0;
   };
@@ -469,6 +474,9 @@ export default function Calculator() {
         params.append('childAges', formData.childAges.join(','));
       }
       params.append('hasMedicareEligible', formData.hasMedicareEligible.toString());
+      if (formData.taxHouseholds && formData.taxHouseholds.length > 1) {
+        params.append('taxHouseholds', serializeTaxHouseholds(formData.taxHouseholds));
+      }
 
       // Add employment & coverage info
       params.append('hasEmployerInsurance', formData.hasEmployerInsurance.toString());
@@ -504,6 +512,9 @@ export default function Calculator() {
       if (formData.annualIncome !== null) {
         params.append('annualIncome', formData.annualIncome.toString());
       }
+      if (formData.incomeProfile && hasIncomeProfileAmounts(formData.incomeProfile)) {
+        params.append('incomeProfile', serializeIncomeProfile(formData.incomeProfile));
+      }
       if (formData.netWorth !== null) {
         params.append('netWorth', formData.netWorth.toString());
       }
@@ -712,6 +723,7 @@ export default function Calculator() {
                     hasMedicareEligible={formData.hasMedicareEligible}
                     hasEmployerInsurance={formData.hasEmployerInsurance}
                     employerContribution={formData.employerContribution}
+                    taxHouseholds={formData.taxHouseholds}
                     errors={errors}
                     onUpdate={updateField}
                     onNext={handleNext}
@@ -795,6 +807,7 @@ export default function Calculator() {
                   <Step3Budget
                     budget={formData.budget}
                     annualIncome={formData.annualIncome}
+                    incomeProfile={formData.incomeProfile}
                     netWorth={formData.netWorth}
                     errors={errors}
                     onUpdate={updateField}
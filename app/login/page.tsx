@@ -11,6 +11,7 @@ export default function LoginPage() {
   const {
     isAuthenticated,
     password,
+    brokerEmail,
     showPassword,
     error,
     showNDA,
@@ -18,6 +19,7 @@ export default function LoginPage() {
     isLockedOut,
     lockoutTimeRemaining,
     setPassword,
+    setBrokerEmail,
     handleTogglePassword,
     handleNDAAccept,
     handleNDADecline,
@@ -97,12 +99,35 @@ export default function LoginPage() {
 
             {/* Login Form */}
             <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label
+                  htmlFor="broker-email"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Broker Email <span className="text-gray-400 dark:text-gray-500 font-normal">(optional)</span>
+                </label>
+                <input
+                  id="broker-email"
+                  type="email"
+                  value={brokerEmail}
+                  onChange={(e) => setBrokerEmail(e.target.value)}
+                  autoComplete="email"
+                  disabled={isLockedOut}
+                  className="w-full px-4 py-3 bg-gray-50 dark:bg-dark-900 border border-gray-300 dark:border-dark-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent text-gray-900 dark:text-gray-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  placeholder="you@agency.com"
+                  aria-describedby="broker-email-hint"
+                />
+                <p id="broker-email-hint" className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Brokers: enter your email and your broker password to open your client workspace.
+                </p>
+              </div>
+
               <div>
                 <label
                   htmlFor="password"
                   className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
                 >
-                  Access Password
+                  {brokerEmail.trim() ? 'Broker Password' : 'Access Password'}
                 </label>
                 <div className="relative">
                   <input
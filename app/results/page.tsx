@@ -25,6 +25,8 @@ import { trackEvent, trackCalculatorCompleted } from '@/lib/analytics';
 import { validateURLParameters, getValidationSummary } from '@/lib/urlValidation';
 import { logger, devLogger } from '@/lib/logger';
 import { safeParseInt, safeParseFloat } from '@/lib/validation/numeric';
+import { parseTaxHouseholds } from '@/lib/calculator/tax-households';
+import { parseIncomeProfile } from '@/lib/calculator/income-profile';
 import CollapsibleSection from '@/components/results/CollapsibleSection';
 import ResultsNavigation from '@/components/results/ResultsNavigation';
 import MedicarePlanFinderLink from '@/components/results/MedicarePlanFinderLink';
@@ -132,6 +134,8 @@ function ResultsContent() {
   const currentOutOfPocketMax = safeParseFloat(searchParams.get('currentOutOfPocketMax'), { defaultValue: 0, throwOnError: false }) ?? 0;
   const currentCoverageNotes = searchParams.get('currentCoverageNotes') || '';
   const preferredPlanTypesStr = searchParams.get('preferredPlanTypes') || '';
+  const taxHouseholdsStr = searchParams.get('taxHouseholds');
+  const incomeProfileStr = searchParams.get('incomeProfile');
 
   const formData = useMemo(() => {
     // Validate and filter plan types from URL params
@@ -152,6 +156,7 @@ function ResultsContent() {
     hasMedicareEligible,
     hasEmployerInsurance,
     employerContribution,
+    taxHouseholds: parseTaxHouseholds(taxHouseholdsStr),
     hasChronicConditions,
     chronicConditions,
     prescriptionCount,
@@ -178,6 +183,7 @@ function ResultsContent() {
     budget,
     incomeRange, // DEPRECATED - kept for backward compatibility
     annualIncome,
+    incomeProfile: parseIncomeProfile(incomeProfileStr),
     netWorth,
     simpleMode,
     hasCurrentInsurance,
@@ -206,7 +212,7 @@ function ResultsContent() {
     providerPreference, budget, incomeRange, annualIncome, netWorth, simpleMode,
     hasCurrentInsurance, currentCarrier, currentPlanType,
     currentMonthlyCost, currentDeductible, currentOutOfPocketMax,
-    currentCoverageNotes, preferredPlanTypesStr,
+    currentCoverageNotes, preferredPlanTypesStr, taxHouseholdsStr, incomeProfileStr,
   ]);
 
   // Validate URL parameters
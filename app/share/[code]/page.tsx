@@ -3,18 +3,31 @@
 /**
  * Shared Scenario Page
  *
- * Displays a shared coverage scenario and allows users to load it.
+ * Displays a shared coverage scenario and allows users to load it. The code
+ * is either an encoded scenario or a short-link code whose scenario is stored
+ * server-side (and may need a passcode). Links shared by a broker may carry a
+ * branding profile (?brand=) that applies their logo, colors, contact block
+ * and disclaimer.
  */
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import {
   decodeScenario,
   isValidEncodedScenario,
+  isShortLinkCode,
+  fetchSharedScenario,
   getScenarioSummary,
   type ShareableScenario,
 } from '@/lib/sharing';
+import {
+  fetchPublicBranding,
+  formatBrandLine,
+  getContactLines,
+  SHARE_BRANDING_PARAM,
+  type ReportBranding,
+} from '@/lib/branding';
 
 export default function SharePage() {
   const params = useParams();
@@ -24,6 +37,44 @@ export default function SharePage() {
   const [scenario, setScenario] = useState<ShareableScenario | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [branding, setBranding] = useState<ReportBranding | null>(null);
+  const [needsPasscode, setNeedsPasscode] = useState(false);
+  const [passcode, setPasscode] = useState('');
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | undefined>();
+  const isShortLink = Boolean(code) && isShortLinkCode(code);
+
+  const loadShortLink = useCallback(async (enteredPasscode?: string) => {
+    try {
+      const result = await fetchSharedScenario(code, enteredPasscode);
+      if (result.ok) {
+        setScenario(result.scenario);
+        setExpiresAt(result.expiresAt);
+        setNeedsPasscode(false);
+      } else if (result.reason === 'passcode_required') {
+        setNeedsPasscode(true);
+      } else if (result.reason === 'passcode_invalid' || result.reason === 'passcode_locked') {
+        setNeedsPasscode(true);
+        setPasscodeError(result.error);
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError('Failed to load scenario');
+    } finally {
+      setLoading(false);
+    }
+  }, [code]);
+
+  useEffect(() => {
+    const profileId = new URLSearchParams(window.location.search).get(SHARE_BRANDING_PARAM);
+    if (!profileId) return;
+
+    // Unknown or unavailable branding falls back to the default look
+    fetchPublicBranding(profileId)
+      .then(setBranding)
+      .catch(() => setBranding(null));
+  }, []);
 
   useEffect(() => {
     if (!code) {
@@ -32,6 +83,11 @@ export default function SharePage() {
       return;
     }
 
+    if (isShortLinkCode(code)) {
+      loadShortLink();
+      return;
+    }
+
     if (!isValidEncodedScenario(code)) {
       setError('Invalid or expired share link');
       setLoading(false);
@@ -46,7 +102,13 @@ export default function SharePage() {
     } finally {
       setLoading(false);
     }
-  }, [code]);
+  }, [code, loadShortLink]);
+
+  const handlePasscodeSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setPasscodeError(null);
+    loadShortLink(passcode);
+  };
 
   const handleLoadScenario = () => {
     if (!scenario) return;
@@ -73,6 +135,37 @@ export default function SharePage() {
     );
   }
 
+  if (needsPasscode && !scenario) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <form onSubmit={handlePasscodeSubmit} className="max-w-md w-full bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">
+            Passcode Required
+          </h1>
+          <p className="text-gray-600 mb-4">
+            Enter the passcode you were given to view this scenario.
+          </p>
+          <input
+            type="password"
+            autoFocus
+            value={passcode}
+            onChange={(e) => setPasscode(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg mb-2"
+            aria-label="Passcode"
+          />
+          {passcodeError && <p className="text-red-600 text-sm mb-2">{passcodeError}</p>}
+          <button
+            type="submit"
+            disabled={!passcode}
+            className="w-full mt-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            View Scenario
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   if (error || !scenario) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
@@ -109,13 +202,26 @@ export default function SharePage() {
       <div className="max-w-2xl mx-auto">
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
           {/* Header */}
-          <div className="bg-blue-600 px-6 py-4">
-            <h1 className="text-xl font-semibold text-white">
-              Shared Coverage Scenario
-            </h1>
-            <p className="text-blue-100 text-sm mt-1">
-              Created {createdDate}
-            </p>
+          <div
+            className="bg-blue-600 px-6 py-4 flex items-center justify-between gap-4"
+            style={branding ? { backgroundColor: branding.primaryColor } : undefined}
+          >
+            <div>
+              <h1 className="text-xl font-semibold text-white">
+                Shared Coverage Scenario
+              </h1>
+              <p className="text-blue-100 text-sm mt-1">
+                {branding ? `From ${branding.agencyName} · ` : ''}Created {createdDate}
+              </p>
+            </div>
+            {branding?.logoDataUrl && (
+              // eslint-disable-next-line @next/next/no-img-element -- logos are stored as data URLs
+              <img
+                src={branding.logoDataUrl}
+                alt={branding.agencyName}
+                className="h-10 max-w-[160px] object-contain bg-white rounded p-1"
+              />
+            )}
           </div>
 
           {/* Summary */}
@@ -178,6 +284,7 @@ export default function SharePage() {
             <button
               onClick={handleLoadScenario}
               className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+              style={branding ? { backgroundColor: branding.accentColor } : undefined}
             >
               Load This Scenario
             </button>
@@ -190,9 +297,27 @@ export default function SharePage() {
           </div>
         </div>
 
+        {/* Broker contact and disclosures */}
+        {branding && (
+          <div className="bg-white rounded-lg shadow-md p-6 mt-6">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">
+              Questions? Contact your agent
+            </h2>
+            <p className="text-gray-900 font-medium">{formatBrandLine(branding)}</p>
+            {getContactLines(branding.contact).map((line) => (
+              <p key={line} className="text-gray-700 text-sm">{line}</p>
+            ))}
+            {branding.disclaimer && (
+              <p className="text-gray-500 text-xs mt-4 whitespace-pre-line">{branding.disclaimer}</p>
+            )}
+          </div>
+        )}
+
         {/* Footer */}
         <p className="text-center text-gray-500 text-sm mt-6">
-          This link contains your coverage scenario data. No personal information is stored on our servers.
+          {isShortLink
+            ? `This scenario is stored securely on our servers${expiresAt ? ` until ${new Date(expiresAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}` : ''}.`
+            : 'This link contains your coverage scenario data. No personal information is stored on our servers.'}
         </p>
       </div>
     </div>
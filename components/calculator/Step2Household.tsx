@@ -1,8 +1,16 @@
 'use client';
 
-import { FormErrors, UpdateFieldFunction } from '@/types';
+import { FormErrors, TaxHousehold, UpdateFieldFunction } from '@/types';
 import InsuranceTerm from '@/components/InsuranceTerm';
 import InfoTooltip from '@/components/InfoTooltip';
+import {
+  MAX_TAX_HOUSEHOLDS,
+  addTaxHousehold,
+  assignTaxHouseholdMember,
+  createSeparateTaxHouseholds,
+  removeTaxHousehold,
+  syncTaxHouseholds,
+} from '@/lib/calculator/tax-households';
 
 interface Step2Props {
   numAdults: number;
@@ -14,6 +22,7 @@ interface Step2Props {
   hasMedicareEligible: boolean;
   hasEmployerInsurance: boolean;
   employerContribution: number;
+  taxHouseholds?: TaxHousehold[];
   errors: FormErrors;
   onUpdate: UpdateFieldFunction;
   onNext: () => void;
@@ -30,6 +39,7 @@ export default function Step2Household({
   hasMedicareEligible,
   hasEmployerInsurance,
   employerContribution,
+  taxHouseholds,
   errors,
   onUpdate,
   onNext,
@@ -43,6 +53,10 @@ export default function Step2Household({
     // Initialize or trim tobacco usage array
     const newTobacco = Array(count).fill(false).map((_, i) => adultsUseTobacco[i] || false);
     onUpdate('adultsUseTobacco', newTobacco);
+    // Separate tax households need at least two adults
+    if (taxHouseholds) {
+      onUpdate('taxHouseholds', count > 1 ? syncTaxHouseholds(taxHouseholds, count, numChildren) : undefined);
+    }
   };
 
   const handleChildCountChange = (count: number) => {
@@ -53,6 +67,9 @@ export default function Step2Household({
     // Initialize or trim tobacco usage array
     const newTobacco = Array(count).fill(false).map((_, i) => childrenUseTobacco[i] || false);
     onUpdate('childrenUseTobacco', newTobacco);
+    if (taxHouseholds) {
+      onUpdate('taxHouseholds', syncTaxHouseholds(taxHouseholds, numAdults, count));
+    }
   };
 
   const updateAdultAge = (index: number, age: number) => {
@@ -116,6 +133,29 @@ export default function Step2Household({
     onUpdate('childrenUseTobacco', newTobacco);
   };
 
+  const hasSeparateTaxHouseholds = (taxHouseholds?.length ?? 0) > 1;
+
+  const setSeparateTaxHouseholds = (separate: boolean) => {
+    onUpdate('taxHouseholds', separate ? createSeparateTaxHouseholds(numAdults, numChildren) : undefined);
+  };
+
+  const getMemberHouseholdId = (memberType: 'adult' | 'child', index: number) => {
+    const key = memberType === 'adult' ? 'adultIndexes' : 'childIndexes';
+    return taxHouseholds?.find(h => h[key].includes(index))?.id ?? '';
+  };
+
+  const updateMemberHousehold = (memberType: 'adult' | 'child', index: number, householdId: string) => {
+    if (taxHouseholds) {
+      onUpdate('taxHouseholds', assignTaxHouseholdMember(taxHouseholds, memberType, index, householdId));
+    }
+  };
+
+  const updateTaxHouseholdIncome = (householdId: string, income: number | null) => {
+    if (taxHouseholds) {
+      onUpdate('taxHouseholds', taxHouseholds.map(h => h.id === householdId ? { ...h, annualIncome: income } : h));
+    }
+  };
+
   const validateEmployerContribution = () => {
     if (employerContribution === undefined || employerContribution === null || isNaN(employerContribution)) {
       return;
@@ -347,6 +387,149 @@ export default function Step2Household({
           </div>
         )}
 
+        {/* Tax Households */}
+        {numAdults > 1 && (
+          <div className="bg-gray-50 p-6 rounded-lg border border-gray-200" role="group" aria-labelledby="tax-households-heading">
+            <h3 id="tax-households-heading" className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+              Does everyone file taxes together?
+              <InfoTooltip content="Subsidies are based on tax households, not who lives together. Unmarried partners, adult children who file their own return, or parents claimed by a child are separate tax households and apply separately." />
+            </h3>
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={() => setSeparateTaxHouseholds(false)}
+                className={`flex-1 px-6 py-3 rounded-lg font-semibold border-2 transition-all ${
+                  !hasSeparateTaxHouseholds
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-600'
+                }`}
+                aria-label="Yes, everyone files one tax return"
+                aria-pressed={!hasSeparateTaxHouseholds}
+              >
+                Yes, one return
+              </button>
+              <button
+                type="button"
+                onClick={() => !hasSeparateTaxHouseholds && setSeparateTaxHouseholds(true)}
+                className={`flex-1 px-6 py-3 rounded-lg font-semibold border-2 transition-all ${
+                  hasSeparateTaxHouseholds
+                    ? 'bg-blue-600 text-white border-blue-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-600'
+                }`}
+                aria-label="No, the household files separate tax returns"
+                aria-pressed={hasSeparateTaxHouseholds}
+              >
+                No, separate returns
+              </button>
+            </div>
+
+            {hasSeparateTaxHouseholds && taxHouseholds && (
+              <div className="mt-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {Array(numAdults).fill(0).map((_, index) => (
+                    <div key={`adult-${index}`}>
+                      <label htmlFor={`adult-tax-household-${index}`} className="block text-sm font-medium text-gray-700 mb-2">
+                        Adult {index + 1} files with
+                      </label>
+                      <select
+                        id={`adult-tax-household-${index}`}
+                        value={getMemberHouseholdId('adult', index)}
+                        onChange={(e) => updateMemberHousehold('adult', index, e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
+                      >
+                        {taxHouseholds.map(h => (
+                          <option key={h.id} value={h.id}>{h.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  {Array(numChildren).fill(0).map((_, index) => (
+                    <div key={`child-${index}`}>
+                      <label htmlFor={`child-tax-household-${index}`} className="block text-sm font-medium text-gray-700 mb-2">
+                        Child {index + 1} is claimed by
+                      </label>
+                      <select
+                        id={`child-tax-household-${index}`}
+                        value={getMemberHouseholdId('child', index)}
+                        onChange={(e) => updateMemberHousehold('child', index, e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
+                      >
+                        {taxHouseholds.map(h => (
+                          <option key={h.id} value={h.id}>{h.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {taxHouseholds.map((household, index) => (
+                  <div key={household.id} className="bg-white p-4 rounded-lg border border-gray-200">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-semibold text-gray-900">{household.label}</span>
+                      {index > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => onUpdate('taxHouseholds', removeTaxHousehold(taxHouseholds, household.id))}
+                          className="text-sm text-red-600 hover:text-red-700"
+                          aria-label={`Remove ${household.label}`}
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                    {index === 0 ? (
+                      <p className="text-sm text-gray-500">Uses the household income you enter in the next steps</p>
+                    ) : (
+                      <>
+                        <label htmlFor={`tax-household-income-${index}`} className="block text-sm font-medium text-gray-700 mb-2">
+                          Annual income on this return
+                        </label>
+                        <div className="relative">
+                          <span className="absolute left-4 top-3 text-gray-500">$</span>
+                          <input
+                            id={`tax-household-income-${index}`}
+                            type="number"
+                            min="0"
+                            value={household.annualIncome ?? ''}
+                            onChange={(e) => updateTaxHouseholdIncome(
+                              household.id,
+                              e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0)
+                            )}
+                            className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
+                            placeholder="35000"
+                            aria-invalid={!!errors[`taxHousehold${index}Income`]}
+                          />
+                        </div>
+                      </>
+                    )}
+                    {(errors[`taxHousehold${index}`] || errors[`taxHousehold${index}Income`]) && (
+                      <p className="text-red-600 text-sm mt-1" role="alert" aria-live="polite">
+                        {errors[`taxHousehold${index}`] || errors[`taxHousehold${index}Income`]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+
+                {taxHouseholds.length < Math.min(MAX_TAX_HOUSEHOLDS, numAdults) && (
+                  <button
+                    type="button"
+                    onClick={() => onUpdate('taxHouseholds', addTaxHousehold(taxHouseholds))}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    + Add another tax household
+                  </button>
+                )}
+
+                {errors.taxHouseholds && (
+                  <p className="text-red-600 text-sm" role="alert" aria-live="polite">
+                    {errors.taxHouseholds}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Medicare Eligibility */}
         <div className="bg-gray-50 p-6 rounded-lg border border-gray-200" role="group" aria-labelledby="medicare-heading">
           <h3 id="medicare-heading" className="text-lg font-semibold text-gray-900 mb-4">
@@ -1,15 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { FormErrors, UpdateFieldFunction } from '@/types';
+import { FormErrors, IncomeProfile, UpdateFieldFunction } from '@/types';
 import ErrorMessage from '@/components/ErrorMessage';
 import InfoTooltip from '@/components/InfoTooltip';
 import { ScaleButton } from '@/components/animations';
 import { parseCurrencyInput, formatCurrencyDisplay } from '@/lib/validation';
+import { calculateProfileMAGI, hasIncomeProfileAmounts, summarizeIncomeProfile } from '@/lib/calculator/income-profile';
 
 interface Step3Props {
   budget: string;
   annualIncome: number | null;
+  incomeProfile?: IncomeProfile;
   netWorth: number | null;
   errors: FormErrors;
   onUpdate: UpdateFieldFunction;
@@ -26,15 +28,29 @@ const BUDGET_OPTIONS = [
   { value: 'not-sure', label: 'Not sure / show all options' },
 ];
 
+const INCOME_PROFILE_INPUTS: { field: Exclude<keyof IncomeProfile, 'filingStatus'>; label: string; hint: string }[] = [
+  { field: 'wages', label: 'Wages and salary', hint: 'W-2 box 1' },
+  { field: 'selfEmploymentIncome', label: 'Self-employment profit', hint: 'Net profit after business expenses' },
+  { field: 'socialSecurityBenefits', label: 'Social Security benefits', hint: 'All benefits count toward MAGI' },
+  { field: 'investmentIncome', label: 'Interest, dividends and capital gains', hint: 'Taxable investment income' },
+  { field: 'taxExemptInterest', label: 'Tax-exempt interest', hint: 'Municipal bond interest' },
+  { field: 'foreignIncomeExclusion', label: 'Excluded foreign income', hint: 'Foreign earned income exclusion' },
+  { field: 'otherIncome', label: 'Other income', hint: 'Unemployment, rental, alimony, etc.' },
+  { field: 'iraContribution', label: 'Traditional IRA contributions', hint: 'Deductible contributions' },
+  { field: 'hsaContribution', label: 'HSA contributions', hint: 'Made outside of payroll' },
+];
+
 export default function Step3Budget({
   budget,
   annualIncome,
+  incomeProfile,
   netWorth,
   errors,
   onUpdate,
   onSubmit,
   onBack,
 }: Step3Props) {
+  const [itemizeIncome, setItemizeIncome] = useState(incomeProfile !== undefined);
   // Local state for input fields (allows user to type freely)
   const [incomeInput, setIncomeInput] = useState(formatCurrencyDisplay(annualIncome));
   const [netWorthInput, setNetWorthInput] = useState(formatCurrencyDisplay(netWorth));
@@ -70,6 +86,29 @@ export default function Step3Budget({
     }
   };
 
+  const handleItemizeIncome = (checked: boolean) => {
+    setItemizeIncome(checked);
+    if (checked) {
+      setPreferNotSayIncome(false);
+      onUpdate('incomeProfile', {});
+    } else {
+      onUpdate('incomeProfile', undefined);
+    }
+  };
+
+  const handleProfileChange = (field: Exclude<keyof IncomeProfile, 'filingStatus'>, value: string) => {
+    const parsed = value === '' ? undefined : Math.max(0, parseFloat(value) || 0);
+    const profile: IncomeProfile = { ...incomeProfile, [field]: parsed };
+    const magi = hasIncomeProfileAmounts(profile) ? calculateProfileMAGI(profile) : null;
+    onUpdate('incomeProfile', profile);
+    onUpdate('annualIncome', magi);
+    setIncomeInput(formatCurrencyDisplay(magi));
+  };
+
+  const profileSummary = incomeProfile && hasIncomeProfileAmounts(incomeProfile)
+    ? summarizeIncomeProfile(incomeProfile)
+    : null;
+
   const handleNetWorthChange = (value: string) => {
     setNetWorthInput(value);
     const parsed = parseCurrencyInput(value);
@@ -125,10 +164,10 @@ export default function Step3Budget({
               value={incomeInput}
               onChange={(e) => handleIncomeChange(e.target.value)}
               onBlur={handleIncomeBlur}
-              disabled={preferNotSayIncome}
+              disabled={preferNotSayIncome || itemizeIncome}
               placeholder="e.g., $75,000 or $1.5M"
               className={`w-full px-6 py-4 rounded-lg font-semibold border-2 text-left transition-all text-lg ${
-                preferNotSayIncome
+                preferNotSayIncome || itemizeIncome
                   ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
                   : 'bg-white text-gray-700 border-gray-300 hover:border-blue-600 focus:border-blue-600 focus:ring-2 focus:ring-blue-200'
               }`}
@@ -147,7 +186,54 @@ export default function Step3Budget({
             />
             <span className="text-gray-600">Prefer not to say</span>
           </label>
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={itemizeIncome}
+              onChange={(e) => handleItemizeIncome(e.target.checked)}
+              disabled={preferNotSayIncome}
+              className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-600">Itemize my income (self-employment, Social Security, deductions)</span>
+          </label>
         </div>
+        {itemizeIncome && (
+          <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {INCOME_PROFILE_INPUTS.map(({ field, label, hint }) => (
+                <div key={field}>
+                  <label htmlFor={`income-profile-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {label}
+                  </label>
+                  <div className="relative">
+                    <span className="absolute left-4 top-2 text-gray-500">$</span>
+                    <input
+                      id={`income-profile-${field}`}
+                      type="number"
+                      min="0"
+                      value={incomeProfile?.[field] ?? ''}
+                      onChange={(e) => handleProfileChange(field, e.target.value)}
+                      className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-blue-600"
+                      placeholder="0"
+                    />
+                  </div>
+                  <p className="text-gray-500 text-xs mt-1">{hint}</p>
+                </div>
+              ))}
+            </div>
+            {profileSummary && (
+              <div className="mt-4 text-sm text-gray-700 space-y-1" aria-live="polite">
+                {profileSummary.selfEmploymentTaxDeduction > 0 && (
+                  <p>Deductible half of self-employment tax: {formatCurrencyDisplay(profileSummary.selfEmploymentTaxDeduction)}</p>
+                )}
+                {profileSummary.magiAddBacks > 0 && (
+                  <p>Added back for MAGI (tax-exempt, foreign and non-taxable Social Security): {formatCurrencyDisplay(profileSummary.magiAddBacks)}</p>
+                )}
+                <p className="font-semibold">Marketplace MAGI: {formatCurrencyDisplay(profileSummary.magi)}</p>
+              </div>
+            )}
+          </div>
+        )}
         {errors.annualIncome && (
           <ErrorMessage message={errors.annualIncome} />
         )}
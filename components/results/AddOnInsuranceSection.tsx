@@ -5,6 +5,8 @@ import AddOnInsuranceCard from './AddOnInsuranceCard';
 import CostComparisonView from './CostComparisonView';
 import type { AddOnInsuranceAnalysis } from '@/types/addOnInsurance';
 import { exportAndDownloadRecommendations, copyRecommendationsToClipboard } from '@/lib/exportUtils';
+import { fetchDefaultBranding, toReportBranding } from '@/lib/branding';
+import { useFeature } from '@/lib/features';
 
 interface AddOnInsuranceSectionProps {
   analysis: AddOnInsuranceAnalysis;
@@ -19,6 +21,7 @@ function AddOnInsuranceSection({ analysis }: AddOnInsuranceSectionProps) {
   const [showAllOptions, setShowAllOptions] = useState(false);
   const [sortBy, setSortBy] = useState<'priority' | 'cost' | 'score'>('priority');
   const [filterByCategory, setFilterByCategory] = useState<string>('all');
+  const brandingEnabled = useFeature('showBrandingOptions');
 
   const { totalMonthlyHighPriority, totalMonthlyAllRecommended, householdAgeGroups, recommendations, allRecommendations } = analysis;
 
@@ -139,9 +142,11 @@ function AddOnInsuranceSection({ analysis }: AddOnInsuranceSectionProps) {
               Copy
             </button>
             <button
-              onClick={() => {
+              onClick={async () => {
                 try {
-                  exportAndDownloadRecommendations(analysis);
+                  // Brokers get their default branding profile; fall back to unbranded if unavailable
+                  const profile = brandingEnabled ? await fetchDefaultBranding().catch(() => null) : null;
+                  exportAndDownloadRecommendations(analysis, profile ? toReportBranding(profile) : undefined);
                 } catch {
                   alert('Failed to export CSV. Please try again.');
                 }
@@ -0,0 +1,145 @@
+'use client';
+
+import {
+  getInputGroupLabel,
+  type OutputChange,
+  type ScenarioResultDiff as ScenarioResultDiffData,
+} from '@/lib/versioning';
+
+interface ScenarioResultDiffProps {
+  diff: ScenarioResultDiffData;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+// Metrics where a higher number is better for the household
+const HIGHER_IS_BETTER = new Set<OutputChange['metric']>(['subsidy', 'coverageScore']);
+
+export default function ScenarioResultDiff({
+  diff,
+  beforeLabel = 'Before',
+  afterLabel = 'After',
+}: ScenarioResultDiffProps) {
+  const { inputChanges, outputChanges } = diff;
+
+  const formatDelta = (change: OutputChange) => {
+    if (!change.delta) return null;
+
+    const improved = HIGHER_IS_BETTER.has(change.metric) ? change.delta > 0 : change.delta < 0;
+    const sign = change.delta > 0 ? '+' : '-';
+    const amount = change.metric === 'coverageScore'
+      ? `${Math.abs(change.delta)} pts`
+      : `$${Math.abs(change.delta).toLocaleString()}/mo`;
+
+    return (
+      <span className={`text-xs font-semibold ${improved ? 'text-green-600' : 'text-red-600'}`}>
+        {sign}{amount}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 overflow-hidden">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-5">
+        <div className="flex items-center gap-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-white/20 text-2xl">
+            🔀
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white">What Changed</h3>
+            <p className="text-indigo-100 text-sm">
+              {beforeLabel} vs {afterLabel}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {/* Result Changes */}
+        <div className="mb-8">
+          <h4 className="text-sm font-semibold text-gray-700 mb-4">Results</h4>
+          {outputChanges.length === 0 ? (
+            <p className="text-sm text-gray-600 bg-gray-50 rounded-lg px-4 py-3">
+              {inputChanges.length === 0
+                ? 'These scenarios have the same inputs.'
+                : 'These changes do not affect the recommendation, cost, subsidy, coverage score or action items.'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {outputChanges.map((change) => (
+                <div key={change.metric} className="bg-gray-50 rounded-xl p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="text-sm font-medium text-gray-700">{change.label}</span>
+                    {formatDelta(change)}
+                  </div>
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-600">{change.before}</span>
+                    <span className="text-blue-500">→</span>
+                    <span className="font-semibold text-gray-900">{change.after}</span>
+                  </div>
+
+                  {change.metric === 'actionItems' && (
+                    <ul className="mt-3 space-y-1">
+                      {change.added?.map((item) => (
+                        <li key={`added-${item}`} className="text-xs text-gray-700 flex items-start gap-2">
+                          <span className="text-green-600 font-bold">+</span>
+                          <span>{item}</span>
+                        </li>
+                      ))}
+                      {change.removed?.map((item) => (
+                        <li key={`removed-${item}`} className="text-xs text-gray-500 line-through flex items-start gap-2">
+                          <span className="text-red-500 font-bold no-underline">−</span>
+                          <span>{item}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="mt-3 flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-gray-500">Driven by:</span>
+                    {change.drivenBy.length > 0 ? (
+                      change.drivenBy.map((key) => (
+                        <span key={key} className="bg-indigo-100 text-indigo-800 text-xs px-2 py-0.5 rounded-full font-medium">
+                          {getInputGroupLabel(key)}
+                        </span>
+                      ))
+                    ) : (
+                      <span className="bg-gray-200 text-gray-700 text-xs px-2 py-0.5 rounded-full font-medium">
+                        Several changes combined
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Input Changes */}
+        {inputChanges.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-4">Inputs</h4>
+            <div className="space-y-2">
+              {inputChanges.map((change) => (
+                <div key={change.key} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 bg-gray-50 rounded-lg px-4 py-2">
+                  <span className="text-sm font-medium text-gray-700">{change.label}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-gray-600">{change.before}</span>
+                    <span className="text-blue-500">→</span>
+                    <span className="text-sm font-semibold text-gray-900">{change.after}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <p className="mt-6 text-xs text-gray-500 text-center">
+          * Each input change is re-analyzed on its own to find which results it moves. Estimates only.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+CREATE TABLE "broker_client_scenarios" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"client_record_id" integer NOT NULL,
+	"scenario_id" varchar(64) NOT NULL,
+	"name" varchar(200) NOT NULL,
+	"scenario" jsonb NOT NULL,
+	"recommended_plan" varchar(200),
+	"estimated_cost" jsonb,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "broker_clients" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"broker_id" integer NOT NULL,
+	"client_id" varchar(64) NOT NULL,
+	"first_name" varchar(100) NOT NULL,
+	"last_name" varchar(100) NOT NULL,
+	"email" varchar(255),
+	"phone" varchar(50),
+	"notes" text,
+	"tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "brokers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"broker_id" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"display_name" varchar(200),
+	"local_data_synced_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"last_login_at" timestamp,
+	CONSTRAINT "brokers_broker_id_unique" UNIQUE("broker_id"),
+	CONSTRAINT "brokers_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "broker_client_scenarios" ADD CONSTRAINT "broker_client_scenarios_client_record_id_broker_clients_id_fk" FOREIGN KEY ("client_record_id") REFERENCES "public"."broker_clients"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "broker_clients" ADD CONSTRAINT "broker_clients_broker_id_brokers_id_fk" FOREIGN KEY ("broker_id") REFERENCES "public"."brokers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "broker_client_scenarios_client_scenario_idx" ON "broker_client_scenarios" USING btree ("client_record_id","scenario_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "broker_clients_broker_client_idx" ON "broker_clients" USING btree ("broker_id","client_id");--> statement-breakpoint
+CREATE INDEX "broker_clients_broker_updated_idx" ON "broker_clients" USING btree ("broker_id","updated_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "broker_clients" ADD COLUMN "key_dates" jsonb;
\ No newline at end of file
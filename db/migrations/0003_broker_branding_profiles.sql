@@ -0,0 +1,20 @@
+CREATE TABLE "broker_branding_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"profile_id" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"broker_id" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"agency_name" varchar(200) NOT NULL,
+	"license_number" varchar(50),
+	"logo_data_url" text,
+	"primary_color" varchar(7) NOT NULL,
+	"accent_color" varchar(7) NOT NULL,
+	"disclaimer" text,
+	"contact" jsonb,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "broker_branding_profiles_profile_id_unique" UNIQUE("profile_id")
+);
+--> statement-breakpoint
+ALTER TABLE "broker_branding_profiles" ADD CONSTRAINT "broker_branding_profiles_broker_id_brokers_id_fk" FOREIGN KEY ("broker_id") REFERENCES "public"."brokers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "broker_branding_profiles_broker_idx" ON "broker_branding_profiles" USING btree ("broker_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "broker_clients" ADD COLUMN "consents" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "broker_clients" ADD COLUMN "status_changed_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "broker_clients" ADD COLUMN "anonymized_at" timestamp;--> statement-breakpoint
+ALTER TABLE "brokers" ADD COLUMN "retention_policy" jsonb;
\ No newline at end of file
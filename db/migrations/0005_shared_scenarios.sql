@@ -0,0 +1,15 @@
+CREATE TABLE "shared_scenarios" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(16) NOT NULL,
+	"scenario" jsonb NOT NULL,
+	"manage_token_hash" varchar(64) NOT NULL,
+	"passcode_hash" varchar(200),
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"last_viewed_at" timestamp,
+	"expires_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "shared_scenarios_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE INDEX "shared_scenarios_expires_idx" ON "shared_scenarios" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "counties" DROP CONSTRAINT "counties_county_fips_unique";--> statement-breakpoint
+ALTER TABLE "aca_plans" ADD COLUMN "data_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "counties" ADD COLUMN "data_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "zip_code_mappings" ADD COLUMN "data_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "data_imports" ADD COLUMN "data_version_id" uuid;--> statement-breakpoint
+CREATE INDEX "aca_plans_version_state_idx" ON "aca_plans" USING btree ("data_version_id","state");--> statement-breakpoint
+CREATE INDEX "zip_code_mappings_zip_version_idx" ON "zip_code_mappings" USING btree ("zip_code","data_version_id");--> statement-breakpoint
+CREATE INDEX "data_versions_type_status_idx" ON "data_versions" USING btree ("data_type","status");--> statement-breakpoint
+ALTER TABLE "counties" ADD CONSTRAINT "counties_fips_version_unique" UNIQUE NULLS NOT DISTINCT("county_fips","data_version_id");
\ No newline at end of file
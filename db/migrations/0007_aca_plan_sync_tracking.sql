@@ -0,0 +1,3 @@
+ALTER TABLE "aca_plans" ADD COLUMN "plan_id" varchar(50);--> statement-breakpoint
+ALTER TABLE "aca_plans" ADD COLUMN "content_hash" varchar(64);--> statement-breakpoint
+CREATE INDEX "aca_plans_version_plan_idx" ON "aca_plans" USING btree ("data_version_id","plan_id");
\ No newline at end of file
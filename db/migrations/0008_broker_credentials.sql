@@ -0,0 +1 @@
+ALTER TABLE "brokers" ADD COLUMN "password_hash" varchar(255);
\ No newline at end of file
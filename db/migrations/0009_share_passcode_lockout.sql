@@ -0,0 +1,2 @@
+ALTER TABLE "shared_scenarios" ADD COLUMN "failed_passcode_attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shared_scenarios" ADD COLUMN "passcode_locked_until" timestamp;
\ No newline at end of file
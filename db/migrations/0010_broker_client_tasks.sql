@@ -0,0 +1 @@
+ALTER TABLE "broker_clients" ADD COLUMN "tasks" jsonb;
\ No newline at end of file
@@ -50,6 +50,7 @@ import {
   jsonb,
   text,
   uuid,
+  index,
 } from 'drizzle-orm/pg-core';
 
 /**
@@ -63,7 +64,7 @@ export const auditLog = pgTable('audit_log', {
   // What changed
   tableName: varchar('table_name', { length: 100 }).notNull(),
   recordId: integer('record_id').notNull(),
-  operation: varchar('operation', { length: 20 }).notNull(), // 'INSERT', 'UPDATE', 'DELETE'
+  operation: varchar('operation', { length: 20 }).notNull(), // 'INSERT', 'UPDATE', 'DELETE'; 'READ', 'ANONYMIZE' for broker client records
 
   // Who made the change
   userId: varchar('user_id', { length: 100 }), // Admin user ID (if applicable)
@@ -129,7 +130,9 @@ export const dataVersions = pgTable('data_versions', {
   validationErrors: jsonb('validation_errors'),
 
   metadata: jsonb('metadata'),
-});
+}, (table) => [
+  index('data_versions_type_status_idx').on(table.dataType, table.status),
+]);
 
 /**
  * User Analysis Sessions
@@ -339,6 +342,7 @@ export const dataImports = pgTable('data_imports', {
   // Execution details
   importedBy: varchar('imported_by', { length: 100 }),
   importMethod: varchar('import_method', { length: 50 }), // 'manual', 'automated', 'api'
+  dataVersionId: uuid('data_version_id'), // Draft data version the import wrote to
 
   // Rollback capability
   canRollback: boolean('can_rollback').default(true),
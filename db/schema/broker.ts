@@ -0,0 +1,120 @@
+/**
+ * Broker Workspace Schema
+ * Brokers, their clients and saved coverage scenarios
+ *
+ * Client and scenario IDs are generated in the browser by the client manager
+ * (e.g. 'client_lx2k9_ab12cd'), so they are stored as-is and are unique per
+ * broker rather than globally.
+ */
+
+import {
+  pgTable,
+  serial,
+  varchar,
+  integer,
+  timestamp,
+  jsonb,
+  text,
+  uuid,
+  boolean,
+  index,
+  uniqueIndex,
+} from 'drizzle-orm/pg-core';
+
+/**
+ * Brokers
+ * One row per broker email, provisioned with npm run broker:add (sign-in rejects unknown emails)
+ */
+export const brokers = pgTable('brokers', {
+  id: serial('id').primaryKey(),
+  brokerId: uuid('broker_id').defaultRandom().notNull().unique(),
+
+  email: varchar('email', { length: 255 }).notNull().unique(),
+  displayName: varchar('display_name', { length: 200 }),
+  // scrypt 'salt:hash' of the broker's own sign-in password (set with npm run broker:add)
+  passwordHash: varchar('password_hash', { length: 255 }),
+
+  // Set once the browser's localStorage client book has been uploaded
+  localDataSyncedAt: timestamp('local_data_synced_at'),
+  retentionPolicy: jsonb('retention_policy'), // RetentionPolicy overrides, see lib/broker/retention.ts
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  lastLoginAt: timestamp('last_login_at'),
+});
+
+/**
+ * Broker Clients
+ * Mirrors the BrokerClient shape in lib/broker/client-manager.ts
+ */
+export const brokerClients = pgTable('broker_clients', {
+  id: serial('id').primaryKey(),
+  brokerId: integer('broker_id').notNull().references(() => brokers.id, { onDelete: 'cascade' }),
+  clientId: varchar('client_id', { length: 64 }).notNull(),
+
+  firstName: varchar('first_name', { length: 100 }).notNull(),
+  lastName: varchar('last_name', { length: 100 }).notNull(),
+  email: varchar('email', { length: 255 }),
+  phone: varchar('phone', { length: 50 }),
+  notes: text('notes'),
+  tags: jsonb('tags').notNull().default([]), // Array of tag strings
+  status: varchar('status', { length: 20 }).notNull(), // 'active', 'inactive', 'prospect', 'archived'
+  keyDates: jsonb('key_dates'), // ClientKeyDates: renewal, birth and life-event dates
+  tasks: jsonb('tasks'), // ClientTaskState: follow-ups and completed tasks
+  consents: jsonb('consents').notNull().default([]), // Array of ClientConsent records
+  statusChangedAt: timestamp('status_changed_at').defaultNow().notNull(),
+  anonymizedAt: timestamp('anonymized_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('broker_clients_broker_client_idx').on(table.brokerId, table.clientId),
+  index('broker_clients_broker_updated_idx').on(table.brokerId, table.updatedAt),
+]);
+
+/**
+ * Broker Client Scenarios
+ * Saved calculator scenarios for a client
+ */
+export const brokerClientScenarios = pgTable('broker_client_scenarios', {
+  id: serial('id').primaryKey(),
+  clientRecordId: integer('client_record_id').notNull().references(() => brokerClients.id, { onDelete: 'cascade' }),
+  scenarioId: varchar('scenario_id', { length: 64 }).notNull(),
+
+  name: varchar('name', { length: 200 }).notNull(),
+  scenario: jsonb('scenario').notNull(), // ShareableScenario
+  recommendedPlan: varchar('recommended_plan', { length: 200 }),
+  estimatedCost: jsonb('estimated_cost'), // { low, high }
+  notes: text('notes'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('broker_client_scenarios_client_scenario_idx').on(table.clientRecordId, table.scenarioId),
+]);
+
+/**
+ * Broker Branding Profiles
+ * White-label branding applied to reports, share pages and CSV exports.
+ * The profile ID is public so branded share links can load it.
+ */
+export const brokerBrandingProfiles = pgTable('broker_branding_profiles', {
+  id: serial('id').primaryKey(),
+  profileId: uuid('profile_id').defaultRandom().notNull().unique(),
+  brokerId: integer('broker_id').notNull().references(() => brokers.id, { onDelete: 'cascade' }),
+
+  name: varchar('name', { length: 100 }).notNull(),
+  agencyName: varchar('agency_name', { length: 200 }).notNull(),
+  licenseNumber: varchar('license_number', { length: 50 }),
+  logoDataUrl: text('logo_data_url'), // PNG/JPEG data URL
+  primaryColor: varchar('primary_color', { length: 7 }).notNull(),
+  accentColor: varchar('accent_color', { length: 7 }).notNull(),
+  disclaimer: text('disclaimer'),
+  contact: jsonb('contact'), // BrandingContact
+  isDefault: boolean('is_default').notNull().default(false),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('broker_branding_profiles_broker_idx').on(table.brokerId),
+]);
@@ -11,3 +11,9 @@ export * from './state-metadata';
 
 // Audit and versioning tables
 export * from './audit';
+
+// Broker workspace tables
+export * from './broker';
+
+// Scenario short-link tables
+export * from './sharing';
@@ -12,6 +12,8 @@ import {
   timestamp,
   boolean,
   jsonb,
+  uuid,
+  index,
 } from 'drizzle-orm/pg-core';
 
 /**
@@ -30,6 +32,7 @@ export const acaPlans = pgTable('aca_plans', {
   planType: varchar('plan_type', { length: 20 }).notNull(), // HMO, PPO, EPO, POS
   carrier: varchar('carrier', { length: 100 }).notNull(),
   planName: varchar('plan_name', { length: 200 }).notNull(),
+  planId: varchar('plan_id', { length: 50 }), // Source plan ID (HIOS standard component ID)
 
   // Age-rated premiums (per age 0-120)
   age: integer('age').notNull(), // 0-64 for ACA
@@ -52,10 +55,17 @@ export const acaPlans = pgTable('aca_plans', {
   planYear: integer('plan_year').notNull(), // 2024, 2025, etc.
   dataSource: varchar('data_source', { length: 100 }).notNull(), // 'CMS', 'Healthcare.gov API', etc.
   isActive: boolean('is_active').default(true),
+  contentHash: varchar('content_hash', { length: 64 }), // SHA-256 of the synced plan content, to skip unchanged plans
+
+  // Plan data version (data_versions.version_id); null for rows loaded before versioning
+  dataVersionId: uuid('data_version_id'),
 
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('aca_plans_version_state_idx').on(table.dataVersionId, table.state),
+  index('aca_plans_version_plan_idx').on(table.dataVersionId, table.planId),
+]);
 
 /**
  * SLCSP (Second Lowest Cost Silver Plan) Benchmark Data
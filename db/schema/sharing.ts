@@ -0,0 +1,42 @@
+/**
+ * Scenario Sharing Schema
+ * Short-link shares that keep the scenario on the server instead of in the URL
+ *
+ * Passcodes and manage tokens are stored as hashes only; the manage token is
+ * returned once, when the link is created.
+ */
+
+import {
+  pgTable,
+  serial,
+  varchar,
+  integer,
+  timestamp,
+  jsonb,
+  index,
+} from 'drizzle-orm/pg-core';
+
+/**
+ * Shared Scenarios
+ * One row per short link; the code is the opaque /share/[code] segment
+ */
+export const sharedScenarios = pgTable('shared_scenarios', {
+  id: serial('id').primaryKey(),
+  code: varchar('code', { length: 16 }).notNull().unique(),
+
+  scenario: jsonb('scenario').notNull(), // ShareableScenario
+  manageTokenHash: varchar('manage_token_hash', { length: 64 }).notNull(), // SHA-256 hex
+  passcodeHash: varchar('passcode_hash', { length: 200 }), // 'salt:hash' (scrypt), null when unprotected
+  failedPasscodeAttempts: integer('failed_passcode_attempts').notNull().default(0), // Since the last success or lockout
+  passcodeLockedUntil: timestamp('passcode_locked_until'), // Set after too many wrong passcodes
+
+  viewCount: integer('view_count').notNull().default(0),
+  lastViewedAt: timestamp('last_viewed_at'),
+
+  expiresAt: timestamp('expires_at'), // null = never expires
+  revokedAt: timestamp('revoked_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('shared_scenarios_expires_idx').on(table.expiresAt),
+]);
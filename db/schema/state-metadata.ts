@@ -13,6 +13,9 @@ import {
   boolean,
   jsonb,
   text,
+  uuid,
+  index,
+  unique,
 } from 'drizzle-orm/pg-core';
 
 /**
@@ -94,7 +97,7 @@ export const counties = pgTable('counties', {
   id: serial('id').primaryKey(),
   stateCode: varchar('state_code', { length: 2 }).notNull(),
   countyName: varchar('county_name', { length: 100 }).notNull(),
-  countyFips: varchar('county_fips', { length: 5 }).notNull().unique(), // Federal Information Processing Standard code
+  countyFips: varchar('county_fips', { length: 5 }).notNull(), // Federal Information Processing Standard code; unique per data version
 
   // ACA rating area
   ratingArea: varchar('rating_area', { length: 20 }).notNull(),
@@ -126,9 +129,14 @@ export const counties = pgTable('counties', {
 
   dataYear: integer('data_year').notNull(),
 
+  // CMS geography data version (data_versions.version_id); null for rows loaded before versioning
+  dataVersionId: uuid('data_version_id'),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  unique('counties_fips_version_unique').on(table.countyFips, table.dataVersionId).nullsNotDistinct(),
+]);
 
 /**
  * ZIP Code to County Mapping
@@ -151,9 +159,14 @@ export const zipCodeMappings = pgTable('zip_code_mappings', {
   latitude: decimal('latitude', { precision: 10, scale: 7 }),
   longitude: decimal('longitude', { precision: 10, scale: 7 }),
 
+  // CMS geography data version (data_versions.version_id); null for rows loaded before versioning
+  dataVersionId: uuid('data_version_id'),
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => [
+  index('zip_code_mappings_zip_version_idx').on(table.zipCode, table.dataVersionId),
+]);
 
 /**
  * Provider Networks
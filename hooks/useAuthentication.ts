@@ -6,10 +6,13 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import { syncLocalClientsToServer } from '@/lib/broker/remote-client-manager';
+import { logger } from '@/lib/logger';
 
 interface UseAuthenticationReturn {
   isAuthenticated: boolean;
   password: string;
+  brokerEmail: string;
   showPassword: boolean;
   error: string;
   isLoading: boolean;
@@ -18,6 +21,7 @@ interface UseAuthenticationReturn {
   isLockedOut: boolean;
   lockoutTimeRemaining: number;
   setPassword: (password: string) => void;
+  setBrokerEmail: (email: string) => void;
   handleTogglePassword: () => void;
   handleNDAAccept: () => void;
   handleNDADecline: () => void;
@@ -28,6 +32,7 @@ interface UseAuthenticationReturn {
 export function useAuthentication(): UseAuthenticationReturn {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [password, setPassword] = useState('');
+  const [brokerEmail, setBrokerEmail] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(true);
@@ -86,6 +91,7 @@ export function useAuthentication(): UseAuthenticationReturn {
         body: JSON.stringify({
           password: passwordToValidate,
           ndaAccepted: nda,
+          ...(brokerEmail.trim() && { email: brokerEmail.trim() }),
         }),
       });
 
@@ -96,6 +102,16 @@ export function useAuthentication(): UseAuthenticationReturn {
         setNdaAccepted(true);
         setError('');
         setPassword('');
+
+        // Move any client book kept in this browser into the broker workspace
+        if (data.broker) {
+          syncLocalClientsToServer().catch((syncError) => {
+            logger.warn('[Auth] Broker client sync failed', {
+              error: syncError instanceof Error ? syncError.message : String(syncError),
+            });
+          });
+        }
+
         return true;
       }
 
@@ -113,7 +129,7 @@ export function useAuthentication(): UseAuthenticationReturn {
           setError(`Too many failed attempts. Please wait ${data.lockoutRemaining || 30} seconds.`);
         } else {
           const remaining = data.remainingAttempts ?? 0;
-          setError(`Incorrect password. ${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`);
+          setError(`${data.error || 'Incorrect password'}. ${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.`);
         }
       } else if (response.status === 400) {
         setError(data.error || 'Invalid request');
@@ -128,7 +144,7 @@ export function useAuthentication(): UseAuthenticationReturn {
       setPassword('');
       return false;
     }
-  }, []);
+  }, [brokerEmail]);
 
   const handleTogglePassword = useCallback(() => {
     if (!ndaAccepted) {
@@ -187,6 +203,7 @@ export function useAuthentication(): UseAuthenticationReturn {
   return {
     isAuthenticated,
     password,
+    brokerEmail,
     showPassword,
     error,
     isLoading,
@@ -195,6 +212,7 @@ export function useAuthentication(): UseAuthenticationReturn {
     isLockedOut,
     lockoutTimeRemaining,
     setPassword,
+    setBrokerEmail,
     handleTogglePassword,
     handleNDAAccept,
     handleNDADecline,
@@ -0,0 +1,46 @@
+/**
+ * Auth Token Secret
+ *
+ * Shared by the auth routes and the broker session helper so tokens issued at
+ * login verify everywhere with the same secret. (middleware.ts keeps its own
+ * copy because it runs in the Edge runtime.)
+ */
+
+import { logger } from '@/lib/logger';
+
+// SECURITY: Lazy-load secret to avoid build-time errors
+// Evaluated when a route is actually called, not at build time
+let _jwtSecret: string | null = null;
+
+export function getJWTSecret(): string {
+  if (_jwtSecret) return _jwtSecret;
+
+  const secret = process.env.JWT_SECRET;
+  if (secret) {
+    _jwtSecret = secret;
+    return secret;
+  }
+
+  // In development only, allow SITE_PASSWORD as fallback with warning
+  if (process.env.NODE_ENV === 'development') {
+    const fallback = process.env.SITE_PASSWORD || process.env.NEXT_PUBLIC_SITE_PASSWORD;
+    if (fallback) {
+      logger.warn('[Auth] Using SITE_PASSWORD as JWT_SECRET - set JWT_SECRET in production!');
+      _jwtSecret = fallback;
+      return fallback;
+    }
+    // Development-only fallback with clear warning
+    logger.warn('[Auth] No JWT_SECRET configured - using insecure development fallback');
+    _jwtSecret = 'dev-only-insecure-secret-do-not-use-in-production';
+    return _jwtSecret;
+  }
+
+  throw new Error('JWT_SECRET environment variable is required in production');
+}
+
+/**
+ * JWT secret as the key bytes jose expects
+ */
+export function getJWTKey(): Uint8Array {
+  return new TextEncoder().encode(getJWTSecret());
+}
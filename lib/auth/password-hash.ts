@@ -0,0 +1,37 @@
+/**
+ * Password Hashing
+ *
+ * scrypt hashes stored as 'salt:hash' hex strings. Uses the async scrypt so
+ * hashing doesn't block the event loop.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const SCRYPT_KEY_LENGTH = 32;
+
+function deriveKey(secret: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password or passcode as 'salt:hash'
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await deriveKey(secret, salt);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password or passcode against a stored hash in constant time
+ */
+export async function verifySecret(secret: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':');
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await deriveKey(secret, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
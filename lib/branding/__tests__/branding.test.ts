@@ -0,0 +1,96 @@
+/**
+ * Branding Tests
+ */
+
+import {
+  applyBrandingToCSV,
+  formatBrandLine,
+  getContactLines,
+  toReportBranding,
+  withShareBranding,
+  type BrandingProfile,
+} from '../branding';
+import { BrandingProfileCreateSchema } from '@/lib/validation/api-schemas';
+
+const profile: BrandingProfile = {
+  id: '5b0d7f3e-2f4a-4c1e-9a55-0c6d2b1e8f10',
+  name: 'Main office',
+  agencyName: 'Reyes Insurance',
+  licenseNumber: '0H12345',
+  primaryColor: '#0f766e',
+  accentColor: '#f97316',
+  disclaimer: 'Reyes Insurance is appointed with\nselect carriers.',
+  contact: { name: 'Dana Reyes', phone: '555-0100', email: '', website: 'https://reyes.example' },
+  isDefault: true,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('Branding', () => {
+  it('strips workspace fields for rendering', () => {
+    const branding = toReportBranding(profile);
+
+    expect(branding).not.toHaveProperty('id');
+    expect(branding).not.toHaveProperty('isDefault');
+    expect(branding.agencyName).toBe('Reyes Insurance');
+  });
+
+  it('formats the brand line with the license number', () => {
+    expect(formatBrandLine(profile)).toBe('Reyes Insurance | License #0H12345');
+    expect(formatBrandLine({ ...profile, licenseNumber: undefined })).toBe('Reyes Insurance');
+    expect(formatBrandLine()).toBe('Coverage Gap Analyzer');
+  });
+
+  it('skips empty contact lines', () => {
+    expect(getContactLines(profile.contact)).toEqual(['Dana Reyes', '555-0100', 'https://reyes.example']);
+    expect(getContactLines()).toEqual([]);
+  });
+
+  it('adds the branding profile to share links', () => {
+    expect(withShareBranding('/share/abc', profile.id)).toBe(`/share/abc?brand=${profile.id}`);
+    expect(withShareBranding('/share/abc?x=1', 'p1')).toBe('/share/abc?x=1&brand=p1');
+  });
+
+  describe('applyBrandingToCSV', () => {
+    const csv = '"Insurance Type","Monthly Cost"\n"Dental","$40"';
+
+    it('leaves unbranded exports unchanged', () => {
+      expect(applyBrandingToCSV(csv)).toBe(csv);
+    });
+
+    it('wraps the export with a header block and disclaimer', () => {
+      const lines = applyBrandingToCSV(csv, profile).split('\n');
+
+      expect(lines.slice(0, 5)).toEqual([
+        '"Reyes Insurance | License #0H12345"',
+        '"Dana Reyes"',
+        '"555-0100"',
+        '"https://reyes.example"',
+        '',
+      ]);
+      expect(lines).toContain('"Dental","$40"');
+      expect(lines[lines.length - 1]).toBe('"Reyes Insurance is appointed with select carriers."');
+    });
+  });
+
+  describe('BrandingProfileCreateSchema', () => {
+    it('applies default colors', () => {
+      const result = BrandingProfileCreateSchema.parse({ name: 'Default', agencyName: 'Reyes Insurance' });
+
+      expect(result.primaryColor).toBe('#1e3a5f');
+      expect(result.isDefault).toBe(false);
+    });
+
+    it('rejects non-image logos and bad colors', () => {
+      const result = BrandingProfileCreateSchema.safeParse({
+        name: 'Default',
+        agencyName: 'Reyes Insurance',
+        logoDataUrl: 'data:image/svg+xml;base64,PHN2Zz4=',
+        primaryColor: 'teal',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((i) => i.path[0])).toEqual(['logoDataUrl', 'primaryColor']);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * White-label Branding
+ *
+ * Broker branding profiles (logo, agency name, license number, colors,
+ * disclaimer and contact block) and the helpers that apply them to PDF
+ * reports, shared scenario pages and CSV exports.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BrandingContact {
+  name?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  address?: string;
+}
+
+/**
+ * Branding applied to generated output. This is the public part of a
+ * profile and is safe to show to anyone holding a branded share link.
+ */
+export interface ReportBranding {
+  agencyName: string;
+  licenseNumber?: string;
+  /** PNG or JPEG data URL */
+  logoDataUrl?: string;
+  primaryColor: string;
+  accentColor: string;
+  disclaimer?: string;
+  contact?: BrandingContact;
+}
+
+/**
+ * A saved branding profile in the broker workspace
+ */
+export interface BrandingProfile extends ReportBranding {
+  /** Public profile ID, used in branded share links */
+  id: string;
+  name: string;
+  isDefault: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Colors used when no branding is applied */
+export const DEFAULT_BRAND_COLORS = {
+  primaryColor: '#1e3a5f',
+  accentColor: '#2563eb',
+} as const;
+
+export const DEFAULT_BRAND_NAME = 'Coverage Gap Analyzer';
+
+/** Largest logo accepted, measured on the data URL */
+export const MAX_LOGO_DATA_URL_LENGTH = 300_000;
+
+export const LOGO_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/;
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/** Query parameter carrying the branding profile on share links */
+export const SHARE_BRANDING_PARAM = 'brand';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Strip workspace fields from a profile, leaving what gets rendered
+ */
+export function toReportBranding(profile: BrandingProfile): ReportBranding {
+  return {
+    agencyName: profile.agencyName,
+    licenseNumber: profile.licenseNumber,
+    logoDataUrl: profile.logoDataUrl,
+    primaryColor: profile.primaryColor,
+    accentColor: profile.accentColor,
+    disclaimer: profile.disclaimer,
+    contact: profile.contact,
+  };
+}
+
+/**
+ * Brand name and license line, e.g. "Reyes Insurance | License #0H12345"
+ */
+export function formatBrandLine(branding?: ReportBranding): string {
+  if (!branding) return DEFAULT_BRAND_NAME;
+  return branding.licenseNumber
+    ? `${branding.agencyName} | License #${branding.licenseNumber}`
+    : branding.agencyName;
+}
+
+/**
+ * Non-empty contact block lines in display order
+ */
+export function getContactLines(contact?: BrandingContact): string[] {
+  if (!contact) return [];
+  return [contact.name, contact.phone, contact.email, contact.website, contact.address]
+    .map((line) => line?.trim())
+    .filter((line): line is string => Boolean(line));
+}
+
+/**
+ * Add the branding profile to a share link
+ */
+export function withShareBranding(shareUrl: string, profileId: string): string {
+  const separator = shareUrl.includes('?') ? '&' : '?';
+  return `${shareUrl}${separator}${SHARE_BRANDING_PARAM}=${encodeURIComponent(profileId)}`;
+}
+
+/**
+ * Wrap CSV content with a branded header block and trailing disclaimer.
+ * Returns the content unchanged when no branding is given.
+ */
+export function applyBrandingToCSV(csvContent: string, branding?: ReportBranding): string {
+  if (!branding) return csvContent;
+
+  const quote = (cell: string) => `"${cell.replace(/"/g, '""')}"`;
+  const header = [
+    formatBrandLine(branding),
+    ...getContactLines(branding.contact),
+  ].map(quote);
+
+  const footer = branding.disclaimer
+    ? ['', quote(branding.disclaimer.replace(/\s*\n\s*/g, ' '))]
+    : [];
+
+  return [...header, '', csvContent, ...footer].join('\n');
+}
@@ -0,0 +1,33 @@
+/**
+ * Branding Module
+ *
+ * Exports white-label branding types and helpers for broker reports.
+ */
+
+export {
+  toReportBranding,
+  formatBrandLine,
+  getContactLines,
+  withShareBranding,
+  applyBrandingToCSV,
+  DEFAULT_BRAND_COLORS,
+  DEFAULT_BRAND_NAME,
+  MAX_LOGO_DATA_URL_LENGTH,
+  LOGO_DATA_URL_PATTERN,
+  HEX_COLOR_PATTERN,
+  SHARE_BRANDING_PARAM,
+  type BrandingContact,
+  type BrandingProfile,
+  type ReportBranding,
+} from './branding';
+
+export {
+  fetchBrandingProfiles,
+  fetchDefaultBranding,
+  fetchPublicBranding,
+  createRemoteBrandingProfile,
+  updateRemoteBrandingProfile,
+  deleteRemoteBrandingProfile,
+  readLogoFile,
+  type BrandingProfileInput,
+} from './remote-branding';
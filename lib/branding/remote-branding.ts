@@ -0,0 +1,126 @@
+/**
+ * Remote Branding Profiles
+ *
+ * Browser adapter for branding profiles stored in the broker workspace
+ * (/api/broker/branding) and the public branding lookup used by branded
+ * share links (/api/branding).
+ */
+
+import {
+  MAX_LOGO_DATA_URL_LENGTH,
+  LOGO_DATA_URL_PATTERN,
+  type BrandingProfile,
+  type ReportBranding,
+} from './branding';
+
+const API_BASE = '/api/broker/branding';
+
+export type BrandingProfileInput = Omit<BrandingProfile, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Send a JSON request, returning null on 404
+ */
+async function request<T>(url: string, init?: RequestInit): Promise<T | null> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    credentials: 'same-origin',
+  });
+
+  if (response.status === 404) return null;
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Branding API request failed (${response.status})`);
+  }
+
+  return data as T;
+}
+
+function profileUrl(profileId: string): string {
+  return `${API_BASE}/${encodeURIComponent(profileId)}`;
+}
+
+/**
+ * Get the signed-in broker's branding profiles
+ */
+export async function fetchBrandingProfiles(): Promise<BrandingProfile[]> {
+  const data = await request<{ profiles: BrandingProfile[] }>(API_BASE);
+  return data?.profiles ?? [];
+}
+
+/**
+ * Get the broker's default branding profile, if any
+ */
+export async function fetchDefaultBranding(): Promise<BrandingProfile | null> {
+  const profiles = await fetchBrandingProfiles();
+  return profiles.find((p) => p.isDefault) ?? null;
+}
+
+/**
+ * Get the public branding for a share link's profile ID
+ */
+export async function fetchPublicBranding(profileId: string): Promise<ReportBranding | null> {
+  const data = await request<{ branding: ReportBranding }>(`/api/branding/${encodeURIComponent(profileId)}`);
+  return data?.branding ?? null;
+}
+
+/**
+ * Create a branding profile
+ */
+export async function createRemoteBrandingProfile(input: BrandingProfileInput): Promise<BrandingProfile> {
+  const data = await request<{ profile: BrandingProfile }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+
+  if (!data) {
+    throw new Error('Failed to create branding profile');
+  }
+
+  return data.profile;
+}
+
+/**
+ * Update a branding profile (pass logoDataUrl: null to remove the logo)
+ */
+export async function updateRemoteBrandingProfile(
+  profileId: string,
+  updates: Partial<Omit<BrandingProfileInput, 'logoDataUrl'>> & { logoDataUrl?: string | null }
+): Promise<BrandingProfile | null> {
+  const data = await request<{ profile: BrandingProfile }>(profileUrl(profileId), {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+  return data?.profile ?? null;
+}
+
+/**
+ * Delete a branding profile
+ */
+export async function deleteRemoteBrandingProfile(profileId: string): Promise<boolean> {
+  const data = await request<{ success: boolean }>(profileUrl(profileId), { method: 'DELETE' });
+  return data?.success ?? false;
+}
+
+/**
+ * Read a logo image file as a data URL, checking type and size
+ */
+export async function readLogoFile(file: File): Promise<string> {
+  if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+    throw new Error('Logo must be a PNG or JPEG image');
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error('Failed to read logo file'));
+    reader.readAsDataURL(file);
+  });
+
+  if (dataUrl.length > MAX_LOGO_DATA_URL_LENGTH || !LOGO_DATA_URL_PATTERN.test(dataUrl)) {
+    throw new Error('Logo image must be a PNG or JPEG under 200 KB');
+  }
+
+  return dataUrl;
+}
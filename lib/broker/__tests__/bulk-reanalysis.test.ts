@@ -0,0 +1,131 @@
+/**
+ * Bulk Re-analysis Tests
+ */
+
+import { reanalyzeClients, mergeReanalysisReports, compareSnapshots, type ScenarioSnapshot } from '../bulk-reanalysis';
+import type { BrokerClient } from '../client-manager';
+import type { ShareableScenario } from '@/lib/sharing';
+
+const baseScenario: ShareableScenario = {
+  v: 1,
+  zip: '27601',
+  state: 'NC',
+  adults: 1,
+  children: 0,
+  ages: [45],
+  chronic: false,
+  tobacco: false,
+  prescriptions: 0,
+  doctorVisits: 2,
+  specialistVisits: 0,
+  income: 35000,
+  priority: 'balanced',
+  planType: 'any',
+  hasEmployer: false,
+};
+
+function createClient(id: string, scenario: ShareableScenario): BrokerClient {
+  return {
+    id,
+    firstName: 'Test',
+    lastName: id,
+    tags: [],
+    status: 'active',
+    createdAt: 0,
+    updatedAt: 0,
+    scenarios: [{ id: `${id}_scn`, name: 'Marketplace', scenario, createdAt: 0, updatedAt: 0 }],
+  };
+}
+
+const snapshot = (overrides: Partial<ScenarioSnapshot> = {}): ScenarioSnapshot => ({
+  planYear: 2025,
+  recommendedPlan: 'ACA Marketplace Silver',
+  netMonthlyPremium: { low: 300, high: 500 },
+  monthlySubsidy: 200,
+  subsidyEligible: true,
+  medicaidEligible: false,
+  ...overrides,
+});
+
+describe('Bulk Re-analysis', () => {
+  describe('compareSnapshots', () => {
+    it('ignores small premium and subsidy moves', () => {
+      const result = compareSnapshots(
+        snapshot(),
+        snapshot({ planYear: 2026, netMonthlyPremium: { low: 310, high: 510 }, monthlySubsidy: 190 })
+      );
+
+      expect(result.material).toBe(false);
+      expect(result.netPremiumChange).toBe(10);
+      expect(result.subsidyChange).toBe(-10);
+    });
+
+    it('flags premium, subsidy and eligibility changes', () => {
+      const result = compareSnapshots(
+        snapshot(),
+        snapshot({ netMonthlyPremium: { low: 500, high: 700 }, monthlySubsidy: 0, subsidyEligible: false })
+      );
+
+      expect(result.material).toBe(true);
+      expect(result.changes.map((c) => c.field)).toEqual(['netPremium', 'subsidy', 'eligibility']);
+      expect(result.changes[0]?.description).toBe('Net premium up about $200/month');
+    });
+
+    it('requires both the dollar and percent thresholds for premium changes', () => {
+      const result = compareSnapshots(
+        snapshot({ netMonthlyPremium: { low: 1900, high: 2100 } }),
+        snapshot({ netMonthlyPremium: { low: 1950, high: 2150 } })
+      );
+
+      expect(result.changes.some((c) => c.field === 'netPremium')).toBe(false);
+    });
+
+    it('flags a changed recommendation', () => {
+      const result = compareSnapshots(snapshot(), snapshot({ recommendedPlan: 'Medicaid (Free or Low-Cost Coverage)' }));
+
+      expect(result.changes).toEqual([
+        expect.objectContaining({ field: 'recommendedPlan' }),
+      ]);
+    });
+  });
+
+  describe('reanalyzeClients', () => {
+    it('flags clients whose credits shrink when the enhanced subsidies expire', async () => {
+      const progress: number[] = [];
+      const report = await reanalyzeClients(
+        [
+          // ~225% FPL: the required contribution roughly doubles in 2026
+          createClient('subsidized', baseScenario),
+          // Medicare-age household is unaffected by marketplace rules
+          createClient('medicare', { ...baseScenario, ages: [70], income: 40000 }),
+        ],
+        { planYear: 2026, onProgress: (completed) => progress.push(completed) }
+      );
+
+      expect(report.previousPlanYear).toBe(2025);
+      expect(report.scenariosAnalyzed).toBe(2);
+      expect(report.scenariosFailed).toBe(0);
+      expect(progress).toEqual([1, 2]);
+
+      const subsidized = report.clients.find((c) => c.clientId === 'subsidized')!;
+      expect(subsidized.scenarios[0]?.current?.planYear).toBe(2026);
+      expect(subsidized.scenarios[0]?.subsidyChange).toBeLessThan(-25);
+      expect(subsidized.scenarios[0]?.changes.map((c) => c.field)).toContain('subsidy');
+
+      expect(report.clientsToContact.map((c) => c.clientId)).toEqual(['subsidized']);
+    });
+
+    it('merges batch reports into one contact list', async () => {
+      const first = await reanalyzeClients([createClient('medicare', { ...baseScenario, ages: [70], income: 40000 })], { planYear: 2026 });
+      const second = await reanalyzeClients([createClient('subsidized', baseScenario)], { planYear: 2026 });
+
+      const report = mergeReanalysisReports([first, second]);
+
+      expect(report.planYear).toBe(2026);
+      expect(report.clientsAnalyzed).toBe(2);
+      expect(report.scenariosAnalyzed).toBe(2);
+      expect(report.clients.map((c) => c.clientId)).toEqual(['medicare', 'subsidized']);
+      expect(report.clientsToContact.map((c) => c.clientId)).toEqual(['subsidized']);
+    });
+  });
+});
@@ -20,6 +20,9 @@ import {
   clearAllClients,
   getClientDisplayName,
   getClientInitials,
+  recordClientConsent,
+  revokeClientConsent,
+  hasActiveConsent,
   STATUS_DISPLAY_NAMES,
   STATUS_COLORS,
   type ClientStatus,
@@ -177,6 +180,51 @@ describe('Client Manager', () => {
     it('should return null for non-existent client', () => {
       expect(updateClient('non-existent', { notes: 'test' })).toBeNull();
     });
+
+    it('should track when the status changes', async () => {
+      const client = createClient({
+        firstName: 'John',
+        lastName: 'Doe',
+        tags: [],
+        status: 'active',
+      });
+
+      await new Promise((r) => setTimeout(r, 10));
+      expect(updateClient(client.id, { notes: 'Updated' })?.statusChangedAt).toBe(client.statusChangedAt);
+      expect(updateClient(client.id, { status: 'archived' })?.statusChangedAt).toBeGreaterThan(client.statusChangedAt!);
+    });
+  });
+
+  describe('Consent', () => {
+    it('should record and revoke a consent while keeping the record', () => {
+      const client = createClient({
+        firstName: 'John',
+        lastName: 'Doe',
+        tags: [],
+        status: 'active',
+      });
+
+      const consent = recordClientConsent(client.id, {
+        scopes: ['data_storage', 'health_information'],
+        method: 'electronic',
+        consentedAt: Date.now(),
+      });
+
+      expect(consent?.id).toMatch(/^consent_/);
+      expect(hasActiveConsent(getClient(client.id)!, 'health_information')).toBe(true);
+
+      expect(revokeClientConsent(client.id, consent!.id)).toBe(true);
+      expect(revokeClientConsent(client.id, consent!.id)).toBe(false);
+
+      const updated = getClient(client.id)!;
+      expect(updated.consents).toHaveLength(1);
+      expect(updated.consents![0]!.revokedAt).toBeDefined();
+      expect(hasActiveConsent(updated, 'health_information')).toBe(false);
+    });
+
+    it('should return null for non-existent client', () => {
+      expect(recordClientConsent('non-existent', { scopes: ['contact'], method: 'verbal', consentedAt: 0 })).toBeNull();
+    });
   });
 
   describe('deleteClient', () => {
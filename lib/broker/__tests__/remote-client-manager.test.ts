@@ -0,0 +1,196 @@
+/**
+ * Remote Client Manager Tests
+ */
+
+import { createClient, addClientScenario } from '../client-manager';
+import {
+  fetchRemoteClient,
+  createRemoteClient,
+  syncLocalClientsToServer,
+  hasSyncedLocalClients,
+  runRemoteBulkReanalysis,
+} from '../remote-client-manager';
+import type { BulkReanalysisReport, ClientReanalysis } from '../bulk-reanalysis';
+import { toBrokerClient } from '../repository';
+import type { ShareableScenario } from '@/lib/sharing';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  };
+}
+
+const scenario: ShareableScenario = {
+  v: 1,
+  zip: '27601',
+  state: 'NC',
+  adults: 1,
+  children: 0,
+  ages: [40],
+  chronic: false,
+  tobacco: false,
+  prescriptions: 0,
+  doctorVisits: 2,
+  specialistVisits: 0,
+  income: 50000,
+  priority: 'balanced',
+  planType: 'any',
+  hasEmployer: false,
+};
+
+describe('Remote Client Manager', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetch.mockReset();
+  });
+
+  it('returns null for clients that do not exist on the server', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Client not found' }, 404));
+
+    await expect(fetchRemoteClient('client_missing')).resolves.toBeNull();
+    expect(mockFetch).toHaveBeenCalledWith('/api/broker/clients/client_missing', expect.any(Object));
+  });
+
+  it('surfaces API errors', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Broker sign-in required' }, 401));
+
+    await expect(createRemoteClient({ firstName: 'Ann', lastName: 'Lee', tags: [], status: 'active' }))
+      .rejects.toThrow('Broker sign-in required');
+  });
+
+  describe('syncLocalClientsToServer', () => {
+    it('uploads local clients once', async () => {
+      const client = createClient({ firstName: 'Ann', lastName: 'Lee', tags: ['family'], status: 'active' });
+      addClientScenario(client.id, scenario, 'Silver');
+
+      mockFetch.mockResolvedValueOnce(jsonResponse({ success: true, imported: 1, skipped: 0, scenariosImported: 1 }));
+
+      const result = await syncLocalClientsToServer();
+
+      expect(result).toEqual({ synced: true, imported: 1, skipped: 0, scenariosImported: 1 });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('/api/broker/sync');
+      expect(JSON.parse(init.body).clients[0]).toMatchObject({ id: client.id, scenarios: [{ name: 'Silver' }] });
+      expect(hasSyncedLocalClients()).toBe(true);
+
+      await syncLocalClientsToServer();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries on the next login when the upload fails', async () => {
+      createClient({ firstName: 'Ann', lastName: 'Lee', tags: [], status: 'active' });
+      mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Failed to sync client data' }, 500));
+
+      await expect(syncLocalClientsToServer()).rejects.toThrow('Failed to sync client data');
+      expect(hasSyncedLocalClients()).toBe(false);
+    });
+
+    it('skips the request when there is nothing to upload', async () => {
+      const result = await syncLocalClientsToServer();
+
+      expect(result.synced).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  it('sends bulk re-analysis in batches and merges the reports', async () => {
+    const clientIds = Array.from({ length: 12 }, (_, i) => `client_${i}`);
+    const reanalysis = (clientId: string): ClientReanalysis => ({
+      clientId,
+      clientName: clientId,
+      scenarios: [],
+      hasMaterialChange: false,
+    });
+    const report = (clients: ClientReanalysis[]): BulkReanalysisReport => ({
+      planYear: 2026,
+      previousPlanYear: 2025,
+      generatedAt: 0,
+      clientsAnalyzed: clients.length,
+      scenariosAnalyzed: 0,
+      scenariosFailed: 0,
+      clients,
+      clientsToContact: [],
+    });
+
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ success: true, report: report(clientIds.slice(0, 9).map(reanalysis)), missingClientIds: ['client_9'] }))
+      .mockResolvedValueOnce(jsonResponse({ error: 'No matching clients found' }, 404));
+    const progress: Array<[number, number]> = [];
+
+    const result = await runRemoteBulkReanalysis(clientIds, 2026, {
+      onProgress: (completed, total) => progress.push([completed, total]),
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({ clientIds: clientIds.slice(0, 10), planYear: 2026 });
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).clientIds).toEqual(['client_10', 'client_11']);
+    expect(progress).toEqual([[10, 12], [12, 12]]);
+    expect(result.report.clientsAnalyzed).toBe(9);
+    expect(result.missingClientIds).toEqual(['client_9', 'client_10', 'client_11']);
+  });
+
+  it('maps database rows back to client manager objects', () => {
+    const created = new Date('2025-01-01T00:00:00Z');
+    const client = toBrokerClient(
+      {
+        id: 7,
+        brokerId: 1,
+        clientId: 'client_abc',
+        firstName: 'Ann',
+        lastName: 'Lee',
+        email: null,
+        phone: null,
+        notes: null,
+        tags: ['family'],
+        status: 'active',
+        keyDates: null,
+        consents: [],
+        statusChangedAt: created,
+        anonymizedAt: null,
+        createdAt: created,
+        updatedAt: created,
+      },
+      [
+        {
+          id: 3,
+          clientRecordId: 7,
+          scenarioId: 'scn_1',
+          name: 'Silver',
+          scenario,
+          recommendedPlan: null,
+          estimatedCost: { low: 100, high: 200 },
+          notes: null,
+          createdAt: created,
+          updatedAt: created,
+        },
+        {
+          id: 4,
+          clientRecordId: 8,
+          scenarioId: 'scn_other',
+          name: 'Other client',
+          scenario,
+          recommendedPlan: null,
+          estimatedCost: null,
+          notes: null,
+          createdAt: created,
+          updatedAt: created,
+        },
+      ]
+    );
+
+    expect(client).toMatchObject({
+      id: 'client_abc',
+      email: undefined,
+      consents: [],
+      anonymizedAt: undefined,
+      createdAt: created.getTime(),
+    });
+    expect(client.scenarios).toHaveLength(1);
+    expect(client.scenarios[0]).toMatchObject({ id: 'scn_1', estimatedCost: { low: 100, high: 200 } });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Client Retention Tests
+ */
+
+import {
+  evaluateRetention,
+  resolveRetentionPolicy,
+  anonymizeClient,
+  applyLocalRetention,
+  DEFAULT_RETENTION_POLICY,
+} from '../retention';
+import { createClient, addClientScenario, getClient, getClients, type BrokerClient } from '../client-manager';
+import type { ShareableScenario } from '@/lib/sharing';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(2026, 5, 1).getTime();
+
+const client: BrokerClient = {
+  id: 'client_1',
+  firstName: 'Dana',
+  lastName: 'Reyes',
+  email: 'dana@example.com',
+  phone: '555-0100',
+  notes: 'Prefers evening calls',
+  tags: ['2026'],
+  status: 'archived',
+  createdAt: 0,
+  updatedAt: now - DAY,
+  statusChangedAt: now - 100 * DAY,
+  scenarios: [],
+  keyDates: { dateOfBirth: '1961-03-15' },
+  consents: [{
+    id: 'consent_1',
+    scopes: ['data_storage', 'contact'],
+    method: 'written',
+    consentedAt: now - 400 * DAY,
+    recordedBy: 'Sam Broker',
+    notes: 'Signed at kitchen table',
+  }],
+};
+
+describe('Client Retention', () => {
+  describe('evaluateRetention', () => {
+    it('anonymizes archived clients after the status period', () => {
+      expect(evaluateRetention(client, DEFAULT_RETENTION_POLICY, now)).toMatchObject({
+        clientId: 'client_1',
+        action: 'anonymize',
+        dueAt: now - 10 * DAY,
+      });
+      expect(evaluateRetention({ ...client, statusChangedAt: now - 30 * DAY }, DEFAULT_RETENTION_POLICY, now)).toBeNull();
+    });
+
+    it('measures from updatedAt when the status change date is unknown', () => {
+      expect(evaluateRetention({ ...client, statusChangedAt: undefined }, DEFAULT_RETENTION_POLICY, now)).toBeNull();
+    });
+
+    it('keeps active clients and skips clients that are already anonymized', () => {
+      expect(evaluateRetention({ ...client, status: 'active' }, DEFAULT_RETENTION_POLICY, now)).toBeNull();
+      expect(evaluateRetention({ ...client, anonymizedAt: now - DAY }, DEFAULT_RETENTION_POLICY, now)).toBeNull();
+    });
+
+    it('deletes clients whose data storage consent was revoked', () => {
+      const revoked = {
+        ...client,
+        status: 'active' as const,
+        consents: [{ ...client.consents![0]!, revokedAt: now - 31 * DAY }],
+      };
+
+      expect(evaluateRetention(revoked, DEFAULT_RETENTION_POLICY, now)).toMatchObject({
+        action: 'delete',
+        reason: expect.stringContaining('revoked'),
+      });
+      expect(evaluateRetention(
+        { ...revoked, consents: [...revoked.consents, { ...client.consents![0]!, id: 'consent_2' }] },
+        DEFAULT_RETENTION_POLICY,
+        now
+      )).toBeNull();
+    });
+
+    it('prefers deletion when several rules are due', () => {
+      const revoked = { ...client, consents: [{ ...client.consents![0]!, revokedAt: now - 60 * DAY }] };
+
+      expect(evaluateRetention(revoked, DEFAULT_RETENTION_POLICY, now)?.action).toBe('delete');
+    });
+  });
+
+  describe('resolveRetentionPolicy', () => {
+    it('merges overrides onto the defaults', () => {
+      const policy = resolveRetentionPolicy({ byStatus: { archived: { action: 'delete', afterDays: 30 } } });
+
+      expect(policy.byStatus.archived).toEqual({ action: 'delete', afterDays: 30 });
+      expect(policy.byStatus.prospect).toEqual(DEFAULT_RETENTION_POLICY.byStatus.prospect);
+      expect(resolveRetentionPolicy(null)).toEqual(DEFAULT_RETENTION_POLICY);
+    });
+  });
+
+  describe('anonymizeClient', () => {
+    it('removes personal details but keeps the consent history', () => {
+      const anonymized = anonymizeClient(client, now);
+
+      expect(anonymized).toMatchObject({
+        id: 'client_1',
+        firstName: 'Anonymized',
+        lastName: 'Client',
+        status: 'archived',
+        tags: [],
+        anonymizedAt: now,
+      });
+      expect(anonymized.email).toBeUndefined();
+      expect(anonymized.notes).toBeUndefined();
+      expect(anonymized.keyDates).toBeUndefined();
+      expect(anonymized.consents).toEqual([{
+        id: 'consent_1',
+        scopes: ['data_storage', 'contact'],
+        method: 'written',
+        consentedAt: now - 400 * DAY,
+      }]);
+    });
+  });
+
+  describe('applyLocalRetention', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('anonymizes and deletes local clients that are due', () => {
+      const archived = createClient({ firstName: 'Dana', lastName: 'Reyes', tags: [], status: 'archived' });
+      const prospect = createClient({ firstName: 'Lee', lastName: 'Park', tags: [], status: 'prospect' });
+      const active = createClient({ firstName: 'Ana', lastName: 'Silva', tags: [], status: 'active' });
+      addClientScenario(archived.id, { v: 1, zip: '90210' } as ShareableScenario, 'Baseline');
+
+      const later = Date.now() + 400 * DAY;
+      const result = applyLocalRetention(DEFAULT_RETENTION_POLICY, later);
+
+      expect(result).toEqual({ anonymized: [archived.id], deleted: [prospect.id] });
+      expect(getClients().map((c) => c.id).sort()).toEqual([archived.id, active.id].sort());
+      expect(getClient(archived.id)).toMatchObject({ firstName: 'Anonymized', scenarios: [], anonymizedAt: later });
+    });
+  });
+});
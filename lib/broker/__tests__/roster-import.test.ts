@@ -0,0 +1,243 @@
+/**
+ * Roster Import Tests
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import {
+  readRosterFile,
+  parseRoster,
+  parseRosterWorkbook,
+  parseDelimitedText,
+  suggestColumnMapping,
+  previewRosterImport,
+  commitRosterImport,
+  parseDate,
+} from '../roster-import';
+import { getClients, createClient, addClientScenario } from '../client-manager';
+import { generateClientTasks } from '../task-pipeline';
+
+const AS_OF = new Date('2025-11-01T00:00:00Z');
+
+const AGENCY_EXPORT = [
+  'Client Name,DOB,Spouse DOB,Dependent Ages,Zip Code,Household Income,Current Plan,Monthly Premium,E-mail',
+  '"Lee, Ann",04/15/1980,,"10;7",27601,"$62,000",Blue Advantage Silver,412.50,ann@example.com',
+  'Bob Stone,1962-02-30,,,02134,80000,,,bob@example.com',
+  'Cara Diaz,1990-06-01,1991-01-20,,6103,55000,,,',
+  'Dan Ortiz,,,,,,,,dan@example',
+  'Eve Park,,,,,,,,eve@example.com',
+].join('\n');
+
+/**
+ * Minimal .xlsx workbook: shared and inline strings, a date-styled DOB column
+ * and a sparse row
+ */
+function buildWorkbook(): Uint8Array {
+  const workbook = '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + '<sheets><sheet name="Clients" sheetId="1" r:id="rId3"/></sheets></workbook>';
+  const rels = '<Relationships><Relationship Id="rId1" Target="styles.xml"/>'
+    + '<Relationship Id="rId3" Target="worksheets/clients.xml"/></Relationships>';
+  const sharedStrings = '<sst><si><t>Client Name</t></si><si><t>DOB</t></si><si><t>Zip Code</t></si>'
+    + '<si><r><t>Lee, </t></r><r><t>Ann</t></r><rPh><t>リー</t></rPh></si><si><t>Ortiz &amp; Co</t></si></sst>';
+  const styles = '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="mm/dd/yyyy"/></numFmts>'
+    + '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="14"/></cellXfs></styleSheet>';
+  const sheet = '<worksheet><sheetData>'
+    + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>'
+    + '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2" s="1"><v>29326</v></c><c r="C2"><v>27601</v></c></row>'
+    + '<row r="3"><c r="A3" t="inlineStr"><is><t>Bob Stone</t></is></c><c r="C3" t="str"><v>02134</v></c></row>'
+    + '<row r="4"><c r="A4" t="s"><v>4</v></c><c r="B4" s="2"><v>33025</v></c></row>'
+    + '</sheetData></worksheet>';
+
+  return zipSync({
+    '[Content_Types].xml': strToU8('<Types/>'),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(rels),
+    'xl/sharedStrings.xml': strToU8(sharedStrings),
+    'xl/styles.xml': strToU8(styles),
+    'xl/worksheets/clients.xml': strToU8(sheet),
+  });
+}
+
+describe('Roster Import', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('parsing', () => {
+    it('handles quoted delimiters, escaped quotes and CRLF', () => {
+      expect(parseDelimitedText('a,b\r\n"x, y","say ""hi"""\r\n')).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"'],
+      ]);
+    });
+
+    it('detects tab-delimited files', () => {
+      const roster = parseRoster('First Name\tLast Name\nAnn\tLee\n');
+      expect(roster.rows).toEqual([{ 'First Name': 'Ann', 'Last Name': 'Lee' }]);
+    });
+
+    it('reads the first worksheet of a .xlsx workbook', () => {
+      const roster = parseRosterWorkbook(buildWorkbook());
+
+      expect(roster.headers).toEqual(['Client Name', 'DOB', 'Zip Code']);
+      expect(roster.rows).toEqual([
+        { 'Client Name': 'Lee, Ann', DOB: '1980-04-15', 'Zip Code': '27601' },
+        { 'Client Name': 'Bob Stone', DOB: '', 'Zip Code': '02134' },
+        { 'Client Name': 'Ortiz & Co', DOB: '1990-06-01', 'Zip Code': '' },
+      ]);
+    });
+
+    it('reads .xlsx and text files picked by the user', async () => {
+      const file = (data: Uint8Array | string, name: string) => ({
+        name,
+        arrayBuffer: async () => (typeof data === 'string' ? strToU8(data) : data).slice().buffer,
+        text: async () => (typeof data === 'string' ? data : ''),
+      });
+
+      expect((await readRosterFile(file(buildWorkbook(), 'roster.xlsx'))).rows).toHaveLength(3);
+      expect((await readRosterFile(file('Name,Zip\nAnn Lee,27601\n', 'roster.csv'))).rows).toEqual([
+        { Name: 'Ann Lee', Zip: '27601' },
+      ]);
+      await expect(readRosterFile(file(new Uint8Array([0xd0, 0xcf, 0x11, 0xe0, 0xa1]), 'roster.dat')))
+        .rejects.toThrow('Save the sheet as .xlsx or CSV');
+    });
+
+    it('rejects legacy .xls workbooks and unreadable archives', () => {
+      expect(() => parseRoster('anything', 'roster.xls')).toThrow('Legacy Excel workbooks');
+      expect(() => parseRoster('PK\u0003\u0004\u0014\u0000')).toThrow('binary files');
+      expect(() => parseRosterWorkbook(strToU8('PK\u0003\u0004 not a zip'))).toThrow('could not be read');
+    });
+
+    it('accepts text files whose first header starts with PK', () => {
+      expect(parseRoster('PK Number,Client Name\n1,Ann Lee\n').headers).toEqual(['PK Number', 'Client Name']);
+    });
+
+    it('rejects dates with trailing text', () => {
+      expect(parseDate('1980-04-15')?.toISOString()).toBe('1980-04-15T00:00:00.000Z');
+      expect(parseDate('1980-04-15abc')).toBeNull();
+      expect(parseDate('1980-04-155')).toBeNull();
+    });
+  });
+
+  it('suggests a mapping from common agency headers', () => {
+    const { headers } = parseRoster(AGENCY_EXPORT);
+
+    expect(suggestColumnMapping(headers)).toEqual({
+      fullName: 'Client Name',
+      email: 'E-mail',
+      dateOfBirth: 'DOB',
+      spouseDateOfBirth: 'Spouse DOB',
+      dependentAges: 'Dependent Ages',
+      zip: 'Zip Code',
+      income: 'Household Income',
+      currentPlan: 'Current Plan',
+      currentPremium: 'Monthly Premium',
+    });
+  });
+
+  describe('previewRosterImport', () => {
+    const roster = parseRoster(AGENCY_EXPORT);
+    const preview = previewRosterImport(roster, suggestColumnMapping(roster.headers), { asOf: AS_OF });
+
+    it('maps a valid row to a client and a validated scenario', () => {
+      const ann = preview.rows[0]!;
+
+      expect(ann.errors).toEqual([]);
+      expect(ann.client).toMatchObject({ firstName: 'Ann', lastName: 'Lee', email: 'ann@example.com', status: 'prospect' });
+      expect(ann.client?.keyDates).toEqual({ dateOfBirth: '1980-04-15' });
+      expect(ann.scenario?.scenario).toMatchObject({
+        zip: '27601',
+        state: 'NC',
+        adults: 1,
+        children: 2,
+        ages: [45, 10, 7],
+        income: 62000,
+        currentPremium: 412.5,
+      });
+      expect(ann.scenario?.name).toBe('Current: Blue Advantage Silver');
+    });
+
+    it('reports row-level errors with line numbers', () => {
+      expect(preview.rows[1]).toMatchObject({
+        rowNumber: 3,
+        errors: [{ field: 'dateOfBirth', message: 'Invalid date of birth "1962-02-30"' }],
+      });
+      expect(preview.rows[3]?.errors.map((e) => e.field)).toEqual(['email']);
+      expect(preview.errorCount).toBe(2);
+      expect(preview.validCount).toBe(3);
+    });
+
+    it('restores leading zeros and derives the state from the ZIP code', () => {
+      const cara = preview.rows[2]!;
+
+      expect(cara.scenario?.scenario).toMatchObject({ zip: '06103', state: 'CT', adults: 2, ages: [35, 34] });
+      expect(cara.client?.keyDates).toEqual({ dateOfBirth: '1990-06-01', spouseDateOfBirth: '1991-01-20' });
+      expect(cara.warnings).toContain('State CT derived from ZIP code');
+    });
+
+    it('imports rows without household data as clients only', () => {
+      expect(preview.rows[4]?.scenario).toBeUndefined();
+      expect(preview.rows[4]?.client?.keyDates).toBeUndefined();
+      expect(preview.rows[4]?.warnings).toContain('No household data; imported as a client without a scenario');
+    });
+
+    it('requires a name mapping', () => {
+      expect(() => previewRosterImport(roster, { zip: 'Zip Code' })).toThrow('full name column');
+    });
+  });
+
+  describe('commitRosterImport', () => {
+    it('writes valid rows and skips duplicates', async () => {
+      createClient({ firstName: 'Eve', lastName: 'Park', tags: [], status: 'active' });
+
+      const roster = parseRoster(AGENCY_EXPORT);
+      const preview = previewRosterImport(roster, suggestColumnMapping(roster.headers), { asOf: AS_OF });
+      const result = await commitRosterImport(preview);
+
+      expect(result).toEqual({ imported: 2, scenariosImported: 2, duplicates: 1, errors: [] });
+      expect(getClients().map((c) => c.lastName).sort()).toEqual(['Diaz', 'Lee', 'Park']);
+    });
+
+    it('keeps clients with the same name but a different date of birth or ZIP code', async () => {
+      const existing = createClient({ firstName: 'Ann', lastName: 'Lee', tags: [], status: 'active' });
+      addClientScenario(existing.id, {
+        v: 1, zip: '27601', state: 'NC', adults: 1, children: 0, ages: [45], income: 62000,
+      }, 'Current');
+
+      const roster = parseRoster([
+        'Client Name,DOB,Zip Code,Household Income',
+        'Ann Lee,1980-04-15,27601,62000',
+        'Ann Lee,1980-04-15,10001,62000',
+        'Ann Lee,1955-09-02,10001,41000',
+        'Ann Lee,1980-04-15,10002,62000',
+      ].join('\n'));
+      const preview = previewRosterImport(roster, suggestColumnMapping(roster.headers), { asOf: AS_OF });
+      const result = await commitRosterImport(preview);
+
+      // Row 2 shares the existing client's ZIP code; row 5 shares row 3's date of birth
+      expect(result).toMatchObject({ imported: 2, duplicates: 2 });
+      expect(getClients().flatMap((c) => c.scenarios.map((s) => s.scenario.zip)).sort()).toEqual(['10001', '10001', '27601']);
+    });
+
+    it('matches existing clients on their saved date of birth', async () => {
+      createClient({ firstName: 'Ann', lastName: 'Lee', tags: [], status: 'active', keyDates: { dateOfBirth: '1980-04-15' } });
+
+      const roster = parseRoster([
+        'Client Name,DOB,Zip Code,Household Income',
+        'Ann Lee,1980-04-15,10001,62000',
+        'Ann Lee,1955-09-02,10001,41000',
+      ].join('\n'));
+      const result = await commitRosterImport(previewRosterImport(roster, suggestColumnMapping(roster.headers), { asOf: AS_OF }));
+
+      expect(result).toMatchObject({ imported: 1, duplicates: 1 });
+    });
+
+    it('saves dates of birth so the task pipeline schedules Medicare enrollment', async () => {
+      const roster = parseRoster('Client Name,DOB,Zip Code,Household Income\nGail Moss,03/10/1961,27601,48000\n');
+      await commitRosterImport(previewRosterImport(roster, suggestColumnMapping(roster.headers), { asOf: AS_OF }));
+
+      const [gail] = getClients();
+      expect(gail?.keyDates).toEqual({ dateOfBirth: '1961-03-10' });
+      expect(generateClientTasks(gail!, AS_OF).map((t) => t.type)).toContain('medicare_enrollment');
+    });
+  });
+});
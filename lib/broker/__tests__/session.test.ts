@@ -0,0 +1,99 @@
+/**
+ * Tests for broker session verification
+ */
+
+import { TextEncoder } from 'util';
+import { jwtVerify } from 'jose';
+import type { NextRequest } from 'next/server';
+import { hashSecret, verifySecret } from '@/lib/auth/password-hash';
+import { getBrokerById, type BrokerRow } from '../repository';
+import { getSessionBroker } from '../session';
+
+// jose ships as ES modules only; token signing is covered by jose itself
+jest.mock('jose', () => ({
+  jwtVerify: jest.fn(),
+}));
+
+jest.mock('../repository', () => ({
+  getBrokerById: jest.fn(),
+}));
+
+// jsdom has no TextEncoder (used to encode the JWT secret)
+Object.assign(global, { TextEncoder });
+
+const BROKER_ID = '5f0c8a52-2d4e-4c1f-9a57-1d2f3b4c5d6e';
+
+const broker = {
+  id: 1,
+  brokerId: BROKER_ID,
+  email: 'jane@agency.com',
+  passwordHash: 'salt:hash',
+} as BrokerRow;
+
+async function requestWithToken(claims: Record<string, unknown>, subject?: string): Promise<NextRequest> {
+  jest.mocked(jwtVerify).mockResolvedValue({ payload: { ...claims, sub: subject } } as never);
+  return { cookies: { get: () => ({ value: 'token' }) } } as unknown as NextRequest;
+}
+
+describe('getSessionBroker', () => {
+  const originalSecret = process.env.JWT_SECRET;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.mocked(getBrokerById).mockReset().mockResolvedValue(broker);
+  });
+
+  test('returns the broker named by the token', async () => {
+    const request = await requestWithToken({ authenticated: true, brokerId: BROKER_ID }, 'jane@agency.com');
+
+    await expect(getSessionBroker(request)).resolves.toBe(broker);
+    expect(getBrokerById).toHaveBeenCalledWith(BROKER_ID);
+  });
+
+  test('rejects site-password tokens that only carry an email', async () => {
+    const request = await requestWithToken({ authenticated: true }, 'jane@agency.com');
+
+    await expect(getSessionBroker(request)).resolves.toBeNull();
+    expect(getBrokerById).not.toHaveBeenCalled();
+  });
+
+  test('rejects invalid tokens', async () => {
+    const request = await requestWithToken({});
+    jest.mocked(jwtVerify).mockRejectedValue(new Error('signature verification failed'));
+
+    await expect(getSessionBroker(request)).resolves.toBeNull();
+  });
+
+  test('rejects tokens whose email does not match the workspace', async () => {
+    const request = await requestWithToken({ authenticated: true, brokerId: BROKER_ID }, 'someone@else.com');
+    await expect(getSessionBroker(request)).resolves.toBeNull();
+  });
+
+  test('rejects unknown or unprovisioned workspaces', async () => {
+    const request = await requestWithToken({ authenticated: true, brokerId: BROKER_ID }, 'jane@agency.com');
+
+    jest.mocked(getBrokerById).mockResolvedValue(null);
+    await expect(getSessionBroker(request)).resolves.toBeNull();
+
+    jest.mocked(getBrokerById).mockResolvedValue({ ...broker, passwordHash: null });
+    await expect(getSessionBroker(request)).resolves.toBeNull();
+  });
+});
+
+describe('password hashing', () => {
+  test('verifies the original password only', async () => {
+    const stored = await hashSecret('correct horse battery');
+
+    expect(stored).toMatch(/^[0-9a-f]{32}:[0-9a-f]{64}$/);
+    await expect(verifySecret('correct horse battery', stored)).resolves.toBe(true);
+    await expect(verifySecret('wrong password', stored)).resolves.toBe(false);
+    await expect(verifySecret('anything', 'malformed')).resolves.toBe(false);
+  });
+});
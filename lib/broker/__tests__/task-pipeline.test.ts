@@ -0,0 +1,191 @@
+/**
+ * Task Pipeline Tests
+ */
+
+import {
+  generateClientTasks,
+  getTasks,
+  getTaskQueue,
+  addFollowUpTask,
+  completeTask,
+  reopenTask,
+  deleteFollowUpTask,
+  migrateLocalTasks,
+  exportTasksToICalendar,
+} from '../task-pipeline';
+import { createClient, getClient, type BrokerClient } from '../client-manager';
+import { updateRemoteClient } from '../remote-client-manager';
+
+jest.mock('../remote-client-manager', () => ({
+  updateRemoteClient: jest.fn(),
+}));
+
+const asOf = new Date(2026, 0, 10);
+
+const client: BrokerClient = {
+  id: 'client_1',
+  firstName: 'Dana',
+  lastName: 'Reyes',
+  tags: [],
+  status: 'active',
+  createdAt: 0,
+  updatedAt: 0,
+  scenarios: [],
+  keyDates: {
+    renewalDate: '2025-03-01',
+    dateOfBirth: '1961-03-15',
+    lifeEvents: [{ reason: 'loss_of_coverage', eventDate: '2026-01-01' }],
+    receivesAdvancePTC: true,
+  },
+};
+
+const byType = (type: string) => generateClientTasks(client, asOf).find((t) => t.type === type)!;
+
+describe('Task Pipeline', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('generateClientTasks', () => {
+    it('returns nothing for clients without key dates', () => {
+      expect(generateClientTasks({ ...client, keyDates: undefined }, asOf)).toEqual([]);
+    });
+
+    it('schedules the renewal review 30 days before the next anniversary', () => {
+      const renewal = byType('renewal');
+
+      expect(new Date(renewal.dueDate)).toEqual(new Date(2026, 0, 30));
+      expect(new Date(renewal.startDate!)).toEqual(new Date(2025, 11, 31));
+      expect(renewal.id).toBe('renewal:client_1:2026-01-30');
+    });
+
+    it('uses the SEP window end as the deadline', () => {
+      const sep = byType('sep_deadline');
+
+      expect(new Date(sep.dueDate)).toEqual(new Date(2026, 2, 2));
+      expect(sep.title).toContain('loss of coverage');
+    });
+
+    it('covers the Medicare initial enrollment period around the 65th birthday', () => {
+      const medicare = byType('medicare_enrollment');
+
+      expect(new Date(medicare.dueDate)).toEqual(new Date(2026, 1, 28));
+      expect(new Date(medicare.startDate!)).toEqual(new Date(2025, 11, 1));
+      expect(medicare.priority).toBe('high');
+    });
+
+    it('reminds clients with advance credits to reconcile at tax time', () => {
+      expect(new Date(byType('income_reconciliation').dueDate)).toEqual(new Date(2026, 3, 15));
+    });
+
+    it('skips SEP windows that closed long ago', () => {
+      const tasks = generateClientTasks(
+        { ...client, keyDates: { lifeEvents: [{ reason: 'moved', eventDate: '2025-01-01' }] } },
+        asOf
+      );
+
+      expect(tasks).toEqual([]);
+    });
+  });
+
+  describe('getTaskQueue', () => {
+    // Saved to the local client book so task state can be written back
+    const saveClient = () => createClient({
+      firstName: client.firstName,
+      lastName: client.lastName,
+      tags: [],
+      status: 'active',
+      keyDates: client.keyDates,
+    });
+    const renewalId = (c: BrokerClient) => generateClientTasks(c, asOf).find((t) => t.type === 'renewal')!.id;
+
+    it('groups tasks into overdue, due soon and upcoming', async () => {
+      let saved = saveClient();
+      saved = (await addFollowUpTask(saved, { title: 'Send enrollment packet', dueDate: '2026-01-05' })).client;
+      saved = (await addFollowUpTask(saved, { title: 'Check on claims', dueDate: '2026-01-15', priority: 'low' })).client;
+
+      const queue = getTaskQueue({ clients: [saved], asOf });
+
+      expect(queue.overdue.map((t) => t.title)).toEqual(['Send enrollment packet']);
+      expect(queue.dueSoon.map((t) => t.title)).toEqual(['Check on claims']);
+      expect(queue.dueSoon[0]).toMatchObject({ clientId: saved.id, clientName: 'Dana Reyes', source: 'manual' });
+      // Tax-time reconciliation is beyond the 90-day horizon
+      expect(queue.upcoming.map((t) => t.type)).toEqual(['renewal', 'medicare_enrollment', 'sep_deadline']);
+    });
+
+    it('saves completion on the client record until the task is reopened', async () => {
+      const saved = saveClient();
+      const taskId = renewalId(saved);
+
+      const completed = await completeTask(saved, taskId);
+      expect(getClient(saved.id)?.tasks?.completed[taskId]).toBeDefined();
+      expect(getTasks({ clients: [completed], asOf }).some((t) => t.id === taskId)).toBe(false);
+      expect(getTasks({ clients: [completed], asOf, includeCompleted: true }).find((t) => t.id === taskId)?.completedAt).toBeDefined();
+
+      const reopened = await reopenTask(completed, taskId);
+      expect(getTasks({ clients: [reopened], asOf }).some((t) => t.id === taskId)).toBe(true);
+    });
+
+    it('only deletes follow-up tasks', async () => {
+      const { client: saved, task } = await addFollowUpTask(saveClient(), { title: 'Call back', dueDate: '2026-01-12' });
+
+      await expect(deleteFollowUpTask(saved, renewalId(saved))).resolves.toBeNull();
+      const updated = await deleteFollowUpTask(saved, task.id);
+      expect(getTasks({ clients: [updated!], asOf }).some((t) => t.id === task.id)).toBe(false);
+    });
+
+    it('rejects invalid follow-up dates', async () => {
+      await expect(addFollowUpTask(client, { title: 'Bad', dueDate: '2026-02-30' })).rejects.toThrow('Invalid due date');
+    });
+
+    it('saves to the broker workspace when the target is remote', async () => {
+      const mockUpdate = updateRemoteClient as jest.Mock;
+      mockUpdate.mockImplementation(async (clientId: string, updates: Partial<BrokerClient>) => ({ ...client, id: clientId, ...updates }));
+
+      const updated = await completeTask(client, renewalId(client), { target: 'remote' });
+
+      expect(mockUpdate).toHaveBeenCalledWith('client_1', {
+        tasks: { followUps: [], completed: { [renewalId(client)]: expect.any(Number) } },
+      });
+      expect(updated.tasks?.completed[renewalId(client)]).toBeDefined();
+    });
+
+    it('moves task state from the old localStorage store onto clients', async () => {
+      const saved = saveClient();
+      localStorage.setItem('broker_tasks', JSON.stringify({
+        followUps: [{
+          id: `follow_up:${saved.id}:abc`, clientId: saved.id, clientName: 'Dana Reyes', type: 'follow_up',
+          title: 'Call back', dueDate: asOf.getTime(), priority: 'medium', source: 'manual',
+        }],
+        completed: { [renewalId(saved)]: 1, 'renewal:client_other:2026-01-30': 2 },
+      }));
+
+      const [migrated] = await migrateLocalTasks([saved]);
+
+      expect(migrated?.tasks?.followUps.map((t) => t.title)).toEqual(['Call back']);
+      expect(migrated?.tasks?.completed).toEqual({ [renewalId(saved)]: 1 });
+      expect(localStorage.getItem('broker_tasks')).toBeNull();
+    });
+  });
+
+  describe('exportTasksToICalendar', () => {
+    it('writes all-day events with escaped, folded text', () => {
+      const ics = exportTasksToICalendar(
+        [{ ...byType('renewal'), title: 'Renewal; review, plans for Dana Reyes and a long household name that wraps' }],
+        { now: new Date(Date.UTC(2026, 0, 10, 12, 0, 0)) }
+      );
+      const lines = ics.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines).toContain('UID:renewal:client_1:2026-01-30@coverage-gap-analyzer');
+      expect(lines).toContain('DTSTAMP:20260110T120000Z');
+      expect(lines).toContain('DTSTART;VALUE=DATE:20260130');
+      expect(lines).toContain('DTEND;VALUE=DATE:20260131');
+      expect(lines.every((line) => line.length <= 75)).toBe(true);
+      expect(ics.replace(/\r\n /g, '')).toContain(
+        'SUMMARY:Renewal\\; review\\, plans for Dana Reyes and a long household name that wraps'
+      );
+    });
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Bulk Client Re-analysis
+ *
+ * Re-runs every saved scenario for a set of broker clients against a new plan
+ * year and flags the clients whose recommendation, net premium or subsidy
+ * changed enough to warrant a call during open enrollment.
+ */
+
+import { analyzeInsurance } from '@/lib/calculator';
+import { scenarioToFormData } from '@/lib/sharing';
+import { logger } from '@/lib/logger';
+import type { CostRange, InsuranceRecommendation } from '@/types';
+import { getClientDisplayName, type BrokerClient, type ClientScenario } from './client-manager';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Minimum changes treated as material
+ */
+export interface MaterialChangeThresholds {
+  /** Net monthly premium change in dollars (midpoint of the estimate range) */
+  netPremiumDollars: number;
+  /** Net monthly premium change as a fraction of the previous premium */
+  netPremiumPercent: number;
+  /** Monthly premium tax credit change in dollars */
+  subsidyDollars: number;
+}
+
+export interface BulkReanalysisOptions {
+  /** Plan year to re-analyze against */
+  planYear: number;
+  /** Plan year the scenarios were last analyzed for (defaults to planYear - 1) */
+  previousPlanYear?: number;
+  thresholds?: Partial<MaterialChangeThresholds>;
+  /** Called after each scenario completes */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * The figures compared between plan years
+ */
+export interface ScenarioSnapshot {
+  planYear: number;
+  recommendedPlan: string;
+  netMonthlyPremium: CostRange;
+  monthlySubsidy: number;
+  subsidyEligible: boolean;
+  medicaidEligible: boolean;
+}
+
+export type ScenarioChangeField = 'recommendedPlan' | 'netPremium' | 'subsidy' | 'eligibility';
+
+export interface ScenarioChange {
+  field: ScenarioChangeField;
+  description: string;
+}
+
+export interface ScenarioReanalysis {
+  scenarioId: string;
+  scenarioName: string;
+  previous?: ScenarioSnapshot;
+  current?: ScenarioSnapshot;
+  /** Net monthly premium change at the midpoint of the estimate range */
+  netPremiumChange: number;
+  subsidyChange: number;
+  changes: ScenarioChange[];
+  material: boolean;
+  error?: string;
+}
+
+export interface ClientReanalysis {
+  clientId: string;
+  clientName: string;
+  scenarios: ScenarioReanalysis[];
+  hasMaterialChange: boolean;
+}
+
+export interface BulkReanalysisReport {
+  planYear: number;
+  previousPlanYear: number;
+  generatedAt: number;
+  clientsAnalyzed: number;
+  scenariosAnalyzed: number;
+  scenariosFailed: number;
+  clients: ClientReanalysis[];
+  /** Clients with at least one material change, largest premium change first */
+  clientsToContact: ClientReanalysis[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_MATERIAL_CHANGE_THRESHOLDS: MaterialChangeThresholds = {
+  netPremiumDollars: 25,
+  netPremiumPercent: 0.1,
+  subsidyDollars: 25,
+};
+
+/** Most clients re-analyzed per API request; larger books are sent in batches */
+export const MAX_REANALYSIS_CLIENTS_PER_REQUEST = 10;
+
+// ============================================================================
+// RE-ANALYSIS
+// ============================================================================
+
+/**
+ * Re-analyze every scenario of the given clients for a new plan year
+ */
+export async function reanalyzeClients(
+  clients: BrokerClient[],
+  options: BulkReanalysisOptions
+): Promise<BulkReanalysisReport> {
+  const planYear = options.planYear;
+  const previousPlanYear = options.previousPlanYear ?? planYear - 1;
+  const thresholds = { ...DEFAULT_MATERIAL_CHANGE_THRESHOLDS, ...options.thresholds };
+
+  const total = clients.reduce((sum, c) => sum + c.scenarios.length, 0);
+  let completed = 0;
+
+  const results: ClientReanalysis[] = [];
+
+  // Sequential on purpose: each analysis may call the Healthcare.gov API
+  for (const client of clients) {
+    const scenarios: ScenarioReanalysis[] = [];
+
+    for (const scenario of client.scenarios) {
+      scenarios.push(await reanalyzeScenario(scenario, previousPlanYear, planYear, thresholds));
+      completed++;
+      options.onProgress?.(completed, total);
+    }
+
+    results.push({
+      clientId: client.id,
+      clientName: getClientDisplayName(client),
+      scenarios,
+      hasMaterialChange: scenarios.some((s) => s.material),
+    });
+  }
+
+  return buildReport(planYear, previousPlanYear, results);
+}
+
+/**
+ * Combine the reports of batches run against the same plan years
+ */
+export function mergeReanalysisReports(reports: BulkReanalysisReport[]): BulkReanalysisReport {
+  const [first] = reports;
+  if (!first) throw new Error('No reports to merge');
+
+  return buildReport(first.planYear, first.previousPlanYear, reports.flatMap((r) => r.clients));
+}
+
+/**
+ * Totals and the contact list for a set of client results
+ */
+function buildReport(
+  planYear: number,
+  previousPlanYear: number,
+  results: ClientReanalysis[]
+): BulkReanalysisReport {
+  const allScenarios = results.flatMap((r) => r.scenarios);
+  const largestChange = (client: ClientReanalysis) =>
+    Math.max(...client.scenarios.map((s) => Math.abs(s.netPremiumChange)));
+
+  return {
+    planYear,
+    previousPlanYear,
+    generatedAt: Date.now(),
+    clientsAnalyzed: results.length,
+    scenariosAnalyzed: allScenarios.length,
+    scenariosFailed: allScenarios.filter((s) => s.error).length,
+    clients: results,
+    clientsToContact: results
+      .filter((r) => r.hasMaterialChange)
+      .sort((a, b) => largestChange(b) - largestChange(a)),
+  };
+}
+
+/**
+ * Re-analyze one scenario for both plan years and compare
+ */
+async function reanalyzeScenario(
+  scenario: ClientScenario,
+  previousPlanYear: number,
+  planYear: number,
+  thresholds: MaterialChangeThresholds
+): Promise<ScenarioReanalysis> {
+  const result: ScenarioReanalysis = {
+    scenarioId: scenario.id,
+    scenarioName: scenario.name,
+    netPremiumChange: 0,
+    subsidyChange: 0,
+    changes: [],
+    material: false,
+  };
+
+  let previous: ScenarioSnapshot;
+  let current: ScenarioSnapshot;
+
+  try {
+    previous = toSnapshot(await analyzeInsurance(scenarioToFormData(scenario.scenario, previousPlanYear)), previousPlanYear);
+    current = toSnapshot(await analyzeInsurance(scenarioToFormData(scenario.scenario, planYear)), planYear);
+  } catch (error) {
+    logger.error('[Bulk Reanalysis] Scenario analysis failed', {
+      scenarioId: scenario.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    result.error = error instanceof Error ? error.message : 'Analysis failed';
+    return result;
+  }
+
+  return { ...result, previous, current, ...compareSnapshots(previous, current, thresholds) };
+}
+
+function toSnapshot(recommendation: InsuranceRecommendation, planYear: number): ScenarioSnapshot {
+  const subsidy = recommendation.subsidyAnalysis;
+
+  return {
+    planYear: subsidy?.planYear ?? planYear,
+    recommendedPlan: recommendation.recommendedInsurance,
+    netMonthlyPremium: recommendation.estimatedMonthlyCost,
+    monthlySubsidy: subsidy?.estimatedMonthlySubsidy ?? 0,
+    subsidyEligible: subsidy?.subsidyEligible ?? false,
+    medicaidEligible: subsidy?.medicaidEligible ?? false,
+  };
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Compare two snapshots of the same scenario
+ */
+export function compareSnapshots(
+  previous: ScenarioSnapshot,
+  current: ScenarioSnapshot,
+  thresholds: MaterialChangeThresholds = DEFAULT_MATERIAL_CHANGE_THRESHOLDS
+): Pick<ScenarioReanalysis, 'netPremiumChange' | 'subsidyChange' | 'changes' | 'material'> {
+  const changes: ScenarioChange[] = [];
+
+  const previousPremium = midpoint(previous.netMonthlyPremium);
+  const netPremiumChange = round(midpoint(current.netMonthlyPremium) - previousPremium);
+  const subsidyChange = round(current.monthlySubsidy - previous.monthlySubsidy);
+
+  if (current.recommendedPlan !== previous.recommendedPlan) {
+    changes.push({
+      field: 'recommendedPlan',
+      description: `Recommendation changed from ${previous.recommendedPlan} to ${current.recommendedPlan}`,
+    });
+  }
+
+  const premiumPercent = previousPremium > 0 ? Math.abs(netPremiumChange) / previousPremium : 0;
+  if (
+    Math.abs(netPremiumChange) >= thresholds.netPremiumDollars &&
+    (previousPremium === 0 || premiumPercent >= thresholds.netPremiumPercent)
+  ) {
+    changes.push({
+      field: 'netPremium',
+      description: `Net premium ${netPremiumChange > 0 ? 'up' : 'down'} about ${formatDollars(Math.abs(netPremiumChange))}/month`,
+    });
+  }
+
+  if (Math.abs(subsidyChange) >= thresholds.subsidyDollars) {
+    changes.push({
+      field: 'subsidy',
+      description: `Premium tax credit ${subsidyChange > 0 ? 'up' : 'down'} ${formatDollars(Math.abs(subsidyChange))}/month`,
+    });
+  }
+
+  if (current.subsidyEligible !== previous.subsidyEligible || current.medicaidEligible !== previous.medicaidEligible) {
+    changes.push({
+      field: 'eligibility',
+      description: current.medicaidEligible
+        ? 'Now likely eligible for Medicaid'
+        : current.subsidyEligible
+        ? 'Now eligible for premium tax credits'
+        : 'No longer eligible for premium tax credits',
+    });
+  }
+
+  return { netPremiumChange, subsidyChange, changes, material: changes.length > 0 };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function midpoint(range: CostRange): number {
+  return (range.low + range.high) / 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDollars(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
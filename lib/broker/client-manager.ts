@@ -5,6 +5,7 @@
  */
 
 import { type ShareableScenario } from '@/lib/sharing';
+import type { SpecialEnrollmentReason } from '@/lib/calculator/edge-case-handlers';
 
 /**
  * Client profile
@@ -21,6 +22,72 @@ export interface BrokerClient {
   tags: string[];
   status: ClientStatus;
   scenarios: ClientScenario[];
+  keyDates?: ClientKeyDates;
+  /** Follow-ups and completed tasks from the task pipeline */
+  tasks?: ClientTaskState;
+  /** Consent records, newest last (revoked records are kept) */
+  consents?: ClientConsent[];
+  /** When the status last changed, for retention policies */
+  statusChangedAt?: number;
+  /** Set once personal details have been removed under a retention policy */
+  anonymizedAt?: number;
+}
+
+/**
+ * Dates that drive renewal and follow-up tasks (ISO YYYY-MM-DD strings)
+ */
+export interface ClientKeyDates {
+  renewalDate?: string;
+  dateOfBirth?: string;
+  spouseDateOfBirth?: string;
+  lifeEvents?: Array<{ reason: SpecialEnrollmentReason; eventDate: string }>;
+  /** Receives advance premium tax credits that must be reconciled at tax time */
+  receivesAdvancePTC?: boolean;
+}
+
+/**
+ * A follow-up the broker added for a client
+ */
+export interface ClientFollowUp {
+  id: string;
+  title: string;
+  description?: string;
+  dueDate: number;
+  priority: 'high' | 'medium' | 'low';
+  createdAt: number;
+}
+
+/**
+ * Task pipeline state saved with the client
+ */
+export interface ClientTaskState {
+  followUps: ClientFollowUp[];
+  /** Completion time by task ID (epoch ms) */
+  completed: Record<string, number>;
+}
+
+/**
+ * What a household has agreed to
+ */
+export type ConsentScope = 'data_storage' | 'health_information' | 'income_information' | 'contact';
+
+/**
+ * How consent was captured
+ */
+export type ConsentMethod = 'verbal' | 'written' | 'electronic';
+
+/**
+ * Household-level consent record
+ */
+export interface ClientConsent {
+  id: string;
+  scopes: ConsentScope[];
+  method: ConsentMethod;
+  consentedAt: number;
+  /** Broker or staff member who captured the consent */
+  recordedBy?: string;
+  notes?: string;
+  revokedAt?: number;
 }
 
 /**
@@ -63,14 +130,21 @@ const STORAGE_KEY = 'broker_clients';
 /**
  * Generate unique client ID
  */
-function generateClientId(): string {
+export function generateClientId(): string {
   return `client_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
 }
 
+/**
+ * Generate unique consent ID
+ */
+export function generateConsentId(): string {
+  return `consent_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
 /**
  * Generate unique scenario ID
  */
-function generateScenarioId(): string {
+export function generateScenarioId(): string {
   return `scn_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 8)}`;
 }
 
@@ -115,6 +189,7 @@ export function createClient(
     id: generateClientId(),
     createdAt: now,
     updatedAt: now,
+    statusChangedAt: now,
     scenarios: [],
   };
 
@@ -144,12 +219,17 @@ export function updateClient(
   const existing = clients[index];
   if (!existing) return null;
 
+  const now = Date.now();
   const updated: BrokerClient = {
     ...existing,
     ...updates,
-    updatedAt: Date.now(),
+    updatedAt: now,
   };
 
+  if (updates.status && updates.status !== existing.status) {
+    updated.statusChangedAt = now;
+  }
+
   clients[index] = updated;
   localStorage.setItem(STORAGE_KEY, JSON.stringify(clients));
 
@@ -173,6 +253,52 @@ export function deleteClient(id: string): boolean {
   return true;
 }
 
+/**
+ * Record a household consent
+ */
+export function recordClientConsent(
+  clientId: string,
+  consent: Omit<ClientConsent, 'id' | 'revokedAt'>
+): ClientConsent | null {
+  if (typeof window === 'undefined') {
+    throw new Error('recordClientConsent is only available in browser environments');
+  }
+
+  const client = getClient(clientId);
+  if (!client) return null;
+
+  const record: ClientConsent = { ...consent, id: generateConsentId() };
+  updateClient(clientId, { consents: [...(client.consents ?? []), record] });
+
+  return record;
+}
+
+/**
+ * Revoke a consent (the record is kept with its revocation date)
+ */
+export function revokeClientConsent(clientId: string, consentId: string): boolean {
+  if (typeof window === 'undefined') {
+    throw new Error('revokeClientConsent is only available in browser environments');
+  }
+
+  const client = getClient(clientId);
+  const consent = client?.consents?.find((c) => c.id === consentId && !c.revokedAt);
+  if (!client || !consent) return false;
+
+  updateClient(clientId, {
+    consents: client.consents!.map((c) => (c.id === consentId ? { ...c, revokedAt: Date.now() } : c)),
+  });
+
+  return true;
+}
+
+/**
+ * Check whether a client has an unrevoked consent covering a scope
+ */
+export function hasActiveConsent(client: Pick<BrokerClient, 'consents'>, scope: ConsentScope): boolean {
+  return (client.consents ?? []).some((c) => !c.revokedAt && c.scopes.includes(scope));
+}
+
 /**
  * Add a scenario to a client
  */
@@ -450,6 +576,13 @@ export function getClientInitials(client: BrokerClient): string {
 /**
  * Status display names
  */
+export const CONSENT_SCOPE_LABELS: Record<ConsentScope, string> = {
+  data_storage: 'Store household details',
+  health_information: 'Use health information',
+  income_information: 'Use income information',
+  contact: 'Contact about coverage',
+};
+
 export const STATUS_DISPLAY_NAMES: Record<ClientStatus, string> = {
   active: 'Active',
   inactive: 'Inactive',
@@ -1,7 +1,8 @@
 /**
  * Broker Module
  *
- * Exports broker client management utilities.
+ * Exports broker client management utilities. Server-only persistence lives in
+ * ./repository and ./session and is imported directly by API routes.
  */
 
 export {
@@ -21,10 +22,116 @@ export {
   clearAllClients,
   getClientDisplayName,
   getClientInitials,
+  recordClientConsent,
+  revokeClientConsent,
+  hasActiveConsent,
+  CONSENT_SCOPE_LABELS,
   STATUS_DISPLAY_NAMES,
   STATUS_COLORS,
   type BrokerClient,
+  type ClientConsent,
+  type ConsentMethod,
+  type ConsentScope,
+  type ClientKeyDates,
+  type ClientFollowUp,
+  type ClientTaskState,
   type ClientStatus,
   type ClientScenario,
   type ClientFilters,
 } from './client-manager';
+
+export {
+  fetchRemoteClients,
+  fetchRemoteClient,
+  createRemoteClient,
+  updateRemoteClient,
+  deleteRemoteClient,
+  addRemoteClientScenario,
+  updateRemoteClientScenario,
+  deleteRemoteClientScenario,
+  runRemoteBulkReanalysis,
+  recordRemoteClientConsent,
+  revokeRemoteClientConsent,
+  fetchRetentionPolicy,
+  updateRemoteRetentionPolicy,
+  runRemoteRetentionSweep,
+  hasSyncedLocalClients,
+  syncLocalClientsToServer,
+  type RemoteClientInput,
+  type RemoteConsentInput,
+  type RemoteClientUpdate,
+  type RemoteScenarioInput,
+  type RemoteScenarioUpdate,
+  type LocalSyncResult,
+} from './remote-client-manager';
+
+export {
+  reanalyzeClients,
+  mergeReanalysisReports,
+  compareSnapshots,
+  DEFAULT_MATERIAL_CHANGE_THRESHOLDS,
+  MAX_REANALYSIS_CLIENTS_PER_REQUEST,
+  type BulkReanalysisOptions,
+  type BulkReanalysisReport,
+  type ClientReanalysis,
+  type MaterialChangeThresholds,
+  type ScenarioChange,
+  type ScenarioChangeField,
+  type ScenarioReanalysis,
+  type ScenarioSnapshot,
+} from './bulk-reanalysis';
+
+export {
+  readRosterFile,
+  parseRoster,
+  parseRosterWorkbook,
+  parseDelimitedText,
+  suggestColumnMapping,
+  previewRosterImport,
+  commitRosterImport,
+  ROSTER_FIELDS,
+  type RosterField,
+  type RosterColumnMapping,
+  type ParsedRoster,
+  type RosterRowError,
+  type RosterRowPreview,
+  type RosterImportPreview,
+  type RosterImportResult,
+} from './roster-import';
+
+export {
+  generateClientTasks,
+  getTasks,
+  getTaskQueue,
+  addFollowUpTask,
+  completeTask,
+  reopenTask,
+  deleteFollowUpTask,
+  migrateLocalTasks,
+  exportTasksToICalendar,
+  downloadICalendar,
+  TASK_TYPE_LABELS,
+  type ClientTask,
+  type ClientTaskType,
+  type TaskPriority,
+  type TaskQueue,
+  type TaskQueryOptions,
+  type FollowUpInput,
+  type TaskStorageOptions,
+} from './task-pipeline';
+
+export {
+  evaluateRetention,
+  resolveRetentionPolicy,
+  anonymizeClient,
+  applyLocalRetention,
+  DEFAULT_RETENTION_POLICY,
+  type RetentionAction,
+  type RetentionRule,
+  type RetentionPolicy,
+  type RetentionPolicyOverrides,
+  type RetentionSubject,
+  type RetentionDecision,
+  type RetentionSweepResult,
+  type LocalRetentionResult,
+} from './retention';
@@ -0,0 +1,300 @@
+/**
+ * Remote Broker Client Manager
+ *
+ * Browser adapter for the server-side broker workspace (/api/broker). Mirrors
+ * the localStorage client manager API with async calls, and uploads the
+ * existing localStorage client book the first time a broker signs in.
+ */
+
+import {
+  getClients,
+  type BrokerClient,
+  type ClientConsent,
+  type ClientScenario,
+} from './client-manager';
+import {
+  mergeReanalysisReports,
+  MAX_REANALYSIS_CLIENTS_PER_REQUEST,
+  type BulkReanalysisReport,
+  type MaterialChangeThresholds,
+} from './bulk-reanalysis';
+import type { RetentionPolicy, RetentionPolicyOverrides, RetentionSweepResult } from './retention';
+
+/**
+ * Storage key recording when local clients were uploaded
+ */
+const SYNCED_AT_KEY = 'broker_clients_synced_at';
+
+const API_BASE = '/api/broker/clients';
+
+export type RemoteClientInput = Omit<
+  BrokerClient,
+  'id' | 'createdAt' | 'updatedAt' | 'scenarios' | 'consents' | 'statusChangedAt' | 'anonymizedAt'
+>;
+export type RemoteClientUpdate = Partial<RemoteClientInput>;
+export type RemoteScenarioInput = Omit<ClientScenario, 'id' | 'createdAt' | 'updatedAt'>;
+export type RemoteScenarioUpdate = Partial<RemoteScenarioInput>;
+export type RemoteConsentInput = Omit<ClientConsent, 'id' | 'consentedAt' | 'revokedAt'> & { consentedAt?: number };
+
+export interface LocalSyncResult {
+  synced: boolean;
+  imported: number;
+  skipped: number;
+  scenariosImported: number;
+}
+
+/**
+ * Send a JSON request to the broker API, returning null on 404
+ */
+async function request<T>(url: string, init?: RequestInit): Promise<T | null> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+    credentials: 'same-origin',
+  });
+
+  if (response.status === 404) return null;
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Broker API request failed (${response.status})`);
+  }
+
+  return data as T;
+}
+
+function clientUrl(clientId: string): string {
+  return `${API_BASE}/${encodeURIComponent(clientId)}`;
+}
+
+function scenarioUrl(clientId: string, scenarioId?: string): string {
+  const base = `${clientUrl(clientId)}/scenarios`;
+  return scenarioId ? `${base}/${encodeURIComponent(scenarioId)}` : base;
+}
+
+/**
+ * Get all clients from the server
+ */
+export async function fetchRemoteClients(): Promise<BrokerClient[]> {
+  const data = await request<{ clients: BrokerClient[] }>(API_BASE);
+  return data?.clients ?? [];
+}
+
+/**
+ * Get a single client from the server
+ */
+export async function fetchRemoteClient(clientId: string): Promise<BrokerClient | null> {
+  const data = await request<{ client: BrokerClient }>(clientUrl(clientId));
+  return data?.client ?? null;
+}
+
+/**
+ * Create a client on the server
+ */
+export async function createRemoteClient(input: RemoteClientInput): Promise<BrokerClient> {
+  const data = await request<{ client: BrokerClient }>(API_BASE, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+
+  if (!data) throw new Error('Failed to create client');
+  return data.client;
+}
+
+/**
+ * Update a client on the server
+ */
+export async function updateRemoteClient(
+  clientId: string,
+  updates: RemoteClientUpdate
+): Promise<BrokerClient | null> {
+  const data = await request<{ client: BrokerClient }>(clientUrl(clientId), {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+  return data?.client ?? null;
+}
+
+/**
+ * Delete a client on the server
+ */
+export async function deleteRemoteClient(clientId: string): Promise<boolean> {
+  const data = await request<{ success: boolean }>(clientUrl(clientId), { method: 'DELETE' });
+  return data?.success ?? false;
+}
+
+/**
+ * Save a scenario for a client on the server
+ */
+export async function addRemoteClientScenario(
+  clientId: string,
+  input: RemoteScenarioInput
+): Promise<ClientScenario | null> {
+  const data = await request<{ scenario: ClientScenario }>(scenarioUrl(clientId), {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data?.scenario ?? null;
+}
+
+/**
+ * Update a client scenario on the server
+ */
+export async function updateRemoteClientScenario(
+  clientId: string,
+  scenarioId: string,
+  updates: RemoteScenarioUpdate
+): Promise<ClientScenario | null> {
+  const data = await request<{ scenario: ClientScenario }>(scenarioUrl(clientId, scenarioId), {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  });
+  return data?.scenario ?? null;
+}
+
+/**
+ * Delete a client scenario on the server
+ */
+export async function deleteRemoteClientScenario(clientId: string, scenarioId: string): Promise<boolean> {
+  const data = await request<{ success: boolean }>(scenarioUrl(clientId, scenarioId), { method: 'DELETE' });
+  return data?.success ?? false;
+}
+
+/**
+ * Record a household consent on the server
+ */
+export async function recordRemoteClientConsent(
+  clientId: string,
+  input: RemoteConsentInput
+): Promise<ClientConsent | null> {
+  const data = await request<{ consent: ClientConsent }>(`${clientUrl(clientId)}/consents`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data?.consent ?? null;
+}
+
+/**
+ * Revoke a household consent on the server
+ */
+export async function revokeRemoteClientConsent(clientId: string, consentId: string): Promise<ClientConsent | null> {
+  const data = await request<{ consent: ClientConsent }>(
+    `${clientUrl(clientId)}/consents/${encodeURIComponent(consentId)}`,
+    { method: 'DELETE' }
+  );
+  return data?.consent ?? null;
+}
+
+/**
+ * Get the broker's retention policy
+ */
+export async function fetchRetentionPolicy(): Promise<RetentionPolicy> {
+  const data = await request<{ policy: RetentionPolicy }>('/api/broker/retention');
+  if (!data) throw new Error('Retention policy not found');
+  return data.policy;
+}
+
+/**
+ * Replace the broker's retention policy overrides
+ */
+export async function updateRemoteRetentionPolicy(overrides: RetentionPolicyOverrides): Promise<RetentionPolicy> {
+  const data = await request<{ policy: RetentionPolicy }>('/api/broker/retention', {
+    method: 'PUT',
+    body: JSON.stringify(overrides),
+  });
+  if (!data) throw new Error('Retention policy not found');
+  return data.policy;
+}
+
+/**
+ * Apply the broker's retention policy on the server (a dry run unless dryRun is false)
+ */
+export async function runRemoteRetentionSweep(dryRun = true): Promise<RetentionSweepResult> {
+  const data = await request<{ result: RetentionSweepResult }>('/api/broker/retention/sweep', {
+    method: 'POST',
+    body: JSON.stringify({ dryRun }),
+  });
+  if (!data) throw new Error('Retention sweep failed');
+  return data.result;
+}
+
+/**
+ * Re-analyze the selected clients' scenarios against a new plan year
+ *
+ * Sends the clients in batches of MAX_REANALYSIS_CLIENTS_PER_REQUEST so no
+ * single request runs long, reporting progress after each batch.
+ */
+export async function runRemoteBulkReanalysis(
+  clientIds: string[],
+  planYear: number,
+  options: {
+    previousPlanYear?: number;
+    thresholds?: Partial<MaterialChangeThresholds>;
+    onProgress?: (completed: number, total: number) => void;
+  } = {}
+): Promise<{ report: BulkReanalysisReport; missingClientIds: string[] }> {
+  const { onProgress, ...body } = options;
+  const reports: BulkReanalysisReport[] = [];
+  const missingClientIds: string[] = [];
+
+  for (let start = 0; start < clientIds.length; start += MAX_REANALYSIS_CLIENTS_PER_REQUEST) {
+    const batch = clientIds.slice(start, start + MAX_REANALYSIS_CLIENTS_PER_REQUEST);
+    const data = await request<{ report: BulkReanalysisReport; missingClientIds: string[] }>('/api/broker/reanalysis', {
+      method: 'POST',
+      body: JSON.stringify({ clientIds: batch, planYear, ...body }),
+    });
+
+    if (data) {
+      reports.push(data.report);
+      missingClientIds.push(...data.missingClientIds);
+    } else {
+      missingClientIds.push(...batch);
+    }
+    onProgress?.(start + batch.length, clientIds.length);
+  }
+
+  if (reports.length === 0) throw new Error('No matching clients found');
+  return { report: mergeReanalysisReports(reports), missingClientIds };
+}
+
+/**
+ * Whether this browser's local clients have already been uploaded
+ */
+export function hasSyncedLocalClients(): boolean {
+  if (typeof window === 'undefined') return false;
+  return localStorage.getItem(SYNCED_AT_KEY) !== null;
+}
+
+/**
+ * Upload localStorage clients to the server workspace
+ *
+ * Runs once per browser; local data is left in place so nothing is lost if
+ * the server copy is later removed.
+ */
+export async function syncLocalClientsToServer(): Promise<LocalSyncResult> {
+  const notSynced: LocalSyncResult = { synced: false, imported: 0, skipped: 0, scenariosImported: 0 };
+
+  if (typeof window === 'undefined' || hasSyncedLocalClients()) return notSynced;
+
+  const clients = getClients();
+  if (clients.length === 0) {
+    localStorage.setItem(SYNCED_AT_KEY, String(Date.now()));
+    return notSynced;
+  }
+
+  const data = await request<Omit<LocalSyncResult, 'synced'>>('/api/broker/sync', {
+    method: 'POST',
+    body: JSON.stringify({ clients }),
+  });
+
+  if (!data) return notSynced;
+
+  localStorage.setItem(SYNCED_AT_KEY, String(Date.now()));
+
+  return {
+    synced: true,
+    imported: data.imported,
+    skipped: data.skipped,
+    scenariosImported: data.scenariosImported,
+  };
+}
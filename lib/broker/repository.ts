@@ -0,0 +1,920 @@
+/**
+ * Broker Workspace Repository
+ *
+ * Server-side persistence for broker clients, scenarios, consent, retention
+ * and branding profiles. Reads and deletions of client records are written to
+ * the audit log. Client rows are mapped back to the BrokerClient / ClientScenario
+ * shapes used by the client manager so the browser works with the same
+ * objects whether data is local or remote.
+ */
+
+import { db } from '@/db';
+import { brokers, brokerClients, brokerClientScenarios, brokerBrandingProfiles, auditLog } from '@/db/schema';
+import { and, asc, desc, eq, inArray, ne } from 'drizzle-orm';
+import { hashSecret, verifySecret } from '@/lib/auth/password-hash';
+import {
+  generateClientId,
+  generateConsentId,
+  generateScenarioId,
+  type BrokerClient,
+  type ClientConsent,
+  type ClientKeyDates,
+  type ClientTaskState,
+  type ClientScenario,
+  type ClientStatus,
+} from './client-manager';
+import type {
+  BrokerClientCreateRequest,
+  BrokerClientUpdateRequest,
+  BrokerScenarioCreateRequest,
+  BrokerScenarioUpdateRequest,
+  BrokerSyncRequest,
+  ClientConsentCreateRequest,
+  RetentionPolicyUpdateRequest,
+  BrandingProfileCreateRequest,
+  BrandingProfileUpdateRequest,
+} from '@/lib/validation/api-schemas';
+import type { ShareableScenario } from '@/lib/sharing';
+import {
+  toReportBranding,
+  type BrandingContact,
+  type BrandingProfile,
+  type ReportBranding,
+} from '@/lib/branding';
+import {
+  anonymizeClient,
+  evaluateRetention,
+  resolveRetentionPolicy,
+  type RetentionPolicy,
+  type RetentionPolicyOverrides,
+  type RetentionSweepResult,
+} from './retention';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BrokerRow = typeof brokers.$inferSelect;
+export type BrokerClientRow = typeof brokerClients.$inferSelect;
+export type BrokerClientScenarioRow = typeof brokerClientScenarios.$inferSelect;
+export type BrokerBrandingProfileRow = typeof brokerBrandingProfiles.$inferSelect;
+
+/**
+ * Who is touching a client record, for the audit log
+ */
+export interface ClientAuditContext {
+  /** 'broker_api' for broker requests, 'retention_policy' for sweeps */
+  source: string;
+  ipAddress?: string;
+  correlationId?: string;
+}
+
+export type ClientAuditOperation = 'READ' | 'INSERT' | 'UPDATE' | 'DELETE' | 'ANONYMIZE';
+
+export interface RetentionSweepOptions {
+  /** Limit the sweep to one broker (all brokers otherwise) */
+  broker?: BrokerRow;
+  /** Report due actions without applying them */
+  dryRun?: boolean;
+  now?: Date;
+}
+
+export interface BrokerSyncResult {
+  imported: number;
+  skipped: number;
+  scenariosImported: number;
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Map a scenario row to a ClientScenario
+ */
+export function toClientScenario(row: BrokerClientScenarioRow): ClientScenario {
+  return {
+    id: row.scenarioId,
+    name: row.name,
+    scenario: row.scenario as ShareableScenario,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+    recommendedPlan: row.recommendedPlan ?? undefined,
+    estimatedCost: (row.estimatedCost as ClientScenario['estimatedCost']) ?? undefined,
+    notes: row.notes ?? undefined,
+  };
+}
+
+/**
+ * Map a client row and its scenario rows to a BrokerClient
+ */
+export function toBrokerClient(row: BrokerClientRow, scenarioRows: BrokerClientScenarioRow[]): BrokerClient {
+  return {
+    id: row.clientId,
+    firstName: row.firstName,
+    lastName: row.lastName,
+    email: row.email ?? undefined,
+    phone: row.phone ?? undefined,
+    notes: row.notes ?? undefined,
+    tags: Array.isArray(row.tags) ? (row.tags as string[]) : [],
+    status: row.status as ClientStatus,
+    keyDates: (row.keyDates as ClientKeyDates | null) ?? undefined,
+    tasks: (row.tasks as ClientTaskState | null) ?? undefined,
+    consents: Array.isArray(row.consents) ? (row.consents as ClientConsent[]) : [],
+    statusChangedAt: row.statusChangedAt.getTime(),
+    anonymizedAt: row.anonymizedAt?.getTime(),
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+    scenarios: scenarioRows
+      .filter((s) => s.clientRecordId === row.id)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(toClientScenario),
+  };
+}
+
+/**
+ * Map a branding profile row to a BrandingProfile
+ */
+export function toBrandingProfile(row: BrokerBrandingProfileRow): BrandingProfile {
+  return {
+    id: row.profileId,
+    name: row.name,
+    agencyName: row.agencyName,
+    licenseNumber: row.licenseNumber ?? undefined,
+    logoDataUrl: row.logoDataUrl ?? undefined,
+    primaryColor: row.primaryColor,
+    accentColor: row.accentColor,
+    disclaimer: row.disclaimer ?? undefined,
+    contact: (row.contact as BrandingContact | null) ?? undefined,
+    isDefault: row.isDefault,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+// ============================================================================
+// BROKERS
+// ============================================================================
+
+// Compared against when no broker matches, so unknown emails take as long as wrong passwords
+const UNKNOWN_BROKER_HASH = '00000000000000000000000000000000:' + '0'.repeat(64);
+
+/**
+ * Check a broker's own email and password
+ *
+ * @returns The broker row (with lastLoginAt updated), or null when the email
+ * is unknown, has no password set or the password is wrong
+ */
+export async function verifyBrokerCredentials(email: string, password: string): Promise<BrokerRow | null> {
+  const [broker] = await db.select().from(brokers).where(eq(brokers.email, email)).limit(1);
+
+  const valid = await verifySecret(password, broker?.passwordHash ?? UNKNOWN_BROKER_HASH);
+  if (!broker?.passwordHash || !valid) return null;
+
+  const [updated] = await db
+    .update(brokers)
+    .set({ lastLoginAt: new Date() })
+    .where(eq(brokers.id, broker.id))
+    .returning();
+
+  return updated ?? broker;
+}
+
+/**
+ * Get a broker by its public broker ID (the workspace named in a session)
+ */
+export async function getBrokerById(brokerId: string): Promise<BrokerRow | null> {
+  const [broker] = await db.select().from(brokers).where(eq(brokers.brokerId, brokerId)).limit(1);
+  return broker ?? null;
+}
+
+/**
+ * Create a broker workspace or reset its password (used by npm run broker:add)
+ */
+export async function setBrokerPassword(email: string, password: string, displayName?: string): Promise<BrokerRow> {
+  const passwordHash = await hashSecret(password);
+
+  const [broker] = await db
+    .insert(brokers)
+    .values({ email, passwordHash, displayName })
+    .onConflictDoUpdate({
+      target: brokers.email,
+      set: { passwordHash, updatedAt: new Date(), ...(displayName && { displayName }) },
+    })
+    .returning();
+
+  if (!broker) {
+    throw new Error('Failed to save broker workspace');
+  }
+
+  return broker;
+}
+
+// ============================================================================
+// CLIENTS
+// ============================================================================
+
+/**
+ * List a broker's clients, most recently updated first
+ *
+ * @param options.clientIds - Only load these clients
+ * @param options.audit - Record a READ audit entry for each client returned
+ */
+export async function listBrokerClients(
+  broker: BrokerRow,
+  options: { clientIds?: string[]; audit?: ClientAuditContext } = {}
+): Promise<BrokerClient[]> {
+  const clientRows = await db
+    .select()
+    .from(brokerClients)
+    .where(options.clientIds
+      ? and(eq(brokerClients.brokerId, broker.id), inArray(brokerClients.clientId, options.clientIds))
+      : eq(brokerClients.brokerId, broker.id))
+    .orderBy(desc(brokerClients.updatedAt));
+
+  if (clientRows.length === 0) return [];
+
+  if (options.audit) {
+    await recordClientAudit(broker, clientRows.map((row) => ({ row, operation: 'READ' })), options.audit);
+  }
+
+  const scenarioRows = await db
+    .select()
+    .from(brokerClientScenarios)
+    .where(inArray(brokerClientScenarios.clientRecordId, clientRows.map((c) => c.id)));
+
+  return clientRows.map((row) => toBrokerClient(row, scenarioRows));
+}
+
+/**
+ * Get a single client with its scenarios
+ */
+export async function getBrokerClient(
+  broker: BrokerRow,
+  clientId: string,
+  audit?: ClientAuditContext
+): Promise<BrokerClient | null> {
+  const row = await findClientRow(broker, clientId);
+  if (!row) return null;
+
+  if (audit) {
+    await recordClientAudit(broker, [{ row, operation: 'READ' }], audit);
+  }
+
+  const scenarioRows = await db
+    .select()
+    .from(brokerClientScenarios)
+    .where(eq(brokerClientScenarios.clientRecordId, row.id));
+
+  return toBrokerClient(row, scenarioRows);
+}
+
+/**
+ * Create a client
+ */
+export async function createBrokerClient(
+  broker: BrokerRow,
+  data: BrokerClientCreateRequest
+): Promise<BrokerClient> {
+  const [row] = await db
+    .insert(brokerClients)
+    .values({
+      brokerId: broker.id,
+      clientId: generateClientId(),
+      firstName: data.firstName,
+      lastName: data.lastName,
+      email: data.email,
+      phone: data.phone,
+      notes: data.notes,
+      tags: data.tags,
+      status: data.status,
+      keyDates: data.keyDates,
+      tasks: data.tasks,
+    })
+    .returning();
+
+  if (!row) {
+    throw new Error('Failed to create client');
+  }
+
+  return toBrokerClient(row, []);
+}
+
+/**
+ * Update a client (null when it does not belong to the broker)
+ */
+export async function updateBrokerClient(
+  broker: BrokerRow,
+  clientId: string,
+  updates: BrokerClientUpdateRequest,
+  audit?: ClientAuditContext
+): Promise<BrokerClient | null> {
+  const existing = await findClientRow(broker, clientId);
+  if (!existing) return null;
+
+  const now = new Date();
+  const statusChanged = updates.status !== undefined && updates.status !== existing.status;
+
+  const [row] = await db
+    .update(brokerClients)
+    .set({ ...updates, ...(statusChanged && { statusChangedAt: now }), updatedAt: now })
+    .where(eq(brokerClients.id, existing.id))
+    .returning();
+
+  if (!row) return null;
+
+  if (audit) {
+    await recordClientAudit(broker, [{
+      row,
+      operation: 'UPDATE',
+      changedFields: Object.keys(updates),
+      // Only the status is logged; other fields may hold personal details
+      ...(statusChanged && { oldValues: { status: existing.status }, newValues: { status: row.status } }),
+    }], audit);
+  }
+
+  return getBrokerClient(broker, row.clientId);
+}
+
+/**
+ * Delete a client and its scenarios
+ */
+export async function deleteBrokerClient(
+  broker: BrokerRow,
+  clientId: string,
+  audit?: ClientAuditContext
+): Promise<boolean> {
+  const [deleted] = await db
+    .delete(brokerClients)
+    .where(and(eq(brokerClients.brokerId, broker.id), eq(brokerClients.clientId, clientId)))
+    .returning();
+
+  if (deleted && audit) {
+    await recordClientAudit(broker, [{ row: deleted, operation: 'DELETE' }], audit);
+  }
+
+  return deleted !== undefined;
+}
+
+// ============================================================================
+// CONSENT
+// ============================================================================
+
+/**
+ * Record a household consent (null when the client does not belong to the broker)
+ */
+export async function addBrokerClientConsent(
+  broker: BrokerRow,
+  clientId: string,
+  data: ClientConsentCreateRequest,
+  audit?: ClientAuditContext
+): Promise<ClientConsent | null> {
+  const row = await findClientRow(broker, clientId);
+  if (!row) return null;
+
+  const consent: ClientConsent = {
+    ...data,
+    id: generateConsentId(),
+    consentedAt: data.consentedAt ?? Date.now(),
+  };
+
+  const [updated] = await db
+    .update(brokerClients)
+    .set({ consents: [...toBrokerClient(row, []).consents!, consent], updatedAt: new Date() })
+    .where(eq(brokerClients.id, row.id))
+    .returning();
+
+  if (updated && audit) {
+    await recordClientAudit(broker, [{
+      row: updated,
+      operation: 'UPDATE',
+      changedFields: ['consents'],
+      newValues: { consentId: consent.id, scopes: consent.scopes, method: consent.method },
+      changeReason: 'Consent recorded',
+    }], audit);
+  }
+
+  return consent;
+}
+
+/**
+ * Revoke a consent; the record is kept with its revocation date
+ *
+ * @returns The revoked consent, or null when the client or an unrevoked consent is not found
+ */
+export async function revokeBrokerClientConsent(
+  broker: BrokerRow,
+  clientId: string,
+  consentId: string,
+  audit?: ClientAuditContext
+): Promise<ClientConsent | null> {
+  const row = await findClientRow(broker, clientId);
+  const consents = row ? toBrokerClient(row, []).consents! : [];
+  const existing = consents.find((c) => c.id === consentId && !c.revokedAt);
+  if (!row || !existing) return null;
+
+  const revoked: ClientConsent = { ...existing, revokedAt: Date.now() };
+
+  const [updated] = await db
+    .update(brokerClients)
+    .set({ consents: consents.map((c) => (c.id === consentId ? revoked : c)), updatedAt: new Date() })
+    .where(eq(brokerClients.id, row.id))
+    .returning();
+
+  if (updated && audit) {
+    await recordClientAudit(broker, [{
+      row: updated,
+      operation: 'UPDATE',
+      changedFields: ['consents'],
+      newValues: { consentId, revokedAt: revoked.revokedAt },
+      changeReason: 'Consent revoked',
+    }], audit);
+  }
+
+  return revoked;
+}
+
+// ============================================================================
+// RETENTION
+// ============================================================================
+
+/**
+ * Get a broker's retention policy with its overrides applied
+ */
+export function getRetentionPolicy(broker: BrokerRow): RetentionPolicy {
+  return resolveRetentionPolicy(broker.retentionPolicy as RetentionPolicyOverrides | null);
+}
+
+/**
+ * Replace a broker's retention policy overrides
+ */
+export async function updateRetentionPolicy(
+  broker: BrokerRow,
+  overrides: RetentionPolicyUpdateRequest
+): Promise<RetentionPolicy> {
+  await db
+    .update(brokers)
+    .set({ retentionPolicy: overrides, updatedAt: new Date() })
+    .where(eq(brokers.id, broker.id));
+
+  return resolveRetentionPolicy(overrides);
+}
+
+/**
+ * Anonymize or delete clients whose retention period has passed
+ *
+ * Each change is written to the audit log with the policy reason.
+ */
+export async function runRetentionSweep(options: RetentionSweepOptions = {}): Promise<RetentionSweepResult> {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const audit: ClientAuditContext = { source: 'retention_policy' };
+
+  const brokerRows = options.broker ? [options.broker] : await db.select().from(brokers);
+  const result: RetentionSweepResult = {
+    brokersProcessed: brokerRows.length,
+    clientsEvaluated: 0,
+    decisions: [],
+    anonymized: 0,
+    deleted: 0,
+    dryRun,
+  };
+
+  for (const broker of brokerRows) {
+    const policy = getRetentionPolicy(broker);
+    const rows = await db.select().from(brokerClients).where(eq(brokerClients.brokerId, broker.id));
+    result.clientsEvaluated += rows.length;
+
+    for (const row of rows) {
+      const decision = evaluateRetention(toBrokerClient(row, []), policy, now.getTime());
+      if (!decision) continue;
+
+      result.decisions.push({ ...decision, brokerId: broker.brokerId });
+      if (dryRun) continue;
+
+      if (decision.action === 'delete') {
+        await db.delete(brokerClients).where(eq(brokerClients.id, row.id));
+        result.deleted++;
+      } else {
+        const anonymized = anonymizeClient(toBrokerClient(row, []), now.getTime());
+        await db.transaction(async (tx) => {
+          await tx.delete(brokerClientScenarios).where(eq(brokerClientScenarios.clientRecordId, row.id));
+          await tx
+            .update(brokerClients)
+            .set({
+              firstName: anonymized.firstName,
+              lastName: anonymized.lastName,
+              email: null,
+              phone: null,
+              notes: null,
+              tags: [],
+              keyDates: null,
+              tasks: null,
+              consents: anonymized.consents ?? [],
+              anonymizedAt: now,
+              updatedAt: now,
+            })
+            .where(eq(brokerClients.id, row.id));
+        });
+        result.anonymized++;
+      }
+
+      await recordClientAudit(broker, [{
+        row,
+        operation: decision.action === 'delete' ? 'DELETE' : 'ANONYMIZE',
+        changeReason: decision.reason,
+      }], audit);
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+/**
+ * Add a scenario to a client (null when the client does not exist)
+ */
+export async function addBrokerClientScenario(
+  broker: BrokerRow,
+  clientId: string,
+  data: BrokerScenarioCreateRequest,
+  audit?: ClientAuditContext
+): Promise<ClientScenario | null> {
+  const client = await findClientRow(broker, clientId);
+  if (!client) return null;
+
+  const [row] = await db
+    .insert(brokerClientScenarios)
+    .values({
+      clientRecordId: client.id,
+      scenarioId: generateScenarioId(),
+      name: data.name,
+      scenario: data.scenario,
+      recommendedPlan: data.recommendedPlan,
+      estimatedCost: data.estimatedCost,
+      notes: data.notes,
+    })
+    .returning();
+
+  await touchClient(client.id);
+
+  if (row && audit) {
+    await recordClientAudit(broker, [{ row: client, scenario: row, operation: 'INSERT' }], audit);
+  }
+
+  return row ? toClientScenario(row) : null;
+}
+
+/**
+ * Update a client scenario
+ */
+export async function updateBrokerClientScenario(
+  broker: BrokerRow,
+  clientId: string,
+  scenarioId: string,
+  updates: BrokerScenarioUpdateRequest,
+  audit?: ClientAuditContext
+): Promise<ClientScenario | null> {
+  const client = await findClientRow(broker, clientId);
+  if (!client) return null;
+
+  const [row] = await db
+    .update(brokerClientScenarios)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(and(
+      eq(brokerClientScenarios.clientRecordId, client.id),
+      eq(brokerClientScenarios.scenarioId, scenarioId)
+    ))
+    .returning();
+
+  if (!row) return null;
+
+  await touchClient(client.id);
+
+  if (audit) {
+    await recordClientAudit(broker, [{
+      row: client,
+      scenario: row,
+      operation: 'UPDATE',
+      changedFields: Object.keys(updates),
+    }], audit);
+  }
+
+  return toClientScenario(row);
+}
+
+/**
+ * Delete a client scenario
+ */
+export async function deleteBrokerClientScenario(
+  broker: BrokerRow,
+  clientId: string,
+  scenarioId: string,
+  audit?: ClientAuditContext
+): Promise<boolean> {
+  const client = await findClientRow(broker, clientId);
+  if (!client) return false;
+
+  const [deleted] = await db
+    .delete(brokerClientScenarios)
+    .where(and(
+      eq(brokerClientScenarios.clientRecordId, client.id),
+      eq(brokerClientScenarios.scenarioId, scenarioId)
+    ))
+    .returning({ id: brokerClientScenarios.id, scenarioId: brokerClientScenarios.scenarioId });
+
+  if (!deleted) return false;
+
+  await touchClient(client.id);
+
+  if (audit) {
+    await recordClientAudit(broker, [{ row: client, scenario: deleted, operation: 'DELETE' }], audit);
+  }
+
+  return true;
+}
+
+// ============================================================================
+// BRANDING PROFILES
+// ============================================================================
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * List a broker's branding profiles, oldest first
+ */
+export async function listBrandingProfiles(broker: BrokerRow): Promise<BrandingProfile[]> {
+  const rows = await db
+    .select()
+    .from(brokerBrandingProfiles)
+    .where(eq(brokerBrandingProfiles.brokerId, broker.id))
+    .orderBy(asc(brokerBrandingProfiles.createdAt));
+
+  return rows.map(toBrandingProfile);
+}
+
+/**
+ * Create a branding profile. The first profile becomes the default.
+ */
+export async function createBrandingProfile(
+  broker: BrokerRow,
+  data: BrandingProfileCreateRequest
+): Promise<BrandingProfile> {
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ id: brokerBrandingProfiles.id })
+      .from(brokerBrandingProfiles)
+      .where(eq(brokerBrandingProfiles.brokerId, broker.id))
+      .limit(1);
+
+    const isDefault = data.isDefault || existing.length === 0;
+    if (isDefault) {
+      await tx
+        .update(brokerBrandingProfiles)
+        .set({ isDefault: false })
+        .where(eq(brokerBrandingProfiles.brokerId, broker.id));
+    }
+
+    const [row] = await tx
+      .insert(brokerBrandingProfiles)
+      .values({ ...data, brokerId: broker.id, isDefault })
+      .returning();
+
+    if (!row) {
+      throw new Error('Failed to create branding profile');
+    }
+
+    return toBrandingProfile(row);
+  });
+}
+
+/**
+ * Update a branding profile. Making it the default clears the previous default.
+ */
+export async function updateBrandingProfile(
+  broker: BrokerRow,
+  profileId: string,
+  updates: BrandingProfileUpdateRequest
+): Promise<BrandingProfile | null> {
+  if (!UUID_PATTERN.test(profileId)) return null;
+
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(brokerBrandingProfiles)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(brokerBrandingProfiles.brokerId, broker.id),
+        eq(brokerBrandingProfiles.profileId, profileId)
+      ))
+      .returning();
+
+    if (!row) return null;
+
+    if (updates.isDefault) {
+      await tx
+        .update(brokerBrandingProfiles)
+        .set({ isDefault: false })
+        .where(and(
+          eq(brokerBrandingProfiles.brokerId, broker.id),
+          ne(brokerBrandingProfiles.id, row.id)
+        ));
+    }
+
+    return toBrandingProfile(row);
+  });
+}
+
+/**
+ * Delete a branding profile
+ */
+export async function deleteBrandingProfile(broker: BrokerRow, profileId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(profileId)) return false;
+
+  const deleted = await db
+    .delete(brokerBrandingProfiles)
+    .where(and(
+      eq(brokerBrandingProfiles.brokerId, broker.id),
+      eq(brokerBrandingProfiles.profileId, profileId)
+    ))
+    .returning({ id: brokerBrandingProfiles.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Get the public branding for a profile ID (used by branded share links
+ * and report generation, so no broker session is required)
+ */
+export async function getPublicBranding(profileId: string): Promise<ReportBranding | null> {
+  if (!UUID_PATTERN.test(profileId)) return null;
+
+  const [row] = await db
+    .select()
+    .from(brokerBrandingProfiles)
+    .where(eq(brokerBrandingProfiles.profileId, profileId))
+    .limit(1);
+
+  return row ? toReportBranding(toBrandingProfile(row)) : null;
+}
+
+// ============================================================================
+// LOCAL DATA SYNC
+// ============================================================================
+
+/**
+ * Upload a browser's localStorage client book. Clients are matched by their
+ * existing ID; ones already on the server are left untouched.
+ *
+ * @param audit - Record an INSERT audit entry for each imported client
+ */
+export async function importLocalClients(
+  broker: BrokerRow,
+  clients: BrokerSyncRequest['clients'],
+  audit?: ClientAuditContext
+): Promise<BrokerSyncResult> {
+  const imported: { row: Pick<BrokerClientRow, 'id' | 'clientId'>; scenarios: number }[] = [];
+
+  const result = await db.transaction(async (tx) => {
+    const result: BrokerSyncResult = { imported: 0, skipped: 0, scenariosImported: 0 };
+
+    for (const client of clients) {
+      const [row] = await tx
+        .insert(brokerClients)
+        .values({
+          brokerId: broker.id,
+          clientId: client.id,
+          firstName: client.firstName,
+          lastName: client.lastName,
+          email: client.email,
+          phone: client.phone,
+          notes: client.notes,
+          tags: client.tags,
+          status: client.status,
+          keyDates: client.keyDates,
+          tasks: client.tasks,
+          consents: client.consents,
+          statusChangedAt: new Date(client.statusChangedAt ?? client.updatedAt),
+          anonymizedAt: client.anonymizedAt ? new Date(client.anonymizedAt) : undefined,
+          createdAt: new Date(client.createdAt),
+          updatedAt: new Date(client.updatedAt),
+        })
+        .onConflictDoNothing({ target: [brokerClients.brokerId, brokerClients.clientId] })
+        .returning({ id: brokerClients.id, clientId: brokerClients.clientId });
+
+      if (!row) {
+        result.skipped++;
+        continue;
+      }
+
+      result.imported++;
+      const entry = { row, scenarios: 0 };
+      imported.push(entry);
+
+      if (client.scenarios.length > 0) {
+        const inserted = await tx
+          .insert(brokerClientScenarios)
+          .values(client.scenarios.map((s) => ({
+            clientRecordId: row.id,
+            scenarioId: s.id,
+            name: s.name,
+            scenario: s.scenario,
+            recommendedPlan: s.recommendedPlan,
+            estimatedCost: s.estimatedCost,
+            notes: s.notes,
+            createdAt: new Date(s.createdAt),
+            updatedAt: new Date(s.updatedAt),
+          })))
+          .onConflictDoNothing({ target: [brokerClientScenarios.clientRecordId, brokerClientScenarios.scenarioId] })
+          .returning({ id: brokerClientScenarios.id });
+
+        result.scenariosImported += inserted.length;
+        entry.scenarios = inserted.length;
+      }
+    }
+
+    await tx
+      .update(brokers)
+      .set({ localDataSyncedAt: new Date(), lastLoginAt: new Date(), updatedAt: new Date() })
+      .where(eq(brokers.id, broker.id));
+
+    return result;
+  });
+
+  if (audit && imported.length > 0) {
+    await recordClientAudit(broker, imported.map(({ row, scenarios }) => ({
+      row,
+      operation: 'INSERT',
+      newValues: { scenariosImported: scenarios },
+      changeReason: 'Local data sync',
+    })), audit);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function findClientRow(broker: BrokerRow, clientId: string): Promise<BrokerClientRow | null> {
+  const [row] = await db
+    .select()
+    .from(brokerClients)
+    .where(and(eq(brokerClients.brokerId, broker.id), eq(brokerClients.clientId, clientId)))
+    .limit(1);
+
+  return row ?? null;
+}
+
+/**
+ * Write audit log entries for client records, or for a client's scenario
+ * when one is given
+ *
+ * Entries identify the client by row and client ID only; personal details
+ * never go into the audit log so it can outlive deleted clients.
+ */
+async function recordClientAudit(
+  broker: BrokerRow,
+  entries: {
+    row: Pick<BrokerClientRow, 'id' | 'clientId'>;
+    scenario?: Pick<BrokerClientScenarioRow, 'id' | 'scenarioId'>;
+    operation: ClientAuditOperation;
+    changedFields?: string[];
+    oldValues?: Record<string, unknown>;
+    newValues?: Record<string, unknown>;
+    changeReason?: string;
+  }[],
+  context: ClientAuditContext
+): Promise<void> {
+  const fromBroker = context.source !== 'retention_policy';
+
+  await db.insert(auditLog).values(entries.map((entry) => ({
+    tableName: entry.scenario ? 'broker_client_scenarios' : 'broker_clients',
+    recordId: entry.scenario?.id ?? entry.row.id,
+    operation: entry.operation,
+    userId: fromBroker ? broker.brokerId : null,
+    userEmail: fromBroker ? broker.email : null,
+    ipAddress: context.ipAddress,
+    oldValues: entry.oldValues,
+    newValues: entry.newValues,
+    changedFields: entry.changedFields,
+    changeReason: entry.changeReason,
+    changeSource: context.source,
+    metadata: {
+      brokerId: broker.brokerId,
+      clientId: entry.row.clientId,
+      scenarioId: entry.scenario?.scenarioId,
+      correlationId: context.correlationId,
+    },
+  })));
+}
+
+async function touchClient(clientRecordId: number): Promise<void> {
+  await db
+    .update(brokerClients)
+    .set({ updatedAt: new Date() })
+    .where(eq(brokerClients.id, clientRecordId));
+}
@@ -0,0 +1,229 @@
+/**
+ * Client Data Retention
+ *
+ * Retention policies decide when a broker client's personal details are
+ * anonymized or the client is deleted outright, based on how long the client
+ * has been in its current status or how long ago the household revoked its
+ * consent to data storage. Evaluation is pure so the same rules drive the
+ * server sweep (scripts/apply-retention.ts) and the localStorage client book.
+ */
+
+import {
+  getClients,
+  updateClient,
+  deleteClient,
+  deleteClientScenario,
+  hasActiveConsent,
+  type BrokerClient,
+  type ClientConsent,
+  type ClientStatus,
+} from './client-manager';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RetentionAction = 'keep' | 'anonymize' | 'delete';
+
+export interface RetentionRule {
+  action: RetentionAction;
+  /** Days to wait before the action applies */
+  afterDays: number;
+}
+
+export interface RetentionPolicy {
+  /** Rule per client status, measured from the last status change */
+  byStatus: Record<ClientStatus, RetentionRule>;
+  /** Rule once every data storage consent has been revoked, measured from the last revocation */
+  consentRevoked: RetentionRule;
+}
+
+/**
+ * Per-broker overrides stored alongside the broker record
+ */
+export interface RetentionPolicyOverrides {
+  byStatus?: Partial<Record<ClientStatus, RetentionRule>>;
+  consentRevoked?: RetentionRule;
+}
+
+/**
+ * Client fields the policy looks at
+ */
+export type RetentionSubject = Pick<
+  BrokerClient,
+  'id' | 'status' | 'updatedAt' | 'statusChangedAt' | 'consents' | 'anonymizedAt'
+>;
+
+export interface RetentionDecision {
+  clientId: string;
+  action: Exclude<RetentionAction, 'keep'>;
+  reason: string;
+  /** When the action became due */
+  dueAt: number;
+}
+
+export interface RetentionSweepResult {
+  brokersProcessed: number;
+  clientsEvaluated: number;
+  decisions: (RetentionDecision & { brokerId: string })[];
+  anonymized: number;
+  deleted: number;
+  dryRun: boolean;
+}
+
+export interface LocalRetentionResult {
+  anonymized: string[];
+  deleted: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  byStatus: {
+    active: { action: 'keep', afterDays: 0 },
+    inactive: { action: 'anonymize', afterDays: 730 },
+    prospect: { action: 'delete', afterDays: 365 },
+    archived: { action: 'anonymize', afterDays: 90 },
+  },
+  consentRevoked: { action: 'delete', afterDays: 30 },
+};
+
+export const ANONYMIZED_FIRST_NAME = 'Anonymized';
+export const ANONYMIZED_LAST_NAME = 'Client';
+
+const ACTION_STRENGTH: Record<RetentionAction, number> = { keep: 0, anonymize: 1, delete: 2 };
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+/**
+ * Merge a broker's overrides onto the default policy
+ */
+export function resolveRetentionPolicy(overrides?: RetentionPolicyOverrides | null): RetentionPolicy {
+  return {
+    byStatus: { ...DEFAULT_RETENTION_POLICY.byStatus, ...overrides?.byStatus },
+    consentRevoked: overrides?.consentRevoked ?? DEFAULT_RETENTION_POLICY.consentRevoked,
+  };
+}
+
+/**
+ * When the household last revoked consent, if no data storage consent remains
+ */
+function getConsentRevokedAt(client: RetentionSubject): number | null {
+  const consents = client.consents ?? [];
+  if (consents.length === 0 || hasActiveConsent(client, 'data_storage')) return null;
+
+  const revocations = consents
+    .filter((c) => c.scopes.includes('data_storage') && c.revokedAt)
+    .map((c) => c.revokedAt!);
+
+  return revocations.length > 0 ? Math.max(...revocations) : null;
+}
+
+/**
+ * Decide what the policy requires for a client right now
+ *
+ * @returns The due action, or null when the client should be kept as-is
+ */
+export function evaluateRetention(
+  client: RetentionSubject,
+  policy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: number = Date.now()
+): RetentionDecision | null {
+  const candidates: RetentionDecision[] = [];
+
+  const statusRule = policy.byStatus[client.status];
+  const statusSince = client.statusChangedAt ?? client.updatedAt;
+  if (statusRule && statusRule.action !== 'keep') {
+    candidates.push({
+      clientId: client.id,
+      action: statusRule.action,
+      reason: `Client has been ${client.status} for more than ${statusRule.afterDays} days`,
+      dueAt: statusSince + statusRule.afterDays * DAY_MS,
+    });
+  }
+
+  const revokedAt = getConsentRevokedAt(client);
+  if (revokedAt !== null && policy.consentRevoked.action !== 'keep') {
+    candidates.push({
+      clientId: client.id,
+      action: policy.consentRevoked.action,
+      reason: `Data storage consent was revoked more than ${policy.consentRevoked.afterDays} days ago`,
+      dueAt: revokedAt + policy.consentRevoked.afterDays * DAY_MS,
+    });
+  }
+
+  const due = candidates
+    .filter((c) => c.dueAt <= now)
+    // Anonymizing twice is a no-op
+    .filter((c) => !(c.action === 'anonymize' && client.anonymizedAt))
+    .sort((a, b) => ACTION_STRENGTH[b.action] - ACTION_STRENGTH[a.action]);
+
+  return due[0] ?? null;
+}
+
+// ============================================================================
+// ANONYMIZATION
+// ============================================================================
+
+/**
+ * Strip a client's personal details
+ *
+ * Keeps the status, dates and consent history (without free-text notes) so
+ * book-of-business counts and proof of consent survive; drops contact
+ * details, key dates and saved scenarios, which carry household income, ages
+ * and ZIP codes.
+ */
+export function anonymizeClient(client: BrokerClient, now: number = Date.now()): BrokerClient {
+  return {
+    ...client,
+    firstName: ANONYMIZED_FIRST_NAME,
+    lastName: ANONYMIZED_LAST_NAME,
+    email: undefined,
+    phone: undefined,
+    notes: undefined,
+    tags: [],
+    keyDates: undefined,
+    tasks: undefined,
+    scenarios: [],
+    consents: client.consents?.map(({ notes: _notes, recordedBy: _recordedBy, ...consent }): ClientConsent => consent),
+    anonymizedAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply a retention policy to the localStorage client book
+ */
+export function applyLocalRetention(
+  policy: RetentionPolicy = DEFAULT_RETENTION_POLICY,
+  now: number = Date.now()
+): LocalRetentionResult {
+  if (typeof window === 'undefined') {
+    throw new Error('applyLocalRetention is only available in browser environments');
+  }
+
+  const result: LocalRetentionResult = { anonymized: [], deleted: [] };
+
+  for (const client of getClients()) {
+    const decision = evaluateRetention(client, policy, now);
+    if (!decision) continue;
+
+    if (decision.action === 'delete') {
+      deleteClient(client.id);
+      result.deleted.push(client.id);
+    } else {
+      const { id: _id, createdAt: _createdAt, scenarios: _scenarios, ...fields } = anonymizeClient(client, now);
+      client.scenarios.forEach((s) => deleteClientScenario(client.id, s.id));
+      updateClient(client.id, fields);
+      result.anonymized.push(client.id);
+    }
+  }
+
+  return result;
+}
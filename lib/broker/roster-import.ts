@@ -0,0 +1,808 @@
+/**
+ * Broker Roster Import
+ *
+ * Imports client rosters (CSV or .xlsx) exported from agency-management systems. Columns are
+ * mapped to BrokerClient and ShareableScenario fields, every row is validated
+ * with ShareableScenarioSchema, and the result is previewed before anything is
+ * written to the client book.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { ShareableScenarioSchema, type ShareableScenario } from '@/lib/sharing';
+import { getStateFromZip } from '@/lib/zipToState';
+import {
+  getClients,
+  createClient,
+  addClientScenario,
+  type BrokerClient,
+  type ClientKeyDates,
+  type ClientStatus,
+} from './client-manager';
+import {
+  fetchRemoteClients,
+  createRemoteClient,
+  addRemoteClientScenario,
+} from './remote-client-manager';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RosterField =
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'email'
+  | 'phone'
+  | 'notes'
+  | 'tags'
+  | 'status'
+  | 'dateOfBirth'
+  | 'age'
+  | 'spouseDateOfBirth'
+  | 'spouseAge'
+  | 'dependentAges'
+  | 'zip'
+  | 'state'
+  | 'income'
+  | 'currentPlan'
+  | 'currentPremium'
+  | 'currentDeductible'
+  | 'tobacco'
+  | 'hasEmployer';
+
+/**
+ * Column header assigned to each roster field
+ */
+export type RosterColumnMapping = Partial<Record<RosterField, string>>;
+
+export interface ParsedRoster {
+  headers: string[];
+  /** Data rows keyed by header */
+  rows: Record<string, string>[];
+}
+
+export interface RosterRowError {
+  field?: RosterField;
+  message: string;
+}
+
+export type RosterClientDraft = Omit<BrokerClient, 'id' | 'createdAt' | 'updatedAt' | 'scenarios'>;
+
+export interface RosterScenarioDraft {
+  name: string;
+  scenario: ShareableScenario;
+  notes?: string;
+}
+
+export interface RosterRowPreview {
+  /** 1-based line number in the file (header is line 1) */
+  rowNumber: number;
+  client?: RosterClientDraft;
+  scenario?: RosterScenarioDraft;
+  errors: RosterRowError[];
+  warnings: string[];
+}
+
+export interface RosterImportPreview {
+  rows: RosterRowPreview[];
+  validCount: number;
+  errorCount: number;
+}
+
+export interface RosterImportOptions {
+  /** Date ages are calculated at (defaults to today) */
+  asOf?: Date;
+}
+
+export interface RosterCommitOptions {
+  /** Write to the server-side broker workspace instead of localStorage */
+  target?: 'local' | 'remote';
+}
+
+export interface RosterImportResult {
+  imported: number;
+  scenariosImported: number;
+  duplicates: number;
+  errors: string[];
+}
+
+// ============================================================================
+// FIELD DEFINITIONS
+// ============================================================================
+
+export const ROSTER_FIELDS: Record<RosterField, { label: string; aliases: string[] }> = {
+  firstName: { label: 'First Name', aliases: ['first name', 'first', 'fname', 'given name', 'insured first name'] },
+  lastName: { label: 'Last Name', aliases: ['last name', 'last', 'lname', 'surname', 'family name', 'insured last name'] },
+  fullName: { label: 'Full Name', aliases: ['name', 'full name', 'client name', 'insured name', 'contact name'] },
+  email: { label: 'Email', aliases: ['email', 'e-mail', 'email address'] },
+  phone: { label: 'Phone', aliases: ['phone', 'phone number', 'mobile', 'cell', 'home phone'] },
+  notes: { label: 'Notes', aliases: ['notes', 'comments', 'memo'] },
+  tags: { label: 'Tags', aliases: ['tags', 'labels', 'groups'] },
+  status: { label: 'Status', aliases: ['status', 'client status'] },
+  dateOfBirth: { label: 'Date of Birth', aliases: ['dob', 'date of birth', 'birth date', 'birthdate', 'primary dob'] },
+  age: { label: 'Age', aliases: ['age', 'primary age'] },
+  spouseDateOfBirth: { label: 'Spouse Date of Birth', aliases: ['spouse dob', 'spouse date of birth', 'spouse birth date'] },
+  spouseAge: { label: 'Spouse Age', aliases: ['spouse age'] },
+  dependentAges: { label: 'Dependent Ages', aliases: ['dependent ages', 'child ages', 'children ages', 'dependents'] },
+  zip: { label: 'ZIP Code', aliases: ['zip', 'zip code', 'zipcode', 'postal code', 'postal'] },
+  state: { label: 'State', aliases: ['state', 'st', 'state code'] },
+  income: { label: 'Household Income', aliases: ['income', 'household income', 'annual income', 'magi', 'estimated income'] },
+  currentPlan: { label: 'Current Plan', aliases: ['current plan', 'plan', 'plan name', 'current coverage', 'policy'] },
+  currentPremium: { label: 'Current Premium', aliases: ['current premium', 'premium', 'monthly premium'] },
+  currentDeductible: { label: 'Current Deductible', aliases: ['current deductible', 'deductible'] },
+  tobacco: { label: 'Tobacco Use', aliases: ['tobacco', 'smoker', 'tobacco use'] },
+  hasEmployer: { label: 'Employer Coverage Offered', aliases: ['employer coverage', 'has employer', 'employer plan', 'esi'] },
+};
+
+const CLIENT_STATUSES: ClientStatus[] = ['active', 'inactive', 'prospect', 'archived'];
+
+/** Local file header of a zip archive, which every .xlsx workbook is */
+const ZIP_MAGIC = 'PK\u0003\u0004';
+
+/** Compound file header of a legacy .xls workbook */
+const XLS_MAGIC = [0xd0, 0xcf, 0x11, 0xe0];
+
+/** Built-in spreadsheet number formats that display a date */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/** Day zero of spreadsheet date serials (1900 date system, after the 1900 leap-year bug) */
+const SPREADSHEET_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Fields that make up a scenario; a row with none of them imports as a client only
+ */
+const SCENARIO_FIELDS: RosterField[] = [
+  'dateOfBirth', 'age', 'spouseDateOfBirth', 'spouseAge', 'dependentAges', 'zip', 'state', 'income',
+  'currentPremium', 'currentDeductible',
+];
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Read a roster file picked by the user, as a .xlsx workbook or delimited text
+ *
+ * @throws Error if the file is a legacy .xls workbook or has no header row
+ */
+export async function readRosterFile(file: Pick<File, 'name' | 'arrayBuffer' | 'text'>): Promise<ParsedRoster> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (startsWith(bytes, [...ZIP_MAGIC].map((c) => c.charCodeAt(0)))) {
+    return parseRosterWorkbook(bytes);
+  }
+  if (startsWith(bytes, XLS_MAGIC)) {
+    throw new Error(LEGACY_XLS_MESSAGE);
+  }
+
+  return parseRoster(await file.text(), file.name);
+}
+
+const LEGACY_XLS_MESSAGE = 'Legacy Excel workbooks (.xls) cannot be imported. Save the sheet as .xlsx or CSV and import that file.';
+
+/**
+ * Parse a roster file's text
+ *
+ * @param fileName - Used to reject legacy .xls workbooks
+ * @throws Error if the file is not delimited text or has no header row
+ */
+export function parseRoster(text: string, fileName?: string): ParsedRoster {
+  if (/\.xls$/i.test(fileName ?? '')) {
+    throw new Error(LEGACY_XLS_MESSAGE);
+  }
+  if (text.startsWith(ZIP_MAGIC)) {
+    throw new Error('Excel workbooks are binary files; read them with readRosterFile or parseRosterWorkbook');
+  }
+
+  return toParsedRoster(parseDelimitedText(text.replace(/^\uFEFF/, '')));
+}
+
+/**
+ * Parse the first worksheet of a .xlsx workbook
+ *
+ * Date-formatted cells are returned as ISO dates (YYYY-MM-DD); other cells
+ * as their stored value.
+ *
+ * @throws Error if the file is not a readable workbook or has no header row
+ */
+export function parseRosterWorkbook(data: Uint8Array): ParsedRoster {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, { filter: (file) => file.name.startsWith('xl/') });
+  } catch {
+    throw new Error('The workbook could not be read. Save the sheet as CSV and import that file.');
+  }
+
+  const read = (path: string): string | undefined => (files[path] ? strFromU8(files[path]) : undefined);
+  const sheetXml = read(findFirstSheetPath(read));
+  if (!sheetXml) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => readRichText(m[1]!));
+  const dateStyles = findDateStyles(read('xl/styles.xml') ?? '');
+
+  const records: string[][] = [];
+  for (const [, rowXml] of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const record: string[] = [];
+    let nextColumn = 0;
+
+    for (const [, attrs, body = ''] of rowXml!.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = /\br="([A-Z]+)\d+"/.exec(attrs!)?.[1];
+      const column = ref ? columnIndex(ref) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = /\bt="(\w+)"/.exec(attrs!)?.[1];
+      const style = Number(/\bs="(\d+)"/.exec(attrs!)?.[1] ?? 0);
+      const raw = decodeXml(/<v>([\s\S]*?)<\/v>/.exec(body)?.[1] ?? '');
+
+      let cell: string;
+      if (type === 's') cell = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') cell = readRichText(/<is>([\s\S]*?)<\/is>/.exec(body)?.[1] ?? '');
+      else if (type === 'b') cell = raw === '1' ? 'TRUE' : 'FALSE';
+      else if (type === 'e') cell = '';
+      else if (type !== 'str' && raw && dateStyles.has(style)) cell = serialToIsoDate(Number(raw)) ?? raw;
+      else cell = raw;
+
+      while (record.length < column) record.push('');
+      record[column] = cell;
+    }
+
+    records.push(record);
+  }
+
+  return toParsedRoster(records);
+}
+
+function toParsedRoster(records: string[][]): ParsedRoster {
+  const [headerRow, ...dataRows] = records;
+
+  if (!headerRow || headerRow.every((h) => !h.trim())) {
+    throw new Error('The file has no header row');
+  }
+
+  const headers = headerRow.map((h, i) => h.trim() || `Column ${i + 1}`);
+
+  return {
+    headers,
+    rows: dataRows
+      .filter((row) => row.some((cell) => cell.trim()))
+      .map((row) => Object.fromEntries(headers.map((h, i) => [h, (row[i] ?? '').trim()]))),
+  };
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Path of the workbook's first sheet, following workbook.xml and its relationships
+ */
+function findFirstSheetPath(read: (path: string) => string | undefined): string {
+  const relId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(read('xl/workbook.xml') ?? '')?.[1];
+  const rels = read('xl/_rels/workbook.xml.rels') ?? '';
+
+  for (const [rel] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (relId && rel.includes(`Id="${relId}"`)) {
+      const target = /\bTarget="([^"]+)"/.exec(rel)?.[1];
+      if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Indexes of cell styles (cellXfs) whose number format displays a date
+ */
+function findDateStyles(stylesXml: string): Set<number> {
+  const customDateFormats = new Set<number>();
+  for (const [, id, code] of stylesXml.matchAll(/<numFmt\b[^>]*numFmtId="(\d+)"[^>]*formatCode="([^"]*)"/g)) {
+    // Ignore quoted literals, escapes and [color]/[h] sections before looking for date parts
+    const pattern = decodeXml(code!).replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+    if (/[dmy]/i.test(pattern)) customDateFormats.add(Number(id));
+  }
+
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? '';
+  const styles = new Set<number>();
+  [...cellXfs.matchAll(/<xf\b[^>]*>/g)].forEach(([xf], index) => {
+    const formatId = Number(/\bnumFmtId="(\d+)"/.exec(xf)?.[1] ?? 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) styles.add(index);
+  });
+  return styles;
+}
+
+/**
+ * Text of a shared or inline string, joining rich-text runs and skipping phonetic hints
+ */
+function readRichText(xml: string): string {
+  return [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)]
+    .map((m) => decodeXml(m[1]!))
+    .join('');
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1]?.toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+    }
+    return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[entity.toLowerCase()]!;
+  });
+}
+
+/** Zero-based column index of a cell reference's letters (A = 0, AA = 26) */
+function columnIndex(letters: string): number {
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function serialToIsoDate(serial: number): string | undefined {
+  if (!Number.isFinite(serial) || serial < 1) return undefined;
+  return new Date(SPREADSHEET_EPOCH + Math.floor(serial) * 86_400_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Split delimited text into records (RFC 4180 quoting; comma, tab or
+ * semicolon delimited, detected from the header line)
+ */
+export function parseDelimitedText(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', '\t', ';'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Suggest a column for each field by matching headers against known aliases
+ */
+export function suggestColumnMapping(headers: string[]): RosterColumnMapping {
+  const mapping: RosterColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, { aliases }] of Object.entries(ROSTER_FIELDS) as [RosterField, { aliases: string[] }][]) {
+    const header = headers.find((h) => !used.has(h) && aliases.some((a) => normalizeHeader(a) === normalizeHeader(h)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+
+  // A full-name column is only needed when first/last are missing
+  if (mapping.firstName && mapping.lastName) {
+    delete mapping.fullName;
+  }
+
+  return mapping;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+/**
+ * Map and validate every row without writing anything
+ */
+export function previewRosterImport(
+  roster: ParsedRoster,
+  mapping: RosterColumnMapping,
+  options: RosterImportOptions = {}
+): RosterImportPreview {
+  const asOf = options.asOf ?? new Date();
+
+  if (!mapping.fullName && !(mapping.firstName && mapping.lastName)) {
+    throw new Error('Map either a full name column or both first and last name columns');
+  }
+
+  const rows = roster.rows.map((row, index) => mapRow(row, index + 2, mapping, asOf));
+  const errorCount = rows.filter((r) => r.errors.length > 0).length;
+
+  return { rows, validCount: rows.length - errorCount, errorCount };
+}
+
+function mapRow(
+  row: Record<string, string>,
+  rowNumber: number,
+  mapping: RosterColumnMapping,
+  asOf: Date
+): RosterRowPreview {
+  const errors: RosterRowError[] = [];
+  const warnings: string[] = [];
+  const value = (field: RosterField): string => {
+    const header = mapping[field];
+    return header ? (row[header] ?? '').trim() : '';
+  };
+
+  // Client
+  let firstName = value('firstName');
+  let lastName = value('lastName');
+  if ((!firstName || !lastName) && value('fullName')) {
+    [firstName, lastName] = splitFullName(value('fullName'));
+  }
+  if (!firstName) errors.push({ field: 'firstName', message: 'First name is required' });
+  if (!lastName) errors.push({ field: 'lastName', message: 'Last name is required' });
+
+  const email = value('email');
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.push({ field: 'email', message: `Invalid email "${email}"` });
+  }
+
+  let status: ClientStatus = 'prospect';
+  const rawStatus = value('status').toLowerCase();
+  if (rawStatus) {
+    if ((CLIENT_STATUSES as string[]).includes(rawStatus)) {
+      status = rawStatus as ClientStatus;
+    } else {
+      warnings.push(`Unknown status "${value('status')}", imported as prospect`);
+    }
+  }
+
+  // Saved on the client so the task pipeline can schedule Medicare and birthday tasks
+  const keyDates: ClientKeyDates = {};
+  const dateOfBirth = parseDate(value('dateOfBirth'));
+  const spouseDateOfBirth = parseDate(value('spouseDateOfBirth'));
+  if (dateOfBirth) keyDates.dateOfBirth = dateOfBirth.toISOString().slice(0, 10);
+  if (spouseDateOfBirth) keyDates.spouseDateOfBirth = spouseDateOfBirth.toISOString().slice(0, 10);
+
+  const client: RosterClientDraft = {
+    firstName,
+    lastName,
+    email: email || undefined,
+    phone: value('phone') || undefined,
+    notes: value('notes') || undefined,
+    tags: value('tags') ? value('tags').split(/[;,|]/).map((t) => t.trim()).filter(Boolean) : [],
+    status,
+    keyDates: Object.keys(keyDates).length > 0 ? keyDates : undefined,
+  };
+
+  // Scenario
+  const hasScenarioData = SCENARIO_FIELDS.some((field) => value(field));
+  let scenario: RosterScenarioDraft | undefined;
+
+  if (hasScenarioData) {
+    scenario = mapScenario(value, asOf, errors, warnings);
+  } else {
+    warnings.push('No household data; imported as a client without a scenario');
+  }
+
+  return {
+    rowNumber,
+    client: errors.length === 0 ? client : undefined,
+    scenario: errors.length === 0 ? scenario : undefined,
+    errors,
+    warnings,
+  };
+}
+
+function mapScenario(
+  value: (field: RosterField) => string,
+  asOf: Date,
+  errors: RosterRowError[],
+  warnings: string[]
+): RosterScenarioDraft | undefined {
+  const primaryAge = resolveAge(value('dateOfBirth'), value('age'), 'dateOfBirth', asOf, errors);
+  const spouseAge = resolveAge(value('spouseDateOfBirth'), value('spouseAge'), 'spouseDateOfBirth', asOf, errors);
+
+  const dependentAges: number[] = [];
+  for (const part of value('dependentAges').split(/[;,|/]/).map((p) => p.trim()).filter(Boolean)) {
+    const age = Number(part);
+    if (Number.isInteger(age) && age >= 0 && age < 120) {
+      dependentAges.push(age);
+    } else {
+      errors.push({ field: 'dependentAges', message: `Invalid dependent age "${part}"` });
+    }
+  }
+
+  if (primaryAge === undefined && !errors.some((e) => e.field === 'dateOfBirth')) {
+    errors.push({ field: 'dateOfBirth', message: 'Date of birth or age is required for a scenario' });
+  }
+
+  // Spreadsheets drop leading zeros from New England ZIP codes
+  const rawZip = value('zip').replace(/-\d{4}$/, '');
+  const zip = /^\d{3,4}$/.test(rawZip) ? rawZip.padStart(5, '0') : rawZip;
+  if (!/^\d{5}$/.test(zip)) {
+    errors.push({ field: 'zip', message: zip ? `Invalid ZIP code "${value('zip')}"` : 'ZIP code is required for a scenario' });
+  }
+
+  let state = value('state').toUpperCase();
+  if (!state && /^\d{5}$/.test(zip)) {
+    state = getStateFromZip(zip) ?? '';
+    if (state) warnings.push(`State ${state} derived from ZIP code`);
+  }
+
+  const income = parseAmount(value('income'));
+  if (income === null) {
+    errors.push({ field: 'income', message: value('income') ? `Invalid income "${value('income')}"` : 'Household income is required for a scenario' });
+  }
+
+  const currentPremium = parseAmount(value('currentPremium'));
+  const currentDeductible = parseAmount(value('currentDeductible'));
+  if (value('currentPremium') && currentPremium === null) {
+    errors.push({ field: 'currentPremium', message: `Invalid premium "${value('currentPremium')}"` });
+  }
+  if (value('currentDeductible') && currentDeductible === null) {
+    errors.push({ field: 'currentDeductible', message: `Invalid deductible "${value('currentDeductible')}"` });
+  }
+
+  if (errors.length > 0 || primaryAge === undefined || income === null) {
+    return undefined;
+  }
+
+  const adultAges = spouseAge === undefined ? [primaryAge] : [primaryAge, spouseAge];
+  const parsed = ShareableScenarioSchema.safeParse({
+    v: 1,
+    zip,
+    state,
+    adults: adultAges.length,
+    children: dependentAges.length,
+    ages: [...adultAges, ...dependentAges],
+    income,
+    tobacco: parseBoolean(value('tobacco')),
+    hasEmployer: parseBoolean(value('hasEmployer')),
+    currentPremium: currentPremium ?? undefined,
+    currentDeductible: currentDeductible ?? undefined,
+    ts: asOf.getTime(),
+  });
+
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      errors.push({ field: toRosterField(String(issue.path[0] ?? '')), message: `${issue.path.join('.') || 'scenario'}: ${issue.message}` });
+    }
+    return undefined;
+  }
+
+  const currentPlan = value('currentPlan');
+  if (currentPremium !== null && !currentPlan) {
+    warnings.push('Current premium given without a plan name');
+  }
+
+  return {
+    name: currentPlan ? `Current: ${currentPlan}` : 'Imported household',
+    scenario: parsed.data,
+    notes: currentPlan ? `Current plan: ${currentPlan}` : undefined,
+  };
+}
+
+// ============================================================================
+// COMMIT
+// ============================================================================
+
+/**
+ * Write the valid rows of a preview to the client book
+ *
+ * Rows whose email matches an existing client are skipped as duplicates, as
+ * are rows with a client's first and last name unless their date of birth or
+ * ZIP code shows a different household.
+ */
+export async function commitRosterImport(
+  preview: RosterImportPreview,
+  options: RosterCommitOptions = {}
+): Promise<RosterImportResult> {
+  const remote = options.target === 'remote';
+  const existing = remote ? await fetchRemoteClients() : getClients();
+  const seen = new Map<string, ClientIdentity[]>();
+  for (const client of existing) {
+    addIdentity(seen, clientIdentity(client, client.scenarios.map((s) => s.scenario.zip)));
+  }
+
+  const result: RosterImportResult = { imported: 0, scenariosImported: 0, duplicates: 0, errors: [] };
+
+  for (const row of preview.rows) {
+    if (!row.client || row.errors.length > 0) continue;
+
+    const identity = clientIdentity(row.client, row.scenario ? [row.scenario.scenario.zip] : []);
+    if (isDuplicate(seen, identity)) {
+      result.duplicates++;
+      continue;
+    }
+
+    try {
+      const client = remote ? await createRemoteClient(row.client) : createClient(row.client);
+      addIdentity(seen, identity);
+      result.imported++;
+
+      if (row.scenario) {
+        const { name, scenario, notes } = row.scenario;
+        const saved = remote
+          ? await addRemoteClientScenario(client.id, { name, scenario, notes })
+          : addClientScenario(client.id, scenario, name, notes);
+        if (saved) result.scenariosImported++;
+      }
+    } catch (error) {
+      result.errors.push(`Row ${row.rowNumber}: ${error instanceof Error ? error.message : 'Import failed'}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * What tells two clients apart when deduplicating an import
+ */
+interface ClientIdentity {
+  name: string;
+  email?: string;
+  dateOfBirth?: string;
+  zips: string[];
+}
+
+function clientIdentity(
+  client: Pick<BrokerClient, 'firstName' | 'lastName' | 'email' | 'keyDates'>,
+  zips: string[]
+): ClientIdentity {
+  return {
+    name: `${client.firstName.trim().toLowerCase()} ${client.lastName.trim().toLowerCase()}`,
+    email: client.email?.trim().toLowerCase() || undefined,
+    dateOfBirth: client.keyDates?.dateOfBirth,
+    zips,
+  };
+}
+
+/**
+ * Identities indexed by email and by name
+ */
+function addIdentity(seen: Map<string, ClientIdentity[]>, identity: ClientIdentity): void {
+  const keys = identity.email ? [`name:${identity.name}`, `email:${identity.email}`] : [`name:${identity.name}`];
+  for (const key of keys) {
+    seen.set(key, [...(seen.get(key) ?? []), identity]);
+  }
+}
+
+function isDuplicate(seen: Map<string, ClientIdentity[]>, identity: ClientIdentity): boolean {
+  if (identity.email && seen.has(`email:${identity.email}`)) return true;
+
+  // Same name: only a differing date of birth or ZIP code shows another household
+  return (seen.get(`name:${identity.name}`) ?? []).some((other) => {
+    if (identity.dateOfBirth && other.dateOfBirth) return identity.dateOfBirth === other.dateOfBirth;
+    if (identity.zips.length > 0 && other.zips.length > 0) return identity.zips.some((zip) => other.zips.includes(zip));
+    return true;
+  });
+}
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+function splitFullName(fullName: string): [string, string] {
+  // "Last, First" (common in agency exports) or "First Middle Last"
+  if (fullName.includes(',')) {
+    const [last = '', first = ''] = fullName.split(',').map((p) => p.trim());
+    return [first, last];
+  }
+
+  const parts = fullName.split(/\s+/);
+  return parts.length > 1 ? [parts.slice(0, -1).join(' '), parts[parts.length - 1]!] : [parts[0] ?? '', ''];
+}
+
+function resolveAge(
+  dob: string,
+  age: string,
+  field: RosterField,
+  asOf: Date,
+  errors: RosterRowError[]
+): number | undefined {
+  if (dob) {
+    const date = parseDate(dob);
+    if (!date || date > asOf) {
+      errors.push({ field, message: `Invalid date of birth "${dob}"` });
+      return undefined;
+    }
+    return calculateAge(date, asOf);
+  }
+
+  if (age) {
+    const parsed = Number(age);
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed >= 120) {
+      errors.push({ field: field === 'dateOfBirth' ? 'age' : 'spouseAge', message: `Invalid age "${age}"` });
+      return undefined;
+    }
+    return parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse YYYY-MM-DD or US-style MM/DD/YYYY (two-digit years are treated as 19xx/20xx)
+ */
+export function parseDate(value: string): Date | null {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])];
+    if (us[3]!.length === 2) {
+      year += year > new Date().getFullYear() % 100 ? 1900 : 2000;
+    }
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+function calculateAge(dob: Date, asOf: Date): number {
+  const age = asOf.getUTCFullYear() - dob.getUTCFullYear();
+  const beforeBirthday =
+    asOf.getUTCMonth() < dob.getUTCMonth() ||
+    (asOf.getUTCMonth() === dob.getUTCMonth() && asOf.getUTCDate() < dob.getUTCDate());
+  return beforeBirthday ? age - 1 : age;
+}
+
+function parseAmount(value: string): number | null {
+  if (!value) return null;
+  const amount = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+function parseBoolean(value: string): boolean {
+  return ['y', 'yes', 'true', '1', 'x'].includes(value.trim().toLowerCase());
+}
+
+function toRosterField(scenarioKey: string): RosterField | undefined {
+  switch (scenarioKey) {
+    case 'zip':
+    case 'state':
+    case 'income':
+    case 'currentPremium':
+    case 'currentDeductible':
+    case 'tobacco':
+    case 'hasEmployer':
+      return scenarioKey;
+    case 'children':
+    case 'ages':
+      return 'dependentAges';
+    default:
+      return undefined;
+  }
+}
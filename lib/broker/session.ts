@@ -0,0 +1,78 @@
+/**
+ * Broker Session
+ *
+ * Server-side helper that identifies the broker behind a request. Brokers sign
+ * in through /api/auth/login with their email and their own password; the
+ * token stores the email as its subject and the workspace's broker ID, and
+ * only workspaces provisioned with npm run broker:add can be signed in to.
+ */
+
+import type { NextRequest } from 'next/server';
+import { jwtVerify } from 'jose';
+import { getJWTKey } from '@/lib/auth/jwt';
+import { getBrokerById, type BrokerRow, type ClientAuditContext } from './repository';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Token claim holding the signed-in broker's workspace ID */
+export const BROKER_ID_CLAIM = 'brokerId';
+
+/**
+ * Normalize a broker email (undefined when it is not a valid address)
+ */
+export function normalizeBrokerEmail(email: unknown): string | undefined {
+  if (typeof email !== 'string') return undefined;
+
+  const normalized = email.trim().toLowerCase();
+  return normalized.length <= 255 && EMAIL_PATTERN.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Get the signed-in broker from the auth-token cookie
+ *
+ * @returns The broker's email and workspace ID, or null when the session is
+ * missing, invalid or was not started with broker credentials
+ */
+export async function getBrokerSession(request: NextRequest): Promise<{ email: string; brokerId: string } | null> {
+  const token = request.cookies.get('auth-token')?.value;
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, getJWTKey());
+
+    const email = normalizeBrokerEmail(payload.sub);
+    const brokerId = payload[BROKER_ID_CLAIM];
+    if (payload.authenticated !== true || !email || typeof brokerId !== 'string') return null;
+
+    return { email, brokerId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the signed-in broker's workspace record
+ *
+ * @returns The broker row, or null when the request has no broker session or
+ * the workspace no longer matches it
+ */
+export async function getSessionBroker(request: NextRequest): Promise<BrokerRow | null> {
+  const session = await getBrokerSession(request);
+  if (!session) return null;
+
+  const broker = await getBrokerById(session.brokerId);
+  return broker?.passwordHash && broker.email === session.email ? broker : null;
+}
+
+/**
+ * Build the audit context for a broker API request
+ */
+export function getClientAuditContext(request: NextRequest, correlationId: string): ClientAuditContext {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+
+  return {
+    source: 'broker_api',
+    ipAddress: forwarded || request.headers.get('x-real-ip') || undefined,
+    correlationId,
+  };
+}
@@ -0,0 +1,571 @@
+/**
+ * Broker Task Pipeline
+ *
+ * Renewal and follow-up reminders for broker clients. Deadline tasks are
+ * generated from each client's key dates (renewals, SEP windows, Medicare
+ * initial enrollment, premium tax credit reconciliation); brokers can add
+ * their own follow-ups. Completion state and follow-ups are saved on the
+ * client record, in localStorage or the server-side broker workspace like the
+ * key dates, and any task list can be exported as an iCalendar feed.
+ */
+
+import { calculateSpecialEnrollmentPeriod } from '@/lib/calculator/edge-case-handlers';
+import { getMedicareEligibilityDate } from '@/lib/wizards/medicare-transition';
+import {
+  getClients,
+  getClientDisplayName,
+  updateClient,
+  type BrokerClient,
+  type ClientFollowUp,
+  type ClientTaskState,
+} from './client-manager';
+import { updateRemoteClient } from './remote-client-manager';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClientTaskType =
+  | 'renewal'
+  | 'sep_deadline'
+  | 'medicare_enrollment'
+  | 'income_reconciliation'
+  | 'follow_up';
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export interface ClientTask {
+  id: string;
+  clientId: string;
+  clientName: string;
+  type: ClientTaskType;
+  title: string;
+  description?: string;
+  /** Start of the action window, if any (epoch ms) */
+  startDate?: number;
+  dueDate: number;
+  priority: TaskPriority;
+  completedAt?: number;
+  source: 'generated' | 'manual';
+}
+
+export interface TaskQueue {
+  overdue: ClientTask[];
+  dueSoon: ClientTask[];
+  upcoming: ClientTask[];
+}
+
+export interface TaskQueryOptions {
+  /** Clients to generate tasks for (defaults to the local client book) */
+  clients?: BrokerClient[];
+  asOf?: Date;
+  includeCompleted?: boolean;
+}
+
+export interface FollowUpInput {
+  title: string;
+  dueDate: string;
+  description?: string;
+  priority?: TaskPriority;
+}
+
+export interface TaskStorageOptions {
+  /** Save to the server-side broker workspace instead of localStorage */
+  target?: 'local' | 'remote';
+}
+
+/**
+ * Task state kept in localStorage before it moved onto client records
+ */
+interface LegacyTaskStore {
+  followUps: ClientTask[];
+  completed: Record<string, number>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LEGACY_STORAGE_KEY = 'broker_tasks';
+
+/** Generated tasks stay visible this long after their due date */
+const OVERDUE_GRACE_DAYS = 30;
+
+/** Tasks due within this many days are "due soon" */
+const DUE_SOON_DAYS = 14;
+
+/** Queue horizon for upcoming tasks */
+const DEFAULT_HORIZON_DAYS = 90;
+
+export const TASK_TYPE_LABELS: Record<ClientTaskType, string> = {
+  renewal: 'Renewal',
+  sep_deadline: 'SEP Deadline',
+  medicare_enrollment: 'Medicare Enrollment',
+  income_reconciliation: 'Income Reconciliation',
+  follow_up: 'Follow-up',
+};
+
+// ============================================================================
+// TASK GENERATION
+// ============================================================================
+
+/**
+ * Generate deadline tasks from a client's key dates
+ */
+export function generateClientTasks(client: BrokerClient, asOf: Date = new Date()): ClientTask[] {
+  const keyDates = client.keyDates;
+  if (!keyDates) return [];
+
+  const clientName = getClientDisplayName(client);
+  const cutoff = addDays(asOf, -OVERDUE_GRACE_DAYS);
+  const tasks: ClientTask[] = [];
+
+  const task = (type: ClientTaskType, dueDate: Date, fields: Omit<ClientTask, 'id' | 'clientId' | 'clientName' | 'type' | 'dueDate' | 'source'>): ClientTask => ({
+    id: `${type}:${client.id}:${toIsoDate(dueDate)}`,
+    clientId: client.id,
+    clientName,
+    type,
+    dueDate: dueDate.getTime(),
+    source: 'generated',
+    ...fields,
+  });
+
+  // Annual renewal: review 60 days out, decision due 30 days before
+  const renewal = keyDates.renewalDate ? parseIsoDate(keyDates.renewalDate) : null;
+  if (renewal) {
+    const next = nextAnniversary(renewal, asOf);
+    tasks.push(task('renewal', addDays(next, -30), {
+      title: `Renewal review for ${clientName}`,
+      description: `Coverage renews ${formatDate(next)}. Re-shop plans and confirm the renewal decision.`,
+      startDate: addDays(next, -60).getTime(),
+      priority: 'medium',
+    }));
+  }
+
+  // Special Enrollment Period deadlines
+  for (const event of keyDates.lifeEvents ?? []) {
+    const eventDate = parseIsoDate(event.eventDate);
+    if (!eventDate) continue;
+
+    const sep = calculateSpecialEnrollmentPeriod(event.reason, eventDate, asOf);
+    if (sep.enrollmentWindowEnd < cutoff) continue;
+
+    tasks.push(task('sep_deadline', startOfDay(sep.enrollmentWindowEnd), {
+      title: `SEP deadline for ${clientName} (${event.reason.replace(/_/g, ' ')})`,
+      description: sep.instructions.join('\n') || undefined,
+      startDate: startOfDay(sep.enrollmentWindowStart).getTime(),
+      priority: sep.urgency === 'critical' || sep.urgency === 'high' ? 'high' : 'medium',
+    }));
+  }
+
+  // Medicare Initial Enrollment Period: 3 months before through 3 months after the 65th birthday month
+  const birthdays: Array<[string | undefined, string]> = [
+    [keyDates.dateOfBirth, clientName],
+    [keyDates.spouseDateOfBirth, `${clientName}'s spouse`],
+  ];
+  for (const [dob, who] of birthdays) {
+    const birthDate = dob ? parseIsoDate(dob) : null;
+    if (!birthDate) continue;
+
+    const eligibility = getMedicareEligibilityDate(birthDate);
+    const windowStart = addMonths(eligibility, -3);
+    const windowEnd = addDays(addMonths(eligibility, 4), -1);
+
+    if (windowEnd < cutoff || addMonths(windowStart, -6) > asOf) continue;
+
+    tasks.push(task('medicare_enrollment', addDays(eligibility, -1), {
+      title: `Medicare enrollment: ${who} turns 65`,
+      description:
+        `Initial Enrollment Period runs ${formatDate(windowStart)} to ${formatDate(windowEnd)}. ` +
+        'Enroll before the birthday month so Part A and B start without a gap.',
+      startDate: windowStart.getTime(),
+      priority: 'high',
+    }));
+  }
+
+  // Premium tax credit reconciliation (Form 8962) at tax time
+  if (keyDates.receivesAdvancePTC) {
+    let filingDeadline = new Date(asOf.getFullYear(), 3, 15);
+    if (filingDeadline < cutoff) {
+      filingDeadline = new Date(asOf.getFullYear() + 1, 3, 15);
+    }
+
+    tasks.push(task('income_reconciliation', filingDeadline, {
+      title: `Premium tax credit reconciliation for ${clientName}`,
+      description:
+        `Confirm Form 1095-A was received and Form 8962 is filed for ${filingDeadline.getFullYear() - 1}. ` +
+        'Update the income estimate for the current year if it has changed.',
+      startDate: new Date(filingDeadline.getFullYear(), 0, 31).getTime(),
+      priority: 'medium',
+    }));
+  }
+
+  return tasks;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get generated and follow-up tasks, soonest first
+ */
+export function getTasks(options: TaskQueryOptions = {}): ClientTask[] {
+  const asOf = options.asOf ?? new Date();
+  const clients = options.clients ?? getClients();
+
+  const tasks = clients.flatMap((client) => {
+    const completed = client.tasks?.completed ?? {};
+    return [
+      ...generateClientTasks(client, asOf),
+      ...(client.tasks?.followUps ?? []).map((followUp) => toFollowUpTask(client, followUp)),
+    ].map((t) => (completed[t.id] ? { ...t, completedAt: completed[t.id] } : t));
+  });
+
+  return tasks
+    .filter((t) => options.includeCompleted || !t.completedAt)
+    .sort((a, b) => a.dueDate - b.dueDate);
+}
+
+/**
+ * Group open tasks into the dashboard queue
+ */
+export function getTaskQueue(
+  options: Omit<TaskQueryOptions, 'includeCompleted'> & { horizonDays?: number } = {}
+): TaskQueue {
+  const asOf = startOfDay(options.asOf ?? new Date());
+  const dueSoon = addDays(asOf, DUE_SOON_DAYS).getTime();
+  const horizon = addDays(asOf, options.horizonDays ?? DEFAULT_HORIZON_DAYS).getTime();
+
+  const queue: TaskQueue = { overdue: [], dueSoon: [], upcoming: [] };
+
+  for (const task of getTasks({ ...options, asOf })) {
+    if (task.dueDate < asOf.getTime()) {
+      queue.overdue.push(task);
+    } else if (task.dueDate <= dueSoon) {
+      queue.dueSoon.push(task);
+    } else if (task.dueDate <= horizon) {
+      queue.upcoming.push(task);
+    }
+  }
+
+  return queue;
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Add a broker follow-up task for a client
+ */
+export async function addFollowUpTask(
+  client: BrokerClient,
+  input: FollowUpInput,
+  options: TaskStorageOptions = {}
+): Promise<{ client: BrokerClient; task: ClientTask }> {
+  const dueDate = parseIsoDate(input.dueDate);
+  if (!dueDate) {
+    throw new Error(`Invalid due date: ${input.dueDate}`);
+  }
+
+  const followUp: ClientFollowUp = {
+    id: `follow_up:${client.id}:${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+    title: input.title,
+    description: input.description,
+    dueDate: dueDate.getTime(),
+    priority: input.priority ?? 'medium',
+    createdAt: Date.now(),
+  };
+
+  const state = getTaskState(client);
+  const updated = await saveTaskState(client, { ...state, followUps: [...state.followUps, followUp] }, options);
+
+  return { client: updated, task: toFollowUpTask(updated, followUp) };
+}
+
+/**
+ * Mark a task complete
+ */
+export async function completeTask(
+  client: BrokerClient,
+  taskId: string,
+  options: TaskStorageOptions = {}
+): Promise<BrokerClient> {
+  const state = getTaskState(client);
+  return saveTaskState(client, { ...state, completed: { ...state.completed, [taskId]: Date.now() } }, options);
+}
+
+/**
+ * Reopen a completed task
+ */
+export async function reopenTask(
+  client: BrokerClient,
+  taskId: string,
+  options: TaskStorageOptions = {}
+): Promise<BrokerClient> {
+  const state = getTaskState(client);
+  const { [taskId]: _reopened, ...completed } = state.completed;
+  return saveTaskState(client, { ...state, completed }, options);
+}
+
+/**
+ * Delete a follow-up task (generated tasks can only be completed). Returns
+ * null when the task is not one of the client's follow-ups.
+ */
+export async function deleteFollowUpTask(
+  client: BrokerClient,
+  taskId: string,
+  options: TaskStorageOptions = {}
+): Promise<BrokerClient | null> {
+  const state = getTaskState(client);
+  const followUps = state.followUps.filter((t) => t.id !== taskId);
+  if (followUps.length === state.followUps.length) return null;
+
+  const { [taskId]: _deleted, ...completed } = state.completed;
+  return saveTaskState(client, { followUps, completed }, options);
+}
+
+/**
+ * Move task state saved by earlier versions (one localStorage store for all
+ * clients) onto the matching client records, then clear the old store.
+ * Returns the clients with their updated task state.
+ */
+export async function migrateLocalTasks(
+  clients: BrokerClient[],
+  options: TaskStorageOptions = {}
+): Promise<BrokerClient[]> {
+  const legacy = loadLegacyStore();
+  if (!legacy) return clients;
+
+  const updated: BrokerClient[] = [];
+  for (const client of clients) {
+    // Task IDs are "<type>:<client ID>:<suffix>"
+    const ownsTask = (taskId: string) => taskId.split(':')[1] === client.id;
+    const followUps = legacy.followUps.filter((t) => t.clientId === client.id);
+    const completed = Object.entries(legacy.completed).filter(([taskId]) => ownsTask(taskId));
+
+    if (followUps.length === 0 && completed.length === 0) {
+      updated.push(client);
+      continue;
+    }
+
+    const state = getTaskState(client);
+    const known = new Set(state.followUps.map((t) => t.id));
+    updated.push(await saveTaskState(client, {
+      followUps: [
+        ...state.followUps,
+        ...followUps.filter((t) => !known.has(t.id)).map((t): ClientFollowUp => ({
+          id: t.id,
+          title: t.title,
+          description: t.description,
+          dueDate: t.dueDate,
+          priority: t.priority,
+          createdAt: Date.now(),
+        })),
+      ],
+      completed: { ...Object.fromEntries(completed), ...state.completed },
+    }, options));
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return updated;
+}
+
+function getTaskState(client: BrokerClient): ClientTaskState {
+  return {
+    followUps: client.tasks?.followUps ?? [],
+    completed: client.tasks?.completed ?? {},
+  };
+}
+
+async function saveTaskState(
+  client: BrokerClient,
+  tasks: ClientTaskState,
+  options: TaskStorageOptions
+): Promise<BrokerClient> {
+  const updated = options.target === 'remote'
+    ? await updateRemoteClient(client.id, { tasks })
+    : updateClient(client.id, { tasks });
+
+  if (!updated) throw new Error(`Client not found: ${client.id}`);
+  return updated;
+}
+
+function toFollowUpTask(client: BrokerClient, followUp: ClientFollowUp): ClientTask {
+  return {
+    id: followUp.id,
+    clientId: client.id,
+    clientName: getClientDisplayName(client),
+    type: 'follow_up',
+    title: followUp.title,
+    description: followUp.description,
+    dueDate: followUp.dueDate,
+    priority: followUp.priority,
+    source: 'manual',
+  };
+}
+
+function loadLegacyStore(): LegacyTaskStore | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored) as Partial<LegacyTaskStore>;
+    return {
+      followUps: Array.isArray(parsed.followUps) ? parsed.followUps : [],
+      completed: parsed.completed && typeof parsed.completed === 'object' ? parsed.completed : {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// ICALENDAR EXPORT
+// ============================================================================
+
+/**
+ * Export tasks as an iCalendar (RFC 5545) feed of all-day events
+ */
+export function exportTasksToICalendar(
+  tasks: ClientTask[],
+  options: { calendarName?: string; now?: Date } = {}
+): string {
+  const stamp = formatICalTimestamp(options.now ?? new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Coverage Gap Analyzer//Broker Tasks//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(options.calendarName ?? 'Client Tasks')}`,
+  ];
+
+  for (const task of tasks) {
+    const due = new Date(task.dueDate);
+    const description = [
+      task.description,
+      task.startDate ? `Window opens ${formatDate(new Date(task.startDate))}` : undefined,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${task.id.replace(/[^A-Za-z0-9:_-]/g, '')}@coverage-gap-analyzer`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatICalDate(due)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(addDays(due, 1))}`,
+      `SUMMARY:${escapeICalText(task.title)}`,
+      ...(description ? [`DESCRIPTION:${escapeICalText(description)}`] : []),
+      `CATEGORIES:${escapeICalText(TASK_TYPE_LABELS[task.type])}`,
+      `PRIORITY:${task.priority === 'high' ? 1 : task.priority === 'medium' ? 5 : 9}`,
+      ...(task.completedAt ? ['STATUS:CANCELLED'] : []),
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeICalText(task.title)}`,
+      `TRIGGER:-P${task.priority === 'high' ? 7 : 1}D`,
+      'END:VALARM',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trigger browser download of an iCalendar file
+ */
+export function downloadICalendar(content: string, filename: string = 'client-tasks.ics'): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+function escapeICalText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 characters (continuation lines start with a space)
+ */
+function foldICalLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+function formatICalDate(date: Date): string {
+  return toIsoDate(date).replace(/-/g, '');
+}
+
+function formatICalTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/**
+ * Parse a YYYY-MM-DD string as a local date
+ */
+function parseIsoDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getDate() === Number(match[3]) ? date : null;
+}
+
+function toIsoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+}
+
+/**
+ * The date itself if it is still ahead, otherwise its first anniversary on or after `from`
+ */
+function nextAnniversary(date: Date, from: Date): Date {
+  if (date >= startOfDay(from)) return date;
+
+  let next = new Date(from.getFullYear(), date.getMonth(), date.getDate());
+  if (next < startOfDay(from)) {
+    next = new Date(from.getFullYear() + 1, date.getMonth(), date.getDate());
+  }
+  return next;
+}
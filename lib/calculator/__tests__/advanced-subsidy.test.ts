@@ -19,15 +19,15 @@ describe('Advanced Subsidy Calculator', () => {
   describe('calculateFPL', () => {
     test('calculates FPL for contiguous states correctly', () => {
       expect(calculateFPL(1, 'TX')).toBe(15060); // Individual
-      expect(calculateFPL(2, 'NC')).toBe(20510); // 15060 + 5450
-      expect(calculateFPL(4, 'OH')).toBe(31410); // 15060 + (3 * 5450)
+      expect(calculateFPL(2, 'NC')).toBe(20440); // 15060 + 5380
+      expect(calculateFPL(4, 'OH')).toBe(31200); // 15060 + (3 * 5380)
     });
 
     test('calculates higher FPL for Alaska', () => {
       const akFPL = calculateFPL(1, 'AK');
       const txFPL = calculateFPL(1, 'TX');
 
-      expect(akFPL).toBe(18840);
+      expect(akFPL).toBe(18810);
       expect(akFPL).toBeGreaterThan(txFPL);
     });
 
@@ -41,8 +41,8 @@ describe('Advanced Subsidy Calculator', () => {
 
     test('handles large families', () => {
       const family8 = calculateFPL(8, 'FL');
-      // 15060 + (7 * 5450) = 53210
-      expect(family8).toBe(53210);
+      // 15060 + (7 * 5380) = 52720
+      expect(family8).toBe(52720);
     });
 
     test('handles edge cases', () => {
@@ -330,10 +330,10 @@ describe('Advanced Subsidy Calculator', () => {
         800   // Unaffordable family ($800/month)
       );
 
-      const _threshold = (magi / 12) * 0.0839; // ~$419/month (for reference)
+      const _threshold = (magi / 12) * 0.0902; // ~$451/month (for reference)
 
       expect(result.employerSelfOnlyAffordable).toBe(true);  // $250 < threshold
-      expect(result.employerFamilyAffordable).toBe(false);   // $800 > $419
+      expect(result.employerFamilyAffordable).toBe(false);   // $800 > $451
       expect(result.familyCanGetSubsidies).toBe(true);       // Family glitch fixed!
       expect(result.explanation).toContain('family glitch');
       expect(result.explanation).toContain('family members (spouse/children) CAN get marketplace subsidies');
@@ -367,7 +367,7 @@ describe('Advanced Subsidy Calculator', () => {
     test('calculates affordability threshold correctly', () => {
       const result = analyzeFamilyGlitch(magi, 250, 800);
 
-      const expectedThreshold = (magi / 12) * 0.0839;
+      const expectedThreshold = (magi / 12) * 0.0902;
       expect(result.affordabilityThreshold).toBeCloseTo(expectedThreshold, 0);
     });
   });
@@ -12,6 +12,9 @@ import {
   calculatePremiumForState,
   getHouseholdPremiumRange,
   GEOGRAPHIC_COST_INDEX,
+  setImportedStateBaseRates,
+  clearImportedStateBaseRates,
+  getStateBaseRateSource,
 } from '../age-rating';
 
 describe('Age Rating Model', () => {
@@ -246,6 +249,44 @@ describe('Age Rating Model', () => {
       expect(getStateBaseRate('AK')).toBeGreaterThan(getStateBaseRate('NC'));
       expect(getStateBaseRate('NY')).toBeGreaterThan(getStateBaseRate('TX'));
     });
+
+    describe('imported rates', () => {
+      afterEach(() => clearImportedStateBaseRates());
+
+      test('prefers imported rates over estimates', () => {
+        setImportedStateBaseRates({ NC: 450 });
+
+        expect(getStateBaseRateSource('NC')).toBe('imported');
+        expect(getStateBaseRateSource('TX')).toBe('estimate');
+        expect(getStateBaseRate('NC')).toBe(450); // NC geographic index is 1.0
+        expect(getStateBaseRate('TX')).toBe(315);
+      });
+
+      test('reproduces the imported age-21 Silver premium', () => {
+        setImportedStateBaseRates({ NY: 640 });
+
+        expect(calculatePremiumForState(21, 'NY', 'Silver')).toBeCloseTo(640, 2);
+      });
+
+      test('keeps each plan year\'s rates separate', () => {
+        setImportedStateBaseRates({ NC: 450 }, 2025);
+        setImportedStateBaseRates({ NC: 520 }, 2026);
+
+        expect(getStateBaseRate('NC', 2025)).toBe(450);
+        expect(getStateBaseRate('NC', 2026)).toBe(520);
+        expect(getStateBaseRate('NC')).toBe(450); // Default plan year
+        expect(getStateBaseRateSource('NC', 2024)).toBe('estimate');
+        expect(calculatePremiumForState(21, 'NC', 'Silver', false, 2026)).toBeCloseTo(520, 2);
+      });
+
+      test('ignores non-positive rates and can be cleared', () => {
+        setImportedStateBaseRates({ AK: 0, NC: 450 });
+        expect(getStateBaseRateSource('AK')).toBe('estimate');
+
+        clearImportedStateBaseRates();
+        expect(getStateBaseRate('NC')).toBe(410);
+      });
+    });
   });
 
   describe('calculatePremiumForState', () => {
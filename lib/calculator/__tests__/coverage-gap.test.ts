@@ -0,0 +1,99 @@
+/**
+ * Coverage Gap Analysis Tests
+ */
+
+import { analyzeCoverageGap } from '../coverage-gap';
+import { getPovertyGuideline } from '../plan-year-rules';
+import { analyzeInsurance } from '../index';
+import { createTestFormData } from '@/lib/test-utils';
+
+describe('Coverage Gap Analysis', () => {
+  const incomeAt = (percent: number, size: number, state: string) =>
+    Math.round((getPovertyGuideline(size, state, 2025) * percent) / 100);
+
+  it('detects adults below 100% FPL in non-expansion states', () => {
+    const result = analyzeCoverageGap({
+      state: 'TX',
+      annualIncome: incomeAt(70, 1, 'TX'),
+      adultAges: [40],
+      planYear: 2025,
+    });
+
+    expect(result.inCoverageGap).toBe(true);
+    expect(result.adultsInGap).toBe(1);
+    expect(result.incomeNeededForSubsidy).toBeCloseTo(getPovertyGuideline(1, 'TX', 2025) - incomeAt(70, 1, 'TX'), 0);
+    expect(result.annualBenchmarkPremium).toBeGreaterThan(0);
+  });
+
+  it('does not flag expansion states or incomes above 100% FPL', () => {
+    expect(analyzeCoverageGap({ state: 'NC', annualIncome: incomeAt(70, 1, 'NC'), adultAges: [40] }).inCoverageGap).toBe(false);
+    expect(analyzeCoverageGap({ state: 'TX', annualIncome: incomeAt(120, 1, 'TX'), adultAges: [40] }).inCoverageGap).toBe(false);
+  });
+
+  it('prices income projection paths net of payroll and self-employment tax', () => {
+    const result = analyzeCoverageGap({
+      state: 'FL',
+      annualIncome: incomeAt(80, 1, 'FL'),
+      adultAges: [45],
+      planYear: 2025,
+      hasSelfEmploymentIncome: true,
+    });
+
+    const selfEmployment = result.paths.find(p => p.id === 'self-employment-income')!;
+    const wages = result.paths.find(p => p.id === 'additional-wages')!;
+
+    expect(selfEmployment.feasibility).toBe('high');
+    expect(selfEmployment.annualCost).toBeCloseTo(result.incomeNeededForSubsidy * 0.9235 * 0.153, 0);
+    expect(wages.annualCost).toBeCloseTo(result.incomeNeededForSubsidy * 0.0765, 0);
+    // 2025 applicable percentage at 100% FPL is 0%, so the whole benchmark is covered
+    expect(selfEmployment.annualBenefit).toBeCloseTo(result.annualBenchmarkPremium, 0);
+    expect(result.recommendedPathId).toBe('self-employment-income');
+  });
+
+  it('sorts paths by net annual impact', () => {
+    const result = analyzeCoverageGap({ state: 'GA', annualIncome: incomeAt(60, 2, 'GA'), adultAges: [35, 33] });
+    const impacts = result.paths.map(p => p.netAnnualImpact);
+
+    expect(impacts).toEqual([...impacts].sort((a, b) => b - a));
+    expect(result.paths.map(p => p.id)).toEqual(expect.arrayContaining(['ichra', 'community-health-center', 'charity-care']));
+  });
+
+  it('uses a known ICHRA allowance and caps it at the benchmark premium', () => {
+    const result = analyzeCoverageGap({
+      state: 'TX',
+      annualIncome: incomeAt(50, 1, 'TX'),
+      adultAges: [30],
+      hasICHRAOffer: true,
+      ichraMonthlyAllowance: 100000,
+    });
+
+    const ichra = result.paths.find(p => p.id === 'ichra')!;
+    expect(ichra.feasibility).toBe('high');
+    expect(ichra.annualBenefit).toBe(result.annualBenchmarkPremium);
+  });
+
+  it('notes children who qualify for Medicaid or CHIP', () => {
+    const result = analyzeCoverageGap({
+      state: 'TX',
+      annualIncome: incomeAt(60, 3, 'TX'),
+      adultAges: [35, 34],
+      childAges: [6],
+    });
+
+    expect(result.adultsInGap).toBe(2);
+    expect(result.warnings.some(w => w.includes('Children'))).toBe(true);
+  });
+
+  it('surfaces the analysis in analyzeInsurance', async () => {
+    const formData = createTestFormData({
+      residences: [{ zip: '75201', state: 'TX', isPrimary: true, monthsPerYear: 12 }],
+      adultAges: [40],
+      annualIncome: incomeAt(70, 1, 'TX'),
+    });
+
+    const result = await analyzeInsurance(formData);
+
+    expect(result.coverageGapAnalysis?.inCoverageGap).toBe(true);
+    expect(result.actionItems[0]).toContain('Coverage gap');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Itemized Income Profile Tests
+ */
+
+import {
+  applyIncomeProfile,
+  calculateProfileGrossIncome,
+  calculateProfileMAGI,
+  calculateSelfEmploymentTaxDeduction,
+  calculateTaxableSocialSecurity,
+  parseIncomeProfile,
+  serializeIncomeProfile,
+  summarizeIncomeProfile,
+} from '../income-profile';
+import { analyzeMAGI } from '@/lib/calculators/magi';
+import { calculateHSAOptimization } from '@/lib/calculators/hsa';
+import { analyzeJobChange } from '@/lib/wizards/job-change';
+import { analyzeInsurance } from '../index';
+import { createTestFormData } from '@/lib/test-utils';
+import type { IncomeProfile } from '@/types';
+
+describe('Income Profile', () => {
+  describe('calculateSelfEmploymentTaxDeduction', () => {
+    it('deducts half of SE tax on 92.35% of net profit', () => {
+      // 50,000 × 0.9235 × 15.3% / 2
+      expect(calculateSelfEmploymentTaxDeduction(50000, 0, 2025)).toBeCloseTo(3532.39, 2);
+    });
+
+    it('only applies the Social Security portion below the wage base', () => {
+      // Wages above the 2025 wage base leave only the 2.9% Medicare portion
+      expect(calculateSelfEmploymentTaxDeduction(50000, 180000, 2025)).toBeCloseTo(669.54, 2);
+    });
+
+    it('owes nothing below $400 of net earnings', () => {
+      expect(calculateSelfEmploymentTaxDeduction(400)).toBe(0);
+    });
+  });
+
+  describe('Social Security', () => {
+    it('taxes benefits based on provisional income', () => {
+      const profile: IncomeProfile = { filingStatus: 'single', wages: 20000, socialSecurityBenefits: 20000 };
+
+      // Provisional income $30,000 is $5,000 over the single base amount
+      expect(calculateTaxableSocialSecurity(profile)).toBe(2500);
+    });
+
+    it('includes all benefits in ACA MAGI', () => {
+      const profile: IncomeProfile = { filingStatus: 'single', wages: 20000, socialSecurityBenefits: 20000 };
+      const summary = summarizeIncomeProfile(profile);
+
+      expect(summary.adjustedGrossIncome).toBe(22500);
+      expect(summary.magiAddBacks).toBe(17500);
+      expect(summary.magi).toBe(40000);
+    });
+  });
+
+  it('adds back tax-exempt interest and foreign income and subtracts deductions', () => {
+    const magi = calculateProfileMAGI({
+      wages: 60000,
+      selfEmploymentIncome: 10000,
+      taxExemptInterest: 2000,
+      foreignIncomeExclusion: 5000,
+      iraContribution: 7000,
+      hsaContribution: 4000,
+    }, 2025);
+
+    expect(magi).toBeCloseTo(60000 + 10000 + 2000 + 5000 - 7000 - 4000 - calculateSelfEmploymentTaxDeduction(10000, 60000, 2025), 2);
+  });
+
+  it('round-trips through the results URL and rejects malformed values', () => {
+    const profile: IncomeProfile = { filingStatus: 'married_joint', wages: 50000, socialSecurityBenefits: 12000 };
+
+    expect(parseIncomeProfile(serializeIncomeProfile(profile))).toEqual(profile);
+    expect(parseIncomeProfile('{"wages":-5}')).toBeUndefined();
+    expect(parseIncomeProfile('{"filingStatus":"widowed"}')).toBeUndefined();
+    expect(parseIncomeProfile('not json')).toBeUndefined();
+  });
+
+  describe('calculator integration', () => {
+    const profile: IncomeProfile = {
+      filingStatus: 'single',
+      wages: 30000,
+      selfEmploymentIncome: 20000,
+      iraContribution: 3000,
+    };
+
+    it('feeds analyzeMAGI and fills contributions from the profile', () => {
+      const analysis = analyzeMAGI({
+        incomeProfile: profile,
+        householdSize: 1,
+        filingStatus: 'single',
+        state: 'NC',
+        age: 40,
+        planYear: 2025,
+      });
+
+      expect(analysis.current.magi).toBe(calculateProfileMAGI(profile, 2025));
+      expect(analysis.incomeSummary?.selfEmploymentTaxDeduction).toBeGreaterThan(0);
+    });
+
+    it('requires either estimatedMAGI or an income profile', () => {
+      expect(() => analyzeMAGI({ householdSize: 1, filingStatus: 'single', state: 'NC', age: 40 }))
+        .toThrow('Either estimatedMAGI or incomeProfile is required');
+    });
+
+    it('uses total income for HSA affordability', () => {
+      const analysis = calculateHSAOptimization({
+        coverageType: 'individual',
+        age: 40,
+        incomeProfile: profile,
+        federalTaxRate: 0.22,
+        monthlyPremium: 300,
+        deductible: 3000,
+      });
+
+      expect(calculateProfileGrossIncome(profile)).toBe(50000);
+      expect(analysis.recommendations.some(r => r.includes('Maximize'))).toBe(true);
+    });
+
+    it('matches job-change subsidy eligibility to the profile MAGI', () => {
+      const scenario = {
+        separationDate: new Date('2025-03-01'),
+        currentPremium: 200,
+        cobraPremium: 700,
+        householdSize: 1,
+        state: 'NC',
+        age: 40,
+        expectedUtilization: 'medium' as const,
+      };
+
+      const fromProfile = analyzeJobChange({ ...scenario, incomeProfile: profile });
+      const fromIncome = analyzeJobChange({ ...scenario, householdIncome: calculateProfileMAGI(profile) });
+
+      expect(fromProfile.subsidyInfo).toEqual(fromIncome.subsidyInfo);
+      expect(fromProfile.costComparison).toEqual(fromIncome.costComparison);
+    });
+
+    it('overrides annualIncome in analyzeInsurance', async () => {
+      const formData = createTestFormData({ annualIncome: 250000, incomeProfile: profile });
+
+      expect(applyIncomeProfile(formData).annualIncome).toBe(calculateProfileMAGI(profile));
+
+      const result = await analyzeInsurance(formData);
+      expect(result.subsidyAnalysis?.subsidyEligible).toBe(true);
+    });
+  });
+});
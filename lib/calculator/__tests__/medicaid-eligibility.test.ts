@@ -0,0 +1,164 @@
+/**
+ * Medicaid / CHIP Eligibility Engine Tests
+ */
+
+import {
+  determineMedicaidEligibility,
+  getStateMedicaidThresholds,
+  MAGI_DISREGARD_PERCENT,
+} from '../medicaid-eligibility';
+import { getPovertyGuideline } from '../plan-year-rules';
+import { analyzeInsurance } from '../index';
+import { createTestFormData } from '@/lib/test-utils';
+
+describe('Medicaid/CHIP Eligibility Engine', () => {
+  // Income at a given % FPL for the household size and state
+  const incomeAt = (percent: number, size: number, state: string) =>
+    (getPovertyGuideline(size, state, 2025) * percent) / 100;
+
+  const family = [{ id: 'parent-1', age: 35 }, { id: 'parent-2', age: 34 }, { id: 'child-1', age: 8 }];
+
+  describe('getStateMedicaidThresholds', () => {
+    it('returns state limits before the disregard', () => {
+      const nc = getStateMedicaidThresholds('nc');
+
+      expect(nc?.expansion).toBe(true);
+      expect(nc?.adult).toBe(133);
+      expect(getStateMedicaidThresholds('TX')?.adult).toBeNull();
+    });
+
+    it('returns null for unknown states', () => {
+      expect(getStateMedicaidThresholds('ZZ')).toBeNull();
+    });
+  });
+
+  describe('determineMedicaidEligibility', () => {
+    it('covers adults to 138% FPL in expansion states', () => {
+      const result = determineMedicaidEligibility({
+        state: 'NC',
+        annualMAGI: incomeAt(130, 1, 'NC'),
+        members: [{ age: 40 }],
+        planYear: 2025,
+      });
+
+      expect(result.members[0]).toMatchObject({ group: 'adult', program: 'medicaid', thresholdPercent: 138 });
+      expect(result.allMedicaidOrCHIP).toBe(true);
+    });
+
+    it('applies the 5% disregard only when it decides eligibility', () => {
+      const justAbove = determineMedicaidEligibility({
+        state: 'NC',
+        annualMAGI: incomeAt(135, 1, 'NC'),
+        members: [{ age: 40 }],
+        planYear: 2025,
+      });
+      const overLimit = determineMedicaidEligibility({
+        state: 'NC',
+        annualMAGI: incomeAt(133 + MAGI_DISREGARD_PERCENT + 2, 1, 'NC'),
+        members: [{ age: 40 }],
+        planYear: 2025,
+      });
+
+      expect(justAbove.members[0]?.usedDisregard).toBe(true);
+      expect(justAbove.members[0]?.program).toBe('medicaid');
+      expect(overLimit.members[0]?.program).toBe('marketplace');
+    });
+
+    it('splits families with children on CHIP and parents on the marketplace', () => {
+      const result = determineMedicaidEligibility({
+        state: 'NC',
+        annualMAGI: incomeAt(180, 3, 'NC'),
+        members: family,
+        planYear: 2025,
+      });
+
+      expect(result.members.map(m => m.program)).toEqual(['marketplace', 'marketplace', 'chip']);
+      expect(result.members[0]?.group).toBe('parent');
+      expect(result.isSplitFamily).toBe(true);
+      expect(result.actionItems.some(item => item.includes('cannot receive premium tax credits'))).toBe(true);
+    });
+
+    it('uses the parent limit and the coverage gap in non-expansion states', () => {
+      const result = determineMedicaidEligibility({
+        state: 'TX',
+        annualMAGI: incomeAt(80, 3, 'TX'),
+        members: family,
+        planYear: 2025,
+      });
+
+      expect(result.isExpansionState).toBe(false);
+      expect(result.members[0]?.program).toBe('coverage-gap');
+      expect(result.members[2]?.program).toBe('medicaid');
+      expect(result.summary).toContain('coverage gap');
+    });
+
+    it('covers low-income parents within the state parent limit', () => {
+      const result = determineMedicaidEligibility({
+        state: 'TN',
+        annualMAGI: incomeAt(90, 3, 'TN'),
+        members: family,
+        planYear: 2025,
+      });
+
+      expect(result.members[0]).toMatchObject({ group: 'parent', program: 'medicaid' });
+    });
+
+    it('counts the expected child for pregnant members', () => {
+      const result = determineMedicaidEligibility({
+        state: 'TX',
+        annualMAGI: incomeAt(190, 1, 'TX'),
+        members: [{ age: 28, isPregnant: true }],
+        planYear: 2025,
+      });
+
+      expect(result.members[0]?.group).toBe('pregnant');
+      expect(result.members[0]?.program).toBe('medicaid');
+      expect(result.members[0]?.fplPercent).toBeLessThan(result.fplPercent);
+    });
+
+    it('routes members 65 and older to Medicare', () => {
+      const result = determineMedicaidEligibility({
+        state: 'NC',
+        annualMAGI: incomeAt(120, 2, 'NC'),
+        members: [{ age: 67 }, { age: 60 }],
+        planYear: 2025,
+      });
+
+      expect(result.members[0]?.program).toBe('medicare');
+      expect(result.members[1]?.program).toBe('medicaid');
+      expect(result.allMedicaidOrCHIP).toBe(true);
+    });
+
+    it('falls back to federal minimums for unknown states', () => {
+      const result = determineMedicaidEligibility({
+        state: 'ZZ',
+        annualMAGI: 20000,
+        members: [{ age: 10 }],
+      });
+
+      expect(result.members[0]?.thresholdPercent).toBe(138);
+      expect(result.actionItems.some(item => item.includes('federal minimums'))).toBe(true);
+    });
+  });
+
+  describe('analyzeInsurance integration', () => {
+    it('returns per-member eligibility for split families', async () => {
+      const formData = createTestFormData({
+        numAdults: 2,
+        adultAges: [35, 34],
+        adultsUseTobacco: [false, false],
+        numChildren: 1,
+        childAges: [8],
+        childrenUseTobacco: [false],
+        annualIncome: Math.round(incomeAt(180, 3, 'NC')),
+      });
+
+      const result = await analyzeInsurance(formData);
+      const eligibility = result.subsidyAnalysis?.medicaidEligibility;
+
+      expect(eligibility?.members).toHaveLength(3);
+      expect(eligibility?.isSplitFamily).toBe(true);
+      expect(result.actionItems.some(item => item.includes('CHIP'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Monthly (Partial-Year) PTC Calculator Tests
+ */
+
+import {
+  calculateMonthlyPremiumTaxCredit,
+  toReconciliationMonths,
+  type MonthlySubsidyInput,
+} from '../monthly-subsidy';
+import { getAgeRatingFactor } from '../age-rating';
+import { calculateReconciliation } from '@/lib/calculators/reconciliation';
+
+describe('Monthly Premium Tax Credit Calculator', () => {
+  const createInput = (overrides: Partial<MonthlySubsidyInput> = {}): MonthlySubsidyInput => ({
+    planYear: 2025,
+    annualMAGI: 45000,
+    members: [{ id: 'Primary', age: 40 }],
+    ratingAreas: [{ startMonth: 1, state: 'TX', label: 'Rating Area 1', slcspBaseRate: 400 }],
+    ...overrides,
+  });
+
+  it('returns a full 12-month schedule', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput());
+
+    expect(result.months).toHaveLength(12);
+    expect(result.coveredMonths).toBe(12);
+    expect(result.months[0]?.benchmarkPremium).toBeCloseTo(400 * getAgeRatingFactor(40), 2);
+    expect(result.months[0]?.premiumTaxCredit).toBeCloseTo(
+      result.months[0]!.benchmarkPremium - result.months[0]!.expectedContribution,
+      2
+    );
+    expect(result.totals.premiumTaxCredit).toBeCloseTo(result.months[0]!.premiumTaxCredit * 12, 1);
+  });
+
+  it('only credits months after a mid-year SEP start', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({ coverageStartMonth: 5 }));
+
+    expect(result.coveredMonths).toBe(8);
+    expect(result.months[3]?.covered).toBe(false);
+    expect(result.months[3]?.premiumTaxCredit).toBe(0);
+    expect(result.months[4]?.premiumTaxCredit).toBeGreaterThan(0);
+    expect(result.warnings.some(w => w.includes('8 months'))).toBe(true);
+  });
+
+  it('adds a newborn to the household and benchmark from the birth month', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      members: [
+        { id: 'Primary', age: 30 },
+        { id: 'Newborn', age: 0, firstMonth: 7 },
+      ],
+    }));
+
+    expect(result.months[5]?.householdSize).toBe(1);
+    expect(result.months[6]?.householdSize).toBe(2);
+    expect(result.months[6]?.coveredMembers).toEqual(['Primary', 'Newborn']);
+    expect(result.months[6]!.premiumTaxCredit).toBeGreaterThan(result.months[5]!.premiumTaxCredit);
+    expect(result.warnings.some(w => w.includes('household size changes'))).toBe(true);
+  });
+
+  it('drops a member who leaves the tax household', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      members: [
+        { id: 'Primary', age: 45 },
+        { id: 'Spouse', age: 44, lastMonth: 6 },
+      ],
+    }));
+
+    expect(result.months[5]?.coveredMembers).toEqual(['Primary', 'Spouse']);
+    expect(result.months[6]?.coveredMembers).toEqual(['Primary']);
+    expect(result.months[6]!.benchmarkPremium).toBeLessThan(result.months[5]!.benchmarkPremium);
+  });
+
+  it('uses the year-end tax family size for the FPL percentage in every month', () => {
+    const members = [
+      { id: 'Primary', age: 30 },
+      { id: 'Newborn', age: 0, firstMonth: 7 },
+    ];
+    const result = calculateMonthlyPremiumTaxCredit(createInput({ members }));
+    const familyOfTwo = calculateMonthlyPremiumTaxCredit(createInput({ members: members.map(m => ({ ...m, firstMonth: 1 })) }));
+
+    expect(result.taxFamilySize).toBe(2);
+    expect(new Set(result.months.map(m => m.fplPercent)).size).toBe(1);
+    expect(result.months[0]?.fplPercent).toBe(familyOfTwo.months[0]?.fplPercent);
+    expect(result.months[0]?.expectedContribution).toBe(result.months[11]?.expectedContribution);
+    expect(result.months[0]?.expectedContribution).toBe(familyOfTwo.months[0]?.expectedContribution);
+  });
+
+  it('excludes members who left before year-end from the tax family size', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      members: [
+        { id: 'Primary', age: 45 },
+        { id: 'Spouse', age: 44, lastMonth: 6 },
+      ],
+    }));
+    const single = calculateMonthlyPremiumTaxCredit(createInput({ members: [{ id: 'Primary', age: 45 }] }));
+
+    expect(result.taxFamilySize).toBe(1);
+    expect(result.months[0]?.householdSize).toBe(2);
+    expect(result.months[0]?.fplPercent).toBe(single.months[0]?.fplPercent);
+    expect(result.months[0]?.applicablePercentage).toBe(single.months[0]?.applicablePercentage);
+    expect(result.months[11]?.premiumTaxCredit).toBe(single.months[11]?.premiumTaxCredit);
+  });
+
+  it('counts household members who do not enroll toward household size only', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      members: [
+        { id: 'Primary', age: 40 },
+        { id: 'Spouse', age: 40, enrolled: false },
+      ],
+    }));
+
+    expect(result.months[0]?.householdSize).toBe(2);
+    expect(result.months[0]?.coveredMembers).toEqual(['Primary']);
+    expect(result.months[0]?.benchmarkPremium).toBeCloseTo(400 * getAgeRatingFactor(40), 2);
+  });
+
+  it('switches benchmark when the household moves rating areas', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      ratingAreas: [
+        { startMonth: 1, state: 'TX', label: 'Rating Area 1', slcspBaseRate: 400 },
+        { startMonth: 9, state: 'FL', label: 'Rating Area 12', slcspBaseRate: 550 },
+      ],
+    }));
+
+    expect(result.months[7]?.ratingAreaLabel).toBe('Rating Area 1');
+    expect(result.months[8]?.ratingAreaLabel).toBe('Rating Area 12');
+    expect(result.months[8]!.premiumTaxCredit).toBeGreaterThan(result.months[7]!.premiumTaxCredit);
+    expect(result.warnings.some(w => w.includes('rating area'))).toBe(true);
+  });
+
+  it('only rates the three oldest children under 21', () => {
+    const children = [3, 6, 9, 12].map((age, i) => ({ id: `Child ${i + 1}`, age }));
+    const result = calculateMonthlyPremiumTaxCredit(createInput({ members: children }));
+    const expected = [6, 9, 12].reduce((total, age) => total + 400 * getAgeRatingFactor(age), 0);
+
+    expect(result.months[0]?.benchmarkPremium).toBeCloseTo(expected, 2);
+  });
+
+  it('caps the credit at the enrolled plan premium', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      annualMAGI: 25000,
+      enrolledPremiums: { 1: 100 },
+    }));
+
+    expect(result.months[0]?.premiumTaxCredit).toBe(100);
+    expect(result.months[0]?.netPremium).toBe(0);
+    expect(result.months[1]?.enrolledPremium).toBeUndefined();
+  });
+
+  it('applies the 2026 subsidy cliff', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({ planYear: 2026, annualMAGI: 70000 }));
+
+    expect(result.planYear).toBe(2026);
+    expect(result.totals.premiumTaxCredit).toBe(0);
+    expect(result.warnings.some(w => w.includes('outside the premium tax credit range'))).toBe(true);
+  });
+
+  it('estimates the benchmark when no SLCSP is supplied', () => {
+    const result = calculateMonthlyPremiumTaxCredit(createInput({
+      ratingAreas: [{ startMonth: 1, state: 'TX' }],
+    }));
+
+    expect(result.months[0]?.isEstimate).toBe(true);
+    expect(result.months[0]?.benchmarkPremium).toBeGreaterThan(0);
+    expect(result.warnings.some(w => w.includes('estimated'))).toBe(true);
+  });
+
+  it('throws without a rating area', () => {
+    expect(() => calculateMonthlyPremiumTaxCredit(createInput({ ratingAreas: [] }))).toThrow();
+  });
+
+  it('converts a schedule into reconciliation months', () => {
+    const schedule = calculateMonthlyPremiumTaxCredit(createInput({ coverageStartMonth: 4 }));
+    const months = toReconciliationMonths(schedule);
+
+    expect(months).toHaveLength(9);
+    expect(months[0]?.month).toBe(4);
+
+    const reconciliation = calculateReconciliation({
+      taxYear: 2025,
+      filingStatus: 'single',
+      householdSize: 1,
+      state: 'TX',
+      finalMAGI: 45000,
+      months,
+    });
+
+    // Only the whole-number FPL rounding on Form 8962 separates the two
+    expect(Math.abs(reconciliation.netPremiumTaxCredit + reconciliation.excessAPTC)).toBeLessThan(25);
+  });
+});
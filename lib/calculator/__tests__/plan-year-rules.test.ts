@@ -0,0 +1,163 @@
+/**
+ * Tests for Plan-Year Subsidy Rules Registry
+ */
+
+import {
+  DEFAULT_PLAN_YEAR,
+  getPlanYearRules,
+  getPovertyGuideline,
+  getApplicablePercentage,
+  getFlatApplicablePercentage,
+  isAboveSubsidyCliff,
+  isSupportedPlanYear,
+} from '../plan-year-rules';
+import { calculatePremiumTaxCredit, calculateFPL } from '../advanced-subsidy';
+import { calculateSubsidy } from '../subsidyCalculator';
+import { analyzeMAGI, getIncomeAtFPL } from '@/lib/calculators/magi';
+
+describe('Plan-Year Rules Registry', () => {
+  describe('getPlanYearRules', () => {
+    test('defaults to the 2025 plan year', () => {
+      expect(DEFAULT_PLAN_YEAR).toBe(2025);
+      expect(getPlanYearRules().planYear).toBe(2025);
+    });
+
+    test('returns rules for each supported year', () => {
+      expect(getPlanYearRules(2024).planYear).toBe(2024);
+      expect(getPlanYearRules(2026).planYear).toBe(2026);
+      expect(isSupportedPlanYear(2026)).toBe(true);
+      expect(isSupportedPlanYear(2019)).toBe(false);
+    });
+
+    test('falls back to the nearest supported year', () => {
+      expect(getPlanYearRules(2020).planYear).toBe(2024);
+      expect(getPlanYearRules(2030).planYear).toBe(2026);
+    });
+
+    test('pins the IRS employer affordability percentages', () => {
+      expect(getPlanYearRules(2024).employerAffordabilityThreshold).toBe(0.0839);
+      expect(getPlanYearRules(2025).employerAffordabilityThreshold).toBe(0.0902);
+      expect(getPlanYearRules(2026).employerAffordabilityThreshold).toBe(0.0996);
+    });
+
+    test('only 2026 has a subsidy cliff', () => {
+      expect(getPlanYearRules(2024).subsidyCliffFPL).toBeNull();
+      expect(getPlanYearRules(2025).subsidyCliffFPL).toBeNull();
+      expect(getPlanYearRules(2026).subsidyCliffFPL).toBe(400);
+    });
+  });
+
+  describe('getPovertyGuideline', () => {
+    test('uses each year\'s guidelines', () => {
+      expect(getPovertyGuideline(1, 'TX', 2024)).toBe(14580);
+      expect(getPovertyGuideline(1, 'TX', 2025)).toBe(15060);
+      expect(getPovertyGuideline(1, 'TX', 2026)).toBe(15650);
+      expect(getPovertyGuideline(4, 'TX', 2026)).toBe(15650 + 3 * 5500);
+    });
+
+    test('pins the published 2024 guidelines used for 2025 coverage', () => {
+      expect(getPovertyGuideline(2, 'TX', 2025)).toBe(20440);
+      expect(getPovertyGuideline(4, 'TX', 2025)).toBe(31200);
+      expect(getPovertyGuideline(2, 'AK', 2025)).toBe(18810 + 6730);
+      expect(getPovertyGuideline(2, 'HI', 2025)).toBe(17310 + 6190);
+    });
+
+    test('uses Alaska and Hawaii tables', () => {
+      expect(getPovertyGuideline(1, 'AK', 2026)).toBe(19550);
+      expect(getPovertyGuideline(1, 'hi', 2026)).toBe(17990);
+    });
+
+    test('matches calculateFPL for the requested year', () => {
+      expect(calculateFPL(3, 'OH', 2026)).toBe(getPovertyGuideline(3, 'OH', 2026));
+    });
+  });
+
+  describe('applicable percentages', () => {
+    test('interpolates within enhanced bands', () => {
+      expect(getApplicablePercentage(150, 2025)).toBe(0);
+      expect(getApplicablePercentage(175, 2025)).toBeCloseTo(0.01, 6);
+      expect(getApplicablePercentage(350, 2025)).toBeCloseTo(0.0725, 6);
+      expect(getApplicablePercentage(600, 2025)).toBe(0.085);
+    });
+
+    test('uses the higher 2026 schedule', () => {
+      expect(getApplicablePercentage(120, 2026)).toBe(0.021);
+      expect(getApplicablePercentage(300, 2026)).toBeCloseTo(0.0996, 6);
+      expect(getApplicablePercentage(250, 2026)).toBeGreaterThan(getApplicablePercentage(250, 2025));
+    });
+
+    test('flat lookup returns the band rate', () => {
+      expect(getFlatApplicablePercentage(375, 2025)).toBe(0.08);
+      expect(getFlatApplicablePercentage(175, 2026)).toBe(0.0419);
+    });
+
+    test('detects the 400% cliff only when it applies', () => {
+      expect(isAboveSubsidyCliff(450, 2025)).toBe(false);
+      expect(isAboveSubsidyCliff(450, 2026)).toBe(true);
+      expect(isAboveSubsidyCliff(400, 2026)).toBe(false);
+    });
+  });
+
+  describe('calculators resolve by plan year', () => {
+    test('calculatePremiumTaxCredit drops credit above 400% FPL in 2026', () => {
+      const magi = calculateFPL(1, 'NY', 2026) * 4.5;
+      const current = calculatePremiumTaxCredit(magi, 1, 'NY', 900, undefined, 2025);
+      const next = calculatePremiumTaxCredit(magi, 1, 'NY', 900, undefined, 2026);
+
+      expect(current.planYear).toBe(2025);
+      expect(current.ptcEligible).toBe(true);
+      expect(next.planYear).toBe(2026);
+      expect(next.ptcEligible).toBe(false);
+      expect(next.monthlyPTC).toBe(0);
+      expect(next.warnings.some(w => w.includes('plan year 2026'))).toBe(true);
+    });
+
+    test('calculateSubsidy keeps credits above 400% FPL until 2026', () => {
+      const income = calculateFPL(2, 'NC', 2026) * 4.5;
+      const current = calculateSubsidy(income, undefined, 2, 0, ['NC'], 2025);
+      const next = calculateSubsidy(income, undefined, 2, 0, ['NC'], 2026);
+
+      expect(current.subsidyEligible).toBe(true);
+      expect(next.subsidyEligible).toBe(false);
+      expect(next.estimatedMonthlySubsidy).toBe(0);
+      expect(next.explanation).toContain('400%');
+    });
+
+    test('calculatePremiumTaxCredit credit shrinks in 2026 for the same household', () => {
+      const current = calculatePremiumTaxCredit(45000, 2, 'NC', 1000, undefined, 2025);
+      const next = calculatePremiumTaxCredit(45000, 2, 'NC', 1000, undefined, 2026);
+
+      expect(next.monthlyPTC).toBeLessThan(current.monthlyPTC);
+    });
+
+    test('analyzeMAGI reports the plan year and applies the cliff', () => {
+      const magi = getIncomeAtFPL(420, 2, 2026);
+      const analysis = analyzeMAGI({
+        estimatedMAGI: magi,
+        householdSize: 2,
+        filingStatus: 'married_joint',
+        state: 'CA',
+        age: 45,
+        benchmarkPremium: 1500,
+        planYear: 2026,
+      });
+
+      expect(analysis.planYear).toBe(2026);
+      expect(analysis.current.tier).toBe('above_cliff');
+      expect(analysis.current.monthlySubsidy).toBe(0);
+    });
+
+    test('analyzeMAGI defaults to DEFAULT_PLAN_YEAR', () => {
+      const analysis = analyzeMAGI({
+        estimatedMAGI: getPovertyGuideline(2, 'CA', DEFAULT_PLAN_YEAR) * 2,
+        householdSize: 2,
+        filingStatus: 'married_joint',
+        state: 'CA',
+        age: 40,
+      });
+
+      expect(analysis.planYear).toBe(DEFAULT_PLAN_YEAR);
+      expect(analysis.current.fplPercent).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tax Household Tests
+ */
+
+import {
+  resolveTaxHouseholds,
+  createSeparateTaxHouseholds,
+  addTaxHousehold,
+  removeTaxHousehold,
+  assignTaxHouseholdMember,
+  syncTaxHouseholds,
+  validateTaxHouseholds,
+  serializeTaxHouseholds,
+  parseTaxHouseholds,
+  analyzeTaxHouseholdSubsidies,
+} from '../tax-households';
+import { analyzeInsurance } from '../index';
+import { createTestFormData } from '@/lib/test-utils';
+import type { TaxHousehold } from '@/types';
+
+describe('Tax Households', () => {
+  // Unmarried couple: adult 1 files with the child, adult 2 files alone
+  const createCoupleFormData = (partnerIncome: number | null = 30000) => createTestFormData({
+    numAdults: 2,
+    adultAges: [40, 38],
+    adultsUseTobacco: [false, false],
+    numChildren: 1,
+    childAges: [8],
+    childrenUseTobacco: [false],
+    annualIncome: 45000,
+    taxHouseholds: [
+      { id: 'primary', label: 'Tax household 1', adultIndexes: [0], childIndexes: [0], annualIncome: null },
+      { id: 'household-2', label: 'Tax household 2', adultIndexes: [1], childIndexes: [], annualIncome: partnerIncome },
+    ],
+  });
+
+  describe('resolveTaxHouseholds', () => {
+    it('puts everyone in one household when none are defined', () => {
+      const households = resolveTaxHouseholds(createTestFormData({
+        adultAges: [40, 38],
+        childAges: [8],
+        annualIncome: 60000,
+      }));
+
+      expect(households).toHaveLength(1);
+      expect(households[0]).toMatchObject({ isPrimary: true, adultAges: [40, 38], childAges: [8], annualIncome: 60000 });
+    });
+
+    it('resolves member ages and falls back to form income for the primary household', () => {
+      const [primary, partner] = resolveTaxHouseholds(createCoupleFormData());
+
+      expect(primary).toMatchObject({ adultAges: [40], childAges: [8], annualIncome: 45000 });
+      expect(partner).toMatchObject({ isPrimary: false, adultAges: [38], childAges: [], annualIncome: 30000 });
+    });
+  });
+
+  describe('form helpers', () => {
+    it('splits the first adult and children from the other adults', () => {
+      const households = createSeparateTaxHouseholds(3, 2);
+
+      expect(households[0]).toMatchObject({ adultIndexes: [0], childIndexes: [0, 1] });
+      expect(households[1]).toMatchObject({ adultIndexes: [1, 2], childIndexes: [] });
+    });
+
+    it('moves members between households', () => {
+      const households = assignTaxHouseholdMember(createSeparateTaxHouseholds(2, 2), 'child', 1, 'household-2');
+
+      expect(households[0]?.childIndexes).toEqual([0]);
+      expect(households[1]?.childIndexes).toEqual([1]);
+    });
+
+    it('adds and removes households, returning members to the primary household', () => {
+      let households = addTaxHousehold(createSeparateTaxHouseholds(3, 0));
+      households = assignTaxHouseholdMember(households, 'adult', 2, 'household-3');
+      expect(households).toHaveLength(3);
+
+      households = removeTaxHousehold(households, 'household-3');
+      expect(households).toHaveLength(2);
+      expect(households[0]?.adultIndexes).toEqual([0, 2]);
+    });
+
+    it('keeps assignments in step with member counts', () => {
+      const synced = syncTaxHouseholds(createSeparateTaxHouseholds(3, 1), 2, 2);
+
+      expect(synced[0]).toMatchObject({ adultIndexes: [0], childIndexes: [0, 1] });
+      expect(synced[1]).toMatchObject({ adultIndexes: [1] });
+    });
+
+    it('round-trips through the results URL and rejects malformed input', () => {
+      const households = createCoupleFormData().taxHouseholds as TaxHousehold[];
+
+      expect(parseTaxHouseholds(serializeTaxHouseholds(households))).toEqual(households);
+      expect(parseTaxHouseholds('not json')).toBeUndefined();
+      expect(parseTaxHouseholds('[{"id":"x"}]')).toBeUndefined();
+      expect(parseTaxHouseholds(null)).toBeUndefined();
+    });
+  });
+
+  describe('validateTaxHouseholds', () => {
+    it('accepts a complete assignment', () => {
+      const households = createCoupleFormData().taxHouseholds;
+      expect(validateTaxHouseholds(households, 2, 1)).toEqual({});
+    });
+
+    it('requires every member in exactly one household', () => {
+      const households = createSeparateTaxHouseholds(2, 1).map(h => ({ ...h, childIndexes: [], annualIncome: 1000 }));
+      expect(validateTaxHouseholds(households, 2, 1).taxHouseholds).toContain('child 1');
+    });
+
+    it('requires an adult filer and income for secondary households', () => {
+      const households = addTaxHousehold(createSeparateTaxHouseholds(2, 0));
+      const errors = validateTaxHouseholds(households, 2, 0);
+
+      expect(errors.taxHousehold1Income).toBeDefined();
+      expect(errors.taxHousehold2).toContain('at least one adult');
+    });
+  });
+
+  describe('analyzeTaxHouseholdSubsidies', () => {
+    it('calculates FPL and eligibility for each return', async () => {
+      const analysis = await analyzeTaxHouseholdSubsidies(createCoupleFormData(), ['NC']);
+
+      expect(analysis).not.toBeNull();
+      const [primary, partner] = analysis!.taxHouseholds;
+      expect(primary?.householdSize).toBe(2);
+      expect(partner?.householdSize).toBe(1);
+      expect(partner?.annualIncome).toBe(30000);
+      expect(primary?.fplPercentage).not.toBe(partner?.fplPercentage);
+      expect(analysis!.combined.estimatedMonthlySubsidy).toBeCloseTo(
+        (primary?.estimatedMonthlySubsidy ?? 0) + (partner?.estimatedMonthlySubsidy ?? 0),
+        2
+      );
+      expect(analysis!.combined.explanation).toContain('2 tax households');
+    });
+
+    it('marks households where everyone is 65+ as Medicare only', async () => {
+      const formData = createTestFormData({
+        numAdults: 2,
+        adultAges: [45, 70],
+        annualIncome: 50000,
+        taxHouseholds: [
+          { id: 'primary', label: 'Tax household 1', adultIndexes: [0], childIndexes: [], annualIncome: null },
+          { id: 'household-2', label: 'Tax household 2', adultIndexes: [1], childIndexes: [], annualIncome: 20000 },
+        ],
+      });
+
+      const analysis = await analyzeTaxHouseholdSubsidies(formData, ['NC']);
+      const medicare = analysis!.taxHouseholds[1];
+
+      expect(medicare?.medicareOnly).toBe(true);
+      expect(medicare?.estimatedMonthlySubsidy).toBe(0);
+      expect(analysis!.combined.estimatedIncome).toBe(50000);
+    });
+
+    it('falls back with a warning when the primary household is Medicare only', async () => {
+      const formData = createTestFormData({
+        numAdults: 2,
+        adultAges: [70, 40],
+        annualIncome: 30000,
+        taxHouseholds: [
+          { id: 'primary', label: 'Tax household 1', adultIndexes: [0], childIndexes: [], annualIncome: null },
+          { id: 'household-2', label: 'Tax household 2', adultIndexes: [1], childIndexes: [], annualIncome: 45000 },
+        ],
+      });
+
+      const analysis = await analyzeTaxHouseholdSubsidies(formData, ['NC']);
+      const [primary, partner] = analysis!.taxHouseholds;
+
+      expect(primary?.medicareOnly).toBe(true);
+      expect(analysis!.combined.fplPercentage).toBe(partner?.fplPercentage);
+      expect(analysis!.combined.actionItems[0]).toBe(
+        'Tax household 1 does not need marketplace coverage, so the household FPL shown is for Tax household 2.'
+      );
+    });
+
+    it('reports the primary household when it has a marketplace result', async () => {
+      const analysis = await analyzeTaxHouseholdSubsidies(createCoupleFormData(), ['NC']);
+
+      expect(analysis!.combined.fplPercentage).toBe(analysis!.taxHouseholds[0]?.fplPercentage);
+      expect(analysis!.combined.actionItems.some(item => item.includes('does not need marketplace coverage'))).toBe(false);
+    });
+  });
+
+  describe('analyzeInsurance with separate tax households', () => {
+    it('attaches per-household results to the subsidy analysis', async () => {
+      const result = await analyzeInsurance(createCoupleFormData());
+
+      expect(result.subsidyAnalysis?.taxHouseholds).toHaveLength(2);
+      expect(result.subsidyAnalysis?.explanation).toContain('tax households');
+    });
+
+    it('does not treat the residence as Medicaid eligible unless every household is', async () => {
+      // Primary household is near the poverty line, partner is well above it
+      const formData = { ...createCoupleFormData(90000), annualIncome: 15000 };
+      const result = await analyzeInsurance(formData);
+
+      const [primary, partner] = result.subsidyAnalysis!.taxHouseholds!;
+      expect(primary?.medicaidEligible).toBe(true);
+      expect(partner?.medicaidEligible).toBe(false);
+      expect(result.subsidyAnalysis?.medicaidEligible).toBe(false);
+    });
+
+    it('omits per-household results when no split is given', async () => {
+      const formData = createTestFormData({ annualIncome: 40000 });
+      const result = await analyzeInsurance(formData);
+
+      expect(result.subsidyAnalysis?.taxHouseholds).toBeUndefined();
+    });
+  });
+});
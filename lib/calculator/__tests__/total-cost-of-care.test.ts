@@ -12,7 +12,9 @@ import {
   generateTCCRecommendations,
   ACTUARIAL_VALUES,
   TYPICAL_COST_SHARING,
+  getCostSharingStructure,
 } from '../total-cost-of-care';
+import { CSR_SILVER_VARIANTS } from '../csr-variants';
 
 describe('Total Cost of Care Model', () => {
   describe('getExpectedAnnualCosts', () => {
@@ -452,6 +454,40 @@ describe('Total Cost of Care Model', () => {
     });
   });
 
+  describe('Cost-Sharing Reductions', () => {
+    test('uses the CSR variant for Silver only', () => {
+      expect(getCostSharingStructure('Silver', '87%')).toBe(CSR_SILVER_VARIANTS['87%']);
+      expect(getCostSharingStructure('Bronze', '87%')).toBe(TYPICAL_COST_SHARING.Bronze);
+      expect(getCostSharingStructure('Silver')).toBe(TYPICAL_COST_SHARING.Silver);
+    });
+
+    test('CSR variants lower Silver out-of-pocket costs', () => {
+      const standard = calculateOutOfPocketCosts('Silver', 'high', 15000);
+      const csr73 = calculateOutOfPocketCosts('Silver', 'high', 15000, '73%');
+      const csr94 = calculateOutOfPocketCosts('Silver', 'high', 15000, '94%');
+
+      expect(csr73.estimatedOOP).toBeLessThan(standard.estimatedOOP);
+      expect(csr94.estimatedOOP).toBeLessThan(csr73.estimatedOOP);
+      expect(csr94.estimatedOOP).toBeLessThanOrEqual(CSR_SILVER_VARIANTS['94%'].oopMaximum);
+    });
+
+    test('CSR Silver beats Bronze at similar net premiums', () => {
+      const premiums = { Catastrophic: 0, Bronze: 0, Silver: 40, Gold: 150, Platinum: 300 };
+      const standard = analyzeTotalCostOfCare(premiums, 8000, 'medium');
+      const withCSR = analyzeTotalCostOfCare(premiums, 8000, 'medium', '94%');
+      const silver = withCSR.find(a => a.metalTier === 'Silver');
+
+      expect(silver?.csrLevel).toBe('94%');
+      expect(silver?.deductible).toBe(CSR_SILVER_VARIANTS['94%'].deductible);
+      expect(withCSR.find(a => a.metalTier === 'Bronze')?.csrLevel).toBeUndefined();
+      expect(withCSR[0]?.metalTier).toBe('Silver');
+      expect(standard[0]?.metalTier).not.toBe('Silver');
+
+      const recommendations = generateTCCRecommendations(withCSR, 'medium');
+      expect(recommendations.some(r => r.includes('cost-sharing reductions'))).toBe(true);
+    });
+  });
+
   describe('Actuarial Value Validation', () => {
     test('actuarial values are correct', () => {
       expect(ACTUARIAL_VALUES.Bronze).toBe(0.60);
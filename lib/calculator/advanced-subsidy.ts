@@ -4,7 +4,7 @@
  *
  * Implements:
  * - MAGI (Modified Adjusted Gross Income) calculation guidance
- * - IRA 2022 enhanced Premium Tax Credits (no 400% cliff)
+ * - Plan-year FPL and applicable-percentage tables (2024-2026, incl. the 2026 400% cliff)
  * - Cost-Sharing Reductions (CSR) eligibility
  * - Medicaid expansion detection
  * - Coverage gap identification
@@ -12,39 +12,28 @@
  * - Tax reconciliation warnings
  */
 
+import {
+  DEFAULT_PLAN_YEAR,
+  PLAN_YEAR_RULES,
+  getPlanYearRules,
+  getPovertyGuideline,
+  getFlatApplicablePercentage,
+  isAboveSubsidyCliff,
+} from './plan-year-rules';
+
 /**
- * Federal Poverty Level (FPL) Data
- * Source: HHS Poverty Guidelines (updated annually)
+ * Federal Poverty Level (FPL) Data for plan year 2025
+ * Source: HHS Poverty Guidelines (see plan-year-rules.ts for other years)
  */
-export const FPL_2025 = {
-  // Contiguous 48 states + DC
-  BASE: 15060,
-  PER_ADDITIONAL_PERSON: 5450,
-
-  // Alaska (higher)
-  ALASKA_BASE: 18840,
-  ALASKA_PER_ADDITIONAL: 6810,
-
-  // Hawaii (higher)
-  HAWAII_BASE: 17310,
-  HAWAII_PER_ADDITIONAL: 6270,
-};
+export const FPL_2025 = PLAN_YEAR_RULES[2025].fpl;
 
 /**
  * Calculate Federal Poverty Level for household
+ *
+ * @param planYear - Marketplace plan year whose poverty guidelines apply (defaults to 2025)
  */
-export function calculateFPL(householdSize: number, state?: string): number {
-  const size = Math.max(1, Math.floor(householdSize));
-
-  if (state === 'AK') {
-    return FPL_2025.ALASKA_BASE + (size - 1) * FPL_2025.ALASKA_PER_ADDITIONAL;
-  }
-
-  if (state === 'HI') {
-    return FPL_2025.HAWAII_BASE + (size - 1) * FPL_2025.HAWAII_PER_ADDITIONAL;
-  }
-
-  return FPL_2025.BASE + (size - 1) * FPL_2025.PER_ADDITIONAL_PERSON;
+export function calculateFPL(householdSize: number, state?: string, planYear: number = DEFAULT_PLAN_YEAR): number {
+  return getPovertyGuideline(householdSize, state, planYear);
 }
 
 /**
@@ -72,34 +61,23 @@ export const NON_EXPANSION_STATES = new Set([
  *
  * Table shows % of income that household must contribute toward benchmark plan
  */
-export const PTC_AFFORDABILITY_TABLE_2025 = [
-  { fplMin: 0,   fplMax: 150,  percentage: 0.00 },   // 0% (free after subsidy)
-  { fplMin: 150, fplMax: 200,  percentage: 0.00 },   // 0-2% sliding scale (simplified to 0%)
-  { fplMin: 200, fplMax: 250,  percentage: 0.02 },   // 2-4% sliding scale (use midpoint)
-  { fplMin: 250, fplMax: 300,  percentage: 0.04 },   // 4-6% sliding scale
-  { fplMin: 300, fplMax: 350,  percentage: 0.06 },   // 6-8% sliding scale
-  { fplMin: 350, fplMax: 400,  percentage: 0.08 },   // 8-8.5% sliding scale
-  { fplMin: 400, fplMax: 99999, percentage: 0.085 }, // 8.5% (no cliff, continues above 400%)
-];
+export const PTC_AFFORDABILITY_TABLE_2025 = PLAN_YEAR_RULES[2025].applicablePercentages.map(band => ({
+  fplMin: band.fplMin,
+  fplMax: band.fplMax,
+  percentage: band.flatPercentage,
+}));
 
 /**
  * Get affordability percentage based on FPL percentage
- * Uses IRA 2022 enhanced table (no 400% cliff)
+ * Resolves the plan year's applicable-percentage table (2025: IRA 2022 enhanced, no 400% cliff)
  */
-export function getAffordabilityPercentage(fplPercentage: number): number {
+export function getAffordabilityPercentage(fplPercentage: number, planYear: number = DEFAULT_PLAN_YEAR): number {
   // Handle edge case: 0% FPL
   if (fplPercentage <= 0) {
     return 0.00;
   }
 
-  for (const row of PTC_AFFORDABILITY_TABLE_2025) {
-    if (fplPercentage > row.fplMin && fplPercentage <= row.fplMax) {
-      return row.percentage;
-    }
-  }
-
-  // Above 400% FPL, capped at 8.5%
-  return 0.085;
+  return getFlatApplicablePercentage(fplPercentage, planYear);
 }
 
 /**
@@ -196,6 +174,9 @@ export function calculateMAGI(components: Partial<MAGIComponents>): number {
  * Subsidy Calculation Result
  */
 export interface SubsidyCalculation {
+  // Rules applied
+  planYear: number;
+
   // Income analysis
   magi: number;
   fpl: number;
@@ -233,6 +214,7 @@ export interface SubsidyCalculation {
  * @param state - Primary state (for FPL and Medicaid)
  * @param slcspPremium - Second Lowest Cost Silver Plan premium (monthly)
  * @param metalTier - Plan metal tier (for CSR calculation)
+ * @param planYear - Marketplace plan year whose FPL and applicable-percentage tables apply
  * @returns Complete subsidy analysis
  */
 export function calculatePremiumTaxCredit(
@@ -240,13 +222,15 @@ export function calculatePremiumTaxCredit(
   householdSize: number,
   state: string,
   slcspPremium: number,
-  metalTier?: string
+  metalTier?: string,
+  planYear: number = DEFAULT_PLAN_YEAR
 ): SubsidyCalculation {
   const warnings: string[] = [];
   const recommendations: string[] = [];
+  const rules = getPlanYearRules(planYear);
 
   // Calculate FPL
-  const fpl = calculateFPL(householdSize, state);
+  const fpl = calculateFPL(householdSize, state, rules.planYear);
   const fplPercentage = (magi / fpl) * 100;
 
   // Determine Medicaid eligibility
@@ -260,13 +244,15 @@ export function calculatePremiumTaxCredit(
   // Premium Tax Credit eligibility
   // PTC available for income 138%+ FPL (or 100%+ in non-expansion if above gap)
   // In practice, PTC is designed to start at 138% FPL in all states
-  const ptcEligible = fplPercentage >= 138 && !medicaidEligible;
+  // Without enhanced credits, nothing is available above the 400% cliff
+  const aboveCliff = isAboveSubsidyCliff(fplPercentage, rules.planYear);
+  const ptcEligible = fplPercentage >= 138 && !medicaidEligible && !aboveCliff;
 
   // CSR level
   const csrLevel = getCSRLevel(fplPercentage, metalTier);
 
   // Calculate affordability percentage
-  const affordabilityPercentage = getAffordabilityPercentage(fplPercentage);
+  const affordabilityPercentage = getAffordabilityPercentage(fplPercentage, rules.planYear);
 
   // Calculate PTC
   const maxContribution = (magi / 12) * affordabilityPercentage;
@@ -278,7 +264,12 @@ export function calculatePremiumTaxCredit(
   const afterSubsidyCostHigh = Math.max(0, slcspPremium * 1.30 - monthlyPTC); // Gold approximation
 
   // Generate warnings
-  if (fplPercentage > 400) {
+  if (aboveCliff) {
+    warnings.push(
+      `Your income exceeds ${rules.subsidyCliffFPL}% FPL ($${Math.round(fpl * (rules.subsidyCliffFPL ?? 400) / 100).toLocaleString()}). ` +
+      `Enhanced subsidies are not available for plan year ${rules.planYear}, so you do not qualify for premium tax credits.`
+    );
+  } else if (fplPercentage > 400) {
     warnings.push(
       `Your income exceeds 400% FPL ($${Math.round(fpl * 4).toLocaleString()}), but you still qualify for subsidies capped at 8.5% of income (IRA 2022 enhancement).`
     );
@@ -349,6 +340,7 @@ export function calculatePremiumTaxCredit(
   }
 
   return {
+    planYear: rules.planYear,
     magi,
     fpl,
     fplPercentage: Math.round(fplPercentage * 10) / 10,
@@ -381,7 +373,7 @@ export interface FamilyGlitchAnalysis {
   familyCanGetSubsidies: boolean;
   employerSelfOnlyCost: number;
   employerFamilyCost: number;
-  affordabilityThreshold: number;   // 8.39% of income (2024 rate)
+  affordabilityThreshold: number;   // Monthly dollars (plan year's % of income)
   explanation: string;
 }
 
@@ -391,17 +383,19 @@ export interface FamilyGlitchAnalysis {
  * @param magi - Household MAGI
  * @param employerSelfOnlyCost - Monthly cost for employee-only coverage
  * @param employerFamilyCost - Monthly cost for family coverage
+ * @param planYear - Plan year whose employer affordability percentage applies
  * @returns Family glitch analysis
  */
 export function analyzeFamilyGlitch(
   magi: number,
   employerSelfOnlyCost: number,
-  employerFamilyCost: number
+  employerFamilyCost: number,
+  planYear: number = DEFAULT_PLAN_YEAR
 ): FamilyGlitchAnalysis {
-  const AFFORDABILITY_THRESHOLD_2025 = 0.0839; // 8.39% for 2025 (updated annually)
+  const { employerAffordabilityThreshold } = getPlanYearRules(planYear);
 
   const monthlyIncome = magi / 12;
-  const affordabilityThreshold = monthlyIncome * AFFORDABILITY_THRESHOLD_2025;
+  const affordabilityThreshold = monthlyIncome * employerAffordabilityThreshold;
 
   const employerSelfOnlyAffordable = employerSelfOnlyCost <= affordabilityThreshold;
   const employerFamilyAffordable = employerFamilyCost <= affordabilityThreshold;
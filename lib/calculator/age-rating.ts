@@ -5,6 +5,8 @@
  * Based on CMS age curve data and state-specific multipliers
  */
 
+import { getPlanYearRules } from './plan-year-rules';
+
 /**
  * ACA Age Rating Curve (ages 21-64)
  * Source: CMS Market Rating Reforms - https://www.cms.gov/cciio/resources/regulations-and-guidance
@@ -377,10 +379,49 @@ export const ESTIMATED_STATE_BASE_RATES: Record<string, number> = {
 };
 
 /**
- * Get estimated base rate for a state
+ * Base rates derived from imported CMS rate data, keyed by state and plan
+ * year. Stored divided by the geographic index so calculateAgeRatedPremium
+ * reproduces the imported age-21 Silver premium.
+ */
+const importedStateBaseRates = new Map<string, number>();
+
+function importedRateKey(state: string, planYear?: number): string {
+  return `${state}:${getPlanYearRules(planYear).planYear}`;
+}
+
+/**
+ * Register base rates from imported plan data (average age-21 Silver premium)
+ * for a plan year
+ */
+export function setImportedStateBaseRates(rates: Record<string, number>, planYear?: number): void {
+  for (const [state, rate] of Object.entries(rates)) {
+    if (rate > 0) {
+      importedStateBaseRates.set(importedRateKey(state, planYear), rate / (GEOGRAPHIC_COST_INDEX[state] ?? 1.000));
+    }
+  }
+}
+
+/**
+ * Forget imported base rates (estimates are used again)
+ */
+export function clearImportedStateBaseRates(): void {
+  importedStateBaseRates.clear();
+}
+
+/**
+ * Where a state's base rate for a plan year comes from
  */
-export function getStateBaseRate(state: string): number {
-  return ESTIMATED_STATE_BASE_RATES[state] ?? 410; // Default to national average
+export function getStateBaseRateSource(state: string, planYear?: number): 'imported' | 'estimate' {
+  return importedStateBaseRates.has(importedRateKey(state, planYear)) ? 'imported' : 'estimate';
+}
+
+/**
+ * Get base rate for a state, preferring imported CMS rate data for the plan year
+ */
+export function getStateBaseRate(state: string, planYear?: number): number {
+  return importedStateBaseRates.get(importedRateKey(state, planYear))
+    ?? ESTIMATED_STATE_BASE_RATES[state]
+    ?? 410; // Default to national average
 }
 
 /**
@@ -390,9 +431,10 @@ export function calculatePremiumForState(
   age: number,
   state: string,
   metalTier: MetalTier = 'Silver',
-  usesTobacco: boolean = false
+  usesTobacco: boolean = false,
+  planYear?: number
 ): number {
-  const baseRate = getStateBaseRate(state);
+  const baseRate = getStateBaseRate(state, planYear);
   return calculateAgeRatedPremium(baseRate, age, state, metalTier, usesTobacco);
 }
 
@@ -404,14 +446,15 @@ export function getHouseholdPremiumRange(
   adults: number[],
   children: number[],
   state: string,
-  tobaccoUsers: boolean[] = []
+  tobaccoUsers: boolean[] = [],
+  planYear?: number
 ): {
   bronze: number;
   silver: number;
   gold: number;
   platinum: number;
 } {
-  const baseRate = getStateBaseRate(state);
+  const baseRate = getStateBaseRate(state, planYear);
 
   return {
     bronze: calculateHouseholdPremium(baseRate, adults, children, state, 'Bronze', tobaccoUsers),
@@ -291,6 +291,23 @@ describe('Break-Even Calculator', () => {
     });
   });
 
+  describe('createPlanFromTier with CSR', () => {
+    it('should use CSR variant cost sharing for Silver', () => {
+      const plan = createPlanFromTier('My Silver', 'Silver', 400, '94%');
+
+      expect(plan.deductible).toBe(75);
+      expect(plan.outOfPocketMax).toBe(1200);
+      expect(plan.csrLevel).toBe('94%');
+    });
+
+    it('should ignore CSR for other tiers', () => {
+      const plan = createPlanFromTier('My Gold', 'Gold', 550, '94%');
+
+      expect(plan.deductible).toBe(1500);
+      expect(plan.csrLevel).toBeUndefined();
+    });
+  });
+
   describe('quickCompare', () => {
     it('should compare two metal tiers', () => {
       const result = quickCompare('Bronze', 250, 'Gold', 500);
@@ -306,6 +323,17 @@ describe('Break-Even Calculator', () => {
       expect(result.plan1.metalTier).toBe('HDHP');
       expect(result.plan2.metalTier).toBe('Silver');
     });
+
+    it('should compare Silver as its CSR variant', () => {
+      const standard = quickCompare('Bronze', 0, 'Silver', 40);
+      const withCSR = quickCompare('Bronze', 0, 'Silver', 40, '87%');
+
+      expect(withCSR.plan1.csrLevel).toBeUndefined();
+      expect(withCSR.plan2.csrLevel).toBe('87%');
+      expect(withCSR.plan2.outOfPocketMax).toBeLessThan(standard.plan2.outOfPocketMax);
+      expect(withCSR.analysis.planStrengths.plan2).toContain('Cost-sharing reductions (87% actuarial value)');
+      expect(withCSR.breakEvenPoint!).toBeLessThan(standard.breakEvenPoint ?? Infinity);
+    });
   });
 
   describe('edge cases', () => {
@@ -5,6 +5,9 @@
  * to help users understand when one plan becomes more cost-effective.
  */
 
+import type { CSRLevel } from '../advanced-subsidy';
+import { appliesCSR, getCSRVariant } from '../csr-variants';
+
 // Types
 export interface PlanDetails {
   /** Plan name */
@@ -19,6 +22,8 @@ export interface PlanDetails {
   outOfPocketMax: number;
   /** Plan metal tier (optional) */
   metalTier?: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'HDHP';
+  /** Cost-sharing reduction variant (Silver only) */
+  csrLevel?: CSRLevel;
 }
 
 export interface CostAtUtilization {
@@ -217,6 +222,16 @@ export function analyzeBreakEven(
     insights.push(`${plan2.name} has a $${plan1.deductible - plan2.deductible} lower deductible`);
   }
 
+  // Cost-sharing reductions (CSR Silver variants)
+  if (appliesCSR(plan1.metalTier, plan1.csrLevel)) {
+    plan1Strengths.push(`Cost-sharing reductions (${plan1.csrLevel} actuarial value)`);
+    insights.push(`${plan1.name} includes ${plan1.csrLevel} cost-sharing reductions at the standard Silver premium`);
+  }
+  if (appliesCSR(plan2.metalTier, plan2.csrLevel)) {
+    plan2Strengths.push(`Cost-sharing reductions (${plan2.csrLevel} actuarial value)`);
+    insights.push(`${plan2.name} includes ${plan2.csrLevel} cost-sharing reductions at the standard Silver premium`);
+  }
+
   // OOP max comparison
   if (plan1.outOfPocketMax < plan2.outOfPocketMax) {
     plan1Strengths.push('Lower out-of-pocket maximum');
@@ -330,11 +345,13 @@ export function compareBreakEven(
 
 /**
  * Create plan details from common plan types
+ * Silver uses the CSR variant's cost sharing when a CSR level is given
  */
 export function createPlanFromTier(
   name: string,
   tier: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'HDHP',
-  monthlyPremium: number
+  monthlyPremium: number,
+  csrLevel: CSRLevel = 'None'
 ): PlanDetails {
   type TierType = 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'HDHP';
   const tierDefaults: Record<TierType, Omit<PlanDetails, 'name' | 'monthlyPremium'>> = {
@@ -345,6 +362,19 @@ export function createPlanFromTier(
     HDHP: { deductible: 3200, coinsurance: 0.2, outOfPocketMax: 8050, metalTier: 'HDHP' },
   };
 
+  const variant = appliesCSR(tier, csrLevel) ? getCSRVariant(csrLevel) : null;
+  if (variant) {
+    return {
+      name,
+      monthlyPremium,
+      deductible: variant.deductible,
+      coinsurance: variant.coinsurance,
+      outOfPocketMax: variant.oopMaximum,
+      metalTier: 'Silver',
+      csrLevel: variant.level,
+    };
+  }
+
   return {
     name,
     monthlyPremium,
@@ -354,15 +384,17 @@ export function createPlanFromTier(
 
 /**
  * Quick comparison of common plan tier matchups
+ * The household's CSR level applies to whichever plan is Silver
  */
 export function quickCompare(
   tier1: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'HDHP',
   premium1: number,
   tier2: 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'HDHP',
-  premium2: number
+  premium2: number,
+  csrLevel: CSRLevel = 'None'
 ): BreakEvenResult {
-  const plan1 = createPlanFromTier(`${tier1} Plan`, tier1, premium1);
-  const plan2 = createPlanFromTier(`${tier2} Plan`, tier2, premium2);
+  const plan1 = createPlanFromTier(`${tier1} Plan`, tier1, premium1, csrLevel);
+  const plan2 = createPlanFromTier(`${tier2} Plan`, tier2, premium2, csrLevel);
 
   return compareBreakEven(plan1, plan2);
 }
@@ -0,0 +1,272 @@
+/**
+ * Medicaid Coverage Gap Analysis
+ *
+ * In states that have not expanded Medicaid, adults below 100% FPL usually
+ * earn too much for their state's Medicaid program but too little for
+ * premium tax credits, which start at 100% FPL. This module identifies
+ * those adults and prices the ways out of the gap:
+ * - Legitimately projecting income above 100% FPL (self-employment, spouse work)
+ * - Employer ICHRA reimbursement, which does not depend on FPL
+ * - Community health centers and hospital charity care
+ */
+
+import type { CoverageGapAnalysis, CoverageGapPath } from '@/types';
+import { calculatePremiumForState } from './age-rating';
+import { determineMedicaidEligibility } from './medicaid-eligibility';
+import { getApplicablePercentage, getPlanYearRules } from './plan-year-rules';
+
+/** Self-employment tax on net earnings (92.35% of net profit taxed at 15.3%) */
+const SE_TAX_RATE = 0.153;
+const SE_EARNINGS_FACTOR = 0.9235;
+
+/** Employee share of Social Security and Medicare */
+const FICA_RATE = 0.0765;
+
+/** Typical ICHRA allowance when the employer amount is unknown (self-only, monthly) */
+const TYPICAL_ICHRA_MONTHLY_ALLOWANCE = 450;
+
+/** Community health center sliding-fee assumptions below 100% FPL */
+const CHC_VISITS_PER_ADULT = 4;
+const CHC_NOMINAL_FEE = 30;
+const UNINSURED_VISIT_COST = 150;
+
+/** Expected annual hospital cost for an uninsured adult (probability-weighted) */
+const EXPECTED_UNINSURED_HOSPITAL_COST = 1500;
+
+export interface CoverageGapInput {
+  state: string;
+  /** Projected household MAGI */
+  annualIncome: number;
+  /** Tax household size (defaults to adults + children) */
+  householdSize?: number;
+  adultAges: number[];
+  childAges?: number[];
+  planYear?: number;
+  /** Household has (or could start) self-employment income */
+  hasSelfEmploymentIncome?: boolean;
+  /** Another adult could take on work */
+  hasAdditionalEarner?: boolean;
+  /** Employer offers an ICHRA */
+  hasICHRAOffer?: boolean;
+  /** ICHRA monthly allowance, when known */
+  ichraMonthlyAllowance?: number;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analyze the Medicaid coverage gap and price each remediation path
+ */
+export function analyzeCoverageGap(input: CoverageGapInput): CoverageGapAnalysis {
+  const childAges = input.childAges ?? [];
+  const rules = getPlanYearRules(input.planYear);
+  const warnings: string[] = [];
+
+  const eligibility = determineMedicaidEligibility({
+    state: input.state,
+    householdSize: input.householdSize ?? input.adultAges.length + childAges.length,
+    annualMAGI: input.annualIncome,
+    members: [
+      ...input.adultAges.map((age, i) => ({ id: `adult-${i + 1}`, age })),
+      ...childAges.map((age, i) => ({ id: `child-${i + 1}`, age })),
+    ],
+    planYear: rules.planYear,
+  });
+
+  const gapAdults = eligibility.members.filter(m => m.program === 'coverage-gap');
+  const base = {
+    state: eligibility.state,
+    planYear: rules.planYear,
+    fplPercentage: eligibility.fplPercent,
+    povertyGuideline: eligibility.povertyGuideline,
+  };
+
+  if (gapAdults.length === 0) {
+    return {
+      ...base,
+      inCoverageGap: false,
+      incomeNeededForSubsidy: 0,
+      adultsInGap: 0,
+      annualBenchmarkPremium: 0,
+      paths: [],
+      warnings,
+    };
+  }
+
+  const incomeNeeded = round(Math.max(0, eligibility.povertyGuideline - input.annualIncome));
+  const annualBenchmarkPremium = round(
+    gapAdults.reduce((total, m) => total + calculatePremiumForState(m.age, eligibility.state, 'Silver', false, rules.planYear), 0) * 12
+  );
+
+  // Premium tax credit once projected income reaches 100% FPL
+  const expectedContribution = eligibility.povertyGuideline * getApplicablePercentage(100, rules.planYear);
+  const annualPTCAt100 = round(Math.max(0, annualBenchmarkPremium - expectedContribution));
+
+  const paths: CoverageGapPath[] = [
+    buildSelfEmploymentPath(input, incomeNeeded, annualPTCAt100),
+    buildAdditionalWagesPath(input, incomeNeeded, annualPTCAt100),
+    buildICHRAPath(input, gapAdults.length, annualBenchmarkPremium),
+    buildCommunityHealthCenterPath(gapAdults.length),
+    buildCharityCarePath(gapAdults.length),
+  ].sort((a, b) => b.netAnnualImpact - a.netAnnualImpact);
+
+  const recommended = paths.find(p => p.feasibility !== 'low' && p.netAnnualImpact > 0);
+
+  if (eligibility.members.some(m => m.program === 'medicaid' || m.program === 'chip')) {
+    warnings.push('Children in the household likely qualify for Medicaid or CHIP even though the adults do not.');
+  }
+
+  if (incomeNeeded > eligibility.povertyGuideline * 0.5) {
+    warnings.push(
+      `Your income would need to rise by $${incomeNeeded.toLocaleString()}, more than half the poverty line. Only project income you realistically expect to earn.`
+    );
+  }
+
+  warnings.push(
+    'If you project income above 100% FPL in good faith and end the year below it, you keep your premium tax credit. Knowingly overstating income can require repayment.'
+  );
+
+  return {
+    ...base,
+    inCoverageGap: true,
+    incomeNeededForSubsidy: incomeNeeded,
+    adultsInGap: gapAdults.length,
+    annualBenchmarkPremium,
+    paths,
+    recommendedPathId: recommended?.id,
+    warnings,
+  };
+}
+
+// ============================================================================
+// REMEDIATION PATHS
+// ============================================================================
+
+function buildSelfEmploymentPath(
+  input: CoverageGapInput,
+  incomeNeeded: number,
+  annualPTC: number
+): CoverageGapPath {
+  // Net profit must cover the shortfall; SE tax is owed on it
+  const annualCost = round(incomeNeeded * SE_EARNINGS_FACTOR * SE_TAX_RATE);
+
+  return withNetImpact({
+    id: 'self-employment-income',
+    title: 'Project self-employment income above 100% FPL',
+    description:
+      `Earning $${incomeNeeded.toLocaleString()} more in net self-employment profit (gig work, side business) ` +
+      `raises income to 100% FPL, unlocking premium tax credits and 94% cost-sharing reductions on Silver plans.`,
+    feasibility: input.hasSelfEmploymentIncome ? 'high' : 'medium',
+    additionalIncomeRequired: incomeNeeded,
+    annualCost,
+    annualBenefit: annualPTC,
+    requirements: [
+      'Income must be a reasonable, good-faith projection',
+      'Keep records of business income and expenses',
+      'Self-employment tax is due on net earnings over $400',
+    ],
+  });
+}
+
+function buildAdditionalWagesPath(
+  input: CoverageGapInput,
+  incomeNeeded: number,
+  annualPTC: number
+): CoverageGapPath {
+  const hasSecondAdult = input.hasAdditionalEarner ?? input.adultAges.length > 1;
+
+  return withNetImpact({
+    id: 'additional-wages',
+    title: hasSecondAdult ? 'Spouse or partner takes on paid work' : 'Work additional hours',
+    description:
+      `Another $${incomeNeeded.toLocaleString()} in household wages brings the tax household to 100% FPL. ` +
+      `Only payroll taxes reduce the gain at this income level.`,
+    feasibility: hasSecondAdult ? 'medium' : 'low',
+    additionalIncomeRequired: incomeNeeded,
+    annualCost: round(incomeNeeded * FICA_RATE),
+    annualBenefit: annualPTC,
+    requirements: [
+      'Spouses must file jointly to claim the premium tax credit',
+      'Report the new income to the Marketplace when you apply',
+    ],
+  });
+}
+
+function buildICHRAPath(
+  input: CoverageGapInput,
+  adultsInGap: number,
+  annualBenchmarkPremium: number
+): CoverageGapPath {
+  const allowance = input.ichraMonthlyAllowance ?? TYPICAL_ICHRA_MONTHLY_ALLOWANCE * adultsInGap;
+  const annualBenefit = round(Math.min(allowance * 12, annualBenchmarkPremium));
+
+  return withNetImpact({
+    id: 'ichra',
+    title: 'Individual coverage HRA (ICHRA) from an employer',
+    description:
+      'An ICHRA reimburses individual-market premiums regardless of income, so it works below 100% FPL. ' +
+      (input.ichraMonthlyAllowance !== undefined
+        ? `Your $${input.ichraMonthlyAllowance}/month allowance covers most of a benchmark plan.`
+        : 'Ask employers whether they offer one; the estimate uses a typical allowance.'),
+    feasibility: input.hasICHRAOffer ? 'high' : 'low',
+    additionalIncomeRequired: 0,
+    annualCost: 0,
+    annualBenefit,
+    requirements: [
+      'Employer must offer an ICHRA',
+      'Enroll in an individual-market plan within 60 days of the offer',
+    ],
+  });
+}
+
+function buildCommunityHealthCenterPath(adultsInGap: number): CoverageGapPath {
+  const visits = CHC_VISITS_PER_ADULT * adultsInGap;
+
+  return withNetImpact({
+    id: 'community-health-center',
+    title: 'Community health center sliding-fee care',
+    description:
+      'Federally qualified health centers charge a nominal fee below 100% FPL for primary care, ' +
+      'prescriptions, dental and behavioral health.',
+    feasibility: 'high',
+    additionalIncomeRequired: 0,
+    annualCost: visits * CHC_NOMINAL_FEE,
+    annualBenefit: visits * UNINSURED_VISIT_COST,
+    requirements: [
+      'Find a center at findahealthcenter.hrsa.gov',
+      'Bring proof of income to qualify for the sliding fee',
+    ],
+  });
+}
+
+function buildCharityCarePath(adultsInGap: number): CoverageGapPath {
+  return withNetImpact({
+    id: 'charity-care',
+    title: 'Hospital financial assistance (charity care)',
+    description:
+      'Nonprofit hospitals must offer financial assistance policies; most forgive bills in full below 200% FPL. ' +
+      'This covers hospital care only, not ongoing treatment.',
+    feasibility: 'high',
+    additionalIncomeRequired: 0,
+    annualCost: 0,
+    annualBenefit: EXPECTED_UNINSURED_HOSPITAL_COST * adultsInGap,
+    requirements: [
+      'Apply to each hospital\'s financial assistance program after care',
+      'Request the plain-language summary of the policy',
+    ],
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function withNetImpact(path: Omit<CoverageGapPath, 'netAnnualImpact'>): CoverageGapPath {
+  return { ...path, netAnnualImpact: round(path.annualBenefit - path.annualCost) };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
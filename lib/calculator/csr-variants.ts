@@ -0,0 +1,88 @@
+/**
+ * Cost-Sharing Reduction (CSR) Silver Plan Variants
+ *
+ * Households between 100% and 250% FPL who enroll in Silver receive a
+ * CSR variant of the plan: same premium, lower deductible and MOOP.
+ * These structures are the single source for CSR cost sharing used by the
+ * total-cost-of-care, break-even, comparison and simulation calculators.
+ *
+ * MOOP limits: 2025 CMS Notice of Benefit and Payment Parameters
+ * ($3,050 self-only for 94%/87%, $7,350 for 73%). Deductibles and copays
+ * are typical healthcare.gov values for each variant.
+ */
+
+import type { CSRLevel } from './advanced-subsidy';
+import type { CostSharingStructure } from './total-cost-of-care';
+
+export type CSRVariantLevel = Exclude<CSRLevel, 'None'>;
+
+export interface CSRVariant extends CostSharingStructure {
+  level: CSRVariantLevel;
+  /** Actuarial value of the variant (standard Silver is 0.70) */
+  actuarialValue: number;
+  /** Coinsurance after deductible (e.g., 0.1 for 10%) */
+  coinsurance: number;
+}
+
+export const CSR_SILVER_VARIANTS: Record<CSRVariantLevel, CSRVariant> = {
+  '94%': {
+    level: '94%',
+    actuarialValue: 0.94,
+    deductible: 75,
+    oopMaximum: 1200,
+    primaryCareCopay: 5,
+    specialistCopay: 10,
+    emergencyRoomCopay: 100,
+    genericRxCopay: 3,
+    brandRxCopay: 15,
+    coinsurance: 0.1,
+  },
+  '87%': {
+    level: '87%',
+    actuarialValue: 0.87,
+    deductible: 700,
+    oopMaximum: 3050,
+    primaryCareCopay: 15,
+    specialistCopay: 30,
+    emergencyRoomCopay: 250,
+    genericRxCopay: 5,
+    brandRxCopay: 25,
+    coinsurance: 0.15,
+  },
+  '73%': {
+    level: '73%',
+    actuarialValue: 0.73,
+    deductible: 4000,
+    oopMaximum: 7350,
+    primaryCareCopay: 30,
+    specialistCopay: 60,
+    emergencyRoomCopay: 400,
+    genericRxCopay: 15,
+    brandRxCopay: 45,
+    coinsurance: 0.25,
+  },
+};
+
+/**
+ * Get the Silver variant for a CSR level (null for standard Silver)
+ */
+export function getCSRVariant(csrLevel: CSRLevel | undefined): CSRVariant | null {
+  if (!csrLevel || csrLevel === 'None') {
+    return null;
+  }
+  return CSR_SILVER_VARIANTS[csrLevel];
+}
+
+/**
+ * Whether a metal tier gets the household's CSR variant (Silver only)
+ */
+export function appliesCSR(metalTier: string | undefined, csrLevel: CSRLevel | undefined): boolean {
+  return metalTier?.toLowerCase() === 'silver' && getCSRVariant(csrLevel) !== null;
+}
+
+/**
+ * Short label for a CSR variant, e.g. 'Silver 87% CSR'
+ */
+export function getCSRVariantLabel(csrLevel: CSRLevel | undefined): string {
+  return getCSRVariant(csrLevel) ? `Silver ${csrLevel} CSR` : 'Silver';
+}
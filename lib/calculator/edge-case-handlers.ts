@@ -13,6 +13,8 @@
  * Professional-grade handling of real-world scenarios.
  */
 
+import { getPovertyGuideline } from './plan-year-rules';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -489,7 +491,7 @@ export function analyzeIncomeVolatility(params: {
     currentIncome,
     projectedIncome,
     householdSize,
-    state: _state,
+    state,
     currentMonthlyPremium: _currentMonthlyPremium,
     currentMonthlyPTC,
     monthsRemaining,
@@ -498,10 +500,7 @@ export function analyzeIncomeVolatility(params: {
   const incomeChange = projectedIncome - currentIncome;
   const percentageChange = currentIncome > 0 ? (incomeChange / currentIncome) * 100 : 0;
 
-  // Calculate FPL (simplified - would use actual FPL calculator)
-  const baseFPL = 15060;
-  const perPersonFPL = 5450;
-  const fpl = baseFPL + (householdSize - 1) * perPersonFPL;
+  const fpl = getPovertyGuideline(householdSize, state);
 
   const currentFPL = (currentIncome / fpl) * 100;
   const projectedFPL = (projectedIncome / fpl) * 100;
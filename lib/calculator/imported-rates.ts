@@ -0,0 +1,63 @@
+/**
+ * Imported Rate Loading
+ *
+ * Loads state base rates derived from imported CMS rate data into the
+ * age-rating model before an analysis, so premiums use real rates where
+ * they exist and ESTIMATED_STATE_BASE_RATES only for states without them.
+ * In offline data pack mode the rates come from the pack.
+ */
+
+import { logger } from '@/lib/logger';
+import { getStateBaseRatesFromDatabase } from '@/lib/utils/plan-rates-database';
+import { isOfflineDataMode } from '@/lib/data-pack/pack';
+import { getStateBaseRatesFromDataPack } from '@/lib/data-pack/actions';
+import { setImportedStateBaseRates } from './age-rating';
+import { getPlanYearRules } from './plan-year-rules';
+
+// Re-check states after a day, matching the SLCSP cache
+const CACHE_DURATION = 24 * 60 * 60 * 1000;
+
+// When each state/year was last looked up (hits and misses alike)
+const lookedUpAt = new Map<string, number>();
+
+/**
+ * Load imported base rates for the given states and plan year (never
+ * throws; states without imported data for that year keep using estimates)
+ */
+export async function loadImportedBaseRates(states: string[], requestedPlanYear?: number): Promise<void> {
+  const { planYear } = getPlanYearRules(requestedPlanYear);
+  const now = Date.now();
+  const pending = states.filter((state) => {
+    const checked = lookedUpAt.get(cacheKey(state, planYear));
+    return checked === undefined || now - checked >= CACHE_DURATION;
+  });
+
+  if (pending.length === 0) return;
+
+  try {
+    const rates = isOfflineDataMode()
+      ? await getStateBaseRatesFromDataPack(pending, planYear)
+      : await getStateBaseRatesFromDatabase(pending, planYear);
+    setImportedStateBaseRates(rates, planYear);
+  } catch (error) {
+    logger.debug('Imported base rates unavailable, using estimates', {
+      states: pending,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  for (const state of pending) {
+    lookedUpAt.set(cacheKey(state, planYear), now);
+  }
+}
+
+/**
+ * Forget which states were looked up (useful for testing or after an import)
+ */
+export function clearImportedRateCache(): void {
+  lookedUpAt.clear();
+}
+
+function cacheKey(state: string, planYear: number): string {
+  return `${state}:${planYear}`;
+}
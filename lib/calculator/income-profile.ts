@@ -0,0 +1,334 @@
+/**
+ * Itemized Income Profile
+ *
+ * Turns a household's itemized income (wages, self-employment profit, Social
+ * Security, tax-exempt interest, excluded foreign income and above-the-line
+ * deductions) into the MAGI components used by calculateMAGI, so the
+ * calculator flow, MAGI optimizer, HSA calculator and job-change wizard all
+ * work from the same income figures.
+ */
+
+import type { CalculatorFormData, IncomeProfile } from '@/types';
+import { calculateMAGI, type MAGIComponents } from './advanced-subsidy';
+import { getPlanYearRules } from './plan-year-rules';
+
+/** Net earnings from self-employment are 92.35% of net profit */
+const SE_EARNINGS_FACTOR = 0.9235;
+const SE_SOCIAL_SECURITY_RATE = 0.124;
+const SE_MEDICARE_RATE = 0.029;
+
+/** No SE tax is owed when net earnings are below $400 */
+const SE_TAX_MINIMUM_EARNINGS = 400;
+
+/** Social Security wage base by tax year */
+const SOCIAL_SECURITY_WAGE_BASE: Record<number, number> = {
+  2024: 168600,
+  2025: 176100,
+  2026: 184500,
+};
+
+/** Provisional income thresholds for taxing Social Security benefits */
+const SOCIAL_SECURITY_THRESHOLDS = {
+  joint: { base: 32000, adjusted: 44000 },
+  married_separate: { base: 0, adjusted: 0 },
+  other: { base: 25000, adjusted: 34000 },
+};
+
+/** Largest value accepted for any single income field */
+export const MAX_INCOME_PROFILE_AMOUNT = 100_000_000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IncomeProfileSummary {
+  /** Wages, self-employment profit, investment and other income (before deductions) */
+  grossIncome: number;
+  /** Deductible half of self-employment tax */
+  selfEmploymentTaxDeduction: number;
+  /** Portion of Social Security benefits included in AGI */
+  taxableSocialSecurity: number;
+  /** IRA, HSA and SE-tax deductions */
+  adjustments: number;
+  adjustedGrossIncome: number;
+  /** Tax-exempt interest, foreign income exclusion and non-taxable Social Security */
+  magiAddBacks: number;
+  /** ACA modified adjusted gross income */
+  magi: number;
+}
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * Deductible half of self-employment tax. The Social Security portion only
+ * applies to earnings up to the wage base not already used by W-2 wages.
+ */
+export function calculateSelfEmploymentTaxDeduction(
+  selfEmploymentIncome: number,
+  wages: number = 0,
+  planYear?: number
+): number {
+  const netEarnings = Math.max(0, selfEmploymentIncome) * SE_EARNINGS_FACTOR;
+  if (netEarnings < SE_TAX_MINIMUM_EARNINGS) {
+    return 0;
+  }
+
+  const year = getPlanYearRules(planYear).planYear;
+  const wageBase = SOCIAL_SECURITY_WAGE_BASE[year] ?? SOCIAL_SECURITY_WAGE_BASE[2025]!;
+  const socialSecurityEarnings = Math.min(netEarnings, Math.max(0, wageBase - Math.max(0, wages)));
+
+  const seTax = socialSecurityEarnings * SE_SOCIAL_SECURITY_RATE + netEarnings * SE_MEDICARE_RATE;
+  return round(seTax / 2);
+}
+
+/**
+ * Taxable portion of Social Security benefits using provisional income
+ * (other income + tax-exempt interest + half of benefits)
+ */
+export function calculateTaxableSocialSecurity(profile: IncomeProfile, planYear?: number): number {
+  const benefits = amount(profile.socialSecurityBenefits);
+  if (benefits === 0) {
+    return 0;
+  }
+
+  const otherIncome =
+    incomeBeforeSocialSecurity(profile) -
+    calculateSelfEmploymentTaxDeduction(amount(profile.selfEmploymentIncome), amount(profile.wages), planYear) -
+    amount(profile.iraContribution) -
+    amount(profile.hsaContribution);
+  const provisionalIncome =
+    Math.max(0, otherIncome) +
+    amount(profile.taxExemptInterest) +
+    amount(profile.foreignIncomeExclusion) +
+    benefits / 2;
+
+  const thresholds =
+    profile.filingStatus === 'married_joint' ? SOCIAL_SECURITY_THRESHOLDS.joint
+    : profile.filingStatus === 'married_separate' ? SOCIAL_SECURITY_THRESHOLDS.married_separate
+    : SOCIAL_SECURITY_THRESHOLDS.other;
+
+  if (provisionalIncome <= thresholds.base) {
+    return 0;
+  }
+
+  if (provisionalIncome <= thresholds.adjusted) {
+    return round(Math.min(benefits * 0.5, (provisionalIncome - thresholds.base) * 0.5));
+  }
+
+  const firstTier = Math.min(benefits * 0.5, (thresholds.adjusted - thresholds.base) * 0.5);
+  return round(Math.min(benefits * 0.85, (provisionalIncome - thresholds.adjusted) * 0.85 + firstTier));
+}
+
+/**
+ * Map an income profile onto calculateMAGI components
+ */
+export function toMAGIComponents(profile: IncomeProfile, planYear?: number): Partial<MAGIComponents> {
+  const socialSecurityTaxable = calculateTaxableSocialSecurity(profile, planYear);
+
+  return {
+    wages: amount(profile.wages),
+    selfEmploymentIncome: amount(profile.selfEmploymentIncome),
+    investmentIncome: amount(profile.investmentIncome),
+    otherIncome: amount(profile.otherIncome),
+    socialSecurityTaxable,
+    nonTaxableSocialSecurity: round(amount(profile.socialSecurityBenefits) - socialSecurityTaxable),
+    taxExemptInterest: amount(profile.taxExemptInterest),
+    foreignIncomeExclusion: amount(profile.foreignIncomeExclusion),
+    iraContribution: amount(profile.iraContribution),
+    healthSavingsAccount: amount(profile.hsaContribution),
+    selfEmploymentTax: calculateSelfEmploymentTaxDeduction(
+      amount(profile.selfEmploymentIncome),
+      amount(profile.wages),
+      planYear
+    ),
+  };
+}
+
+/**
+ * ACA MAGI for an income profile
+ */
+export function calculateProfileMAGI(profile: IncomeProfile, planYear?: number): number {
+  return round(calculateMAGI(toMAGIComponents(profile, planYear)));
+}
+
+/**
+ * Break an income profile down into gross income, AGI and MAGI
+ */
+export function summarizeIncomeProfile(profile: IncomeProfile, planYear?: number): IncomeProfileSummary {
+  const components = toMAGIComponents(profile, planYear);
+  const selfEmploymentTaxDeduction = components.selfEmploymentTax ?? 0;
+  const taxableSocialSecurity = components.socialSecurityTaxable ?? 0;
+  const grossIncome = incomeBeforeSocialSecurity(profile);
+  const adjustments = round(
+    selfEmploymentTaxDeduction + amount(profile.iraContribution) + amount(profile.hsaContribution)
+  );
+  const adjustedGrossIncome = round(Math.max(0, grossIncome + taxableSocialSecurity - adjustments));
+  const magiAddBacks = round(
+    amount(profile.taxExemptInterest) +
+    amount(profile.foreignIncomeExclusion) +
+    (components.nonTaxableSocialSecurity ?? 0)
+  );
+
+  return {
+    grossIncome: round(grossIncome),
+    selfEmploymentTaxDeduction,
+    taxableSocialSecurity,
+    adjustments,
+    adjustedGrossIncome,
+    magiAddBacks,
+    magi: round(calculateMAGI(components)),
+  };
+}
+
+/**
+ * Total income received before deductions, used where a calculator needs
+ * cash income rather than MAGI (e.g. HSA affordability)
+ */
+export function calculateProfileGrossIncome(profile: IncomeProfile): number {
+  return round(incomeBeforeSocialSecurity(profile) + amount(profile.socialSecurityBenefits));
+}
+
+/**
+ * Resolve a calculator's income: the profile wins when provided, otherwise
+ * the explicit figure is used
+ */
+export function resolveProfileIncome(
+  explicitIncome: number | undefined,
+  profile: IncomeProfile | undefined,
+  planYear: number | undefined,
+  fieldName: string
+): number {
+  if (profile) {
+    return calculateProfileMAGI(profile, planYear);
+  }
+
+  if (explicitIncome === undefined) {
+    throw new Error(`Either ${fieldName} or incomeProfile is required`);
+  }
+
+  return explicitIncome;
+}
+
+/**
+ * Replace the form's annualIncome with the income profile's MAGI when a
+ * profile has been entered
+ */
+export function applyIncomeProfile<T extends Pick<CalculatorFormData, 'annualIncome' | 'incomeProfile' | 'planYear'>>(
+  formData: T
+): T {
+  if (!formData.incomeProfile || !hasIncomeProfileAmounts(formData.incomeProfile)) {
+    return formData;
+  }
+
+  return { ...formData, annualIncome: calculateProfileMAGI(formData.incomeProfile, formData.planYear) };
+}
+
+/**
+ * Whether a profile has any income or deduction entered
+ */
+export function hasIncomeProfileAmounts(profile: IncomeProfile | undefined): boolean {
+  if (!profile) {
+    return false;
+  }
+
+  return INCOME_PROFILE_FIELDS.some(field => amount(profile[field]) > 0);
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+export const INCOME_PROFILE_FIELDS = [
+  'wages',
+  'selfEmploymentIncome',
+  'socialSecurityBenefits',
+  'taxExemptInterest',
+  'foreignIncomeExclusion',
+  'investmentIncome',
+  'otherIncome',
+  'iraContribution',
+  'hsaContribution',
+] as const;
+
+const FILING_STATUSES = ['single', 'married_joint', 'married_separate', 'head_of_household'] as const;
+
+/**
+ * Serialize an income profile for the results URL (omits empty fields)
+ */
+export function serializeIncomeProfile(profile: IncomeProfile): string {
+  const compact: Record<string, number | string> = {};
+  if (profile.filingStatus) {
+    compact.filingStatus = profile.filingStatus;
+  }
+  for (const field of INCOME_PROFILE_FIELDS) {
+    const value = profile[field];
+    if (value !== undefined && value !== 0) {
+      compact[field] = value;
+    }
+  }
+  return JSON.stringify(compact);
+}
+
+/**
+ * Parse an income profile from the results URL (undefined when missing or malformed)
+ */
+export function parseIncomeProfile(param: string | null): IncomeProfile | undefined {
+  if (!param) {
+    return undefined;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(param);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return undefined;
+    }
+
+    const record = parsed as Record<string, unknown>;
+    const profile: IncomeProfile = {};
+
+    if (record.filingStatus !== undefined) {
+      if (!FILING_STATUSES.includes(record.filingStatus as (typeof FILING_STATUSES)[number])) {
+        return undefined;
+      }
+      profile.filingStatus = record.filingStatus as IncomeProfile['filingStatus'];
+    }
+
+    for (const field of INCOME_PROFILE_FIELDS) {
+      const value = record[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_INCOME_PROFILE_AMOUNT) {
+        return undefined;
+      }
+      profile[field] = value;
+    }
+
+    return profile;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function incomeBeforeSocialSecurity(profile: IncomeProfile): number {
+  return (
+    amount(profile.wages) +
+    amount(profile.selfEmploymentIncome) +
+    amount(profile.investmentIncome) +
+    amount(profile.otherIncome)
+  );
+}
+
+function amount(value: number | undefined): number {
+  return value !== undefined && Number.isFinite(value) ? Math.max(0, value) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,15 +1,20 @@
-import { CalculatorFormData, InsuranceRecommendation, SubsidyAnalysis, EmployerPlanAnalysis, CostProjectionSummary, RiskAnalysisSummary, TypeSpecificRecommendation } from '@/types';
+import { CalculatorFormData, InsuranceRecommendation, SubsidyAnalysis, EmployerPlanAnalysis, CoverageGapAnalysis, CostProjectionSummary, RiskAnalysisSummary, TypeSpecificRecommendation } from '@/types';
 import { SELECTABLE_PLAN_TYPES } from '@/lib/constants';
 import { logger } from '@/lib/logger';
 import { calculateCoverageScore } from './coverage-scoring';
 import { getMedicareRecommendation, getMixedHouseholdRecommendation, getNonMedicareRecommendation } from './recommendations';
 import { addCurrentInsuranceComparison } from './comparison';
 import { calculateSubsidy, calculateSubsidyWithRealSLCSP } from './subsidyCalculator';
+import { analyzeTaxHouseholdSubsidies, hasMultipleTaxHouseholds, resolveTaxHouseholds } from './tax-households';
+import { determineMedicaidEligibility } from './medicaid-eligibility';
+import { analyzeCoverageGap } from './coverage-gap';
+import { applyIncomeProfile } from './income-profile';
 import { compareEmployerToMarketplace } from './employerComparison';
 import { generateAddOnRecommendations } from './addOnRecommendations';
 import { INSURANCE_COSTS } from '@/lib/constants';
 import { generateMultiYearProjection, type LifetimeProjection } from './projections';
 import { generateMonteCarloAnalysis, type MonteCarloAnalysis } from './simulations';
+import { loadImportedBaseRates } from './imported-rates';
 
 /**
  * Recommendation Engine for Multi-State Health Insurance
@@ -21,7 +26,9 @@ import { generateMonteCarloAnalysis, type MonteCarloAnalysis } from './simulatio
 /**
  * Main recommendation function
  */
-export async function analyzeInsurance(formData: CalculatorFormData): Promise<InsuranceRecommendation> {
+export async function analyzeInsurance(rawFormData: CalculatorFormData): Promise<InsuranceRecommendation> {
+  // An itemized income profile determines MAGI for every downstream calculation
+  const formData = applyIncomeProfile(rawFormData);
   const { adultAges, childAges, hasMedicareEligible, budget, residences, hasCurrentInsurance, currentInsurance } = formData;
 
   const totalAdults = adultAges.length;
@@ -32,6 +39,9 @@ export async function analyzeInsurance(formData: CalculatorFormData): Promise<In
   const allStates = residences.map(r => r.state).filter(s => s);
   const uniqueStates = [...new Set(allStates)];
 
+  // Use imported CMS rates for these states where available (estimates otherwise)
+  await loadImportedBaseRates(uniqueStates, formData.planYear);
+
   // Determine Medicare eligibility
   const allAdultsMedicareEligible = adultAges.every(age => age >= 65);
   const someAdultsMedicareEligible = hasMedicareEligible || adultAges.some(age => age >= 65);
@@ -44,6 +54,7 @@ export async function analyzeInsurance(formData: CalculatorFormData): Promise<In
   // Calculate subsidy eligibility for non-Medicare households
   let subsidyAnalysis: SubsidyAnalysis | undefined;
   let employerPlanAnalysis: EmployerPlanAnalysis | undefined;
+  let coverageGapAnalysis: CoverageGapAnalysis | undefined;
 
   // Only calculate subsidies for non-Medicare households with income data
   const hasIncomeData = formData.annualIncome !== null || formData.incomeRange;
@@ -52,7 +63,14 @@ export async function analyzeInsurance(formData: CalculatorFormData): Promise<In
     const primaryZip = residences[0]?.zip;
     const allAges = [...adultAges, ...childAges];
 
-    const subsidyResult = primaryZip && allAges.length === totalHousehold
+    // Separate tax filing units get their own FPL, SLCSP and eligibility
+    const taxHouseholdAnalysis = hasMultipleTaxHouseholds(formData)
+      ? await analyzeTaxHouseholdSubsidies(formData, uniqueStates)
+      : null;
+
+    const subsidyResult = taxHouseholdAnalysis
+      ? taxHouseholdAnalysis.combined
+      : primaryZip && allAges.length === totalHousehold
       ? await calculateSubsidyWithRealSLCSP(
           formData.annualIncome,
           formData.incomeRange,
@@ -60,14 +78,16 @@ export async function analyzeInsurance(formData: CalculatorFormData): Promise<In
           totalChildren,
           uniqueStates,
           primaryZip,
-          allAges
+          allAges,
+          formData.planYear
         )
       : calculateSubsidy(
           formData.annualIncome,
           formData.incomeRange,
           totalAdults,
           totalChildren,
-          uniqueStates
+          uniqueStates,
+          formData.planYear
         );
 
     // Calculate after-subsidy cost based on recommendation
@@ -82,22 +102,52 @@ export async function analyzeInsurance(formData: CalculatorFormData): Promise<In
       estimatedMonthlySubsidy: subsidyResult.estimatedMonthlySubsidy,
       estimatedAfterSubsidyCost: afterSubsidyCost,
       fplPercentage: subsidyResult.fplPercentage,
+      planYear: subsidyResult.planYear,
       explanation: subsidyResult.explanation,
       subsidyActionItems: subsidyResult.actionItems,
       benchmarkPremium: subsidyResult.benchmarkPremium,
       isRealSLCSP: subsidyResult.isRealSLCSP,
       slcspSource: subsidyResult.slcspSource,
       slcspPlanName: subsidyResult.slcspPlanName,
+      taxHouseholds: taxHouseholdAnalysis?.taxHouseholds,
+      medicaidEligibility: taxHouseholdAnalysis
+        ? taxHouseholdAnalysis.taxHouseholds.find(h => h.medicaidEligibility)?.medicaidEligibility
+        : uniqueStates[0]
+        ? determineMedicaidEligibility({
+            state: uniqueStates[0],
+            annualMAGI: subsidyResult.estimatedIncome,
+            members: allAges.map(age => ({ age })),
+            planYear: subsidyResult.planYear,
+          })
+        : undefined,
     };
 
-    // Compare employer insurance if available
+    const primaryTaxHousehold = resolveTaxHouseholds(formData)[0];
+
+    // Adults below 100% FPL in non-expansion states get remediation paths
+    if (uniqueStates[0] && primaryTaxHousehold) {
+      const gapResult = analyzeCoverageGap({
+        state: uniqueStates[0],
+        annualIncome: taxHouseholdAnalysis?.taxHouseholds[0]?.annualIncome ?? subsidyResult.estimatedIncome,
+        adultAges: primaryTaxHousehold.adultAges,
+        childAges: primaryTaxHousehold.childAges,
+        planYear: subsidyResult.planYear,
+      });
+      if (gapResult.inCoverageGap) {
+        coverageGapAnalysis = gapResult;
+      }
+    }
+
+    // Compare employer insurance if available (offered to the primary tax household)
     if (formData.hasEmployerInsurance) {
       const employerComparisonResult = compareEmployerToMarketplace(
         formData.hasEmployerInsurance,
         formData.employerContribution || 0,
-        formData.annualIncome,
+        primaryTaxHousehold?.annualIncome ?? formData.annualIncome,
         formData.incomeRange,
-        totalHousehold,
+        primaryTaxHousehold
+          ? primaryTaxHousehold.adultAges.length + primaryTaxHousehold.childAges.length
+          : totalHousehold,
         afterSubsidyCost
       );
 
@@ -147,6 +197,33 @@ export async function analyzeInsurance(formData: CalculatorFormData): Promise<In
         ...recommendation.actionItems,
       ];
       recommendation.estimatedMonthlyCost = { low: 0, high: 50 }; // Medicaid typically free or minimal cost
+    } else {
+      // Split families: some members on Medicaid/CHIP, the rest on other coverage
+      const splitFamilies = (subsidyAnalysis.taxHouseholds
+        ? subsidyAnalysis.taxHouseholds.map(h => h.medicaidEligibility)
+        : [subsidyAnalysis.medicaidEligibility]
+      ).filter(e => e?.isSplitFamily);
+
+      if (splitFamilies.length > 0) {
+        const newItems = splitFamilies.flatMap(e => e?.actionItems ?? []);
+        recommendation.reasoning = `${recommendation.reasoning} ${splitFamilies.map(e => e?.summary).join(' ')}`;
+        recommendation.actionItems = [
+          ...new Set([...newItems, ...recommendation.actionItems]),
+        ];
+      }
+    }
+  }
+
+  // Add coverage gap remediation if the household is in the gap
+  if (coverageGapAnalysis) {
+    recommendation.coverageGapAnalysis = coverageGapAnalysis;
+
+    const recommendedPath = coverageGapAnalysis.paths.find(p => p.id === coverageGapAnalysis?.recommendedPathId);
+    if (recommendedPath) {
+      recommendation.actionItems = [
+        `Coverage gap: ${recommendedPath.title} (about $${Math.round(recommendedPath.netAnnualImpact).toLocaleString()}/year net benefit)`,
+        ...recommendation.actionItems,
+      ];
     }
   }
 
@@ -258,6 +335,7 @@ function generateCostProjections(
       usesTobacco: formData.adultsUseTobacco[0] || false,
       healthStatus,
       chronicConditions: formData.chronicConditions || [],
+      planYear: formData.planYear,
     });
 
     // Convert to CostProjectionSummary format
@@ -0,0 +1,330 @@
+/**
+ * Medicaid / CHIP Eligibility Engine
+ *
+ * Determines, for each household member, whether they are likely eligible
+ * for Medicaid, CHIP, Medicare or marketplace coverage using state-specific
+ * MAGI income limits for children, pregnant individuals, parents and other
+ * adults. Families are often split: children on Medicaid or CHIP while the
+ * parents buy marketplace coverage.
+ *
+ * Limits: KFF, Medicaid and CHIP Income Eligibility Limits (January 2025),
+ * stored as base % FPL before the 5 percentage point MAGI disregard, which
+ * the engine applies when it decides eligibility.
+ */
+
+import type {
+  CoverageProgram,
+  EligibilityMemberInput,
+  MedicaidEligibilityGroup,
+  MedicaidEligibilityInput,
+  MedicaidEligibilityResult,
+  MemberEligibility,
+  StateMedicaidThresholds,
+} from '@/types/medicaidEligibility';
+import { getMedicaidApplicationUrl } from './medicaidResources';
+import { getPlanYearRules, getPovertyGuideline } from './plan-year-rules';
+
+/**
+ * 5 percentage point MAGI disregard (42 CFR 435.603(d)(4))
+ */
+export const MAGI_DISREGARD_PERCENT = 5;
+
+/** Children are evaluated under the child groups through age 18 */
+const CHILD_MAX_AGE = 18;
+
+const MEDICARE_AGE = 65;
+
+// ============================================================================
+// STATE THRESHOLDS
+// ============================================================================
+
+type ThresholdRow = [
+  expansion: boolean,
+  adult: number | null,
+  parent: number,
+  pregnant: number,
+  childMedicaid: number,
+  chip: number,
+];
+
+const THRESHOLD_ROWS: Record<string, ThresholdRow> = {
+  AL: [false, null, 13, 141, 141, 312],
+  AK: [true, 133, 133, 200, 203, 203],
+  AZ: [true, 133, 133, 156, 133, 200],
+  AR: [true, 133, 133, 209, 211, 211],
+  CA: [true, 133, 133, 317, 261, 317],
+  CO: [true, 133, 133, 260, 142, 260],
+  CT: [true, 133, 155, 258, 196, 318],
+  DE: [true, 133, 133, 212, 212, 212],
+  DC: [true, 210, 216, 319, 319, 319],
+  FL: [false, null, 26, 191, 133, 210],
+  GA: [false, null, 28, 220, 133, 247],
+  HI: [true, 133, 133, 191, 308, 308],
+  ID: [true, 133, 133, 133, 133, 185],
+  IL: [true, 133, 133, 208, 142, 313],
+  IN: [true, 133, 133, 213, 158, 250],
+  IA: [true, 133, 133, 375, 167, 302],
+  KS: [false, null, 33, 166, 133, 250],
+  KY: [true, 133, 133, 195, 159, 213],
+  LA: [true, 133, 133, 138, 212, 250],
+  ME: [true, 133, 133, 209, 208, 300],
+  MD: [true, 133, 133, 259, 317, 317],
+  MA: [true, 133, 133, 200, 150, 300],
+  MI: [true, 133, 133, 195, 212, 212],
+  MN: [true, 133, 133, 278, 275, 278],
+  MS: [false, null, 19, 194, 133, 209],
+  MO: [true, 133, 133, 196, 150, 300],
+  MT: [true, 133, 133, 157, 143, 261],
+  NE: [true, 133, 133, 194, 213, 213],
+  NV: [true, 133, 133, 160, 133, 200],
+  NH: [true, 133, 133, 196, 318, 318],
+  NJ: [true, 133, 133, 194, 142, 350],
+  NM: [true, 133, 133, 250, 240, 300],
+  NY: [true, 133, 133, 218, 149, 400],
+  NC: [true, 133, 133, 196, 133, 211],
+  ND: [true, 133, 133, 157, 170, 205],
+  OH: [true, 133, 133, 200, 206, 206],
+  OK: [true, 133, 133, 133, 205, 205],
+  OR: [true, 133, 133, 185, 133, 300],
+  PA: [true, 133, 133, 215, 133, 314],
+  RI: [true, 133, 133, 190, 261, 261],
+  SC: [false, null, 62, 194, 208, 208],
+  SD: [true, 133, 133, 133, 182, 204],
+  TN: [false, null, 93, 195, 133, 250],
+  TX: [false, null, 11, 198, 133, 201],
+  UT: [true, 133, 133, 139, 133, 200],
+  VT: [true, 133, 133, 208, 312, 312],
+  VA: [true, 133, 133, 200, 143, 200],
+  WA: [true, 133, 133, 193, 210, 312],
+  WV: [true, 133, 133, 185, 158, 300],
+  // Wisconsin did not expand but covers adults to 100% FPL through BadgerCare
+  WI: [false, 95, 95, 301, 301, 301],
+  WY: [false, null, 43, 154, 149, 200],
+};
+
+/**
+ * Federal minimum limits used for states without data
+ */
+const FEDERAL_MINIMUM_ROW: ThresholdRow = [false, null, 0, 133, 133, 133];
+
+/**
+ * Get a state's Medicaid/CHIP income limits (before the 5% disregard)
+ */
+export function getStateMedicaidThresholds(state: string): StateMedicaidThresholds | null {
+  const code = state.toUpperCase();
+  const row = THRESHOLD_ROWS[code];
+  return row ? toThresholds(code, row) : null;
+}
+
+// ============================================================================
+// ELIGIBILITY
+// ============================================================================
+
+/**
+ * Determine Medicaid, CHIP, Medicare or marketplace eligibility for each member
+ */
+export function determineMedicaidEligibility(input: MedicaidEligibilityInput): MedicaidEligibilityResult {
+  const state = input.state.toUpperCase();
+  const planYear = getPlanYearRules(input.planYear).planYear;
+  const knownThresholds = getStateMedicaidThresholds(state);
+  const thresholds = knownThresholds ?? toThresholds(state, FEDERAL_MINIMUM_ROW);
+
+  const householdSize = Math.max(1, input.householdSize ?? input.members.length);
+  const povertyGuideline = getPovertyGuideline(householdSize, state, planYear);
+  const fplPercent = (input.annualMAGI / povertyGuideline) * 100;
+  const hasChildren = input.members.some(m => m.age <= CHILD_MAX_AGE);
+
+  const members = input.members.map((member, index) =>
+    evaluateMember(member, index, {
+      thresholds,
+      fplPercent,
+      hasChildren,
+      // A pregnant member's own household counts the expected child
+      pregnantFplPercent: (input.annualMAGI / getPovertyGuideline(householdSize + 1, state, planYear)) * 100,
+    })
+  );
+
+  const publicCoverage = members.filter(m => m.program === 'medicaid' || m.program === 'chip');
+  const anyMedicaidOrCHIP = publicCoverage.length > 0;
+  const nonMedicare = members.filter(m => m.program !== 'medicare');
+  const allMedicaidOrCHIP = nonMedicare.length > 0 && publicCoverage.length === nonMedicare.length;
+  const isSplitFamily = anyMedicaidOrCHIP && !allMedicaidOrCHIP;
+
+  const actionItems: string[] = [];
+  const applicationUrl = getMedicaidApplicationUrl(state);
+
+  if (anyMedicaidOrCHIP) {
+    actionItems.push(`Apply for ${describePrograms(publicCoverage)} through your state: ${applicationUrl}`);
+    actionItems.push('Medicaid and CHIP enrollment is open year-round');
+  }
+
+  if (isSplitFamily && members.some(m => m.program === 'marketplace')) {
+    actionItems.push(
+      'Members who qualify for Medicaid or CHIP cannot receive premium tax credits. Enroll only the remaining members in a marketplace plan.'
+    );
+  }
+
+  if (members.some(m => m.program === 'coverage-gap')) {
+    actionItems.push(
+      `${state} has not expanded Medicaid. Adults below 100% FPL fall into the coverage gap; check community health centers and whether a raise in income would qualify you for marketplace credits.`
+    );
+  }
+
+  if (!knownThresholds) {
+    actionItems.push('State-specific limits are unavailable, so federal minimums were used. Confirm eligibility with your state Medicaid agency.');
+  }
+
+  return {
+    state,
+    planYear,
+    householdSize,
+    annualMAGI: input.annualMAGI,
+    povertyGuideline,
+    fplPercent: round(fplPercent),
+    isExpansionState: thresholds.expansion,
+    members,
+    isSplitFamily,
+    anyMedicaidOrCHIP,
+    allMedicaidOrCHIP,
+    summary: buildSummary(members, fplPercent, state),
+    actionItems,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface EvaluationContext {
+  thresholds: StateMedicaidThresholds;
+  fplPercent: number;
+  pregnantFplPercent: number;
+  hasChildren: boolean;
+}
+
+function evaluateMember(
+  member: EligibilityMemberInput,
+  index: number,
+  context: EvaluationContext
+): MemberEligibility {
+  const { thresholds, fplPercent, hasChildren } = context;
+  const memberId = member.id ?? `member-${index + 1}`;
+  const base = { memberId, age: member.age, fplPercent: round(fplPercent) };
+
+  if (member.age >= MEDICARE_AGE) {
+    return {
+      ...base,
+      group: 'medicare',
+      program: 'medicare',
+      thresholdPercent: null,
+      usedDisregard: false,
+      reason: 'Age 65 or older: eligible for Medicare',
+    };
+  }
+
+  if (member.age <= CHILD_MAX_AGE) {
+    const medicaid = checkLimit(fplPercent, thresholds.childMedicaid);
+    if (medicaid.eligible) {
+      return { ...base, group: 'child', program: 'medicaid', ...medicaid, reason: `Income is within ${thresholds.state} Medicaid limit for children` };
+    }
+    const chip = checkLimit(fplPercent, thresholds.chip);
+    if (chip.eligible) {
+      return { ...base, group: 'child', program: 'chip', ...chip, reason: `Income is within ${thresholds.state} CHIP limit` };
+    }
+    return {
+      ...base,
+      group: 'child',
+      program: 'marketplace',
+      thresholdPercent: chip.thresholdPercent,
+      usedDisregard: false,
+      reason: 'Income is above the CHIP limit',
+    };
+  }
+
+  if (member.isPregnant) {
+    const pregnant = checkLimit(context.pregnantFplPercent, thresholds.pregnant);
+    if (pregnant.eligible) {
+      return {
+        ...base,
+        fplPercent: round(context.pregnantFplPercent),
+        group: 'pregnant',
+        program: 'medicaid',
+        ...pregnant,
+        reason: `Income is within ${thresholds.state} limit for pregnancy coverage`,
+      };
+    }
+  }
+
+  const group: MedicaidEligibilityGroup = hasChildren ? 'parent' : 'adult';
+  const limit = hasChildren ? thresholds.parent : thresholds.adult;
+  const adultCheck = limit !== null ? checkLimit(fplPercent, limit) : null;
+
+  if (adultCheck?.eligible) {
+    return {
+      ...base,
+      group,
+      program: 'medicaid',
+      ...adultCheck,
+      reason: `Income is within ${thresholds.state} Medicaid limit for ${hasChildren ? 'parents' : 'adults'}`,
+    };
+  }
+
+  const program: CoverageProgram = fplPercent < 100 ? 'coverage-gap' : 'marketplace';
+  return {
+    ...base,
+    group,
+    program,
+    thresholdPercent: adultCheck?.thresholdPercent ?? null,
+    usedDisregard: false,
+    reason: program === 'coverage-gap'
+      ? 'Income is below 100% FPL but above the Medicaid limit for this group'
+      : 'Income is above the Medicaid limit; eligible to buy marketplace coverage',
+  };
+}
+
+/**
+ * Compare income to a base limit, applying the 5% disregard only when it
+ * makes the difference between eligible and ineligible
+ */
+function checkLimit(fplPercent: number, baseLimit: number): {
+  eligible: boolean;
+  thresholdPercent: number;
+  usedDisregard: boolean;
+} {
+  const thresholdPercent = baseLimit + MAGI_DISREGARD_PERCENT;
+  return {
+    eligible: fplPercent <= thresholdPercent,
+    thresholdPercent,
+    usedDisregard: fplPercent > baseLimit && fplPercent <= thresholdPercent,
+  };
+}
+
+function toThresholds(state: string, row: ThresholdRow): StateMedicaidThresholds {
+  const [expansion, adult, parent, pregnant, childMedicaid, chip] = row;
+  return { state, expansion, adult, parent, pregnant, childMedicaid, chip };
+}
+
+function describePrograms(members: MemberEligibility[]): string {
+  const programs = new Set(members.map(m => m.program));
+  if (programs.has('medicaid') && programs.has('chip')) {
+    return 'Medicaid and CHIP';
+  }
+  return programs.has('chip') ? 'CHIP' : 'Medicaid';
+}
+
+function buildSummary(members: MemberEligibility[], fplPercent: number, state: string): string {
+  const count = (program: CoverageProgram) => members.filter(m => m.program === program).length;
+  const parts = [
+    count('medicaid') > 0 ? `${count('medicaid')} on Medicaid` : '',
+    count('chip') > 0 ? `${count('chip')} on CHIP` : '',
+    count('marketplace') > 0 ? `${count('marketplace')} on marketplace coverage` : '',
+    count('medicare') > 0 ? `${count('medicare')} on Medicare` : '',
+    count('coverage-gap') > 0 ? `${count('coverage-gap')} in the coverage gap` : '',
+  ].filter(Boolean);
+
+  return `At ~${Math.round(fplPercent)}% FPL in ${state}, your household likely qualifies for: ${parts.join(', ')}.`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
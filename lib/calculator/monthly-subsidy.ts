@@ -0,0 +1,306 @@
+/**
+ * Monthly (Partial-Year) Premium Tax Credit Calculator
+ *
+ * Builds a 12-month schedule of benchmark premium, expected contribution
+ * and premium tax credit for households whose situation changes during
+ * the year:
+ * - Members joining or leaving the tax household (birth, marriage, divorce)
+ * - Coverage starting mid-year after a Special Enrollment Period
+ * - Moves between rating areas that change the SLCSP
+ *
+ * The PTC is computed monthly, as on Form 8962: each month's benchmark covers
+ * only the members enrolled that month, while the expected contribution is one
+ * twelfth of the annual contribution for the year-end tax family size.
+ */
+
+import { MEDICAID_EXPANSION_STATES } from './advanced-subsidy';
+import { calculatePremiumForState, getAgeRatingFactor } from './age-rating';
+import {
+  getPlanYearRules,
+  getPovertyGuideline,
+  getApplicablePercentage,
+  isAboveSubsidyCliff,
+} from './plan-year-rules';
+import type { ReconciliationMonthInput } from '../calculators/reconciliation';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaxHouseholdMember {
+  /** Label used in the schedule (e.g. 'Spouse', 'Newborn') */
+  id: string;
+  /** Age during the plan year */
+  age: number;
+  /** First month in the tax household (1-12, default 1) */
+  firstMonth?: number;
+  /** Last month in the tax household (1-12, default 12) */
+  lastMonth?: number;
+  /** Whether the member enrolls in marketplace coverage (default true) */
+  enrolled?: boolean;
+}
+
+export interface RatingAreaPeriod {
+  /** Month the household starts living in this rating area (1-12) */
+  startMonth: number;
+  /** State code */
+  state: string;
+  /** Display label, e.g. 'Rating Area 4' */
+  label?: string;
+  /** Age-21 SLCSP rate for the area (monthly); estimated from state rates when omitted */
+  slcspBaseRate?: number;
+}
+
+export interface MonthlySubsidyInput {
+  /** Marketplace plan year */
+  planYear?: number;
+  /** Projected annual household MAGI */
+  annualMAGI: number;
+  /** Everyone who is part of the tax household at any point in the year */
+  members: TaxHouseholdMember[];
+  /** Rating areas lived in during the year, by start month */
+  ratingAreas: RatingAreaPeriod[];
+  /** First month of marketplace coverage (e.g. after a SEP, default 1) */
+  coverageStartMonth?: number;
+  /** Last month of marketplace coverage (default 12) */
+  coverageEndMonth?: number;
+  /** Premium of the plan actually selected, by month (caps the credit) */
+  enrolledPremiums?: Partial<Record<number, number>>;
+}
+
+export interface MonthlySubsidyMonth {
+  month: number;
+  /** Whether anyone had marketplace coverage this month */
+  covered: boolean;
+  /** Members in the tax household this month */
+  householdSize: number;
+  /** Members enrolled in marketplace coverage this month */
+  coveredMembers: string[];
+  state: string;
+  ratingAreaLabel?: string;
+  /** Household income as a percentage of FPL for the year-end tax family */
+  fplPercent: number;
+  /** Applicable percentage of income expected toward the benchmark */
+  applicablePercentage: number;
+  /** SLCSP premium for the covered members */
+  benchmarkPremium: number;
+  /** Household's expected monthly contribution */
+  expectedContribution: number;
+  /** Monthly premium tax credit */
+  premiumTaxCredit: number;
+  /** Premium of the selected plan, when provided */
+  enrolledPremium?: number;
+  /** Selected plan premium after the credit, when provided */
+  netPremium?: number;
+  /** Whether the benchmark was estimated rather than supplied */
+  isEstimate: boolean;
+}
+
+export interface MonthlySubsidySchedule {
+  planYear: number;
+  annualMAGI: number;
+  /** Tax family size at the end of the year, used for the FPL percentage */
+  taxFamilySize: number;
+  months: MonthlySubsidyMonth[];
+  coveredMonths: number;
+  totals: {
+    benchmarkPremium: number;
+    expectedContribution: number;
+    premiumTaxCredit: number;
+  };
+  /** Average credit across covered months */
+  averageMonthlyCredit: number;
+  warnings: string[];
+}
+
+// ============================================================================
+// MONTHLY SCHEDULE
+// ============================================================================
+
+/**
+ * Build a 12-month premium tax credit schedule
+ */
+export function calculateMonthlyPremiumTaxCredit(input: MonthlySubsidyInput): MonthlySubsidySchedule {
+  const rules = getPlanYearRules(input.planYear);
+  const warnings: string[] = [];
+
+  const coverageStart = clampMonth(input.coverageStartMonth ?? 1);
+  const coverageEnd = clampMonth(input.coverageEndMonth ?? 12);
+  const ratingAreas = [...input.ratingAreas].sort((a, b) => a.startMonth - b.startMonth);
+
+  if (ratingAreas.length === 0) {
+    throw new Error('At least one rating area is required');
+  }
+
+  if (coverageEnd < coverageStart) {
+    warnings.push('Coverage end month is before the start month, so no months are covered.');
+  }
+
+  // Form 8962 uses one family size and FPL percentage for the whole year
+  const taxFamilySize = Math.max(1, input.members.filter(m => isInHousehold(m, 12)).length);
+  const yearEndState = getRatingAreaForMonth(ratingAreas, 12).state;
+  const fplPercent = (input.annualMAGI / getPovertyGuideline(taxFamilySize, yearEndState, rules.planYear)) * 100;
+
+  const months: MonthlySubsidyMonth[] = [];
+
+  for (let month = 1; month <= 12; month++) {
+    const area = getRatingAreaForMonth(ratingAreas, month);
+    const inHousehold = input.members.filter(m => isInHousehold(m, month));
+    const householdSize = Math.max(1, inHousehold.length);
+    const inCoverageWindow = month >= coverageStart && month <= coverageEnd;
+    const enrolledMembers = inCoverageWindow ? inHousehold.filter(m => m.enrolled !== false) : [];
+
+    const eligible = isPTCEligible(fplPercent, area.state, rules.planYear);
+
+    const applicablePercentage = eligible ? getApplicablePercentage(fplPercent, rules.planYear) : 0;
+    const benchmarkPremium = enrolledMembers.length > 0 ? calculateBenchmarkPremium(enrolledMembers, area, rules.planYear) : 0;
+    const expectedContribution = enrolledMembers.length > 0 ? (input.annualMAGI * applicablePercentage) / 12 : 0;
+
+    let premiumTaxCredit = eligible && enrolledMembers.length > 0
+      ? Math.max(0, benchmarkPremium - expectedContribution)
+      : 0;
+
+    const enrolledPremium = enrolledMembers.length > 0 ? input.enrolledPremiums?.[month] : undefined;
+    if (enrolledPremium !== undefined) {
+      premiumTaxCredit = Math.min(premiumTaxCredit, enrolledPremium);
+    }
+
+    months.push({
+      month,
+      covered: enrolledMembers.length > 0,
+      householdSize,
+      coveredMembers: enrolledMembers.map(m => m.id),
+      state: area.state,
+      ratingAreaLabel: area.label,
+      fplPercent: Math.round(fplPercent * 10) / 10,
+      applicablePercentage,
+      benchmarkPremium: round(benchmarkPremium),
+      expectedContribution: round(expectedContribution),
+      premiumTaxCredit: round(premiumTaxCredit),
+      enrolledPremium,
+      netPremium: enrolledPremium !== undefined ? round(enrolledPremium - premiumTaxCredit) : undefined,
+      isEstimate: area.slcspBaseRate === undefined,
+    });
+  }
+
+  const coveredMonths = months.filter(m => m.covered).length;
+  const totalCredit = round(months.reduce((total, m) => total + m.premiumTaxCredit, 0));
+
+  // Warnings
+  if (months.some(m => m.covered && m.isEstimate)) {
+    warnings.push(
+      'Benchmark premiums for some months are estimated from state averages. Enter the SLCSP for each rating area for exact figures.'
+    );
+  }
+
+  const sizes = new Set(months.map(m => m.householdSize));
+  if (sizes.size > 1) {
+    warnings.push(
+      'Your household size changes during the year. Report each change to the Marketplace within 30 days so your advance credit is updated.'
+    );
+  }
+
+  if (ratingAreas.length > 1) {
+    warnings.push(
+      'Moving to a new rating area changes your benchmark plan and credit. A move is a qualifying event for a Special Enrollment Period.'
+    );
+  }
+
+  if (coveredMonths > 0 && coveredMonths < 12) {
+    warnings.push(
+      `Credit is only available for the ${coveredMonths} month${coveredMonths === 1 ? '' : 's'} you have marketplace coverage.`
+    );
+  }
+
+  if (months.some(m => m.covered && !isPTCEligible(m.fplPercent, m.state, rules.planYear))) {
+    warnings.push(
+      'Your income is outside the premium tax credit range for at least one covered month.'
+    );
+  }
+
+  return {
+    planYear: rules.planYear,
+    annualMAGI: input.annualMAGI,
+    taxFamilySize,
+    months,
+    coveredMonths,
+    totals: {
+      benchmarkPremium: round(months.reduce((total, m) => total + m.benchmarkPremium, 0)),
+      expectedContribution: round(months.reduce((total, m) => total + m.expectedContribution, 0)),
+      premiumTaxCredit: totalCredit,
+    },
+    averageMonthlyCredit: coveredMonths > 0 ? round(totalCredit / coveredMonths) : 0,
+    warnings,
+  };
+}
+
+/**
+ * Convert a schedule into Form 1095-A style months for calculateReconciliation()
+ *
+ * The scheduled credit is treated as the advance payment; months without an
+ * enrolled premium use the benchmark premium.
+ */
+export function toReconciliationMonths(schedule: MonthlySubsidySchedule): ReconciliationMonthInput[] {
+  return schedule.months
+    .filter(m => m.covered)
+    .map(m => ({
+      month: m.month,
+      enrollmentPremium: m.enrolledPremium ?? m.benchmarkPremium,
+      slcspPremium: m.benchmarkPremium,
+      advancePTC: m.premiumTaxCredit,
+    }));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function clampMonth(month: number): number {
+  return Math.max(1, Math.min(12, Math.floor(month)));
+}
+
+function isInHousehold(member: TaxHouseholdMember, month: number): boolean {
+  return month >= clampMonth(member.firstMonth ?? 1) && month <= clampMonth(member.lastMonth ?? 12);
+}
+
+function getRatingAreaForMonth(ratingAreas: RatingAreaPeriod[], month: number): RatingAreaPeriod {
+  let current = ratingAreas[0]!;
+  for (const area of ratingAreas) {
+    if (area.startMonth <= month) {
+      current = area;
+    }
+  }
+  return current;
+}
+
+/**
+ * PTC eligibility for a month (Medicaid takes precedence below 138% FPL in expansion states)
+ */
+function isPTCEligible(fplPercent: number, state: string, planYear: number): boolean {
+  if (fplPercent < 100 || isAboveSubsidyCliff(fplPercent, planYear)) {
+    return false;
+  }
+  return !(MEDICAID_EXPANSION_STATES.has(state.toUpperCase()) && fplPercent < 138);
+}
+
+/**
+ * SLCSP for the covered members (only the three oldest children under 21 are rated)
+ */
+function calculateBenchmarkPremium(members: TaxHouseholdMember[], area: RatingAreaPeriod, planYear: number): number {
+  const adults = members.filter(m => m.age >= 21);
+  const ratedChildren = members
+    .filter(m => m.age < 21)
+    .sort((a, b) => b.age - a.age)
+    .slice(0, 3);
+
+  return [...adults, ...ratedChildren].reduce((total, member) => {
+    const premium = area.slcspBaseRate !== undefined
+      ? area.slcspBaseRate * getAgeRatingFactor(member.age)
+      : calculatePremiumForState(member.age, area.state, 'Silver', false, planYear);
+    return total + premium;
+  }, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,287 @@
+/**
+ * Plan-Year Subsidy Rules Registry
+ *
+ * Year-keyed Federal Poverty Level guidelines and Premium Tax Credit
+ * applicable-percentage tables. Every subsidy calculation resolves its
+ * tables through this registry so the same household can be priced against
+ * the current plan year and next year's open enrollment side by side.
+ *
+ * Note: Marketplace plan years use the HHS poverty guidelines published the
+ * prior January (plan year 2025 uses the 2024 guidelines).
+ */
+
+import { logger } from '../logger';
+
+export type SupportedPlanYear = 2024 | 2025 | 2026;
+
+export const SUPPORTED_PLAN_YEARS: readonly SupportedPlanYear[] = [2024, 2025, 2026];
+
+/**
+ * Plan year used when a caller does not specify one
+ */
+export const DEFAULT_PLAN_YEAR: SupportedPlanYear = 2025;
+
+/**
+ * HHS poverty guideline figures (annual dollars)
+ */
+export interface FPLGuidelines {
+  // Contiguous 48 states + DC
+  BASE: number;
+  PER_ADDITIONAL_PERSON: number;
+
+  // Alaska (higher)
+  ALASKA_BASE: number;
+  ALASKA_PER_ADDITIONAL: number;
+
+  // Hawaii (higher)
+  HAWAII_BASE: number;
+  HAWAII_PER_ADDITIONAL: number;
+}
+
+/**
+ * One row of the applicable-percentage table (26 U.S.C. § 36B(b)(3)(A))
+ *
+ * Percentages are fractions of household income. Within a band the required
+ * contribution slides linearly from `initialPercentage` to `finalPercentage`.
+ */
+export interface ApplicablePercentageBand {
+  fplMin: number;
+  fplMax: number;
+  initialPercentage: number;
+  finalPercentage: number;
+  /** Single-rate approximation used by quick estimates (getFlatApplicablePercentage) */
+  flatPercentage: number;
+}
+
+/**
+ * Excess advance PTC repayment limit for income up to `fplMax` (Form 8962, Table 5)
+ */
+export interface RepaymentCapBand {
+  fplMax: number;
+  /** Limit for single filers */
+  single: number;
+  /** Limit for all other filing statuses */
+  other: number;
+}
+
+export interface PlanYearRules {
+  planYear: SupportedPlanYear;
+  fpl: FPLGuidelines;
+  applicablePercentages: ApplicablePercentageBand[];
+  /** FPL % above which no credit is allowed (null = no cliff under enhanced credits) */
+  subsidyCliffFPL: number | null;
+  /** Whether the ARPA/IRA enhanced credits apply to this plan year */
+  enhancedCredits: boolean;
+  /** Employer-coverage affordability percentage (share of household income) */
+  employerAffordabilityThreshold: number;
+  /** Excess APTC repayment limits (null = full repayment at every income) */
+  repaymentCaps: RepaymentCapBand[] | null;
+  /** Where the figures come from */
+  source: string;
+}
+
+/**
+ * ARPA/IRA enhanced schedule (plan years 2021-2025)
+ * The 300-400% band is split at 350% so quick estimates keep a 6%/8% step.
+ */
+const ENHANCED_APPLICABLE_PERCENTAGES: ApplicablePercentageBand[] = [
+  { fplMin: 0,   fplMax: 150,      initialPercentage: 0.00,   finalPercentage: 0.00,   flatPercentage: 0.00 },
+  { fplMin: 150, fplMax: 200,      initialPercentage: 0.00,   finalPercentage: 0.02,   flatPercentage: 0.00 },
+  { fplMin: 200, fplMax: 250,      initialPercentage: 0.02,   finalPercentage: 0.04,   flatPercentage: 0.02 },
+  { fplMin: 250, fplMax: 300,      initialPercentage: 0.04,   finalPercentage: 0.06,   flatPercentage: 0.04 },
+  { fplMin: 300, fplMax: 350,      initialPercentage: 0.06,   finalPercentage: 0.0725, flatPercentage: 0.06 },
+  { fplMin: 350, fplMax: 400,      initialPercentage: 0.0725, finalPercentage: 0.085,  flatPercentage: 0.08 },
+  { fplMin: 400, fplMax: Infinity, initialPercentage: 0.085,  finalPercentage: 0.085,  flatPercentage: 0.085 }, // No cliff
+];
+
+export const PLAN_YEAR_RULES: Record<SupportedPlanYear, PlanYearRules> = {
+  2024: {
+    planYear: 2024,
+    fpl: {
+      BASE: 14580,
+      PER_ADDITIONAL_PERSON: 5140,
+      ALASKA_BASE: 18210,
+      ALASKA_PER_ADDITIONAL: 6430,
+      HAWAII_BASE: 16770,
+      HAWAII_PER_ADDITIONAL: 5910,
+    },
+    applicablePercentages: ENHANCED_APPLICABLE_PERCENTAGES,
+    subsidyCliffFPL: null,
+    enhancedCredits: true,
+    employerAffordabilityThreshold: 0.0839,
+    repaymentCaps: [
+      { fplMax: 200, single: 375, other: 750 },
+      { fplMax: 300, single: 950, other: 1900 },
+      { fplMax: 400, single: 1575, other: 3150 },
+    ],
+    source: '2023 HHS poverty guidelines; IRA 2022 applicable percentages',
+  },
+  2025: {
+    planYear: 2025,
+    fpl: {
+      BASE: 15060,
+      PER_ADDITIONAL_PERSON: 5380,
+      ALASKA_BASE: 18810,
+      ALASKA_PER_ADDITIONAL: 6730,
+      HAWAII_BASE: 17310,
+      HAWAII_PER_ADDITIONAL: 6190,
+    },
+    applicablePercentages: ENHANCED_APPLICABLE_PERCENTAGES,
+    subsidyCliffFPL: null,
+    enhancedCredits: true,
+    employerAffordabilityThreshold: 0.0902,
+    repaymentCaps: [
+      { fplMax: 200, single: 375, other: 750 },
+      { fplMax: 300, single: 975, other: 1950 },
+      { fplMax: 400, single: 1625, other: 3250 },
+    ],
+    source: '2024 HHS poverty guidelines; IRA 2022 applicable percentages; IRS Rev. Proc. 2024-35 affordability',
+  },
+  2026: {
+    planYear: 2026,
+    fpl: {
+      BASE: 15650,
+      PER_ADDITIONAL_PERSON: 5500,
+      ALASKA_BASE: 19550,
+      ALASKA_PER_ADDITIONAL: 6880,
+      HAWAII_BASE: 17990,
+      HAWAII_PER_ADDITIONAL: 6330,
+    },
+    // Enhanced credits expire: original ACA schedule returns with the 400% cliff
+    applicablePercentages: [
+      { fplMin: 0,   fplMax: 133, initialPercentage: 0.021,  finalPercentage: 0.021,  flatPercentage: 0.021 },
+      { fplMin: 133, fplMax: 150, initialPercentage: 0.0314, finalPercentage: 0.0419, flatPercentage: 0.0314 },
+      { fplMin: 150, fplMax: 200, initialPercentage: 0.0419, finalPercentage: 0.066,  flatPercentage: 0.0419 },
+      { fplMin: 200, fplMax: 250, initialPercentage: 0.066,  finalPercentage: 0.0844, flatPercentage: 0.066 },
+      { fplMin: 250, fplMax: 300, initialPercentage: 0.0844, finalPercentage: 0.0996, flatPercentage: 0.0844 },
+      { fplMin: 300, fplMax: 400, initialPercentage: 0.0996, finalPercentage: 0.0996, flatPercentage: 0.0996 },
+    ],
+    subsidyCliffFPL: 400,
+    enhancedCredits: false,
+    employerAffordabilityThreshold: 0.0996,
+    // Repayment limits repealed for tax years after 2025
+    repaymentCaps: null,
+    source: '2025 HHS poverty guidelines; IRS Rev. Proc. 2025-25 applicable percentages',
+  },
+};
+
+/**
+ * Check whether a plan year has rules in the registry
+ */
+export function isSupportedPlanYear(planYear: number): planYear is SupportedPlanYear {
+  return (SUPPORTED_PLAN_YEARS as readonly number[]).includes(planYear);
+}
+
+/**
+ * Resolve the rules for a plan year
+ *
+ * Unknown years fall back to the nearest supported year so projections
+ * beyond the registry still return usable figures.
+ */
+export function getPlanYearRules(planYear: number = DEFAULT_PLAN_YEAR): PlanYearRules {
+  if (isSupportedPlanYear(planYear)) {
+    return PLAN_YEAR_RULES[planYear];
+  }
+
+  const first = SUPPORTED_PLAN_YEARS[0]!;
+  const last = SUPPORTED_PLAN_YEARS[SUPPORTED_PLAN_YEARS.length - 1]!;
+  const fallback = planYear < first ? first : last;
+
+  logger.warn('Unsupported plan year for subsidy rules, using nearest year', { planYear, fallback });
+
+  return PLAN_YEAR_RULES[fallback];
+}
+
+/**
+ * Poverty guideline for a household in a plan year (AK and HI use their own tables)
+ */
+export function getPovertyGuideline(
+  householdSize: number,
+  state?: string,
+  planYear: number = DEFAULT_PLAN_YEAR
+): number {
+  const { fpl } = getPlanYearRules(planYear);
+  const size = Math.max(1, Math.floor(householdSize));
+  const stateCode = state?.toUpperCase();
+
+  if (stateCode === 'AK') {
+    return fpl.ALASKA_BASE + (size - 1) * fpl.ALASKA_PER_ADDITIONAL;
+  }
+
+  if (stateCode === 'HI') {
+    return fpl.HAWAII_BASE + (size - 1) * fpl.HAWAII_PER_ADDITIONAL;
+  }
+
+  return fpl.BASE + (size - 1) * fpl.PER_ADDITIONAL_PERSON;
+}
+
+/**
+ * Whether income is above the plan year's subsidy cliff (never true under enhanced credits)
+ */
+export function isAboveSubsidyCliff(fplPercentage: number, planYear: number = DEFAULT_PLAN_YEAR): boolean {
+  const { subsidyCliffFPL } = getPlanYearRules(planYear);
+  return subsidyCliffFPL !== null && fplPercentage > subsidyCliffFPL;
+}
+
+function findBand(fplPercentage: number, bands: ApplicablePercentageBand[]): ApplicablePercentageBand {
+  for (const band of bands) {
+    if (fplPercentage <= band.fplMax) {
+      return band;
+    }
+  }
+  return bands[bands.length - 1]!;
+}
+
+/**
+ * Sliding-scale applicable percentage (statutory linear interpolation within each band)
+ *
+ * Above the last band the final percentage is returned; callers check
+ * isAboveSubsidyCliff() for eligibility.
+ */
+export function getApplicablePercentage(fplPercentage: number, planYear: number = DEFAULT_PLAN_YEAR): number {
+  const { applicablePercentages } = getPlanYearRules(planYear);
+  const band = findBand(Math.max(0, fplPercentage), applicablePercentages);
+
+  if (fplPercentage > band.fplMax || !Number.isFinite(band.fplMax)) {
+    return band.finalPercentage;
+  }
+
+  const position = Math.max(0, (fplPercentage - band.fplMin) / (band.fplMax - band.fplMin));
+  return band.initialPercentage + position * (band.finalPercentage - band.initialPercentage);
+}
+
+/**
+ * Single-rate applicable percentage for the band containing the FPL percentage
+ */
+export function getFlatApplicablePercentage(fplPercentage: number, planYear: number = DEFAULT_PLAN_YEAR): number {
+  const { applicablePercentages } = getPlanYearRules(planYear);
+
+  if (fplPercentage <= 0) {
+    return applicablePercentages[0]!.flatPercentage;
+  }
+
+  return findBand(fplPercentage, applicablePercentages).flatPercentage;
+}
+
+/**
+ * Excess APTC repayment limit for a household (null = no limit, repay in full)
+ *
+ * Income below 200% FPL uses the first band; 400% FPL and above is never capped.
+ */
+export function getRepaymentCap(
+  fplPercentage: number,
+  filingStatus: string,
+  planYear: number = DEFAULT_PLAN_YEAR
+): number | null {
+  const { repaymentCaps } = getPlanYearRules(planYear);
+  if (!repaymentCaps) {
+    return null;
+  }
+
+  const band = repaymentCaps.find(cap => fplPercentage < cap.fplMax);
+  if (!band) {
+    return null;
+  }
+
+  return filingStatus === 'single' ? band.single : band.other;
+}
@@ -108,6 +108,8 @@ export interface ProjectionInput {
   healthStatus?: 'excellent' | 'good' | 'fair' | 'poor';
   /** Known chronic conditions affecting costs */
   chronicConditions?: string[];
+  /** Plan year whose imported base rates price the first year */
+  planYear?: number;
 }
 
 // ============================================================================
@@ -172,6 +174,7 @@ export function generateMultiYearProjection(input: ProjectionInput): LifetimePro
     currentMonthlyPremium,
     healthStatus = 'good',
     chronicConditions = [],
+    planYear,
   } = input;
 
   // Determine projection range
@@ -185,7 +188,7 @@ export function generateMultiYearProjection(input: ProjectionInput): LifetimePro
   };
 
   // Get base costs
-  const basePremium = currentMonthlyPremium ?? calculateBasePremium(currentAge, state, metalTier, usesTobacco);
+  const basePremium = currentMonthlyPremium ?? calculateBasePremium(currentAge, state, metalTier, usesTobacco, planYear);
   const baseMedicalCost = calculateBaseMedicalCost(currentAge, healthStatus, chronicConditions);
 
   // Generate projections
@@ -284,9 +287,10 @@ function calculateBasePremium(
   age: number,
   state: string,
   metalTier: MetalTier,
-  usesTobacco: boolean
+  usesTobacco: boolean,
+  planYear?: number
 ): number {
-  const baseRate = getStateBaseRate(state);
+  const baseRate = getStateBaseRate(state, planYear);
   const ageFactor = getAgeRatingFactor(age);
   const tierMultiplier = METAL_TIER_MULTIPLIERS[metalTier];
 
@@ -12,8 +12,9 @@
  */
 
 import { getHouseholdPremiumRange, MetalTier } from './age-rating';
-import { calculatePremiumTaxCredit, calculateFPL, calculateMAGI, MAGIComponents } from './advanced-subsidy';
+import { calculatePremiumTaxCredit, calculateFPL, calculateMAGI, MAGIComponents, CSRLevel } from './advanced-subsidy';
 import { analyzeTotalCostOfCare, determineUtilizationScenario, UtilizationScenario } from './total-cost-of-care';
+import { getCSRVariantLabel } from './csr-variants';
 import { assessActuarialRisk } from './actuarial-models';
 import { STATE_METADATA, isInCoverageGap, isMedicaidEligible } from '../data/state-constants';
 import { analyzeRelocationOpportunity } from './multi-state-analysis';
@@ -30,6 +31,7 @@ interface EligibilityResult {
   premiumTaxCredit: boolean;
   monthlyPTC: number;
   inCoverageGap: boolean;
+  csrLevel: CSRLevel;
 }
 
 interface RecommendedPlan {
@@ -100,6 +102,7 @@ export interface ComprehensiveRecommendation {
       premiumTaxCredit: boolean;
       monthlyPTC: number;
       inCoverageGap: boolean;
+      csrLevel: CSRLevel;
     };
     costs: {
       lowestTotalCost: number;
@@ -305,6 +308,7 @@ function analyzeEligibility(input: RecommendationInput, magi: number) {
 
   let monthlyPTC = 0;
   let premiumTaxCreditEligible = false;
+  let csrLevel: CSRLevel = 'None';
 
   // Calculate PTC if not Medicaid eligible
   if (!medicaidEligible && !inCoverageGap) {
@@ -314,6 +318,8 @@ function analyzeEligibility(input: RecommendationInput, magi: number) {
 
     monthlyPTC = ptcResult.monthlyPTC;
     premiumTaxCreditEligible = monthlyPTC > 0;
+    // CSR requires PTC eligibility
+    csrLevel = ptcResult.ptcEligible ? ptcResult.csrLevel : 'None';
   }
 
   // Medicaid Eligibility
@@ -367,6 +373,9 @@ function analyzeEligibility(input: RecommendationInput, magi: number) {
         `Annual subsidy: $${Math.round(annualPTC).toLocaleString()}`,
         `Your income is ${Math.round(fplPercentage)}% of FPL`,
         'Subsidies apply to Silver plans on the marketplace',
+        ...(csrLevel !== 'None'
+          ? [`Silver plans include ${csrLevel} cost-sharing reductions (lower deductible and out-of-pocket maximum)`]
+          : []),
       ],
       action: 'Apply for marketplace coverage with Premium Tax Credits',
       urgency: 'moderate',
@@ -379,6 +388,7 @@ function analyzeEligibility(input: RecommendationInput, magi: number) {
     premiumTaxCredit: premiumTaxCreditEligible,
     monthlyPTC,
     inCoverageGap,
+    csrLevel,
   };
 
   return { recommendations, warnings, eligibility };
@@ -414,7 +424,7 @@ function analyzeCostsAndCoverage(input: RecommendationInput, _magi: number, elig
 
   // Analyze total cost of care
   const expectedMedicalCosts = input.expectedMedicalCosts ?? getEstimatedMedicalCostByAge(input.age);
-  const tccAnalysis = analyzeTotalCostOfCare(adjustedRange, expectedMedicalCosts, utilization);
+  const tccAnalysis = analyzeTotalCostOfCare(adjustedRange, expectedMedicalCosts, utilization, eligibility.csrLevel);
 
   // Recommended plan is the one with lowest total cost
   const recommended = tccAnalysis[0];
@@ -433,7 +443,7 @@ function analyzeCostsAndCoverage(input: RecommendationInput, _magi: number, elig
     recommendations.push({
       priority: 3,
       category: 'cost',
-      title: `Best Value: ${recommended.metalTier} Plan`,
+      title: `Best Value: ${recommended.csrLevel ? getCSRVariantLabel(recommended.csrLevel) : recommended.metalTier} Plan`,
       summary: `Lowest total annual cost: $${recommended.totalAnnualCost.toLocaleString()}`,
       details: [
         `Monthly premium: $${Math.round(recommended.annualPremium / 12).toLocaleString()}`,
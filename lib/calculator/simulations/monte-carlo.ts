@@ -5,6 +5,9 @@
  * Uses Web Workers for non-blocking simulation when available.
  */
 
+import type { CSRLevel } from '../advanced-subsidy';
+import { getCSRVariant } from '../csr-variants';
+
 // Types
 export interface MonteCarloConfig {
   /** Number of iterations (default 1000 for MVP, up to 10000 for enhanced) */
@@ -456,10 +459,12 @@ function generateHistogramData(
 
 /**
  * Quick simulation for common plan types
+ * Silver is simulated as the CSR variant when a CSR level is given
  */
 export async function simulatePlanCosts(
   expectedMedicalCosts: number,
-  planType: 'bronze' | 'silver' | 'gold' | 'platinum' | 'hdhp'
+  planType: 'bronze' | 'silver' | 'gold' | 'platinum' | 'hdhp',
+  csrLevel: CSRLevel = 'None'
 ): Promise<MonteCarloAnalysis> {
   const planParameters = {
     bronze: { deductible: 7000, outOfPocketMax: 9450 },
@@ -469,7 +474,10 @@ export async function simulatePlanCosts(
     hdhp: { deductible: 3200, outOfPocketMax: 8050 },
   };
 
-  const params = planParameters[planType];
+  const variant = planType === 'silver' ? getCSRVariant(csrLevel) : null;
+  const params = variant
+    ? { deductible: variant.deductible, outOfPocketMax: variant.oopMaximum }
+    : planParameters[planType];
 
   return generateMonteCarloAnalysis({
     baseCost: expectedMedicalCosts,
@@ -10,16 +10,21 @@ import { getMedicaidApplicationSteps, formatActionStep } from '../concreteAction
 import { logger } from '../logger';
 import {
   FPL_THRESHOLDS,
-  PREMIUM_CONTRIBUTION_RATE,
   getEffectiveIncome,
   DEFAULT_INCOME_ASSUMPTION,
 } from '../medicalCostConstants';
 import { getSLCSP, type SLCSPResult } from '../utils/slcsp-lookup';
-
-// 2025 Federal Poverty Level (FPL) Guidelines
+import {
+  DEFAULT_PLAN_YEAR,
+  getPlanYearRules,
+  getPovertyGuideline,
+  getFlatApplicablePercentage,
+  isAboveSubsidyCliff,
+} from './plan-year-rules';
+
+// Federal Poverty Level (FPL) Guidelines and contribution percentages are
+// resolved per plan year through plan-year-rules.ts
 // Source: https://aspe.hhs.gov/poverty-guidelines
-const FPL_2025_BASE = 15060; // Individual (updated from 2024)
-const FPL_2025_PER_PERSON = 5450; // Additional per person (updated from 2024)
 
 // Medicaid expansion states (as of 2025)
 const MEDICAID_EXPANSION_STATES = [
@@ -32,6 +37,9 @@ const MEDICAID_EXPANSION_STATES = [
 // Note: INCOME_RANGE_MIDPOINTS is now imported from medicalCostConstants.ts
 
 export interface SubsidyResult {
+  // Plan year whose FPL and contribution tables were applied
+  planYear: number;
+
   // Eligibility
   medicaidEligible: boolean;
   subsidyEligible: boolean;
@@ -60,15 +68,14 @@ export interface SubsidyResult {
 }
 
 /**
- * Calculate household Federal Poverty Level
+ * Calculate household Federal Poverty Level for a plan year
  */
-function calculateFPL(householdSize: number): number {
+function calculateFPL(householdSize: number, state: string, planYear: number): number {
   // Ensure at least 1 person
   if (householdSize < 1) {
     logger.warn('Invalid household size for FPL calculation, using 1', { householdSize });
-    return FPL_2025_BASE;
   }
-  return FPL_2025_BASE + (householdSize - 1) * FPL_2025_PER_PERSON;
+  return getPovertyGuideline(householdSize, state, planYear);
 }
 
 /**
@@ -102,29 +109,19 @@ function getIncomeForCalculation(
  * health insurance premiums. The difference between this and the SLCSP premium
  * is the Premium Tax Credit (PTC) amount.
  *
- * Source: ACA Premium Contribution Percentages for 2025
+ * Source: ACA Premium Contribution Percentages by plan year (see plan-year-rules.ts)
  * Reference: 26 U.S.C. § 36B (Internal Revenue Code)
  * CMS Notice: https://www.cms.gov/CCIIO/Resources/Regulations-and-Guidance
- * IRS Rev. Proc. 2024-XX (Published annually in November)
  *
  * Note: These percentages are indexed and updated annually by the IRS.
- * Last verified: November 2024 for Plan Year 2025
- *
- * The Inflation Reduction Act (IRA) extended enhanced subsidies through 2025,
- * which cap contributions at 8.5% for all income levels up to 400% FPL.
  *
  * @param fplPercentage - Household income as percentage of Federal Poverty Level
+ * @param planYear - Plan year whose applicable-percentage table applies
  * @returns Maximum affordable percentage of income for health insurance
  */
-function calculateAffordablePercentage(fplPercentage: number): number {
-  // 2025 ACA Premium Contribution Schedule (with IRA enhancements)
-  // FPL Range       | Initial % | Final %  | Midpoint used
-  if (fplPercentage <= 150) return 0.02;   // 100-150% FPL: 0% - 2% → use 2%
-  if (fplPercentage <= 200) return 0.04;   // 150-200% FPL: 2% - 4% → use 4%
-  if (fplPercentage <= 250) return 0.065;  // 200-250% FPL: 4% - 6.5% → use 6.5%
-  if (fplPercentage <= 300) return PREMIUM_CONTRIBUTION_RATE.STANDARD; // 250-300% FPL: 6.5% - 8.5%
-  if (fplPercentage <= FPL_THRESHOLDS.PTC_MAX) return PREMIUM_CONTRIBUTION_RATE.STANDARD; // 300-400% FPL: 8.5%
-  return 1.0; // Above 400% FPL: No subsidy - pay full premium
+function calculateAffordablePercentage(fplPercentage: number, planYear: number): number {
+  if (isAboveSubsidyCliff(fplPercentage, planYear)) return 1.0; // Above the cliff: No subsidy - pay full premium
+  return getFlatApplicablePercentage(fplPercentage, planYear);
 }
 
 /**
@@ -137,6 +134,7 @@ function calculateAffordablePercentage(fplPercentage: number): number {
  * @param states - Array of state codes
  * @param zipCode - Optional ZIP code for real SLCSP lookup
  * @param ages - Optional array of ages for real SLCSP lookup
+ * @param planYear - Marketplace plan year whose FPL and contribution tables apply
  * @returns Subsidy calculation with real or estimated benchmark data
  */
 export async function calculateSubsidyWithRealSLCSP(
@@ -146,15 +144,17 @@ export async function calculateSubsidyWithRealSLCSP(
   numChildren: number,
   states: string[],
   zipCode?: string,
-  ages?: number[]
+  ages?: number[],
+  planYear: number = DEFAULT_PLAN_YEAR
 ): Promise<SubsidyResult> {
   const householdSize = numAdults + numChildren;
+  const resolvedPlanYear = getPlanYearRules(planYear).planYear;
   const estimatedIncome = getIncomeForCalculation(annualIncome, incomeRange);
-  const householdFPL = calculateFPL(householdSize);
-  const fplPercentage = (estimatedIncome / householdFPL) * 100;
 
   // Check if in Medicaid expansion state
   const primaryState = (states && states.length > 0 && states[0]) ? states[0] : '';
+  const householdFPL = calculateFPL(householdSize, primaryState, resolvedPlanYear);
+  const fplPercentage = (estimatedIncome / householdFPL) * 100;
   const medicaidState = primaryState ? MEDICAID_EXPANSION_STATES.includes(primaryState.toUpperCase()) : false;
 
   if (!primaryState) {
@@ -164,10 +164,12 @@ export async function calculateSubsidyWithRealSLCSP(
   // Determine Medicaid eligibility
   const medicaidEligible = medicaidState && fplPercentage < FPL_THRESHOLDS.MEDICAID_EXPANSION;
 
-  // Determine subsidy eligibility (138-400% FPL, or 100-400% in non-expansion states)
+  // Determine subsidy eligibility (from 138% FPL, or 100% in non-expansion states, up to
+  // the plan year's subsidy cliff; enhanced-credit years have no cliff)
+  const aboveSubsidyCliff = isAboveSubsidyCliff(fplPercentage, resolvedPlanYear);
   const subsidyEligible = !medicaidEligible &&
     fplPercentage >= (medicaidState ? FPL_THRESHOLDS.MEDICAID_EXPANSION : FPL_THRESHOLDS.MEDICAID_NON_EXPANSION) &&
-    fplPercentage <= FPL_THRESHOLDS.PTC_MAX;
+    !aboveSubsidyCliff;
 
   // Get SLCSP (real or estimate)
   let slcspResult: SLCSPResult | null = null;
@@ -193,7 +195,7 @@ export async function calculateSubsidyWithRealSLCSP(
 
   // Calculate subsidy
   let estimatedMonthlySubsidy = 0;
-  const maxAffordablePercentage = calculateAffordablePercentage(fplPercentage);
+  const maxAffordablePercentage = calculateAffordablePercentage(fplPercentage, resolvedPlanYear);
 
   if (subsidyEligible) {
     const maxAffordableAmount = (estimatedIncome / 12) * maxAffordablePercentage;
@@ -239,9 +241,9 @@ export async function calculateSubsidyWithRealSLCSP(
       `Compare plans after subsidy - you may find very affordable options`,
       `Bring proof of income when applying (tax returns, pay stubs)`
     );
-  } else if (fplPercentage > FPL_THRESHOLDS.PTC_MAX) {
+  } else if (aboveSubsidyCliff) {
     explanation = `Based on your household income (approximately ${fplPercentage.toFixed(0)}% of FPL), ` +
-      `you do not qualify for premium tax credits as your income exceeds ${FPL_THRESHOLDS.PTC_MAX}% of the Federal Poverty Level. ` +
+      `you do not qualify for premium tax credits as your income exceeds ${getPlanYearRules(resolvedPlanYear).subsidyCliffFPL}% of the Federal Poverty Level. ` +
       `You can still purchase marketplace plans at full price, or explore employer coverage if available.`;
 
     actionItems.push(
@@ -263,6 +265,7 @@ export async function calculateSubsidyWithRealSLCSP(
   }
 
   return {
+    planYear: resolvedPlanYear,
     medicaidEligible,
     subsidyEligible,
     estimatedIncome,
@@ -290,16 +293,18 @@ export function calculateSubsidy(
   incomeRange: string | undefined,
   numAdults: number,
   numChildren: number,
-  states: string[]
+  states: string[],
+  planYear: number = DEFAULT_PLAN_YEAR
 ): SubsidyResult {
   const householdSize = numAdults + numChildren;
+  const resolvedPlanYear = getPlanYearRules(planYear).planYear;
   const estimatedIncome = getIncomeForCalculation(annualIncome, incomeRange);
-  const householdFPL = calculateFPL(householdSize);
-  const fplPercentage = (estimatedIncome / householdFPL) * 100;
 
   // Check if in Medicaid expansion state
   // Ensure states array is not empty
   const primaryState = (states && states.length > 0 && states[0]) ? states[0] : '';
+  const householdFPL = calculateFPL(householdSize, primaryState, resolvedPlanYear);
+  const fplPercentage = (estimatedIncome / householdFPL) * 100;
   const medicaidState = primaryState ? MEDICAID_EXPANSION_STATES.includes(primaryState.toUpperCase()) : false;
 
   if (!primaryState) {
@@ -309,14 +314,16 @@ export function calculateSubsidy(
   // Determine Medicaid eligibility
   const medicaidEligible = medicaidState && fplPercentage < FPL_THRESHOLDS.MEDICAID_EXPANSION;
 
-  // Determine subsidy eligibility (138-400% FPL, or 100-400% in non-expansion states)
+  // Determine subsidy eligibility (from 138% FPL, or 100% in non-expansion states, up to
+  // the plan year's subsidy cliff; enhanced-credit years have no cliff)
+  const aboveSubsidyCliff = isAboveSubsidyCliff(fplPercentage, resolvedPlanYear);
   const subsidyEligible = !medicaidEligible &&
     fplPercentage >= (medicaidState ? FPL_THRESHOLDS.MEDICAID_EXPANSION : FPL_THRESHOLDS.MEDICAID_NON_EXPANSION) &&
-    fplPercentage <= FPL_THRESHOLDS.PTC_MAX;
+    !aboveSubsidyCliff;
 
   // Calculate subsidy
   let estimatedMonthlySubsidy = 0;
-  const maxAffordablePercentage = calculateAffordablePercentage(fplPercentage);
+  const maxAffordablePercentage = calculateAffordablePercentage(fplPercentage, resolvedPlanYear);
 
   if (subsidyEligible) {
     // Assume average benchmark plan cost of $500/month per person
@@ -363,9 +370,9 @@ export function calculateSubsidy(
       `Compare plans after subsidy - you may find very affordable options`,
       `Bring proof of income when applying (tax returns, pay stubs)`
     );
-  } else if (fplPercentage > FPL_THRESHOLDS.PTC_MAX) {
+  } else if (aboveSubsidyCliff) {
     explanation = `Based on your household income (approximately ${fplPercentage.toFixed(0)}% of FPL), ` +
-      `you do not qualify for premium tax credits as your income exceeds ${FPL_THRESHOLDS.PTC_MAX}% of the Federal Poverty Level. ` +
+      `you do not qualify for premium tax credits as your income exceeds ${getPlanYearRules(resolvedPlanYear).subsidyCliffFPL}% of the Federal Poverty Level. ` +
       `You can still purchase marketplace plans at full price, or explore employer coverage if available.`;
 
     actionItems.push(
@@ -387,6 +394,7 @@ export function calculateSubsidy(
   }
 
   return {
+    planYear: resolvedPlanYear,
     medicaidEligible,
     subsidyEligible,
     estimatedIncome,
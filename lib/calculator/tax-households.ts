@@ -0,0 +1,466 @@
+/**
+ * Tax Household Support
+ *
+ * One residence can contain several tax filing units: unmarried partners,
+ * adult children under 26 who file their own return, or parents claimed as
+ * dependents by their children. Marketplace eligibility, FPL and the SLCSP
+ * are determined per tax household, so each filing unit is analyzed on its
+ * own and the results are combined for the residence.
+ */
+
+import type { CalculatorFormData, FormErrors, TaxHousehold, TaxHouseholdSubsidy } from '@/types';
+import { calculateSubsidy, calculateSubsidyWithRealSLCSP, type SubsidyResult } from './subsidyCalculator';
+import { determineMedicaidEligibility } from './medicaid-eligibility';
+import { logger } from '@/lib/logger';
+
+export const MAX_TAX_HOUSEHOLDS = 4;
+
+const PRIMARY_TAX_HOUSEHOLD_ID = 'primary';
+
+/**
+ * Tax household with member ages resolved from the form
+ */
+export interface ResolvedTaxHousehold {
+  id: string;
+  label: string;
+  isPrimary: boolean;
+  adultAges: number[];
+  childAges: number[];
+  annualIncome: number | null;
+}
+
+/**
+ * Combined subsidy for a residence with several tax households
+ */
+export interface TaxHouseholdSubsidyAnalysis {
+  /** Residence-level result (subsidies summed, FPL of the primary household) */
+  combined: SubsidyResult;
+  /** Result for each tax household */
+  taxHouseholds: TaxHouseholdSubsidy[];
+}
+
+// ============================================================================
+// FORM MODEL HELPERS
+// ============================================================================
+
+/**
+ * Whether the form describes more than one tax filing unit
+ */
+export function hasMultipleTaxHouseholds(formData: Pick<CalculatorFormData, 'taxHouseholds'>): boolean {
+  return (formData.taxHouseholds?.length ?? 0) > 1;
+}
+
+/**
+ * Resolve tax households with member ages
+ *
+ * Without separate tax households, everyone belongs to one primary household.
+ */
+export function resolveTaxHouseholds(
+  formData: Pick<CalculatorFormData, 'adultAges' | 'childAges' | 'annualIncome' | 'taxHouseholds'>
+): ResolvedTaxHousehold[] {
+  if (!formData.taxHouseholds || formData.taxHouseholds.length <= 1) {
+    return [{
+      id: PRIMARY_TAX_HOUSEHOLD_ID,
+      label: 'Your household',
+      isPrimary: true,
+      adultAges: [...formData.adultAges],
+      childAges: [...formData.childAges],
+      annualIncome: formData.annualIncome,
+    }];
+  }
+
+  return formData.taxHouseholds.map((household, index) => ({
+    id: household.id,
+    label: household.label,
+    isPrimary: index === 0,
+    adultAges: household.adultIndexes
+      .map(i => formData.adultAges[i])
+      .filter((age): age is number => age !== undefined),
+    childAges: household.childIndexes
+      .map(i => formData.childAges[i])
+      .filter((age): age is number => age !== undefined),
+    annualIncome: index === 0 ? household.annualIncome ?? formData.annualIncome : household.annualIncome,
+  }));
+}
+
+/**
+ * Split a residence into two tax households
+ * The first adult and all children stay in the primary household.
+ */
+export function createSeparateTaxHouseholds(numAdults: number, numChildren: number): TaxHousehold[] {
+  return [
+    {
+      id: PRIMARY_TAX_HOUSEHOLD_ID,
+      label: 'Tax household 1',
+      adultIndexes: numAdults > 0 ? [0] : [],
+      childIndexes: Array.from({ length: numChildren }, (_, i) => i),
+      annualIncome: null,
+    },
+    {
+      id: 'household-2',
+      label: 'Tax household 2',
+      adultIndexes: Array.from({ length: Math.max(0, numAdults - 1) }, (_, i) => i + 1),
+      childIndexes: [],
+      annualIncome: null,
+    },
+  ];
+}
+
+/**
+ * Add an empty tax household
+ */
+export function addTaxHousehold(households: TaxHousehold[]): TaxHousehold[] {
+  if (households.length >= MAX_TAX_HOUSEHOLDS) {
+    return households;
+  }
+
+  const usedIds = new Set(households.map(h => h.id));
+  let next = households.length + 1;
+  while (usedIds.has(`household-${next}`)) {
+    next++;
+  }
+
+  return [
+    ...households,
+    {
+      id: `household-${next}`,
+      label: `Tax household ${households.length + 1}`,
+      adultIndexes: [],
+      childIndexes: [],
+      annualIncome: null,
+    },
+  ];
+}
+
+/**
+ * Remove a tax household, moving its members to the primary household
+ */
+export function removeTaxHousehold(households: TaxHousehold[], householdId: string): TaxHousehold[] {
+  const removed = households.find(h => h.id === householdId);
+  const primary = households[0];
+  if (!removed || !primary || removed === primary) {
+    return households;
+  }
+
+  return households
+    .filter(h => h !== removed)
+    .map(h => h === primary
+      ? {
+          ...h,
+          adultIndexes: [...h.adultIndexes, ...removed.adultIndexes].sort((a, b) => a - b),
+          childIndexes: [...h.childIndexes, ...removed.childIndexes].sort((a, b) => a - b),
+        }
+      : h);
+}
+
+/**
+ * Move a household member to another tax household
+ */
+export function assignTaxHouseholdMember(
+  households: TaxHousehold[],
+  memberType: 'adult' | 'child',
+  memberIndex: number,
+  householdId: string
+): TaxHousehold[] {
+  const key = memberType === 'adult' ? 'adultIndexes' : 'childIndexes';
+
+  return households.map(h => {
+    const without = h[key].filter(i => i !== memberIndex);
+    return {
+      ...h,
+      [key]: h.id === householdId ? [...without, memberIndex].sort((a, b) => a - b) : without,
+    };
+  });
+}
+
+/**
+ * Keep tax household assignments in step with the adult and child counts
+ * Members beyond the count are dropped; new members join the primary household.
+ */
+export function syncTaxHouseholds(
+  households: TaxHousehold[],
+  numAdults: number,
+  numChildren: number
+): TaxHousehold[] {
+  const trimmed = households.map(h => ({
+    ...h,
+    adultIndexes: h.adultIndexes.filter(i => i < numAdults),
+    childIndexes: h.childIndexes.filter(i => i < numChildren),
+  }));
+
+  const assignedAdults = new Set(trimmed.flatMap(h => h.adultIndexes));
+  const assignedChildren = new Set(trimmed.flatMap(h => h.childIndexes));
+
+  return trimmed.map((h, index) => index === 0
+    ? {
+        ...h,
+        adultIndexes: [
+          ...h.adultIndexes,
+          ...Array.from({ length: numAdults }, (_, i) => i).filter(i => !assignedAdults.has(i)),
+        ].sort((a, b) => a - b),
+        childIndexes: [
+          ...h.childIndexes,
+          ...Array.from({ length: numChildren }, (_, i) => i).filter(i => !assignedChildren.has(i)),
+        ].sort((a, b) => a - b),
+      }
+    : h);
+}
+
+/**
+ * Validate tax household assignments
+ */
+export function validateTaxHouseholds(
+  households: TaxHousehold[] | undefined,
+  numAdults: number,
+  numChildren: number
+): FormErrors {
+  const errors: FormErrors = {};
+  if (!households || households.length <= 1) {
+    return errors;
+  }
+
+  if (households.length > MAX_TAX_HOUSEHOLDS) {
+    errors.taxHouseholds = `A residence can have at most ${MAX_TAX_HOUSEHOLDS} tax households`;
+    return errors;
+  }
+
+  const adultCounts = new Map<number, number>();
+  const childCounts = new Map<number, number>();
+  households.forEach(h => {
+    h.adultIndexes.forEach(i => adultCounts.set(i, (adultCounts.get(i) ?? 0) + 1));
+    h.childIndexes.forEach(i => childCounts.set(i, (childCounts.get(i) ?? 0) + 1));
+  });
+
+  for (let i = 0; i < numAdults; i++) {
+    if (adultCounts.get(i) !== 1) {
+      errors.taxHouseholds = `Assign adult ${i + 1} to exactly one tax household`;
+      break;
+    }
+  }
+
+  if (!errors.taxHouseholds) {
+    for (let i = 0; i < numChildren; i++) {
+      if (childCounts.get(i) !== 1) {
+        errors.taxHouseholds = `Assign child ${i + 1} to exactly one tax household`;
+        break;
+      }
+    }
+  }
+
+  households.forEach((h, index) => {
+    if (h.adultIndexes.length === 0) {
+      errors[`taxHousehold${index}`] = `${h.label} needs at least one adult who files the return`;
+    } else if (index > 0 && (h.annualIncome === null || h.annualIncome < 0)) {
+      errors[`taxHousehold${index}Income`] = `Enter the annual income for ${h.label}`;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Serialize tax households for the results URL
+ */
+export function serializeTaxHouseholds(households: TaxHousehold[]): string {
+  return JSON.stringify(households.map(h => ({
+    id: h.id,
+    label: h.label,
+    a: h.adultIndexes,
+    c: h.childIndexes,
+    i: h.annualIncome,
+  })));
+}
+
+/**
+ * Parse tax households from the results URL (undefined when missing or malformed)
+ */
+export function parseTaxHouseholds(param: string | null): TaxHousehold[] | undefined {
+  if (!param) {
+    return undefined;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(param);
+    if (!Array.isArray(parsed) || parsed.length > MAX_TAX_HOUSEHOLDS) {
+      return undefined;
+    }
+
+    const isIndexList = (value: unknown): value is number[] =>
+      Array.isArray(value) && value.every(v => Number.isInteger(v) && v >= 0);
+
+    const households: TaxHousehold[] = [];
+    for (const item of parsed) {
+      if (
+        typeof item !== 'object' || item === null ||
+        typeof item.id !== 'string' || typeof item.label !== 'string' ||
+        !isIndexList(item.a) || !isIndexList(item.c) ||
+        (item.i !== null && typeof item.i !== 'number')
+      ) {
+        return undefined;
+      }
+      households.push({
+        id: item.id,
+        label: item.label.slice(0, 50),
+        adultIndexes: item.a,
+        childIndexes: item.c,
+        annualIncome: item.i,
+      });
+    }
+
+    return households;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// SUBSIDY ANALYSIS
+// ============================================================================
+
+/**
+ * Calculate eligibility, FPL and SLCSP for each tax household
+ *
+ * Returns null when no household needs a marketplace subsidy analysis.
+ */
+export async function analyzeTaxHouseholdSubsidies(
+  formData: CalculatorFormData,
+  states: string[]
+): Promise<TaxHouseholdSubsidyAnalysis | null> {
+  const households = resolveTaxHouseholds(formData);
+  const primaryZip = formData.residences[0]?.zip;
+
+  const analyzed = await Promise.all(households.map(async household => {
+    const ages = [...household.adultAges, ...household.childAges];
+    const medicareOnly = household.childAges.length === 0 &&
+      household.adultAges.length > 0 &&
+      household.adultAges.every(age => age >= 65);
+
+    if (medicareOnly || ages.length === 0) {
+      return { household, ages, medicareOnly, result: null };
+    }
+
+    const incomeRange = household.isPrimary ? formData.incomeRange : undefined;
+    const result = primaryZip
+      ? await calculateSubsidyWithRealSLCSP(
+          household.annualIncome,
+          incomeRange,
+          household.adultAges.length,
+          household.childAges.length,
+          states,
+          primaryZip,
+          ages,
+          formData.planYear
+        )
+      : calculateSubsidy(
+          household.annualIncome,
+          incomeRange,
+          household.adultAges.length,
+          household.childAges.length,
+          states,
+          formData.planYear
+        );
+
+    return { household, ages, medicareOnly, result };
+  }));
+
+  const taxHouseholds: TaxHouseholdSubsidy[] = analyzed.map(({ household, ages, medicareOnly, result }) => ({
+    taxHouseholdId: household.id,
+    label: household.label,
+    householdSize: ages.length,
+    memberAges: ages,
+    annualIncome: result?.estimatedIncome ?? household.annualIncome ?? 0,
+    fplPercentage: result?.fplPercentage ?? 0,
+    medicareOnly,
+    medicaidEligible: result?.medicaidEligible ?? false,
+    subsidyEligible: result?.subsidyEligible ?? false,
+    estimatedMonthlySubsidy: result?.estimatedMonthlySubsidy ?? 0,
+    benchmarkPremium: result?.benchmarkPremium,
+    isRealSLCSP: result?.isRealSLCSP,
+    medicaidEligibility: result && states[0]
+      ? determineMedicaidEligibility({
+          state: states[0],
+          annualMAGI: result.estimatedIncome,
+          members: ages.map(age => ({ age })),
+          planYear: result.planYear,
+        })
+      : undefined,
+    explanation: result?.explanation ??
+      (medicareOnly ? 'Everyone in this tax household is 65 or older and should enroll in Medicare.' : 'No members assigned.'),
+  }));
+
+  const results = analyzed
+    .map(a => a.result)
+    .filter((r): r is SubsidyResult => r !== null);
+  if (results.length === 0) {
+    return null;
+  }
+
+  // The residence reports the primary filer's FPL; fall back to the first
+  // marketplace household when the primary household is Medicare only or empty
+  const warnings: string[] = [];
+  let reference = analyzed.find(a => a.household.isPrimary && a.result !== null);
+  if (!reference) {
+    reference = analyzed.find(a => a.result !== null)!;
+    const primaryLabel = analyzed.find(a => a.household.isPrimary)?.household.label ?? 'The primary tax household';
+    warnings.push(
+      `${primaryLabel} does not need marketplace coverage, so the household FPL shown is for ${reference.household.label}.`
+    );
+    logger.warn('Primary tax household has no subsidy result, using another household', {
+      referenceHousehold: reference.household.id,
+    });
+  }
+  const primary = reference.result!;
+
+  const marketplaceHouseholds = taxHouseholds.filter(h => !h.medicareOnly && h.householdSize > 0);
+  const benchmarks = results.map(r => r.benchmarkPremium).filter((b): b is number => b !== undefined);
+
+  const combined: SubsidyResult = {
+    planYear: primary.planYear,
+    medicaidEligible: results.every(r => r.medicaidEligible),
+    subsidyEligible: results.some(r => r.subsidyEligible),
+    estimatedIncome: results.reduce((sum, r) => sum + r.estimatedIncome, 0),
+    householdFPL: primary.householdFPL,
+    fplPercentage: primary.fplPercentage,
+    estimatedMonthlySubsidy: results.reduce((sum, r) => sum + r.estimatedMonthlySubsidy, 0),
+    maxAffordablePercentage: primary.maxAffordablePercentage,
+    benchmarkPremium: benchmarks.length > 0 ? benchmarks.reduce((sum, b) => sum + b, 0) : undefined,
+    isRealSLCSP: results.every(r => r.isRealSLCSP),
+    slcspSource: primary.slcspSource,
+    slcspPlanName: primary.slcspPlanName,
+    explanation: buildCombinedExplanation(taxHouseholds),
+    medicaidState: primary.medicaidState,
+    actionItems: [
+      ...warnings,
+      ...primary.actionItems,
+      ...marketplaceHouseholds.filter(h => h.taxHouseholdId !== reference.household.id).flatMap(h => h.medicaidEligible
+        ? [`${h.label} may qualify for Medicaid on its own. Apply separately for that tax household.`]
+        : []),
+      `Each tax household files its own marketplace application using the income on its own tax return.`,
+    ],
+  };
+
+  return { combined, taxHouseholds };
+}
+
+/**
+ * Residence-level explanation listing each tax household's result
+ */
+function buildCombinedExplanation(taxHouseholds: TaxHouseholdSubsidy[]): string {
+  const lines = taxHouseholds.map(h => {
+    if (h.medicareOnly) {
+      return `${h.label}: Medicare`;
+    }
+    const size = `${h.householdSize} ${h.householdSize === 1 ? 'person' : 'people'}`;
+    const fpl = `~${h.fplPercentage.toFixed(0)}% FPL`;
+    if (h.medicaidEligible) {
+      return `${h.label} (${size}, ${fpl}): likely Medicaid eligible`;
+    }
+    if (h.subsidyEligible) {
+      return `${h.label} (${size}, ${fpl}): about $${Math.round(h.estimatedMonthlySubsidy)}/month in premium tax credits`;
+    }
+    return `${h.label} (${size}, ${fpl}): no premium tax credit`;
+  });
+
+  return `Your residence includes ${taxHouseholds.length} tax households, so eligibility, FPL and the benchmark plan ` +
+    `are calculated separately for each return. ${lines.join('. ')}.`;
+}
@@ -7,6 +7,8 @@
  */
 
 import type { MetalTier } from './age-rating';
+import type { CSRLevel } from './advanced-subsidy';
+import { appliesCSR, getCSRVariant } from './csr-variants';
 
 /**
  * Utilization Scenarios
@@ -204,6 +206,22 @@ export const TYPICAL_COST_SHARING: Record<MetalTier, CostSharingStructure> = {
   },
 };
 
+/**
+ * Cost-sharing structure for a metal tier, using the CSR variant for eligible Silver enrollees
+ */
+export function getCostSharingStructure(metalTier: MetalTier, csrLevel: CSRLevel = 'None'): CostSharingStructure {
+  const variant = appliesCSR(metalTier, csrLevel) ? getCSRVariant(csrLevel) : null;
+  return variant ?? TYPICAL_COST_SHARING[metalTier];
+}
+
+/**
+ * Actuarial value for a metal tier, using the CSR variant for eligible Silver enrollees
+ */
+export function getActuarialValue(metalTier: MetalTier, csrLevel: CSRLevel = 'None'): number {
+  const variant = appliesCSR(metalTier, csrLevel) ? getCSRVariant(csrLevel) : null;
+  return variant?.actuarialValue ?? ACTUARIAL_VALUES[metalTier];
+}
+
 /**
  * Utilization Patterns by Scenario
  * Annual usage for different utilization levels
@@ -280,11 +298,13 @@ export const UTILIZATION_PATTERNS: Record<UtilizationScenario, UtilizationPatter
 
 /**
  * Calculate out-of-pocket costs for a utilization scenario
+ * Silver uses the CSR variant when the household has a CSR level
  */
 export function calculateOutOfPocketCosts(
   metalTier: MetalTier,
   utilizationScenario: UtilizationScenario,
-  expectedMedicalCosts: number
+  expectedMedicalCosts: number,
+  csrLevel: CSRLevel = 'None'
 ): {
   estimatedOOP: number;
   deductibleMet: boolean;
@@ -296,9 +316,9 @@ export function calculateOutOfPocketCosts(
     prescriptions: number;
   };
 } {
-  const costSharing = TYPICAL_COST_SHARING[metalTier];
+  const costSharing = getCostSharingStructure(metalTier, csrLevel);
   const utilization = UTILIZATION_PATTERNS[utilizationScenario];
-  const actuarialValue = ACTUARIAL_VALUES[metalTier];
+  const actuarialValue = getActuarialValue(metalTier, csrLevel);
 
   // Calculate copays
   const primaryCareCopays = utilization.primaryCareVisits * costSharing.primaryCareCopay;
@@ -351,6 +371,8 @@ export interface TCCAnalysis {
   totalAnnualCost: number;
   deductible: number;
   oopMaximum: number;
+  /** CSR variant applied (Silver only) */
+  csrLevel?: CSRLevel;
   ranking: number; // 1 = best value for this scenario
 }
 
@@ -360,19 +382,22 @@ export interface TCCAnalysis {
  * @param monthlyPremiums - Monthly premiums for each metal tier
  * @param expectedMedicalCosts - Expected annual medical costs
  * @param utilizationScenario - Expected utilization level
+ * @param csrLevel - Household CSR level (Silver is priced as the CSR variant)
  * @returns Analysis for each metal tier, sorted by total cost
  */
 export function analyzeTotalCostOfCare(
   monthlyPremiums: Record<MetalTier, number>,
   expectedMedicalCosts: number,
-  utilizationScenario: UtilizationScenario = 'medium'
+  utilizationScenario: UtilizationScenario = 'medium',
+  csrLevel: CSRLevel = 'None'
 ): TCCAnalysis[] {
   const tiers: MetalTier[] = ['Bronze', 'Silver', 'Gold', 'Platinum'];
   const analyses: TCCAnalysis[] = [];
 
   for (const tier of tiers) {
     const annualPremium = monthlyPremiums[tier] * 12;
-    const oop = calculateOutOfPocketCosts(tier, utilizationScenario, expectedMedicalCosts);
+    const oop = calculateOutOfPocketCosts(tier, utilizationScenario, expectedMedicalCosts, csrLevel);
+    const costSharing = getCostSharingStructure(tier, csrLevel);
     const totalAnnualCost = annualPremium + oop.estimatedOOP;
 
     analyses.push({
@@ -380,8 +405,9 @@ export function analyzeTotalCostOfCare(
       annualPremium,
       estimatedOOP: oop.estimatedOOP,
       totalAnnualCost,
-      deductible: TYPICAL_COST_SHARING[tier].deductible,
-      oopMaximum: TYPICAL_COST_SHARING[tier].oopMaximum,
+      deductible: costSharing.deductible,
+      oopMaximum: costSharing.oopMaximum,
+      csrLevel: appliesCSR(tier, csrLevel) ? csrLevel : undefined,
       ranking: 0, // Will be set after sorting
     });
   }
@@ -482,6 +508,19 @@ export function generateTCCRecommendations(
     }
   }
 
+  // CSR silver vs bronze guidance
+  const silver = analyses.find(a => a.metalTier === 'Silver');
+  if (silver?.csrLevel && bronze) {
+    const difference = bronze.totalAnnualCost - silver.totalAnnualCost;
+    recommendations.push(
+      difference > 0
+        ? `🎯 Your Silver plan includes ${silver.csrLevel} cost-sharing reductions ($${silver.deductible.toLocaleString()} deductible). ` +
+          `It costs $${Math.round(difference).toLocaleString()}/year less than Bronze for your expected care.`
+        : `🎯 Silver with ${silver.csrLevel} cost-sharing reductions lowers your deductible to $${silver.deductible.toLocaleString()} ` +
+          `and out-of-pocket maximum to $${silver.oopMaximum.toLocaleString()}. Only Silver plans include these reductions.`
+    );
+  }
+
   // OOP max warning
   const highOOP = analyses.filter(a => a.estimatedOOP > 5000);
   if (highOOP.length > 0 && utilizationScenario !== 'minimal') {
@@ -10,10 +10,12 @@ import {
   isMedicaidExpansionState,
   type MAGIOptimizerInput,
 } from '../magi';
+import { DEFAULT_PLAN_YEAR, getPovertyGuideline } from '@/lib/calculator/plan-year-rules';
 
 describe('MAGI Optimizer', () => {
-  // Helper to create base input
+  // Helper to create base input (figures below use the 2024 tables)
   const createBaseInput = (overrides: Partial<MAGIOptimizerInput> = {}): MAGIOptimizerInput => ({
+    planYear: 2024,
     estimatedMAGI: 50000,
     householdSize: 2,
     filingStatus: 'married_joint',
@@ -413,44 +415,49 @@ describe('MAGI Optimizer', () => {
   describe('calculateFPLPercent', () => {
     it('should calculate correct FPL percentage for household of 1', () => {
       // 2024 FPL for 1 person is $14,580
-      const fplPercent = calculateFPLPercent(14580, 1);
+      const fplPercent = calculateFPLPercent(14580, 1, 2024);
       expect(fplPercent).toBe(100);
     });
 
     it('should calculate correct FPL percentage for household of 2', () => {
       // 2024 FPL for 2 people is $19,720
-      const fplPercent = calculateFPLPercent(39440, 2);
+      const fplPercent = calculateFPLPercent(39440, 2, 2024);
       expect(fplPercent).toBe(200);
     });
 
     it('should calculate for larger households', () => {
       // 2024 FPL for 4 people is $30,000
-      const fplPercent = calculateFPLPercent(60000, 4);
+      const fplPercent = calculateFPLPercent(60000, 4, 2024);
       expect(fplPercent).toBe(200);
     });
 
     it('should handle households larger than 8', () => {
       // FPL for 9 should be $50,560 + $5,140 = $55,700
-      const fplPercent = calculateFPLPercent(55700, 9);
+      const fplPercent = calculateFPLPercent(55700, 9, 2024);
       expect(fplPercent).toBe(100);
     });
   });
 
   describe('getIncomeAtFPL', () => {
     it('should return income at 100% FPL', () => {
-      const income = getIncomeAtFPL(100, 1);
+      const income = getIncomeAtFPL(100, 1, 2024);
       expect(income).toBe(14580);
     });
 
     it('should return income at 200% FPL', () => {
-      const income = getIncomeAtFPL(200, 2);
+      const income = getIncomeAtFPL(200, 2, 2024);
       expect(income).toBe(39440);
     });
 
     it('should return income at 400% FPL', () => {
-      const income = getIncomeAtFPL(400, 1);
+      const income = getIncomeAtFPL(400, 1, 2024);
       expect(income).toBe(58320);
     });
+
+    it('should default to the current plan year', () => {
+      expect(getIncomeAtFPL(100, 1)).toBe(getPovertyGuideline(1, undefined, DEFAULT_PLAN_YEAR));
+      expect(analyzeMAGI(createBaseInput({ planYear: undefined })).planYear).toBe(DEFAULT_PLAN_YEAR);
+    });
   });
 
   describe('isMedicaidExpansionState', () => {
@@ -506,4 +513,68 @@ describe('MAGI Optimizer', () => {
       );
     });
   });
+
+  describe('Self-Employed Health Insurance Deduction', () => {
+    const createSelfEmployedInput = (overrides: Partial<MAGIOptimizerInput> = {}) =>
+      createBaseInput({
+        estimatedMAGI: undefined,
+        preDeductionMAGI: 60000,
+        householdSize: 1,
+        filingStatus: 'single',
+        state: 'NC',
+        benchmarkPremium: 500,
+        selfEmploymentIncome: 60000,
+        planYear: 2025,
+        ...overrides,
+      });
+
+    it('converges on a deduction equal to premiums not covered by the credit', () => {
+      const analysis = analyzeMAGI(createSelfEmployedInput());
+      const se = analysis.selfEmployedHealthInsurance!;
+
+      expect(se.converged).toBe(true);
+      expect(se.iterations).toBeGreaterThan(1);
+      expect(se.deduction).toBeCloseTo(se.annualPremium - se.annualPremiumTaxCredit, -1);
+      expect(se.magiAfterDeduction).toBe(60000 - se.deduction);
+
+      // The credit at the converged MAGI is the credit the deduction was based on
+      const credit = quickSubsidyCalculator(se.magiAfterDeduction, 1, 500, 2025).annualSubsidy;
+      expect(se.annualPremiumTaxCredit).toBeCloseTo(credit, -1);
+    });
+
+    it('runs the rest of the analysis on the post-deduction MAGI', () => {
+      const analysis = analyzeMAGI(createSelfEmployedInput());
+
+      expect(analysis.current.magi).toBe(analysis.selfEmployedHealthInsurance!.magiAfterDeduction);
+      expect(analysis.warnings.some((w) => w.includes('self-employed health insurance deduction'))).toBe(true);
+    });
+
+    it('limits the deduction to net self-employment profit', () => {
+      const analysis = analyzeMAGI(createSelfEmployedInput({
+        selfEmploymentIncome: 3000,
+        monthlyPlanPremium: 900,
+      }));
+      const se = analysis.selfEmployedHealthInsurance!;
+
+      expect(se.annualPremium).toBe(10800);
+      expect(se.deduction).toBeLessThanOrEqual(se.deductionLimit);
+      expect(se.deductionLimit).toBeLessThan(3000);
+    });
+
+    it('takes no deduction without self-employment income', () => {
+      const analysis = analyzeMAGI(createSelfEmployedInput({ selfEmploymentIncome: undefined }));
+
+      expect(analysis.selfEmployedHealthInsurance?.deduction).toBe(0);
+      expect(analysis.current.magi).toBe(60000);
+    });
+
+    it('treats estimatedMAGI as final MAGI', () => {
+      const analysis = analyzeMAGI(createSelfEmployedInput({ estimatedMAGI: 60000, preDeductionMAGI: undefined }));
+
+      expect(analysis.selfEmployedHealthInsurance).toBeUndefined();
+      expect(analysis.current.magi).toBe(60000);
+      expect(analysis.strategies.find((s) => s.name === 'Self-Employment Deductions')?.description)
+        .toBe('Deduct health insurance premiums and half of SE tax');
+    });
+  });
 });
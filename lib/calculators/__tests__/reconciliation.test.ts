@@ -0,0 +1,157 @@
+/**
+ * PTC Reconciliation Estimator Tests
+ */
+
+import {
+  calculateReconciliation,
+  type ReconciliationInput,
+  type ReconciliationMonthInput,
+} from '../reconciliation';
+import { getPovertyGuideline } from '@/lib/calculator/plan-year-rules';
+
+describe('PTC Reconciliation Estimator', () => {
+  const fullYear = (overrides: Partial<ReconciliationMonthInput> = {}): ReconciliationMonthInput[] =>
+    Array.from({ length: 12 }, (_, i) => ({
+      month: i + 1,
+      enrollmentPremium: 800,
+      slcspPremium: 900,
+      advancePTC: 600,
+      ...overrides,
+    }));
+
+  const createInput = (overrides: Partial<ReconciliationInput> = {}): ReconciliationInput => ({
+    taxYear: 2025,
+    filingStatus: 'single',
+    householdSize: 1,
+    state: 'NC',
+    finalMAGI: 40000,
+    months: fullYear(),
+    ...overrides,
+  });
+
+  describe('calculateReconciliation', () => {
+    it('computes monthly allowed credit from final MAGI', () => {
+      const result = calculateReconciliation(createInput());
+      const fpl = getPovertyGuideline(1, 'NC', 2025);
+
+      expect(result.povertyGuideline).toBe(fpl);
+      expect(result.fplPercent).toBe(Math.floor((40000 / fpl) * 100));
+      expect(result.months).toHaveLength(12);
+      expect(result.months[0]?.allowedPTC).toBe(
+        Math.min(800, 900 - result.months[0]!.contributionAmount)
+      );
+      expect(result.totals.advancePTC).toBe(7200);
+    });
+
+    it('returns a refund when income came in lower than projected', () => {
+      const result = calculateReconciliation(createInput({ finalMAGI: 25000 }));
+
+      expect(result.outcome).toBe('refund');
+      expect(result.netPremiumTaxCredit).toBeGreaterThan(0);
+      expect(result.repaymentAmount).toBe(0);
+      expect(result.explanation).toContain('additional');
+    });
+
+    it('caps excess APTC repayment by FPL band and filing status', () => {
+      // ~280% FPL, advance payments far above the allowed credit
+      const magi = getPovertyGuideline(1, 'NC', 2025) * 2.8;
+      const result = calculateReconciliation(createInput({
+        finalMAGI: magi,
+        months: fullYear({ advancePTC: 900 }),
+      }));
+
+      expect(result.outcome).toBe('repayment');
+      expect(result.repaymentCap).toBe(975);
+      expect(result.repaymentAmount).toBe(975);
+      expect(result.repaymentForgiven).toBeCloseTo(result.excessAPTC - 975, 2);
+    });
+
+    it('uses the higher cap for joint filers', () => {
+      const magi = getPovertyGuideline(2, 'NC', 2025) * 1.8;
+      const result = calculateReconciliation(createInput({
+        filingStatus: 'married_joint',
+        householdSize: 2,
+        finalMAGI: magi,
+        months: fullYear({ enrollmentPremium: 1500, slcspPremium: 1200, advancePTC: 1200 }),
+      }));
+
+      expect(result.repaymentCap).toBe(750);
+    });
+
+    it('requires full repayment at 400% FPL and above', () => {
+      const magi = getPovertyGuideline(1, 'NC', 2025) * 5;
+      const result = calculateReconciliation(createInput({ finalMAGI: magi }));
+
+      expect(result.repaymentCap).toBeNull();
+      expect(result.repaymentAmount).toBe(result.excessAPTC);
+    });
+
+    it('applies the 2026 cliff and repealed caps', () => {
+      const magi = getPovertyGuideline(1, 'NC', 2026) * 4.2;
+      const result = calculateReconciliation(createInput({ taxYear: 2026, finalMAGI: magi }));
+
+      expect(result.eligibleForPTC).toBe(false);
+      expect(result.totals.allowedPTC).toBe(0);
+      expect(result.repaymentAmount).toBe(7200);
+      expect(result.warnings.some((w) => w.includes('2026'))).toBe(true);
+    });
+
+    it('does not cap 2026 repayment below 400% FPL', () => {
+      const magi = getPovertyGuideline(1, 'NC', 2026) * 2.5;
+      const result = calculateReconciliation(createInput({
+        taxYear: 2026,
+        finalMAGI: magi,
+        months: fullYear({ advancePTC: 900 }),
+      }));
+
+      expect(result.repaymentCap).toBeNull();
+      expect(result.repaymentAmount).toBe(result.excessAPTC);
+      expect(result.warnings.some((w) => w.includes('Repayment limits do not apply'))).toBe(true);
+    });
+
+    it('builds final MAGI from MAGI components', () => {
+      const result = calculateReconciliation(createInput({
+        finalMAGI: undefined,
+        magiComponents: { wages: 30000, taxExemptInterest: 2000, iraContribution: 1000 },
+      }));
+
+      expect(result.finalMAGI).toBe(31000);
+    });
+
+    it('only reconciles reported coverage months', () => {
+      const result = calculateReconciliation(createInput({
+        months: fullYear().filter((m) => m.month >= 7),
+        householdChanges: [{ month: 3, description: 'Moved to new rating area' }],
+      }));
+
+      expect(result.months).toHaveLength(6);
+      expect(result.months[0]?.month).toBe(7);
+      expect(result.warnings.some((w) => w.includes('month 3'))).toBe(true);
+    });
+
+    it('treats married filing separately as ineligible', () => {
+      const result = calculateReconciliation(createInput({ filingStatus: 'married_separate' }));
+
+      expect(result.eligibleForPTC).toBe(false);
+      expect(result.totals.allowedPTC).toBe(0);
+      expect(result.warnings.some((w) => w.includes('Married filing separately'))).toBe(true);
+    });
+
+    it('keeps eligibility below 100% FPL when advance payments were made', () => {
+      const result = calculateReconciliation(createInput({ finalMAGI: 9000 }));
+
+      expect(result.eligibleForPTC).toBe(true);
+      expect(result.warnings.some((w) => w.includes('below 100% FPL'))).toBe(true);
+    });
+
+    it('reports balanced when advance matches allowed credit', () => {
+      const first = calculateReconciliation(createInput());
+      const allowed = first.months[0]!.allowedPTC;
+      const result = calculateReconciliation(createInput({ months: fullYear({ advancePTC: allowed }) }));
+
+      expect(result.outcome).toBe('balanced');
+      expect(result.netPremiumTaxCredit).toBe(0);
+      expect(result.repaymentAmount).toBe(0);
+    });
+  });
+});
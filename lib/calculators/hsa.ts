@@ -5,6 +5,9 @@
  * calculate tax benefits, and project investment growth.
  */
 
+import { calculateProfileGrossIncome } from '../calculator/income-profile';
+import type { IncomeProfile } from '@/types';
+
 // Types
 export interface HSAInput {
   /** Coverage type */
@@ -13,8 +16,10 @@ export interface HSAInput {
   age: number;
   /** Current HSA balance */
   currentBalance?: number;
-  /** Annual household income */
-  annualIncome: number;
+  /** Annual household income (ignored when incomeProfile is provided) */
+  annualIncome?: number;
+  /** Itemized income; household income is its total before deductions */
+  incomeProfile?: IncomeProfile;
   /** Federal tax bracket (decimal, e.g., 0.22) */
   federalTaxRate: number;
   /** State tax rate (decimal) */
@@ -35,6 +40,9 @@ export interface HSAInput {
   healthcareInflation?: number;
 }
 
+/** HSA input after the income profile has been applied */
+type ResolvedHSAInput = HSAInput & { annualIncome: number };
+
 export interface HSAContributionLimits {
   /** Base contribution limit */
   baseLimit: number;
@@ -125,7 +133,8 @@ const FICA_RATE = 0.0765;
 /**
  * Calculate HSA contribution optimization
  */
-export function calculateHSAOptimization(input: HSAInput): HSAAnalysis {
+export function calculateHSAOptimization(rawInput: HSAInput): HSAAnalysis {
+  const input = resolveHSAInput(rawInput);
   const limits = calculateContributionLimits(input);
   const taxSavings = calculateTaxSavings(input, limits.maxEmployeeContribution);
   const catchUpEligible = input.age >= 55;
@@ -160,10 +169,25 @@ export function calculateHSAOptimization(input: HSAInput): HSAAnalysis {
   };
 }
 
+/**
+ * Apply the income profile: household income is the profile's total income
+ */
+function resolveHSAInput(input: HSAInput): ResolvedHSAInput {
+  if (input.incomeProfile) {
+    return { ...input, annualIncome: calculateProfileGrossIncome(input.incomeProfile) };
+  }
+
+  if (input.annualIncome === undefined) {
+    throw new Error('Either annualIncome or incomeProfile is required');
+  }
+
+  return { ...input, annualIncome: input.annualIncome };
+}
+
 /**
  * Calculate HSA contribution limits
  */
-function calculateContributionLimits(input: HSAInput): HSAContributionLimits {
+function calculateContributionLimits(input: ResolvedHSAInput): HSAContributionLimits {
   const baseLimit =
     input.coverageType === 'family'
       ? HSA_LIMITS_2024.family
@@ -187,7 +211,7 @@ function calculateContributionLimits(input: HSAInput): HSAContributionLimits {
  * Calculate tax savings from HSA contributions
  */
 function calculateTaxSavings(
-  input: HSAInput,
+  input: ResolvedHSAInput,
   contribution: number
 ): HSATaxSavings {
   const federalTaxSavings = contribution * input.federalTaxRate;
@@ -215,7 +239,7 @@ function calculateTaxSavings(
  * Calculate recommended contribution amount
  */
 function calculateRecommendedContribution(
-  input: HSAInput,
+  input: ResolvedHSAInput,
   limits: HSAContributionLimits
 ): number {
   const expectedExpenses = input.expectedExpenses || 0;
@@ -244,7 +268,7 @@ function calculateRecommendedContribution(
  * Generate multi-year projections
  */
 function generateProjections(
-  input: HSAInput,
+  input: ResolvedHSAInput,
   annualContribution: number
 ): HSAProjection[] {
   const projections: HSAProjection[] = [];
@@ -297,7 +321,7 @@ function generateProjections(
  * Generate recommendations based on analysis
  */
 function generateRecommendations(
-  input: HSAInput,
+  input: ResolvedHSAInput,
   limits: HSAContributionLimits,
   taxSavings: HSATaxSavings
 ): string[] {
@@ -29,3 +29,12 @@ export {
   type MAGIStrategy,
   type SubsidyBreakpoint,
 } from './magi';
+
+export {
+  calculateReconciliation,
+  type ReconciliationInput,
+  type ReconciliationMonthInput,
+  type ReconciliationMonth,
+  type ReconciliationResult,
+  type HouseholdChange,
+} from './reconciliation';
@@ -6,10 +6,33 @@
  * levels, and strategies to reduce MAGI.
  */
 
+import {
+  DEFAULT_PLAN_YEAR,
+  getPlanYearRules,
+  getPovertyGuideline,
+  getApplicablePercentage,
+  isAboveSubsidyCliff,
+} from '../calculator/plan-year-rules';
+import {
+  calculateSelfEmploymentTaxDeduction,
+  resolveProfileIncome,
+  summarizeIncomeProfile,
+  type IncomeProfileSummary,
+} from '../calculator/income-profile';
+import type { IncomeProfile } from '@/types';
+
 // Types
 export interface MAGIOptimizerInput {
-  /** Current estimated MAGI */
-  estimatedMAGI: number;
+  /** Current estimated MAGI (ignored when incomeProfile is provided) */
+  estimatedMAGI?: number;
+  /**
+   * MAGI before the self-employed health insurance deduction. When given,
+   * the deduction is solved against the premium tax credit and the resulting
+   * MAGI is used instead of estimatedMAGI or the income profile's MAGI.
+   */
+  preDeductionMAGI?: number;
+  /** Itemized income; MAGI, retirement/HSA contributions and SE income are derived from it */
+  incomeProfile?: IncomeProfile;
   /** Household size */
   householdSize: number;
   /** Filing status */
@@ -30,8 +53,15 @@ export interface MAGIOptimizerInput {
   hasHDHP?: boolean;
   /** Self-employment income */
   selfEmploymentIncome?: number;
+  /** Monthly premium of the plan a self-employed household enrolls in (defaults to the benchmark premium) */
+  monthlyPlanPremium?: number;
+  /** Marketplace plan year whose FPL and contribution tables apply (defaults to DEFAULT_PLAN_YEAR) */
+  planYear?: number;
 }
 
+/** Optimizer input after the income profile has been applied */
+type ResolvedMAGIInput = MAGIOptimizerInput & { estimatedMAGI: number };
+
 export interface SubsidyBreakpoint {
   /** FPL percentage */
   fplPercent: number;
@@ -66,7 +96,27 @@ export interface MAGIStrategy {
   notApplicableReason?: string;
 }
 
+export interface SelfEmployedHealthInsuranceDeduction {
+  /** MAGI before the deduction */
+  magiBeforeDeduction: number;
+  /** Converged self-employed health insurance deduction */
+  deduction: number;
+  /** MAGI after the deduction (used for the rest of the analysis) */
+  magiAfterDeduction: number;
+  /** Annual premium for the self-employed plan */
+  annualPremium: number;
+  /** Annual premium tax credit at the converged MAGI */
+  annualPremiumTaxCredit: number;
+  /** Net self-employment profit less the deductible half of SE tax */
+  deductionLimit: number;
+  /** Iterations until deduction and credit stopped changing */
+  iterations: number;
+  converged: boolean;
+}
+
 export interface MAGIAnalysis {
+  /** Plan year the analysis was run against */
+  planYear: number;
   /** Current MAGI details */
   current: {
     magi: number;
@@ -102,31 +152,13 @@ export interface MAGIAnalysis {
   warnings: string[];
   /** Recommendations */
   recommendations: string[];
+  /** Breakdown of the income profile MAGI was derived from */
+  incomeSummary?: IncomeProfileSummary;
+  /** Self-employed health insurance deduction solved against the premium tax credit */
+  selfEmployedHealthInsurance?: SelfEmployedHealthInsuranceDeduction;
 }
 
-// 2024 Federal Poverty Levels
-const FPL_2024: Record<number, number> = {
-  1: 14580,
-  2: 19720,
-  3: 24860,
-  4: 30000,
-  5: 35140,
-  6: 40280,
-  7: 45420,
-  8: 50560,
-};
-const FPL_ADDITIONAL_PERSON = 5140;
-
-// 2024 ACA Expected Contribution Percentages (enhanced through 2025)
-// These are percentages of income, not FPL
-const CONTRIBUTION_BRACKETS = [
-  { maxFPL: 150, minPercent: 0, maxPercent: 0 },
-  { maxFPL: 200, minPercent: 0, maxPercent: 2.0 },
-  { maxFPL: 250, minPercent: 2.0, maxPercent: 4.0 },
-  { maxFPL: 300, minPercent: 4.0, maxPercent: 6.0 },
-  { maxFPL: 400, minPercent: 6.0, maxPercent: 8.5 },
-  { maxFPL: Infinity, minPercent: 8.5, maxPercent: 8.5 }, // Enhanced subsidies extend above 400%
-];
+// FPL and expected contribution percentages come from the plan-year rules registry.
 
 // Contribution limits for 2024
 const CONTRIBUTION_LIMITS_2024 = {
@@ -150,34 +182,45 @@ const MEDICAID_EXPANSION_STATES = [
 /**
  * Analyze MAGI and provide optimization strategies
  */
-export function analyzeMAGI(input: MAGIOptimizerInput): MAGIAnalysis {
-  const fpl = getFPL(input.householdSize);
-  const fplPercent = (input.estimatedMAGI / fpl) * 100;
+export function analyzeMAGI(rawInput: MAGIOptimizerInput): MAGIAnalysis {
+  const planYear = getPlanYearRules(rawInput.planYear ?? DEFAULT_PLAN_YEAR).planYear;
+  const resolved = resolveMAGIInput(rawInput, planYear);
+  const fpl = getFPL(resolved.householdSize, planYear, resolved.state);
 
   // Estimate benchmark premium if not provided
-  const benchmarkPremium = input.benchmarkPremium || estimateBenchmarkPremium(input.age, input.state);
+  const benchmarkPremium = resolved.benchmarkPremium || estimateBenchmarkPremium(resolved.age, resolved.state);
+
+  // The self-employed premium deduction and the credit depend on each other
+  const selfEmployedHealthInsurance = resolved.preDeductionMAGI !== undefined
+    ? solveSelfEmployedHealthInsuranceDeduction(resolved, resolved.preDeductionMAGI, fpl, benchmarkPremium, planYear)
+    : undefined;
+  const input = selfEmployedHealthInsurance
+    ? { ...resolved, estimatedMAGI: selfEmployedHealthInsurance.magiAfterDeduction }
+    : resolved;
+  const fplPercent = (input.estimatedMAGI / fpl) * 100;
 
   // Calculate current subsidy
-  const currentSubsidy = calculateSubsidy(input.estimatedMAGI, fpl, benchmarkPremium);
-  const currentTier = determineTier(fplPercent, input.state);
+  const currentSubsidy = calculateSubsidy(input.estimatedMAGI, fpl, benchmarkPremium, planYear);
+  const currentTier = determineTier(fplPercent, input.state, planYear);
 
   // Calculate breakpoints
-  const breakpoints = calculateBreakpoints(fpl, benchmarkPremium);
+  const breakpoints = calculateBreakpoints(fpl, benchmarkPremium, planYear);
 
   // Find optimal MAGI
-  const optimal = findOptimalMAGI(input, fpl, benchmarkPremium);
+  const optimal = findOptimalMAGI(input, fpl, benchmarkPremium, planYear);
 
   // Generate strategies
-  const strategies = generateStrategies(input, optimal.reductionNeeded);
+  const strategies = generateStrategies(input, optimal.reductionNeeded, selfEmployedHealthInsurance !== undefined);
 
   // Analyze cliff risk
-  const cliffAnalysis = analyzeCliffRisk(input.estimatedMAGI, fpl, benchmarkPremium);
+  const cliffAnalysis = analyzeCliffRisk(input.estimatedMAGI, fpl, benchmarkPremium, planYear);
 
   // Generate warnings and recommendations
-  const warnings = generateWarnings(input, fplPercent, currentTier);
-  const recommendations = generateRecommendations(input, optimal, strategies);
+  const warnings = generateWarnings(input, fplPercent, currentTier, selfEmployedHealthInsurance);
+  const recommendations = generateRecommendations(input, optimal, strategies, fpl);
 
   return {
+    planYear,
     current: {
       magi: input.estimatedMAGI,
       fplPercent: Math.round(fplPercent),
@@ -193,17 +236,109 @@ export function analyzeMAGI(input: MAGIOptimizerInput): MAGIAnalysis {
     cliffAnalysis,
     warnings,
     recommendations,
+    incomeSummary: input.incomeProfile ? summarizeIncomeProfile(input.incomeProfile, planYear) : undefined,
+    selfEmployedHealthInsurance,
   };
 }
 
+/** Stop iterating once deduction and credit move by less than a dollar */
+const SE_DEDUCTION_TOLERANCE = 1;
+const SE_DEDUCTION_MAX_ITERATIONS = 25;
+
 /**
- * Get Federal Poverty Level for household size
+ * Solve the circular self-employed health insurance deduction using the
+ * iterative method of Rev. Proc. 2014-41: the deduction (premiums not paid by
+ * the credit) lowers MAGI, which raises the credit, which lowers the
+ * deduction, until both stop changing.
  */
-function getFPL(householdSize: number): number {
-  if (householdSize <= 8) {
-    return FPL_2024[householdSize] || FPL_2024[1]!;
+function solveSelfEmployedHealthInsuranceDeduction(
+  input: ResolvedMAGIInput,
+  magiBeforeDeduction: number,
+  fpl: number,
+  benchmarkPremium: number,
+  planYear: number
+): SelfEmployedHealthInsuranceDeduction {
+  const annualPremium = (input.monthlyPlanPremium ?? benchmarkPremium) * 12;
+  const selfEmploymentIncome = Math.max(0, input.selfEmploymentIncome ?? 0);
+
+  // Deduction cannot exceed net SE profit less the deductible half of SE tax
+  const halfSETax = calculateSelfEmploymentTaxDeduction(
+    selfEmploymentIncome,
+    input.incomeProfile?.wages ?? 0,
+    planYear
+  );
+  const deductionLimit = Math.max(0, selfEmploymentIncome - halfSETax);
+
+  const creditAt = (magi: number) =>
+    Math.min(annualPremium, calculateSubsidy(magi, fpl, benchmarkPremium, planYear).annualSubsidy);
+
+  // Step 1: deduct the full premium and compute the credit
+  let deduction = Math.min(annualPremium, deductionLimit);
+  let credit = creditAt(Math.max(0, magiBeforeDeduction - deduction));
+  let iterations = 1;
+  let converged = false;
+
+  // Step 2+: premiums net of the credit are deductible; repeat until stable
+  while (iterations < SE_DEDUCTION_MAX_ITERATIONS) {
+    const nextDeduction = Math.min(Math.max(0, annualPremium - credit), deductionLimit);
+    const nextCredit = creditAt(Math.max(0, magiBeforeDeduction - nextDeduction));
+    iterations++;
+
+    const stable =
+      Math.abs(nextDeduction - deduction) < SE_DEDUCTION_TOLERANCE &&
+      Math.abs(nextCredit - credit) < SE_DEDUCTION_TOLERANCE;
+    deduction = nextDeduction;
+    credit = nextCredit;
+
+    if (stable) {
+      converged = true;
+      break;
+    }
   }
-  return FPL_2024[8]! + FPL_ADDITIONAL_PERSON * (householdSize - 8);
+
+  return {
+    magiBeforeDeduction,
+    deduction: Math.round(deduction),
+    magiAfterDeduction: Math.round(Math.max(0, magiBeforeDeduction - deduction)),
+    annualPremium: Math.round(annualPremium),
+    annualPremiumTaxCredit: Math.round(credit),
+    deductionLimit: Math.round(deductionLimit),
+    iterations,
+    converged,
+  };
+}
+
+/**
+ * Apply the income profile: MAGI comes from the itemized components and the
+ * profile's IRA, HSA and self-employment amounts fill any fields not given
+ */
+function resolveMAGIInput(input: MAGIOptimizerInput, planYear: number): ResolvedMAGIInput {
+  const estimatedMAGI = resolveProfileIncome(
+    input.estimatedMAGI ?? input.preDeductionMAGI,
+    input.incomeProfile,
+    planYear,
+    'estimatedMAGI'
+  );
+  const profile = input.incomeProfile;
+
+  if (!profile) {
+    return { ...input, estimatedMAGI };
+  }
+
+  return {
+    ...input,
+    estimatedMAGI,
+    currentRetirementContributions: input.currentRetirementContributions ?? profile.iraContribution,
+    currentHSAContributions: input.currentHSAContributions ?? profile.hsaContribution,
+    selfEmploymentIncome: input.selfEmploymentIncome ?? profile.selfEmploymentIncome,
+  };
+}
+
+/**
+ * Get Federal Poverty Level for household size in a plan year
+ */
+function getFPL(householdSize: number, planYear: number, state?: string): number {
+  return getPovertyGuideline(householdSize, state, planYear);
 }
 
 /**
@@ -238,7 +373,8 @@ function estimateBenchmarkPremium(age: number, state: string): number {
 function calculateSubsidy(
   magi: number,
   fpl: number,
-  benchmarkPremium: number
+  benchmarkPremium: number,
+  planYear: number
 ): {
   monthlySubsidy: number;
   annualSubsidy: number;
@@ -248,7 +384,8 @@ function calculateSubsidy(
   const fplPercent = (magi / fpl) * 100;
 
   // Below 100% FPL - no marketplace subsidy (Medicaid eligible in expansion states)
-  if (fplPercent < 100) {
+  // Above the plan year's cliff (if any) - no subsidy at all
+  if (fplPercent < 100 || isAboveSubsidyCliff(fplPercent, planYear)) {
     return {
       monthlySubsidy: 0,
       annualSubsidy: 0,
@@ -257,19 +394,8 @@ function calculateSubsidy(
     };
   }
 
-  // Find applicable contribution percentage
-  let contributionPercent = 8.5; // Default above 400%
-  for (const bracket of CONTRIBUTION_BRACKETS) {
-    if (fplPercent <= bracket.maxFPL) {
-      // Linear interpolation within bracket
-      const prevBracket = CONTRIBUTION_BRACKETS[CONTRIBUTION_BRACKETS.indexOf(bracket) - 1];
-      const minFPL = prevBracket ? prevBracket.maxFPL : 100;
-      const range = bracket.maxFPL - minFPL;
-      const position = (fplPercent - minFPL) / range;
-      contributionPercent = bracket.minPercent + position * (bracket.maxPercent - bracket.minPercent);
-      break;
-    }
-  }
+  // Applicable contribution percentage (linear interpolation within bracket)
+  const contributionPercent = getApplicablePercentage(fplPercent, planYear) * 100;
 
   const monthlyContribution = (magi * (contributionPercent / 100)) / 12;
   const monthlySubsidy = Math.max(0, benchmarkPremium - monthlyContribution);
@@ -288,9 +414,11 @@ function calculateSubsidy(
  */
 function determineTier(
   fplPercent: number,
-  state: string
+  state: string,
+  planYear: number
 ): 'medicaid' | 'subsidy' | 'cliff' | 'above_cliff' {
   const isMedicaidExpansion = MEDICAID_EXPANSION_STATES.includes(state.toUpperCase());
+  const { subsidyCliffFPL } = getPlanYearRules(planYear);
 
   if (fplPercent < 100) {
     return isMedicaidExpansion ? 'medicaid' : 'subsidy'; // Coverage gap states may still qualify
@@ -301,6 +429,9 @@ function determineTier(
   if (fplPercent <= 400) {
     return 'subsidy';
   }
+  if (subsidyCliffFPL !== null) {
+    return 'above_cliff'; // Hard cliff: no credit above 400% FPL
+  }
   if (fplPercent <= 450) {
     return 'cliff'; // Enhanced subsidies taper, but near cliff
   }
@@ -312,14 +443,15 @@ function determineTier(
  */
 function calculateBreakpoints(
   fpl: number,
-  benchmarkPremium: number
+  benchmarkPremium: number,
+  planYear: number
 ): SubsidyBreakpoint[] {
   const breakpoints: SubsidyBreakpoint[] = [];
   const fplLevels = [100, 150, 200, 250, 300, 350, 400, 450, 500];
 
   for (const fplPercent of fplLevels) {
     const income = (fpl * fplPercent) / 100;
-    const subsidy = calculateSubsidy(income, fpl, benchmarkPremium);
+    const subsidy = calculateSubsidy(income, fpl, benchmarkPremium, planYear);
 
     breakpoints.push({
       fplPercent,
@@ -337,11 +469,12 @@ function calculateBreakpoints(
  * Find optimal MAGI for maximum net benefit
  */
 function findOptimalMAGI(
-  input: MAGIOptimizerInput,
+  input: ResolvedMAGIInput,
   fpl: number,
-  benchmarkPremium: number
+  benchmarkPremium: number,
+  planYear: number
 ): MAGIAnalysis['optimal'] {
-  const currentSubsidy = calculateSubsidy(input.estimatedMAGI, fpl, benchmarkPremium);
+  const currentSubsidy = calculateSubsidy(input.estimatedMAGI, fpl, benchmarkPremium, planYear);
 
   // Test different FPL levels to find optimal
   let optimalMAGI = input.estimatedMAGI;
@@ -356,7 +489,7 @@ function findOptimalMAGI(
 
     // Only consider if it would require reducing MAGI
     if (testMAGI < input.estimatedMAGI) {
-      const testSubsidy = calculateSubsidy(testMAGI, fpl, benchmarkPremium);
+      const testSubsidy = calculateSubsidy(testMAGI, fpl, benchmarkPremium, planYear);
 
       // Check if subsidy increase is worth the income reduction
       const incomeReduction = input.estimatedMAGI - testMAGI;
@@ -375,7 +508,7 @@ function findOptimalMAGI(
   }
 
   const reductionNeeded = Math.max(0, input.estimatedMAGI - optimalMAGI);
-  const subsidyAtOptimal = calculateSubsidy(optimalMAGI, fpl, benchmarkPremium);
+  const subsidyAtOptimal = calculateSubsidy(optimalMAGI, fpl, benchmarkPremium, planYear);
 
   return {
     targetMAGI: Math.round(optimalMAGI),
@@ -391,8 +524,9 @@ function findOptimalMAGI(
  * Generate MAGI reduction strategies
  */
 function generateStrategies(
-  input: MAGIOptimizerInput,
-  reductionNeeded: number
+  input: ResolvedMAGIInput,
+  reductionNeeded: number,
+  seHealthInsuranceSolved: boolean
 ): MAGIStrategy[] {
   const strategies: MAGIStrategy[] = [];
   const age = input.age;
@@ -481,19 +615,24 @@ function generateStrategies(
 
   // Strategy 4: Self-employment deductions
   if (input.selfEmploymentIncome && input.selfEmploymentIncome > 0) {
-    const seHealthInsurance = input.selfEmploymentIncome * 0.1; // Estimate
-    const seTax = input.selfEmploymentIncome * 0.0765; // Half of SE tax
-
-    strategies.push({
-      name: 'Self-Employment Deductions',
-      description: 'Deduct health insurance premiums and half of SE tax',
-      maxReduction: Math.round(seHealthInsurance + seTax),
-      recommendedReduction: Math.round(seHealthInsurance + seTax),
-      subsidyIncrease: 0,
-      netBenefit: 0,
-      priority: 2,
-      applicable: true,
-    });
+    // A solved health insurance deduction is already in MAGI
+    const seHealthInsurance = seHealthInsuranceSolved ? 0 : input.selfEmploymentIncome * 0.1; // Estimate
+    // An income profile already deducts half of SE tax from MAGI
+    const seTax = input.incomeProfile ? 0 : input.selfEmploymentIncome * 0.0765; // Half of SE tax
+    const reduction = Math.round(seHealthInsurance + seTax);
+
+    if (reduction > 0) {
+      strategies.push({
+        name: 'Self-Employment Deductions',
+        description: seHealthInsurance > 0 ? 'Deduct health insurance premiums and half of SE tax' : 'Deduct half of SE tax',
+        maxReduction: reduction,
+        recommendedReduction: reduction,
+        subsidyIncrease: 0,
+        netBenefit: 0,
+        priority: 2,
+        applicable: true,
+      });
+    }
   }
 
   // Strategy 5: Timing income/deductions
@@ -520,21 +659,23 @@ function generateStrategies(
 function analyzeCliffRisk(
   magi: number,
   fpl: number,
-  benchmarkPremium: number
+  benchmarkPremium: number,
+  planYear: number
 ): MAGIAnalysis['cliffAnalysis'] {
   const fplPercent = (magi / fpl) * 100;
   const cliff400 = fpl * 4; // 400% FPL
 
   // With enhanced subsidies through 2025, cliff is softer
-  // But still significant at ~450% FPL
-  const effectiveCliff = fpl * 4.5;
+  // But still significant at ~450% FPL; without them the cliff is exactly 400%
+  const { subsidyCliffFPL } = getPlanYearRules(planYear);
+  const effectiveCliff = subsidyCliffFPL !== null ? (fpl * subsidyCliffFPL) / 100 : fpl * 4.5;
 
   const distanceFromCliff = effectiveCliff - magi;
   const nearCliff = fplPercent >= 380 && fplPercent <= 420;
 
   // Calculate subsidy at cliff vs just below
-  const subsidyJustBelow = calculateSubsidy(cliff400 - 100, fpl, benchmarkPremium);
-  const subsidyAtCliff = calculateSubsidy(cliff400 + 100, fpl, benchmarkPremium);
+  const subsidyJustBelow = calculateSubsidy(cliff400 - 100, fpl, benchmarkPremium, planYear);
+  const subsidyAtCliff = calculateSubsidy(cliff400 + 100, fpl, benchmarkPremium, planYear);
   const subsidyAtRisk = subsidyJustBelow.annualSubsidy - subsidyAtCliff.annualSubsidy;
 
   // Recommend buffer of ~$500-1000 below cliff
@@ -553,12 +694,25 @@ function analyzeCliffRisk(
  * Generate warnings
  */
 function generateWarnings(
-  input: MAGIOptimizerInput,
+  input: ResolvedMAGIInput,
   fplPercent: number,
-  tier: string
+  tier: string,
+  seHealthInsurance?: SelfEmployedHealthInsuranceDeduction
 ): string[] {
   const warnings: string[] = [];
 
+  if (seHealthInsurance && seHealthInsurance.deduction > 0) {
+    warnings.push(
+      `Your self-employed health insurance deduction of $${seHealthInsurance.deduction.toLocaleString()} (premiums not covered by the premium tax credit) lowers MAGI to $${seHealthInsurance.magiAfterDeduction.toLocaleString()}.`
+    );
+  }
+
+  if (seHealthInsurance && !seHealthInsurance.converged) {
+    warnings.push(
+      'The self-employed health insurance deduction did not settle on a single value (income is near a subsidy threshold). Use the Form 7206 and Form 8962 worksheets from Pub. 974 when filing.'
+    );
+  }
+
   if (tier === 'medicaid') {
     warnings.push(
       'Your income may qualify you for Medicaid instead of marketplace subsidies. Check your state\'s Medicaid program.'
@@ -594,9 +748,10 @@ function generateWarnings(
  * Generate recommendations
  */
 function generateRecommendations(
-  input: MAGIOptimizerInput,
+  input: ResolvedMAGIInput,
   optimal: MAGIAnalysis['optimal'],
-  strategies: MAGIStrategy[]
+  strategies: MAGIStrategy[],
+  fpl: number
 ): string[] {
   const recommendations: string[] = [];
 
@@ -630,7 +785,6 @@ function generateRecommendations(
   }
 
   // Cliff warning
-  const fpl = getFPL(input.householdSize);
   const fplPercent = (input.estimatedMAGI / fpl) * 100;
   if (fplPercent >= 350 && fplPercent <= 400) {
     recommendations.push(
@@ -647,7 +801,8 @@ function generateRecommendations(
 export function quickSubsidyCalculator(
   magi: number,
   householdSize: number,
-  benchmarkPremium: number
+  benchmarkPremium: number,
+  planYear: number = DEFAULT_PLAN_YEAR
 ): {
   fplPercent: number;
   monthlySubsidy: number;
@@ -655,9 +810,9 @@ export function quickSubsidyCalculator(
   expectedMonthlyContribution: number;
   effectiveMonthlyPremium: number;
 } {
-  const fpl = getFPL(householdSize);
+  const fpl = getFPL(householdSize, planYear);
   const fplPercent = (magi / fpl) * 100;
-  const subsidy = calculateSubsidy(magi, fpl, benchmarkPremium);
+  const subsidy = calculateSubsidy(magi, fpl, benchmarkPremium, planYear);
 
   return {
     fplPercent: Math.round(fplPercent),
@@ -671,16 +826,24 @@ export function quickSubsidyCalculator(
 /**
  * Calculate FPL percentage
  */
-export function calculateFPLPercent(magi: number, householdSize: number): number {
-  const fpl = getFPL(householdSize);
+export function calculateFPLPercent(
+  magi: number,
+  householdSize: number,
+  planYear: number = DEFAULT_PLAN_YEAR
+): number {
+  const fpl = getFPL(householdSize, planYear);
   return Math.round((magi / fpl) * 100);
 }
 
 /**
  * Get income at specific FPL percentage
  */
-export function getIncomeAtFPL(fplPercent: number, householdSize: number): number {
-  const fpl = getFPL(householdSize);
+export function getIncomeAtFPL(
+  fplPercent: number,
+  householdSize: number,
+  planYear: number = DEFAULT_PLAN_YEAR
+): number {
+  const fpl = getFPL(householdSize, planYear);
   return Math.round((fpl * fplPercent) / 100);
 }
 
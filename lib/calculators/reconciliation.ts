@@ -0,0 +1,278 @@
+/**
+ * Premium Tax Credit Reconciliation Estimator
+ *
+ * Estimates the year-end reconciliation of advance premium tax credits
+ * (APTC) the way IRS Form 8962 does: the credit actually allowed is
+ * recomputed month by month from final-year MAGI and the household's
+ * benchmark premiums, then compared with the advance payments received.
+ * The difference is either an additional refundable credit or an excess
+ * APTC repayment, limited by the repayment caps for the FPL band.
+ */
+
+import { calculateMAGI, type MAGIComponents } from '../calculator/advanced-subsidy';
+import {
+  getPlanYearRules,
+  getPovertyGuideline,
+  getApplicablePercentage,
+  getRepaymentCap,
+  isAboveSubsidyCliff,
+} from '../calculator/plan-year-rules';
+
+// Types
+export interface ReconciliationMonthInput {
+  /** Calendar month (1-12) */
+  month: number;
+  /** Monthly enrollment premium for the plan(s) the household was enrolled in (Form 1095-A col. A) */
+  enrollmentPremium: number;
+  /** Monthly second lowest cost silver plan premium for the coverage family (col. B) */
+  slcspPremium: number;
+  /** Advance premium tax credit paid to the insurer that month (col. C) */
+  advancePTC: number;
+}
+
+export interface HouseholdChange {
+  /** Month the change took effect (1-12) */
+  month: number;
+  /** What changed, e.g. 'Birth of child', 'Spouse moved out' */
+  description: string;
+}
+
+export interface ReconciliationInput {
+  /** Tax year being reconciled (same as the coverage plan year) */
+  taxYear: number;
+  /** Filing status on the final return */
+  filingStatus: 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+  /** Tax family size on the final return */
+  householdSize: number;
+  /** State of residence (Alaska and Hawaii use their own poverty guidelines) */
+  state: string;
+  /** Final-year household MAGI (ignored when magiComponents is provided) */
+  finalMAGI?: number;
+  /** Itemized final-year income, combined with calculateMAGI() */
+  magiComponents?: Partial<MAGIComponents>;
+  /** Coverage months from Form 1095-A (months without coverage may be omitted) */
+  months: ReconciliationMonthInput[];
+  /** Household changes during the year, reflected in the monthly SLCSP amounts */
+  householdChanges?: HouseholdChange[];
+}
+
+export interface ReconciliationMonth {
+  month: number;
+  enrollmentPremium: number;
+  slcspPremium: number;
+  /** Monthly contribution amount (final MAGI x applicable figure / 12) */
+  contributionAmount: number;
+  /** Maximum premium assistance (SLCSP minus contribution) */
+  maxPremiumAssistance: number;
+  /** Premium tax credit allowed (lesser of enrollment premium and max assistance) */
+  allowedPTC: number;
+  advancePTC: number;
+  /** Allowed PTC minus APTC for the month */
+  difference: number;
+}
+
+export interface ReconciliationResult {
+  taxYear: number;
+  finalMAGI: number;
+  householdSize: number;
+  /** Poverty guideline used for the tax family */
+  povertyGuideline: number;
+  /** Final income as a whole-number percentage of FPL (Form 8962 line 5) */
+  fplPercent: number;
+  /** Applicable figure (share of income expected toward the benchmark plan) */
+  applicableFigure: number;
+  /** Annual contribution amount */
+  annualContribution: number;
+  /** Whether the household qualifies as an applicable taxpayer */
+  eligibleForPTC: boolean;
+  /** Month-by-month reconciliation */
+  months: ReconciliationMonth[];
+  totals: {
+    enrollmentPremium: number;
+    slcspPremium: number;
+    allowedPTC: number;
+    advancePTC: number;
+  };
+  /** Net premium tax credit (additional refund) when allowed exceeds advance */
+  netPremiumTaxCredit: number;
+  /** Excess advance payments before the repayment limit */
+  excessAPTC: number;
+  /** Repayment limit for the household (null = no limit) */
+  repaymentCap: number | null;
+  /** Amount added to tax owed */
+  repaymentAmount: number;
+  /** Excess APTC forgiven by the repayment limit */
+  repaymentForgiven: number;
+  outcome: 'refund' | 'repayment' | 'balanced';
+  warnings: string[];
+  explanation: string;
+}
+
+/**
+ * Reconcile advance premium tax credits against final-year income
+ */
+export function calculateReconciliation(input: ReconciliationInput): ReconciliationResult {
+  const rules = getPlanYearRules(input.taxYear);
+  const warnings: string[] = [];
+
+  const finalMAGI = input.magiComponents
+    ? calculateMAGI(input.magiComponents)
+    : Math.max(0, input.finalMAGI ?? 0);
+
+  const povertyGuideline = getPovertyGuideline(input.householdSize, input.state, rules.planYear);
+  // Form 8962 drops fractional percentages
+  const fplPercent = Math.floor((finalMAGI / povertyGuideline) * 100);
+
+  const totalAdvance = sum(input.months.map(m => m.advancePTC));
+
+  // Below 100% FPL is still treated as eligible when APTC was paid
+  const belowFloorWithAPTC = fplPercent < 100 && totalAdvance > 0;
+  const aboveCliff = isAboveSubsidyCliff(fplPercent, rules.planYear);
+  const eligibleForPTC =
+    input.filingStatus !== 'married_separate' &&
+    !aboveCliff &&
+    (fplPercent >= 100 || belowFloorWithAPTC);
+
+  // Form 8962 rounds the applicable figure to four decimal places
+  const applicableFigure = eligibleForPTC
+    ? Math.round(getApplicablePercentage(Math.max(fplPercent, 100), rules.planYear) * 10000) / 10000
+    : 0;
+  const annualContribution = round(finalMAGI * applicableFigure);
+  const contributionAmount = round(annualContribution / 12);
+
+  const months: ReconciliationMonth[] = [...input.months]
+    .sort((a, b) => a.month - b.month)
+    .map(m => {
+      const maxPremiumAssistance = eligibleForPTC
+        ? Math.max(0, round(m.slcspPremium - contributionAmount))
+        : 0;
+      const allowedPTC = Math.min(m.enrollmentPremium, maxPremiumAssistance);
+
+      return {
+        month: m.month,
+        enrollmentPremium: m.enrollmentPremium,
+        slcspPremium: m.slcspPremium,
+        contributionAmount,
+        maxPremiumAssistance,
+        allowedPTC,
+        advancePTC: m.advancePTC,
+        difference: round(allowedPTC - m.advancePTC),
+      };
+    });
+
+  const totals = {
+    enrollmentPremium: round(sum(months.map(m => m.enrollmentPremium))),
+    slcspPremium: round(sum(months.map(m => m.slcspPremium))),
+    allowedPTC: round(sum(months.map(m => m.allowedPTC))),
+    advancePTC: round(totalAdvance),
+  };
+
+  const net = round(totals.allowedPTC - totals.advancePTC);
+  const netPremiumTaxCredit = Math.max(0, net);
+  const excessAPTC = Math.max(0, -net);
+  const repaymentCap = getRepaymentCap(fplPercent, input.filingStatus, rules.planYear);
+  const repaymentAmount = repaymentCap !== null ? Math.min(excessAPTC, repaymentCap) : excessAPTC;
+  const repaymentForgiven = round(excessAPTC - repaymentAmount);
+
+  const outcome: ReconciliationResult['outcome'] =
+    netPremiumTaxCredit > 0 ? 'refund' : repaymentAmount > 0 ? 'repayment' : 'balanced';
+
+  // Warnings
+  if (input.filingStatus === 'married_separate') {
+    warnings.push(
+      'Married filing separately generally disqualifies you from the premium tax credit unless you meet the domestic abuse or spousal abandonment exception.'
+    );
+  }
+
+  if (aboveCliff) {
+    warnings.push(
+      `Final income is above ${rules.subsidyCliffFPL}% FPL, so no premium tax credit is allowed for ${rules.planYear}. All advance payments must be repaid.`
+    );
+  }
+
+  if (belowFloorWithAPTC) {
+    warnings.push(
+      'Final income is below 100% FPL. Because advance payments were made, you are still treated as eligible for the credit.'
+    );
+  }
+
+  if (excessAPTC > 0 && repaymentCap === null && !aboveCliff && fplPercent < 400) {
+    warnings.push(
+      `Repayment limits do not apply for ${rules.planYear}. The full excess advance payment must be repaid.`
+    );
+  }
+
+  const coveredMonths = new Set(input.months.map(m => m.month));
+  for (const change of input.householdChanges ?? []) {
+    if (change.month >= 1 && change.month <= 12 && !coveredMonths.has(change.month)) {
+      warnings.push(
+        `Household change in month ${change.month} (${change.description}) falls in a month without reported coverage.`
+      );
+    }
+  }
+
+  if (input.householdChanges && input.householdChanges.length > 0) {
+    warnings.push(
+      'Household changes during the year affect the benchmark premium. Make sure each month uses the SLCSP for that month\'s coverage family.'
+    );
+  }
+
+  warnings.push(
+    'Reconciliation figures are estimates. Use your Form 1095-A and consult a tax professional when filing Form 8962.'
+  );
+
+  return {
+    taxYear: rules.planYear,
+    finalMAGI,
+    householdSize: input.householdSize,
+    povertyGuideline,
+    fplPercent,
+    applicableFigure,
+    annualContribution,
+    eligibleForPTC,
+    months,
+    totals,
+    netPremiumTaxCredit,
+    excessAPTC,
+    repaymentCap,
+    repaymentAmount: round(repaymentAmount),
+    repaymentForgiven,
+    outcome,
+    warnings,
+    explanation: buildExplanation(outcome, netPremiumTaxCredit, repaymentAmount, repaymentForgiven, fplPercent),
+  };
+}
+
+/**
+ * Plain-English summary of the reconciliation outcome
+ */
+function buildExplanation(
+  outcome: ReconciliationResult['outcome'],
+  netPremiumTaxCredit: number,
+  repaymentAmount: number,
+  repaymentForgiven: number,
+  fplPercent: number
+): string {
+  if (outcome === 'refund') {
+    return `Your final income (${fplPercent}% FPL) entitles you to more credit than was paid in advance. ` +
+      `You can claim an additional $${Math.round(netPremiumTaxCredit).toLocaleString()} as a refundable credit.`;
+  }
+
+  if (outcome === 'repayment') {
+    const forgiven = repaymentForgiven > 0
+      ? ` The repayment limit for your income band forgives the remaining $${Math.round(repaymentForgiven).toLocaleString()}.`
+      : '';
+    return `Your final income (${fplPercent}% FPL) entitles you to less credit than was paid in advance. ` +
+      `You will repay $${Math.round(repaymentAmount).toLocaleString()} of excess advance payments with your return.${forgiven}`;
+  }
+
+  return `Your advance payments match the credit allowed for your final income (${fplPercent}% FPL). Nothing to repay or claim.`;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -3,6 +3,7 @@
  */
 
 import {
+  applyCSRVariant,
   comparePlans,
   quickComparison,
   type PlanDetails,
@@ -365,4 +366,44 @@ describe('Plan Comparison', () => {
       expect(result.summary.includes('Budget Plan') || result.summary.includes('Premium Plan')).toBe(true);
     });
   });
+
+  describe('cost-sharing reductions', () => {
+    const bronze = () => createBasePlan({
+      id: 'bronze',
+      name: 'Bronze Plan',
+      metalLevel: 'bronze',
+      monthlyPremium: 350,
+      deductible: 7000,
+      outOfPocketMax: 9200,
+    });
+    const silver = () => createBasePlan({ id: 'silver', name: 'Silver Plan', deductible: 4500, outOfPocketMax: 9200 });
+
+    it('applies the CSR variant to Silver plans only', () => {
+      expect(applyCSRVariant(silver(), '87%').deductible).toBe(700);
+      expect(applyCSRVariant(silver(), '87%').csrLevel).toBe('87%');
+      expect(applyCSRVariant(bronze(), '87%')).toEqual(bronze());
+      expect(applyCSRVariant(silver())).toEqual(silver());
+    });
+
+    it('keeps plans that already carry variant cost sharing', () => {
+      const variant = createBasePlan({ deductible: 300, csrLevel: '94%' });
+      expect(applyCSRVariant(variant, '94%')).toBe(variant);
+    });
+
+    it('compares Silver as its CSR variant', () => {
+      const standard = comparePlans(silver(), bronze());
+      const withCSR = comparePlans(silver(), bronze(), undefined, '94%');
+
+      expect(withCSR.planA.outOfPocketMax).toBeLessThan(standard.planA.outOfPocketMax);
+      expect(withCSR.metrics.find(m => m.name === 'Cost-Sharing Reduction')?.winner).toBe('A');
+      expect(withCSR.keyDifferences.some(d => d.includes('94% cost-sharing reductions'))).toBe(true);
+      expect(withCSR.scenarios[3]!.planACost).toBeLessThan(standard.scenarios[3]!.planACost);
+      expect(standard.metrics.some(m => m.name === 'Cost-Sharing Reduction')).toBe(false);
+    });
+
+    it('passes the CSR level through quick comparison', () => {
+      const result = quickComparison(silver(), bronze(), '94%');
+      expect(result.betterProtection).toBe('A');
+    });
+  });
 });
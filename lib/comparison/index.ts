@@ -6,6 +6,7 @@
 
 export {
   comparePlans,
+  applyCSRVariant,
   quickComparison,
   type PlanDetails,
   type UserHealthProfile,
@@ -5,6 +5,9 @@
  * including costs, coverage, network, and overall value assessment.
  */
 
+import type { CSRLevel } from '@/lib/calculator/advanced-subsidy';
+import { appliesCSR, getCSRVariant } from '@/lib/calculator/csr-variants';
+
 // Types
 export interface PlanDetails {
   /** Plan identifier */
@@ -60,6 +63,8 @@ export interface PlanDetails {
   };
   /** Additional benefits */
   additionalBenefits?: string[];
+  /** Cost-sharing reduction variant the cost sharing reflects (Silver only) */
+  csrLevel?: CSRLevel;
 }
 
 export interface UserHealthProfile {
@@ -157,14 +162,56 @@ export interface PlanComparisonResult {
   summary: string;
 }
 
+/**
+ * Apply the household's CSR variant to a Silver plan
+ *
+ * Plans that already specify a csrLevel are assumed to carry their variant
+ * cost sharing and are returned unchanged.
+ */
+export function applyCSRVariant(plan: PlanDetails, csrLevel: CSRLevel = 'None'): PlanDetails {
+  const variant = appliesCSR(plan.metalLevel, csrLevel) ? getCSRVariant(csrLevel) : null;
+  if (!variant || plan.csrLevel !== undefined) {
+    return plan;
+  }
+
+  const lower = (value: number | undefined, variantValue: number) =>
+    value !== undefined ? Math.min(value, variantValue) : variantValue;
+
+  return {
+    ...plan,
+    deductible: lower(plan.deductible, variant.deductible),
+    familyDeductible: plan.familyDeductible !== undefined
+      ? lower(plan.familyDeductible, variant.deductible * 2)
+      : undefined,
+    outOfPocketMax: lower(plan.outOfPocketMax, variant.oopMaximum),
+    familyOutOfPocketMax: plan.familyOutOfPocketMax !== undefined
+      ? lower(plan.familyOutOfPocketMax, variant.oopMaximum * 2)
+      : undefined,
+    primaryCareCopay: lower(plan.primaryCareCopay, variant.primaryCareCopay),
+    specialistCopay: lower(plan.specialistCopay, variant.specialistCopay),
+    genericDrugCopay: lower(plan.genericDrugCopay, variant.genericRxCopay),
+    brandDrugCopay: lower(plan.brandDrugCopay, variant.brandRxCopay),
+    emergencyRoomCopay: lower(plan.emergencyRoomCopay, variant.emergencyRoomCopay),
+    coinsurance: lower(plan.coinsurance, variant.coinsurance * 100),
+    csrLevel: variant.level,
+  };
+}
+
 /**
  * Compare two insurance plans
+ *
+ * When the household qualifies for cost-sharing reductions, Silver plans
+ * are compared as their CSR variant.
  */
 export function comparePlans(
-  planA: PlanDetails,
-  planB: PlanDetails,
-  userProfile?: UserHealthProfile
+  basePlanA: PlanDetails,
+  basePlanB: PlanDetails,
+  userProfile?: UserHealthProfile,
+  csrLevel: CSRLevel = 'None'
 ): PlanComparisonResult {
+  const planA = applyCSRVariant(basePlanA, csrLevel);
+  const planB = applyCSRVariant(basePlanB, csrLevel);
+
   // Generate comparison metrics
   const metrics = generateMetrics(planA, planB);
 
@@ -325,6 +372,20 @@ function generateMetrics(planA: PlanDetails, planB: PlanDetails): ComparisonMetr
     });
   }
 
+  const csrA = appliesCSR(planA.metalLevel, planA.csrLevel);
+  const csrB = appliesCSR(planB.metalLevel, planB.csrLevel);
+  if (csrA || csrB) {
+    metrics.push({
+      name: 'Cost-Sharing Reduction',
+      category: 'coverage',
+      planAValue: csrA ? `${planA.csrLevel} AV` : 'None',
+      planBValue: csrB ? `${planB.csrLevel} AV` : 'None',
+      winner: determineWinner(csrActuarialValue(planA), csrActuarialValue(planB), 'higher'),
+      importance: 4,
+      tooltip: 'Silver plans with cost-sharing reductions keep the Silver premium but have lower deductibles and out-of-pocket maximums',
+    });
+  }
+
   // Network metrics
   metrics.push({
     name: 'Plan Type',
@@ -688,6 +749,15 @@ function identifyKeyDifferences(
     );
   }
 
+  // Cost-sharing reduction
+  for (const plan of [planA, planB]) {
+    if (appliesCSR(plan.metalLevel, plan.csrLevel)) {
+      differences.push(
+        `${plan.name} includes ${plan.csrLevel} cost-sharing reductions, lowering its deductible to ${formatCurrency(plan.deductible)}.`
+      );
+    }
+  }
+
   // Plan type difference
   if (planA.type !== planB.type) {
     differences.push(
@@ -729,6 +799,10 @@ function generateSummary(
 }
 
 // Helper functions
+function csrActuarialValue(plan: PlanDetails): number {
+  return getCSRVariant(plan.csrLevel)?.actuarialValue ?? 0;
+}
+
 function formatCurrency(amount: number): string {
   return `$${amount.toLocaleString()}`;
 }
@@ -750,8 +824,9 @@ function determineWinner(valueA: number, valueB: number, prefer: 'lower' | 'high
  * Quick comparison for two plans
  */
 export function quickComparison(
-  planA: PlanDetails,
-  planB: PlanDetails
+  basePlanA: PlanDetails,
+  basePlanB: PlanDetails,
+  csrLevel: CSRLevel = 'None'
 ): {
   cheaperMonthly: 'A' | 'B' | 'tie';
   cheaperAnnuallyHealthy: 'A' | 'B' | 'tie';
@@ -759,7 +834,8 @@ export function quickComparison(
   betterProtection: 'A' | 'B' | 'tie';
   summary: string;
 } {
-  const result = comparePlans(planA, planB);
+  const result = comparePlans(basePlanA, basePlanB, undefined, csrLevel);
+  const { planA, planB } = result;
   const healthyScenario = result.scenarios[0];
   const sickScenario = result.scenarios[3]; // Major medical event
 
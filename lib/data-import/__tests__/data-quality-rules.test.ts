@@ -0,0 +1,168 @@
+/**
+ * Tests for data quality rules
+ */
+
+import { ACA_AGE_CURVE } from '@/lib/calculator/age-rating';
+import {
+  DATA_QUALITY_RULES,
+  evaluateStateRules,
+  hasFindingsAtOrAbove,
+  normalizeCountyName,
+  resolveRuleSettings,
+  type DataQualityRuleId,
+  type QualityPlanPremium,
+  type StateQualityData,
+} from '../data-quality-rules';
+
+function stateData(overrides: Partial<StateQualityData> = {}): StateQualityData {
+  return {
+    state: 'NC',
+    counties: [
+      { countyFips: '37183', countyName: 'Wake', ratingArea: '4', slcspPremium: 450 },
+      { countyFips: '37063', countyName: 'Durham', ratingArea: '4', slcspPremium: 455 },
+      { countyFips: '37119', countyName: 'Mecklenburg', ratingArea: '6', slcspPremium: 470 },
+      { countyFips: '37081', countyName: 'Guilford', ratingArea: '9', slcspPremium: 440 },
+    ],
+    zipMappings: [
+      { zipCode: '27601', countyFips: '37183' },
+      { zipCode: '28202', countyFips: '37119' },
+    ],
+    knownCountyFips: new Set(['37183', '37063', '37119', '37081']),
+    planCounties: new Map([['wake', true], ['durham', true], ['mecklenburg', true], ['guilford', true]]),
+    planPremiums: agePremiums('P1', '4', 400),
+    planCostSharing: [{ planKey: 'P1', deductible: 4500, oopMaximum: 9200 }],
+    ...overrides,
+  };
+}
+
+function agePremiums(planKey: string, area: string, base: number, ages = [21, 30, 40, 50, 64]): QualityPlanPremium[] {
+  return ages.map((age) => ({ planKey, area, age, monthlyPremium: Number((base * ACA_AGE_CURVE[age]!).toFixed(2)) }));
+}
+
+function run(ruleId: DataQualityRuleId, data: StateQualityData, config = {}) {
+  return evaluateStateRules(data, DATA_QUALITY_RULES.filter((rule) => rule.id === ruleId), config);
+}
+
+describe('data quality rules', () => {
+  test('clean data produces no findings', () => {
+    expect(evaluateStateRules(stateData(), DATA_QUALITY_RULES)).toEqual([]);
+  });
+
+  describe('slcsp_outlier', () => {
+    test('flags rating areas far from the rest of the state', () => {
+      const data = stateData();
+      data.counties[3]!.slcspPremium = 1100;
+
+      const [finding] = run('slcsp_outlier', data);
+      expect(finding).toMatchObject({ severity: 'warning', affectedRecords: ['37081'], tableName: 'counties' });
+      expect(finding!.description).toContain('Rating area 9: $1100.00');
+    });
+
+    test('needs at least two rating areas with SLCSP data', () => {
+      const data = stateData({ counties: [{ countyFips: '37183', countyName: 'Wake', ratingArea: '4', slcspPremium: 1100 }] });
+      expect(run('slcsp_outlier', data)).toEqual([]);
+    });
+  });
+
+  describe('age_curve', () => {
+    test('flags plans whose premiums do not follow the curve', () => {
+      const flat = [21, 40, 64].map((age) => ({ planKey: 'FLAT', area: 'Maricopa County', age, monthlyPremium: 400 }));
+      const [finding] = run('age_curve', stateData({ planPremiums: [...agePremiums('P1', '4', 400), ...flat] }));
+
+      expect(finding).toMatchObject({ affectedRecords: ['FLAT'], checked: 2 });
+      expect(finding!.description).toContain('FLAT (Maricopa County): age 40');
+    });
+
+    test('derives the base rate when age 21 is missing', () => {
+      expect(run('age_curve', stateData({ planPremiums: agePremiums('P1', '4', 400, [40, 50, 64]) }))).toEqual([]);
+    });
+
+    test('skips community-rated states and single-age plans', () => {
+      const flat = [21, 64].map((age) => ({ planKey: 'FLAT', area: '1', age, monthlyPremium: 400 }));
+      expect(run('age_curve', stateData({ state: 'NY', planPremiums: flat }))).toEqual([]);
+      expect(run('age_curve', stateData({ planPremiums: flat.slice(0, 1) }))).toEqual([]);
+    });
+
+    test('uses the configured tolerance', () => {
+      const premiums = agePremiums('P1', '4', 400).map((p) => (p.age === 64 ? { ...p, monthlyPremium: p.monthlyPremium * 1.08 } : p));
+
+      expect(run('age_curve', stateData({ planPremiums: premiums }))).toEqual([]);
+      expect(run('age_curve', stateData({ planPremiums: premiums }), { age_curve: { threshold: 0.05 } })).toHaveLength(1);
+    });
+  });
+
+  describe('deductible_above_moop', () => {
+    test('flags plans and escalates to critical when widespread', () => {
+      const planCostSharing = [
+        { planKey: 'P1', deductible: 9500, oopMaximum: 9200 },
+        ...Array.from({ length: 19 }, (_, i) => ({ planKey: `OK${i}`, deductible: 2000, oopMaximum: 9200 })),
+      ];
+
+      expect(run('deductible_above_moop', stateData({ planCostSharing }))[0]).toMatchObject({
+        severity: 'critical',
+        affectedRecords: ['P1'],
+        checked: 20,
+      });
+      expect(run('deductible_above_moop', stateData({ planCostSharing }), { deductible_above_moop: { escalateAt: 0.1 } })[0]?.severity)
+        .toBe('error');
+    });
+  });
+
+  describe('county_without_silver', () => {
+    test('flags counties without a Silver plan', () => {
+      const data = stateData({ planCounties: new Map([['wake', true], ['durham', false], ['mecklenburg', true]]) });
+      expect(run('county_without_silver', data)[0]?.affectedRecords).toEqual(['37063', '37081']);
+    });
+
+    test('only runs for states with plan data', () => {
+      expect(run('county_without_silver', stateData({ planCounties: new Map() }))).toEqual([]);
+    });
+
+    test('matches plan county names with or without a suffix', () => {
+      expect(normalizeCountyName('Maricopa County')).toBe('maricopa');
+      expect(normalizeCountyName(' Orleans Parish ')).toBe('orleans');
+      expect(normalizeCountyName('Wake')).toBe('wake');
+    });
+  });
+
+  describe('zip_without_county', () => {
+    test('flags ZIPs none of whose mappings point at a known county', () => {
+      const zipMappings = [
+        { zipCode: '27601', countyFips: '37183' },
+        { zipCode: '27601', countyFips: '99999' },
+        { zipCode: '28999', countyFips: '99999' },
+        { zipCode: '28998', countyFips: '' },
+      ];
+
+      const [finding] = run('zip_without_county', stateData({ zipMappings }));
+      expect(finding).toMatchObject({ affectedRecords: ['28999', '28998'], checked: 3, severity: 'critical' });
+    });
+  });
+
+  describe('configuration', () => {
+    test('disables rules and overrides severity', () => {
+      const data = stateData({ planCounties: new Map([['wake', true]]) });
+
+      expect(run('county_without_silver', data, { county_without_silver: { enabled: false } })).toEqual([]);
+      expect(run('county_without_silver', data, { county_without_silver: { severity: 'info' } })[0]?.severity).toBe('info');
+    });
+
+    test('keeps defaults for settings that are not overridden', () => {
+      const rule = DATA_QUALITY_RULES.find((r) => r.id === 'age_curve')!;
+      expect(resolveRuleSettings(rule, { age_curve: { severity: 'error' } })).toEqual({
+        enabled: true,
+        severity: 'error',
+        escalateAt: null,
+        threshold: 0.1,
+      });
+    });
+  });
+
+  test('hasFindingsAtOrAbove compares severities', () => {
+    const findings = [{ severity: 'warning' as const }, { severity: 'error' as const }];
+
+    expect(hasFindingsAtOrAbove(findings, 'critical')).toBe(false);
+    expect(hasFindingsAtOrAbove(findings, 'error')).toBe(true);
+    expect(hasFindingsAtOrAbove([], 'info')).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for versioned data release helpers
+ */
+
+import {
+  findPrunableVersions,
+  findRollbackTarget,
+  getActivationBlocker,
+  isDataType,
+  nextVersionNumber,
+  type DataVersion,
+} from '../data-versions';
+
+type VersionFields = Pick<DataVersion, 'versionId' | 'status' | 'activatedAt' | 'isValidated' | 'validationErrors' | 'metadata'>;
+
+function version(overrides: Partial<VersionFields> = {}): VersionFields {
+  return {
+    versionId: 'v-draft',
+    status: 'draft',
+    activatedAt: null,
+    isValidated: true,
+    validationErrors: [],
+    metadata: { baseVersionId: 'v-active' },
+    ...overrides,
+  };
+}
+
+describe('data versions', () => {
+  describe('isDataType', () => {
+    test('accepts versioned data types only', () => {
+      expect(isDataType('cms_geography')).toBe(true);
+      expect(isDataType('aca_plans')).toBe(true);
+      expect(isDataType('medicare_costs')).toBe(false);
+    });
+  });
+
+  describe('nextVersionNumber', () => {
+    test('starts at v1', () => {
+      expect(nextVersionNumber([])).toBe('v1');
+    });
+
+    test('follows the highest existing number', () => {
+      expect(nextVersionNumber(['v1', 'v3', 'v2'])).toBe('v4');
+      expect(nextVersionNumber(['v9', 'custom', 'v10'])).toBe('v11');
+    });
+  });
+
+  describe('getActivationBlocker', () => {
+    test('allows a validated draft based on the active version', () => {
+      expect(getActivationBlocker(version(), 'v-active')).toBeNull();
+    });
+
+    test('allows the first draft when nothing is active', () => {
+      expect(getActivationBlocker(version({ metadata: { baseVersionId: null } }), null)).toBeNull();
+    });
+
+    test('blocks unvalidated and invalid versions unless forced', () => {
+      expect(getActivationBlocker(version({ isValidated: false }), 'v-active')).toBe('Version has not been validated');
+      expect(getActivationBlocker(
+        version({ isValidated: false, validationErrors: ['No counties imported'] }),
+        'v-active'
+      )).toBe('Version failed validation (1 errors)');
+      expect(getActivationBlocker(version({ isValidated: false }), 'v-active', true)).toBeNull();
+    });
+
+    test('blocks drafts copied from a version that is no longer active', () => {
+      expect(getActivationBlocker(version(), 'v-newer')).toMatch(/no longer active/);
+    });
+
+    test('allows re-activating an archived version', () => {
+      expect(getActivationBlocker(version({ status: 'archived' }), 'v-newer')).toBeNull();
+    });
+
+    test('never re-activates the active version', () => {
+      expect(getActivationBlocker(version({ status: 'active' }), 'v-draft', true)).toBe('Version is already active');
+    });
+  });
+
+  describe('findRollbackTarget', () => {
+    const versions = [
+      version({ versionId: 'v1', status: 'archived', activatedAt: new Date('2025-01-01') }),
+      version({ versionId: 'v2', status: 'rollback', activatedAt: new Date('2025-02-01') }),
+      version({ versionId: 'v3', status: 'archived', activatedAt: new Date('2025-03-01') }),
+      version({ versionId: 'v4', status: 'active', activatedAt: new Date('2025-04-01') }),
+      version({ versionId: 'v5', status: 'draft' }),
+    ];
+
+    test('returns the most recently activated archived version', () => {
+      expect(findRollbackTarget(versions, 'v4')?.versionId).toBe('v3');
+    });
+
+    test('skips rolled-back versions and drafts', () => {
+      const afterRollback = versions.map((v) =>
+        v.versionId === 'v3' ? { ...v, status: 'active' } : v.versionId === 'v4' ? { ...v, status: 'rollback' } : v
+      );
+
+      expect(findRollbackTarget(afterRollback, 'v3')?.versionId).toBe('v1');
+    });
+
+    test('returns null when there is nothing to roll back to', () => {
+      expect(findRollbackTarget([versions[3]!], 'v4')).toBeNull();
+    });
+  });
+
+  describe('findPrunableVersions', () => {
+    const retired = (versionId: string, status: string, activatedAt: string | null) => ({
+      ...version({ versionId, status, activatedAt: activatedAt ? new Date(activatedAt) : null }),
+      createdAt: new Date('2024-12-01'),
+    });
+    const versions = [
+      retired('v1', 'archived', '2025-01-01'),
+      retired('v2', 'archived', '2025-02-01'),
+      retired('v3', 'rollback', '2025-03-01'),
+      retired('v4', 'archived', '2025-04-01'),
+      retired('v5', 'active', '2025-05-01'),
+      retired('v6', 'draft', null),
+    ];
+
+    test('keeps the most recent retired versions', () => {
+      expect(findPrunableVersions(versions, 2).map((v) => v.versionId)).toEqual(['v2', 'v1']);
+      expect(findPrunableVersions(versions, 5)).toEqual([]);
+    });
+
+    test('never prunes the active version, drafts or the rollback target', () => {
+      const afterRollback = versions.map((v) =>
+        v.versionId === 'v4' ? { ...v, status: 'rollback' } : v.versionId === 'v5' ? { ...v, status: 'rollback' } : v
+      );
+
+      // v2 is the rollback target even though two rolled-back versions are newer
+      expect(findPrunableVersions(afterRollback, 1).map((v) => v.versionId)).toEqual(['v4', 'v3', 'v1']);
+      expect(findPrunableVersions(versions, 0).map((v) => v.versionId)).toEqual(['v3', 'v2', 'v1']);
+    });
+  });
+});
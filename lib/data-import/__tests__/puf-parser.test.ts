@@ -0,0 +1,282 @@
+/**
+ * Tests for CMS Marketplace PUF parsing
+ */
+
+import {
+  addRate,
+  buildPlanRecords,
+  normalizeRatingArea,
+  parseBenefitRow,
+  parseMoney,
+  parsePlanAttributesRow,
+  parseRateAge,
+  parseRateRow,
+  parseServiceAreaRow,
+  PUF_DATA_SOURCE,
+  rateTableKey,
+  type PlanRateTable,
+  type PlanRecordInputs,
+  type PufPlan,
+  type PufRow,
+} from '../puf-parser';
+
+const planRow: PufRow = {
+  StateCode: 'NC',
+  IssuerId: '11512',
+  IssuerMarketPlaceMarketingName: 'Blue Cross NC',
+  StandardComponentId: '11512NC0100031',
+  PlanId: '11512NC0100031-01',
+  PlanMarketingName: 'Blue Advantage Silver 4500',
+  PlanType: 'PPO',
+  MetalLevel: 'Silver',
+  MarketCoverage: 'Individual',
+  DentalOnlyPlan: 'No',
+  ServiceAreaId: 'NCS001',
+  NationalNetwork: 'No',
+  TEHBDedInnTier1Individual: '$4,500',
+  TEHBInnTier1IndividualMOOP: '$9,200',
+};
+
+const plan: PufPlan = {
+  standardComponentId: '11512NC0100031',
+  stateCode: 'NC',
+  issuerId: '11512',
+  issuerName: 'Blue Cross NC',
+  planName: 'Blue Advantage Silver 4500',
+  planType: 'PPO',
+  metalTier: 'Silver',
+  serviceAreaId: 'NCS001',
+  nationalNetwork: false,
+  deductible: 4500,
+  oopMaximum: 9200,
+};
+
+const counties = [
+  { stateCode: 'NC', countyFips: '37183', countyName: 'Wake', ratingArea: 'Rating Area 4' },
+  { stateCode: 'NC', countyFips: '37119', countyName: 'Mecklenburg', ratingArea: '6' },
+];
+
+function rateTable(byAge: Record<number, [number, number | null]>): PlanRateTable {
+  return {
+    effectiveDate: '2025-01-01',
+    byAge: new Map(Object.entries(byAge).map(([age, [rate, tobaccoRate]]) => [Number(age), { rate, tobaccoRate }])),
+  };
+}
+
+function inputs(overrides: Partial<PlanRecordInputs> = {}): PlanRecordInputs {
+  return {
+    plans: [plan],
+    rates: new Map([
+      [rateTableKey(plan.standardComponentId, '4'), rateTable({ 21: [400, 480], 40: [510, null] })],
+      [rateTableKey(plan.standardComponentId, '6'), rateTable({ 21: [380, null], 40: [485, null] })],
+    ]),
+    costSharing: new Map([[plan.standardComponentId, { primaryCareVisit: 40, specialistVisit: null }]]),
+    serviceAreas: [
+      { issuerId: '11512', serviceAreaId: 'NCS001', stateCode: 'NC', coversEntireState: true, countyFips: null },
+    ],
+    counties,
+    planYear: 2025,
+    ...overrides,
+  };
+}
+
+describe('PUF parser', () => {
+  describe('value parsing', () => {
+    test('parses dollar amounts', () => {
+      expect(parseMoney('$9,200')).toBe(9200);
+      expect(parseMoney('$45.00 Copay after deductible')).toBe(45);
+      expect(parseMoney('No Charge')).toBe(0);
+      expect(parseMoney('No Charge after deductible')).toBe(0);
+    });
+
+    test('returns null for coinsurance and missing amounts', () => {
+      expect(parseMoney('20% Coinsurance after deductible')).toBeNull();
+      expect(parseMoney('Not Applicable')).toBeNull();
+      expect(parseMoney('')).toBeNull();
+      expect(parseMoney(undefined)).toBeNull();
+    });
+
+    test('parses rate ages', () => {
+      expect(parseRateAge('0-14')).toBe(0);
+      expect(parseRateAge('21')).toBe(21);
+      expect(parseRateAge('64 and over')).toBe(64);
+      expect(parseRateAge('Family Option')).toBeNull();
+    });
+
+    test('normalizes rating areas', () => {
+      expect(normalizeRatingArea('Rating Area 7')).toBe('7');
+      expect(normalizeRatingArea('07')).toBe('7');
+      expect(normalizeRatingArea('12')).toBe('12');
+    });
+  });
+
+  describe('parsePlanAttributesRow', () => {
+    test('parses individual medical plans', () => {
+      expect(parsePlanAttributesRow(planRow)).toEqual(plan);
+    });
+
+    test('falls back to medical-only deductible and MOOP', () => {
+      const parsed = parsePlanAttributesRow({
+        ...planRow,
+        TEHBDedInnTier1Individual: 'Not Applicable',
+        TEHBInnTier1IndividualMOOP: '',
+        MEHBDedInnTier1Individual: '$3,000',
+        MEHBInnTier1IndividualMOOP: '$8,000',
+      });
+
+      expect(parsed?.deductible).toBe(3000);
+      expect(parsed?.oopMaximum).toBe(8000);
+    });
+
+    test('skips CSR variants, dental, SHOP and unknown metal levels', () => {
+      expect(parsePlanAttributesRow({ ...planRow, PlanId: '11512NC0100031-04' })).toBeNull();
+      expect(parsePlanAttributesRow({ ...planRow, DentalOnlyPlan: 'Yes' })).toBeNull();
+      expect(parsePlanAttributesRow({ ...planRow, MarketCoverage: 'SHOP (Small Group)' })).toBeNull();
+      expect(parsePlanAttributesRow({ ...planRow, MetalLevel: 'High' })).toBeNull();
+    });
+
+    test('maps expanded bronze to Bronze', () => {
+      expect(parsePlanAttributesRow({ ...planRow, MetalLevel: 'Expanded Bronze' })?.metalTier).toBe('Bronze');
+    });
+  });
+
+  describe('parseRateRow', () => {
+    test('parses age rates with tobacco rates', () => {
+      expect(parseRateRow({
+        PlanId: '11512NC0100031',
+        RatingAreaId: 'Rating Area 4',
+        Age: '40',
+        IndividualRate: '510.25',
+        IndividualTobaccoRate: '612.30',
+        RateEffectiveDate: '2025-01-01',
+      })).toEqual({
+        standardComponentId: '11512NC0100031',
+        ratingArea: '4',
+        age: 40,
+        rate: 510.25,
+        tobaccoRate: 612.3,
+        effectiveDate: '2025-01-01',
+      });
+    });
+
+    test('skips family option and zero rates', () => {
+      expect(parseRateRow({ PlanId: 'X', RatingAreaId: '1', Age: 'Family Option', IndividualRate: '400' })).toBeNull();
+      expect(parseRateRow({ PlanId: 'X', RatingAreaId: '1', Age: '21', IndividualRate: '0' })).toBeNull();
+    });
+
+    test('treats missing tobacco rates as null', () => {
+      const rate = parseRateRow({ PlanId: 'X', RatingAreaId: '1', Age: '21', IndividualRate: '400', IndividualTobaccoRate: '' });
+      expect(rate?.tobaccoRate).toBeNull();
+    });
+  });
+
+  describe('parseBenefitRow', () => {
+    test('parses primary care and specialist copays for the standard variant', () => {
+      expect(parseBenefitRow({
+        PlanId: '11512NC0100031-01',
+        BenefitName: 'Primary Care Visit to Treat an Injury or Illness',
+        CopayInnTier1: '$40.00',
+      })).toEqual({ standardComponentId: '11512NC0100031', benefit: 'primaryCareVisit', copay: 40 });
+
+      expect(parseBenefitRow({
+        PlanId: '11512NC0100031-01',
+        BenefitName: 'Specialist Visit',
+        CopayInnTier1: 'Not Applicable',
+      })?.copay).toBeNull();
+    });
+
+    test('skips other benefits and variants', () => {
+      expect(parseBenefitRow({ PlanId: '11512NC0100031-01', BenefitName: 'Emergency Room Services' })).toBeNull();
+      expect(parseBenefitRow({ PlanId: '11512NC0100031-05', BenefitName: 'Specialist Visit' })).toBeNull();
+    });
+  });
+
+  describe('parseServiceAreaRow', () => {
+    test('parses county and whole-state service areas', () => {
+      const base = { IssuerId: '11512', ServiceAreaId: 'NCS001', StateCode: 'NC', MarketCoverage: 'Individual', DentalOnlyPlan: 'No' };
+
+      expect(parseServiceAreaRow({ ...base, CoverEntireState: 'No', County: '1001' })?.countyFips).toBe('01001');
+      expect(parseServiceAreaRow({ ...base, CoverEntireState: 'Yes', County: '' })).toMatchObject({
+        coversEntireState: true,
+        countyFips: null,
+      });
+      expect(parseServiceAreaRow({ ...base, DentalOnlyPlan: 'Yes' })).toBeNull();
+    });
+  });
+
+  describe('addRate', () => {
+    test('keeps only the earliest effective rates', () => {
+      const rates = new Map<string, PlanRateTable>();
+      const rate = { standardComponentId: 'P', ratingArea: '1', age: 21, rate: 400, tobaccoRate: null };
+
+      addRate(rates, { ...rate, effectiveDate: '2025-04-01', rate: 420 });
+      addRate(rates, { ...rate, effectiveDate: '2025-01-01' });
+      addRate(rates, { ...rate, age: 40, effectiveDate: '2025-01-01', rate: 510 });
+      addRate(rates, { ...rate, age: 40, effectiveDate: '2025-07-01', rate: 530 });
+
+      const table = rates.get(rateTableKey('P', '1'));
+      expect(table?.effectiveDate).toBe('2025-01-01');
+      expect(table?.byAge.get(21)?.rate).toBe(400);
+      expect(table?.byAge.get(40)?.rate).toBe(510);
+    });
+  });
+
+  describe('buildPlanRecords', () => {
+    test('creates one record per county and age for whole-state service areas', () => {
+      const records = buildPlanRecords(inputs());
+
+      expect(records).toHaveLength(4);
+      expect(records[0]).toMatchObject({
+        state: 'NC',
+        county: 'Wake',
+        ratingArea: '4',
+        zipCode: null,
+        metalTier: 'Silver',
+        planType: 'PPO',
+        carrier: 'Blue Cross NC',
+        age: 21,
+        monthlyPremium: '400.00',
+        deductible: '4500.00',
+        oopMaximum: '9200.00',
+        primaryCareVisit: '40.00',
+        specialistVisit: null,
+        planYear: 2025,
+        dataSource: PUF_DATA_SOURCE,
+        isActive: true,
+      });
+      expect(records.filter((r) => r.county === 'Mecklenburg').map((r) => r.monthlyPremium)).toEqual(['380.00', '485.00']);
+    });
+
+    test('limits county service areas to the listed counties', () => {
+      const records = buildPlanRecords(inputs({
+        serviceAreas: [
+          { issuerId: '11512', serviceAreaId: 'NCS001', stateCode: 'NC', coversEntireState: false, countyFips: '37119' },
+          { issuerId: '11512', serviceAreaId: 'NCS001', stateCode: 'NC', coversEntireState: false, countyFips: '99999' },
+        ],
+      }));
+
+      expect(new Set(records.map((r) => r.county))).toEqual(new Set(['Mecklenburg']));
+    });
+
+    test('skips counties without rates for their rating area', () => {
+      const records = buildPlanRecords(inputs({
+        rates: new Map([[rateTableKey(plan.standardComponentId, '4'), rateTable({ 21: [400, null] })]]),
+      }));
+
+      expect(records.map((r) => r.county)).toEqual(['Wake']);
+    });
+
+    test('converts tobacco rates to a surcharge percentage', () => {
+      const [withTobacco, withoutTobacco] = buildPlanRecords(inputs());
+
+      expect(withTobacco?.tobaccoSurcharge).toBe('20.00');
+      expect(withoutTobacco?.tobaccoSurcharge).toBe('0.00');
+    });
+
+    test('filters ages and skips plans without deductible or service area', () => {
+      expect(buildPlanRecords(inputs({ ages: [40] })).map((r) => r.age)).toEqual([40, 40]);
+      expect(buildPlanRecords(inputs({ plans: [{ ...plan, deductible: null }] }))).toEqual([]);
+      expect(buildPlanRecords(inputs({ plans: [{ ...plan, serviceAreaId: 'OTHER' }] }))).toEqual([]);
+    });
+  });
+});
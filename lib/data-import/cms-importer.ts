@@ -12,15 +12,29 @@
  * Usage:
  * - Download CMS data files to /data/cms/ directory
  * - Run: npm run import:cms
- * - Data will be imported to Supabase database
+ * - Data is imported into a draft data version (see data-versions.ts);
+ *   activate it with npm run data:activate once validation passes
  */
 
 import { getDb } from '@/db/client';
 import { counties, zipCodeMappings } from '@/db/schema/state-metadata';
-import { sql, eq, and, isNull } from 'drizzle-orm';
+import { acaPlans } from '@/db/schema/insurance-costs';
+import { sql, eq, and, isNull, lte, count } from 'drizzle-orm';
 import * as fs from 'fs';
 import * as path from 'path';
 import csv from 'csv-parser';
+import {
+  createDraftVersion,
+  finishDataImport,
+  getActiveDataVersionId,
+  getDataVersion,
+  recordValidation,
+  startDataImport,
+  versionScope,
+  type DataImportRecord,
+  type DataValidationResult,
+} from './data-versions';
+import { runDataQualityChecks } from './data-quality';
 
 // CMS data file paths
 const DATA_DIR = path.join(process.cwd(), 'data', 'cms');
@@ -62,6 +76,16 @@ interface ZIPMappingData {
   longitude?: number;
 }
 
+interface ImportCounts {
+  rowsProcessed: number;
+  rowsImported: number;
+}
+
+export interface FullImportResult {
+  versionId: string;
+  validation: DataValidationResult;
+}
+
 interface CarrierData {
   stateCode: string;
   countyFIPS: string;
@@ -74,9 +98,9 @@ interface CarrierData {
 }
 
 /**
- * Import county and rating area data from CMS files
+ * Import county and rating area data from CMS files into a draft version
  */
-export async function importCountyData(): Promise<void> {
+export async function importCountyData(versionId: string): Promise<void> {
   console.log('📍 Importing county and rating area data...');
 
   const filePath = path.join(DATA_DIR, COUNTY_FILE);
@@ -87,7 +111,13 @@ export async function importCountyData(): Promise<void> {
 
   const countyData: CMSCountyData[] = [];
 
-  return new Promise((resolve, reject) => {
+  await trackImport({
+    importName: 'County and rating area data',
+    dataSource: 'CMS Marketplace PUF',
+    versionId,
+    fileName: COUNTY_FILE,
+    targetTables: ['counties'],
+  }, () => new Promise((resolve, reject) => {
     fs.createReadStream(filePath)
       .pipe(csv())
       .on('data', (row) => {
@@ -129,11 +159,12 @@ export async function importCountyData(): Promise<void> {
                 hasMultipleCarriers: false,
                 slcspPremium: null, // Will be populated by SLCSP import
                 dataYear: new Date().getFullYear(),
+                dataVersionId: versionId,
                 createdAt: new Date(),
                 updatedAt: new Date()
               }))
             ).onConflictDoUpdate({
-              target: [counties.countyFips],
+              target: [counties.countyFips, counties.dataVersionId],
               set: {
                 ratingArea: sql`excluded.rating_area`,
                 updatedAt: new Date()
@@ -144,20 +175,20 @@ export async function importCountyData(): Promise<void> {
           }
 
           console.log(`✅ Successfully imported ${countyData.length} counties`);
-          resolve();
+          resolve({ rowsProcessed: countyData.length, rowsImported: countyData.length });
         } catch (error) {
           console.error('❌ Error importing counties:', error);
           reject(error);
         }
       })
       .on('error', reject);
-  });
+  }));
 }
 
 /**
- * Import SLCSP benchmark pricing data
+ * Import SLCSP benchmark pricing data into a draft version's counties
  */
-export async function importSLCSPData(): Promise<void> {
+export async function importSLCSPData(versionId: string): Promise<void> {
   console.log('💰 Importing SLCSP benchmark pricing...');
 
   const filePath = path.join(DATA_DIR, SLCSP_FILE);
@@ -168,7 +199,13 @@ export async function importSLCSPData(): Promise<void> {
 
   const slcspData: SLCSPData[] = [];
 
-  return new Promise((resolve, reject) => {
+  await trackImport({
+    importName: 'SLCSP benchmark pricing',
+    dataSource: 'Healthcare.gov Tax Tool',
+    versionId,
+    fileName: SLCSP_FILE,
+    targetTables: ['counties'],
+  }, () => new Promise((resolve, reject) => {
     fs.createReadStream(filePath)
       .pipe(csv())
       .on('data', (row) => {
@@ -198,29 +235,31 @@ export async function importSLCSPData(): Promise<void> {
               .where(
                 and(
                   eq(counties.stateCode, slcsp.stateCode),
-                  eq(counties.ratingArea, slcsp.ratingArea)
+                  eq(counties.ratingArea, slcsp.ratingArea),
+                  eq(counties.dataVersionId, versionId)
                 )
               );
           }
 
           console.log(`✅ Successfully updated ${slcspData.length} rating areas with SLCSP pricing`);
-          resolve();
+          resolve({ rowsProcessed: slcspData.length, rowsImported: slcspData.length });
         } catch (error) {
           console.error('❌ Error importing SLCSP data:', error);
           reject(error);
         }
       })
       .on('error', reject);
-  });
+  }));
 }
 
 /**
- * Import ZIP to county mappings
+ * Import ZIP to county mappings into a draft version
  *
- * Note: County names are looked up from the counties table using a batch query
- * for efficiency, rather than individual lookups per ZIP code.
+ * The file replaces the version's ZIP mappings. County names are looked up
+ * from the version's counties using a batch query for efficiency, rather
+ * than individual lookups per ZIP code.
  */
-export async function importZIPMappings(): Promise<void> {
+export async function importZIPMappings(versionId: string): Promise<void> {
   console.log('🗺️  Importing ZIP to county mappings...');
 
   const filePath = path.join(DATA_DIR, ZIP_FILE);
@@ -231,7 +270,13 @@ export async function importZIPMappings(): Promise<void> {
 
   const zipData: ZIPMappingData[] = [];
 
-  return new Promise((resolve, reject) => {
+  await trackImport({
+    importName: 'ZIP to county mappings',
+    dataSource: 'HUD USPS ZIP Crosswalk',
+    versionId,
+    fileName: ZIP_FILE,
+    targetTables: ['zip_code_mappings'],
+  }, () => new Promise((resolve, reject) => {
     fs.createReadStream(filePath)
       .pipe(csv())
       .on('data', (row) => {
@@ -256,7 +301,8 @@ export async function importZIPMappings(): Promise<void> {
           // Query all counties at once for efficiency
           const allCounties = await getDb()
             .select({ countyFips: counties.countyFips, countyName: counties.countyName })
-            .from(counties);
+            .from(counties)
+            .where(eq(counties.dataVersionId, versionId));
 
           for (const county of allCounties) {
             countyNameCache.set(county.countyFips, county.countyName);
@@ -264,6 +310,9 @@ export async function importZIPMappings(): Promise<void> {
 
           console.log(`   Loaded ${countyNameCache.size} county names for ${uniqueFips.length} unique FIPS codes`);
 
+          // Replace the mappings copied from the previous version
+          await getDb().delete(zipCodeMappings).where(eq(zipCodeMappings.dataVersionId, versionId));
+
           // Insert ZIP mappings in batches
           const batchSize = 500;
           for (let i = 0; i < zipData.length; i += batchSize) {
@@ -278,28 +327,29 @@ export async function importZIPMappings(): Promise<void> {
                 cityName: zip.city,
                 latitude: zip.latitude?.toString(),
                 longitude: zip.longitude?.toString(),
+                dataVersionId: versionId,
                 createdAt: new Date()
               }))
-            ).onConflictDoNothing();
+            );
 
             console.log(`   Imported batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(zipData.length / batchSize)}`);
           }
 
           console.log(`✅ Successfully imported ${zipData.length} ZIP code mappings`);
-          resolve();
+          resolve({ rowsProcessed: zipData.length, rowsImported: zipData.length });
         } catch (error) {
           console.error('❌ Error importing ZIP mappings:', error);
           reject(error);
         }
       })
       .on('error', reject);
-  });
+  }));
 }
 
 /**
- * Import carrier participation data
+ * Import carrier participation data into a draft version's counties
  */
-export async function importCarrierData(): Promise<void> {
+export async function importCarrierData(versionId: string): Promise<void> {
   console.log('🏥 Importing carrier participation data...');
 
   const filePath = path.join(DATA_DIR, CARRIER_FILE);
@@ -311,7 +361,13 @@ export async function importCarrierData(): Promise<void> {
 
   const carrierData: CarrierData[] = [];
 
-  return new Promise((resolve, reject) => {
+  await trackImport({
+    importName: 'Carrier participation',
+    dataSource: 'CMS QHP Landscape',
+    versionId,
+    fileName: CARRIER_FILE,
+    targetTables: ['counties'],
+  }, () => new Promise((resolve, reject) => {
     fs.createReadStream(filePath)
       .pipe(csv())
       .on('data', (row) => {
@@ -350,47 +406,60 @@ export async function importCarrierData(): Promise<void> {
                 hasMultipleCarriers: carriers.length > 1,
                 updatedAt: new Date()
               })
-              .where(eq(counties.countyFips, countyFIPS));
+              .where(and(eq(counties.countyFips, countyFIPS), eq(counties.dataVersionId, versionId)));
           }
 
           console.log(`✅ Successfully updated ${carriersByCounty.size} counties with carrier participation`);
-          resolve();
+          resolve({ rowsProcessed: carrierData.length, rowsImported: carriersByCounty.size });
         } catch (error) {
           console.error('❌ Error importing carrier data:', error);
           reject(error);
         }
       })
       .on('error', reject);
-  });
+  }));
 }
 
 /**
- * Run all CMS data imports in sequence
+ * Run all CMS data imports in sequence into a draft version
+ *
+ * Creates the draft unless one is given, and validates it afterwards. The
+ * draft only goes live once activated.
  */
-export async function runFullImport(): Promise<void> {
+export async function runFullImport(options: { versionId?: string; createdBy?: string } = {}): Promise<FullImportResult> {
   console.log('🚀 Starting full CMS data import...\n');
 
   const startTime = Date.now();
 
   try {
+    const versionId = options.versionId ?? (await createDraftVersion('cms_geography', {
+      description: 'Full CMS data import',
+      createdBy: options.createdBy,
+    })).versionId;
+    console.log(`📦 Importing into draft data version ${versionId}\n`);
+
     // Step 1: Import counties and rating areas
-    await importCountyData();
+    await importCountyData(versionId);
     console.log('');
 
     // Step 2: Import SLCSP benchmark pricing
-    await importSLCSPData();
+    await importSLCSPData(versionId);
     console.log('');
 
     // Step 3: Import ZIP to county mappings
-    await importZIPMappings();
+    await importZIPMappings(versionId);
     console.log('');
 
     // Step 4: Import carrier participation (optional)
-    await importCarrierData();
+    await importCarrierData(versionId);
     console.log('');
 
+    const validation = await validateImportedData(versionId);
+
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-    console.log(`✅ Full import completed in ${duration}s`);
+    console.log(`\n✅ Full import completed in ${duration}s`);
+
+    return { versionId, validation };
   } catch (error) {
     console.error('❌ Import failed:', error);
     throw error;
@@ -399,24 +468,81 @@ export async function runFullImport(): Promise<void> {
 
 /**
  * Validate imported data
+ *
+ * Checks a data version (the active CMS geography data when none is given)
+ * and, for a specific version, records the result on it. Versions with
+ * errors cannot be activated.
  */
-export async function validateImportedData(): Promise<void> {
-  console.log('🔍 Validating imported data...\n');
+export async function validateImportedData(versionId?: string): Promise<DataValidationResult> {
+  const version = versionId ? await getDataVersion(versionId) : null;
+  if (versionId && !version) {
+    throw new Error(`Data version not found: ${versionId}`);
+  }
+
+  const label = version ? `${version.dataType} ${version.versionNumber} (${version.status})` : 'active data';
+  console.log(`🔍 Validating ${label}...\n`);
+
+  const result = version?.dataType === 'aca_plans'
+    ? await validatePlanData(version.versionId)
+    : await validateGeographyData(version?.versionId ?? await getActiveDataVersionId('cms_geography'));
+
+  // Data quality rules; critical alerts block activation
+  const quality = await runDataQualityChecks({ versionId: version?.versionId });
+  result.counts.qualityAlerts = quality.findings.length;
+  if (quality.findings.length > 0) {
+    console.log(`\n🚨 ${quality.findings.length} data quality alerts (${quality.alerts.created} new, ${quality.alerts.resolved} resolved):`);
+    quality.findings.forEach(f => console.log(`   - [${f.severity}] ${f.title}`));
+  } else {
+    console.log(`\n✅ No data quality alerts`);
+  }
+  for (const finding of quality.findings) {
+    if (finding.severity === 'critical') {
+      result.errors.push(`Critical data quality alert: ${finding.title}`);
+    } else if (finding.severity !== 'info') {
+      result.warnings.push(`Data quality alert (${finding.severity}): ${finding.title}`);
+    }
+  }
+  result.valid = result.errors.length === 0;
+
+  if (result.errors.length > 0) {
+    console.log(`\n❌ Validation failed:`);
+    result.errors.forEach(e => console.log(`   - ${e}`));
+  } else {
+    console.log(`\n✅ Validation passed${result.warnings.length > 0 ? ` with ${result.warnings.length} warnings` : ''}`);
+  }
+
+  if (version) {
+    await recordValidation(version.versionId, result);
+  }
+
+  return result;
+}
 
-  const countyCount = await getDb().select({ count: sql`count(*)` }).from(counties);
-  const zipCount = await getDb().select({ count: sql`count(*)` }).from(zipCodeMappings);
+async function validateGeographyData(versionId: string | null): Promise<DataValidationResult> {
+  const countyScope = versionScope(counties.dataVersionId, versionId);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const [countyCount] = await getDb().select({ count: count() }).from(counties).where(countyScope);
+  const [zipCount] = await getDb().select({ count: count() }).from(zipCodeMappings)
+    .where(versionScope(zipCodeMappings.dataVersionId, versionId));
+  const counts = { counties: countyCount?.count ?? 0, zipCodes: zipCount?.count ?? 0 };
 
   console.log(`📊 Data Summary:`);
-  console.log(`   Counties: ${countyCount[0]?.count || 0}`);
-  console.log(`   ZIP Codes: ${zipCount[0]?.count || 0}`);
+  console.log(`   Counties: ${counts.counties}`);
+  console.log(`   ZIP Codes: ${counts.zipCodes}`);
+
+  if (counts.counties === 0) errors.push('No counties imported');
+  if (counts.zipCodes === 0) errors.push('No ZIP code mappings imported');
 
   // Check for counties without SLCSP pricing
   const countiesWithoutSLCSP = await getDb().select()
     .from(counties)
-    .where(isNull(counties.slcspPremium))
+    .where(and(countyScope, isNull(counties.slcspPremium)))
     .limit(10);
 
   if (countiesWithoutSLCSP.length > 0) {
+    warnings.push(`${countiesWithoutSLCSP.length}+ counties without SLCSP pricing`);
     console.log(`\n⚠️  Found ${countiesWithoutSLCSP.length} counties without SLCSP pricing (showing first 10):`);
     countiesWithoutSLCSP.forEach(c => {
       console.log(`   - ${c.countyName}, ${c.stateCode} (Rating Area: ${c.ratingArea})`);
@@ -428,10 +554,14 @@ export async function validateImportedData(): Promise<void> {
   // Check for counties without carriers
   const countiesWithoutCarriers = await getDb().select()
     .from(counties)
-    .where(sql`array_length(${counties.availableCarriers}, 1) IS NULL OR array_length(${counties.availableCarriers}, 1) = 0`)
+    .where(and(
+      countyScope,
+      sql`(jsonb_array_length(coalesce(${counties.availableCarriers}, '[]'::jsonb)) = 0)`
+    ))
     .limit(10);
 
   if (countiesWithoutCarriers.length > 0) {
+    warnings.push(`${countiesWithoutCarriers.length}+ counties without carrier data`);
     console.log(`\n⚠️  Found ${countiesWithoutCarriers.length} counties without carrier data (showing first 10):`);
     countiesWithoutCarriers.forEach(c => {
       console.log(`   - ${c.countyName}, ${c.stateCode}`);
@@ -439,6 +569,52 @@ export async function validateImportedData(): Promise<void> {
   } else {
     console.log(`\n✅ All counties have carrier data`);
   }
+
+  return { valid: errors.length === 0, errors, warnings, counts };
+}
+
+async function validatePlanData(versionId: string): Promise<DataValidationResult> {
+  const planScope = eq(acaPlans.dataVersionId, versionId);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const [planCount] = await getDb().select({ count: count() }).from(acaPlans).where(planScope);
+  const [invalidPremiums] = await getDb().select({ count: count() }).from(acaPlans)
+    .where(and(planScope, lte(acaPlans.monthlyPremium, '0')));
+  const [missingRatingAreas] = await getDb().select({ count: count() }).from(acaPlans)
+    .where(and(planScope, eq(acaPlans.ratingArea, '')));
+  const counts = {
+    plans: planCount?.count ?? 0,
+    invalidPremiums: invalidPremiums?.count ?? 0,
+    missingRatingAreas: missingRatingAreas?.count ?? 0,
+  };
+
+  console.log(`📊 Data Summary:`);
+  console.log(`   Plan records: ${counts.plans}`);
+
+  if (counts.plans === 0) errors.push('No plan records imported');
+  if (counts.invalidPremiums > 0) errors.push(`${counts.invalidPremiums} plan records with a zero or negative premium`);
+  if (counts.missingRatingAreas > 0) warnings.push(`${counts.missingRatingAreas} plan records without a rating area`);
+
+  return { valid: errors.length === 0, errors, warnings, counts };
+}
+
+/**
+ * Run an import step, recording it in data_imports
+ */
+async function trackImport(
+  record: Omit<DataImportRecord, 'importMethod'>,
+  run: () => Promise<ImportCounts>
+): Promise<void> {
+  const importId = await startDataImport(record);
+
+  try {
+    const counts = await run();
+    await finishDataImport(importId, counts);
+  } catch (error) {
+    await finishDataImport(importId, { error });
+    throw error;
+  }
 }
 
 // Export individual functions for selective imports
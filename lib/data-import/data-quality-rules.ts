@@ -0,0 +1,362 @@
+/**
+ * Data Quality Rules
+ *
+ * Pure checks over one state's geography and plan data. Each rule that
+ * finds problems produces one finding per state, which data-quality.ts
+ * writes to data_quality_alerts. Loading data and writing alerts live there,
+ * so the rules can be tested without a database.
+ */
+
+import { ACA_AGE_CURVE } from '@/lib/calculator/age-rating';
+import type { DataType } from './data-versions';
+
+export type AlertSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+export type DataQualityRuleId =
+  | 'slcsp_outlier'
+  | 'age_curve'
+  | 'deductible_above_moop'
+  | 'county_without_silver'
+  | 'zip_without_county';
+
+export interface DataQualityRuleSettings {
+  enabled?: boolean;
+  severity?: AlertSeverity;
+  /** Share of checked records (0-1) at which the alert becomes critical; null never escalates */
+  escalateAt?: number | null;
+  /** Rule-specific tolerance (see each rule) */
+  threshold?: number;
+}
+
+/** Per-rule overrides of the defaults, e.g. loaded from a JSON file */
+export type DataQualityConfig = Partial<Record<DataQualityRuleId, DataQualityRuleSettings>>;
+
+export interface QualityCounty {
+  countyFips: string;
+  countyName: string;
+  ratingArea: string;
+  slcspPremium: number | null;
+}
+
+export interface QualityZipMapping {
+  zipCode: string;
+  countyFips: string;
+}
+
+export interface QualityPlanPremium {
+  planKey: string; // Source plan ID, or the plan name for rows without one
+  area: string; // Rating area, or county when the rating area is unknown
+  age: number;
+  monthlyPremium: number;
+}
+
+export interface QualityPlanCostSharing {
+  planKey: string;
+  deductible: number;
+  oopMaximum: number;
+}
+
+/** What the rules see for one state */
+export interface StateQualityData {
+  state: string;
+  counties: QualityCounty[];
+  zipMappings: QualityZipMapping[];
+  /** County FIPS codes in every state, since ZIPs can cross state lines */
+  knownCountyFips: ReadonlySet<string>;
+  /** Counties with active plans, keyed by normalized county name, and whether one is Silver */
+  planCounties: Map<string, boolean>;
+  planPremiums: QualityPlanPremium[];
+  planCostSharing: QualityPlanCostSharing[];
+}
+
+export interface RuleCheck {
+  checked: number; // Records the rule could evaluate
+  affected: string[]; // Identifiers of the records that failed
+  examples: string[]; // Human-readable samples for the alert description
+}
+
+export interface DataQualityRule {
+  id: DataQualityRuleId;
+  title: string;
+  alertType: 'anomaly' | 'missing_data' | 'invalid_data';
+  tableName: string;
+  /** Data types whose changes can trigger this rule */
+  dataTypes: DataType[];
+  defaults: Required<DataQualityRuleSettings>;
+  suggestedAction: string;
+  check(data: StateQualityData, threshold: number): RuleCheck;
+}
+
+export interface DataQualityFinding {
+  ruleId: DataQualityRuleId;
+  state: string;
+  severity: AlertSeverity;
+  alertType: DataQualityRule['alertType'];
+  title: string;
+  description: string;
+  tableName: string;
+  affectedRecords: string[];
+  checked: number;
+  suggestedAction: string;
+}
+
+// Community-rated states do not vary premiums by age
+export const COMMUNITY_RATED_STATES = ['NY', 'VT'];
+
+const MAX_EXAMPLES = 5;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1]! + sorted[mid]!) / 2 : sorted[mid]!;
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Normalize a county name for matching plan rows against counties
+ * ("Maricopa County" and "Maricopa" are the same county)
+ */
+export function normalizeCountyName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+(county|parish|borough|census area|municipality)$/, '');
+}
+
+/**
+ * Flag rating areas whose SLCSP is far from the other rating areas in the
+ * state. The schema has no rating-area adjacency, so a state's other rating
+ * areas stand in for its neighbors. threshold: allowed relative difference.
+ */
+function checkSlcspOutliers(data: StateQualityData, threshold: number): RuleCheck {
+  const byArea = new Map<string, QualityCounty[]>();
+  for (const county of data.counties) {
+    if (county.slcspPremium === null || county.slcspPremium <= 0) continue;
+    byArea.set(county.ratingArea, [...(byArea.get(county.ratingArea) ?? []), county]);
+  }
+
+  const areaMedians = new Map([...byArea].map(([area, areaCounties]) => [area, median(areaCounties.map((c) => c.slcspPremium!))]));
+  const result: RuleCheck = { checked: 0, affected: [], examples: [] };
+  if (areaMedians.size < 2) return result;
+
+  for (const [area, areaCounties] of byArea) {
+    result.checked += areaCounties.length;
+    const areaMedian = areaMedians.get(area)!;
+    const neighborMedian = median([...areaMedians].filter(([other]) => other !== area).map(([, value]) => value));
+    const difference = Math.abs(areaMedian - neighborMedian) / neighborMedian;
+
+    if (difference > threshold) {
+      result.affected.push(...areaCounties.map((c) => c.countyFips));
+      result.examples.push(`Rating area ${area}: ${formatMoney(areaMedian)} vs ${formatMoney(neighborMedian)} in the state's other rating areas`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Flag plans whose premiums by age do not follow ACA_AGE_CURVE.
+ * threshold: allowed relative difference from the curve at any age.
+ */
+function checkAgeCurve(data: StateQualityData, threshold: number): RuleCheck {
+  const result: RuleCheck = { checked: 0, affected: [], examples: [] };
+  if (COMMUNITY_RATED_STATES.includes(data.state)) return result;
+
+  const tables = new Map<string, { planKey: string; area: string; byAge: Map<number, number> }>();
+  for (const premium of data.planPremiums) {
+    if (premium.age < 21 || premium.age > 64 || premium.monthlyPremium <= 0) continue;
+    const key = `${premium.planKey}|${premium.area}`;
+    const table = tables.get(key) ?? { planKey: premium.planKey, area: premium.area, byAge: new Map<number, number>() };
+    table.byAge.set(premium.age, premium.monthlyPremium);
+    tables.set(key, table);
+  }
+
+  const checkedPlans = new Set<string>();
+  const affectedPlans = new Set<string>();
+
+  for (const { planKey, area, byAge } of tables.values()) {
+    if (byAge.size < 2) continue;
+    checkedPlans.add(planKey);
+    if (affectedPlans.has(planKey)) continue;
+
+    // The age 21 premium is the base rate; without it, the typical implied base
+    const base = byAge.get(21) ?? median([...byAge].map(([age, premium]) => premium / ACA_AGE_CURVE[age]!));
+
+    for (const [age, premium] of byAge) {
+      const expected = base * ACA_AGE_CURVE[age]!;
+      if (Math.abs(premium - expected) / expected > threshold) {
+        affectedPlans.add(planKey);
+        if (result.examples.length < MAX_EXAMPLES) {
+          result.examples.push(`${planKey} (${area}): age ${age} premium ${formatMoney(premium)}, expected about ${formatMoney(expected)}`);
+        }
+        break;
+      }
+    }
+  }
+
+  result.checked = checkedPlans.size;
+  result.affected = [...affectedPlans];
+  return result;
+}
+
+/**
+ * Flag plans whose deductible is higher than their out-of-pocket maximum
+ */
+function checkDeductibleAboveMoop(data: StateQualityData): RuleCheck {
+  const checkedPlans = new Set<string>();
+  const affectedPlans = new Set<string>();
+  const examples: string[] = [];
+
+  for (const plan of data.planCostSharing) {
+    checkedPlans.add(plan.planKey);
+    if (plan.deductible > plan.oopMaximum && !affectedPlans.has(plan.planKey)) {
+      affectedPlans.add(plan.planKey);
+      if (examples.length < MAX_EXAMPLES) {
+        examples.push(`${plan.planKey}: deductible ${formatMoney(plan.deductible)} > MOOP ${formatMoney(plan.oopMaximum)}`);
+      }
+    }
+  }
+
+  return { checked: checkedPlans.size, affected: [...affectedPlans], examples };
+}
+
+/**
+ * Flag counties without a Silver plan (no SLCSP can be derived). Only runs
+ * for states that have plan data.
+ */
+function checkCountiesWithoutSilver(data: StateQualityData): RuleCheck {
+  if (data.planCounties.size === 0) return { checked: 0, affected: [], examples: [] };
+
+  const missing = data.counties.filter((county) => !data.planCounties.get(normalizeCountyName(county.countyName)));
+  return {
+    checked: data.counties.length,
+    affected: missing.map((county) => county.countyFips),
+    examples: missing.slice(0, MAX_EXAMPLES).map((county) => `${county.countyName} (${county.countyFips})`),
+  };
+}
+
+/**
+ * Flag ZIP codes none of whose mappings point at a known county
+ */
+function checkZipsWithoutCounty(data: StateQualityData): RuleCheck {
+  const zipHasCounty = new Map<string, boolean>();
+  for (const mapping of data.zipMappings) {
+    const known = Boolean(mapping.countyFips) && data.knownCountyFips.has(mapping.countyFips);
+    zipHasCounty.set(mapping.zipCode, (zipHasCounty.get(mapping.zipCode) ?? false) || known);
+  }
+
+  const affected = [...zipHasCounty].filter(([, hasCounty]) => !hasCounty).map(([zip]) => zip);
+  return { checked: zipHasCounty.size, affected, examples: affected.slice(0, MAX_EXAMPLES) };
+}
+
+export const DATA_QUALITY_RULES: DataQualityRule[] = [
+  {
+    id: 'slcsp_outlier',
+    title: 'SLCSP outliers',
+    alertType: 'anomaly',
+    tableName: 'counties',
+    dataTypes: ['cms_geography'],
+    defaults: { enabled: true, severity: 'warning', escalateAt: null, threshold: 0.5 },
+    suggestedAction: 'Compare the rating area SLCSP with the CMS benchmark file and re-import if it was misread',
+    check: checkSlcspOutliers,
+  },
+  {
+    id: 'age_curve',
+    title: 'Premiums not following the ACA age curve',
+    alertType: 'anomaly',
+    tableName: 'aca_plans',
+    dataTypes: ['aca_plans'],
+    defaults: { enabled: true, severity: 'warning', escalateAt: null, threshold: 0.1 },
+    suggestedAction: 'Check the source rates by age; state-specific age curves may need an override',
+    check: checkAgeCurve,
+  },
+  {
+    id: 'deductible_above_moop',
+    title: 'Deductibles above the out-of-pocket maximum',
+    alertType: 'invalid_data',
+    tableName: 'aca_plans',
+    dataTypes: ['aca_plans'],
+    defaults: { enabled: true, severity: 'error', escalateAt: 0.05, threshold: 0 },
+    suggestedAction: 'Check the deductible and MOOP columns of the source plan data',
+    check: checkDeductibleAboveMoop,
+  },
+  {
+    id: 'county_without_silver',
+    title: 'Counties with no Silver plan',
+    alertType: 'missing_data',
+    tableName: 'aca_plans',
+    dataTypes: ['cms_geography', 'aca_plans'],
+    defaults: { enabled: true, severity: 'error', escalateAt: null, threshold: 0 },
+    suggestedAction: 'Import plans for these counties (npm run import:cms:plans or npm run api:sync)',
+    check: checkCountiesWithoutSilver,
+  },
+  {
+    id: 'zip_without_county',
+    title: 'ZIP codes mapping to no county',
+    alertType: 'missing_data',
+    tableName: 'zip_code_mappings',
+    dataTypes: ['cms_geography'],
+    defaults: { enabled: true, severity: 'error', escalateAt: 0.05, threshold: 0 },
+    suggestedAction: 'Re-import counties and ZIP mappings from the same CMS release',
+    check: checkZipsWithoutCounty,
+  },
+];
+
+export function isDataQualityRuleId(value: string): value is DataQualityRuleId {
+  return DATA_QUALITY_RULES.some((rule) => rule.id === value);
+}
+
+/**
+ * A rule's defaults with the config's overrides applied
+ */
+export function resolveRuleSettings(rule: DataQualityRule, config: DataQualityConfig = {}): Required<DataQualityRuleSettings> {
+  return { ...rule.defaults, ...config[rule.id] };
+}
+
+/**
+ * Run the given rules over one state's data
+ */
+export function evaluateStateRules(
+  data: StateQualityData,
+  rules: DataQualityRule[],
+  config: DataQualityConfig = {}
+): DataQualityFinding[] {
+  const findings: DataQualityFinding[] = [];
+
+  for (const rule of rules) {
+    const settings = resolveRuleSettings(rule, config);
+    if (!settings.enabled) continue;
+
+    const result = rule.check(data, settings.threshold);
+    if (result.affected.length === 0) continue;
+
+    const share = result.checked > 0 ? result.affected.length / result.checked : 1;
+    const severity = settings.escalateAt !== null && share >= settings.escalateAt ? 'critical' : settings.severity;
+    const examples = result.examples.map((example) => `- ${example}`).join('\n');
+
+    findings.push({
+      ruleId: rule.id,
+      state: data.state,
+      severity,
+      alertType: rule.alertType,
+      title: `${rule.title} in ${data.state}`,
+      description: `${result.affected.length} of ${result.checked} checked records in ${data.state} failed the ${rule.id} rule.${examples ? `\n${examples}` : ''}`,
+      tableName: rule.tableName,
+      affectedRecords: result.affected,
+      checked: result.checked,
+      suggestedAction: rule.suggestedAction,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Whether any finding is at or above a severity
+ */
+export function hasFindingsAtOrAbove(findings: Pick<DataQualityFinding, 'severity'>[], severity: AlertSeverity): boolean {
+  const minimum = ALERT_SEVERITIES.indexOf(severity);
+  return findings.some((finding) => ALERT_SEVERITIES.indexOf(finding.severity) >= minimum);
+}
@@ -0,0 +1,330 @@
+/**
+ * Data Quality Checks
+ *
+ * Runs the rules in data-quality-rules.ts state by state over a geography
+ * and plan data version and keeps data_quality_alerts in step:
+ * - New findings are inserted as open alerts
+ * - Findings that are still present update their open alert
+ * - Open alerts that are no longer found are resolved
+ * - Alerts marked 'ignored' stay ignored
+ *
+ * Checks run after every import and sync (validateImportedData) and from
+ * npm run data:quality, which exits non-zero on critical alerts.
+ */
+
+import { getDb } from '@/db/client';
+import { dataQualityAlerts } from '@/db/schema/audit';
+import { acaPlans } from '@/db/schema/insurance-costs';
+import { counties, zipCodeMappings } from '@/db/schema/state-metadata';
+import { and, eq, inArray, max, sql } from 'drizzle-orm';
+import * as fs from 'fs';
+import { getActiveDataVersionId, getDataVersion, isDataType, versionScope, type DataType } from './data-versions';
+import {
+  ALERT_SEVERITIES,
+  DATA_QUALITY_RULES,
+  evaluateStateRules,
+  isDataQualityRuleId,
+  normalizeCountyName,
+  type AlertSeverity,
+  type DataQualityConfig,
+  type DataQualityFinding,
+  type DataQualityRule,
+  type DataQualityRuleId,
+  type StateQualityData,
+} from './data-quality-rules';
+
+// Cap on record IDs stored per alert; the full count is kept in metadata
+const MAX_AFFECTED_RECORDS = 500;
+
+const DETECTION_METHOD = 'automated';
+const RESOLVED_BY = 'data-quality-check';
+
+export interface DataQualityCheckOptions {
+  /** Check this version (e.g. a draft) against the active version of the other data type */
+  versionId?: string;
+  /** Only run rules affected by this data type (defaults to the version's type) */
+  dataType?: DataType;
+  states?: string[];
+  /** Plan year to check (defaults to the latest year in the plan data) */
+  planYear?: number;
+  rules?: DataQualityRuleId[];
+  /** Rule overrides (defaults to the file named by DATA_QUALITY_CONFIG, if set) */
+  config?: DataQualityConfig;
+  /** Write findings to data_quality_alerts (default true) */
+  writeAlerts?: boolean;
+}
+
+export interface DataQualityReport {
+  checkedAt: string;
+  geographyVersionId: string | null;
+  planVersionId: string | null;
+  planYear: number | null;
+  states: string[];
+  rules: DataQualityRuleId[];
+  findings: DataQualityFinding[];
+  counts: Record<AlertSeverity, number>;
+  alerts: { created: number; updated: number; resolved: number };
+}
+
+interface CheckedVersions {
+  cms_geography: string | null;
+  aca_plans: string | null;
+  planYear: number | null;
+}
+
+/**
+ * Read and check a JSON rule config ({ "<rule id>": { enabled, severity, escalateAt, threshold } })
+ */
+export function loadDataQualityConfig(filePath: string): DataQualityConfig {
+  const parsed: unknown = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Data quality config must be an object: ${filePath}`);
+  }
+
+  for (const [ruleId, settings] of Object.entries(parsed)) {
+    if (!isDataQualityRuleId(ruleId)) {
+      throw new Error(`Unknown data quality rule in ${filePath}: ${ruleId}`);
+    }
+    const severity = (settings as { severity?: string } | null)?.severity;
+    if (severity !== undefined && !ALERT_SEVERITIES.includes(severity as AlertSeverity)) {
+      throw new Error(`Invalid severity for ${ruleId} in ${filePath}: ${severity}`);
+    }
+  }
+
+  return parsed as DataQualityConfig;
+}
+
+/**
+ * Run data quality rules and record the findings as alerts
+ */
+export async function runDataQualityChecks(options: DataQualityCheckOptions = {}): Promise<DataQualityReport> {
+  const version = options.versionId ? await getDataVersion(options.versionId) : null;
+  if (options.versionId && !version) {
+    throw new Error(`Data version not found: ${options.versionId}`);
+  }
+
+  const dataType = options.dataType ?? (version && isDataType(version.dataType) ? version.dataType : undefined);
+  const config = options.config
+    ?? (process.env.DATA_QUALITY_CONFIG ? loadDataQualityConfig(process.env.DATA_QUALITY_CONFIG) : {});
+  const rules = DATA_QUALITY_RULES.filter((rule) =>
+    (!options.rules || options.rules.includes(rule.id)) && (!dataType || rule.dataTypes.includes(dataType))
+  );
+
+  const versions: CheckedVersions = {
+    cms_geography: version?.dataType === 'cms_geography' ? version.versionId : await getActiveDataVersionId('cms_geography'),
+    aca_plans: version?.dataType === 'aca_plans' ? version.versionId : await getActiveDataVersionId('aca_plans'),
+    planYear: null,
+  };
+  versions.planYear = options.planYear ?? await getLatestPlanYear(versions.aca_plans);
+
+  const states = await listStates(versions, options.states);
+  const knownCountyFips = new Set(
+    (await getDb().select({ countyFips: counties.countyFips }).from(counties)
+      .where(versionScope(counties.dataVersionId, versions.cms_geography)))
+      .map((row) => row.countyFips)
+  );
+
+  const findings: DataQualityFinding[] = [];
+  for (const state of states) {
+    const data = await loadStateData(state, versions, knownCountyFips);
+    findings.push(...evaluateStateRules(data, rules, config));
+  }
+
+  const report: DataQualityReport = {
+    checkedAt: new Date().toISOString(),
+    geographyVersionId: versions.cms_geography,
+    planVersionId: versions.aca_plans,
+    planYear: versions.planYear,
+    states,
+    rules: rules.map((rule) => rule.id),
+    findings,
+    counts: { info: 0, warning: 0, error: 0, critical: 0 },
+    alerts: { created: 0, updated: 0, resolved: 0 },
+  };
+  findings.forEach((finding) => { report.counts[finding.severity]++; });
+
+  if (options.writeAlerts !== false) {
+    report.alerts = await syncAlerts(rules, states, findings, versions);
+  }
+
+  return report;
+}
+
+/**
+ * Identifies an alert across runs: same rule, state and checked versions
+ */
+function alertFingerprint(rule: DataQualityRule, state: string, versions: CheckedVersions): string {
+  const versionKey = rule.dataTypes.map((type) => versions[type] ?? 'legacy').join('/');
+  const yearKey = rule.dataTypes.includes('aca_plans') ? `:${versions.planYear ?? ''}` : '';
+  return `${rule.id}:${state}:${versionKey}${yearKey}`;
+}
+
+async function syncAlerts(
+  rules: DataQualityRule[],
+  states: string[],
+  findings: DataQualityFinding[],
+  versions: CheckedVersions
+): Promise<DataQualityReport['alerts']> {
+  const counts = { created: 0, updated: 0, resolved: 0 };
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+  const fingerprints = rules.flatMap((rule) => states.map((state) => alertFingerprint(rule, state, versions)));
+  if (fingerprints.length === 0) return counts;
+
+  const fingerprintColumn = sql<string>`${dataQualityAlerts.metadata}->>'fingerprint'`;
+  const existing = await getDb()
+    .select({ id: dataQualityAlerts.id, status: dataQualityAlerts.status, fingerprint: fingerprintColumn })
+    .from(dataQualityAlerts)
+    .where(and(
+      eq(dataQualityAlerts.detectionMethod, DETECTION_METHOD),
+      inArray(dataQualityAlerts.status, ['open', 'investigating', 'ignored']),
+      inArray(fingerprintColumn, fingerprints)
+    ));
+  const existingByFingerprint = new Map(existing.map((alert) => [alert.fingerprint, alert]));
+  const now = new Date();
+
+  await getDb().transaction(async (tx) => {
+    const found = new Set<string>();
+
+    for (const finding of findings) {
+      const fingerprint = alertFingerprint(rulesById.get(finding.ruleId)!, finding.state, versions);
+      found.add(fingerprint);
+
+      const values = {
+        severity: finding.severity,
+        alertType: finding.alertType,
+        title: finding.title,
+        description: finding.description,
+        tableName: finding.tableName,
+        affectedRecords: finding.affectedRecords.slice(0, MAX_AFFECTED_RECORDS),
+        affectedStates: [finding.state],
+        actionRequired: finding.severity === 'error' || finding.severity === 'critical',
+        suggestedAction: finding.suggestedAction,
+        metadata: {
+          ruleId: finding.ruleId,
+          fingerprint,
+          affectedCount: finding.affectedRecords.length,
+          checked: finding.checked,
+          geographyVersionId: versions.cms_geography,
+          planVersionId: versions.aca_plans,
+          planYear: versions.planYear,
+          lastSeenAt: now.toISOString(),
+        },
+      };
+
+      const alert = existingByFingerprint.get(fingerprint);
+      if (alert?.status === 'ignored') continue;
+
+      if (alert) {
+        await tx.update(dataQualityAlerts).set(values).where(eq(dataQualityAlerts.id, alert.id));
+        counts.updated++;
+      } else {
+        await tx.insert(dataQualityAlerts).values({ ...values, detectionMethod: DETECTION_METHOD, status: 'open' });
+        counts.created++;
+      }
+    }
+
+    const resolvedIds = existing
+      .filter((alert) => alert.status !== 'ignored' && !found.has(alert.fingerprint))
+      .map((alert) => alert.id);
+    if (resolvedIds.length > 0) {
+      await tx.update(dataQualityAlerts)
+        .set({ status: 'resolved', resolvedAt: now, resolvedBy: RESOLVED_BY, resolutionNotes: 'No longer detected' })
+        .where(inArray(dataQualityAlerts.id, resolvedIds));
+      counts.resolved = resolvedIds.length;
+    }
+  });
+
+  return counts;
+}
+
+async function getLatestPlanYear(planVersionId: string | null): Promise<number | null> {
+  const [row] = await getDb()
+    .select({ planYear: max(acaPlans.planYear) })
+    .from(acaPlans)
+    .where(versionScope(acaPlans.dataVersionId, planVersionId));
+  return row?.planYear ?? null;
+}
+
+function planScope(versions: CheckedVersions) {
+  return and(
+    versionScope(acaPlans.dataVersionId, versions.aca_plans),
+    eq(acaPlans.planYear, versions.planYear ?? 0),
+    eq(acaPlans.isActive, true)
+  );
+}
+
+/**
+ * States with geography or plan data in the checked versions
+ */
+async function listStates(versions: CheckedVersions, only?: string[]): Promise<string[]> {
+  const db = getDb();
+  const [countyStates, zipStates, planStates] = await Promise.all([
+    db.selectDistinct({ state: counties.stateCode }).from(counties)
+      .where(versionScope(counties.dataVersionId, versions.cms_geography)),
+    db.selectDistinct({ state: zipCodeMappings.stateCode }).from(zipCodeMappings)
+      .where(versionScope(zipCodeMappings.dataVersionId, versions.cms_geography)),
+    db.selectDistinct({ state: acaPlans.state }).from(acaPlans).where(planScope(versions)),
+  ]);
+
+  const filter = only?.length ? new Set(only.map((s) => s.toUpperCase())) : null;
+  return [...new Set([...countyStates, ...zipStates, ...planStates].map((row) => row.state))]
+    .filter((state) => !filter || filter.has(state))
+    .sort();
+}
+
+async function loadStateData(state: string, versions: CheckedVersions, knownCountyFips: ReadonlySet<string>): Promise<StateQualityData> {
+  const db = getDb();
+  const plansInState = and(planScope(versions), eq(acaPlans.state, state));
+  const planKey = sql<string>`coalesce(${acaPlans.planId}, ${acaPlans.planName})`;
+
+  const [countyRows, zipRows, planCountyRows, premiumRows, costSharingRows] = await Promise.all([
+    db.select({
+      countyFips: counties.countyFips,
+      countyName: counties.countyName,
+      ratingArea: counties.ratingArea,
+      slcspPremium: counties.slcspPremium,
+    }).from(counties).where(and(
+      versionScope(counties.dataVersionId, versions.cms_geography),
+      eq(counties.stateCode, state)
+    )),
+    db.select({ zipCode: zipCodeMappings.zipCode, countyFips: zipCodeMappings.countyFips }).from(zipCodeMappings).where(and(
+      versionScope(zipCodeMappings.dataVersionId, versions.cms_geography),
+      eq(zipCodeMappings.stateCode, state)
+    )),
+    db.select({
+      county: acaPlans.county,
+      hasSilver: sql<boolean>`bool_or(${acaPlans.metalTier} = 'Silver')`,
+    }).from(acaPlans).where(plansInState).groupBy(acaPlans.county),
+    db.selectDistinct({
+      planKey,
+      area: sql<string>`coalesce(nullif(${acaPlans.ratingArea}, ''), ${acaPlans.county})`,
+      age: acaPlans.age,
+      monthlyPremium: acaPlans.monthlyPremium,
+    }).from(acaPlans).where(plansInState),
+    db.selectDistinct({
+      planKey,
+      deductible: acaPlans.deductible,
+      oopMaximum: acaPlans.oopMaximum,
+    }).from(acaPlans).where(plansInState),
+  ]);
+
+  const planCounties = new Map<string, boolean>();
+  for (const row of planCountyRows) {
+    const name = normalizeCountyName(row.county);
+    planCounties.set(name, (planCounties.get(name) ?? false) || Boolean(row.hasSilver));
+  }
+
+  return {
+    state,
+    counties: countyRows.map((row) => ({ ...row, slcspPremium: row.slcspPremium === null ? null : Number(row.slcspPremium) })),
+    zipMappings: zipRows,
+    knownCountyFips,
+    planCounties,
+    planPremiums: premiumRows.map((row) => ({ ...row, monthlyPremium: Number(row.monthlyPremium) })),
+    planCostSharing: costSharingRows.map((row) => ({
+      planKey: row.planKey,
+      deductible: Number(row.deductible),
+      oopMaximum: Number(row.oopMaximum),
+    })),
+  };
+}
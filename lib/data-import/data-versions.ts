@@ -0,0 +1,524 @@
+/**
+ * Versioned Data Releases
+ *
+ * Imports and Healthcare.gov syncs never change live data in place. Each run
+ * writes to a draft data version (data_versions), starting from a copy of
+ * the active version's rows. validateImportedData records whether the draft
+ * is fit to go live, an admin activates it, and readers only see rows of the
+ * active version. Earlier versions keep their rows, so rollback just
+ * re-activates the previous version. Only the most recent retired versions
+ * are kept (DEFAULT_RETAINED_VERSIONS); older ones are deleted with their
+ * rows whenever the active version changes.
+ *
+ * Versioned data types:
+ * - cms_geography: counties (rating areas, SLCSP, carriers) and ZIP mappings
+ * - aca_plans: marketplace plans from the PUF importer and Healthcare.gov sync
+ *
+ * Rows loaded before versioning have no data_version_id; they are what
+ * readers see until the first version of that type is activated.
+ */
+
+import { getDb } from '@/db/client';
+import { auditLog, dataImports, dataVersions } from '@/db/schema/audit';
+import { counties, zipCodeMappings } from '@/db/schema/state-metadata';
+import { acaPlans } from '@/db/schema/insurance-costs';
+import { and, desc, eq, getTableColumns, inArray, isNull, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DataType = 'cms_geography' | 'aca_plans';
+
+export type DataVersionStatus = 'draft' | 'active' | 'archived' | 'rollback';
+
+export type DataVersion = typeof dataVersions.$inferSelect;
+
+export interface DataValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+  counts: Record<string, number>;
+}
+
+export interface CreateDraftOptions {
+  versionName?: string;
+  description?: string;
+  createdBy?: string;
+  affectedStates?: string[];
+}
+
+export interface ActivateOptions {
+  activatedBy?: string;
+  /** Activate even if validation failed or never ran */
+  force?: boolean;
+  /** Retired versions to keep (default DEFAULT_RETAINED_VERSIONS) */
+  retainVersions?: number;
+}
+
+export interface DataImportRecord {
+  importName: string;
+  dataSource: string;
+  versionId: string;
+  targetTables: string[];
+  fileName?: string;
+  importParams?: Record<string, unknown>;
+  importMethod?: 'manual' | 'automated' | 'api';
+}
+
+export interface DataImportOutcome {
+  rowsProcessed?: number;
+  rowsImported?: number;
+  rowsSkipped?: number;
+  warnings?: string[];
+  error?: unknown;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DATA_TYPES: DataType[] = ['cms_geography', 'aca_plans'];
+
+/** Archived and rolled-back versions kept per data type for rollback */
+export const DEFAULT_RETAINED_VERSIONS = 3;
+
+const VERSIONED_TABLES = {
+  cms_geography: [counties, zipCodeMappings],
+  aca_plans: [acaPlans],
+} as const;
+
+export const DATA_TYPE_TABLES: Record<DataType, string[]> = {
+  cms_geography: ['counties', 'zip_code_mappings'],
+  aca_plans: ['aca_plans'],
+};
+
+export function isDataType(value: string): value is DataType {
+  return (DATA_TYPES as string[]).includes(value);
+}
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+/**
+ * Condition selecting a version's rows (legacy unversioned rows for null)
+ */
+export function versionScope(column: AnyColumn, versionId: string | null): SQL {
+  return versionId ? eq(column, versionId) : isNull(column);
+}
+
+/**
+ * Next version number for a data type ('v1', 'v2', ...)
+ */
+export function nextVersionNumber(existing: string[]): string {
+  const highest = existing.reduce((max, value) => {
+    const match = value.match(/^v(\d+)$/);
+    return match?.[1] ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return `v${highest + 1}`;
+}
+
+/**
+ * Reason a version cannot be activated, or null when it can
+ */
+export function getActivationBlocker(
+  version: Pick<DataVersion, 'status' | 'isValidated' | 'validationErrors' | 'metadata'>,
+  activeVersionId: string | null,
+  force = false
+): string | null {
+  if (version.status === 'active') return 'Version is already active';
+  if (force) return null;
+
+  const errors = Array.isArray(version.validationErrors) ? version.validationErrors : [];
+  if (errors.length > 0) return `Version failed validation (${errors.length} errors)`;
+  if (!version.isValidated) return 'Version has not been validated';
+
+  // A draft copied from an older version would silently drop newer changes
+  const baseVersionId = (version.metadata as { baseVersionId?: string | null } | null)?.baseVersionId ?? null;
+  if (version.status === 'draft' && baseVersionId !== activeVersionId) {
+    return 'Draft was created from a version that is no longer active; re-run the import';
+  }
+
+  return null;
+}
+
+/**
+ * Version a rollback returns to: the most recently activated version other
+ * than the current one that has not itself been rolled back
+ */
+export function findRollbackTarget<T extends Pick<DataVersion, 'versionId' | 'status' | 'activatedAt'>>(
+  versions: T[],
+  activeVersionId: string
+): T | null {
+  return versions
+    .filter((v) => v.versionId !== activeVersionId && v.status === 'archived' && v.activatedAt)
+    .sort((a, b) => b.activatedAt!.getTime() - a.activatedAt!.getTime())[0] ?? null;
+}
+
+/**
+ * Retired (archived or rolled-back) versions beyond the most recent `keep`,
+ * which can be deleted. The rollback target is always kept.
+ */
+export function findPrunableVersions<T extends Pick<DataVersion, 'versionId' | 'status' | 'activatedAt' | 'createdAt'>>(
+  versions: T[],
+  keep: number
+): T[] {
+  const retired = versions
+    .filter((v) => v.status === 'archived' || v.status === 'rollback')
+    .sort((a, b) => (b.activatedAt ?? b.createdAt).getTime() - (a.activatedAt ?? a.createdAt).getTime());
+  const rollbackTarget = retired.find((v) => v.status === 'archived' && v.activatedAt);
+
+  return retired.slice(Math.max(0, keep)).filter((v) => v !== rollbackTarget);
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * Active version of a data type (null when none has been activated yet)
+ */
+export async function getActiveDataVersionId(dataType: DataType): Promise<string | null> {
+  const [row] = await getDb()
+    .select({ versionId: dataVersions.versionId })
+    .from(dataVersions)
+    .where(and(eq(dataVersions.dataType, dataType), eq(dataVersions.status, 'active')))
+    .limit(1);
+
+  return row?.versionId ?? null;
+}
+
+/**
+ * Look up a version by ID
+ */
+export async function getDataVersion(versionId: string): Promise<DataVersion | null> {
+  const [row] = await getDb().select().from(dataVersions).where(eq(dataVersions.versionId, versionId)).limit(1);
+  return row ?? null;
+}
+
+/**
+ * Versions, newest first
+ */
+export async function listDataVersions(dataType?: DataType, limit = 20): Promise<DataVersion[]> {
+  return getDb()
+    .select()
+    .from(dataVersions)
+    .where(dataType ? eq(dataVersions.dataType, dataType) : undefined)
+    .orderBy(desc(dataVersions.createdAt))
+    .limit(limit);
+}
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+/**
+ * Create a draft version holding a copy of the active version's rows
+ */
+export async function createDraftVersion(dataType: DataType, options: CreateDraftOptions = {}): Promise<DataVersion> {
+  const db = getDb();
+  const baseVersionId = await getActiveDataVersionId(dataType);
+
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ versionNumber: dataVersions.versionNumber })
+      .from(dataVersions)
+      .where(eq(dataVersions.dataType, dataType));
+    const versionNumber = nextVersionNumber(existing.map((v) => v.versionNumber));
+
+    const [version] = await tx.insert(dataVersions).values({
+      versionName: options.versionName ?? `${dataType} ${versionNumber}`,
+      description: options.description,
+      versionNumber,
+      dataType,
+      affectedTables: DATA_TYPE_TABLES[dataType],
+      affectedStates: options.affectedStates,
+      status: 'draft',
+      isProduction: false,
+      createdBy: options.createdBy,
+      rollbackInstructions: `npm run data:rollback -- --type=${dataType}`,
+      metadata: { baseVersionId },
+    }).returning();
+
+    for (const table of VERSIONED_TABLES[dataType]) {
+      const columns = Object.values(getTableColumns(table))
+        .filter((column) => column.name !== 'id' && column.name !== 'data_version_id');
+      const columnList = sql.join(columns.map((column) => sql.identifier(column.name)), sql`, `);
+
+      await tx.execute(sql`
+        insert into ${table} (${columnList}, data_version_id)
+        select ${columnList}, ${version!.versionId}::uuid from ${table}
+        where ${versionScope(table.dataVersionId, baseVersionId)}
+      `);
+    }
+
+    return version!;
+  });
+}
+
+/**
+ * Delete a draft version and its rows
+ */
+export async function discardDraftVersion(versionId: string): Promise<void> {
+  const version = await requireVersion(versionId);
+  if (version.status !== 'draft') {
+    throw new Error(`Only draft versions can be discarded (status: ${version.status})`);
+  }
+
+  await getDb().transaction(async (tx) => {
+    for (const table of VERSIONED_TABLES[version.dataType as DataType]) {
+      await tx.delete(table).where(eq(table.dataVersionId, versionId));
+    }
+    await tx.delete(dataVersions).where(eq(dataVersions.versionId, versionId));
+  });
+}
+
+/**
+ * Store a validation result on a version
+ */
+export async function recordValidation(versionId: string, result: DataValidationResult): Promise<void> {
+  await getDb()
+    .update(dataVersions)
+    .set({
+      isValidated: result.valid,
+      validationErrors: result.errors,
+      metadata: sql`coalesce(${dataVersions.metadata}, '{}'::jsonb) || ${JSON.stringify({
+        validatedAt: new Date().toISOString(),
+        validationWarnings: result.warnings,
+        counts: result.counts,
+      })}::jsonb`,
+    })
+    .where(eq(dataVersions.versionId, versionId));
+}
+
+// ============================================================================
+// ACTIVATION AND ROLLBACK
+// ============================================================================
+
+/**
+ * Make a version live. The previously active version of the same data type
+ * is archived in the same transaction, so readers never see both or neither.
+ */
+export async function activateDataVersion(versionId: string, options: ActivateOptions = {}): Promise<DataVersion> {
+  const version = await requireVersion(versionId);
+
+  const activeVersionId = await getActiveDataVersionId(version.dataType as DataType);
+
+  const blocker = getActivationBlocker(version, activeVersionId, options.force);
+  if (blocker) throw new Error(blocker);
+
+  const activated = await switchActiveVersion(version, 'archived', options.activatedBy, options.force ? 'Forced activation' : undefined);
+  await pruneRetiredVersions(version.dataType as DataType, { keep: options.retainVersions, deletedBy: options.activatedBy });
+
+  return activated;
+}
+
+/**
+ * Return a data type to the version that was live before the current one.
+ * The current version is marked 'rollback' so a later rollback skips it.
+ */
+export async function rollbackDataVersion(
+  dataType: DataType,
+  options: Pick<ActivateOptions, 'activatedBy' | 'retainVersions'> = {}
+): Promise<DataVersion> {
+  const activeVersionId = await getActiveDataVersionId(dataType);
+  if (!activeVersionId) throw new Error(`No active ${dataType} version to roll back`);
+
+  const versions = await getDb().select().from(dataVersions).where(eq(dataVersions.dataType, dataType));
+  const target = findRollbackTarget(versions, activeVersionId);
+  if (!target) throw new Error(`No earlier ${dataType} version to roll back to`);
+
+  const activated = await switchActiveVersion(target, 'rollback', options.activatedBy, `Rollback from ${activeVersionId}`);
+  await pruneRetiredVersions(dataType, { keep: options.retainVersions, deletedBy: options.activatedBy });
+
+  return activated;
+}
+
+/**
+ * Delete retired versions of a data type, and their rows, beyond the most
+ * recent `keep`. Returns the deleted versions.
+ */
+export async function pruneRetiredVersions(
+  dataType: DataType,
+  options: { keep?: number; deletedBy?: string } = {}
+): Promise<DataVersion[]> {
+  const db = getDb();
+  const versions = await db.select().from(dataVersions).where(eq(dataVersions.dataType, dataType));
+  const keep = options.keep ?? DEFAULT_RETAINED_VERSIONS;
+  const prunable = findPrunableVersions(versions, keep);
+
+  for (const version of prunable) {
+    await db.transaction(async (tx) => {
+      for (const table of VERSIONED_TABLES[dataType]) {
+        await tx.delete(table).where(eq(table.dataVersionId, version.versionId));
+      }
+      await tx.delete(dataVersions).where(eq(dataVersions.id, version.id));
+      await tx
+        .update(dataImports)
+        .set({ canRollback: false })
+        .where(eq(dataImports.dataVersionId, version.versionId));
+
+      await tx.insert(auditLog).values({
+        tableName: 'data_versions',
+        recordId: version.id,
+        operation: 'DELETE',
+        userId: options.deletedBy,
+        oldValues: { status: version.status, versionNumber: version.versionNumber },
+        changeReason: `Retention: keeping the last ${keep} retired versions`,
+        changeSource: 'admin_cli',
+        metadata: { dataType, versionId: version.versionId },
+      });
+    });
+  }
+
+  return prunable;
+}
+
+async function switchActiveVersion(
+  version: DataVersion,
+  previousStatus: Extract<DataVersionStatus, 'archived' | 'rollback'>,
+  activatedBy: string | undefined,
+  changeReason: string | undefined
+): Promise<DataVersion> {
+  const now = new Date();
+
+  return getDb().transaction(async (tx) => {
+    const previous = await tx
+      .update(dataVersions)
+      .set({ status: previousStatus, isProduction: false, deprecatedAt: now })
+      .where(and(eq(dataVersions.dataType, version.dataType), eq(dataVersions.status, 'active')))
+      .returning({ id: dataVersions.id, versionId: dataVersions.versionId });
+
+    const [activated] = await tx
+      .update(dataVersions)
+      .set({ status: 'active', isProduction: true, activatedAt: now, deprecatedAt: null })
+      .where(eq(dataVersions.id, version.id))
+      .returning();
+
+    await tx.insert(auditLog).values({
+      tableName: 'data_versions',
+      recordId: version.id,
+      operation: 'UPDATE',
+      userId: activatedBy,
+      oldValues: { status: version.status, previousActiveVersionId: previous[0]?.versionId ?? null },
+      newValues: { status: 'active' },
+      changedFields: ['status', 'isProduction', 'activatedAt'],
+      changeReason,
+      changeSource: 'admin_cli',
+      metadata: { dataType: version.dataType, versionId: version.versionId },
+    });
+
+    return activated!;
+  });
+}
+
+// ============================================================================
+// IMPORT HISTORY
+// ============================================================================
+
+/**
+ * Record the start of an import into a draft version; returns the import ID
+ */
+export async function startDataImport(record: DataImportRecord): Promise<string> {
+  const version = await requireVersion(record.versionId);
+  if (version.status !== 'draft') {
+    throw new Error(`Imports can only write to draft versions (status: ${version.status})`);
+  }
+
+  const versionTables = DATA_TYPE_TABLES[version.dataType as DataType];
+  const otherTables = record.targetTables.filter((table) => !versionTables.includes(table));
+  if (otherTables.length > 0) {
+    throw new Error(`${version.dataType} versions do not include ${otherTables.join(', ')}`);
+  }
+
+  const [row] = await getDb().insert(dataImports).values({
+    importName: record.importName,
+    dataSource: record.dataSource,
+    dataType: version.dataType,
+    fileName: record.fileName,
+    status: 'processing',
+    importParams: record.importParams,
+    targetTables: record.targetTables,
+    importMethod: record.importMethod ?? 'manual',
+    dataVersionId: record.versionId,
+    canRollback: true,
+    rollbackScript: `npm run data:discard -- ${record.versionId}`,
+  }).returning({ importId: dataImports.importId });
+
+  return row!.importId;
+}
+
+/**
+ * Record how an import finished
+ */
+export async function finishDataImport(importId: string, outcome: DataImportOutcome): Promise<void> {
+  const [row] = await getDb()
+    .select({ startedAt: dataImports.startedAt })
+    .from(dataImports)
+    .where(eq(dataImports.importId, importId))
+    .limit(1);
+  const completedAt = new Date();
+
+  await getDb()
+    .update(dataImports)
+    .set({
+      status: outcome.error ? 'failed' : 'completed',
+      completedAt,
+      processingTime: row ? Math.round((completedAt.getTime() - row.startedAt.getTime()) / 1000) : null,
+      rowsProcessed: outcome.rowsProcessed,
+      rowsImported: outcome.rowsImported,
+      rowsSkipped: outcome.rowsSkipped,
+      warnings: outcome.warnings,
+      validationErrors: outcome.error
+        ? [outcome.error instanceof Error ? outcome.error.message : String(outcome.error)]
+        : null,
+    })
+    .where(eq(dataImports.importId, importId));
+}
+
+/**
+ * Merge values into an import's metadata (e.g. a sync checkpoint)
+ */
+export async function updateDataImportMetadata(importId: string, metadata: Record<string, unknown>): Promise<void> {
+  await getDb()
+    .update(dataImports)
+    .set({ metadata: sql`coalesce(${dataImports.metadata}, '{}'::jsonb) || ${JSON.stringify(metadata)}::jsonb` })
+    .where(eq(dataImports.importId, importId));
+}
+
+/**
+ * Imports from a source that never completed, newest first, whose draft
+ * version can still be written to
+ */
+export async function listIncompleteImports(dataSource: string): Promise<(typeof dataImports.$inferSelect)[]> {
+  return getDb()
+    .select({ dataImport: dataImports })
+    .from(dataImports)
+    .innerJoin(dataVersions, eq(dataVersions.versionId, dataImports.dataVersionId))
+    .where(and(
+      eq(dataImports.dataSource, dataSource),
+      inArray(dataImports.status, ['processing', 'failed']),
+      eq(dataVersions.status, 'draft')
+    ))
+    .orderBy(desc(dataImports.startedAt))
+    .then((rows) => rows.map((row) => row.dataImport));
+}
+
+/**
+ * Mark an unfinished import as running again when it is resumed
+ */
+export async function reopenDataImport(importId: string): Promise<void> {
+  await getDb()
+    .update(dataImports)
+    .set({ status: 'processing', completedAt: null, validationErrors: null })
+    .where(eq(dataImports.importId, importId));
+}
+
+async function requireVersion(versionId: string): Promise<DataVersion> {
+  const version = await getDataVersion(versionId);
+  if (!version) throw new Error(`Data version not found: ${versionId}`);
+  if (!isDataType(version.dataType)) throw new Error(`Unsupported data type: ${version.dataType}`);
+  return version;
+}
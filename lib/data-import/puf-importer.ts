@@ -0,0 +1,256 @@
+/**
+ * CMS Marketplace PUF Importer
+ *
+ * Loads real per-plan, per-age premiums and cost sharing into aca_plans from
+ * the official Marketplace Public Use Files (Plan Attributes, Rate, Benefits
+ * & Cost Sharing and Service Area). Counties and rating areas come from the
+ * active CMS geography version, so run the county import first.
+ *
+ * The PUFs cover states that use HealthCare.gov; state-based exchanges that
+ * publish files in the same layout can be imported the same way.
+ *
+ * Usage:
+ * - Download the PUF CSVs to /data/cms/raw/ (see DOWNLOAD-INSTRUCTIONS.md)
+ * - Run: npm run import:cms:plans -- --year=2025 [--states=NC,TX]
+ * - Plans are written to a draft aca_plans data version; activate it with
+ *   npm run data:activate once validation passes
+ */
+
+import { getDb } from '@/db/client';
+import { acaPlans } from '@/db/schema/insurance-costs';
+import { counties } from '@/db/schema/state-metadata';
+import { and, eq, inArray } from 'drizzle-orm';
+import * as fs from 'fs';
+import * as path from 'path';
+import csv from 'csv-parser';
+import { finishDataImport, getActiveDataVersionId, startDataImport, versionScope } from './data-versions';
+import {
+  addRate,
+  buildPlanRecords,
+  parseBenefitRow,
+  parsePlanAttributesRow,
+  parseRateRow,
+  parseServiceAreaRow,
+  PUF_DATA_SOURCE,
+  type PlanRateTable,
+  type PlanRecordInputs,
+  type PufPlan,
+  type PufRow,
+  type PufServiceArea,
+} from './puf-parser';
+
+// PUF file paths (renamed as in DOWNLOAD-INSTRUCTIONS.md)
+const RAW_DIR = path.join(process.cwd(), 'data', 'cms', 'raw');
+
+export const PUF_FILES = {
+  planAttributes: (year: number) => `plan-attributes-${year}.csv`,
+  rates: (year: number) => `rate-${year}.csv`,
+  benefits: (year: number) => `benefits-cost-sharing-${year}.csv`,
+  serviceAreas: (year: number) => `service-area-${year}.csv`,
+};
+
+const INSERT_BATCH_SIZE = 1000;
+
+export interface PufImportOptions {
+  /** Plan year of the PUFs to import */
+  year: number;
+  /** Only import these states (default: every state in the files) */
+  states?: string[];
+  /** Only store these ages (default: every age in the Rate PUF) */
+  ages?: number[];
+  /** Draft aca_plans version to write to (required unless dryRun) */
+  versionId?: string;
+  /** Parse and count without writing to the database */
+  dryRun?: boolean;
+  /** Directory holding the PUF CSVs (default: data/cms/raw) */
+  directory?: string;
+}
+
+export interface PufImportResult {
+  planYear: number;
+  states: string[];
+  plans: number;
+  plansWithoutRates: number;
+  records: number;
+  duration: number;
+}
+
+/**
+ * Import plan attributes, rates and cost sharing from the PUFs into a draft
+ * aca_plans version
+ *
+ * The draft's existing PUF rows for the imported states and year are
+ * replaced; rows from other sources (Healthcare.gov sync, seeds) are left
+ * alone.
+ */
+export async function importPlanPUFs(options: PufImportOptions): Promise<PufImportResult> {
+  const startTime = Date.now();
+  const { year, versionId, dryRun = false } = options;
+  if (!dryRun && !versionId) {
+    throw new Error('A draft data version is required to import plans');
+  }
+
+  const directory = options.directory ?? RAW_DIR;
+  const stateFilter = options.states?.length ? new Set(options.states.map((s) => s.toUpperCase())) : null;
+
+  console.log(`🏥 Importing ${year} plan PUFs${stateFilter ? ` for ${[...stateFilter].join(', ')}` : ''}...`);
+
+  const importId = versionId && !dryRun
+    ? await startDataImport({
+        importName: `Marketplace plan PUFs ${year}`,
+        dataSource: PUF_DATA_SOURCE,
+        versionId,
+        fileName: Object.values(PUF_FILES).map((file) => file(year)).join(', '),
+        targetTables: ['aca_plans'],
+        importParams: { year, states: options.states, ages: options.ages },
+      })
+    : null;
+
+  try {
+    const result = await runPlanImport(options, directory, stateFilter, startTime);
+    if (importId) {
+      await finishDataImport(importId, {
+        rowsProcessed: result.plans,
+        rowsImported: result.records,
+        rowsSkipped: result.plansWithoutRates,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (importId) await finishDataImport(importId, { error });
+    throw error;
+  }
+}
+
+async function runPlanImport(
+  options: PufImportOptions,
+  directory: string,
+  stateFilter: Set<string> | null,
+  startTime: number
+): Promise<PufImportResult> {
+  const { year, versionId, dryRun = false } = options;
+  const inState = (row: PufRow) => !stateFilter || stateFilter.has((row.StateCode ?? '').trim());
+
+  // Plan attributes first: the other files are filtered to these plans
+  const plans: PufPlan[] = [];
+  await readPuf(path.join(directory, PUF_FILES.planAttributes(year)), (row) => {
+    if (!inState(row)) return;
+    const plan = parsePlanAttributesRow(row);
+    if (plan) plans.push(plan);
+  });
+  const planIds = new Set(plans.map((p) => p.standardComponentId));
+  console.log(`✅ Parsed ${plans.length} individual medical plans`);
+
+  const serviceAreas: PufServiceArea[] = [];
+  await readPuf(path.join(directory, PUF_FILES.serviceAreas(year)), (row) => {
+    if (!inState(row)) return;
+    const area = parseServiceAreaRow(row);
+    if (area) serviceAreas.push(area);
+  });
+  console.log(`✅ Parsed ${serviceAreas.length} service area rows`);
+
+  const costSharing: PlanRecordInputs['costSharing'] = new Map();
+  await readPuf(path.join(directory, PUF_FILES.benefits(year)), (row) => {
+    if (!inState(row)) return;
+    const benefit = parseBenefitRow(row);
+    if (!benefit || !planIds.has(benefit.standardComponentId)) return;
+    costSharing.set(benefit.standardComponentId, {
+      ...costSharing.get(benefit.standardComponentId),
+      [benefit.benefit]: benefit.copay,
+    });
+  });
+  console.log(`✅ Parsed cost sharing for ${costSharing.size} plans`);
+
+  const rates = new Map<string, PlanRateTable>();
+  const ratedPlanIds = new Set<string>();
+  await readPuf(path.join(directory, PUF_FILES.rates(year)), (row) => {
+    if (!inState(row)) return;
+    const rate = parseRateRow(row);
+    if (!rate || !planIds.has(rate.standardComponentId)) return;
+    addRate(rates, rate);
+    ratedPlanIds.add(rate.standardComponentId);
+  });
+  console.log(`✅ Parsed ${rates.size} plan rating-area rate tables`);
+
+  const states = [...new Set(plans.map((p) => p.stateCode))].sort();
+  const geographyVersionId = await getActiveDataVersionId('cms_geography');
+  const countyRows = states.length === 0 ? [] : await getDb()
+    .select({
+      stateCode: counties.stateCode,
+      countyFips: counties.countyFips,
+      countyName: counties.countyName,
+      ratingArea: counties.ratingArea,
+    })
+    .from(counties)
+    .where(and(
+      inArray(counties.stateCode, states),
+      versionScope(counties.dataVersionId, geographyVersionId)
+    ));
+
+  if (countyRows.length === 0 && states.length > 0) {
+    throw new Error('No counties found for the imported states; run the county import first');
+  }
+
+  const records = buildPlanRecords({
+    plans,
+    rates,
+    costSharing,
+    serviceAreas,
+    counties: countyRows,
+    planYear: year,
+    ages: options.ages,
+  }).map((record) => ({ ...record, dataVersionId: versionId }));
+
+  const plansWithoutRates = plans.filter((p) => !ratedPlanIds.has(p.standardComponentId)).length;
+
+  console.log(`✅ Built ${records.length} plan records (${plansWithoutRates} plans had no rates)`);
+
+  if (!dryRun && versionId && states.length > 0) {
+    await getDb().transaction(async (tx) => {
+      await tx.delete(acaPlans).where(and(
+        eq(acaPlans.dataVersionId, versionId),
+        eq(acaPlans.dataSource, PUF_DATA_SOURCE),
+        eq(acaPlans.planYear, year),
+        inArray(acaPlans.state, states)
+      ));
+
+      for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(acaPlans).values(records.slice(i, i + INSERT_BATCH_SIZE));
+
+        const batch = Math.floor(i / INSERT_BATCH_SIZE) + 1;
+        if (batch % 50 === 0) {
+          console.log(`   Imported batch ${batch}/${Math.ceil(records.length / INSERT_BATCH_SIZE)}`);
+        }
+      }
+    });
+
+    console.log(`✅ Successfully imported ${records.length} plan records for ${states.join(', ')} into version ${versionId}`);
+  }
+
+  return {
+    planYear: year,
+    states,
+    plans: plans.length,
+    plansWithoutRates,
+    records: records.length,
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * Stream a PUF CSV row by row
+ */
+function readPuf(filePath: string, onRow: (row: PufRow) => void): Promise<void> {
+  if (!fs.existsSync(filePath)) {
+    return Promise.reject(new Error(`PUF file not found: ${filePath}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    fs.createReadStream(filePath)
+      // Some PUF releases start with a byte order mark
+      .pipe(csv({ mapHeaders: ({ header }) => header.replace(/^﻿/, '').trim() }))
+      .on('data', onRow)
+      .on('end', () => resolve())
+      .on('error', reject);
+  });
+}
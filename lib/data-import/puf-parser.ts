@@ -0,0 +1,350 @@
+/**
+ * CMS Marketplace PUF Parsing
+ *
+ * Row parsers for the official Marketplace Public Use Files and the step
+ * that combines them into aca_plans records:
+ * - Plan Attributes PUF: plan names, issuers, metal levels, plan types,
+ *   service areas, deductibles and out-of-pocket maximums
+ * - Rate PUF: per-age premiums by plan and rating area
+ * - Benefits & Cost Sharing PUF: primary care and specialist copays
+ * - Service Area PUF: counties each issuer's service area covers
+ *
+ * Pure functions only; file reading and database writes live in
+ * puf-importer.ts.
+ */
+
+import type { acaPlans } from '@/db/schema/insurance-costs';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AcaPlanRecord = typeof acaPlans.$inferInsert;
+
+/** PUF rows as read by csv-parser (header name → cell) */
+export type PufRow = Record<string, string | undefined>;
+
+export interface PufPlan {
+  /** 14-character standard component ID shared by the plan's variants */
+  standardComponentId: string;
+  stateCode: string;
+  issuerId: string;
+  issuerName: string;
+  planName: string;
+  planType: string;
+  metalTier: string;
+  serviceAreaId: string;
+  nationalNetwork: boolean;
+  deductible: number | null;
+  oopMaximum: number | null;
+}
+
+export interface PufRate {
+  standardComponentId: string;
+  ratingArea: string;
+  /** Youngest age the rate applies to (the 0-14 band is stored as 0) */
+  age: number;
+  rate: number;
+  tobaccoRate: number | null;
+  effectiveDate: string;
+}
+
+export interface PufBenefit {
+  standardComponentId: string;
+  benefit: 'primaryCareVisit' | 'specialistVisit';
+  /** In-network copay in dollars; null when the benefit uses coinsurance */
+  copay: number | null;
+}
+
+export interface PufServiceArea {
+  issuerId: string;
+  serviceAreaId: string;
+  stateCode: string;
+  coversEntireState: boolean;
+  countyFips: string | null;
+}
+
+export interface PufCounty {
+  stateCode: string;
+  countyFips: string;
+  countyName: string;
+  ratingArea: string;
+}
+
+/** Rates for one plan and rating area */
+export interface PlanRateTable {
+  effectiveDate: string;
+  byAge: Map<number, { rate: number; tobaccoRate: number | null }>;
+}
+
+export interface PlanRecordInputs {
+  plans: PufPlan[];
+  /** Keyed by rateTableKey(standardComponentId, ratingArea) */
+  rates: Map<string, PlanRateTable>;
+  /** Keyed by standardComponentId */
+  costSharing: Map<string, Partial<Record<PufBenefit['benefit'], number | null>>>;
+  serviceAreas: PufServiceArea[];
+  counties: PufCounty[];
+  planYear: number;
+  /** Only keep these ages (default: every age in the Rate PUF) */
+  ages?: number[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** aca_plans.data_source for rows loaded from the PUFs */
+export const PUF_DATA_SOURCE = 'CMS PUF';
+
+const BENEFIT_NAMES: Record<string, PufBenefit['benefit']> = {
+  'primary care visit to treat an injury or illness': 'primaryCareVisit',
+  'specialist visit': 'specialistVisit',
+};
+
+const METAL_TIERS: Record<string, string> = {
+  bronze: 'Bronze',
+  'expanded bronze': 'Bronze',
+  silver: 'Silver',
+  gold: 'Gold',
+  platinum: 'Platinum',
+  catastrophic: 'Catastrophic',
+};
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+/**
+ * Parse a PUF dollar amount ("$9,200", "$45.00 Copay after deductible").
+ * Returns null for "Not Applicable", coinsurance and blank cells; "No Charge"
+ * is $0.
+ */
+export function parseMoney(value: string | undefined): number | null {
+  const text = value?.trim() ?? '';
+  if (/^no charge/i.test(text)) return 0;
+
+  const match = text.match(/^\$?\s*([\d,]+(?:\.\d+)?)(?![\d.,]*\s*%)/);
+  if (!match?.[1]) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Parse a Rate PUF age ("0-14", "21", "64 and over"); null for
+ * "Family Option" rows
+ */
+export function parseRateAge(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d+)(?:\s*-\s*\d+|\s+and over)?$/i);
+  return match?.[1] ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Normalize a rating area ("Rating Area 7", "7", "07") to its number
+ */
+export function normalizeRatingArea(value: string | undefined): string {
+  const match = value?.match(/(\d+)\s*$/);
+  return match?.[1] ? String(parseInt(match[1], 10)) : (value ?? '').trim();
+}
+
+/**
+ * Key for PlanRecordInputs.rates
+ */
+export function rateTableKey(standardComponentId: string, ratingArea: string): string {
+  return `${standardComponentId}|${ratingArea}`;
+}
+
+function isYes(value: string | undefined): boolean {
+  return value?.trim().toLowerCase() === 'yes';
+}
+
+function isIndividualMedical(row: PufRow): boolean {
+  return (row.MarketCoverage ?? '').trim().toLowerCase() === 'individual' && !isYes(row.DentalOnlyPlan);
+}
+
+// ============================================================================
+// ROW PARSING
+// ============================================================================
+
+/**
+ * Parse a Plan Attributes PUF row. Only the standard (-01) variant of
+ * individual-market medical plans is kept; cost-sharing reduction variants
+ * share the same premiums.
+ */
+export function parsePlanAttributesRow(row: PufRow): PufPlan | null {
+  if (!isIndividualMedical(row)) return null;
+
+  const planId = row.PlanId?.trim() ?? '';
+  const standardComponentId = row.StandardComponentId?.trim() || planId.split('-')[0] || '';
+  if (!standardComponentId || (planId.includes('-') && !planId.endsWith('-01'))) return null;
+
+  const metalTier = METAL_TIERS[(row.MetalLevel ?? '').trim().toLowerCase()];
+  if (!metalTier) return null;
+
+  // Integrated medical + drug amounts first, then medical-only
+  const deductible = parseMoney(row.TEHBDedInnTier1Individual) ?? parseMoney(row.MEHBDedInnTier1Individual);
+  const oopMaximum = parseMoney(row.TEHBInnTier1IndividualMOOP) ?? parseMoney(row.MEHBInnTier1IndividualMOOP);
+
+  return {
+    standardComponentId,
+    stateCode: (row.StateCode ?? '').trim(),
+    issuerId: (row.IssuerId ?? '').trim(),
+    issuerName: (row.IssuerMarketPlaceMarketingName || row.IssuerName || row.IssuerId || '').trim(),
+    planName: (row.PlanMarketingName ?? '').trim(),
+    planType: (row.PlanType ?? '').trim().toUpperCase(),
+    metalTier,
+    serviceAreaId: (row.ServiceAreaId ?? '').trim(),
+    nationalNetwork: isYes(row.NationalNetwork),
+    deductible,
+    oopMaximum,
+  };
+}
+
+/**
+ * Parse a Rate PUF row
+ */
+export function parseRateRow(row: PufRow): PufRate | null {
+  const age = parseRateAge(row.Age);
+  const rate = parseFloat(row.IndividualRate ?? '');
+  if (age === null || !(rate > 0) || !row.PlanId) return null;
+
+  const tobaccoRate = parseFloat(row.IndividualTobaccoRate ?? '');
+
+  return {
+    standardComponentId: row.PlanId.trim(),
+    ratingArea: normalizeRatingArea(row.RatingAreaId),
+    age,
+    rate,
+    tobaccoRate: tobaccoRate > 0 ? tobaccoRate : null,
+    effectiveDate: (row.RateEffectiveDate ?? '').trim(),
+  };
+}
+
+/**
+ * Parse a Benefits & Cost Sharing PUF row (primary care and specialist
+ * visits only, standard variant only)
+ */
+export function parseBenefitRow(row: PufRow): PufBenefit | null {
+  const benefit = BENEFIT_NAMES[(row.BenefitName ?? '').trim().toLowerCase()];
+  const planId = row.PlanId?.trim() ?? '';
+  if (!benefit || !planId.endsWith('-01')) return null;
+
+  return {
+    standardComponentId: planId.split('-')[0]!,
+    benefit,
+    copay: parseMoney(row.CopayInnTier1),
+  };
+}
+
+/**
+ * Parse a Service Area PUF row (individual-market medical only)
+ */
+export function parseServiceAreaRow(row: PufRow): PufServiceArea | null {
+  if (!isIndividualMedical(row) || !row.ServiceAreaId || !row.IssuerId) return null;
+
+  const county = (row.County ?? '').trim();
+
+  return {
+    issuerId: row.IssuerId.trim(),
+    serviceAreaId: row.ServiceAreaId.trim(),
+    stateCode: (row.StateCode ?? '').trim(),
+    coversEntireState: isYes(row.CoverEntireState),
+    countyFips: county ? county.padStart(5, '0') : null,
+  };
+}
+
+/**
+ * Add a rate to the rate tables. Plans can file mid-year rate changes; only
+ * the earliest effective rates are kept.
+ */
+export function addRate(rates: Map<string, PlanRateTable>, rate: PufRate): void {
+  const key = rateTableKey(rate.standardComponentId, rate.ratingArea);
+  let table = rates.get(key);
+
+  if (!table || rate.effectiveDate < table.effectiveDate) {
+    table = { effectiveDate: rate.effectiveDate, byAge: new Map() };
+    rates.set(key, table);
+  } else if (rate.effectiveDate > table.effectiveDate) {
+    return;
+  }
+
+  table.byAge.set(rate.age, { rate: rate.rate, tobaccoRate: rate.tobaccoRate });
+}
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+/**
+ * Combine parsed PUF data into aca_plans rows: one row per plan, county
+ * served and age. Counties come from the imported county/rating-area table;
+ * plans without rates for a county's rating area are skipped there.
+ */
+export function buildPlanRecords(inputs: PlanRecordInputs): AcaPlanRecord[] {
+  const { plans, rates, costSharing, serviceAreas, counties, planYear, ages } = inputs;
+  const ageFilter = ages ? new Set(ages) : null;
+
+  const countiesByState = new Map<string, PufCounty[]>();
+  const countiesByFips = new Map<string, PufCounty>();
+  for (const county of counties) {
+    countiesByState.set(county.stateCode, [...(countiesByState.get(county.stateCode) ?? []), county]);
+    countiesByFips.set(county.countyFips, county);
+  }
+
+  const areaCounties = new Map<string, Set<PufCounty>>();
+  for (const area of serviceAreas) {
+    const key = `${area.issuerId}|${area.serviceAreaId}`;
+    const served = areaCounties.get(key) ?? new Set<PufCounty>();
+
+    const covered = area.coversEntireState
+      ? countiesByState.get(area.stateCode) ?? []
+      : [countiesByFips.get(area.countyFips ?? '')].filter((c): c is PufCounty => Boolean(c));
+    covered.forEach((county) => served.add(county));
+
+    areaCounties.set(key, served);
+  }
+
+  const records: AcaPlanRecord[] = [];
+
+  for (const plan of plans) {
+    const served = areaCounties.get(`${plan.issuerId}|${plan.serviceAreaId}`);
+    if (!served || plan.deductible === null || plan.oopMaximum === null) continue;
+
+    const sharing = costSharing.get(plan.standardComponentId) ?? {};
+
+    for (const county of served) {
+      const table = rates.get(rateTableKey(plan.standardComponentId, normalizeRatingArea(county.ratingArea)));
+      if (!table) continue;
+
+      for (const [age, { rate, tobaccoRate }] of table.byAge) {
+        if (ageFilter && !ageFilter.has(age)) continue;
+
+        records.push({
+          state: plan.stateCode,
+          county: county.countyName,
+          ratingArea: normalizeRatingArea(county.ratingArea),
+          zipCode: null,
+          metalTier: plan.metalTier,
+          planType: plan.planType,
+          carrier: plan.issuerName.slice(0, 100),
+          planName: plan.planName.slice(0, 200),
+          planId: plan.standardComponentId,
+          age,
+          monthlyPremium: rate.toFixed(2),
+          tobaccoSurcharge: tobaccoRate ? ((tobaccoRate / rate - 1) * 100).toFixed(2) : '0.00',
+          deductible: plan.deductible.toFixed(2),
+          oopMaximum: plan.oopMaximum.toFixed(2),
+          primaryCareVisit: sharing.primaryCareVisit?.toFixed(2) ?? null,
+          specialistVisit: sharing.specialistVisit?.toFixed(2) ?? null,
+          nationalNetwork: plan.nationalNetwork,
+          planYear,
+          dataSource: PUF_DATA_SOURCE,
+          isActive: true,
+        });
+      }
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,239 @@
+/**
+ * Tests for offline data packs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Provider } from '@/lib/providers/nppes';
+import type { Hospital } from '@/lib/hospitals/cms';
+import type { Drug } from '@/lib/drugs/fda';
+import { searchHospitals } from '@/lib/hospitals/cms';
+import { validateZipCode } from '@/lib/zipCodeApi';
+import {
+  getPackSLCSP,
+  getPackStateBaseRates,
+  getPackZipLocation,
+  searchPackDrugs,
+  searchPackHospitals,
+  searchPackProviders,
+  type DataPack,
+  type DataPackContents,
+} from '../pack';
+import { clearDataPackCache, loadDataPack, writeDataPack } from '../loader';
+
+function provider(npi: string, lastName: string, specialty: string, city: string, zip: string): Provider {
+  return {
+    npi,
+    type: 'individual',
+    name: `Jane ${lastName} MD`,
+    firstName: 'Jane',
+    lastName,
+    primarySpecialty: specialty,
+    specialties: [{ code: '207Q00000X', description: specialty, isPrimary: true }],
+    addresses: [{ type: 'practice', line1: '1 Main St', city, state: 'NC', zip }],
+    enumerationDate: '2010-01-01',
+    lastUpdated: '2024-01-01',
+    status: 'A',
+  };
+}
+
+function hospital(providerId: string, name: string, overallRating: number | null): Hospital {
+  const notAvailable = 'not_available' as const;
+  return {
+    providerId,
+    name,
+    address: { street: '1 Hospital Dr', city: 'RALEIGH', state: 'NC', zip: '27610', county: 'WAKE' },
+    phone: '(919) 555-0100',
+    type: 'Acute Care Hospitals',
+    ownership: 'Voluntary non-profit - Private',
+    hasEmergencyServices: true,
+    overallRating,
+    ratings: {
+      mortality: notAvailable,
+      safetyOfCare: notAvailable,
+      readmission: notAvailable,
+      patientExperience: notAvailable,
+      effectivenessOfCare: notAvailable,
+      timelinessOfCare: notAvailable,
+      efficientUseOfImaging: notAvailable,
+    },
+    meetsEHRCriteria: true,
+  };
+}
+
+function drug(brand: string, generic: string, ndc: string): Drug {
+  return {
+    brandNames: [brand],
+    genericNames: [generic],
+    activeIngredients: [generic],
+    manufacturers: ['Acme Pharma'],
+    ndcs: [ndc],
+    rxcuis: [],
+    drugClasses: ['HMG-CoA Reductase Inhibitor [EPC]'],
+    routes: ['ORAL'],
+    productTypes: ['HUMAN PRESCRIPTION DRUG'],
+  };
+}
+
+const contents: DataPackContents = {
+  geography: {
+    counties: [
+      { stateCode: 'NC', countyFips: '37183', countyName: 'Wake', ratingArea: '4', slcspPremium: 450.25 },
+      { stateCode: 'NC', countyFips: '37063', countyName: 'Durham', ratingArea: '4', slcspPremium: null },
+    ],
+    zipCodes: [
+      { zipCode: '27601', stateCode: 'NC', countyFips: '37063', countyName: 'Durham', city: null, latitude: null, longitude: null, isPrimary: false },
+      { zipCode: '27601', stateCode: 'NC', countyFips: '37183', countyName: 'Wake', city: 'Raleigh', latitude: '35.7721', longitude: '-78.6386', isPrimary: true },
+      { zipCode: '27701', stateCode: 'NC', countyFips: '37063', countyName: 'Durham', city: null, latitude: null, longitude: null, isPrimary: true },
+    ],
+  },
+  planRates: [
+    { state: 'NC', planYear: 2024, baseRate: 390 },
+    { state: 'NC', planYear: 2025, baseRate: 410.5 },
+  ],
+  providers: [
+    provider('1111111111', 'Smith', 'Family Medicine', 'RALEIGH', '276011234'),
+    provider('2222222222', 'Jones', 'Pediatrics', 'DURHAM', '27701'),
+    provider('3333333333', 'Smithson', 'Family Medicine', 'DURHAM', '27701'),
+  ],
+  hospitals: [
+    hospital('340001', 'WAKEMED', 3),
+    hospital('340002', 'DUKE RALEIGH HOSPITAL', 4),
+    hospital('340003', 'REX HOSPITAL', 4),
+    hospital('340004', 'NEW CLINIC', null),
+  ],
+  drugs: [drug('Lipitor', 'ATORVASTATIN CALCIUM', '0071-0155'), drug('Zocor', 'SIMVASTATIN', '0006-0740')],
+};
+
+function makePack(): DataPack {
+  return {
+    manifest: {
+      formatVersion: 1,
+      packVersion: 'test',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      sources: { geographyVersionId: null, planVersionId: null, states: ['NC'], apis: true },
+      files: {} as DataPack['manifest']['files'],
+    },
+    ...contents,
+  };
+}
+
+describe('data pack lookups', () => {
+  const pack = makePack();
+
+  test('ZIP locations use the primary mapping', () => {
+    expect(getPackZipLocation(pack, '27601')).toEqual({
+      zip: '27601',
+      city: 'Raleigh',
+      state: 'North Carolina',
+      stateAbbr: 'NC',
+      latitude: '35.7721',
+      longitude: '-78.6386',
+      country: 'United States',
+    });
+    expect(getPackZipLocation(pack, '27701')?.city).toBe('Durham');
+    expect(getPackZipLocation(pack, '99999')).toBeNull();
+  });
+
+  test('SLCSP matches the database lookup', () => {
+    expect(getPackSLCSP(pack, '27601', 2)).toEqual({
+      monthlyPremium: 900.5,
+      isEstimate: false,
+      source: 'database',
+      ratingArea: '4',
+      planName: 'Wake SLCSP (CMS Data)',
+    });
+    expect(getPackSLCSP(pack, '27701', 1)).toBeNull();
+    expect(getPackSLCSP(pack, '27601', 1, 'VA')).toBeNull();
+  });
+
+  test('base rates use the requested or latest plan year', () => {
+    expect(getPackStateBaseRates(pack, ['NC', 'TX'])).toEqual({ NC: 410.5 });
+    expect(getPackStateBaseRates(pack, ['NC'], 2024)).toEqual({ NC: 390 });
+    expect(getPackStateBaseRates(pack, ['NC'], 2023)).toEqual({});
+  });
+
+  test('provider search filters and pages like NPPES', () => {
+    const result = searchPackProviders(pack, { lastName: 'smith', taxonomyDescription: 'family', state: 'nc' });
+    expect(result.providers.map((p) => p.npi)).toEqual(['1111111111', '3333333333']);
+    expect(result.totalCount).toBe(2);
+
+    expect(searchPackProviders(pack, { postalCode: '27601-1234' }).providers.map((p) => p.npi)).toEqual(['1111111111']);
+    expect(searchPackProviders(pack, { state: 'NC', limit: 1, skip: 1 })).toMatchObject({
+      providers: [{ npi: '2222222222' }],
+      totalCount: 3,
+    });
+  });
+
+  test('hospital search orders by rating then name', () => {
+    expect(searchPackHospitals(pack, { state: 'NC' }).hospitals.map((h) => h.providerId))
+      .toEqual(['340002', '340003', '340001', '340004']);
+    expect(searchPackHospitals(pack, { minRating: 4, limit: 1 })).toMatchObject({
+      hospitals: [{ name: 'DUKE RALEIGH HOSPITAL' }],
+      totalCount: 2,
+    });
+  });
+
+  test('drug search matches brand or generic names', () => {
+    expect(searchPackDrugs(pack, { name: 'atorvastatin' }).drugs[0]?.brandNames).toEqual(['Lipitor']);
+    expect(searchPackDrugs(pack, { drugClass: 'HMG-CoA' }).totalCount).toBe(2);
+    expect(searchPackDrugs(pack, { ndc: '0006-0740' }).drugs[0]?.genericNames).toEqual(['SIMVASTATIN']);
+    expect(() => searchPackDrugs(pack, {})).toThrow('At least one search parameter is required');
+  });
+});
+
+describe('data pack files', () => {
+  let dir: string;
+  const originalPack = process.env.NEXT_PUBLIC_DATA_PACK;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-pack-'));
+    clearDataPackCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    if (originalPack === undefined) delete process.env.NEXT_PUBLIC_DATA_PACK;
+    else process.env.NEXT_PUBLIC_DATA_PACK = originalPack;
+    global.fetch = originalFetch;
+    clearDataPackCache();
+  });
+
+  const meta = { packVersion: 'test', sources: makePack().manifest.sources };
+
+  test('round-trips through writeDataPack and loadDataPack', () => {
+    const manifest = writeDataPack(dir, contents, meta);
+
+    expect(manifest.files.geography.records).toBe(5);
+    expect(manifest.files.providers).toMatchObject({ records: 3, sha256: expect.stringMatching(/^[0-9a-f]{64}$/) });
+
+    const pack = loadDataPack(dir);
+    expect(pack.manifest).toEqual(manifest);
+    expect(pack.hospitals).toEqual(contents.hospitals);
+  });
+
+  test('rejects modified files and unknown formats', () => {
+    writeDataPack(dir, contents, meta);
+    fs.writeFileSync(path.join(dir, 'drugs.json'), '[]');
+    expect(() => loadDataPack(dir)).toThrow('drugs does not match');
+
+    const manifest = writeDataPack(dir, contents, meta);
+    fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ ...manifest, formatVersion: 2 }));
+    expect(() => loadDataPack(dir)).toThrow('Unsupported data pack format 2');
+  });
+
+  test('lookups use the pack instead of the network when NEXT_PUBLIC_DATA_PACK is set', async () => {
+    writeDataPack(dir, contents, meta);
+    process.env.NEXT_PUBLIC_DATA_PACK = dir;
+    const fetchSpy = jest.fn();
+    global.fetch = fetchSpy;
+
+    const { hospitals, totalCount } = await searchHospitals({ name: 'hospital' });
+    expect(hospitals.map((h) => h.providerId)).toEqual(['340002', '340003']);
+    expect(totalCount).toBe(2);
+    expect((await validateZipCode('27601'))?.city).toBe('Raleigh');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+'use server';
+
+/**
+ * Server-only data pack lookups
+ *
+ * Entry points used by the calculator and the search modules when
+ * NEXT_PUBLIC_DATA_PACK is set. Kept separate from pack.ts so client code
+ * can call them without bundling the file system loader, like
+ * slcsp-database.ts.
+ */
+
+import { logger } from '@/lib/logger';
+import type { ZipCodeLocation } from '@/lib/zipCodeApi';
+import type { SLCSPResult } from '@/lib/utils/slcsp-lookup';
+import type { Provider, ProviderSearchParams } from '@/lib/providers/nppes';
+import type { Hospital, HospitalSearchParams } from '@/lib/hospitals/cms';
+import type { Drug, DrugSearchParams } from '@/lib/drugs/fda';
+import { getActiveDataPack } from './loader';
+import {
+  getPackSLCSP,
+  getPackStateBaseRates,
+  getPackZipLocation,
+  searchPackDrugs,
+  searchPackHospitals,
+  searchPackProviders,
+} from './pack';
+
+/**
+ * Location for a ZIP code from the active data pack
+ */
+export async function getZipLocationFromDataPack(zip: string): Promise<ZipCodeLocation | null> {
+  try {
+    return getPackZipLocation(await getActiveDataPack(), zip);
+  } catch (error) {
+    logger.error('Error reading ZIP code from data pack', { error, zip });
+    return null;
+  }
+}
+
+/**
+ * SLCSP from the active data pack
+ */
+export async function getSLCSPFromDataPack(
+  zipCode: string,
+  householdSize: number,
+  stateCode?: string
+): Promise<SLCSPResult | null> {
+  try {
+    return getPackSLCSP(await getActiveDataPack(), zipCode, householdSize, stateCode);
+  } catch (error) {
+    logger.error('Error reading SLCSP from data pack', { error, zipCode });
+    return null;
+  }
+}
+
+/**
+ * Imported state base rates from the active data pack
+ */
+export async function getStateBaseRatesFromDataPack(
+  states: string[],
+  planYear?: number
+): Promise<Record<string, number>> {
+  try {
+    return getPackStateBaseRates(await getActiveDataPack(), states, planYear);
+  } catch (error) {
+    logger.error('Error reading state base rates from data pack', { error, states });
+    return {};
+  }
+}
+
+/**
+ * Provider search over the active data pack
+ */
+export async function searchProvidersInDataPack(
+  params: ProviderSearchParams
+): Promise<{ providers: Provider[]; totalCount: number }> {
+  return searchPackProviders(await getActiveDataPack(), params);
+}
+
+/**
+ * Hospital search over the active data pack
+ */
+export async function searchHospitalsInDataPack(
+  params: HospitalSearchParams
+): Promise<{ hospitals: Hospital[]; totalCount: number }> {
+  return searchPackHospitals(await getActiveDataPack(), params);
+}
+
+/**
+ * Drug search over the active data pack
+ */
+export async function searchDrugsInDataPack(
+  params: DrugSearchParams
+): Promise<{ drugs: Drug[]; totalCount: number }> {
+  return searchPackDrugs(await getActiveDataPack(), params);
+}
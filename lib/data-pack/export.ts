@@ -0,0 +1,214 @@
+/**
+ * Data Pack Export
+ *
+ * Snapshots the active CMS geography and plan data versions and a set of
+ * external API responses (providers by specialty, hospitals and common
+ * drugs per state) into DataPackContents for writeDataPack. Used by
+ * scripts/export-data-pack.ts; needs the database and network access.
+ */
+
+import { getDb } from '@/db/client';
+import { acaPlans } from '@/db/schema/insurance-costs';
+import { counties, zipCodeMappings } from '@/db/schema/state-metadata';
+import { and, eq, inArray } from 'drizzle-orm';
+import { getActiveDataVersionId, versionScope } from '@/lib/data-import/data-versions';
+import { PUF_DATA_SOURCE } from '@/lib/data-import/puf-parser';
+import { getStateBaseRatesFromDatabase } from '@/lib/utils/plan-rates-database';
+import { searchProviders, type Provider } from '@/lib/providers/nppes';
+import { searchHospitals, type Hospital } from '@/lib/hospitals/cms';
+import { searchDrugs, COMMON_GENERICS, type Drug } from '@/lib/drugs/fda';
+import { isOfflineDataMode, type DataPackContents, type DataPackManifest, type PackPlanRate } from './pack';
+
+/** NPPES taxonomy descriptions exported per state by default */
+export const DEFAULT_EXPORT_SPECIALTIES = [
+  'Family Medicine',
+  'Internal Medicine',
+  'Pediatrics',
+  'Obstetrics & Gynecology',
+  'Cardiovascular Disease',
+  'Psychiatry',
+  'Dermatology',
+  'Orthopaedic Surgery',
+];
+
+// Largest page each API returns
+const PROVIDER_PAGE_SIZE = 200;
+const HOSPITAL_PAGE_SIZE = 100;
+const DRUG_RESULTS_PER_NAME = 20;
+
+export interface DataPackExportOptions {
+  /** States to export (default: every state with geography data) */
+  states?: string[];
+  /** Include API responses; false exports only the database tables (default true) */
+  includeApis?: boolean;
+  /** Provider specialties to fetch per state (default DEFAULT_EXPORT_SPECIALTIES) */
+  specialties?: string[];
+  /** Drug names to fetch (default: the COMMON_GENERICS names) */
+  drugs?: string[];
+  /** Pause between API requests in milliseconds (default 250) */
+  requestDelayMs?: number;
+}
+
+export interface DataPackExport {
+  contents: DataPackContents;
+  sources: DataPackManifest['sources'];
+  /** API requests that failed; their results are missing from the pack */
+  warnings: string[];
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseDecimal(value: string | null): number | null {
+  const parsed = value === null ? NaN : parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Counties and ZIP mappings from the active geography version
+ */
+async function exportGeography(versionId: string | null, states?: string[]) {
+  const db = getDb();
+
+  const countyRows = await db
+    .select({
+      stateCode: counties.stateCode,
+      countyFips: counties.countyFips,
+      countyName: counties.countyName,
+      ratingArea: counties.ratingArea,
+      slcspPremium: counties.slcspPremium,
+    })
+    .from(counties)
+    .where(and(
+      versionScope(counties.dataVersionId, versionId),
+      states ? inArray(counties.stateCode, states) : undefined
+    ));
+
+  const zipRows = await db
+    .select({
+      zipCode: zipCodeMappings.zipCode,
+      stateCode: zipCodeMappings.stateCode,
+      countyFips: zipCodeMappings.countyFips,
+      countyName: zipCodeMappings.countyName,
+      city: zipCodeMappings.cityName,
+      latitude: zipCodeMappings.latitude,
+      longitude: zipCodeMappings.longitude,
+      isPrimary: zipCodeMappings.isPrimary,
+    })
+    .from(zipCodeMappings)
+    .where(and(
+      versionScope(zipCodeMappings.dataVersionId, versionId),
+      states ? inArray(zipCodeMappings.stateCode, states) : undefined
+    ));
+
+  return {
+    counties: countyRows.map((row) => ({ ...row, slcspPremium: parseDecimal(row.slcspPremium) })),
+    zipCodes: zipRows.map((row) => ({
+      ...row,
+      latitude: parseDecimal(row.latitude)?.toString() ?? null,
+      longitude: parseDecimal(row.longitude)?.toString() ?? null,
+      isPrimary: row.isPrimary ?? true,
+    })),
+  };
+}
+
+/**
+ * State base rates for every imported PUF plan year
+ */
+async function exportPlanRates(versionId: string | null, states: string[]): Promise<PackPlanRate[]> {
+  if (states.length === 0) return [];
+
+  const years = await getDb()
+    .selectDistinct({ planYear: acaPlans.planYear })
+    .from(acaPlans)
+    .where(and(
+      versionScope(acaPlans.dataVersionId, versionId),
+      eq(acaPlans.dataSource, PUF_DATA_SOURCE),
+      inArray(acaPlans.state, states)
+    ));
+
+  const planRates: PackPlanRate[] = [];
+  for (const { planYear } of years) {
+    const rates = await getStateBaseRatesFromDatabase(states, planYear);
+    for (const [state, baseRate] of Object.entries(rates)) {
+      planRates.push({ state, planYear, baseRate });
+    }
+  }
+
+  return planRates.sort((a, b) => a.state.localeCompare(b.state) || a.planYear - b.planYear);
+}
+
+/**
+ * Snapshot the database tables and API responses the offline lookups need
+ */
+export async function exportDataPack(options: DataPackExportOptions = {}): Promise<DataPackExport> {
+  if (isOfflineDataMode()) {
+    throw new Error('Unset NEXT_PUBLIC_DATA_PACK before exporting; lookups would read the current pack');
+  }
+
+  const delay = options.requestDelayMs ?? 250;
+  const warnings: string[] = [];
+
+  const geographyVersionId = await getActiveDataVersionId('cms_geography');
+  const planVersionId = await getActiveDataVersionId('aca_plans');
+
+  const geography = await exportGeography(geographyVersionId, options.states);
+  const states = options.states ?? [...new Set(geography.counties.map((county) => county.stateCode))].sort();
+  const planRates = await exportPlanRates(planVersionId, states);
+
+  const providers = new Map<string, Provider>();
+  const hospitals = new Map<string, Hospital>();
+  const drugs = new Map<string, Drug>();
+
+  // Wraps each API request so one failure doesn't lose the whole export
+  const request = async <T>(label: string, fn: () => Promise<T>): Promise<T | null> => {
+    try {
+      return await fn();
+    } catch (error) {
+      warnings.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    } finally {
+      if (delay > 0) await sleep(delay);
+    }
+  };
+
+  if (options.includeApis ?? true) {
+    for (const state of states) {
+      for (const specialty of options.specialties ?? DEFAULT_EXPORT_SPECIALTIES) {
+        const result = await request(`Providers ${state} ${specialty}`, () =>
+          searchProviders({ taxonomyDescription: specialty, state, limit: PROVIDER_PAGE_SIZE })
+        );
+        result?.providers.forEach((provider) => providers.set(provider.npi, provider));
+      }
+
+      for (let offset = 0; ; offset += HOSPITAL_PAGE_SIZE) {
+        const result = await request(`Hospitals ${state} offset ${offset}`, () =>
+          searchHospitals({ state, limit: HOSPITAL_PAGE_SIZE, offset })
+        );
+        result?.hospitals.forEach((hospital) => hospitals.set(hospital.providerId, hospital));
+        if (!result || result.hospitals.length < HOSPITAL_PAGE_SIZE) break;
+      }
+    }
+
+    for (const name of options.drugs ?? Object.keys(COMMON_GENERICS)) {
+      const result = await request(`Drugs ${name}`, () => searchDrugs({ name, limit: DRUG_RESULTS_PER_NAME }));
+      result?.drugs.forEach((drug) => {
+        const key = drug.ndcs[0] ?? [...drug.brandNames, ...drug.genericNames, ...drug.manufacturers].join('|');
+        drugs.set(key, drug);
+      });
+    }
+  }
+
+  return {
+    contents: {
+      geography,
+      planRates,
+      providers: [...providers.values()],
+      hospitals: [...hospitals.values()],
+      drugs: [...drugs.values()],
+    },
+    sources: { geographyVersionId, planVersionId, states, apis: options.includeApis ?? true },
+    warnings,
+  };
+}
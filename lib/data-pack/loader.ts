@@ -0,0 +1,133 @@
+/**
+ * Data Pack Loader
+ *
+ * Reads and writes data pack directories (manifest.json plus one JSON file
+ * per section). Server-only: uses the file system.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '@/lib/logger';
+import {
+  DATA_PACK_FORMAT_VERSION,
+  DATA_PACK_ROOT,
+  DATA_PACK_SECTIONS,
+  countSectionRecords,
+  type DataPack,
+  type DataPackContents,
+  type DataPackManifest,
+  type DataPackSection,
+} from './pack';
+
+// Loaded pack for the current NEXT_PUBLIC_DATA_PACK value
+let activePack: { key: string; pack: Promise<DataPack> } | null = null;
+
+function sectionFile(dir: string, section: DataPackSection): string {
+  return path.join(dir, `${section}.json`);
+}
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Resolve a pack name (a directory under data/packs) or a path to a pack
+ * directory
+ */
+export function resolveDataPackPath(nameOrPath: string): string {
+  if (path.isAbsolute(nameOrPath) || nameOrPath.includes('/') || nameOrPath.includes(path.sep)) {
+    return path.resolve(nameOrPath);
+  }
+  return path.join(process.cwd(), DATA_PACK_ROOT, nameOrPath);
+}
+
+/**
+ * Write a pack directory and return its manifest
+ */
+export function writeDataPack(
+  dir: string,
+  contents: DataPackContents,
+  meta: Pick<DataPackManifest, 'packVersion' | 'sources'>
+): DataPackManifest {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const files = {} as DataPackManifest['files'];
+  for (const section of DATA_PACK_SECTIONS) {
+    const content = JSON.stringify(contents[section]);
+    fs.writeFileSync(sectionFile(dir, section), content);
+    files[section] = { records: countSectionRecords(contents, section), sha256: sha256(content) };
+  }
+
+  const manifest: DataPackManifest = {
+    formatVersion: DATA_PACK_FORMAT_VERSION,
+    packVersion: meta.packVersion,
+    createdAt: new Date().toISOString(),
+    sources: meta.sources,
+    files,
+  };
+  fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  return manifest;
+}
+
+/**
+ * Read a pack directory, checking the format version and every section's
+ * checksum
+ */
+export function loadDataPack(dir: string): DataPack {
+  const manifestPath = path.join(dir, 'manifest.json');
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Data pack not found: ${manifestPath}`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as DataPackManifest;
+  if (manifest.formatVersion !== DATA_PACK_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported data pack format ${manifest.formatVersion} in ${dir} (expected ${DATA_PACK_FORMAT_VERSION})`
+    );
+  }
+
+  const contents = {} as Record<DataPackSection, unknown>;
+  for (const section of DATA_PACK_SECTIONS) {
+    const content = fs.readFileSync(sectionFile(dir, section), 'utf-8');
+    if (sha256(content) !== manifest.files[section]?.sha256) {
+      throw new Error(`Data pack section ${section} does not match its manifest checksum (${dir})`);
+    }
+    contents[section] = JSON.parse(content);
+  }
+
+  return { manifest, ...(contents as unknown as DataPackContents) };
+}
+
+/**
+ * The pack named by NEXT_PUBLIC_DATA_PACK, loaded once per process
+ */
+export async function getActiveDataPack(): Promise<DataPack> {
+  const key = process.env.NEXT_PUBLIC_DATA_PACK;
+  if (!key) {
+    throw new Error('NEXT_PUBLIC_DATA_PACK is not set');
+  }
+
+  if (activePack?.key !== key) {
+    const dir = resolveDataPackPath(key);
+    const pack = Promise.resolve().then(() => loadDataPack(dir));
+    activePack = { key, pack };
+
+    pack.then(
+      ({ manifest }) => logger.info('Loaded offline data pack', { dir, packVersion: manifest.packVersion }),
+      () => {
+        if (activePack?.pack === pack) activePack = null;
+      }
+    );
+  }
+
+  return activePack.pack;
+}
+
+/**
+ * Forget the loaded pack (useful for testing or after re-exporting)
+ */
+export function clearDataPackCache(): void {
+  activePack = null;
+}
@@ -0,0 +1,284 @@
+/**
+ * Offline Data Packs
+ *
+ * A data pack is a versioned snapshot of the imported CMS tables and of
+ * cached external API responses (NPPES, CMS Hospital Compare, openFDA),
+ * written by scripts/export-data-pack.ts. When NEXT_PUBLIC_DATA_PACK is set
+ * the calculator's lookups are served from the pack instead of the network
+ * or the database, for air-gapped demo and test environments.
+ *
+ * This module holds the pack format and the lookups over a loaded pack. It
+ * has no file system access so it can be shared by the loader, the export
+ * script and tests.
+ */
+
+import { US_STATES } from '@/lib/states';
+import type { ZipCodeLocation } from '@/lib/zipCodeApi';
+import type { SLCSPResult } from '@/lib/utils/slcsp-lookup';
+import type { Provider, ProviderSearchParams } from '@/lib/providers/nppes';
+import type { Hospital, HospitalSearchParams } from '@/lib/hospitals/cms';
+import type { Drug, DrugSearchParams } from '@/lib/drugs/fda';
+
+/** Bumped when the on-disk layout changes incompatibly */
+export const DATA_PACK_FORMAT_VERSION = 1;
+
+/** Directory packs are written to and resolved from by name */
+export const DATA_PACK_ROOT = 'data/packs';
+
+/** Pack sections, each stored as <section>.json next to manifest.json */
+export const DATA_PACK_SECTIONS = ['geography', 'planRates', 'providers', 'hospitals', 'drugs'] as const;
+export type DataPackSection = typeof DATA_PACK_SECTIONS[number];
+
+export interface DataPackManifest {
+  formatVersion: number;
+  packVersion: string;
+  createdAt: string;
+  /** Where the snapshot came from */
+  sources: {
+    geographyVersionId: string | null;
+    planVersionId: string | null;
+    states: string[];
+    /** False when the pack was exported without API responses */
+    apis: boolean;
+  };
+  /** Record count and SHA-256 of every section file */
+  files: Record<DataPackSection, { records: number; sha256: string }>;
+}
+
+export interface PackCounty {
+  stateCode: string;
+  countyFips: string;
+  countyName: string;
+  ratingArea: string;
+  slcspPremium: number | null;
+}
+
+export interface PackZipCode {
+  zipCode: string;
+  stateCode: string;
+  countyFips: string;
+  countyName: string;
+  city: string | null;
+  latitude: string | null;
+  longitude: string | null;
+  isPrimary: boolean;
+}
+
+export interface PackPlanRate {
+  state: string;
+  planYear: number;
+  /** Average age-21 Silver premium, as returned by getStateBaseRatesFromDatabase */
+  baseRate: number;
+}
+
+export interface DataPackContents {
+  geography: { counties: PackCounty[]; zipCodes: PackZipCode[] };
+  planRates: PackPlanRate[];
+  providers: Provider[];
+  hospitals: Hospital[];
+  drugs: Drug[];
+}
+
+export interface DataPack extends DataPackContents {
+  manifest: DataPackManifest;
+}
+
+/**
+ * Whether lookups should be served from a data pack. Reads the public env
+ * var directly so it is inlined into client bundles.
+ */
+export function isOfflineDataMode(): boolean {
+  return Boolean(process.env.NEXT_PUBLIC_DATA_PACK);
+}
+
+/**
+ * Number of records in a pack section (what the manifest reports)
+ */
+export function countSectionRecords(contents: DataPackContents, section: DataPackSection): number {
+  if (section === 'geography') {
+    return contents.geography.zipCodes.length + contents.geography.counties.length;
+  }
+  return contents[section].length;
+}
+
+/**
+ * ZIP mappings for a ZIP code, primary county first
+ */
+function findZipMappings(pack: DataPack, zipCode: string): PackZipCode[] {
+  return pack.geography.zipCodes
+    .filter((zip) => zip.zipCode === zipCode)
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary));
+}
+
+/**
+ * Pack equivalent of validateZipCode's Zippopotam lookup
+ */
+export function getPackZipLocation(pack: DataPack, zip: string): ZipCodeLocation | null {
+  const [mapping] = findZipMappings(pack, zip);
+  if (!mapping) return null;
+
+  return {
+    zip,
+    city: mapping.city ?? mapping.countyName,
+    state: US_STATES.find((state) => state.code === mapping.stateCode)?.name ?? mapping.stateCode,
+    stateAbbr: mapping.stateCode,
+    latitude: mapping.latitude ?? '',
+    longitude: mapping.longitude ?? '',
+    country: 'United States',
+  };
+}
+
+/**
+ * Pack equivalent of getSLCSPFromDatabase: the county's age-21 SLCSP times
+ * household size
+ */
+export function getPackSLCSP(
+  pack: DataPack,
+  zipCode: string,
+  householdSize: number,
+  stateCode?: string
+): SLCSPResult | null {
+  const [mapping] = findZipMappings(pack, zipCode);
+  if (!mapping) return null;
+
+  const effectiveStateCode = stateCode || mapping.stateCode;
+  const county = pack.geography.counties.find(
+    (c) => c.countyFips === mapping.countyFips && c.stateCode === effectiveStateCode
+  );
+  if (!county?.slcspPremium) return null;
+
+  return {
+    monthlyPremium: county.slcspPremium * householdSize,
+    isEstimate: false,
+    source: 'database',
+    ratingArea: county.ratingArea,
+    planName: `${county.countyName} SLCSP (CMS Data)`,
+  };
+}
+
+/**
+ * Pack equivalent of getStateBaseRatesFromDatabase (requested plan year,
+ * otherwise each state's latest year)
+ */
+export function getPackStateBaseRates(
+  pack: DataPack,
+  states: string[],
+  planYear?: number
+): Record<string, number> {
+  const rates: Record<string, number> = {};
+
+  for (const state of states) {
+    const candidates = pack.planRates
+      .filter((rate) => rate.state === state && (planYear === undefined || rate.planYear === planYear))
+      .sort((a, b) => b.planYear - a.planYear);
+    if (candidates[0]) rates[state] = candidates[0].baseRate;
+  }
+
+  return rates;
+}
+
+function includesText(value: string | undefined, search: string): boolean {
+  return Boolean(value?.toLowerCase().includes(search.toLowerCase()));
+}
+
+function equalsText(value: string | undefined, search: string): boolean {
+  return value?.toLowerCase() === search.toLowerCase();
+}
+
+/**
+ * Pack equivalent of searchProviders. Name and taxonomy filters are
+ * case-insensitive substring matches; location filters apply to any of
+ * the provider's addresses.
+ */
+export function searchPackProviders(
+  pack: DataPack,
+  params: ProviderSearchParams
+): { providers: Provider[]; totalCount: number } {
+  const postalCode = params.postalCode?.substring(0, 5);
+
+  const matches = pack.providers.filter((provider) =>
+    (!params.npi || provider.npi === params.npi) &&
+    (!params.firstName || includesText(provider.firstName, params.firstName)) &&
+    (!params.lastName || includesText(provider.lastName, params.lastName)) &&
+    (!params.organizationName || includesText(provider.organizationName, params.organizationName)) &&
+    (!params.taxonomyDescription ||
+      provider.specialties.some((s) => includesText(s.description, params.taxonomyDescription!))) &&
+    provider.addresses.some((address) =>
+      (!params.city || equalsText(address.city, params.city)) &&
+      (!params.state || equalsText(address.state, params.state)) &&
+      (!postalCode || address.zip.startsWith(postalCode))
+    )
+  );
+
+  // NPPES returns 10 results unless asked for more, up to 200
+  const skip = params.skip ?? 0;
+  const limit = Math.min(params.limit || 10, 200);
+
+  return {
+    providers: matches.slice(skip, skip + limit),
+    totalCount: matches.length,
+  };
+}
+
+/**
+ * Pack equivalent of searchHospitals, with the same ordering (overall
+ * rating, then name)
+ */
+export function searchPackHospitals(
+  pack: DataPack,
+  params: HospitalSearchParams
+): { hospitals: Hospital[]; totalCount: number } {
+  const zipCode = params.zipCode?.substring(0, 5);
+
+  const matches = pack.hospitals
+    .filter((hospital) =>
+      (!params.name || includesText(hospital.name, params.name)) &&
+      (!params.city || equalsText(hospital.address.city, params.city)) &&
+      (!params.state || equalsText(hospital.address.state, params.state)) &&
+      (!zipCode || hospital.address.zip.startsWith(zipCode)) &&
+      (!params.type || hospital.type === params.type) &&
+      (!params.minRating || params.minRating <= 0 || (hospital.overallRating ?? 0) >= params.minRating)
+    )
+    .sort((a, b) => (b.overallRating ?? 0) - (a.overallRating ?? 0) || a.name.localeCompare(b.name));
+
+  const offset = params.offset || 0;
+  const limit = Math.min(params.limit || 20, 100);
+
+  return {
+    hospitals: matches.slice(offset, offset + limit),
+    totalCount: matches.length,
+  };
+}
+
+/**
+ * Pack equivalent of searchDrugs. Throws for an empty search like the
+ * openFDA client does.
+ */
+export function searchPackDrugs(
+  pack: DataPack,
+  params: DrugSearchParams
+): { drugs: Drug[]; totalCount: number } {
+  const { brandName, genericName, name, ndc, manufacturer, drugClass } = params;
+  if (!brandName && !genericName && !name && !ndc && !manufacturer && !drugClass) {
+    throw new Error('At least one search parameter is required');
+  }
+
+  const anyIncludes = (values: string[], search: string) => values.some((value) => includesText(value, search));
+
+  const matches = pack.drugs.filter((drug) =>
+    (!brandName || anyIncludes(drug.brandNames, brandName)) &&
+    (!genericName || anyIncludes(drug.genericNames, genericName)) &&
+    (!name || anyIncludes([...drug.brandNames, ...drug.genericNames], name)) &&
+    (!ndc || drug.ndcs.includes(ndc)) &&
+    (!manufacturer || anyIncludes(drug.manufacturers, manufacturer)) &&
+    (!drugClass || anyIncludes(drug.drugClasses, drugClass))
+  );
+
+  const skip = params.skip || 0;
+  const limit = Math.min(params.limit || 20, 100);
+
+  return {
+    drugs: matches.slice(skip, skip + limit),
+    totalCount: matches.length,
+  };
+}
@@ -6,6 +6,8 @@
  */
 
 import { logger } from '@/lib/logger';
+import { isOfflineDataMode } from '@/lib/data-pack/pack';
+import { searchDrugsInDataPack } from '@/lib/data-pack/actions';
 
 // FDA API Base URL
 const FDA_API_BASE = 'https://api.fda.gov/drug';
@@ -148,6 +150,10 @@ export interface DrugSearchParams {
 export async function searchDrugs(
   params: DrugSearchParams
 ): Promise<{ drugs: Drug[]; totalCount: number }> {
+  if (isOfflineDataMode()) {
+    return searchDrugsInDataPack(params);
+  }
+
   try {
     // Build search query
     const searchTerms: string[] = [];
@@ -4,12 +4,14 @@
  */
 
 import type { AddOnInsuranceAnalysis } from '@/types/addOnInsurance';
+import { applyBrandingToCSV, type ReportBranding } from '@/lib/branding/branding';
 import { logger } from './logger';
 
 /**
- * Convert add-on insurance recommendations to CSV format
+ * Convert add-on insurance recommendations to CSV format, with an optional
+ * broker branding header and disclaimer
  */
-export function exportRecommendationsToCSV(analysis: AddOnInsuranceAnalysis): string {
+export function exportRecommendationsToCSV(analysis: AddOnInsuranceAnalysis, branding?: ReportBranding): string {
   const headers = [
     'Insurance Type',
     'Category',
@@ -44,7 +46,7 @@ export function exportRecommendationsToCSV(analysis: AddOnInsuranceAnalysis): st
     .map(row => row.map(cell => `"${cell}"`).join(','))
     .join('\n');
 
-  return csvContent;
+  return applyBrandingToCSV(csvContent, branding);
 }
 
 /**
@@ -69,9 +71,9 @@ export function downloadCSV(csvContent: string, filename: string = 'add-on-insur
 /**
  * Export recommendations to CSV and trigger download
  */
-export function exportAndDownloadRecommendations(analysis: AddOnInsuranceAnalysis): void {
+export function exportAndDownloadRecommendations(analysis: AddOnInsuranceAnalysis, branding?: ReportBranding): void {
   try {
-    const csvContent = exportRecommendationsToCSV(analysis);
+    const csvContent = exportRecommendationsToCSV(analysis, branding);
     const timestamp = new Date().toISOString().split('T')[0];
     const filename = `add-on-insurance-recommendations-${timestamp}.csv`;
     downloadCSV(csvContent, filename);
@@ -6,6 +6,8 @@
  */
 
 import { logger } from '@/lib/logger';
+import { isOfflineDataMode } from '@/lib/data-pack/pack';
+import { searchHospitalsInDataPack } from '@/lib/data-pack/actions';
 
 // CMS Data API Base URL
 const CMS_DATA_API = 'https://data.cms.gov/provider-data/api/1';
@@ -117,6 +119,10 @@ export interface HospitalSearchParams {
 export async function searchHospitals(
   params: HospitalSearchParams
 ): Promise<{ hospitals: Hospital[]; totalCount: number }> {
+  if (isOfflineDataMode()) {
+    return searchHospitalsInDataPack(params);
+  }
+
   try {
     // Build query filters
     const filters: string[] = [];
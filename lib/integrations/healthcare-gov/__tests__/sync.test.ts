@@ -0,0 +1,232 @@
+/**
+ * Tests for the incremental Healthcare.gov plan sync, replayed from a
+ * recorded API fixture against an in-memory store
+ */
+
+import { syncMarketplacePlans, type SyncOptions } from '../sync';
+import { FixtureHealthcareGovClient, type MarketplaceFixture } from '../fixture-client';
+import { checkpointKey, type CountyScope, type PlanRecord, type PlanSyncStore, type SyncRun } from '../sync-store';
+import recordedFixture from './fixtures/marketplace-2025.json';
+
+const MARICOPA = 'AZ:04013';
+const PIMA = 'AZ:04019';
+const BRONZE = '91450AZ0080001';
+const SILVER = '86830AZ0010012';
+const GOLD = '53901AZ1420007';
+
+const options: SyncOptions = { states: ['AZ'], year: 2025, requestDelayMs: 0 };
+
+function loadFixture(): MarketplaceFixture {
+  return JSON.parse(JSON.stringify(recordedFixture)) as MarketplaceFixture;
+}
+
+/**
+ * Plans kept per county, plus a log of every write
+ */
+class MemorySyncStore implements PlanSyncStore {
+  plans = new Map<string, Map<string, PlanRecord[]>>();
+  legacyRows = new Map<string, number>(); // Rows without a plan ID per county
+  checkpoint: string[] = [];
+  finished = false;
+  writes: string[] = [];
+
+  async startRun(runOptions: { resume?: boolean }): Promise<SyncRun> {
+    const resumed = Boolean(runOptions.resume) && !this.finished && this.checkpoint.length > 0;
+    if (!resumed) this.checkpoint = [];
+    this.finished = false;
+    return {
+      versionId: 'draft',
+      readVersionId: 'draft',
+      importId: 'import',
+      checkpoint: { completedCounties: [...this.checkpoint] },
+      resumed,
+    };
+  }
+
+  async loadCountyPlans(_run: SyncRun, scope: CountyScope) {
+    const county = this.plans.get(checkpointKey(scope.state, scope.countyFips)) ?? new Map<string, PlanRecord[]>();
+    return new Map([...county].map(([planId, records]) => [
+      planId,
+      { contentHash: records[0]?.contentHash ?? null, isActive: records.some((record) => record.isActive) },
+    ]));
+  }
+
+  async savePlan(_run: SyncRun, scope: CountyScope, planId: string, records: PlanRecord[]) {
+    const key = checkpointKey(scope.state, scope.countyFips);
+    if (!this.plans.has(key)) this.plans.set(key, new Map());
+    this.plans.get(key)!.set(planId, records);
+    this.writes.push(`save ${key} ${planId}`);
+  }
+
+  async deactivatePlans(_run: SyncRun, scope: CountyScope, planIds: string[]) {
+    const key = checkpointKey(scope.state, scope.countyFips);
+    for (const planId of planIds) {
+      const records = this.plans.get(key)?.get(planId) ?? [];
+      records.forEach((record) => { record.isActive = false; });
+      this.writes.push(`deactivate ${key} ${planId}`);
+    }
+  }
+
+  async removeLegacyPlans(_run: SyncRun, scope: CountyScope) {
+    const key = checkpointKey(scope.state, scope.countyFips);
+    const rows = this.legacyRows.get(key) ?? 0;
+    this.legacyRows.delete(key);
+    if (rows > 0) this.writes.push(`remove legacy ${key}`);
+    return rows;
+  }
+
+  async saveCheckpoint(run: SyncRun) {
+    this.checkpoint = [...run.checkpoint.completedCounties];
+  }
+
+  async finishRun(_run: SyncRun, report: { errors: string[] }) {
+    this.finished = report.errors.length === 0;
+    return undefined;
+  }
+}
+
+async function sync(store: MemorySyncStore, fixture = loadFixture(), extra: SyncOptions = {}) {
+  const client = new FixtureHealthcareGovClient(fixture);
+  const result = await syncMarketplacePlans({ ...options, ...extra }, { client, store });
+  return { result, client };
+}
+
+describe('syncMarketplacePlans', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('adds every plan on the first run', async () => {
+    const store = new MemorySyncStore();
+    const { result } = await sync(store);
+
+    expect(result.success).toBe(true);
+    expect(result.plansAdded).toBe(5);
+    expect(result.report.counties.map((c) => [c.county, c.status, c.added])).toEqual([
+      ['Maricopa County', 'synced', [BRONZE, SILVER, GOLD]],
+      ['Pima County', 'synced', [BRONZE, SILVER]],
+    ]);
+    expect(store.checkpoint).toEqual([MARICOPA, PIMA]);
+
+    const records = store.plans.get(MARICOPA)!.get(SILVER)!;
+    expect(records).toHaveLength(10);
+    expect(records[0]).toMatchObject({ county: 'Maricopa County', planId: SILVER, monthlyPremium: '418.9' });
+    expect(records[0]!.contentHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test('skips unchanged plans without writing', async () => {
+    const store = new MemorySyncStore();
+    await sync(store);
+    store.writes = [];
+
+    const { result } = await sync(store);
+
+    expect(result.report.totals).toMatchObject({ added: 0, updated: 0, unchanged: 5, removed: 0, countiesSynced: 2 });
+    expect(store.writes).toEqual([]);
+  });
+
+  test('rewrites plans whose content changed', async () => {
+    const store = new MemorySyncStore();
+    await sync(store);
+    store.writes = [];
+
+    const fixture = loadFixture();
+    fixture.planSearches['AZ:04019:2025:0']!.plans[1]!.premium = 412.5;
+    const { result } = await sync(store, fixture);
+
+    expect(result.plansUpdated).toBe(1);
+    expect(result.report.counties[1]!.updated).toEqual([SILVER]);
+    expect(store.writes).toEqual([`save ${PIMA} ${SILVER}`]);
+    expect(store.plans.get(PIMA)!.get(SILVER)![0]!.monthlyPremium).toBe('412.5');
+  });
+
+  test('marks plans that disappeared as inactive and re-adds them when they return', async () => {
+    const store = new MemorySyncStore();
+    await sync(store);
+
+    const withoutGold = loadFixture();
+    const maricopa = withoutGold.planSearches['AZ:04013:2025:0']!;
+    maricopa.plans = maricopa.plans.filter((plan) => plan.id !== GOLD);
+    maricopa.total = 2;
+
+    const { result } = await sync(store, withoutGold);
+    expect(result.plansRemoved).toBe(1);
+    expect(result.report.counties[0]!.removed).toEqual([GOLD]);
+    expect(store.plans.get(MARICOPA)!.get(GOLD)!.every((record) => record.isActive === false)).toBe(true);
+
+    const { result: again } = await sync(store);
+    expect(again.report.counties[0]).toMatchObject({ added: [GOLD], removed: [] });
+    expect(store.plans.get(MARICOPA)!.get(GOLD)![0]!.isActive).toBe(true);
+  });
+
+  test('replaces rows synced before plan IDs were recorded', async () => {
+    const store = new MemorySyncStore();
+    store.legacyRows.set(MARICOPA, 30);
+
+    const { result } = await sync(store);
+
+    expect(result.report.counties.map((c) => [c.county, c.legacyRowsRemoved, c.added.length])).toEqual([
+      ['Maricopa County', 30, 3],
+      ['Pima County', 0, 2],
+    ]);
+    expect(store.writes[0]).toBe(`remove legacy ${MARICOPA}`);
+    expect(store.legacyRows.size).toBe(0);
+
+    store.writes = [];
+    const { result: again } = await sync(store);
+    expect(again.report.counties[0]).toMatchObject({ legacyRowsRemoved: 0, unchanged: [BRONZE, SILVER, GOLD] });
+    expect(store.writes).toEqual([]);
+  });
+
+  test('follows pagination', async () => {
+    const fixture = loadFixture();
+    const maricopa = fixture.planSearches['AZ:04013:2025:0']!;
+    const plans = maricopa.plans;
+    const filler = Array.from({ length: 99 }, (_, i) => ({ ...plans[0]!, id: `91450AZ00900${String(i).padStart(2, '0')}` }));
+    fixture.planSearches['AZ:04013:2025:0'] = { ...maricopa, total: 102, plans: [...plans.slice(0, 1), ...filler] };
+    fixture.planSearches['AZ:04013:2025:100'] = { ...maricopa, total: 102, offset: 100, plans: plans.slice(1) };
+
+    const { result, client } = await sync(new MemorySyncStore(), fixture);
+
+    expect(result.report.counties[0]!.added).toHaveLength(102);
+    expect(client.calls.filter((call) => call.method === 'searchPlans').map((call) => call.key))
+      .toEqual(['AZ:04013:2025:0', 'AZ:04013:2025:100', 'AZ:04019:2025:0']);
+  });
+
+  test('resumes an interrupted sync from the last completed county', async () => {
+    const store = new MemorySyncStore();
+    const partial = loadFixture();
+    delete partial.planSearches['AZ:04019:2025:0'];
+
+    const { result: failed } = await sync(store, partial);
+    expect(failed.success).toBe(false);
+    expect(failed.report.counties[1]).toMatchObject({ status: 'failed', error: expect.stringContaining('Pima County') });
+    expect(store.checkpoint).toEqual([MARICOPA]);
+
+    const { result, client } = await sync(store, loadFixture(), { resume: true });
+
+    expect(result.success).toBe(true);
+    expect(result.report.resumed).toBe(true);
+    expect(result.report.counties.map((c) => c.status)).toEqual(['skipped', 'synced']);
+    expect(result.plansAdded).toBe(2);
+    expect(client.calls.filter((call) => call.method === 'searchPlans').map((call) => call.key))
+      .toEqual(['AZ:04019:2025:0']);
+    expect(store.checkpoint).toEqual([MARICOPA, PIMA]);
+  });
+
+  test('reports changes without writing in dry runs', async () => {
+    const store = new MemorySyncStore();
+    store.startRun = async () => ({ versionId: null, readVersionId: null, importId: null, checkpoint: { completedCounties: [] }, resumed: false });
+
+    const { result } = await sync(store, loadFixture(), { dryRun: true });
+
+    expect(result.report).toMatchObject({ dryRun: true, dataVersionId: null, totals: { added: 5 } });
+    expect(store.writes).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Recorded Healthcare.gov Responses
+ * Record the API responses a sync makes and replay them offline, for tests
+ * and for re-running a sync without an API key.
+ */
+
+import type { MarketplaceSyncClient } from './sync';
+import type { CountyResponse, PlanSearchRequest, PlanSearchResponse } from './types';
+
+export interface MarketplaceFixture {
+  version: 1;
+  recordedAt?: string;
+  countiesByZip: Record<string, CountyResponse>;
+  planSearches: Record<string, PlanSearchResponse>; // Keyed by planSearchKey
+}
+
+export type FixtureCall =
+  | { method: 'getCountiesByZip'; key: string }
+  | { method: 'searchPlans'; key: string };
+
+/**
+ * Fixture key for a plan search: state, county, year and page offset
+ */
+export function planSearchKey(request: PlanSearchRequest): string {
+  return `${request.place.state}:${request.place.countyfips}:${request.year ?? ''}:${request.offset ?? 0}`;
+}
+
+/**
+ * Replays recorded responses; requests that were not recorded fail like an
+ * API error would
+ */
+export class FixtureHealthcareGovClient implements MarketplaceSyncClient {
+  readonly calls: FixtureCall[] = [];
+
+  constructor(private fixture: MarketplaceFixture) {}
+
+  async getCountiesByZip(zipcode: string): Promise<CountyResponse> {
+    this.calls.push({ method: 'getCountiesByZip', key: zipcode });
+    const response = this.fixture.countiesByZip[zipcode];
+    if (!response) throw new Error(`No recorded counties for ZIP ${zipcode}`);
+    return JSON.parse(JSON.stringify(response));
+  }
+
+  async searchPlans(request: PlanSearchRequest): Promise<PlanSearchResponse> {
+    const key = planSearchKey(request);
+    this.calls.push({ method: 'searchPlans', key });
+    const response = this.fixture.planSearches[key];
+    if (!response) throw new Error(`No recorded plan search for ${key}`);
+    return JSON.parse(JSON.stringify(response));
+  }
+}
+
+/**
+ * Passes requests through to a live client and keeps the responses
+ */
+export class RecordingHealthcareGovClient implements MarketplaceSyncClient {
+  private countiesByZip: MarketplaceFixture['countiesByZip'] = {};
+  private planSearches: MarketplaceFixture['planSearches'] = {};
+
+  constructor(private client: MarketplaceSyncClient) {}
+
+  async getCountiesByZip(zipcode: string): Promise<CountyResponse> {
+    const response = await this.client.getCountiesByZip(zipcode);
+    this.countiesByZip[zipcode] = response;
+    return response;
+  }
+
+  async searchPlans(request: PlanSearchRequest): Promise<PlanSearchResponse> {
+    const response = await this.client.searchPlans(request);
+    this.planSearches[planSearchKey(request)] = response;
+    return response;
+  }
+
+  toFixture(): MarketplaceFixture {
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      countiesByZip: this.countiesByZip,
+      planSearches: this.planSearches,
+    };
+  }
+}
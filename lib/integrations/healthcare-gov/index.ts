@@ -5,4 +5,17 @@
 
 export * from './client';
 export * from './types';
-export { syncMarketplacePlans } from './sync';
+export {
+  syncMarketplacePlans,
+  type CountyChangeReport,
+  type MarketplaceSyncClient,
+  type SyncChangeReport,
+  type SyncOptions,
+  type SyncResult,
+} from './sync';
+export {
+  FixtureHealthcareGovClient,
+  RecordingHealthcareGovClient,
+  planSearchKey,
+  type MarketplaceFixture,
+} from './fixture-client';
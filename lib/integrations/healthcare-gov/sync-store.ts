@@ -0,0 +1,225 @@
+/**
+ * Healthcare.gov Sync Store
+ * Persists synced plans, checkpoints and import history for
+ * syncMarketplacePlans. The sync itself only talks to the PlanSyncStore
+ * interface, so tests can run it against an in-memory store.
+ */
+
+import { getDb } from '../../../db/client';
+import { acaPlans } from '../../../db/schema/insurance-costs';
+import { and, eq, inArray, isNotNull, isNull } from 'drizzle-orm';
+import {
+  createDraftVersion,
+  finishDataImport,
+  getActiveDataVersionId,
+  listIncompleteImports,
+  reopenDataImport,
+  startDataImport,
+  updateDataImportMetadata,
+  versionScope,
+  type DataValidationResult,
+} from '../../data-import/data-versions';
+import { validateImportedData } from '../../data-import/cms-importer';
+import type { SyncChangeReport } from './sync';
+
+export const SYNC_DATA_SOURCE = 'Healthcare.gov API';
+
+export type PlanRecord = typeof acaPlans.$inferInsert;
+
+export interface SyncRunOptions {
+  states: string[];
+  year: number;
+  clearExisting?: boolean;
+  dryRun?: boolean;
+  versionId?: string;
+  resume?: boolean;
+}
+
+export interface SyncCheckpoint {
+  completedCounties: string[]; // 'STATE:FIPS' keys of fully synced counties
+}
+
+export interface SyncRun {
+  versionId: string | null; // Draft being written (null for dry runs)
+  readVersionId: string | null; // Version plans are compared against
+  importId: string | null;
+  checkpoint: SyncCheckpoint;
+  resumed: boolean;
+}
+
+export interface CountyScope {
+  state: string;
+  countyFips: string;
+  county: string;
+  year: number;
+}
+
+export interface StoredPlan {
+  contentHash: string | null;
+  isActive: boolean;
+}
+
+export interface PlanSyncStore {
+  /** Start a new sync, or pick up the latest unfinished one when resuming */
+  startRun(options: SyncRunOptions): Promise<SyncRun>;
+  /** Plans previously synced for a county, keyed by Healthcare.gov plan ID */
+  loadCountyPlans(run: SyncRun, scope: CountyScope): Promise<Map<string, StoredPlan>>;
+  /** Replace a plan's records for a county */
+  savePlan(run: SyncRun, scope: CountyScope, planId: string, records: PlanRecord[]): Promise<void>;
+  /** Mark plans no longer offered in a county as inactive */
+  deactivatePlans(run: SyncRun, scope: CountyScope, planIds: string[]): Promise<void>;
+  /**
+   * Delete a county's rows synced before plan IDs were recorded; they can't
+   * be matched to API plans, so the sync replaces them. Returns rows deleted.
+   */
+  removeLegacyPlans(run: SyncRun, scope: CountyScope): Promise<number>;
+  saveCheckpoint(run: SyncRun): Promise<void>;
+  /** Record the outcome and validate the draft */
+  finishRun(run: SyncRun, report: SyncChangeReport): Promise<DataValidationResult | undefined>;
+}
+
+export function checkpointKey(state: string, countyFips: string): string {
+  return `${state}:${countyFips}`;
+}
+
+interface SyncImportMetadata {
+  checkpoint?: SyncCheckpoint;
+}
+
+/**
+ * Store backed by aca_plans and data_imports
+ *
+ * Live runs write to a draft aca_plans version; the checkpoint lives in the
+ * import record's metadata so a failed or interrupted run can be resumed.
+ */
+export function createDatabaseSyncStore(): PlanSyncStore {
+  const countyConditions = (versionId: string | null, scope: CountyScope) => and(
+    versionScope(acaPlans.dataVersionId, versionId),
+    eq(acaPlans.dataSource, SYNC_DATA_SOURCE),
+    eq(acaPlans.state, scope.state),
+    eq(acaPlans.county, scope.county),
+    eq(acaPlans.planYear, scope.year)
+  );
+
+  return {
+    async startRun(options) {
+      if (options.dryRun) {
+        const activeVersionId = await getActiveDataVersionId('aca_plans');
+        return { versionId: null, readVersionId: activeVersionId, importId: null, checkpoint: { completedCounties: [] }, resumed: false };
+      }
+
+      if (options.resume) {
+        const previous = (await listIncompleteImports(SYNC_DATA_SOURCE)).find((dataImport) =>
+          (dataImport.importParams as { year?: number } | null)?.year === options.year
+        );
+
+        if (previous?.dataVersionId) {
+          await reopenDataImport(previous.importId);
+          const metadata = (previous.metadata ?? {}) as SyncImportMetadata;
+          return {
+            versionId: previous.dataVersionId,
+            readVersionId: previous.dataVersionId,
+            importId: previous.importId,
+            checkpoint: { completedCounties: metadata.checkpoint?.completedCounties ?? [] },
+            resumed: true,
+          };
+        }
+
+        console.log(`No unfinished ${options.year} sync to resume; starting a new one\n`);
+      }
+
+      // Write to a draft version; live data is untouched until it is activated
+      const versionId = options.versionId ?? (await createDraftVersion('aca_plans', {
+        description: `Healthcare.gov sync ${options.year}`,
+        affectedStates: options.states,
+      })).versionId;
+      const importId = await startDataImport({
+        importName: `Healthcare.gov marketplace sync ${options.year}`,
+        dataSource: SYNC_DATA_SOURCE,
+        versionId,
+        targetTables: ['aca_plans'],
+        importParams: { states: options.states, year: options.year, clearExisting: options.clearExisting ?? false },
+        importMethod: 'api',
+      });
+
+      if (options.clearExisting) {
+        console.log('🗑️  Clearing existing ACA plans from the draft...');
+        await getDb().delete(acaPlans).where(and(eq(acaPlans.planYear, options.year), eq(acaPlans.dataVersionId, versionId)));
+        console.log('✓ Cleared existing plans\n');
+      }
+
+      return { versionId, readVersionId: versionId, importId, checkpoint: { completedCounties: [] }, resumed: false };
+    },
+
+    async loadCountyPlans(run, scope) {
+      const rows = await getDb()
+        .selectDistinct({ planId: acaPlans.planId, contentHash: acaPlans.contentHash, isActive: acaPlans.isActive })
+        .from(acaPlans)
+        .where(and(countyConditions(run.readVersionId, scope), isNotNull(acaPlans.planId)));
+
+      const plans = new Map<string, StoredPlan>();
+      for (const row of rows) {
+        const existing = plans.get(row.planId!);
+        plans.set(row.planId!, {
+          contentHash: row.contentHash,
+          isActive: (existing?.isActive ?? false) || (row.isActive ?? false),
+        });
+      }
+      return plans;
+    },
+
+    async savePlan(run, scope, planId, records) {
+      if (!run.versionId) return;
+      const versionId = run.versionId;
+
+      await getDb().transaction(async (tx) => {
+        await tx.delete(acaPlans).where(and(countyConditions(versionId, scope), eq(acaPlans.planId, planId)));
+        if (records.length > 0) {
+          await tx.insert(acaPlans).values(records.map((record) => ({ ...record, dataVersionId: versionId })));
+        }
+      });
+    },
+
+    async deactivatePlans(run, scope, planIds) {
+      if (!run.versionId || planIds.length === 0) return;
+
+      await getDb()
+        .update(acaPlans)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(countyConditions(run.versionId, scope), inArray(acaPlans.planId, planIds)));
+    },
+
+    async removeLegacyPlans(run, scope) {
+      if (!run.versionId) return 0;
+
+      const deleted = await getDb()
+        .delete(acaPlans)
+        .where(and(countyConditions(run.versionId, scope), isNull(acaPlans.planId)))
+        .returning({ id: acaPlans.id });
+      return deleted.length;
+    },
+
+    async saveCheckpoint(run) {
+      if (!run.importId) return;
+      await updateDataImportMetadata(run.importId, { checkpoint: run.checkpoint });
+    },
+
+    async finishRun(run, report) {
+      if (!run.importId || !run.versionId) return undefined;
+
+      const { totals } = report;
+      await updateDataImportMetadata(run.importId, { checkpoint: run.checkpoint, changes: totals });
+      await finishDataImport(run.importId, {
+        rowsProcessed: totals.added + totals.updated + totals.unchanged + totals.removed,
+        rowsImported: totals.added + totals.updated,
+        rowsSkipped: totals.unchanged,
+        warnings: report.errors,
+        // A failed import stays resumable with --resume
+        error: report.errors.length > 0 ? new Error(`${report.errors.length} errors during sync`) : undefined,
+      });
+
+      console.log('');
+      return validateImportedData(run.versionId);
+    },
+  };
+}
@@ -1,63 +1,156 @@
 /**
  * Healthcare.gov Marketplace API Data Sync Service
  * Syncs live plan data from Healthcare.gov into local database
+ *
+ * Each live run writes to a draft aca_plans data version that goes live only
+ * when activated (npm run data:activate).
+ *
+ * Syncs are incremental:
+ * - Progress is checkpointed per county; an interrupted or failed sync
+ *   continues where it stopped with { resume: true }
+ * - Each plan's content is hashed and unchanged plans are not rewritten
+ * - Plans no longer offered in a county are marked inactive
+ * - Every run returns a machine-readable change report
  */
 
-import { createHealthcareGovClient } from './client';
+import { createHash } from 'crypto';
+import { createHealthcareGovClient, type HealthcareGovClient } from './client';
 import type { Plan, Place, PlanSearchRequest } from './types';
-import { getDb } from '../../../db/client';
-import { acaPlans } from '../../../db/schema/insurance-costs';
-import { eq } from 'drizzle-orm';
+import type { DataValidationResult } from '../../data-import/data-versions';
+import {
+  checkpointKey,
+  createDatabaseSyncStore,
+  SYNC_DATA_SOURCE,
+  type CountyScope,
+  type PlanRecord,
+  type PlanSyncStore,
+  type SyncRun,
+} from './sync-store';
 
 export interface SyncOptions {
   states?: string[]; // State codes to sync (defaults to all seeded states)
   year?: number; // Plan year (defaults to current year)
-  clearExisting?: boolean; // Clear existing plans before syncing
+  clearExisting?: boolean; // Clear the draft's plans for the year before syncing
   dryRun?: boolean; // Don't write to database, just log
+  versionId?: string; // Existing draft version to write to (defaults to a new draft)
+  resume?: boolean; // Continue the latest unfinished sync for the year
+  requestDelayMs?: number; // Pause between counties to respect rate limits (default 1000)
 }
 
-interface SyncResult {
+/** The parts of the Healthcare.gov client a sync uses */
+export type MarketplaceSyncClient = Pick<HealthcareGovClient, 'searchPlans' | 'getCountiesByZip'>;
+
+export interface SyncDependencies {
+  client?: MarketplaceSyncClient; // Defaults to the live API client
+  store?: PlanSyncStore; // Defaults to the database
+}
+
+export interface CountyChangeReport {
+  state: string;
+  countyFips: string;
+  county: string;
+  status: 'synced' | 'skipped' | 'failed'; // skipped: already synced before a resume
+  added: string[]; // Healthcare.gov plan IDs
+  updated: string[];
+  unchanged: string[];
+  removed: string[];
+  legacyRowsRemoved: number; // Rows from syncs before plan IDs were recorded, replaced by this run
+  error?: string;
+}
+
+export interface SyncChangeReport {
+  year: number;
+  dataVersionId: string | null;
+  dryRun: boolean;
+  resumed: boolean;
+  startedAt: string;
+  completedAt: string;
+  counties: CountyChangeReport[];
+  totals: {
+    added: number;
+    updated: number;
+    unchanged: number;
+    removed: number;
+    countiesSynced: number;
+    countiesSkipped: number;
+    countiesFailed: number;
+  };
+  errors: string[];
+}
+
+export interface SyncResult {
   success: boolean;
   plansAdded: number;
   plansUpdated: number;
+  plansUnchanged: number;
+  plansRemoved: number;
   errors: string[];
   duration: number;
+  dataVersionId?: string; // Draft version holding the synced plans
+  validation?: DataValidationResult;
+  report: SyncChangeReport;
 }
 
+const DEFAULT_STATES = ['CA', 'FL', 'TX', 'NY', 'AZ'];
+const PLAN_PAGE_SIZE = 100;
+
 /**
  * Sync marketplace plans from Healthcare.gov API to database
  */
 export async function syncMarketplacePlans(
-  options: SyncOptions = {}
+  options: SyncOptions = {},
+  deps: SyncDependencies = {}
 ): Promise<SyncResult> {
   const startTime = Date.now();
+  const statesToSync = options.states || DEFAULT_STATES;
+  const year = options.year || new Date().getFullYear();
+  const requestDelayMs = options.requestDelayMs ?? 1000;
+
+  const report: SyncChangeReport = {
+    year,
+    dataVersionId: null,
+    dryRun: options.dryRun ?? false,
+    resumed: false,
+    startedAt: new Date(startTime).toISOString(),
+    completedAt: '',
+    counties: [],
+    totals: { added: 0, updated: 0, unchanged: 0, removed: 0, countiesSynced: 0, countiesSkipped: 0, countiesFailed: 0 },
+    errors: [],
+  };
   const result: SyncResult = {
     success: true,
     plansAdded: 0,
     plansUpdated: 0,
-    errors: [],
+    plansUnchanged: 0,
+    plansRemoved: 0,
+    errors: report.errors,
     duration: 0,
+    report,
   };
 
+  const store = deps.store ?? createDatabaseSyncStore();
+  let run: SyncRun | undefined;
+
   try {
     console.log('🏥 Starting Healthcare.gov marketplace data sync...\n');
 
     // Initialize API client
-    const client = createHealthcareGovClient();
-    const db = getDb();
-
-    // Determine states to sync
-    const statesToSync = options.states || ['CA', 'FL', 'TX', 'NY', 'AZ'];
-    const year = options.year || new Date().getFullYear();
+    const client = deps.client ?? createHealthcareGovClient();
 
     console.log(`📅 Syncing ${year} plans for states: ${statesToSync.join(', ')}\n`);
 
-    // Clear existing plans if requested
-    if (options.clearExisting && !options.dryRun) {
-      console.log('🗑️  Clearing existing ACA plans...');
-      await db.delete(acaPlans).where(eq(acaPlans.planYear, year));
-      console.log('✓ Cleared existing plans\n');
+    run = await store.startRun({ ...options, states: statesToSync, year });
+    report.dataVersionId = run.versionId;
+    report.resumed = run.resumed;
+    if (run.versionId) {
+      result.dataVersionId = run.versionId;
+      console.log(`📦 Writing to draft data version ${run.versionId}\n`);
     }
+    if (run.resumed) {
+      console.log(`⏩ Resuming: ${run.checkpoint.completedCounties.length} counties already synced\n`);
+    }
+
+    const completed = new Set(run.checkpoint.completedCounties);
 
     // Sync each state
     for (const stateCode of statesToSync) {
@@ -68,81 +161,96 @@ export async function syncMarketplacePlans(
         const counties = await getStateCounties(client, stateCode);
         console.log(`  Found ${counties.length} counties`);
 
-        let statePlansAdded = 0;
-
         // Sample a few representative counties (to avoid rate limiting)
         const sampleCounties = counties.slice(0, 3);
 
         for (const county of sampleCounties) {
+          const key = checkpointKey(stateCode, county.fips);
+          const countyReport: CountyChangeReport = {
+            state: stateCode,
+            countyFips: county.fips,
+            county: county.name,
+            status: 'synced',
+            added: [],
+            updated: [],
+            unchanged: [],
+            removed: [],
+            legacyRowsRemoved: 0,
+          };
+          report.counties.push(countyReport);
+
+          if (completed.has(key)) {
+            countyReport.status = 'skipped';
+            console.log(`    ${county.name}: already synced, skipping`);
+            continue;
+          }
+
           try {
-            // Search plans for this county
             const place: Place = {
               state: stateCode,
               countyfips: county.fips,
               zipcode: county.zipcode || '00000',
             };
 
-            const searchRequest: PlanSearchRequest = {
-              market: 'Individual',
-              place,
-              year,
-              limit: 100,
-            };
-
-            const searchResult = await client.searchPlans(searchRequest);
-            console.log(`    ${county.name}: ${searchResult.plans.length} plans found`);
-
-            // Convert and store plans
-            for (const apiPlan of searchResult.plans) {
-              const planRecords = convertAPIPlantoDatabaseRecords(
-                apiPlan,
-                place,
-                year
-              );
-
-              if (!options.dryRun) {
-                for (const record of planRecords) {
-                  await db.insert(acaPlans).values(record).onConflictDoNothing();
-                  result.plansAdded++;
-                  statePlansAdded++;
-                }
-              } else {
-                result.plansAdded += planRecords.length;
-              }
-            }
+            await syncCounty(client, store, run, { state: stateCode, countyFips: county.fips, county: county.name, year }, place, countyReport);
 
-            // Rate limiting: wait 1 second between counties
-            await new Promise(resolve => setTimeout(resolve, 1000));
+            // Checkpoint only fully synced counties
+            run.checkpoint.completedCounties.push(key);
+            completed.add(key);
+            await store.saveCheckpoint(run);
 
+            console.log(`    ${county.name}: ${countyReport.added.length} added, ${countyReport.updated.length} updated, ${countyReport.unchanged.length} unchanged, ${countyReport.removed.length} removed`);
+            if (countyReport.legacyRowsRemoved > 0) {
+              console.log(`      Replaced ${countyReport.legacyRowsRemoved} rows synced before plan IDs were recorded`);
+            }
           } catch (_error) {
             const errorMsg = `Error syncing ${county.name}: ${_error instanceof Error ? _error.message : 'Unknown error'}`;
             console.error(`    ❌ ${errorMsg}`);
+            countyReport.status = 'failed';
+            countyReport.error = errorMsg;
             result.errors.push(errorMsg);
           }
+
+          // Rate limiting: wait between counties
+          if (requestDelayMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, requestDelayMs));
+          }
         }
 
-        console.log(`  ✓ Synced ${statePlansAdded} plan records for ${stateCode}\n`);
+        console.log(`  ✓ Synced ${stateCode}\n`);
 
       } catch (error) {
         const errorMsg = `Error syncing state ${stateCode}: ${error instanceof Error ? error.message : 'Unknown error'}`;
         console.error(`❌ ${errorMsg}\n`);
         result.errors.push(errorMsg);
-        result.success = false;
       }
     }
 
+    summarizeReport(result);
+    result.success = result.errors.length === 0;
+    result.validation = await store.finishRun(run, report);
+
     result.duration = Date.now() - startTime;
 
     console.log('\n📊 Sync Summary:');
     console.log(`  Plans Added: ${result.plansAdded}`);
     console.log(`  Plans Updated: ${result.plansUpdated}`);
+    console.log(`  Plans Unchanged: ${result.plansUnchanged}`);
+    console.log(`  Plans Removed: ${result.plansRemoved}`);
+    console.log(`  Counties: ${report.totals.countiesSynced} synced, ${report.totals.countiesSkipped} skipped, ${report.totals.countiesFailed} failed`);
     console.log(`  Errors: ${result.errors.length}`);
     console.log(`  Duration: ${(result.duration / 1000).toFixed(2)}s`);
     console.log(`  Mode: ${options.dryRun ? 'DRY RUN' : 'LIVE'}`);
+    if (run.versionId) {
+      console.log(`  Draft Version: ${run.versionId}`);
+    }
 
     if (result.errors.length > 0) {
       console.log('\n⚠️  Errors encountered:');
       result.errors.forEach(err => console.log(`  - ${err}`));
+      if (run.importId) {
+        console.log('\nRe-run with --resume to retry the remaining counties');
+      }
     }
 
     return result;
@@ -151,16 +259,125 @@ export async function syncMarketplacePlans(
     result.success = false;
     result.duration = Date.now() - startTime;
     result.errors.push(error instanceof Error ? error.message : 'Unknown error');
-    console.error('\n❌ Sync failed:', result.errors[0]);
+    summarizeReport(result);
+    console.error('\n❌ Sync failed:', result.errors[result.errors.length - 1]);
+    if (run) {
+      await store.finishRun(run, report).catch(() => undefined);
+    }
     return result;
   }
 }
 
+/**
+ * Sync one county: add new plans, rewrite changed ones and deactivate plans
+ * that are no longer offered
+ */
+async function syncCounty(
+  client: MarketplaceSyncClient,
+  store: PlanSyncStore,
+  run: SyncRun,
+  scope: CountyScope,
+  place: Place,
+  countyReport: CountyChangeReport
+): Promise<void> {
+  const apiPlans = await fetchCountyPlans(client, place, scope.year);
+  const storedPlans = await store.loadCountyPlans(run, scope);
+  const seen = new Set<string>();
+
+  if (run.versionId) {
+    countyReport.legacyRowsRemoved = await store.removeLegacyPlans(run, scope);
+  }
+
+  for (const apiPlan of apiPlans) {
+    if (seen.has(apiPlan.id)) continue;
+    seen.add(apiPlan.id);
+
+    const records = convertAPIPlantoDatabaseRecords(apiPlan, place, scope.county, scope.year);
+    const contentHash = hashPlanRecords(records);
+    const stored = storedPlans.get(apiPlan.id);
+
+    if (stored?.isActive && stored.contentHash === contentHash) {
+      countyReport.unchanged.push(apiPlan.id);
+      continue;
+    }
+
+    // Plans that come back after being deactivated count as added
+    countyReport[stored?.isActive ? 'updated' : 'added'].push(apiPlan.id);
+    if (run.versionId) {
+      await store.savePlan(run, scope, apiPlan.id, records.map(record => ({ ...record, contentHash })));
+    }
+  }
+
+  const removed = [...storedPlans]
+    .filter(([planId, stored]) => stored.isActive && !seen.has(planId))
+    .map(([planId]) => planId);
+  countyReport.removed.push(...removed);
+  if (run.versionId && removed.length > 0) {
+    await store.deactivatePlans(run, scope, removed);
+  }
+}
+
+/**
+ * Fetch every plan offered in a county, following pagination
+ */
+async function fetchCountyPlans(client: MarketplaceSyncClient, place: Place, year: number): Promise<Plan[]> {
+  const plans: Plan[] = [];
+
+  for (let offset = 0; ; offset += PLAN_PAGE_SIZE) {
+    const searchRequest: PlanSearchRequest = {
+      market: 'Individual',
+      place,
+      year,
+      limit: PLAN_PAGE_SIZE,
+      offset,
+    };
+
+    const searchResult = await client.searchPlans(searchRequest);
+    plans.push(...searchResult.plans);
+
+    if (searchResult.plans.length < PLAN_PAGE_SIZE || plans.length >= searchResult.total) {
+      return plans;
+    }
+  }
+}
+
+/**
+ * Fill in the counts and totals from the per-county entries
+ */
+function summarizeReport(result: SyncResult): void {
+  const { report } = result;
+  const count = (key: 'added' | 'updated' | 'unchanged' | 'removed') =>
+    report.counties.reduce((sum, county) => sum + county[key].length, 0);
+
+  report.totals = {
+    added: count('added'),
+    updated: count('updated'),
+    unchanged: count('unchanged'),
+    removed: count('removed'),
+    countiesSynced: report.counties.filter(county => county.status === 'synced').length,
+    countiesSkipped: report.counties.filter(county => county.status === 'skipped').length,
+    countiesFailed: report.counties.filter(county => county.status === 'failed').length,
+  };
+  report.completedAt = new Date().toISOString();
+
+  result.plansAdded = report.totals.added;
+  result.plansUpdated = report.totals.updated;
+  result.plansUnchanged = report.totals.unchanged;
+  result.plansRemoved = report.totals.removed;
+}
+
+/**
+ * SHA-256 of a plan's converted records, used to skip unchanged plans
+ */
+export function hashPlanRecords(records: PlanRecord[]): string {
+  return createHash('sha256').update(JSON.stringify(records)).digest('hex');
+}
+
 /**
  * Get counties for a state
  */
 async function getStateCounties(
-  client: ReturnType<typeof createHealthcareGovClient>,
+  client: MarketplaceSyncClient,
   stateCode: string
 ): Promise<Array<{ fips: string; name: string; zipcode?: string }>> {
   // Sample ZIP codes for each state to find counties
@@ -204,51 +421,10 @@ async function getStateCounties(
 function convertAPIPlantoDatabaseRecords(
   apiPlan: Plan,
   place: Place,
+  countyName: string,
   year: number
-): Array<{
-  state: string;
-  county: string;
-  ratingArea: string;
-  zipCode: string;
-  metalTier: string;
-  planType: string;
-  carrier: string;
-  planName: string;
-  age: number;
-  monthlyPremium: string;
-  tobaccoSurcharge: string;
-  deductible: string;
-  oopMaximum: string;
-  primaryCareVisit: string;
-  specialistVisit: string;
-  networkTier: string;
-  nationalNetwork: boolean;
-  planYear: number;
-  dataSource: string;
-  isActive: boolean;
-}> {
-  const records: Array<{
-    state: string;
-    county: string;
-    ratingArea: string;
-    zipCode: string;
-    metalTier: string;
-    planType: string;
-    carrier: string;
-    planName: string;
-    age: number;
-    monthlyPremium: string;
-    tobaccoSurcharge: string;
-    deductible: string;
-    oopMaximum: string;
-    primaryCareVisit: string;
-    specialistVisit: string;
-    networkTier: string;
-    nationalNetwork: boolean;
-    planYear: number;
-    dataSource: string;
-    isActive: boolean;
-  }> = [];
+): PlanRecord[] {
+  const records: PlanRecord[] = [];
 
   // Sample ages for premium calculation (Healthcare.gov uses age rating)
   const sampleAges = [21, 25, 30, 35, 40, 45, 50, 55, 60, 64];
@@ -271,13 +447,14 @@ function convertAPIPlantoDatabaseRecords(
   for (const age of sampleAges) {
     records.push({
       state: place.state,
-      county: '', // Would need to look up county name from FIPS
+      county: countyName,
       ratingArea: '', // Would need to call getRateArea API
       zipCode: place.zipcode,
       metalTier: apiPlan.metal_level,
       planType: apiPlan.type,
       carrier: apiPlan.issuer?.name || '',
       planName: apiPlan.name,
+      planId: apiPlan.id,
       age,
       monthlyPremium: basePremium.toString(),
       tobaccoSurcharge: '0', // Would need state-specific logic
@@ -288,7 +465,7 @@ function convertAPIPlantoDatabaseRecords(
       networkTier: apiPlan.has_national_network ? 'Broad' : 'Medium',
       nationalNetwork: apiPlan.has_national_network || false,
       planYear: year,
-      dataSource: 'Healthcare.gov API',
+      dataSource: SYNC_DATA_SOURCE,
       isActive: true,
     });
   }
@@ -98,6 +98,8 @@ export function validateCalculatorFormData(data: unknown): data is CalculatorFor
 
   // Check employment & coverage fields
   if (typeof formData.employerContribution !== 'number') return false;
+  if (formData.taxHouseholds !== undefined && !Array.isArray(formData.taxHouseholds)) return false;
+  if (formData.incomeProfile !== undefined && (typeof formData.incomeProfile !== 'object' || formData.incomeProfile === null)) return false;
 
   // Check health profile fields
   if (!Array.isArray(formData.chronicConditions)) return false;
@@ -6,6 +6,8 @@
  */
 
 import { logger } from '@/lib/logger';
+import { isOfflineDataMode } from '@/lib/data-pack/pack';
+import { searchProvidersInDataPack } from '@/lib/data-pack/actions';
 
 // NPPES API Base URL
 const NPPES_API_BASE = 'https://npiregistry.cms.hhs.gov/api/';
@@ -156,6 +158,10 @@ export interface Provider {
 export async function searchProviders(
   params: ProviderSearchParams
 ): Promise<{ providers: Provider[]; totalCount: number }> {
+  if (isOfflineDataMode()) {
+    return searchProvidersInDataPack(params);
+  }
+
   try {
     // Build query parameters
     const queryParams = new URLSearchParams();
@@ -0,0 +1,117 @@
+/**
+ * Plan Proposal Tests
+ */
+
+import { buildProposal, marketplacePlanToPlanDetails } from '../proposal';
+import type { MarketplacePlan } from '@/lib/healthcareGovApi';
+
+const createPlan = (
+  id: string,
+  metal: MarketplacePlan['metal_level'],
+  premium: number,
+  deductible: number,
+  moop: number
+): MarketplacePlan => ({
+  id,
+  name: `${metal} ${id}`,
+  issuer: { name: 'Blue Cross', id: 'issuer_1' },
+  type: 'hmo',
+  metal_level: metal,
+  premium,
+  premium_w_credit: premium - 200,
+  deductibles: [{ amount: deductible, family_cost: 'Individual', individual: { amount: deductible, display_string: '' } }],
+  moops: [{ amount: moop, family_cost: 'Individual', individual: { amount: moop, display_string: '' } }],
+  benefits: [
+    {
+      name: 'Primary Care Visit to Treat an Injury or Illness',
+      covered: true,
+      cost_sharings: [{ coinsurance_rate: 0, copay_amount: 30, display_string: '$30' }],
+    },
+    {
+      name: 'Inpatient Hospital Services (e.g., Hospital Stay)',
+      covered: true,
+      cost_sharings: [{ coinsurance_rate: 0.3, copay_amount: 0, display_string: '30%' }],
+    },
+  ],
+  quality_rating: { available: true, year: 2026, global_rating: 4, global_not_rated_reason: null },
+  has_national_network: false,
+  disease_mgmt_programs: [],
+});
+
+const bronze = createPlan('bronze_1', 'Bronze', 450, 7500, 9200);
+const silver = createPlan('silver_1', 'Silver', 560, 4000, 8000);
+const gold = createPlan('gold_1', 'Gold', 680, 1500, 6000);
+
+describe('Plan Proposal', () => {
+  describe('marketplacePlanToPlanDetails', () => {
+    it('maps marketplace fields to comparison details', () => {
+      const details = marketplacePlanToPlanDetails(silver);
+
+      expect(details).toMatchObject({
+        id: 'silver_1',
+        type: 'HMO',
+        metalLevel: 'silver',
+        issuer: 'Blue Cross',
+        monthlyPremium: 560,
+        monthlyPremiumAfterSubsidy: 360,
+        deductible: 4000,
+        outOfPocketMax: 8000,
+        primaryCareCopay: 30,
+        coinsurance: 30,
+        qualityRating: 4,
+      });
+      expect(details.specialistCopay).toBeUndefined();
+    });
+
+    it('falls back to PPO for unknown plan types', () => {
+      expect(marketplacePlanToPlanDetails({ ...silver, type: 'Indemnity' }).type).toBe('PPO');
+    });
+  });
+
+  describe('buildProposal', () => {
+    it('compares each alternative against the recommended plan', () => {
+      const proposal = buildProposal({
+        clientName: 'Dana Reyes',
+        plans: [{ plan: bronze }, { plan: silver, commentary: '  Best balance for your usage  ' }, { plan: gold }],
+        recommendedPlanId: 'silver_1',
+        generatedAt: new Date(2026, 10, 1),
+      });
+
+      expect(proposal.planYear).toBe(2026);
+      expect(proposal.recommendedPlan.details.id).toBe('silver_1');
+      expect(proposal.recommendedPlan.commentary).toBe('Best balance for your usage');
+      expect(proposal.comparisons.map((c) => c.planId)).toEqual(['bronze_1', 'gold_1']);
+
+      const vsGold = proposal.comparisons[1]!;
+      expect(vsGold.comparison.planA.id).toBe('silver_1');
+      expect(vsGold.breakEven.plan1.monthlyPremium).toBe(360);
+      expect(vsGold.breakEven.plan2.coinsurance).toBe(0.3);
+      expect(vsGold.breakEven.costCurve.length).toBeGreaterThan(0);
+    });
+
+    it('recommends the first plan by default', () => {
+      const proposal = buildProposal({ clientName: 'Dana Reyes', plans: [{ plan: gold }, { plan: bronze }] });
+
+      expect(proposal.recommendedPlan.details.id).toBe('gold_1');
+      expect(proposal.plans.filter((p) => p.isRecommended)).toHaveLength(1);
+    });
+
+    it('requires 2 to 4 distinct plans', () => {
+      expect(() => buildProposal({ clientName: 'A', plans: [{ plan: gold }] })).toThrow('2 to 4 plans');
+      expect(() => buildProposal({
+        clientName: 'A',
+        plans: [gold, silver, bronze, createPlan('p4', 'Gold', 1, 1, 1), createPlan('p5', 'Gold', 1, 1, 1)]
+          .map((plan) => ({ plan })),
+      })).toThrow('2 to 4 plans');
+      expect(() => buildProposal({ clientName: 'A', plans: [{ plan: gold }, { plan: gold }] })).toThrow('only appear once');
+    });
+
+    it('rejects a recommended plan that is not in the proposal', () => {
+      expect(() => buildProposal({
+        clientName: 'A',
+        plans: [{ plan: gold }, { plan: bronze }],
+        recommendedPlanId: 'silver_1',
+      })).toThrow('not in the proposal');
+    });
+  });
+});
@@ -1,8 +1,21 @@
 /**
  * Reports Module
  *
- * Exports PDF generation utilities for coverage analysis reports.
+ * Exports PDF generation utilities for coverage analysis reports and
+ * broker plan proposals.
  */
 
 export { CoverageAnalysisReport, type PDFReportInput } from './pdf-document';
 export { generatePDFReport, generatePDFBlob } from './pdf-generator';
+export { PlanProposalDocument } from './proposal-document';
+export {
+  buildProposal,
+  marketplacePlanToPlanDetails,
+  MIN_PROPOSAL_PLANS,
+  MAX_PROPOSAL_PLANS,
+  type Proposal,
+  type ProposalInput,
+  type ProposalPlan,
+  type ProposalPlanInput,
+  type ProposalComparison,
+} from './proposal';
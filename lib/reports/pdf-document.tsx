@@ -15,8 +15,10 @@ import {
   Link,
   Svg,
   Circle,
+  Image,
 } from '@react-pdf/renderer';
 import type { InsuranceRecommendation, CalculatorFormData } from '@/types';
+import { formatBrandLine, getContactLines, DEFAULT_BRAND_NAME, type ReportBranding } from '@/lib/branding/branding';
 
 // Color palette matching the web app
 const colors = {
@@ -42,8 +44,33 @@ const colors = {
   },
 };
 
+export type ReportPalette = typeof colors;
+
+/**
+ * Swap the brand colors into the palette, keeping the status colors
+ */
+export function resolvePalette(branding?: ReportBranding): ReportPalette {
+  if (!branding) return colors;
+  return {
+    ...colors,
+    primary: branding.primaryColor,
+    secondary: branding.accentColor,
+    lightBlue: tint(branding.accentColor, 0.9),
+  };
+}
+
+/**
+ * Mix a hex color with white
+ */
+function tint(hex: string, amount: number): string {
+  const channels = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return `#${channels
+    .map((c) => Math.round(c + (255 - c) * amount).toString(16).padStart(2, '0'))
+    .join('')}`;
+}
+
 // Styles
-const styles = StyleSheet.create({
+export const createStyles = (colors: ReportPalette) => StyleSheet.create({
   // Page styles
   page: {
     padding: 40,
@@ -467,6 +494,8 @@ const styles = StyleSheet.create({
   },
 });
 
+const defaultStyles = createStyles(colors);
+
 // Score Circle Component
 const ScoreCircle: React.FC<{ score: number; size?: number }> = ({ score, size = 60 }) => {
   const getColor = (s: number) => {
@@ -506,9 +535,9 @@ const ScoreCircle: React.FC<{ score: number; size?: number }> = ({ score, size =
           transform={`rotate(-90 ${size / 2} ${size / 2})`}
         />
       </Svg>
-      <View style={[styles.scoreText, { top: size / 2 - 12 }]}>
-        <Text style={[styles.scoreValue, { color }]}>{score}</Text>
-        <Text style={styles.scoreLabel}>Score</Text>
+      <View style={[defaultStyles.scoreText, { top: size / 2 - 12 }]}>
+        <Text style={[defaultStyles.scoreValue, { color }]}>{score}</Text>
+        <Text style={defaultStyles.scoreLabel}>Score</Text>
       </View>
     </View>
   );
@@ -520,6 +549,8 @@ export interface PDFReportInput {
   recommendation: InsuranceRecommendation;
   generatedAt?: Date;
   fullReport?: boolean;
+  /** Broker white-label branding; defaults to Coverage Gap Analyzer styling */
+  branding?: ReportBranding;
 }
 
 // Emoji replacements for PDF
@@ -568,7 +599,16 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
   recommendation,
   generatedAt = new Date(),
   fullReport = true,
+  branding,
 }) => {
+  const colors = resolvePalette(branding);
+  const styles = branding ? createStyles(colors) : defaultStyles;
+  const brandLine = formatBrandLine(branding);
+  const contactLines = getContactLines(branding?.contact);
+  const brandMark = branding?.logoDataUrl
+    // eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image has no alt prop
+    ? <Image src={branding.logoDataUrl} style={{ height: 28, maxWidth: 140, objectFit: 'contain' }} />
+    : <Text style={styles.brandText}>{branding?.agencyName ?? DEFAULT_BRAND_NAME}</Text>;
   const cleanedActionItems = cleanActionItems(recommendation.actionItems);
 
   const formatCurrency = (amount: number) => `$${amount.toLocaleString()}`;
@@ -611,6 +651,15 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
           <Text style={{ fontSize: 10, color: colors.gray[500] }}>
             Generated {formatDate(generatedAt)}
           </Text>
+          {branding && (
+            <View style={{ marginTop: 16, alignItems: 'center' }}>
+              {branding.logoDataUrl && (
+                // eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image has no alt prop
+                <Image src={branding.logoDataUrl} style={{ height: 48, maxWidth: 200, objectFit: 'contain', marginBottom: 6 }} />
+              )}
+              <Text style={{ fontSize: 10, color: colors.gray[600] }}>Prepared by {brandLine}</Text>
+            </View>
+          )}
         </View>
 
         <View style={{ backgroundColor: colors.lightBlue, padding: 20, borderRadius: 8, marginBottom: 30 }}>
@@ -656,7 +705,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
         </View>
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Coverage Gap Analyzer | {formatDate(generatedAt)}</Text>
+          <Text style={styles.footerText}>{brandLine} | {formatDate(generatedAt)}</Text>
           <Text style={styles.pageNumber}>Page 1</Text>
         </View>
       </Page>
@@ -671,7 +720,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
               <Text style={styles.headerTitle}>Your Coverage Recommendation</Text>
               <Text style={styles.headerSubtitle}>Personalized for your household</Text>
             </View>
-            <Text style={styles.brandText}>Coverage Gap Analyzer</Text>
+            {brandMark}
           </View>
         </View>
 
@@ -784,7 +833,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
         )}
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Coverage Gap Analyzer | {formatDate(generatedAt)}</Text>
+          <Text style={styles.footerText}>{brandLine} | {formatDate(generatedAt)}</Text>
           <Text style={styles.pageNumber}>Page 2</Text>
         </View>
       </Page>
@@ -799,7 +848,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
               <Text style={styles.headerTitle}>Cost Analysis</Text>
               <Text style={styles.headerSubtitle}>Detailed financial breakdown</Text>
             </View>
-            <Text style={styles.brandText}>Coverage Gap Analyzer</Text>
+            {brandMark}
           </View>
         </View>
 
@@ -930,7 +979,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
         </View>
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Coverage Gap Analyzer | {formatDate(generatedAt)}</Text>
+          <Text style={styles.footerText}>{brandLine} | {formatDate(generatedAt)}</Text>
           <Text style={styles.pageNumber}>Page 3</Text>
         </View>
       </Page>
@@ -945,7 +994,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
               <Text style={styles.headerTitle}>Compare Your Options</Text>
               <Text style={styles.headerSubtitle}>Alternative coverage choices</Text>
             </View>
-            <Text style={styles.brandText}>Coverage Gap Analyzer</Text>
+            {brandMark}
           </View>
         </View>
 
@@ -1026,7 +1075,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
         </View>
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Coverage Gap Analyzer | {formatDate(generatedAt)}</Text>
+          <Text style={styles.footerText}>{brandLine} | {formatDate(generatedAt)}</Text>
           <Text style={styles.pageNumber}>Page 4</Text>
         </View>
       </Page>
@@ -1041,7 +1090,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
               <Text style={styles.headerTitle}>Next Steps</Text>
               <Text style={styles.headerSubtitle}>Your action plan</Text>
             </View>
-            <Text style={styles.brandText}>Coverage Gap Analyzer</Text>
+            {brandMark}
           </View>
         </View>
 
@@ -1101,7 +1150,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
         </View>
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Coverage Gap Analyzer | {formatDate(generatedAt)}</Text>
+          <Text style={styles.footerText}>{brandLine} | {formatDate(generatedAt)}</Text>
           <Text style={styles.pageNumber}>Page 5</Text>
         </View>
       </Page>
@@ -1116,7 +1165,7 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
               <Text style={styles.headerTitle}>Important Information</Text>
               <Text style={styles.headerSubtitle}>Disclaimers & resources</Text>
             </View>
-            <Text style={styles.brandText}>Coverage Gap Analyzer</Text>
+            {brandMark}
           </View>
         </View>
 
@@ -1139,6 +1188,17 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
             </View>
           </View>
 
+          {branding?.disclaimer && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{branding.agencyName} Disclosures</Text>
+              <View style={styles.card}>
+                <Text style={{ fontSize: 9, color: colors.gray[700], lineHeight: 1.6 }}>
+                  {branding.disclaimer}
+                </Text>
+              </View>
+            </View>
+          )}
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Data Sources</Text>
             <View style={styles.card}>
@@ -1199,16 +1259,28 @@ export const CoverageAnalysisReport: React.FC<PDFReportInput> = ({
             </View>
           </View>
 
-          <View style={{ marginTop: 20, padding: 15, backgroundColor: colors.gray[50], borderRadius: 6 }}>
-            <Text style={{ fontSize: 10, color: colors.gray[600], textAlign: 'center', lineHeight: 1.5 }}>
-              Thank you for using Coverage Gap Analyzer.{'\n'}
-              For questions or feedback, visit our website.
-            </Text>
-          </View>
+          {branding ? (
+            <View style={{ marginTop: 20, padding: 15, backgroundColor: colors.lightBlue, borderRadius: 6 }}>
+              <Text style={[styles.boldValue, { color: colors.primary, marginBottom: 4 }]}>Questions? Contact {branding.agencyName}</Text>
+              {branding.licenseNumber && (
+                <Text style={styles.label}>License #{branding.licenseNumber}</Text>
+              )}
+              {contactLines.map((line, index) => (
+                <Text key={index} style={styles.value}>{line}</Text>
+              ))}
+            </View>
+          ) : (
+            <View style={{ marginTop: 20, padding: 15, backgroundColor: colors.gray[50], borderRadius: 6 }}>
+              <Text style={{ fontSize: 10, color: colors.gray[600], textAlign: 'center', lineHeight: 1.5 }}>
+                Thank you for using Coverage Gap Analyzer.{'\n'}
+                For questions or feedback, visit our website.
+              </Text>
+            </View>
+          )}
         </View>
 
         <View style={styles.footer}>
-          <Text style={styles.footerText}>Coverage Gap Analyzer | {formatDate(generatedAt)}</Text>
+          <Text style={styles.footerText}>{brandLine} | {formatDate(generatedAt)}</Text>
           <Text style={styles.pageNumber}>Page 6</Text>
         </View>
       </Page>
@@ -8,6 +8,8 @@
 import { pdf } from '@react-pdf/renderer';
 import { createElement } from 'react';
 import { CoverageAnalysisReport, type PDFReportInput } from './pdf-document';
+import { PlanProposalDocument } from './proposal-document';
+import type { Proposal } from './proposal';
 import { logger } from '@/lib/logger';
 
 /**
@@ -112,6 +114,25 @@ export async function generatePDFBase64(input: PDFReportInput): Promise<string>
   }
 }
 
+/**
+ * Generate a plan proposal PDF and return as a Buffer (for server-side use)
+ */
+export async function generateProposalPDFBuffer(proposal: Proposal): Promise<Buffer> {
+  try {
+    // Cast to any to avoid react-pdf type compatibility issues with React 19
+    const document = createElement(PlanProposalDocument, { proposal });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const blob = await pdf(document as any).toBlob();
+    const arrayBuffer = await blob.arrayBuffer();
+    return Buffer.from(arrayBuffer);
+  } catch (error) {
+    logger.error('[PDF Generator] Failed to generate proposal PDF', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error('Failed to generate proposal PDF');
+  }
+}
+
 /**
  * Validate report input data
  */
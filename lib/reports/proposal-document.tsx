@@ -0,0 +1,325 @@
+/**
+ * Plan Proposal PDF Document
+ *
+ * React-PDF document for a broker's client-facing proposal: cover page,
+ * side-by-side plan overview, per-plan commentary, a comparison and
+ * break-even page for each alternative, and a signature/acknowledgement page.
+ */
+
+import React from 'react';
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  Image,
+  Svg,
+  Line,
+  Polyline,
+} from '@react-pdf/renderer';
+import { formatBrandLine, getContactLines, DEFAULT_BRAND_NAME } from '@/lib/branding/branding';
+import { createStyles, resolvePalette, type ReportPalette } from './pdf-document';
+import type { Proposal, ProposalComparison, ProposalPlan } from './proposal';
+
+type Styles = ReturnType<typeof createStyles>;
+
+const formatCurrency = (amount: number | undefined) =>
+  amount === undefined ? '-' : `$${Math.round(amount).toLocaleString()}`;
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+});
+
+const formatMetal = (plan: ProposalPlan) =>
+  plan.details.metalLevel
+    ? `${plan.details.metalLevel[0]!.toUpperCase()}${plan.details.metalLevel.slice(1)} ${plan.details.type}`
+    : plan.details.type;
+
+// Rows of the side-by-side overview table
+const OVERVIEW_ROWS: Array<{ label: string; value: (plan: ProposalPlan) => string }> = [
+  { label: 'Carrier', value: (p) => p.details.issuer },
+  { label: 'Plan Type', value: formatMetal },
+  { label: 'Monthly Premium', value: (p) => formatCurrency(p.details.monthlyPremium) },
+  { label: 'After Tax Credits', value: (p) => formatCurrency(p.netMonthlyPremium) },
+  { label: 'Deductible', value: (p) => formatCurrency(p.details.deductible) },
+  { label: 'Out-of-Pocket Max', value: (p) => formatCurrency(p.details.outOfPocketMax) },
+  { label: 'Primary Care', value: (p) => formatCurrency(p.details.primaryCareCopay) },
+  { label: 'Specialist', value: (p) => formatCurrency(p.details.specialistCopay) },
+  { label: 'Generic Drugs', value: (p) => formatCurrency(p.details.genericDrugCopay) },
+  { label: 'Emergency Room', value: (p) => formatCurrency(p.details.emergencyRoomCopay) },
+  { label: 'National Network', value: (p) => (p.details.hasNationalNetwork ? 'Yes' : 'No') },
+  { label: 'Quality Rating', value: (p) => (p.details.qualityRating ? `${p.details.qualityRating} / 5` : 'Not rated') },
+];
+
+// Page scaffolding shared by every page
+const ProposalPage: React.FC<{
+  proposal: Proposal;
+  styles: Styles;
+  title: string;
+  subtitle?: string;
+  children: React.ReactNode;
+}> = ({ proposal, styles, title, subtitle, children }) => {
+  const { branding } = proposal;
+  return (
+    <Page size="A4" style={styles.page}>
+      <View style={styles.pageAccent} fixed />
+
+      <View style={styles.header}>
+        <View style={styles.headerRow}>
+          <View>
+            <Text style={styles.headerTitle}>{title}</Text>
+            {subtitle && <Text style={styles.headerSubtitle}>{subtitle}</Text>}
+          </View>
+          {branding?.logoDataUrl ? (
+            // eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image has no alt prop
+            <Image src={branding.logoDataUrl} style={{ height: 28, maxWidth: 140, objectFit: 'contain' }} />
+          ) : (
+            <Text style={styles.brandText}>{branding?.agencyName ?? DEFAULT_BRAND_NAME}</Text>
+          )}
+        </View>
+      </View>
+
+      {children}
+
+      <View style={styles.footer} fixed>
+        <Text style={styles.footerText}>
+          {formatBrandLine(branding)} | Proposal for {proposal.clientName} | {formatDate(proposal.generatedAt)}
+        </Text>
+        <Text style={styles.pageNumber} render={({ pageNumber }) => `Page ${pageNumber}`} />
+      </View>
+    </Page>
+  );
+};
+
+// Break-even cost curves for the recommended plan (1) and an alternative (2)
+const CostCurveChart: React.FC<{ comparison: ProposalComparison; colors: ReportPalette }> = ({ comparison, colors }) => {
+  const width = 480;
+  const height = 160;
+  const curve = comparison.breakEven.costCurve;
+  const maxExpense = Math.max(...curve.map((p) => p.medicalExpense), 1);
+  const maxCost = Math.max(...curve.flatMap((p) => [p.plan1TotalCost, p.plan2TotalCost]), 1);
+
+  const points = (key: 'plan1TotalCost' | 'plan2TotalCost') => curve
+    .map((p) => `${(p.medicalExpense / maxExpense) * width},${height - (p[key] / maxCost) * height}`)
+    .join(' ');
+
+  return (
+    <View>
+      <Svg width={width} height={height}>
+        <Line x1={0} y1={height} x2={width} y2={height} stroke={colors.gray[300]} strokeWidth={1} />
+        <Line x1={0} y1={0} x2={0} y2={height} stroke={colors.gray[300]} strokeWidth={1} />
+        <Polyline points={points('plan1TotalCost')} stroke={colors.primary} strokeWidth={2} fill="none" />
+        <Polyline points={points('plan2TotalCost')} stroke={colors.warning} strokeWidth={2} fill="none" strokeDasharray="4 3" />
+      </Svg>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 }}>
+        <Text style={{ fontSize: 8, color: colors.gray[500] }}>$0 medical spending</Text>
+        <Text style={{ fontSize: 8, color: colors.gray[500] }}>{formatCurrency(maxExpense)} medical spending</Text>
+      </View>
+      <View style={{ flexDirection: 'row', gap: 15, marginTop: 4 }}>
+        <Text style={{ fontSize: 8, color: colors.primary }}>— {comparison.breakEven.plan1.name}</Text>
+        <Text style={{ fontSize: 8, color: colors.warning }}>- - {comparison.breakEven.plan2.name}</Text>
+      </View>
+    </View>
+  );
+};
+
+export interface ProposalDocumentProps {
+  proposal: Proposal;
+}
+
+// Main Document Component
+export const PlanProposalDocument: React.FC<ProposalDocumentProps> = ({ proposal }) => {
+  const { branding, plans, recommendedPlan } = proposal;
+  const colors = resolvePalette(branding);
+  const styles = createStyles(colors);
+  const contactLines = getContactLines(branding?.contact);
+  const planName = (planId: string) => plans.find((p) => p.details.id === planId)?.details.name ?? planId;
+
+  return (
+    <Document>
+      {/* Cover */}
+      <Page size="A4" style={styles.page}>
+        <View style={styles.pageAccent} fixed />
+
+        <View style={{ marginTop: 40, marginBottom: 30, alignItems: 'center' }}>
+          {branding?.logoDataUrl && (
+            // eslint-disable-next-line jsx-a11y/alt-text -- react-pdf Image has no alt prop
+            <Image src={branding.logoDataUrl} style={{ height: 56, maxWidth: 220, objectFit: 'contain', marginBottom: 16 }} />
+          )}
+          <Text style={{ fontSize: 30, fontWeight: 'bold', color: colors.primary, marginBottom: 8 }}>
+            Health Plan Proposal
+          </Text>
+          <Text style={{ fontSize: 14, color: colors.gray[700], marginBottom: 4 }}>
+            Prepared for {proposal.clientName}
+          </Text>
+          <Text style={{ fontSize: 10, color: colors.gray[500] }}>
+            {proposal.planYear} coverage | {formatDate(proposal.generatedAt)}
+          </Text>
+        </View>
+
+        {proposal.introduction && (
+          <View style={[styles.card, { marginBottom: 20 }]}>
+            <Text style={styles.listText}>{proposal.introduction}</Text>
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Plans in This Proposal</Text>
+        {plans.map((plan, index) => (
+          <View key={plan.details.id} style={plan.isRecommended ? styles.recommendationCard : styles.card}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
+              <Text style={styles.boldValue}>{index + 1}. {plan.details.name}</Text>
+              <Text style={styles.costValue}>{formatCurrency(plan.netMonthlyPremium)}/mo</Text>
+            </View>
+            <Text style={styles.label}>
+              {plan.details.issuer} | {formatMetal(plan)}{plan.isRecommended ? ' | Recommended' : ''}
+            </Text>
+          </View>
+        ))}
+
+        <View style={{ marginTop: 20 }}>
+          <Text style={styles.label}>Prepared by</Text>
+          <Text style={styles.boldValue}>{formatBrandLine(branding)}</Text>
+          {contactLines.map((line, index) => (
+            <Text key={index} style={styles.value}>{line}</Text>
+          ))}
+        </View>
+
+        <View style={styles.footer} fixed>
+          <Text style={styles.footerText}>{formatBrandLine(branding)} | {formatDate(proposal.generatedAt)}</Text>
+          <Text style={styles.pageNumber} render={({ pageNumber }) => `Page ${pageNumber}`} />
+        </View>
+      </Page>
+
+      {/* Side-by-side overview */}
+      <ProposalPage proposal={proposal} styles={styles} title="Plan Overview" subtitle="Side-by-side benefits and costs">
+        <View style={styles.table}>
+          <View style={styles.tableHeader}>
+            <Text style={styles.tableHeaderCell}> </Text>
+            {plans.map((plan) => (
+              <Text key={plan.details.id} style={styles.tableHeaderCell}>
+                {plan.details.name}{plan.isRecommended ? ' (Recommended)' : ''}
+              </Text>
+            ))}
+          </View>
+          {OVERVIEW_ROWS.map((row, index) => (
+            <View key={row.label} style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}>
+              <Text style={[styles.tableCell, { fontWeight: 'bold' }]}>{row.label}</Text>
+              {plans.map((plan) => (
+                <Text key={plan.details.id} style={styles.tableCell}>{row.value(plan)}</Text>
+              ))}
+            </View>
+          ))}
+        </View>
+        <Text style={styles.label}>
+          Copays shown are in-network amounts. &quot;-&quot; means the plan applies the deductible or coinsurance instead.
+        </Text>
+      </ProposalPage>
+
+      {/* Broker commentary */}
+      <ProposalPage proposal={proposal} styles={styles} title="Our Notes on Each Plan">
+        {plans.map((plan) => (
+          <View key={plan.details.id} style={styles.section} wrap={false}>
+            <Text style={styles.sectionTitle}>
+              {plan.details.name}{plan.isRecommended ? ' - Recommended' : ''}
+            </Text>
+            <Text style={styles.listText}>
+              {plan.commentary ?? 'No additional notes for this plan.'}
+            </Text>
+          </View>
+        ))}
+      </ProposalPage>
+
+      {/* Comparison and break-even for each alternative */}
+      {proposal.comparisons.map((entry) => {
+        const { comparison, breakEven } = entry;
+        return (
+          <ProposalPage
+            key={entry.planId}
+            proposal={proposal}
+            styles={styles}
+            title="Plan Comparison"
+            subtitle={`${recommendedPlan.details.name} vs. ${planName(entry.planId)}`}
+          >
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Summary</Text>
+              <Text style={styles.listText}>{comparison.summary}</Text>
+              {comparison.keyDifferences.map((difference, index) => (
+                <View key={index} style={styles.listItem}>
+                  <Text style={styles.bullet}>•</Text>
+                  <Text style={styles.listText}>{difference}</Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Estimated Annual Cost by Usage</Text>
+              <View style={styles.tableHeader}>
+                <Text style={styles.tableHeaderCell}>Scenario</Text>
+                <Text style={styles.tableHeaderCell}>{comparison.planA.name}</Text>
+                <Text style={styles.tableHeaderCell}>{comparison.planB.name}</Text>
+              </View>
+              {comparison.scenarios.map((scenario, index) => (
+                <View key={scenario.name} style={index % 2 === 0 ? styles.tableRow : styles.tableRowAlt}>
+                  <Text style={styles.tableCell}>{scenario.name}</Text>
+                  <Text style={styles.tableCell}>{formatCurrency(scenario.planACost)}</Text>
+                  <Text style={styles.tableCell}>{formatCurrency(scenario.planBCost)}</Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={styles.section} wrap={false}>
+              <Text style={styles.sectionTitle}>Break-Even Analysis</Text>
+              <Text style={[styles.listText, { marginBottom: 8 }]}>
+                {breakEven.breakEvenPoint !== null
+                  ? `The plans cost the same at about ${formatCurrency(breakEven.breakEvenPoint)} of medical spending a year. `
+                  : ''}
+                {breakEven.analysis.summary}
+              </Text>
+              <CostCurveChart comparison={entry} colors={colors} />
+            </View>
+          </ProposalPage>
+        );
+      })}
+
+      {/* Acknowledgement */}
+      <ProposalPage proposal={proposal} styles={styles} title="Acknowledgement" subtitle="Please review, select and sign">
+        <View style={styles.section}>
+          <Text style={[styles.listText, { marginBottom: 12 }]}>
+            I have reviewed the plans in this proposal with my agent. I understand that premiums, tax credits and
+            out-of-pocket estimates are based on the information I provided and may change when I enroll or file my
+            taxes. Plan networks and drug formularies should be confirmed with the carrier before enrolling.
+          </Text>
+
+          <Text style={[styles.boldValue, { marginBottom: 8 }]}>My selection:</Text>
+          {[...plans.map((p) => p.details.name), 'None of these plans at this time'].map((label) => (
+            <View key={label} style={[styles.listItem, { alignItems: 'center', marginBottom: 8 }]}>
+              <View style={{ width: 10, height: 10, borderWidth: 1, borderColor: colors.gray[600], marginRight: 8 }} />
+              <Text style={styles.listText}>{label}</Text>
+            </View>
+          ))}
+        </View>
+
+        {[`Client: ${proposal.clientName}`, `Agent: ${formatBrandLine(branding)}`].map((signer) => (
+          <View key={signer} style={{ flexDirection: 'row', gap: 20, marginTop: 40 }} wrap={false}>
+            <View style={{ flex: 3, borderTop: `1px solid ${colors.gray[600]}`, paddingTop: 4 }}>
+              <Text style={styles.label}>Signature ({signer})</Text>
+            </View>
+            <View style={{ flex: 1, borderTop: `1px solid ${colors.gray[600]}`, paddingTop: 4 }}>
+              <Text style={styles.label}>Date</Text>
+            </View>
+          </View>
+        ))}
+
+        {branding?.disclaimer && (
+          <View style={[styles.card, { marginTop: 40 }]}>
+            <Text style={{ fontSize: 8, color: colors.gray[600], lineHeight: 1.5 }}>{branding.disclaimer}</Text>
+          </View>
+        )}
+      </ProposalPage>
+    </Document>
+  );
+};
+
+export default PlanProposalDocument;
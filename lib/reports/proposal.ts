@@ -0,0 +1,215 @@
+/**
+ * Plan Proposal Builder
+ *
+ * Assembles a client-facing proposal from 2-4 hand-picked marketplace plans.
+ * Each alternative is compared against the broker's recommended plan with
+ * comparePlans and a break-even cost curve; the result feeds the proposal PDF.
+ */
+
+import type { MarketplacePlan } from '@/lib/healthcareGovApi';
+import type { CSRLevel } from '@/lib/calculator/advanced-subsidy';
+import {
+  comparePlans,
+  type PlanDetails,
+  type PlanComparisonResult,
+  type UserHealthProfile,
+} from '@/lib/comparison';
+import {
+  compareBreakEven,
+  type PlanDetails as BreakEvenPlan,
+  type BreakEvenResult,
+} from '@/lib/calculator/breakeven';
+import type { ReportBranding } from '@/lib/branding/branding';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProposalPlanInput {
+  plan: MarketplacePlan;
+  /** Broker commentary shown with the plan */
+  commentary?: string;
+}
+
+export interface ProposalInput {
+  /** Client name shown on the cover and acknowledgement pages */
+  clientName: string;
+  plans: ProposalPlanInput[];
+  /** Plan the broker recommends; defaults to the first plan */
+  recommendedPlanId?: string;
+  /** Opening note to the client */
+  introduction?: string;
+  userProfile?: UserHealthProfile;
+  csrLevel?: CSRLevel;
+  planYear?: number;
+  generatedAt?: Date;
+  branding?: ReportBranding;
+}
+
+export interface ProposalPlan {
+  details: PlanDetails;
+  commentary?: string;
+  isRecommended: boolean;
+  /** Premium after tax credit, falling back to the full premium */
+  netMonthlyPremium: number;
+}
+
+export interface ProposalComparison {
+  /** Alternative plan ID (the recommended plan is always plan A) */
+  planId: string;
+  comparison: PlanComparisonResult;
+  breakEven: BreakEvenResult;
+}
+
+export interface Proposal {
+  clientName: string;
+  introduction?: string;
+  planYear: number;
+  generatedAt: Date;
+  branding?: ReportBranding;
+  plans: ProposalPlan[];
+  recommendedPlan: ProposalPlan;
+  comparisons: ProposalComparison[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MIN_PROPOSAL_PLANS = 2;
+export const MAX_PROPOSAL_PLANS = 4;
+
+/** Used when a plan lists no coinsurance */
+const DEFAULT_COINSURANCE = 0.2;
+
+const PLAN_TYPES: PlanDetails['type'][] = ['HMO', 'PPO', 'EPO', 'POS', 'HDHP'];
+
+// ============================================================================
+// PLAN CONVERSION
+// ============================================================================
+
+/**
+ * Find the first cost sharing for a benefit whose name contains any of the keywords
+ */
+function findCostSharing(plan: MarketplacePlan, keywords: string[]) {
+  const benefit = plan.benefits?.find((b) => {
+    const name = b.name.toLowerCase();
+    return b.covered && keywords.some((k) => name.includes(k));
+  });
+  return benefit?.cost_sharings?.[0];
+}
+
+function copay(plan: MarketplacePlan, keywords: string[]): number | undefined {
+  const sharing = findCostSharing(plan, keywords);
+  return sharing && sharing.copay_amount > 0 ? sharing.copay_amount : undefined;
+}
+
+/**
+ * Convert a Healthcare.gov plan to plan comparison details
+ */
+export function marketplacePlanToPlanDetails(plan: MarketplacePlan): PlanDetails {
+  const type = plan.type?.toUpperCase() as PlanDetails['type'];
+  const coinsuranceRate = findCostSharing(plan, ['inpatient hospital'])?.coinsurance_rate;
+
+  return {
+    id: plan.id,
+    name: plan.name,
+    type: PLAN_TYPES.includes(type) ? type : 'PPO',
+    metalLevel: plan.metal_level?.toLowerCase() as PlanDetails['metalLevel'],
+    issuer: plan.issuer?.name ?? 'Unknown Issuer',
+    monthlyPremium: plan.premium,
+    monthlyPremiumAfterSubsidy: plan.premium_w_credit,
+    deductible: plan.deductibles?.[0]?.individual?.amount ?? plan.deductibles?.[0]?.amount ?? 0,
+    outOfPocketMax: plan.moops?.[0]?.individual?.amount ?? plan.moops?.[0]?.amount ?? 0,
+    primaryCareCopay: copay(plan, ['primary care']),
+    specialistCopay: copay(plan, ['specialist']),
+    genericDrugCopay: copay(plan, ['generic drug']),
+    brandDrugCopay: copay(plan, ['preferred brand']),
+    emergencyRoomCopay: copay(plan, ['emergency room']),
+    urgentCareCopay: copay(plan, ['urgent care']),
+    coinsurance: coinsuranceRate !== undefined ? Math.round(coinsuranceRate * 100) : undefined,
+    hasNationalNetwork: plan.has_national_network,
+    qualityRating: plan.quality_rating?.available ? plan.quality_rating.global_rating : undefined,
+  };
+}
+
+/**
+ * Convert plan details to the break-even calculator's plan shape,
+ * using the premium the client actually pays
+ */
+function toBreakEvenPlan(plan: ProposalPlan): BreakEvenPlan {
+  const metal = plan.details.metalLevel;
+  return {
+    name: plan.details.name,
+    monthlyPremium: plan.netMonthlyPremium,
+    deductible: plan.details.deductible,
+    coinsurance: plan.details.coinsurance !== undefined ? plan.details.coinsurance / 100 : DEFAULT_COINSURANCE,
+    outOfPocketMax: plan.details.outOfPocketMax,
+    metalTier: metal && metal !== 'catastrophic'
+      ? (`${metal[0]!.toUpperCase()}${metal.slice(1)}` as BreakEvenPlan['metalTier'])
+      : undefined,
+    csrLevel: plan.details.csrLevel,
+  };
+}
+
+// ============================================================================
+// PROPOSAL
+// ============================================================================
+
+/**
+ * Build a plan proposal
+ *
+ * @throws Error if there are not 2-4 distinct plans or the recommended plan is not among them
+ */
+export function buildProposal(input: ProposalInput): Proposal {
+  if (input.plans.length < MIN_PROPOSAL_PLANS || input.plans.length > MAX_PROPOSAL_PLANS) {
+    throw new Error(`A proposal needs ${MIN_PROPOSAL_PLANS} to ${MAX_PROPOSAL_PLANS} plans`);
+  }
+
+  const ids = new Set(input.plans.map((p) => p.plan.id));
+  if (ids.size !== input.plans.length) {
+    throw new Error('Each plan can only appear once in a proposal');
+  }
+
+  const recommendedPlanId = input.recommendedPlanId ?? input.plans[0]!.plan.id;
+  if (!ids.has(recommendedPlanId)) {
+    throw new Error(`Recommended plan ${recommendedPlanId} is not in the proposal`);
+  }
+
+  const plans: ProposalPlan[] = input.plans.map(({ plan, commentary }) => {
+    const details = marketplacePlanToPlanDetails(plan);
+    return {
+      details,
+      commentary: commentary?.trim() || undefined,
+      isRecommended: plan.id === recommendedPlanId,
+      netMonthlyPremium: details.monthlyPremiumAfterSubsidy ?? details.monthlyPremium,
+    };
+  });
+
+  const recommendedPlan = plans.find((p) => p.isRecommended)!;
+
+  const comparisons = plans
+    .filter((p) => !p.isRecommended)
+    .map((alternative) => {
+      const comparison = comparePlans(recommendedPlan.details, alternative.details, input.userProfile, input.csrLevel);
+      // Break-even uses the CSR-adjusted cost sharing from the comparison
+      const breakEven = compareBreakEven(
+        toBreakEvenPlan({ ...recommendedPlan, details: comparison.planA }),
+        toBreakEvenPlan({ ...alternative, details: comparison.planB })
+      );
+      return { planId: alternative.details.id, comparison, breakEven };
+    });
+
+  const generatedAt = input.generatedAt ?? new Date();
+
+  return {
+    clientName: input.clientName,
+    introduction: input.introduction?.trim() || undefined,
+    planYear: input.planYear ?? generatedAt.getFullYear(),
+    generatedAt,
+    branding: input.branding,
+    plans,
+    recommendedPlan,
+    comparisons,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Scenario v2 (Full Form) Tests
+ */
+
+import {
+  encodeScenario,
+  decodeScenario,
+  createScenarioFromFormData,
+  migrateScenario,
+  scenarioToFormData,
+  SCENARIO_VERSION,
+  type ShareableScenario,
+} from '../scenario-sharing';
+import { compressForm, expandForm, _internal } from '../scenario-form';
+import { analyzeInsurance } from '@/lib/calculator';
+import { clearSLCSPCache } from '@/lib/utils/slcsp-lookup';
+import { createTestFormData } from '@/lib/test-utils';
+import type { CalculatorFormData } from '@/types';
+
+describe('Scenario v2', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // The Monte Carlo seed and timing come from the clock and SLCSP lookups
+  // are cached, so pin both to compare two analyses
+  const analyze = async (formData: CalculatorFormData) => {
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+    jest.spyOn(performance, 'now').mockReturnValue(0);
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    clearSLCSPCache();
+    return analyzeInsurance(formData);
+  };
+
+  // Uses fields the v1 summary cannot carry
+  const createDetailedFormData = (overrides: Partial<CalculatorFormData> = {}): CalculatorFormData => createTestFormData({
+    residences: [
+      { zip: '33101', state: 'FL', isPrimary: true, monthsPerYear: 7 },
+      { zip: '10001', state: 'NY', isPrimary: false, monthsPerYear: 5 },
+    ],
+    numAdults: 2,
+    adultAges: [58, 61],
+    adultsUseTobacco: [false, true],
+    numChildren: 1,
+    childAges: [17],
+    childrenUseTobacco: [false],
+    taxHouseholds: [
+      { id: 'primary', label: 'Tax household 1', adultIndexes: [0, 1], childIndexes: [], annualIncome: null },
+      { id: 'household-2', label: 'Tax household 2', adultIndexes: [], childIndexes: [0], annualIncome: 8000 },
+    ],
+    hasChronicConditions: true,
+    chronicConditions: ['diabetes', 'asthma'],
+    prescriptionCount: '4-6',
+    providerPreference: 'specific-doctors',
+    doctorVisitsPerYear: '6-10',
+    specialistVisitsPerYear: 'monthly-or-more',
+    erVisitsPerYear: '1',
+    plannedProcedures: true,
+    takesSpecialtyMeds: true,
+    monthlyMedicationCost: '500-1000',
+    usesMailOrderPharmacy: true,
+    hasPreferredHospital: true,
+    preferredHospitalName: 'Jackson Memorial',
+    hospitalImportance: 'very-important',
+    needsNationalCoverage: 'very-important',
+    financialPriority: 'lowest-oop-max',
+    canAffordUnexpectedBill: 'with-difficulty',
+    preferredPlanTypes: ['PPO', 'EPO'],
+    hasCurrentInsurance: true,
+    currentInsurance: {
+      carrier: 'Blue Cross',
+      planType: 'PPO',
+      monthlyCost: 1450,
+      deductible: 3000,
+      outOfPocketMax: 9000,
+      coverageNotes: 'COBRA ends in March',
+    },
+    budget: '1000-plus',
+    incomeRange: undefined,
+    annualIncome: 82000,
+    incomeProfile: {
+      filingStatus: 'married_joint',
+      wages: 60000,
+      selfEmploymentIncome: 18000,
+      socialSecurityBenefits: 0,
+      iraContribution: 3000,
+    },
+    netWorth: 450000,
+    planYear: 2026,
+    interestedInAddOns: true,
+    addOnBudget: 120,
+    ...overrides,
+  });
+
+  describe('encoding', () => {
+    it('round-trips every form field losslessly', () => {
+      const formData = createDetailedFormData();
+      const decoded = decodeScenario(encodeScenario(createScenarioFromFormData(formData, 1700000000000)));
+
+      expect(decoded?.v).toBe(SCENARIO_VERSION);
+      expect(decoded?.ts).toBe(1700000000000);
+      expect(decoded?.form).toEqual(formData);
+      expect(scenarioToFormData(decoded!)).toEqual(formData);
+    });
+
+    it('round-trips the default test form', () => {
+      const formData = createTestFormData();
+      const decoded = decodeScenario(encodeScenario(createScenarioFromFormData(formData)));
+
+      expect(decoded?.form).toEqual(formData);
+    });
+
+    it('keeps values that match the defaults out of the encoded form', () => {
+      const compressed = compressForm(createTestFormData({ numChildren: 0, simpleMode: false }));
+
+      expect(compressed).not.toHaveProperty(_internal.FORM_KEY_MAP.numChildren);
+      expect(compressed).not.toHaveProperty(_internal.FORM_KEY_MAP.simpleMode);
+      expect(compressed).not.toHaveProperty(_internal.FORM_KEY_MAP.addOnBudget);
+      expect(expandForm(compressed)).toMatchObject({ numChildren: 0, simpleMode: false });
+    });
+
+    it('rejects v2 codes with an invalid form', () => {
+      const encoded = encodeScenario(createScenarioFromFormData(createDetailedFormData()));
+      const tampered = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+      tampered.f.na = -1;
+
+      expect(() => decodeScenario(Buffer.from(JSON.stringify(tampered)).toString('base64url'))).toThrow('Invalid scenario data');
+    });
+
+    it('uses a distinct short key for every field', () => {
+      const keys = Object.values(_internal.FORM_KEY_MAP);
+
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  describe('createScenarioFromFormData', () => {
+    it('derives the summary fields from the form', () => {
+      const scenario = createScenarioFromFormData(createDetailedFormData());
+
+      expect(scenario).toMatchObject({
+        zip: '33101',
+        state: 'FL',
+        adults: 2,
+        children: 1,
+        ages: [58, 61, 17],
+        chronic: true,
+        tobacco: true,
+        prescriptions: 6,
+        doctorVisits: 10,
+        specialistVisits: 12,
+        income: 82000,
+        priority: 'comprehensive',
+        planType: 'any',
+        currentPremium: 1450,
+        currentDeductible: 3000,
+      });
+    });
+  });
+
+  describe('analysis', () => {
+    it.each([
+      ['detailed household', createDetailedFormData()],
+      ['single adult', createTestFormData({ annualIncome: 32000, preferredPlanTypes: ['HMO'] })],
+    ])('produces the same recommendation after a round-trip (%s)', async (_label, formData) => {
+      const decoded = decodeScenario(encodeScenario(createScenarioFromFormData(formData)));
+
+      const original = await analyze(formData);
+      const restored = await analyze(scenarioToFormData(decoded!));
+
+      expect(restored).toEqual(original);
+    });
+  });
+
+  describe('migrateScenario', () => {
+    const v1Scenario: ShareableScenario = {
+      v: 1,
+      zip: '90210',
+      state: 'CA',
+      adults: 2,
+      children: 1,
+      ages: [35, 33, 5],
+      chronic: false,
+      tobacco: false,
+      prescriptions: 2,
+      doctorVisits: 4,
+      specialistVisits: 1,
+      income: 75000,
+      budget: 600,
+      priority: 'balanced',
+      planType: 'hmo',
+      hasEmployer: false,
+    };
+
+    it('decodes v1 codes and upgrades them to v2', () => {
+      const decoded = decodeScenario(encodeScenario(v1Scenario));
+      expect(decoded?.v).toBe(1);
+      expect(decoded?.form).toBeUndefined();
+
+      const migrated = migrateScenario(decoded!);
+
+      expect(migrated.v).toBe(SCENARIO_VERSION);
+      expect(migrated.zip).toBe('90210');
+      expect(migrated.form).toEqual(scenarioToFormData(decoded!));
+      expect(migrated.form?.preferredPlanTypes).toEqual(['HMO']);
+    });
+
+    it('keeps the analysis of a migrated scenario stable through sharing', async () => {
+      const migrated = migrateScenario(v1Scenario);
+      const decoded = decodeScenario(encodeScenario(migrated));
+
+      expect(decoded?.form).toEqual(migrated.form);
+      const original = await analyze(scenarioToFormData(v1Scenario));
+      const restored = await analyze(scenarioToFormData(decoded!));
+
+      expect(restored).toEqual(original);
+    });
+
+    it('leaves v2 scenarios unchanged', () => {
+      const scenario = createScenarioFromFormData(createDetailedFormData());
+
+      expect(migrateScenario(scenario)).toBe(scenario);
+    });
+  });
+});
@@ -10,6 +10,7 @@ import {
   createScenarioHash,
   isValidEncodedScenario,
   getScenarioSummary,
+  scenarioToFormData,
   type ShareableScenario,
 } from '../scenario-sharing';
 
@@ -419,4 +420,21 @@ describe('Scenario Sharing', () => {
       expect(decoded.prescriptions).toBe(edge.prescriptions);
     });
   });
+
+  describe('scenarioToFormData', () => {
+    it('splits ages and maps counts onto calculator answers', () => {
+      const formData = scenarioToFormData(createBaseScenario({ planType: 'hmo', priority: 'low-premium' }), 2026);
+
+      expect(formData.adultAges).toEqual([35, 33]);
+      expect(formData.childAges).toEqual([5]);
+      expect(formData.residences[0]).toMatchObject({ zip: '90210', state: 'CA', monthsPerYear: 12 });
+      expect(formData.prescriptionCount).toBe('1-3');
+      expect(formData.doctorVisitsPerYear).toBe('3-5');
+      expect(formData.budget).toBe('500-1000');
+      expect(formData.preferredPlanTypes).toEqual(['HMO']);
+      expect(formData.financialPriority).toBe('lowest-premium');
+      expect(formData.annualIncome).toBe(75000);
+      expect(formData.planYear).toBe(2026);
+    });
+  });
 });
@@ -0,0 +1,67 @@
+/**
+ * Short-Link Sharing Tests
+ */
+
+import {
+  generateShortCode,
+  isShortLinkCode,
+  getShortLinkExpiry,
+  SHORT_CODE_LENGTH,
+  MAX_SHORT_LINK_EXPIRY_DAYS,
+} from '../short-links';
+import { encodeScenario, type ShareableScenario } from '../scenario-sharing';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Short-Link Sharing', () => {
+  describe('generateShortCode', () => {
+    it('generates alphanumeric codes of the fixed length', () => {
+      const codes = new Set(Array.from({ length: 200 }, generateShortCode));
+
+      expect(codes.size).toBe(200);
+      for (const code of codes) {
+        expect(code).toHaveLength(SHORT_CODE_LENGTH);
+        expect(isShortLinkCode(code)).toBe(true);
+      }
+    });
+  });
+
+  describe('isShortLinkCode', () => {
+    it('tells short codes apart from encoded scenarios', () => {
+      const scenario: ShareableScenario = {
+        v: 1,
+        zip: '90210',
+        state: 'CA',
+        adults: 1,
+        children: 0,
+        ages: [30],
+        chronic: false,
+        tobacco: false,
+        prescriptions: 0,
+        doctorVisits: 1,
+        specialistVisits: 0,
+        income: 40000,
+        priority: 'balanced',
+        planType: 'any',
+        hasEmployer: false,
+      };
+
+      expect(isShortLinkCode(encodeScenario(scenario))).toBe(false);
+      expect(isShortLinkCode('abc')).toBe(false);
+      expect(isShortLinkCode('abcde-ghij')).toBe(false);
+    });
+  });
+
+  describe('getShortLinkExpiry', () => {
+    const now = new Date(2026, 0, 1).getTime();
+
+    it('defaults to 30 days', () => {
+      expect(getShortLinkExpiry(undefined, now).getTime()).toBe(now + 30 * DAY);
+    });
+
+    it('clamps to between one day and the maximum', () => {
+      expect(getShortLinkExpiry(0, now).getTime()).toBe(now + DAY);
+      expect(getShortLinkExpiry(10_000, now).getTime()).toBe(now + MAX_SHORT_LINK_EXPIRY_DAYS * DAY);
+    });
+  });
+});
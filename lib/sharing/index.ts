@@ -1,7 +1,8 @@
 /**
  * Sharing Module
  *
- * Exports scenario sharing utilities for generating shareable URLs.
+ * Exports scenario sharing utilities for generating shareable URLs. Server-only
+ * short-link storage lives in ./repository and is imported directly by API routes.
  */
 
 export {
@@ -12,6 +13,37 @@ export {
   createScenarioHash,
   isValidEncodedScenario,
   getScenarioSummary,
+  scenarioToFormData,
+  createScenarioFromFormData,
+  migrateScenario,
+  SCENARIO_VERSION,
   ShareableScenarioSchema,
   type ShareableScenario,
 } from './scenario-sharing';
+
+export { ScenarioFormSchema } from './scenario-form';
+
+export {
+  generateShortCode,
+  isShortLinkCode,
+  getShortLinkExpiry,
+  SHORT_CODE_LENGTH,
+  DEFAULT_SHORT_LINK_EXPIRY_DAYS,
+  MAX_SHORT_LINK_EXPIRY_DAYS,
+  MIN_PASSCODE_LENGTH,
+  SHORT_LINK_ERROR_MESSAGES,
+  type ShortLinkOptions,
+  type ShortLinkStats,
+  type ShortLinkError,
+} from './short-links';
+
+export {
+  createShortLink,
+  fetchSharedScenario,
+  fetchShortLinkStats,
+  revokeShortLink,
+  getSavedShortLinks,
+  forgetShortLink,
+  type SavedShortLink,
+  type SharedScenarioResult,
+} from './remote-short-links';
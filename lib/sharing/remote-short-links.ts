@@ -0,0 +1,167 @@
+/**
+ * Remote Short Links
+ *
+ * Browser adapter for short-link sharing (/api/share?mode=short and
+ * /api/share/[code]). Manage tokens for links created in this browser are
+ * kept in localStorage so the creator can check views and revoke them later.
+ */
+
+import type { ShareableScenario } from './scenario-sharing';
+import {
+  SHARE_MANAGE_TOKEN_HEADER,
+  SHARE_PASSCODE_HEADER,
+  type ShortLinkError,
+  type ShortLinkOptions,
+  type ShortLinkStats,
+} from './short-links';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SavedShortLink {
+  code: string;
+  shareUrl: string;
+  manageToken: string;
+  summary: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type SharedScenarioResult =
+  | { ok: true; scenario: ShareableScenario; expiresAt?: number }
+  | { ok: false; reason: ShortLinkError; error: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'short_share_links';
+
+// ============================================================================
+// API
+// ============================================================================
+
+/**
+ * Store a scenario server-side and get a short link for it
+ *
+ * @param brandingProfileId - Broker branding to apply on the share page
+ */
+export async function createShortLink(
+  scenario: ShareableScenario,
+  options: ShortLinkOptions = {},
+  brandingProfileId?: string
+): Promise<SavedShortLink> {
+  const query = new URLSearchParams({ mode: 'short' });
+  if (brandingProfileId) query.set('brand', brandingProfileId);
+
+  const response = await fetch(`/api/share?${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ scenario, ...options }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to create share link (${response.status})`);
+  }
+
+  const link: SavedShortLink = {
+    code: data.code,
+    shareUrl: data.shareUrl,
+    manageToken: data.manageToken,
+    summary: data.summary,
+    createdAt: Date.now(),
+    expiresAt: data.expiresAt,
+  };
+
+  saveShortLink(link);
+  return link;
+}
+
+/**
+ * Load the scenario behind a short link
+ */
+export async function fetchSharedScenario(code: string, passcode?: string): Promise<SharedScenarioResult> {
+  const response = await fetch(`/api/share/${encodeURIComponent(code)}`, {
+    headers: passcode ? { [SHARE_PASSCODE_HEADER]: passcode } : undefined,
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (response.ok) {
+    return { ok: true, scenario: data.scenario, expiresAt: data.expiresAt };
+  }
+
+  if (data.reason) {
+    return { ok: false, reason: data.reason, error: data.error };
+  }
+
+  throw new Error(data.error || `Failed to load scenario (${response.status})`);
+}
+
+/**
+ * Get view statistics for a link created in this browser
+ */
+export async function fetchShortLinkStats(link: Pick<SavedShortLink, 'code' | 'manageToken'>): Promise<ShortLinkStats | null> {
+  const response = await fetch(`/api/share/${encodeURIComponent(link.code)}/stats`, {
+    headers: { [SHARE_MANAGE_TOKEN_HEADER]: link.manageToken },
+  });
+
+  if (response.status === 404) return null;
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to load share link stats (${response.status})`);
+  }
+
+  return data.stats;
+}
+
+/**
+ * Revoke a link created in this browser
+ */
+export async function revokeShortLink(link: Pick<SavedShortLink, 'code' | 'manageToken'>): Promise<boolean> {
+  const response = await fetch(`/api/share/${encodeURIComponent(link.code)}`, {
+    method: 'DELETE',
+    headers: { [SHARE_MANAGE_TOKEN_HEADER]: link.manageToken },
+  });
+
+  if (response.status === 404) return false;
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to revoke share link (${response.status})`);
+  }
+
+  return true;
+}
+
+// ============================================================================
+// LOCAL STORAGE
+// ============================================================================
+
+/**
+ * Get links created in this browser, newest first
+ */
+export function getSavedShortLinks(): SavedShortLink[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as SavedShortLink[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveShortLink(link: SavedShortLink): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([link, ...getSavedShortLinks()]));
+}
+
+/**
+ * Forget a link's manage token (the link itself keeps working until it expires)
+ */
+export function forgetShortLink(code: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(getSavedShortLinks().filter((l) => l.code !== code)));
+}
@@ -0,0 +1,210 @@
+/**
+ * Short-Link Repository
+ *
+ * Server-side storage for short-link scenario shares. Passcodes are hashed
+ * with scrypt and manage tokens with SHA-256; neither is stored in the clear.
+ *
+ * Wrong passcodes are counted on the link itself, so the lockout holds
+ * across server instances and whichever IP the guesses come from.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { db } from '@/db';
+import { sharedScenarios } from '@/db/schema';
+import { and, eq, isNull, lt, lte, or, sql } from 'drizzle-orm';
+import { hashSecret, verifySecret } from '@/lib/auth/password-hash';
+import type { ShareableScenario } from './scenario-sharing';
+import {
+  generateShortCode,
+  getShortLinkExpiry,
+  MAX_PASSCODE_ATTEMPTS,
+  PASSCODE_LOCKOUT_MINUTES,
+  type ShortLinkError,
+  type ShortLinkOptions,
+  type ShortLinkStats,
+} from './short-links';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SharedScenarioRow = typeof sharedScenarios.$inferSelect;
+
+export interface CreatedShortLink {
+  code: string;
+  /** Secret for revoking the link and reading its stats; only returned here */
+  manageToken: string;
+  expiresAt: Date;
+}
+
+export type ShortLinkResolution =
+  | { ok: true; scenario: ShareableScenario; expiresAt?: number }
+  | { ok: false; error: ShortLinkError };
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/** Attempts at a fresh code before giving up on collisions */
+const MAX_CODE_ATTEMPTS = 5;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function tokenMatches(token: string, row: SharedScenarioRow): boolean {
+  return timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(row.manageTokenHash));
+}
+
+// ============================================================================
+// SHORT LINKS
+// ============================================================================
+
+/**
+ * Store a scenario and return its short code and manage token
+ */
+export async function createShortLink(
+  scenario: ShareableScenario,
+  options: ShortLinkOptions = {}
+): Promise<CreatedShortLink> {
+  const manageToken = randomBytes(24).toString('base64url');
+  const expiresAt = getShortLinkExpiry(options.expiresInDays);
+  const passcodeHash = options.passcode ? await hashSecret(options.passcode) : null;
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const [row] = await db
+      .insert(sharedScenarios)
+      .values({
+        code: generateShortCode(),
+        scenario,
+        manageTokenHash: hashToken(manageToken),
+        passcodeHash,
+        expiresAt,
+      })
+      .onConflictDoNothing({ target: sharedScenarios.code })
+      .returning({ code: sharedScenarios.code });
+
+    if (row) {
+      return { code: row.code, manageToken, expiresAt };
+    }
+  }
+
+  throw new Error('Failed to allocate a share code');
+}
+
+/**
+ * Open a short link, counting the view when it succeeds
+ */
+export async function resolveShortLink(code: string, passcode?: string): Promise<ShortLinkResolution> {
+  const row = await findShortLink(code);
+  if (!row) return { ok: false, error: 'not_found' };
+  if (row.revokedAt) return { ok: false, error: 'revoked' };
+  if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) return { ok: false, error: 'expired' };
+
+  if (row.passcodeHash) {
+    if (!passcode) return { ok: false, error: 'passcode_required' };
+
+    const error = await checkPasscode(row, passcode);
+    if (error) return { ok: false, error };
+  }
+
+  await db
+    .update(sharedScenarios)
+    .set({
+      viewCount: sql`${sharedScenarios.viewCount} + 1`,
+      lastViewedAt: new Date(),
+      ...(row.passcodeHash ? { failedPasscodeAttempts: 0 } : {}),
+    })
+    .where(eq(sharedScenarios.id, row.id));
+
+  return {
+    ok: true,
+    scenario: row.scenario as ShareableScenario,
+    expiresAt: row.expiresAt?.getTime(),
+  };
+}
+
+/**
+ * Get a link's view statistics (null when the code or manage token is wrong)
+ */
+export async function getShortLinkStats(code: string, manageToken: string): Promise<ShortLinkStats | null> {
+  const row = await findShortLink(code);
+  if (!row || !tokenMatches(manageToken, row)) return null;
+
+  return {
+    code: row.code,
+    viewCount: row.viewCount,
+    lastViewedAt: row.lastViewedAt?.getTime(),
+    expiresAt: row.expiresAt?.getTime(),
+    revokedAt: row.revokedAt?.getTime(),
+    passcodeProtected: row.passcodeHash !== null,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+/**
+ * Revoke a link (false when the code or manage token is wrong)
+ *
+ * The stored scenario is cleared so revoked links keep no household data.
+ */
+export async function revokeShortLink(code: string, manageToken: string): Promise<boolean> {
+  const row = await findShortLink(code);
+  if (!row || !tokenMatches(manageToken, row)) return false;
+
+  if (!row.revokedAt) {
+    await db
+      .update(sharedScenarios)
+      .set({ revokedAt: new Date(), scenario: {} })
+      .where(eq(sharedScenarios.id, row.id));
+  }
+
+  return true;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Verify a passcode against the link's attempt limit
+ *
+ * Each attempt is counted before the passcode is checked, so concurrent
+ * guesses can't get past MAX_PASSCODE_ATTEMPTS. The attempt that uses up the
+ * limit locks the link for PASSCODE_LOCKOUT_MINUTES.
+ */
+async function checkPasscode(
+  row: SharedScenarioRow,
+  passcode: string
+): Promise<'passcode_invalid' | 'passcode_locked' | null> {
+  const now = new Date();
+
+  const [attempt] = await db
+    .update(sharedScenarios)
+    .set({ failedPasscodeAttempts: sql`${sharedScenarios.failedPasscodeAttempts} + 1` })
+    .where(and(
+      eq(sharedScenarios.id, row.id),
+      lt(sharedScenarios.failedPasscodeAttempts, MAX_PASSCODE_ATTEMPTS),
+      or(isNull(sharedScenarios.passcodeLockedUntil), lte(sharedScenarios.passcodeLockedUntil, now))
+    ))
+    .returning({ failedPasscodeAttempts: sharedScenarios.failedPasscodeAttempts });
+
+  if (!attempt) return 'passcode_locked';
+  if (await verifySecret(passcode, row.passcodeHash!)) return null;
+
+  if (attempt.failedPasscodeAttempts < MAX_PASSCODE_ATTEMPTS) return 'passcode_invalid';
+
+  await db
+    .update(sharedScenarios)
+    .set({
+      failedPasscodeAttempts: 0,
+      passcodeLockedUntil: new Date(now.getTime() + PASSCODE_LOCKOUT_MINUTES * 60 * 1000),
+    })
+    .where(eq(sharedScenarios.id, row.id));
+
+  return 'passcode_locked';
+}
+
+async function findShortLink(code: string): Promise<SharedScenarioRow | null> {
+  const [row] = await db.select().from(sharedScenarios).where(eq(sharedScenarios.code, code)).limit(1);
+  return row ?? null;
+}
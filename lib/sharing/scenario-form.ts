@@ -0,0 +1,255 @@
+/**
+ * Scenario Form Payload
+ *
+ * Full-fidelity calculator form carried by v2 scenarios. Every
+ * CalculatorFormData field is captured so a shared or saved scenario
+ * reproduces the original analysis exactly; the v1 summary fields are
+ * derived from it for display.
+ */
+
+import { z } from 'zod';
+import type { CalculatorFormData } from '@/types';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const AnswerSchema = z.string().max(100);
+const AgeSchema = z.number().int().min(0).max(120);
+const AmountSchema = z.number().min(0).max(1_000_000_000);
+
+const ResidenceSchema = z.object({
+  zip: z.string().max(10),
+  state: z.string().max(2),
+  isPrimary: z.boolean(),
+  monthsPerYear: z.number().min(0).max(12),
+});
+
+const TaxHouseholdSchema = z.object({
+  id: z.string().max(64),
+  label: z.string().max(100),
+  adultIndexes: z.array(z.number().int().min(0)).max(10),
+  childIndexes: z.array(z.number().int().min(0)).max(15),
+  annualIncome: AmountSchema.nullable(),
+});
+
+const IncomeProfileSchema = z.object({
+  filingStatus: z.enum(['single', 'married_joint', 'married_separate', 'head_of_household']).optional(),
+  wages: AmountSchema.optional(),
+  selfEmploymentIncome: AmountSchema.optional(),
+  socialSecurityBenefits: AmountSchema.optional(),
+  taxExemptInterest: AmountSchema.optional(),
+  foreignIncomeExclusion: AmountSchema.optional(),
+  investmentIncome: AmountSchema.optional(),
+  otherIncome: AmountSchema.optional(),
+  iraContribution: AmountSchema.optional(),
+  hsaContribution: AmountSchema.optional(),
+});
+
+// Typed against every CalculatorFormData field so none can be left out
+const FORM_SHAPE = {
+  residences: z.array(ResidenceSchema).min(1).max(20),
+
+  numAdults: z.number().int().min(0).max(10),
+  adultAges: z.array(AgeSchema).max(10),
+  adultsUseTobacco: z.array(z.boolean()).max(10),
+  numChildren: z.number().int().min(0).max(15),
+  childAges: z.array(AgeSchema).max(15),
+  childrenUseTobacco: z.array(z.boolean()).max(15),
+  hasMedicareEligible: z.boolean(),
+  taxHouseholds: z.array(TaxHouseholdSchema).max(10).optional(),
+
+  hasEmployerInsurance: z.boolean(),
+  employerContribution: AmountSchema,
+
+  hasChronicConditions: z.boolean(),
+  chronicConditions: z.array(AnswerSchema).max(50),
+  prescriptionCount: AnswerSchema,
+  providerPreference: AnswerSchema,
+
+  doctorVisitsPerYear: AnswerSchema,
+  specialistVisitsPerYear: AnswerSchema,
+  erVisitsPerYear: AnswerSchema,
+  plannedProcedures: z.boolean(),
+
+  takesSpecialtyMeds: z.boolean(),
+  monthlyMedicationCost: AnswerSchema,
+  usesMailOrderPharmacy: z.boolean(),
+
+  hasPreferredHospital: z.boolean(),
+  preferredHospitalName: z.string().max(200),
+  hospitalImportance: AnswerSchema,
+  needsNationalCoverage: AnswerSchema,
+
+  financialPriority: AnswerSchema,
+  canAffordUnexpectedBill: AnswerSchema,
+
+  preferredPlanTypes: z.array(z.enum(['PPO', 'HMO', 'EPO', 'HDHP', 'Medicare Advantage', 'Medigap'])).max(6),
+
+  hasCurrentInsurance: z.boolean(),
+  currentInsurance: z.object({
+    carrier: z.string().max(200),
+    planType: AnswerSchema,
+    monthlyCost: AmountSchema,
+    deductible: AmountSchema,
+    outOfPocketMax: AmountSchema,
+    coverageNotes: z.string().max(2000),
+  }),
+
+  budget: AnswerSchema,
+  incomeRange: AnswerSchema.optional(),
+  annualIncome: AmountSchema.nullable(),
+  incomeProfile: IncomeProfileSchema.optional(),
+  netWorth: z.number().min(-1_000_000_000).max(1_000_000_000).nullable(),
+  planYear: z.number().int().min(2014).max(2100).optional(),
+
+  currentStep: z.number().int().min(0).max(20),
+  simpleMode: z.boolean(),
+
+  interestedInAddOns: z.boolean(),
+  addOnBudget: AmountSchema.optional(),
+} satisfies Record<keyof CalculatorFormData, z.ZodType>;
+
+export const ScenarioFormSchema = z.object(FORM_SHAPE) satisfies z.ZodType<CalculatorFormData>;
+
+// ============================================================================
+// COMPRESSION
+// ============================================================================
+
+/**
+ * Short keys for the encoded form. Typed against every CalculatorFormData
+ * field so a new field cannot be left out of shared links.
+ */
+const FORM_KEY_MAP: Record<keyof CalculatorFormData, string> = {
+  residences: 'r',
+  numAdults: 'na',
+  adultAges: 'aa',
+  adultsUseTobacco: 'at',
+  numChildren: 'nc',
+  childAges: 'ca',
+  childrenUseTobacco: 'ct',
+  hasMedicareEligible: 'me',
+  taxHouseholds: 'th',
+  hasEmployerInsurance: 'ei',
+  employerContribution: 'ec',
+  hasChronicConditions: 'hc',
+  chronicConditions: 'cc',
+  prescriptionCount: 'rx',
+  providerPreference: 'pv',
+  doctorVisitsPerYear: 'dv',
+  specialistVisitsPerYear: 'sv',
+  erVisitsPerYear: 'er',
+  plannedProcedures: 'pl',
+  takesSpecialtyMeds: 'sm',
+  monthlyMedicationCost: 'mc',
+  usesMailOrderPharmacy: 'mo',
+  hasPreferredHospital: 'ph',
+  preferredHospitalName: 'hn',
+  hospitalImportance: 'hm',
+  needsNationalCoverage: 'nn',
+  financialPriority: 'fp',
+  canAffordUnexpectedBill: 'ub',
+  preferredPlanTypes: 'pt',
+  hasCurrentInsurance: 'hi',
+  currentInsurance: 'ci',
+  budget: 'b',
+  incomeRange: 'ir',
+  annualIncome: 'i',
+  incomeProfile: 'ip',
+  netWorth: 'nw',
+  planYear: 'py',
+  currentStep: 'st',
+  simpleMode: 'si',
+  interestedInAddOns: 'ao',
+  addOnBudget: 'ab',
+};
+
+/**
+ * Values left out of the encoded form; missing keys are restored from these
+ */
+function getFormDefaults(): Partial<CalculatorFormData> {
+  return {
+    numAdults: 0,
+    adultAges: [],
+    adultsUseTobacco: [],
+    numChildren: 0,
+    childAges: [],
+    childrenUseTobacco: [],
+    hasMedicareEligible: false,
+    hasEmployerInsurance: false,
+    employerContribution: 0,
+    hasChronicConditions: false,
+    chronicConditions: [],
+    prescriptionCount: '',
+    providerPreference: '',
+    doctorVisitsPerYear: '',
+    specialistVisitsPerYear: '',
+    erVisitsPerYear: '',
+    plannedProcedures: false,
+    takesSpecialtyMeds: false,
+    monthlyMedicationCost: '',
+    usesMailOrderPharmacy: false,
+    hasPreferredHospital: false,
+    preferredHospitalName: '',
+    hospitalImportance: '',
+    needsNationalCoverage: '',
+    financialPriority: '',
+    canAffordUnexpectedBill: '',
+    preferredPlanTypes: [],
+    hasCurrentInsurance: false,
+    currentInsurance: {
+      carrier: '',
+      planType: '',
+      monthlyCost: 0,
+      deductible: 0,
+      outOfPocketMax: 0,
+      coverageNotes: '',
+    },
+    budget: '',
+    annualIncome: null,
+    netWorth: null,
+    currentStep: 0,
+    simpleMode: false,
+    interestedInAddOns: false,
+  };
+}
+
+const REVERSE_FORM_KEY_MAP: Record<string, keyof CalculatorFormData> = Object.fromEntries(
+  Object.entries(FORM_KEY_MAP).map(([k, v]) => [v, k as keyof CalculatorFormData])
+);
+
+/**
+ * Compress a form to short keys, dropping values that match the defaults
+ */
+export function compressForm(form: CalculatorFormData): Record<string, unknown> {
+  const defaults = getFormDefaults();
+  const compressed: Record<string, unknown> = {};
+
+  for (const key of Object.keys(FORM_KEY_MAP) as (keyof CalculatorFormData)[]) {
+    const value = form[key];
+    if (value === undefined) continue;
+    if (key in defaults && JSON.stringify(value) === JSON.stringify(defaults[key])) continue;
+    compressed[FORM_KEY_MAP[key]] = value;
+  }
+
+  return compressed;
+}
+
+/**
+ * Restore a compressed form (validate the result with ScenarioFormSchema)
+ */
+export function expandForm(compressed: Record<string, unknown>): Record<string, unknown> {
+  const form: Record<string, unknown> = getFormDefaults();
+
+  for (const [shortKey, value] of Object.entries(compressed)) {
+    const key = REVERSE_FORM_KEY_MAP[shortKey];
+    if (key) form[key] = value;
+  }
+
+  return form;
+}
+
+// Export for testing
+export const _internal = {
+  FORM_KEY_MAP,
+};
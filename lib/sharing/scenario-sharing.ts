@@ -3,9 +3,23 @@
  *
  * Provides utilities for encoding/decoding coverage scenarios into shareable URLs.
  * Uses compression and base64url encoding for URL-safe strings.
+ *
+ * Version 1 scenarios carry a summary of the household and usage; version 2
+ * scenarios also carry the full calculator form, so they reproduce the
+ * original analysis exactly. v1 codes still decode and can be upgraded with
+ * migrateScenario.
  */
 
 import { z } from 'zod';
+import type { CalculatorFormData } from '@/types';
+import type { SelectablePlanTypeValue } from '@/lib/constants';
+import { CALCULATOR_STEPS } from '@/lib/constants';
+import { ScenarioFormSchema, compressForm, expandForm } from './scenario-form';
+
+/**
+ * Current scenario version
+ */
+export const SCENARIO_VERSION = 2;
 
 /**
  * Shareable scenario data schema
@@ -46,6 +60,9 @@ export const ShareableScenarioSchema = z.object({
 
   // Timestamp
   ts: z.number().optional(), // Unix timestamp
+
+  // Full calculator form (v2); the fields above are derived from it
+  form: ScenarioFormSchema.optional(),
 });
 
 export type ShareableScenario = z.infer<typeof ShareableScenarioSchema>;
@@ -74,6 +91,7 @@ const KEY_MAP = {
   currentPremium: 'cp',
   currentDeductible: 'cd',
   ts: 'ts',
+  form: 'f',
 } as const;
 
 const REVERSE_KEY_MAP: Record<string, string> = Object.fromEntries(
@@ -117,6 +135,14 @@ const REVERSE_PLAN_TYPE_MAP: Record<number, string> = {
 function compressScenario(scenario: ShareableScenario): Record<string, unknown> {
   const compressed: Record<string, unknown> = {};
 
+  // v2: the summary fields are derived from the form when decoding
+  if (scenario.form) {
+    compressed[KEY_MAP.v] = SCENARIO_VERSION;
+    compressed[KEY_MAP.form] = compressForm(scenario.form);
+    if (scenario.ts) compressed[KEY_MAP.ts] = scenario.ts;
+    return compressed;
+  }
+
   // Always include version
   compressed[KEY_MAP.v] = scenario.v || 1;
 
@@ -160,6 +186,14 @@ function compressScenario(scenario: ShareableScenario): Record<string, unknown>
  * Decompress minimal JSON back to scenario
  */
 function decompressScenario(compressed: Record<string, unknown>): ShareableScenario {
+  const form = compressed[KEY_MAP.form];
+  if (form && typeof form === 'object') {
+    return createScenarioFromFormData(
+      ScenarioFormSchema.parse(expandForm(form as Record<string, unknown>)),
+      compressed[KEY_MAP.ts] as number | undefined
+    );
+  }
+
   return {
     v: (compressed[KEY_MAP.v] as number) || 1,
     zip: compressed[KEY_MAP.zip] as string,
@@ -311,6 +345,167 @@ export function getScenarioSummary(scenario: ShareableScenario): string {
   return `${household.join(', ')} in ${location} | Income: ${income}`;
 }
 
+/**
+ * Create a v2 scenario from calculator form data
+ *
+ * The summary fields are approximations of the form's answers for display;
+ * the form itself is kept whole.
+ */
+export function createScenarioFromFormData(formData: CalculatorFormData, ts?: number): ShareableScenario {
+  const residence = formData.residences.find((r) => r.isPrimary) ?? formData.residences[0];
+  const planType = formData.preferredPlanTypes.length === 1
+    ? formData.preferredPlanTypes[0]!.toLowerCase()
+    : 'any';
+
+  return {
+    v: SCENARIO_VERSION,
+    zip: residence?.zip ?? '',
+    state: residence?.state ?? '',
+    adults: Math.max(1, formData.numAdults),
+    children: formData.numChildren,
+    ages: [...formData.adultAges, ...formData.childAges],
+    chronic: formData.hasChronicConditions,
+    tobacco: formData.adultsUseTobacco.some(Boolean),
+    prescriptions: PRESCRIPTION_BUCKET_COUNTS[formData.prescriptionCount] ?? 0,
+    doctorVisits: DOCTOR_VISIT_BUCKET_COUNTS[formData.doctorVisitsPerYear] ?? 0,
+    specialistVisits: SPECIALIST_VISIT_BUCKET_COUNTS[formData.specialistVisitsPerYear] ?? 0,
+    income: formData.annualIncome ?? 0,
+    priority: FINANCIAL_PRIORITY_TO_PRIORITY[formData.financialPriority] ?? 'balanced',
+    planType: (['hmo', 'ppo', 'epo', 'hdhp'] as const).find((t) => t === planType) ?? 'any',
+    hasEmployer: formData.hasEmployerInsurance,
+    employerContribution: formData.employerContribution || undefined,
+    currentPremium: formData.hasCurrentInsurance ? formData.currentInsurance.monthlyCost : undefined,
+    currentDeductible: formData.hasCurrentInsurance ? formData.currentInsurance.deductible : undefined,
+    ts,
+    form: formData,
+  };
+}
+
+/**
+ * Upgrade a v1 scenario to v2 by attaching the form its summary maps to.
+ * v1 codes never carried the full form, so the upgrade uses the same
+ * approximations as scenarioToFormData; v2 scenarios are returned as-is.
+ */
+export function migrateScenario(scenario: ShareableScenario): ShareableScenario {
+  if (scenario.form) return scenario;
+
+  return { ...scenario, v: SCENARIO_VERSION, form: scenarioToFormData(scenario) };
+}
+
+/**
+ * Convert a scenario to calculator form data so it can be re-run through
+ * analyzeInsurance. v2 scenarios return their form unchanged (apart from an
+ * explicit planYear); v1 counts are mapped onto the calculator's answer buckets.
+ */
+export function scenarioToFormData(scenario: ShareableScenario, planYear?: number): CalculatorFormData {
+  if (scenario.form) {
+    return planYear === undefined ? { ...scenario.form } : { ...scenario.form, planYear };
+  }
+
+  const adultAges = scenario.ages.slice(0, scenario.adults);
+  const childAges = scenario.ages.slice(scenario.adults, scenario.adults + scenario.children);
+
+  return {
+    residences: [{ zip: scenario.zip, state: scenario.state, isPrimary: true, monthsPerYear: 12 }],
+    numAdults: adultAges.length,
+    adultAges,
+    adultsUseTobacco: adultAges.map(() => scenario.tobacco),
+    numChildren: childAges.length,
+    childAges,
+    childrenUseTobacco: childAges.map(() => false),
+    hasMedicareEligible: adultAges.some((age) => age >= 65),
+    hasEmployerInsurance: scenario.hasEmployer,
+    employerContribution: scenario.employerContribution ?? 0,
+    hasChronicConditions: scenario.chronic,
+    chronicConditions: [],
+    prescriptionCount: toPrescriptionBucket(scenario.prescriptions),
+    providerPreference: '',
+    doctorVisitsPerYear: toDoctorVisitBucket(scenario.doctorVisits),
+    specialistVisitsPerYear: scenario.specialistVisits === 0
+      ? 'none'
+      : scenario.specialistVisits >= 12 ? 'monthly-or-more' : '1-3',
+    erVisitsPerYear: 'none',
+    plannedProcedures: false,
+    takesSpecialtyMeds: false,
+    monthlyMedicationCost: '',
+    usesMailOrderPharmacy: false,
+    hasPreferredHospital: false,
+    preferredHospitalName: '',
+    hospitalImportance: '',
+    needsNationalCoverage: '',
+    financialPriority: PRIORITY_TO_FINANCIAL_PRIORITY[scenario.priority],
+    canAffordUnexpectedBill: '',
+    preferredPlanTypes: scenario.planType === 'any'
+      ? []
+      : [scenario.planType.toUpperCase() as SelectablePlanTypeValue],
+    hasCurrentInsurance: scenario.currentPremium !== undefined,
+    currentInsurance: {
+      carrier: '',
+      planType: '',
+      monthlyCost: scenario.currentPremium ?? 0,
+      deductible: scenario.currentDeductible ?? 0,
+      outOfPocketMax: 0,
+      coverageNotes: '',
+    },
+    budget: scenario.budget !== undefined ? toBudgetBucket(scenario.budget) : 'not-sure',
+    annualIncome: scenario.income,
+    netWorth: null,
+    planYear,
+    currentStep: CALCULATOR_STEPS.BUDGET,
+    simpleMode: false,
+    interestedInAddOns: false,
+  };
+}
+
+const PRIORITY_TO_FINANCIAL_PRIORITY: Record<ShareableScenario['priority'], string> = {
+  'low-premium': 'lowest-premium',
+  balanced: 'balanced',
+  comprehensive: 'lowest-oop-max',
+};
+
+const FINANCIAL_PRIORITY_TO_PRIORITY: Record<string, ShareableScenario['priority']> = {
+  'lowest-premium': 'low-premium',
+  balanced: 'balanced',
+  'lowest-deductible': 'comprehensive',
+  'lowest-oop-max': 'comprehensive',
+};
+
+// Upper bound of each answer bucket, so the counts map back to the same bucket
+const PRESCRIPTION_BUCKET_COUNTS: Record<string, number> = {
+  none: 0, '1-3': 3, '4-6': 6, '7-10': 10, '10+': 11,
+};
+
+const DOCTOR_VISIT_BUCKET_COUNTS: Record<string, number> = {
+  '0-2': 2, '3-5': 5, '6-10': 10, '10+': 11,
+};
+
+const SPECIALIST_VISIT_BUCKET_COUNTS: Record<string, number> = {
+  none: 0, '1-3': 3, 'monthly-or-more': 12,
+};
+
+function toPrescriptionBucket(count: number): string {
+  if (count === 0) return 'none';
+  if (count <= 3) return '1-3';
+  if (count <= 6) return '4-6';
+  if (count <= 10) return '7-10';
+  return '10+';
+}
+
+function toDoctorVisitBucket(visits: number): string {
+  if (visits <= 2) return '0-2';
+  if (visits <= 5) return '3-5';
+  if (visits <= 10) return '6-10';
+  return '10+';
+}
+
+function toBudgetBucket(monthlyBudget: number): string {
+  if (monthlyBudget < 500) return 'less-500';
+  if (monthlyBudget < 1000) return '500-1000';
+  if (monthlyBudget < 2000) return '1000-2000';
+  if (monthlyBudget < 3500) return '2000-3500';
+  return '3500-plus';
+}
+
 // Export key maps for testing
 export const _internal = {
   KEY_MAP,
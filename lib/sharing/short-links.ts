@@ -0,0 +1,116 @@
+/**
+ * Short-Link Sharing
+ *
+ * Opt-in alternative to encodeScenario: the scenario is stored server-side
+ * and the link carries only a short opaque code, so income and ages never
+ * appear in the URL. Links can expire, be revoked with the manage token
+ * returned at creation, and be protected with a passcode. A link locks for a
+ * while after too many wrong passcodes.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ShortLinkOptions {
+  /** Days until the link stops working (default 30) */
+  expiresInDays?: number;
+  /** Passcode the recipient must enter */
+  passcode?: string;
+}
+
+export interface ShortLinkStats {
+  code: string;
+  viewCount: number;
+  lastViewedAt?: number;
+  expiresAt?: number;
+  revokedAt?: number;
+  passcodeProtected: boolean;
+  createdAt: number;
+}
+
+/**
+ * Why a short link could not be opened
+ */
+export type ShortLinkError =
+  | 'not_found'
+  | 'expired'
+  | 'revoked'
+  | 'passcode_required'
+  | 'passcode_invalid'
+  | 'passcode_locked';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SHORT_CODE_LENGTH = 10;
+export const SHORT_CODE_PATTERN = /^[A-Za-z0-9]{10}$/;
+
+export const DEFAULT_SHORT_LINK_EXPIRY_DAYS = 30;
+export const MAX_SHORT_LINK_EXPIRY_DAYS = 365;
+export const MIN_PASSCODE_LENGTH = 8;
+
+/** Wrong passcodes allowed per link before it locks */
+export const MAX_PASSCODE_ATTEMPTS = 5;
+export const PASSCODE_LOCKOUT_MINUTES = 15;
+
+/** Request header carrying a link passcode */
+export const SHARE_PASSCODE_HEADER = 'x-share-passcode';
+/** Request header carrying a link's manage token */
+export const SHARE_MANAGE_TOKEN_HEADER = 'x-share-token';
+
+export const SHORT_LINK_ERROR_MESSAGES: Record<ShortLinkError, string> = {
+  not_found: 'This share link could not be found.',
+  expired: 'This share link has expired.',
+  revoked: 'This share link has been turned off by the person who shared it.',
+  passcode_required: 'Enter the passcode you were given to view this scenario.',
+  passcode_invalid: 'That passcode is not correct.',
+  passcode_locked: 'Too many incorrect passcodes. Try again later.',
+};
+
+const CODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// ============================================================================
+// CODES
+// ============================================================================
+
+/**
+ * Generate a random short code
+ *
+ * Rejection sampling keeps every character equally likely.
+ */
+export function generateShortCode(): string {
+  const limit = 256 - (256 % CODE_ALPHABET.length);
+  let code = '';
+
+  while (code.length < SHORT_CODE_LENGTH) {
+    const bytes = crypto.getRandomValues(new Uint8Array(SHORT_CODE_LENGTH * 2));
+    for (const byte of bytes) {
+      if (byte < limit && code.length < SHORT_CODE_LENGTH) {
+        code += CODE_ALPHABET[byte % CODE_ALPHABET.length];
+      }
+    }
+  }
+
+  return code;
+}
+
+/**
+ * Whether a /share/[code] segment is a short-link code rather than an
+ * encoded scenario (encoded scenarios are always much longer)
+ */
+export function isShortLinkCode(code: string): boolean {
+  return SHORT_CODE_PATTERN.test(code);
+}
+
+/**
+ * When a link created now should expire
+ */
+export function getShortLinkExpiry(
+  expiresInDays: number = DEFAULT_SHORT_LINK_EXPIRY_DAYS,
+  now: number = Date.now()
+): Date {
+  const days = Math.min(Math.max(1, Math.round(expiresInDays)), MAX_SHORT_LINK_EXPIRY_DAYS);
+  return new Date(now + days * 24 * 60 * 60 * 1000);
+}
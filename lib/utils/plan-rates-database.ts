@@ -0,0 +1,69 @@
+'use server';
+
+/**
+ * Server-only database access for imported plan rates
+ *
+ * Reads aca_plans rows loaded from the CMS Public Use Files in the active
+ * plan data version. Separated from the calculator for the same reason as
+ * slcsp-database.ts.
+ */
+
+import { getDb } from '@/db/client';
+import { acaPlans } from '@/db/schema/insurance-costs';
+import { and, avg, desc, eq, inArray, max } from 'drizzle-orm';
+import { logger } from '@/lib/logger';
+import { PUF_DATA_SOURCE } from '@/lib/data-import/puf-parser';
+import { getActiveDataVersionId, versionScope } from '@/lib/data-import/data-versions';
+
+/**
+ * Average age-21, non-tobacco Silver premium per state from imported PUF
+ * rates. Uses the requested plan year when given, otherwise each state's
+ * latest imported year; states without imported plans are left out.
+ */
+export async function getStateBaseRatesFromDatabase(
+  states: string[],
+  planYear?: number
+): Promise<Record<string, number>> {
+  if (states.length === 0) return {};
+
+  try {
+    const db = getDb();
+    const versionId = await getActiveDataVersionId('aca_plans');
+    const filters = [
+      versionScope(acaPlans.dataVersionId, versionId),
+      inArray(acaPlans.state, states),
+      eq(acaPlans.dataSource, PUF_DATA_SOURCE),
+      eq(acaPlans.metalTier, 'Silver'),
+      eq(acaPlans.age, 21),
+      eq(acaPlans.isActive, true),
+    ];
+
+    const years = planYear
+      ? states.map((state) => ({ state, year: planYear }))
+      : await db
+          .select({ state: acaPlans.state, year: max(acaPlans.planYear) })
+          .from(acaPlans)
+          .where(and(...filters))
+          .groupBy(acaPlans.state);
+
+    const rows = await db
+      .select({ state: acaPlans.state, planYear: acaPlans.planYear, premium: avg(acaPlans.monthlyPremium) })
+      .from(acaPlans)
+      .where(and(...filters))
+      .groupBy(acaPlans.state, acaPlans.planYear)
+      .orderBy(desc(acaPlans.planYear));
+
+    const rates: Record<string, number> = {};
+    for (const { state, year } of years) {
+      const row = rows.find((r) => r.state === state && r.planYear === year);
+      const premium = row?.premium ? parseFloat(row.premium) : NaN;
+      if (premium > 0) rates[state] = Math.round(premium * 100) / 100;
+    }
+
+    logger.debug('Loaded imported state base rates', { states, planYear, found: Object.keys(rates) });
+    return rates;
+  } catch (error) {
+    logger.error('Error querying database for state base rates', { error, states });
+    return {};
+  }
+}
@@ -5,12 +5,14 @@
  *
  * This file contains database queries that must only run on the server.
  * Separated from slcsp-lookup.ts to avoid webpack bundling issues.
+ * Only the active CMS geography data version is read.
  */
 
 import { getDb } from '@/db/client';
 import { counties, zipCodeMappings } from '@/db/schema/state-metadata';
 import { eq, and } from 'drizzle-orm';
 import { logger } from '@/lib/logger';
+import { getActiveDataVersionId, versionScope } from '@/lib/data-import/data-versions';
 import type { SLCSPResult } from './slcsp-lookup';
 
 /**
@@ -23,6 +25,7 @@ export async function getSLCSPFromDatabase(
 ): Promise<SLCSPResult | null> {
   try {
     const db = getDb();
+    const versionId = await getActiveDataVersionId('cms_geography');
 
     // First, look up the county and rating area from ZIP code
     const zipMapping = await db
@@ -31,7 +34,10 @@ export async function getSLCSPFromDatabase(
         stateCode: zipCodeMappings.stateCode,
       })
       .from(zipCodeMappings)
-      .where(eq(zipCodeMappings.zipCode, zipCode))
+      .where(and(
+        eq(zipCodeMappings.zipCode, zipCode),
+        versionScope(zipCodeMappings.dataVersionId, versionId)
+      ))
       .limit(1);
 
     if (!zipMapping || zipMapping.length === 0) {
@@ -58,7 +64,8 @@ export async function getSLCSPFromDatabase(
       .where(
         and(
           eq(counties.countyFips, countyFips),
-          eq(counties.stateCode, effectiveStateCode)
+          eq(counties.stateCode, effectiveStateCode),
+          versionScope(counties.dataVersionId, versionId)
         )
       )
       .limit(1);
@@ -3,12 +3,15 @@
  *
  * Uses Healthcare.gov API to get real SLCSP benchmark premiums for accurate
  * subsidy calculations. Falls back to database (CMS data) then estimates.
+ * With an offline data pack configured, only the pack and estimates are used.
  */
 
 import { createHealthcareGovClient } from '@/lib/integrations/healthcare-gov/client';
 import type { Place, Household } from '@/lib/integrations/healthcare-gov/types';
 import { logger } from '@/lib/logger';
 import { getSLCSPFromDatabase } from './slcsp-database';
+import { isOfflineDataMode } from '@/lib/data-pack/pack';
+import { getSLCSPFromDataPack } from '@/lib/data-pack/actions';
 
 // Cache for SLCSP lookups to avoid hitting rate limits
 const slcspCache = new Map<string, { premium: number; timestamp: number; source: 'api' | 'database' | 'estimate' }>();
@@ -106,6 +109,18 @@ export async function getSLCSP(
     };
   }
 
+  // Offline data pack: no API or database access
+  if (isOfflineDataMode()) {
+    const packResult = await getSLCSPFromDataPack(zipCode, householdSize, stateCode);
+    const result = packResult ?? getEstimatedSLCSP(householdSize);
+    slcspCache.set(cacheKey, {
+      premium: result.monthlyPremium,
+      timestamp: Date.now(),
+      source: packResult ? 'database' : 'estimate'
+    });
+    return result;
+  }
+
   // Check if API key is available
   if (!process.env.HEALTHCARE_GOV_API_KEY) {
     logger.warn('Healthcare.gov API key not configured, trying database fallback');
@@ -4,6 +4,15 @@
  */
 
 import { z } from 'zod';
+import { ShareableScenarioSchema } from '@/lib/sharing/scenario-sharing';
+import { MAX_SHORT_LINK_EXPIRY_DAYS, MIN_PASSCODE_LENGTH } from '@/lib/sharing/short-links';
+import {
+  DEFAULT_BRAND_COLORS,
+  HEX_COLOR_PATTERN,
+  LOGO_DATA_URL_PATTERN,
+  MAX_LOGO_DATA_URL_LENGTH,
+} from '@/lib/branding/branding';
+import { MAX_REANALYSIS_CLIENTS_PER_REQUEST } from '@/lib/broker/bulk-reanalysis';
 
 // ============================================================================
 // Common Schemas
@@ -25,6 +34,8 @@ export const PercentageSchema = z.number().min(0).max(100);
 
 export const TaxRateSchema = z.number().min(0).max(0.5, 'Tax rate must be between 0 and 0.5');
 
+export const PlanYearSchema = z.number().int().min(2024, 'Plan year must be 2024 or later').max(2026, 'Plan year must be 2026 or earlier');
+
 // ============================================================================
 // Filing Status
 // ============================================================================
@@ -46,6 +57,8 @@ export const PlanTypeSchema = z.enum(['HMO', 'PPO', 'EPO', 'POS', 'HDHP']);
 
 export const MetalLevelSchema = z.enum(['bronze', 'silver', 'gold', 'platinum', 'catastrophic']);
 
+export const CSRLevelSchema = z.enum(['94%', '87%', '73%', 'None']);
+
 export const PlanDetailsSchema = z.object({
   id: z.string().min(1, 'Plan ID is required'),
   name: z.string().min(1, 'Plan name is required'),
@@ -65,6 +78,7 @@ export const PlanDetailsSchema = z.object({
   coinsurance: PercentageSchema.optional(),
   hsaEligible: z.boolean().optional(),
   qualityRating: z.number().min(1).max(5).optional(),
+  csrLevel: CSRLevelSchema.optional(),
 });
 
 export type PlanDetails = z.infer<typeof PlanDetailsSchema>;
@@ -89,6 +103,7 @@ export const CompareRequestSchema = z.object({
   planA: PlanDetailsSchema,
   planB: PlanDetailsSchema,
   userProfile: UserHealthProfileSchema.optional(),
+  csrLevel: CSRLevelSchema.optional(),
   mode: z.enum(['full', 'quick']).default('full'),
 });
 
@@ -98,8 +113,22 @@ export type CompareRequest = z.infer<typeof CompareRequestSchema>;
 // MAGI Calculator Schemas
 // ============================================================================
 
+export const IncomeProfileSchema = z.object({
+  filingStatus: FilingStatusSchema.optional(),
+  wages: MonetaryAmountSchema.optional(),
+  selfEmploymentIncome: MonetaryAmountSchema.optional(),
+  socialSecurityBenefits: MonetaryAmountSchema.optional(),
+  taxExemptInterest: MonetaryAmountSchema.optional(),
+  foreignIncomeExclusion: MonetaryAmountSchema.optional(),
+  investmentIncome: MonetaryAmountSchema.optional(),
+  otherIncome: MonetaryAmountSchema.optional(),
+  iraContribution: MonetaryAmountSchema.optional(),
+  hsaContribution: MonetaryAmountSchema.optional(),
+});
+
 export const MAGIAnalysisRequestSchema = z.object({
-  estimatedMAGI: MonetaryAmountSchema,
+  estimatedMAGI: MonetaryAmountSchema.optional(),
+  incomeProfile: IncomeProfileSchema.optional(),
   householdSize: HouseholdSizeSchema,
   filingStatus: FilingStatusSchema,
   state: StateCodeSchema,
@@ -110,7 +139,13 @@ export const MAGIAnalysisRequestSchema = z.object({
   has401kAccess: z.boolean().optional(),
   hasHDHP: z.boolean().optional(),
   selfEmploymentIncome: MonetaryAmountSchema.optional(),
-});
+  preDeductionMAGI: MonetaryAmountSchema.optional(),
+  monthlyPlanPremium: MonetaryAmountSchema.optional(),
+  planYear: PlanYearSchema.optional(),
+}).refine(
+  data => data.estimatedMAGI !== undefined || data.incomeProfile !== undefined || data.preDeductionMAGI !== undefined,
+  { message: 'Either estimatedMAGI, preDeductionMAGI or incomeProfile is required', path: ['estimatedMAGI'] }
+);
 
 export type MAGIAnalysisRequest = z.infer<typeof MAGIAnalysisRequestSchema>;
 
@@ -120,16 +155,19 @@ export const MAGIQuickCalculationRequestSchema = z.discriminatedUnion('type', [
     magi: MonetaryAmountSchema,
     householdSize: HouseholdSizeSchema,
     benchmarkPremium: MonetaryAmountSchema,
+    planYear: PlanYearSchema.optional(),
   }),
   z.object({
     type: z.literal('fpl_percent'),
     magi: MonetaryAmountSchema,
     householdSize: HouseholdSizeSchema,
+    planYear: PlanYearSchema.optional(),
   }),
   z.object({
     type: z.literal('income_at_fpl'),
     fplPercent: z.number().min(0).max(1000),
     householdSize: HouseholdSizeSchema,
+    planYear: PlanYearSchema.optional(),
   }),
   z.object({
     type: z.literal('medicaid_expansion'),
@@ -139,6 +177,61 @@ export const MAGIQuickCalculationRequestSchema = z.discriminatedUnion('type', [
 
 export type MAGIQuickCalculationRequest = z.infer<typeof MAGIQuickCalculationRequestSchema>;
 
+// ============================================================================
+// PTC Reconciliation Schemas
+// ============================================================================
+
+export const MonthSchema = z.number().int().min(1, 'Month must be 1-12').max(12, 'Month must be 1-12');
+
+export const ReconciliationMonthSchema = z.object({
+  month: MonthSchema,
+  enrollmentPremium: MonetaryAmountSchema,
+  slcspPremium: MonetaryAmountSchema,
+  advancePTC: MonetaryAmountSchema,
+});
+
+export const MAGIComponentsSchema = z.object({
+  wages: MonetaryAmountSchema,
+  selfEmploymentIncome: z.number().min(-10000000).max(10000000),
+  unemploymentBenefits: MonetaryAmountSchema,
+  socialSecurityTaxable: MonetaryAmountSchema,
+  investmentIncome: z.number().min(-10000000).max(10000000),
+  rentalIncome: z.number().min(-10000000).max(10000000),
+  alimonyReceived: MonetaryAmountSchema,
+  otherIncome: MonetaryAmountSchema,
+  taxExemptInterest: MonetaryAmountSchema,
+  foreignIncomeExclusion: MonetaryAmountSchema,
+  nonTaxableSocialSecurity: MonetaryAmountSchema,
+  studentLoanInterest: MonetaryAmountSchema,
+  alimonyPaid: MonetaryAmountSchema,
+  iraContribution: MonetaryAmountSchema,
+  healthSavingsAccount: MonetaryAmountSchema,
+  selfEmploymentTax: MonetaryAmountSchema,
+}).partial();
+
+export const ReconciliationRequestSchema = z.object({
+  taxYear: PlanYearSchema,
+  filingStatus: FilingStatusSchema,
+  householdSize: HouseholdSizeSchema,
+  state: StateCodeSchema,
+  finalMAGI: MonetaryAmountSchema.optional(),
+  magiComponents: MAGIComponentsSchema.optional(),
+  months: z.array(ReconciliationMonthSchema).min(1, 'At least one coverage month is required').max(12)
+    .refine(
+      months => new Set(months.map(m => m.month)).size === months.length,
+      'Each month may only appear once'
+    ),
+  householdChanges: z.array(z.object({
+    month: MonthSchema,
+    description: z.string().min(1).max(200),
+  })).max(24).optional(),
+}).refine(
+  data => data.finalMAGI !== undefined || data.magiComponents !== undefined,
+  { message: 'Either finalMAGI or magiComponents is required', path: ['finalMAGI'] }
+);
+
+export type ReconciliationRequest = z.infer<typeof ReconciliationRequestSchema>;
+
 // ============================================================================
 // HSA Calculator Schemas
 // ============================================================================
@@ -149,7 +242,8 @@ export const HSACalculationRequestSchema = z.object({
   coverageType: CoverageTypeSchema,
   age: AdultAgeSchema,
   currentBalance: MonetaryAmountSchema.optional(),
-  annualIncome: MonetaryAmountSchema,
+  annualIncome: MonetaryAmountSchema.optional(),
+  incomeProfile: IncomeProfileSchema.optional(),
   federalTaxRate: TaxRateSchema,
   stateTaxRate: TaxRateSchema.optional(),
   employerContribution: MonetaryAmountSchema.optional(),
@@ -159,7 +253,10 @@ export const HSACalculationRequestSchema = z.object({
   yearsToRetirement: z.number().int().min(0).max(50).optional(),
   expectedReturn: z.number().min(0).max(0.20).optional(),
   healthcareInflation: z.number().min(0).max(0.15).optional(),
-});
+}).refine(
+  data => data.annualIncome !== undefined || data.incomeProfile !== undefined,
+  { message: 'Either annualIncome or incomeProfile is required', path: ['annualIncome'] }
+);
 
 export type HSACalculationRequest = z.infer<typeof HSACalculationRequestSchema>;
 
@@ -249,6 +346,285 @@ export const MarketplacePlanSearchRequestSchema = z.object({
 
 export type MarketplacePlanSearchRequest = z.infer<typeof MarketplacePlanSearchRequestSchema>;
 
+// ============================================================================
+// Broker Workspace Schemas
+// ============================================================================
+
+export const BrokerClientStatusSchema = z.enum(['active', 'inactive', 'prospect', 'archived']);
+
+export const BrokerRecordIdSchema = z.string().min(1).max(64).regex(/^[A-Za-z0-9_-]+$/, 'Invalid ID');
+
+const EstimatedCostSchema = z.object({
+  low: MonetaryAmountSchema,
+  high: MonetaryAmountSchema,
+});
+
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const ClientKeyDatesSchema = z.object({
+  renewalDate: IsoDateSchema.optional(),
+  dateOfBirth: IsoDateSchema.optional(),
+  spouseDateOfBirth: IsoDateSchema.optional(),
+  lifeEvents: z.array(z.object({
+    reason: z.enum([
+      'loss_of_coverage', 'job_change', 'moved', 'marriage', 'divorce', 'birth_adoption',
+      'death_in_family', 'gained_citizenship', 'released_incarceration', 'income_change', 'error_or_misconduct',
+    ]),
+    eventDate: IsoDateSchema,
+  })).max(20).optional(),
+  receivesAdvancePTC: z.boolean().optional(),
+});
+
+const TaskIdSchema = z.string().min(1).max(128);
+
+export const ClientTaskStateSchema = z.object({
+  followUps: z.array(z.object({
+    id: TaskIdSchema,
+    title: z.string().trim().min(1).max(200),
+    description: z.string().max(2000).optional(),
+    dueDate: z.number().int().min(0),
+    priority: z.enum(['high', 'medium', 'low']),
+    createdAt: z.number().int().min(0),
+  })).max(500),
+  completed: z.record(TaskIdSchema, z.number().int().min(0))
+    .refine((completed) => Object.keys(completed).length <= 2000, 'Too many completed tasks'),
+});
+
+export const BrokerClientCreateSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required').max(100),
+  lastName: z.string().trim().min(1, 'Last name is required').max(100),
+  email: z.string().email().max(255).optional(),
+  phone: z.string().max(50).optional(),
+  notes: z.string().max(10000).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(50).default([]),
+  status: BrokerClientStatusSchema.default('prospect'),
+  keyDates: ClientKeyDatesSchema.optional(),
+  tasks: ClientTaskStateSchema.optional(),
+});
+
+export type BrokerClientCreateRequest = z.infer<typeof BrokerClientCreateSchema>;
+
+export const BrokerClientUpdateSchema = BrokerClientCreateSchema.partial().extend({
+  tags: z.array(z.string().min(1).max(50)).max(50).optional(),
+  status: BrokerClientStatusSchema.optional(),
+});
+
+export type BrokerClientUpdateRequest = z.infer<typeof BrokerClientUpdateSchema>;
+
+const ConsentScopeSchema = z.enum(['data_storage', 'health_information', 'income_information', 'contact']);
+
+export const ClientConsentCreateSchema = z.object({
+  scopes: z.array(ConsentScopeSchema).min(1, 'Select at least one consent scope').max(4),
+  method: z.enum(['verbal', 'written', 'electronic']),
+  consentedAt: z.number().int().min(0).optional(),
+  recordedBy: z.string().trim().max(200).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+export type ClientConsentCreateRequest = z.infer<typeof ClientConsentCreateSchema>;
+
+const RetentionRuleSchema = z.object({
+  action: z.enum(['keep', 'anonymize', 'delete']),
+  afterDays: z.number().int().min(0).max(3650),
+});
+
+export const RetentionPolicyUpdateSchema = z.object({
+  byStatus: z.object({
+    active: RetentionRuleSchema.optional(),
+    inactive: RetentionRuleSchema.optional(),
+    prospect: RetentionRuleSchema.optional(),
+    archived: RetentionRuleSchema.optional(),
+  }).optional(),
+  consentRevoked: RetentionRuleSchema.optional(),
+});
+
+export type RetentionPolicyUpdateRequest = z.infer<typeof RetentionPolicyUpdateSchema>;
+
+export const RetentionSweepRequestSchema = z.object({
+  dryRun: z.boolean().default(true),
+});
+
+export const BrokerScenarioCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Scenario name is required').max(200),
+  scenario: ShareableScenarioSchema,
+  recommendedPlan: z.string().max(200).optional(),
+  estimatedCost: EstimatedCostSchema.optional(),
+  notes: z.string().max(10000).optional(),
+});
+
+export type BrokerScenarioCreateRequest = z.infer<typeof BrokerScenarioCreateSchema>;
+
+export const BrokerScenarioUpdateSchema = BrokerScenarioCreateSchema.partial();
+
+export type BrokerScenarioUpdateRequest = z.infer<typeof BrokerScenarioUpdateSchema>;
+
+const SyncedScenarioSchema = BrokerScenarioCreateSchema.extend({
+  id: BrokerRecordIdSchema,
+  createdAt: z.number().int().min(0),
+  updatedAt: z.number().int().min(0),
+});
+
+const SyncedClientSchema = BrokerClientCreateSchema.extend({
+  id: BrokerRecordIdSchema,
+  createdAt: z.number().int().min(0),
+  updatedAt: z.number().int().min(0),
+  scenarios: z.array(SyncedScenarioSchema).max(200).default([]),
+  consents: z.array(ClientConsentCreateSchema.extend({
+    id: BrokerRecordIdSchema,
+    consentedAt: z.number().int().min(0),
+    revokedAt: z.number().int().min(0).optional(),
+  })).max(100).default([]),
+  statusChangedAt: z.number().int().min(0).optional(),
+  anonymizedAt: z.number().int().min(0).optional(),
+});
+
+export const BrokerSyncRequestSchema = z.object({
+  clients: z.array(SyncedClientSchema).max(5000),
+});
+
+export type BrokerSyncRequest = z.infer<typeof BrokerSyncRequestSchema>;
+
+export const BrokerReanalysisRequestSchema = z.object({
+  clientIds: z.array(BrokerRecordIdSchema)
+    .min(1, 'Select at least one client')
+    .max(MAX_REANALYSIS_CLIENTS_PER_REQUEST, `Re-analyze at most ${MAX_REANALYSIS_CLIENTS_PER_REQUEST} clients per request`),
+  planYear: PlanYearSchema,
+  previousPlanYear: PlanYearSchema.optional(),
+  thresholds: z.object({
+    netPremiumDollars: MonetaryAmountSchema.optional(),
+    netPremiumPercent: z.number().min(0).max(1).optional(),
+    subsidyDollars: MonetaryAmountSchema.optional(),
+  }).optional(),
+});
+
+export type BrokerReanalysisRequest = z.infer<typeof BrokerReanalysisRequestSchema>;
+
+const HexColorSchema = z.string().regex(HEX_COLOR_PATTERN, 'Color must be a hex value like #1e3a5f');
+
+export const BrandingProfileCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required').max(100),
+  agencyName: z.string().trim().min(1, 'Agency name is required').max(200),
+  licenseNumber: z.string().trim().max(50).optional(),
+  logoDataUrl: z.string()
+    .max(MAX_LOGO_DATA_URL_LENGTH, 'Logo image is too large')
+    .regex(LOGO_DATA_URL_PATTERN, 'Logo must be a PNG or JPEG image')
+    .optional(),
+  primaryColor: HexColorSchema.default(DEFAULT_BRAND_COLORS.primaryColor),
+  accentColor: HexColorSchema.default(DEFAULT_BRAND_COLORS.accentColor),
+  disclaimer: z.string().trim().max(2000).optional(),
+  contact: z.object({
+    name: z.string().trim().max(200).optional(),
+    phone: z.string().trim().max(50).optional(),
+    email: z.string().email().max(255).optional(),
+    website: z.string().url().max(255).optional(),
+    address: z.string().trim().max(500).optional(),
+  }).optional(),
+  isDefault: z.boolean().default(false),
+});
+
+export type BrandingProfileCreateRequest = z.infer<typeof BrandingProfileCreateSchema>;
+
+export const BrandingProfileUpdateSchema = BrandingProfileCreateSchema.partial().extend({
+  primaryColor: HexColorSchema.optional(),
+  accentColor: HexColorSchema.optional(),
+  isDefault: z.boolean().optional(),
+  // null removes the logo
+  logoDataUrl: BrandingProfileCreateSchema.shape.logoDataUrl.unwrap().nullable().optional(),
+});
+
+export type BrandingProfileUpdateRequest = z.infer<typeof BrandingProfileUpdateSchema>;
+
+// ============================================================================
+// Scenario Short-Link Schemas
+// ============================================================================
+
+export const ShortLinkCreateSchema = z.object({
+  scenario: ShareableScenarioSchema,
+  expiresInDays: z.number().int().min(1).max(MAX_SHORT_LINK_EXPIRY_DAYS).optional(),
+  passcode: z.string().min(MIN_PASSCODE_LENGTH, `Passcode must be at least ${MIN_PASSCODE_LENGTH} characters`).max(64).optional(),
+});
+
+export type ShortLinkCreateRequest = z.infer<typeof ShortLinkCreateSchema>;
+
+// ============================================================================
+// Plan Proposal Schemas
+// ============================================================================
+
+const CostAmountSchema = z.object({
+  amount: MonetaryAmountSchema,
+  family_cost: z.string().max(100).default(''),
+  individual: z.object({
+    amount: MonetaryAmountSchema,
+    display_string: z.string().max(100).default(''),
+  }).passthrough().optional(),
+}).passthrough().transform((cost) => ({
+  ...cost,
+  individual: cost.individual ?? { amount: cost.amount, display_string: '' },
+}));
+
+/**
+ * A plan as returned by /api/marketplace-plans/search
+ *
+ * Fields the proposal does not read default to empty values so the output
+ * is a MarketplacePlan.
+ */
+const ProposalMarketplacePlanSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1).max(300),
+  issuer: z.object({ name: z.string().max(200), id: z.string().max(64).default('') }).passthrough(),
+  type: z.string().max(20),
+  metal_level: z.enum(['Bronze', 'Silver', 'Gold', 'Platinum', 'Catastrophic']),
+  premium: MonetaryAmountSchema,
+  premium_w_credit: MonetaryAmountSchema.optional(),
+  deductibles: z.array(CostAmountSchema).max(20).default([]),
+  moops: z.array(CostAmountSchema).max(20).default([]),
+  benefits: z.array(z.object({
+    name: z.string().max(300),
+    covered: z.boolean(),
+    cost_sharings: z.array(z.object({
+      coinsurance_rate: z.number().min(0).max(1),
+      copay_amount: MonetaryAmountSchema,
+      display_string: z.string().max(300).default(''),
+    }).passthrough()).max(20),
+  }).passthrough()).max(200).default([]),
+  quality_rating: z.object({
+    available: z.boolean(),
+    year: z.number().int().min(0).default(0),
+    global_rating: z.number().min(0).max(5),
+    global_not_rated_reason: z.string().max(300).nullable().default(null),
+  }).passthrough().default({ available: false, year: 0, global_rating: 0, global_not_rated_reason: null }),
+  has_national_network: z.boolean().default(false),
+  disease_mgmt_programs: z.array(z.string().max(200)).max(50).default([]),
+}).passthrough();
+
+export const ProposalRequestSchema = z.object({
+  clientName: z.string().trim().min(1, 'Client name is required').max(200),
+  plans: z.array(z.object({
+    plan: ProposalMarketplacePlanSchema,
+    commentary: z.string().max(5000).optional(),
+  })).min(2, 'Select at least 2 plans').max(4, 'Select at most 4 plans'),
+  recommendedPlanId: z.string().min(1).max(64).optional(),
+  introduction: z.string().max(5000).optional(),
+  userProfile: z.object({
+    expectedDoctorVisits: z.number().int().min(0).max(100),
+    expectedSpecialistVisits: z.number().int().min(0).max(100),
+    expectedPrescriptions: z.number().int().min(0).max(50),
+    avgPrescriptionTier: z.number().int().min(1).max(4),
+    expectedERVisits: z.number().int().min(0).max(50),
+    hasPlannedProcedures: z.boolean(),
+    plannedProcedureCost: MonetaryAmountSchema.optional(),
+    riskTolerance: z.enum(['low', 'medium', 'high']),
+    prioritizesLowerPremium: z.boolean(),
+    needsSpecificProviders: z.boolean(),
+    hasChronicConditions: z.boolean(),
+  }).optional(),
+  csrLevel: z.enum(['94%', '87%', '73%', 'None']).optional(),
+  planYear: PlanYearSchema.optional(),
+  brandingProfileId: z.string().uuid().optional(),
+});
+
+export type ProposalRequest = z.infer<typeof ProposalRequestSchema>;
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
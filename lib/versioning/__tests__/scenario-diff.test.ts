@@ -0,0 +1,133 @@
+/**
+ * Scenario Result Diff Tests
+ */
+
+import { diffScenarioResults, diffVersionResults, getInputGroupLabel, _internal } from '../scenario-diff';
+import { saveScenario, updateScenario, clearAllScenarios } from '../scenario-versioning';
+import { createScenarioFromFormData } from '@/lib/sharing';
+import { createTestFormData } from '@/lib/test-utils';
+import type { CalculatorFormData } from '@/types';
+
+describe('Scenario Result Diff', () => {
+  const baseForm = createTestFormData({ annualIncome: 30000 });
+  const scenarioFor = (overrides: Partial<CalculatorFormData> = {}) =>
+    createScenarioFromFormData({ ...baseForm, ...overrides });
+
+  describe('diffScenarioResults', () => {
+    it('reports no changes for identical scenarios', async () => {
+      const diff = await diffScenarioResults(scenarioFor(), scenarioFor());
+
+      expect(diff.inputChanges).toEqual([]);
+      expect(diff.outputChanges).toEqual([]);
+    });
+
+    it('attributes result changes to a single input change', async () => {
+      const diff = await diffScenarioResults(scenarioFor(), scenarioFor({ annualIncome: 90000 }));
+
+      expect(diff.inputChanges).toEqual([
+        { key: 'income', label: 'Income', before: '$30,000', after: '$90,000' },
+      ]);
+
+      const subsidy = diff.outputChanges.find((c) => c.metric === 'subsidy');
+      expect(subsidy).toMatchObject({ after: 'None', drivenBy: ['income'] });
+      expect(subsidy?.delta).toBeLessThan(0);
+    });
+
+    it('attributes each result change to the inputs that drive it', async () => {
+      const diff = await diffScenarioResults(scenarioFor(), scenarioFor({
+        numAdults: 2,
+        adultAges: [35, 62],
+        adultsUseTobacco: [false, false],
+        hasChronicConditions: true,
+        chronicConditions: ['diabetes'],
+        prescriptionCount: '4-6',
+      }));
+
+      // Padding the tobacco flags for the new adult is not a tobacco change
+      expect(diff.inputChanges.map((c) => c.key)).toEqual(['household', 'health']);
+
+      const byMetric = Object.fromEntries(diff.outputChanges.map((c) => [c.metric, c]));
+      expect(byMetric.monthlyCost).toMatchObject({ drivenBy: ['household'] });
+      expect(byMetric.monthlyCost?.delta).toBeGreaterThan(0);
+      expect(byMetric.actionItems?.drivenBy).toEqual(['health']);
+      expect(byMetric.actionItems?.added?.length).toBeGreaterThan(0);
+    });
+
+    it('compares the results the analysis produced for each side', async () => {
+      const diff = await diffScenarioResults(scenarioFor(), scenarioFor({ annualIncome: 90000 }));
+
+      expect(diff.before.subsidyAnalysis?.estimatedMonthlySubsidy).toBeGreaterThan(0);
+      expect(diff.after.subsidyAnalysis?.estimatedMonthlySubsidy ?? 0).toBe(0);
+    });
+  });
+
+  describe('diffVersionResults', () => {
+    beforeEach(() => {
+      clearAllScenarios();
+    });
+
+    it('diffs two saved versions of a scenario', async () => {
+      const saved = saveScenario(scenarioFor(), 'Baseline');
+      updateScenario(saved.id, { scenario: scenarioFor({ annualIncome: 90000 }) }, 'Raise');
+
+      const diff = await diffVersionResults(saved.id, 1, 2);
+
+      expect(diff?.versionA.version).toBe(1);
+      expect(diff?.versionB.changeNote).toBe('Raise');
+      expect(diff?.inputChanges.map((c) => c.key)).toEqual(['income']);
+    });
+
+    it('returns null when a version is missing', async () => {
+      const saved = saveScenario(scenarioFor(), 'Baseline');
+
+      expect(await diffVersionResults(saved.id, 1, 5)).toBeNull();
+    });
+  });
+
+  describe('input groups', () => {
+    it('covers every form field that affects results exactly once', () => {
+      const fields = _internal.INPUT_GROUPS.flatMap((group) => group.fields);
+      const formFields = Object.keys(createTestFormData({ taxHouseholds: [], incomeProfile: {}, planYear: 2026 }))
+        .filter((field) => field !== 'currentStep' && field !== 'simpleMode');
+
+      expect(new Set(fields).size).toBe(fields.length);
+      expect([...fields].sort()).toEqual(formFields.sort());
+      expect(getInputGroupLabel('health')).toBe('Health and prescriptions');
+    });
+
+    it('keeps tobacco flags and tax households in step when a member is removed', async () => {
+      const before: CalculatorFormData = {
+        ...baseForm,
+        numAdults: 4,
+        adultAges: [40, 38, 22, 20],
+        adultsUseTobacco: [false, false, true, false],
+        numChildren: 1,
+        childAges: [8],
+        childrenUseTobacco: [false],
+        taxHouseholds: [
+          { id: 'primary', label: 'Primary', adultIndexes: [0, 1], childIndexes: [], annualIncome: null },
+          { id: 'son', label: 'Son', adultIndexes: [2], childIndexes: [0], annualIncome: 18000 },
+          { id: 'daughter', label: 'Daughter', adultIndexes: [3], childIndexes: [], annualIncome: 15000 },
+        ],
+      };
+      const after: CalculatorFormData = {
+        ...before,
+        numAdults: 3,
+        adultAges: [40, 38, 22],
+        adultsUseTobacco: [false, false, true],
+        taxHouseholds: before.taxHouseholds!.slice(0, 2),
+      };
+      const group = (key: string) => _internal.INPUT_GROUPS.find((g) => g.key === key)!;
+
+      const household = _internal.applyGroup(before, after, group('household'));
+      expect(household.adultsUseTobacco).toEqual([false, false, true]);
+      expect(household.taxHouseholds?.map((h) => h.id)).toEqual(['primary', 'son']);
+
+      const tobacco = _internal.applyGroup(before, after, group('tobacco'));
+      expect(tobacco.adultsUseTobacco).toEqual([false, false, true, false]);
+
+      const diff = await diffScenarioResults(createScenarioFromFormData(before), createScenarioFromFormData(after));
+      expect(diff.inputChanges.map((c) => c.key)).toEqual(['household', 'income']);
+    });
+  });
+});
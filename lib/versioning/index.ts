@@ -22,3 +22,15 @@ export {
   type ScenarioVersion,
   type VersionedScenario,
 } from './scenario-versioning';
+
+export {
+  diffScenarioResults,
+  diffVersionResults,
+  getInputGroupLabel,
+  type InputGroupKey,
+  type OutputMetric,
+  type InputChange,
+  type OutputChange,
+  type ScenarioResultDiff,
+  type VersionResultDiff,
+} from './scenario-diff';
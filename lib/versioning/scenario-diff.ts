@@ -0,0 +1,397 @@
+/**
+ * Scenario Result Diff
+ *
+ * compareVersions lists what changed in a scenario's inputs; this module
+ * re-runs the analysis for both sides and reports what changed in the
+ * results. Each output change is attributed to the input changes that move
+ * it on their own: every changed input group is applied to the earlier
+ * scenario in isolation and re-analyzed.
+ */
+
+import { analyzeInsurance } from '@/lib/calculator';
+import { syncTaxHouseholds } from '@/lib/calculator/tax-households';
+import { scenarioToFormData, type ShareableScenario } from '@/lib/sharing';
+import type { CalculatorFormData, InsuranceRecommendation } from '@/types';
+import { getVersionHistory, type ScenarioVersion } from './scenario-versioning';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InputGroupKey =
+  | 'location'
+  | 'household'
+  | 'tobacco'
+  | 'income'
+  | 'employer'
+  | 'health'
+  | 'usage'
+  | 'providers'
+  | 'preferences'
+  | 'currentInsurance'
+  | 'addOns'
+  | 'planYear';
+
+export type OutputMetric = 'recommendedPlan' | 'monthlyCost' | 'subsidy' | 'coverageScore' | 'actionItems';
+
+export interface InputChange {
+  key: InputGroupKey;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface OutputChange {
+  metric: OutputMetric;
+  label: string;
+  before: string;
+  after: string;
+  /** Numeric change for cost (range midpoint), subsidy and score */
+  delta?: number;
+  /** Action items that appear only in the later result */
+  added?: string[];
+  /** Action items that appear only in the earlier result */
+  removed?: string[];
+  /**
+   * Input changes that move this output on their own. Empty when the change
+   * only appears with several inputs combined.
+   */
+  drivenBy: InputGroupKey[];
+}
+
+export interface ScenarioResultDiff {
+  inputChanges: InputChange[];
+  outputChanges: OutputChange[];
+  before: InsuranceRecommendation;
+  after: InsuranceRecommendation;
+}
+
+export interface VersionResultDiff extends ScenarioResultDiff {
+  versionA: ScenarioVersion;
+  versionB: ScenarioVersion;
+}
+
+interface InputGroup {
+  key: InputGroupKey;
+  label: string;
+  fields: (keyof CalculatorFormData)[];
+  describe: (form: CalculatorFormData) => string;
+  /** Comparable value when the raw fields can differ without a real change */
+  value?: (form: CalculatorFormData) => unknown;
+}
+
+interface OutputDefinition {
+  metric: OutputMetric;
+  label: string;
+  /** Comparable value; outputs differ when these serialize differently */
+  value: (rec: InsuranceRecommendation) => unknown;
+  describe: (rec: InsuranceRecommendation) => string;
+  delta?: (rec: InsuranceRecommendation) => number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// currentStep and simpleMode are wizard state and never change results
+const INPUT_GROUPS: InputGroup[] = [
+  {
+    key: 'location',
+    label: 'Location',
+    fields: ['residences'],
+    describe: (f) => f.residences.map((r) => `${r.zip} ${r.state}`.trim()).join(', ') || 'Not specified',
+  },
+  {
+    key: 'household',
+    label: 'Household',
+    fields: ['numAdults', 'adultAges', 'numChildren', 'childAges', 'hasMedicareEligible'],
+    describe: (f) => {
+      const adults = `${f.numAdults} adult${f.numAdults === 1 ? '' : 's'}${f.adultAges.length ? ` (${f.adultAges.join(', ')})` : ''}`;
+      if (f.numChildren === 0) return adults;
+      return `${adults}, ${f.numChildren} child${f.numChildren === 1 ? '' : 'ren'} (${f.childAges.join(', ')})`;
+    },
+  },
+  {
+    key: 'tobacco',
+    label: 'Tobacco use',
+    fields: ['adultsUseTobacco', 'childrenUseTobacco'],
+    // The flag arrays are padded to the household size, so compare who uses tobacco
+    value: (f) => [indexesOf(f.adultsUseTobacco), indexesOf(f.childrenUseTobacco)],
+    describe: (f) => {
+      const users = [...f.adultsUseTobacco, ...f.childrenUseTobacco].filter(Boolean).length;
+      return users === 0 ? 'None' : `${users} member${users === 1 ? '' : 's'}`;
+    },
+  },
+  {
+    key: 'income',
+    label: 'Income',
+    fields: ['annualIncome', 'incomeRange', 'incomeProfile', 'taxHouseholds', 'netWorth'],
+    describe: (f) => {
+      const income = f.annualIncome !== null ? formatCurrency(f.annualIncome) : f.incomeRange || 'Not provided';
+      const households = f.taxHouseholds?.length ?? 0;
+      return households > 1 ? `${income} (${households} tax households)` : income;
+    },
+  },
+  {
+    key: 'employer',
+    label: 'Employer coverage',
+    fields: ['hasEmployerInsurance', 'employerContribution'],
+    describe: (f) => f.hasEmployerInsurance
+      ? `Offered${f.employerContribution ? `, ${formatCurrency(f.employerContribution)}/mo contribution` : ''}`
+      : 'None',
+  },
+  {
+    key: 'health',
+    label: 'Health and prescriptions',
+    fields: ['hasChronicConditions', 'chronicConditions', 'prescriptionCount', 'takesSpecialtyMeds', 'monthlyMedicationCost', 'usesMailOrderPharmacy'],
+    describe: (f) => [
+      f.hasChronicConditions ? 'Chronic conditions' : 'No chronic conditions',
+      `${f.prescriptionCount || 'no'} prescriptions`,
+      f.takesSpecialtyMeds ? 'specialty meds' : '',
+    ].filter(Boolean).join(', '),
+  },
+  {
+    key: 'usage',
+    label: 'Expected care',
+    fields: ['doctorVisitsPerYear', 'specialistVisitsPerYear', 'erVisitsPerYear', 'plannedProcedures'],
+    describe: (f) => [
+      `${f.doctorVisitsPerYear || '?'} doctor visits`,
+      `${f.specialistVisitsPerYear || '?'} specialist`,
+      `${f.erVisitsPerYear || '?'} ER`,
+      f.plannedProcedures ? 'planned procedure' : '',
+    ].filter(Boolean).join(', '),
+  },
+  {
+    key: 'providers',
+    label: 'Doctors and hospitals',
+    fields: ['providerPreference', 'hasPreferredHospital', 'preferredHospitalName', 'hospitalImportance', 'needsNationalCoverage'],
+    describe: (f) => [
+      f.providerPreference || 'No preference',
+      f.hasPreferredHospital ? f.preferredHospitalName || 'preferred hospital' : '',
+      f.needsNationalCoverage && f.needsNationalCoverage !== 'not-important' ? 'national coverage' : '',
+    ].filter(Boolean).join(', '),
+  },
+  {
+    key: 'preferences',
+    label: 'Plan preferences',
+    fields: ['financialPriority', 'canAffordUnexpectedBill', 'preferredPlanTypes', 'budget'],
+    describe: (f) => [
+      f.financialPriority || 'balanced',
+      f.preferredPlanTypes.length ? f.preferredPlanTypes.join('/') : 'any plan type',
+      f.budget ? `budget ${f.budget}` : '',
+    ].filter(Boolean).join(', '),
+  },
+  {
+    key: 'currentInsurance',
+    label: 'Current insurance',
+    fields: ['hasCurrentInsurance', 'currentInsurance'],
+    describe: (f) => f.hasCurrentInsurance
+      ? `${f.currentInsurance.carrier || 'Current plan'}, ${formatCurrency(f.currentInsurance.monthlyCost)}/mo`
+      : 'None',
+  },
+  {
+    key: 'addOns',
+    label: 'Add-on coverage',
+    fields: ['interestedInAddOns', 'addOnBudget'],
+    describe: (f) => f.interestedInAddOns
+      ? `Interested${f.addOnBudget ? `, ${formatCurrency(f.addOnBudget)}/mo` : ''}`
+      : 'Not interested',
+  },
+  {
+    key: 'planYear',
+    label: 'Plan year',
+    fields: ['planYear'],
+    describe: (f) => (f.planYear ? String(f.planYear) : 'Current'),
+  },
+];
+
+const OUTPUTS: OutputDefinition[] = [
+  {
+    metric: 'recommendedPlan',
+    label: 'Recommended plan',
+    value: (rec) => rec.recommendedInsurance,
+    describe: (rec) => rec.recommendedInsurance,
+  },
+  {
+    metric: 'monthlyCost',
+    label: 'Monthly cost',
+    value: (rec) => [rec.estimatedMonthlyCost.low, rec.estimatedMonthlyCost.high],
+    describe: (rec) => `${formatCurrency(rec.estimatedMonthlyCost.low)}-${formatCurrency(rec.estimatedMonthlyCost.high)}/mo`,
+    delta: (rec) => (rec.estimatedMonthlyCost.low + rec.estimatedMonthlyCost.high) / 2,
+  },
+  {
+    metric: 'subsidy',
+    label: 'Monthly subsidy',
+    value: getSubsidy,
+    describe: (rec) => (getSubsidy(rec) > 0 ? `${formatCurrency(getSubsidy(rec))}/mo` : 'None'),
+    delta: getSubsidy,
+  },
+  {
+    metric: 'coverageScore',
+    label: 'Coverage score',
+    value: (rec) => rec.coverageGapScore,
+    describe: (rec) => `${rec.coverageGapScore}/100`,
+    delta: (rec) => rec.coverageGapScore,
+  },
+  {
+    metric: 'actionItems',
+    label: 'Action items',
+    value: (rec) => [...rec.actionItems].sort(),
+    describe: (rec) => `${rec.actionItems.length} item${rec.actionItems.length === 1 ? '' : 's'}`,
+  },
+];
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Analyze two scenarios and report how the results differ, with each output
+ * change attributed to the input changes that drive it
+ *
+ * Runs one analysis per side plus one per changed input group, one at a
+ * time since each may call the Healthcare.gov API.
+ */
+export async function diffScenarioResults(
+  before: ShareableScenario,
+  after: ShareableScenario,
+  planYear?: number
+): Promise<ScenarioResultDiff> {
+  const formBefore = scenarioToFormData(before, planYear);
+  const formAfter = scenarioToFormData(after, planYear);
+
+  const changedGroups = INPUT_GROUPS.filter((group) => group.value
+    ? !isSameValue(group.value(formBefore), group.value(formAfter))
+    : group.fields.some((field) => !isSameValue(formBefore[field], formAfter[field]))
+  );
+
+  const recBefore = await analyzeInsurance(formBefore);
+  const recAfter = await analyzeInsurance(formAfter);
+
+  // With a single changed group the isolated run is the later result itself
+  const isolated: InsuranceRecommendation[] = [];
+  if (changedGroups.length === 1) {
+    isolated.push(recAfter);
+  } else {
+    for (const group of changedGroups) {
+      isolated.push(await analyzeInsurance(applyGroup(formBefore, formAfter, group)));
+    }
+  }
+
+  const inputChanges = changedGroups.map((group) => ({
+    key: group.key,
+    label: group.label,
+    before: group.describe(formBefore),
+    after: group.describe(formAfter),
+  }));
+
+  const outputChanges: OutputChange[] = [];
+  for (const output of OUTPUTS) {
+    if (isSameValue(output.value(recBefore), output.value(recAfter))) continue;
+
+    const change: OutputChange = {
+      metric: output.metric,
+      label: output.label,
+      before: output.describe(recBefore),
+      after: output.describe(recAfter),
+      drivenBy: changedGroups
+        .filter((_group, i) => !isSameValue(output.value(recBefore), output.value(isolated[i]!)))
+        .map((group) => group.key),
+    };
+
+    if (output.delta) {
+      change.delta = Math.round(output.delta(recAfter) - output.delta(recBefore));
+    }
+
+    if (output.metric === 'actionItems') {
+      change.added = recAfter.actionItems.filter((item) => !recBefore.actionItems.includes(item));
+      change.removed = recBefore.actionItems.filter((item) => !recAfter.actionItems.includes(item));
+    }
+
+    outputChanges.push(change);
+  }
+
+  return { inputChanges, outputChanges, before: recBefore, after: recAfter };
+}
+
+/**
+ * Result diff between two saved versions of a scenario (null when either
+ * version is missing)
+ */
+export async function diffVersionResults(
+  id: string,
+  versionA: number,
+  versionB: number
+): Promise<VersionResultDiff | null> {
+  const history = getVersionHistory(id);
+  const a = history.find((v) => v.version === versionA);
+  const b = history.find((v) => v.version === versionB);
+
+  if (!a || !b) return null;
+
+  return { ...(await diffScenarioResults(a.scenario, b.scenario)), versionA: a, versionB: b };
+}
+
+/**
+ * Labels for attributed input changes
+ */
+export function getInputGroupLabel(key: InputGroupKey): string {
+  return INPUT_GROUPS.find((group) => group.key === key)?.label ?? key;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The earlier form with one group's fields taken from the later form
+ *
+ * The per-member tobacco flags and tax household assignments are then fitted
+ * to the resulting household, as the calculator does when its size changes.
+ */
+function applyGroup(base: CalculatorFormData, source: CalculatorFormData, group: InputGroup): CalculatorFormData {
+  const form = { ...base };
+  for (const field of group.fields) {
+    (form as Record<string, unknown>)[field] = source[field];
+  }
+
+  form.adultsUseTobacco = resizeFlags(form.adultsUseTobacco, form.numAdults);
+  form.childrenUseTobacco = resizeFlags(form.childrenUseTobacco, form.numChildren);
+
+  if (form.taxHouseholds) {
+    // Households left without an adult are dropped; their children rejoin the primary one
+    const households = syncTaxHouseholds(form.taxHouseholds, form.numAdults, form.numChildren)
+      .filter((h, i) => i === 0 || h.adultIndexes.length > 0);
+    form.taxHouseholds = households.length > 1
+      ? syncTaxHouseholds(households, form.numAdults, form.numChildren)
+      : undefined;
+  }
+
+  return form;
+}
+
+function resizeFlags(flags: boolean[], length: number): boolean[] {
+  return Array.from({ length }, (_, i) => flags[i] ?? false);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function indexesOf(flags: boolean[]): number[] {
+  return flags.flatMap((flag, i) => (flag ? [i] : []));
+}
+
+function getSubsidy(rec: InsuranceRecommendation): number {
+  return Math.round(rec.subsidyAnalysis?.estimatedMonthlySubsidy ?? 0);
+}
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+// Export for testing
+export const _internal = {
+  INPUT_GROUPS,
+  applyGroup,
+};
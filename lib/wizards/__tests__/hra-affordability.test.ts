@@ -0,0 +1,158 @@
+/**
+ * ICHRA / QSEHRA Affordability Wizard Tests
+ */
+
+import {
+  analyzeHRAOffer,
+  isICHRAAffordable,
+  type HRAOfferInput,
+} from '../hra-affordability';
+import {
+  calculatePremiumForState,
+  setImportedStateBaseRates,
+  clearImportedStateBaseRates,
+} from '@/lib/calculator/age-rating';
+
+describe('HRA Affordability Wizard', () => {
+  const createInput = (overrides: Partial<HRAOfferInput> = {}): HRAOfferInput => ({
+    arrangement: 'ichra',
+    monthlyAllowance: 300,
+    householdIncome: 42000,
+    householdSize: 1,
+    state: 'NC',
+    age: 45,
+    planYear: 2025,
+    lowestCostSilverPremium: 520,
+    benchmarkPremium: 550,
+    ...overrides,
+  });
+
+  describe('ICHRA', () => {
+    it('applies the affordability test against the lowest-cost silver plan', () => {
+      const result = analyzeHRAOffer(createInput());
+
+      // $520 LCSP - $300 allowance = $220, within the affordability threshold
+      expect(result.affordability.employeeCostAfterAllowance).toBe(220);
+      expect(result.affordability.affordabilityThreshold).toBeCloseTo((42000 / 12) * result.affordability.affordabilityPercentage, 2);
+      expect(result.affordability.isAffordable).toBe(true);
+    });
+
+    it('requires accepting an affordable ICHRA', () => {
+      const result = analyzeHRAOffer(createInput());
+
+      expect(result.recommendedChoice).toBe('accept');
+      expect(result.options.find(o => o.choice === 'opt-out')?.available).toBe(false);
+      expect(result.reasoning.join(' ')).toContain('cannot claim the premium tax credit');
+    });
+
+    it('recommends opting out of a small unaffordable ICHRA when the credit is larger', () => {
+      const result = analyzeHRAOffer(createInput({ monthlyAllowance: 50, householdIncome: 25000 }));
+
+      expect(result.affordability.isAffordable).toBe(false);
+      expect(result.premiumTaxCredit.eligible).toBe(true);
+      expect(result.premiumTaxCredit.monthlyCredit).toBeGreaterThan(50);
+      expect(result.recommendedChoice).toBe('opt-out');
+      expect(result.warnings.some(w => w.includes('opt out'))).toBe(true);
+    });
+
+    it('keeps an unaffordable ICHRA when no credit is available above the 2026 cliff', () => {
+      const result = analyzeHRAOffer(createInput({
+        monthlyAllowance: 100,
+        householdIncome: 70000,
+        lowestCostSilverPremium: 1200,
+        benchmarkPremium: 1250,
+        planYear: 2026,
+      }));
+
+      expect(result.affordability.isAffordable).toBe(false);
+      expect(result.premiumTaxCredit.eligible).toBe(false);
+      expect(result.recommendedChoice).toBe('accept');
+    });
+  });
+
+  describe('QSEHRA', () => {
+    it('offsets the premium tax credit by the QSEHRA allowance', () => {
+      const result = analyzeHRAOffer(createInput({
+        arrangement: 'qsehra',
+        monthlyAllowance: 100,
+        householdIncome: 25000,
+      }));
+
+      const withCredit = result.options.find(o => o.choice === 'accept-with-ptc')!;
+      expect(result.premiumTaxCredit.qsehraOffset).toBe(100);
+      expect(withCredit.available).toBe(true);
+      expect(withCredit.monthlyPremiumTaxCredit).toBeCloseTo(result.premiumTaxCredit.monthlyCredit - 100, 2);
+      expect(result.recommendedChoice).toBe('accept-with-ptc');
+    });
+
+    it('warns when the allowance exceeds the annual QSEHRA limit', () => {
+      const result = analyzeHRAOffer(createInput({ arrangement: 'qsehra', monthlyAllowance: 600 }));
+
+      expect(result.warnings.some(w => w.includes('exceeds the 2025 limit'))).toBe(true);
+    });
+
+    it('applies the affordability test against the self-only second-lowest-cost silver plan', () => {
+      const threshold = analyzeHRAOffer(createInput({ arrangement: 'qsehra' })).affordability.affordabilityThreshold;
+      const offer = (selfOnlyBenchmarkPremium: number) => analyzeHRAOffer(createInput({
+        arrangement: 'qsehra',
+        selfOnlyBenchmarkPremium,
+        benchmarkPremium: 900,
+        dependentAges: [12],
+      }));
+
+      // The $520 LCSP would pass the ICHRA test; the QSEHRA test uses the SLCSP
+      const justAffordable = offer(300 + threshold - 1);
+      const justUnaffordable = offer(300 + threshold + 1);
+
+      expect(justAffordable.affordability.testPlan).toBe('second-lowest-cost-silver');
+      expect(justAffordable.affordability.selfOnlyPremium).toBeCloseTo(300 + threshold - 1, 2);
+      expect(justAffordable.affordability.isAffordable).toBe(true);
+      expect(justUnaffordable.affordability.isAffordable).toBe(false);
+      expect(justUnaffordable.reasoning[0]).toContain('second-lowest-cost silver plan');
+    });
+
+    it('uses the household benchmark for a self-only QSEHRA test when no self-only SLCSP is given', () => {
+      const result = analyzeHRAOffer(createInput({ arrangement: 'qsehra' }));
+
+      // $550 SLCSP - $300 allowance = $250
+      expect(result.affordability.selfOnlyPremium).toBe(550);
+      expect(result.affordability.employeeCostAfterAllowance).toBe(250);
+      expect(result.warnings.some(w => w.includes('estimated'))).toBe(false);
+    });
+  });
+
+  it('estimates premiums when plan data is not provided', () => {
+    const result = analyzeHRAOffer(createInput({ lowestCostSilverPremium: undefined, benchmarkPremium: undefined }));
+
+    expect(result.affordability.testPlan).toBe('lowest-cost-silver');
+    expect(result.affordability.selfOnlyPremium).toBeGreaterThan(0);
+    expect(result.premiumTaxCredit.benchmarkPremium).toBeGreaterThan(result.affordability.selfOnlyPremium);
+    expect(result.warnings.some(w => w.includes('estimated'))).toBe(true);
+  });
+
+  describe('imported rates', () => {
+    afterEach(() => clearImportedStateBaseRates());
+
+    it('estimates premiums with the plan year rates', () => {
+      setImportedStateBaseRates({ NC: 700 }, 2026);
+      const result = analyzeHRAOffer(createInput({
+        arrangement: 'qsehra',
+        planYear: 2026,
+        lowestCostSilverPremium: undefined,
+        benchmarkPremium: undefined,
+      }));
+      const silver2026 = calculatePremiumForState(45, 'NC', 'Silver', false, 2026);
+
+      expect(result.affordability.selfOnlyPremium).toBeCloseTo(silver2026, 2);
+      expect(result.premiumTaxCredit.benchmarkPremium).toBeCloseTo(silver2026, 2);
+      expect(silver2026).toBeGreaterThan(calculatePremiumForState(45, 'NC', 'Silver'));
+    });
+  });
+
+  describe('isICHRAAffordable', () => {
+    it('uses the plan year affordability percentage', () => {
+      expect(isICHRAAffordable(300, 520, 42000, 2025)).toBe(true);
+      expect(isICHRAAffordable(0, 520, 42000, 2025)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * ICHRA / QSEHRA Affordability Wizard
+ *
+ * Helps employees of small businesses decide what to do with a health
+ * reimbursement arrangement offer:
+ * - ICHRA: affordable if the lowest-cost silver plan (self-only) minus the
+ *   monthly allowance is within the employer affordability percentage of
+ *   household income. An affordable ICHRA bars the premium tax credit; an
+ *   unaffordable one can be declined in favor of the PTC.
+ * - QSEHRA: affordable if the self-only second-lowest-cost silver plan minus
+ *   1/12 of the annual permitted benefit is within the same percentage
+ *   (IRC 36B(c)(4)). When the QSEHRA is unaffordable the PTC is reduced by
+ *   the monthly QSEHRA allowance.
+ */
+
+import { MEDICAID_EXPANSION_STATES } from '@/lib/calculator/advanced-subsidy';
+import { calculatePremiumForState } from '@/lib/calculator/age-rating';
+import {
+  getApplicablePercentage,
+  getPlanYearRules,
+  getPovertyGuideline,
+  isAboveSubsidyCliff,
+} from '@/lib/calculator/plan-year-rules';
+
+// Types
+export type HRAArrangement = 'ichra' | 'qsehra';
+
+export type HRAChoice = 'accept' | 'opt-out' | 'accept-with-ptc';
+
+export interface HRAOfferInput {
+  /** Type of arrangement offered */
+  arrangement: HRAArrangement;
+  /** Monthly self-only allowance (used for the affordability test) */
+  monthlyAllowance: number;
+  /** Monthly allowance when covering the family, if different */
+  familyMonthlyAllowance?: number;
+  /** Projected household MAGI */
+  householdIncome: number;
+  /** Tax household size */
+  householdSize: number;
+  /** State code */
+  state: string;
+  /** Employee age */
+  age: number;
+  /** Ages of family members who would be covered */
+  dependentAges?: number[];
+  /** Marketplace plan year */
+  planYear?: number;
+  /** Employee's self-only lowest-cost silver premium, for the ICHRA test (estimated when omitted) */
+  lowestCostSilverPremium?: number;
+  /** Employee's self-only second-lowest-cost silver premium, for the QSEHRA test (estimated when omitted) */
+  selfOnlyBenchmarkPremium?: number;
+  /** Household benchmark (second-lowest-cost silver) premium (estimated when omitted) */
+  benchmarkPremium?: number;
+}
+
+export interface HRAOption {
+  choice: HRAChoice;
+  label: string;
+  /** Whether the employee may take this option */
+  available: boolean;
+  /** Monthly allowance used toward premiums */
+  monthlyAllowanceUsed: number;
+  /** Monthly premium tax credit */
+  monthlyPremiumTaxCredit: number;
+  /** Allowance plus credit */
+  monthlyBenefit: number;
+  annualBenefit: number;
+  /** Benchmark premium left to pay after the benefit */
+  netMonthlyPremium: number;
+  notes: string[];
+}
+
+export interface HRAOfferAnalysis {
+  arrangement: HRAArrangement;
+  planYear: number;
+  affordability: {
+    /** Plan the test uses: lowest-cost silver for ICHRA, second-lowest-cost silver for QSEHRA */
+    testPlan: 'lowest-cost-silver' | 'second-lowest-cost-silver';
+    /** Employee's self-only premium for the test plan */
+    selfOnlyPremium: number;
+    /** Test plan premium minus the self-only allowance */
+    employeeCostAfterAllowance: number;
+    /** Monthly dollars at the plan year's affordability percentage */
+    affordabilityThreshold: number;
+    affordabilityPercentage: number;
+    isAffordable: boolean;
+  };
+  premiumTaxCredit: {
+    eligible: boolean;
+    fplPercent: number;
+    benchmarkPremium: number;
+    /** Monthly credit before any QSEHRA offset */
+    monthlyCredit: number;
+    /** Monthly QSEHRA allowance subtracted from the credit */
+    qsehraOffset: number;
+  };
+  options: HRAOption[];
+  recommendedChoice: HRAChoice;
+  reasoning: string[];
+  warnings: string[];
+}
+
+/** Lowest-cost silver is typically ~5% below the benchmark silver plan */
+const LCSP_TO_SLCSP_RATIO = 0.95;
+
+/** QSEHRA annual allowance limits (self-only, family) */
+const QSEHRA_LIMITS: Record<number, { selfOnly: number; family: number }> = {
+  2024: { selfOnly: 6150, family: 12450 },
+  2025: { selfOnly: 6350, family: 12800 },
+  2026: { selfOnly: 6450, family: 13100 },
+};
+
+/**
+ * Analyze an ICHRA or QSEHRA offer and recommend accepting or opting out
+ */
+export function analyzeHRAOffer(input: HRAOfferInput): HRAOfferAnalysis {
+  const rules = getPlanYearRules(input.planYear);
+  const state = input.state.toUpperCase();
+  const dependentAges = input.dependentAges ?? [];
+  const reasoning: string[] = [];
+  const warnings: string[] = [];
+
+  // Affordability test: self-only LCSP for an ICHRA, self-only SLCSP for a QSEHRA
+  const testPlan = input.arrangement === 'ichra' ? 'lowest-cost-silver' : 'second-lowest-cost-silver';
+  const suppliedTestPremium = input.arrangement === 'ichra'
+    ? input.lowestCostSilverPremium
+    : input.selfOnlyBenchmarkPremium ?? (dependentAges.length === 0 ? input.benchmarkPremium : undefined);
+  const estimatedSilverPremium = calculatePremiumForState(input.age, state, 'Silver', false, rules.planYear);
+  const selfOnlyPremium = round(
+    suppliedTestPremium ?? (input.arrangement === 'ichra' ? estimatedSilverPremium * LCSP_TO_SLCSP_RATIO : estimatedSilverPremium)
+  );
+  const employeeCostAfterAllowance = round(Math.max(0, selfOnlyPremium - input.monthlyAllowance));
+  const affordabilityThreshold = round((input.householdIncome / 12) * rules.employerAffordabilityThreshold);
+  const isAffordable = employeeCostAfterAllowance <= affordabilityThreshold;
+
+  // Premium tax credit the household could otherwise claim
+  const fpl = getPovertyGuideline(input.householdSize, state, rules.planYear);
+  const fplPercent = (input.householdIncome / fpl) * 100;
+  const medicaidLikely = MEDICAID_EXPANSION_STATES.has(state) && fplPercent < 138;
+  const ptcEligible = fplPercent >= 100 && !medicaidLikely && !isAboveSubsidyCliff(fplPercent, rules.planYear);
+
+  const benchmarkPremium = round(input.benchmarkPremium ?? estimateBenchmarkPremium(input.age, dependentAges, state, rules.planYear));
+  const monthlyCredit = ptcEligible
+    ? round(Math.max(0, benchmarkPremium - (input.householdIncome * getApplicablePercentage(fplPercent, rules.planYear)) / 12))
+    : 0;
+
+  const offeredAllowance = dependentAges.length > 0
+    ? input.familyMonthlyAllowance ?? input.monthlyAllowance
+    : input.monthlyAllowance;
+  const householdAllowance = Math.min(offeredAllowance, benchmarkPremium);
+  const qsehraOffset = input.arrangement === 'qsehra' ? round(householdAllowance) : 0;
+
+  const options = input.arrangement === 'ichra'
+    ? buildICHRAOptions(isAffordable, householdAllowance, monthlyCredit, benchmarkPremium)
+    : buildQSEHRAOptions(isAffordable, householdAllowance, monthlyCredit, benchmarkPremium);
+
+  const recommended = options
+    .filter(o => o.available)
+    .reduce((best, option) => (option.monthlyBenefit > best.monthlyBenefit ? option : best));
+
+  // Reasoning
+  const testPlanName = testPlan === 'lowest-cost-silver' ? 'lowest-cost silver plan' : 'second-lowest-cost silver plan';
+  reasoning.push(
+    isAffordable
+      ? `The ${label(input.arrangement)} is affordable: the ${testPlanName} costs $${employeeCostAfterAllowance}/month after the allowance, ` +
+        `within ${(rules.employerAffordabilityThreshold * 100).toFixed(2)}% of income ($${affordabilityThreshold}/month).`
+      : `The ${label(input.arrangement)} is unaffordable: the ${testPlanName} costs $${employeeCostAfterAllowance}/month after the allowance, ` +
+        `above ${(rules.employerAffordabilityThreshold * 100).toFixed(2)}% of income ($${affordabilityThreshold}/month).`
+  );
+
+  if (isAffordable) {
+    reasoning.push('Because the offer is affordable, you cannot claim the premium tax credit even if you decline it.');
+  } else if (!ptcEligible) {
+    reasoning.push(`At ~${Math.round(fplPercent)}% FPL you do not qualify for the premium tax credit, so the allowance is your only help with premiums.`);
+  } else if (input.arrangement === 'ichra') {
+    reasoning.push(
+      recommended.choice === 'opt-out'
+        ? `Opting out is worth $${recommended.monthlyBenefit}/month in premium tax credits versus $${round(householdAllowance)}/month from the ICHRA.`
+        : `The ICHRA allowance ($${round(householdAllowance)}/month) is worth more than the $${monthlyCredit}/month premium tax credit.`
+    );
+  } else {
+    reasoning.push(
+      `Your premium tax credit is reduced by the $${qsehraOffset}/month QSEHRA allowance, leaving $${round(Math.max(0, monthlyCredit - qsehraOffset))}/month in credits.`
+    );
+  }
+
+  // Warnings
+  if (input.arrangement === 'ichra' && recommended.choice === 'opt-out') {
+    warnings.push('You must opt out of the ICHRA before the plan year starts. Accepting any reimbursement makes you ineligible for the premium tax credit.');
+  }
+
+  if (input.arrangement === 'qsehra') {
+    const limits = QSEHRA_LIMITS[rules.planYear] ?? QSEHRA_LIMITS[2025]!;
+    const annualLimit = dependentAges.length > 0 ? limits.family : limits.selfOnly;
+    const annualAllowance = offeredAllowance * 12;
+    if (annualAllowance > annualLimit) {
+      warnings.push(
+        `The annual QSEHRA allowance ($${Math.round(annualAllowance).toLocaleString()}) exceeds the ${rules.planYear} limit of $${annualLimit.toLocaleString()}.`
+      );
+    }
+    warnings.push('Report your QSEHRA allowance on your marketplace application and Form 8962. Reimbursements are taxable unless you have minimum essential coverage.');
+  }
+
+  if (suppliedTestPremium === undefined) {
+    warnings.push(`The ${testPlanName} premium was estimated from state averages. Use the exact plan for your ZIP code to confirm affordability.`);
+  }
+
+  return {
+    arrangement: input.arrangement,
+    planYear: rules.planYear,
+    affordability: {
+      testPlan,
+      selfOnlyPremium,
+      employeeCostAfterAllowance,
+      affordabilityThreshold,
+      affordabilityPercentage: rules.employerAffordabilityThreshold,
+      isAffordable,
+    },
+    premiumTaxCredit: {
+      eligible: ptcEligible,
+      fplPercent: Math.round(fplPercent * 10) / 10,
+      benchmarkPremium,
+      monthlyCredit,
+      qsehraOffset,
+    },
+    options,
+    recommendedChoice: recommended.choice,
+    reasoning,
+    warnings,
+  };
+}
+
+/**
+ * ICHRA options: accept the allowance, or opt out for the PTC when unaffordable
+ */
+function buildICHRAOptions(
+  isAffordable: boolean,
+  allowance: number,
+  monthlyCredit: number,
+  benchmarkPremium: number
+): HRAOption[] {
+  return [
+    createOption('accept', 'Accept the ICHRA', true, allowance, 0, benchmarkPremium, [
+      'Allowance reimburses individual-market premiums tax-free',
+      'No premium tax credit while enrolled in the ICHRA',
+    ]),
+    createOption('opt-out', 'Opt out and claim the premium tax credit', !isAffordable, 0, monthlyCredit, benchmarkPremium, [
+      isAffordable
+        ? 'Not available: an affordable ICHRA makes you ineligible for the credit'
+        : 'Available because the ICHRA is unaffordable',
+    ]),
+  ];
+}
+
+/**
+ * QSEHRA options: the allowance alone, or with the offset credit when unaffordable
+ */
+function buildQSEHRAOptions(
+  isAffordable: boolean,
+  allowance: number,
+  monthlyCredit: number,
+  benchmarkPremium: number
+): HRAOption[] {
+  const reducedCredit = Math.max(0, monthlyCredit - allowance);
+
+  return [
+    createOption('accept', 'Use the QSEHRA only', true, allowance, 0, benchmarkPremium, [
+      'Allowance reimburses premiums and qualified medical expenses',
+    ]),
+    createOption('accept-with-ptc', 'Use the QSEHRA and claim the reduced credit', !isAffordable && reducedCredit > 0, allowance, reducedCredit, benchmarkPremium, [
+      'Premium tax credit is reduced dollar-for-dollar by the QSEHRA allowance',
+      isAffordable ? 'Not available: an affordable QSEHRA makes you ineligible for the credit' : 'Available because the QSEHRA is unaffordable',
+    ]),
+  ];
+}
+
+/**
+ * Build an option, capping the benefit at the benchmark premium
+ */
+function createOption(
+  choice: HRAChoice,
+  optionLabel: string,
+  available: boolean,
+  allowance: number,
+  credit: number,
+  benchmarkPremium: number,
+  notes: string[]
+): HRAOption {
+  const monthlyBenefit = round(Math.min(benchmarkPremium, allowance + credit));
+  return {
+    choice,
+    label: optionLabel,
+    available,
+    monthlyAllowanceUsed: round(allowance),
+    monthlyPremiumTaxCredit: round(credit),
+    monthlyBenefit,
+    annualBenefit: round(monthlyBenefit * 12),
+    netMonthlyPremium: round(Math.max(0, benchmarkPremium - monthlyBenefit)),
+    notes,
+  };
+}
+
+/**
+ * Estimate the household SLCSP (only the three oldest children under 21 are rated)
+ */
+function estimateBenchmarkPremium(age: number, dependentAges: number[], state: string, planYear: number): number {
+  const adults = [age, ...dependentAges.filter(a => a >= 21)];
+  const children = dependentAges.filter(a => a < 21).sort((a, b) => b - a).slice(0, 3);
+  return [...adults, ...children].reduce((total, a) => total + calculatePremiumForState(a, state, 'Silver', false, planYear), 0);
+}
+
+function label(arrangement: HRAArrangement): string {
+  return arrangement === 'ichra' ? 'ICHRA' : 'QSEHRA';
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Quick ICHRA affordability check
+ */
+export function isICHRAAffordable(
+  monthlyAllowance: number,
+  lowestCostSilverPremium: number,
+  householdIncome: number,
+  planYear?: number
+): boolean {
+  const { employerAffordabilityThreshold } = getPlanYearRules(planYear);
+  return Math.max(0, lowestCostSilverPremium - monthlyAllowance) <= (householdIncome / 12) * employerAffordabilityThreshold;
+}
@@ -26,3 +26,13 @@ export {
   type MedicareDecision,
   type ChecklistItem,
 } from './medicare-transition';
+
+export {
+  analyzeHRAOffer,
+  isICHRAAffordable,
+  type HRAArrangement,
+  type HRAChoice,
+  type HRAOfferInput,
+  type HRAOption,
+  type HRAOfferAnalysis,
+} from './hra-affordability';
@@ -7,6 +7,8 @@
  */
 
 import { getCostAdjustmentFactor } from '@/lib/geography';
+import { resolveProfileIncome } from '@/lib/calculator/income-profile';
+import type { IncomeProfile } from '@/types';
 
 // Types
 export interface JobChangeScenario {
@@ -16,8 +18,10 @@ export interface JobChangeScenario {
   currentPremium: number;
   /** Full COBRA premium (employer + employee) */
   cobraPremium: number;
-  /** Household income for subsidy calculation */
-  householdIncome: number;
+  /** Household income for subsidy calculation (ignored when incomeProfile is provided) */
+  householdIncome?: number;
+  /** Itemized income; subsidy MAGI is derived from it */
+  incomeProfile?: IncomeProfile;
   /** Household size */
   householdSize: number;
   /** State code for marketplace */
@@ -134,6 +138,12 @@ export function analyzeJobChange(scenario: JobChangeScenario): JobChangeAnalysis
   const options: CoverageOption[] = [];
   const timeline: TimelineEvent[] = [];
   const reasoning: string[] = [];
+  const householdIncome = resolveProfileIncome(
+    scenario.householdIncome,
+    scenario.incomeProfile,
+    undefined,
+    'householdIncome'
+  );
 
   // Calculate key dates
   const sepDeadline = new Date(scenario.separationDate);
@@ -171,7 +181,7 @@ export function analyzeJobChange(scenario: JobChangeScenario): JobChangeAnalysis
 
   // Calculate subsidy eligibility
   const fpl = getFPL(scenario.householdSize);
-  const fplPercent = (scenario.householdIncome / fpl) * 100;
+  const fplPercent = (householdIncome / fpl) * 100;
   const subsidyEligible = fplPercent >= 100 && fplPercent <= 400;
 
   // Estimate marketplace premium
@@ -186,7 +196,7 @@ export function analyzeJobChange(scenario: JobChangeScenario): JobChangeAnalysis
   let monthlySubsidy = 0;
   if (subsidyEligible) {
     monthlySubsidy = calculatePremiumSubsidy(
-      scenario.householdIncome,
+      householdIncome,
       scenario.householdSize,
       baseMarketplacePremium
     );
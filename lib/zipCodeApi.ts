@@ -1,9 +1,12 @@
 /**
  * ZIP Code validation and location lookup using Zippopotam.us API
- * Free, unlimited, no API key required
+ * Free, unlimited, no API key required. Served from the offline data pack
+ * when NEXT_PUBLIC_DATA_PACK is set.
  */
 
 import { logger } from './logger';
+import { isOfflineDataMode } from './data-pack/pack';
+import { getZipLocationFromDataPack } from './data-pack/actions';
 
 const API_TIMEOUT_MS = 5000; // 5 second timeout for ZIP lookups
 const MAX_RETRIES = 2;
@@ -162,6 +165,14 @@ export async function validateZipCode(zip: string): Promise<ZipCodeLocation | nu
     return cached.data;
   }
 
+  if (isOfflineDataMode()) {
+    const location = await getZipLocationFromDataPack(zip);
+    if (location) {
+      zipCache.set(zip, { data: location, timestamp: Date.now() });
+    }
+    return location;
+  }
+
   try {
     const response = await fetchWithRetry(async () => {
       const res = await fetchWithTimeout(`https://api.zippopotam.us/us/${zip}`, {
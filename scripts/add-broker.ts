@@ -0,0 +1,79 @@
+#!/usr/bin/env tsx
+/**
+ * Broker Account Script
+ * Creates a broker workspace, or resets a broker's password. Brokers sign in
+ * at /login with their email and this password; the site password does not
+ * open a broker workspace.
+ *
+ * Usage:
+ *   npm run broker:add -- --email=jane@agency.com --name="Jane Broker"
+ *   BROKER_PASSWORD=... npm run broker:add -- --email=jane@agency.com
+ */
+
+import 'dotenv/config';
+import * as readline from 'readline';
+import { setBrokerPassword } from '../lib/broker/repository';
+import { normalizeBrokerEmail } from '../lib/broker/session';
+
+const MIN_PASSWORD_LENGTH = 12;
+
+const args = process.argv.slice(2);
+
+function getOption(name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+// Show help
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Broker Accounts
+
+Usage:
+  npm run broker:add -- --email=<email> [options]
+
+Options:
+  --email=<email>        Broker email (required)
+  --name=<name>          Display name
+  --help, -h             Show this help message
+
+The password is read from BROKER_PASSWORD, or from the first line of stdin
+(at least ${MIN_PASSWORD_LENGTH} characters). Running the script again for an
+existing email resets that broker's password.
+  `);
+  process.exit(0);
+}
+
+async function readPassword(): Promise<string> {
+  if (process.env.BROKER_PASSWORD) return process.env.BROKER_PASSWORD;
+
+  if (process.stdin.isTTY) {
+    process.stdout.write('Broker password: ');
+  }
+  const rl = readline.createInterface({ input: process.stdin });
+  for await (const line of rl) {
+    rl.close();
+    return line;
+  }
+  return '';
+}
+
+async function main() {
+  const email = normalizeBrokerEmail(getOption('email'));
+  if (!email) {
+    throw new Error('A valid --email is required');
+  }
+
+  const password = await readPassword();
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const broker = await setBrokerPassword(email, password, getOption('name'));
+  console.log(`\n✅ Broker ${broker.email} (${broker.brokerId}) can now sign in`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('\n❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,60 @@
+#!/usr/bin/env tsx
+/**
+ * Broker Client Retention Script
+ * Anonymizes or deletes broker clients whose retention period has passed.
+ * Intended to run daily from a scheduler (cron, CI schedule or similar).
+ *
+ * Usage:
+ *   npm run broker:retention
+ *   npm run broker:retention -- --dry-run
+ */
+
+import 'dotenv/config';
+import { runRetentionSweep } from '../lib/broker/repository';
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+
+// Show help
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Broker Client Retention
+
+Usage:
+  npm run broker:retention [options]
+
+Options:
+  --dry-run              List due actions without changing any data
+  --help, -h             Show this help message
+
+Each broker's retention policy (GET /api/broker/retention) decides which
+clients are anonymized or deleted. Every change is written to audit_log.
+  `);
+  process.exit(0);
+}
+
+async function main() {
+  console.log('Broker Client Retention\n');
+
+  if (dryRun) {
+    console.log('⚠️  Running in DRY RUN mode - no data will be changed\n');
+  }
+
+  try {
+    const result = await runRetentionSweep({ dryRun });
+
+    for (const decision of result.decisions) {
+      console.log(`  ${decision.action.padEnd(9)} ${decision.clientId} (broker ${decision.brokerId}): ${decision.reason}`);
+    }
+
+    console.log(`\nBrokers: ${result.brokersProcessed}, clients evaluated: ${result.clientsEvaluated}`);
+    console.log(`Due: ${result.decisions.length}, anonymized: ${result.anonymized}, deleted: ${result.deleted}`);
+    console.log('\n✅ Retention sweep complete');
+    process.exit(0);
+  } catch (error) {
+    console.error('\n❌ Retention sweep failed:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,136 @@
+#!/usr/bin/env tsx
+/**
+ * Data Quality Check Script
+ * Runs the data quality rules over the active (or a draft) data version,
+ * records findings in data_quality_alerts and exits 1 on critical alerts.
+ *
+ * Usage:
+ *   npm run data:quality
+ *   npm run data:quality -- --version=<draft-id> --states=NC,TX
+ *   npm run data:quality -- --config=data-quality.json --fail-on=error
+ */
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import { isDataType, DATA_TYPES } from '../lib/data-import/data-versions';
+import { loadDataQualityConfig, runDataQualityChecks } from '../lib/data-import/data-quality';
+import {
+  ALERT_SEVERITIES,
+  DATA_QUALITY_RULES,
+  hasFindingsAtOrAbove,
+  isDataQualityRuleId,
+  type AlertSeverity,
+} from '../lib/data-import/data-quality-rules';
+
+const args = process.argv.slice(2);
+
+function getOption(name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function getListOption(name: string): string[] | undefined {
+  return getOption(name)?.split(',').map(value => value.trim()).filter(Boolean);
+}
+
+// Show help
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Data Quality Checks
+
+Usage:
+  npm run data:quality [-- options]
+
+Options:
+  --version=<id>         Check a draft version instead of the active data
+  --type=<type>          Only run rules for a data type: ${DATA_TYPES.join(', ')}
+  --states=NC,TX         Only check these states
+  --year=2025            Plan year to check (default: latest)
+  --rules=a,b            Only run these rules
+  --config=<path>        JSON rule overrides (default: $DATA_QUALITY_CONFIG)
+  --fail-on=<severity>   Exit 1 at or above this severity (default: critical)
+  --report=<path>        Write the findings (JSON) to a file
+  --dry-run              Don't write to data_quality_alerts
+  --list-rules           Show the rules and their defaults
+  --help, -h             Show this help message
+
+Config format:
+  { "age_curve": { "threshold": 0.15 }, "slcsp_outlier": { "enabled": false },
+    "county_without_silver": { "severity": "warning", "escalateAt": 0.5 } }
+  `);
+  process.exit(0);
+}
+
+if (args.includes('--list-rules')) {
+  for (const rule of DATA_QUALITY_RULES) {
+    const { severity, escalateAt, threshold } = rule.defaults;
+    console.log(`${rule.id.padEnd(22)} ${severity.padEnd(8)} ${escalateAt === null ? 'never critical' : `critical at ${escalateAt * 100}%`}${threshold ? `, threshold ${threshold}` : ''}  ${rule.title}`);
+  }
+  process.exit(0);
+}
+
+async function main() {
+  const type = getOption('type');
+  if (type && !isDataType(type)) {
+    throw new Error(`Unknown data type: ${type} (expected ${DATA_TYPES.join(', ')})`);
+  }
+
+  const rules = getListOption('rules');
+  const unknownRules = rules?.filter(rule => !isDataQualityRuleId(rule)) ?? [];
+  if (unknownRules.length > 0) {
+    throw new Error(`Unknown rules: ${unknownRules.join(', ')} (see --list-rules)`);
+  }
+
+  const failOn = (getOption('fail-on') ?? 'critical') as AlertSeverity;
+  if (!ALERT_SEVERITIES.includes(failOn)) {
+    throw new Error(`Invalid --fail-on: ${failOn} (expected ${ALERT_SEVERITIES.join(', ')})`);
+  }
+
+  const configPath = getOption('config');
+  const year = getOption('year');
+
+  console.log('🔍 Running data quality checks...\n');
+
+  const report = await runDataQualityChecks({
+    versionId: getOption('version'),
+    dataType: type && isDataType(type) ? type : undefined,
+    states: getListOption('states'),
+    planYear: year ? parseInt(year, 10) : undefined,
+    rules: rules?.filter(isDataQualityRuleId),
+    config: configPath ? loadDataQualityConfig(configPath) : undefined,
+    writeAlerts: !args.includes('--dry-run'),
+  });
+
+  console.log(`Checked ${report.states.length} states (geography ${report.geographyVersionId ?? 'legacy'}, plans ${report.planVersionId ?? 'legacy'}${report.planYear ? ` ${report.planYear}` : ''})\n`);
+
+  for (const finding of report.findings) {
+    console.log(`[${finding.severity.toUpperCase()}] ${finding.title}`);
+    console.log(`  ${finding.description.split('\n').join('\n  ')}\n`);
+  }
+
+  console.log('📊 Summary:');
+  for (const severity of [...ALERT_SEVERITIES].reverse()) {
+    console.log(`  ${severity.padEnd(8)} ${report.counts[severity]}`);
+  }
+  if (!args.includes('--dry-run')) {
+    console.log(`  Alerts: ${report.alerts.created} new, ${report.alerts.updated} updated, ${report.alerts.resolved} resolved`);
+  }
+
+  const reportPath = getOption('report');
+  if (reportPath) {
+    fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
+    console.log(`\n📝 Report written to ${reportPath}`);
+  }
+
+  if (hasFindingsAtOrAbove(report.findings, failOn)) {
+    console.error(`\n❌ Data quality alerts at or above ${failOn}`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ No alerts at or above', failOn);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('\n❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
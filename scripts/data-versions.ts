@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+/**
+ * Data Version Admin Script
+ * Lists, activates, rolls back, discards and prunes versioned data releases
+ * (CMS geography data and marketplace plans).
+ *
+ * Usage:
+ *   npm run data:versions
+ *   npm run data:activate -- <version-id>
+ *   npm run data:rollback -- --type=aca_plans
+ *   npm run data:discard -- <version-id>
+ *   npm run data:prune -- --type=aca_plans --keep=3
+ */
+
+import 'dotenv/config';
+import {
+  activateDataVersion,
+  discardDraftVersion,
+  isDataType,
+  listDataVersions,
+  rollbackDataVersion,
+  pruneRetiredVersions,
+  DATA_TYPES,
+  DEFAULT_RETAINED_VERSIONS,
+} from '../lib/data-import/data-versions';
+
+const args = process.argv.slice(2);
+const command = args[0];
+const positional = args.slice(1).filter(arg => !arg.startsWith('--'));
+
+function getOption(name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+const activatedBy = getOption('by') ?? process.env.USER;
+const keep = getOption('keep');
+const retainVersions = keep === undefined ? undefined : parseInt(keep, 10);
+
+// Show help
+if (!command || args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Data Version Admin
+
+Usage:
+  npm run data:versions [-- --type=<type>]      List versions, newest first
+  npm run data:activate -- <version-id>         Make a validated draft live
+  npm run data:rollback -- --type=<type>        Return to the previous version
+  npm run data:discard -- <version-id>          Delete a draft and its rows
+  npm run data:prune -- --type=<type>           Delete retired versions beyond --keep
+
+Options:
+  --type=<type>          Data type: ${DATA_TYPES.join(', ')}
+  --force                Activate even if validation failed or never ran
+  --keep=<n>             Retired versions kept for rollback (default: ${DEFAULT_RETAINED_VERSIONS})
+  --by=<name>            Who is making the change (default: $USER)
+  --help, -h             Show this help message
+
+Imports (npm run import:cms*) and Healthcare.gov syncs (npm run api:sync)
+write to draft versions. Activation and rollback switch the live version in
+one transaction and are written to audit_log. Both then delete retired
+versions older than the last --keep, with their rows.
+  `);
+  process.exit(command ? 0 : 1);
+}
+
+async function main() {
+  const type = getOption('type');
+  if (type && !isDataType(type)) {
+    throw new Error(`Unknown data type: ${type} (expected ${DATA_TYPES.join(', ')})`);
+  }
+  const dataType = type && isDataType(type) ? type : undefined;
+
+  if (retainVersions !== undefined && (!Number.isInteger(retainVersions) || retainVersions < 1)) {
+    throw new Error(`Invalid --keep: ${keep} (at least 1)`);
+  }
+
+  switch (command) {
+    case 'list': {
+      const versions = await listDataVersions(dataType);
+      if (versions.length === 0) {
+        console.log('No data versions yet');
+        break;
+      }
+
+      for (const v of versions) {
+        const validation = v.isValidated
+          ? 'validated'
+          : Array.isArray(v.validationErrors) && v.validationErrors.length > 0 ? 'invalid' : 'not validated';
+        console.log(`${v.status === 'active' ? '*' : ' '} ${v.dataType.padEnd(14)} ${v.versionNumber.padEnd(5)} ${v.status.padEnd(9)} ${validation.padEnd(13)} ${v.createdAt.toISOString()}  ${v.versionId}`);
+      }
+      break;
+    }
+
+    case 'activate': {
+      const versionId = positional[0];
+      if (!versionId) throw new Error('Version ID required: npm run data:activate -- <version-id>');
+
+      const version = await activateDataVersion(versionId, {
+        activatedBy,
+        force: args.includes('--force'),
+        retainVersions,
+      });
+      console.log(`✅ Activated ${version.dataType} ${version.versionNumber} (${version.versionId})`);
+      console.log(`\nUndo with: npm run data:rollback -- --type=${version.dataType}`);
+      break;
+    }
+
+    case 'rollback': {
+      if (!dataType) throw new Error(`--type is required (${DATA_TYPES.join(', ')})`);
+
+      const version = await rollbackDataVersion(dataType, { activatedBy, retainVersions });
+      console.log(`✅ Rolled ${dataType} back to ${version.versionNumber} (${version.versionId})`);
+      break;
+    }
+
+    case 'discard': {
+      const versionId = positional[0];
+      if (!versionId) throw new Error('Version ID required: npm run data:discard -- <version-id>');
+
+      await discardDraftVersion(versionId);
+      console.log(`✅ Discarded draft ${versionId}`);
+      break;
+    }
+
+    case 'prune': {
+      if (!dataType) throw new Error(`--type is required (${DATA_TYPES.join(', ')})`);
+
+      const pruned = await pruneRetiredVersions(dataType, { keep: retainVersions, deletedBy: activatedBy });
+      for (const v of pruned) {
+        console.log(`  Deleted ${v.versionNumber} ${v.status} (${v.versionId})`);
+      }
+      console.log(`✅ Pruned ${pruned.length} retired ${dataType} versions`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command} (expected list, activate, rollback, discard or prune)`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('\n❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
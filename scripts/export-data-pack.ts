@@ -0,0 +1,116 @@
+#!/usr/bin/env tsx
+/**
+ * Data Pack Export Script
+ * Writes the active CMS data and cached API responses to a versioned
+ * offline data pack (data/packs/<version>) for NEXT_PUBLIC_DATA_PACK.
+ *
+ * Usage:
+ *   npm run data:pack
+ *   npm run data:pack -- --states=NC,TX --version=demo-2025
+ *   npm run data:pack -- --verify=demo-2025
+ */
+
+import 'dotenv/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DATA_PACK_ROOT, DATA_PACK_SECTIONS } from '../lib/data-pack/pack';
+import { loadDataPack, resolveDataPackPath, writeDataPack } from '../lib/data-pack/loader';
+import { DEFAULT_EXPORT_SPECIALTIES, exportDataPack } from '../lib/data-pack/export';
+
+const args = process.argv.slice(2);
+
+function getOption(name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function getListOption(name: string): string[] | undefined {
+  return getOption(name)?.split(',').map(value => value.trim()).filter(Boolean);
+}
+
+// Show help
+if (args.includes('--help') || args.includes('-h')) {
+  console.log(`
+Offline Data Pack Export
+
+Usage:
+  npm run data:pack [-- options]
+
+Options:
+  --version=<name>       Pack version (default: today's date, e.g. ${new Date().toISOString().slice(0, 10)})
+  --out=<dir>            Output directory (default: ${DATA_PACK_ROOT}/<version>)
+  --states=NC,TX         Only export these states (default: all with geography data)
+  --specialties=a,b      Provider specialties per state (default: ${DEFAULT_EXPORT_SPECIALTIES.length} common ones)
+  --drugs=a,b            Drug names to fetch (default: common generics)
+  --no-api               Only export database tables (no NPPES, CMS or FDA requests)
+  --delay=<ms>           Pause between API requests (default: 250)
+  --force                Overwrite an existing pack
+  --verify=<name|dir>    Check an existing pack's manifest and checksums
+  --help, -h             Show this help message
+
+Use a pack:
+  NEXT_PUBLIC_DATA_PACK=<name|dir> npm run dev
+  `);
+  process.exit(0);
+}
+
+function printManifest(dir: string) {
+  const { manifest } = loadDataPack(dir);
+  console.log(`Pack ${manifest.packVersion} (${dir})`);
+  console.log(`  Created:   ${manifest.createdAt}`);
+  console.log(`  States:    ${manifest.sources.states.join(', ') || 'none'}`);
+  console.log(`  Geography: ${manifest.sources.geographyVersionId ?? 'legacy'}, plans: ${manifest.sources.planVersionId ?? 'legacy'}`);
+  for (const section of DATA_PACK_SECTIONS) {
+    console.log(`  ${section.padEnd(10)} ${manifest.files[section].records} records`);
+  }
+}
+
+async function main() {
+  const verify = getOption('verify');
+  if (verify) {
+    printManifest(resolveDataPackPath(verify));
+    console.log('\n✅ Checksums match');
+    process.exit(0);
+  }
+
+  const packVersion = getOption('version') ?? new Date().toISOString().slice(0, 10);
+  if (!/^[\w.-]+$/.test(packVersion)) {
+    throw new Error(`Invalid --version: ${packVersion} (letters, digits, dots, dashes and underscores only)`);
+  }
+
+  const out = getOption('out');
+  const dir = out ? path.resolve(out) : path.join(process.cwd(), DATA_PACK_ROOT, packVersion);
+  if (fs.existsSync(path.join(dir, 'manifest.json')) && !args.includes('--force')) {
+    throw new Error(`A data pack already exists in ${dir} (use --force to overwrite)`);
+  }
+
+  const delay = getOption('delay');
+  const includeApis = !args.includes('--no-api');
+
+  console.log(`📦 Exporting data pack ${packVersion}${includeApis ? '' : ' (database only)'}...\n`);
+
+  const { contents, sources, warnings } = await exportDataPack({
+    states: getListOption('states')?.map(state => state.toUpperCase()),
+    includeApis,
+    specialties: getListOption('specialties'),
+    drugs: getListOption('drugs'),
+    requestDelayMs: delay ? parseInt(delay, 10) : undefined,
+  });
+
+  for (const warning of warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+
+  writeDataPack(dir, contents, { packVersion, sources });
+  printManifest(dir);
+
+  if (warnings.length > 0) {
+    console.log(`\n⚠️  ${warnings.length} API requests failed; their results are missing from the pack`);
+  }
+  console.log(`\n✅ Use it with NEXT_PUBLIC_DATA_PACK=${out ? dir : packVersion}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('\n❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -12,7 +12,12 @@
  *   npm run import:cms:slcsp           - Import SLCSP benchmarks only
  *   npm run import:cms:zips            - Import ZIP mappings only
  *   npm run import:cms:carriers        - Import carriers only
- *   npm run import:cms:validate        - Validate imported data
+ *   npm run import:cms:plans           - Import plan PUFs (rates, cost sharing)
+ *   npm run import:cms:validate        - Validate imported data (active data,
+                                       or a draft with --version=<id>)
+ *
+ * Every import writes to a draft data version that goes live only when
+ * activated with `npm run data:activate -- <version-id>`.
  */
 
 import {
@@ -23,6 +28,8 @@ import {
   runFullImport,
   validateImportedData
 } from '../lib/data-import/cms-importer';
+import { importPlanPUFs } from '../lib/data-import/puf-importer';
+import { createDraftVersion, type DataType, type DataValidationResult } from '../lib/data-import/data-versions';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
@@ -32,9 +39,41 @@ const flags = {
   zips: args.includes('--zips'),
   carriers: args.includes('--carriers'),
   validate: args.includes('--validate'),
+  plans: args.includes('--plans'),
+  dryRun: args.includes('--dry-run'),
   help: args.includes('--help') || args.includes('-h')
 };
 
+// Value options (--year=2025 --states=NC,TX --ages=21,40)
+function getOption(name: string): string | undefined {
+  return args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+function getListOption(name: string): string[] | undefined {
+  const value = getOption(name);
+  return value ? value.split(',').map((v) => v.trim()).filter(Boolean) : undefined;
+}
+
+// Existing draft given with --version, or a new draft of the data type
+async function resolveDraft(dataType: DataType, description: string): Promise<string> {
+  const versionId = getOption('version');
+  if (versionId) return versionId;
+
+  const draft = await createDraftVersion(dataType, { description });
+  console.log(`📦 Created draft ${dataType} version ${draft.versionNumber} (${draft.versionId})\n`);
+  return draft.versionId;
+}
+
+function printNextSteps(versionId: string, validation: DataValidationResult) {
+  if (validation.valid) {
+    console.log(`\nReview the draft, then activate it with:`);
+    console.log(`  npm run data:activate -- ${versionId}`);
+  } else {
+    console.log(`\n⚠️  Draft ${versionId} failed validation and cannot be activated.`);
+    console.log(`Fix the data and re-run, or discard it with: npm run data:discard -- ${versionId}`);
+  }
+}
+
 // Help text
 function showHelp() {
   console.log(`
@@ -50,6 +89,23 @@ Usage:
   npm run import:cms:zips            - Import ZIP to county mappings
   npm run import:cms:carriers        - Import carrier participation data
   npm run import:cms:validate        - Validate imported data
+  npm run import:cms:plans           - Import plans, per-age rates and cost
+                                       sharing from the Marketplace PUFs
+
+Plan PUF Options (with import:cms:plans):
+  --year=2025                        - Plan year (default: current year)
+  --states=NC,TX                     - Only import these states
+  --ages=21,40,64                    - Only store these ages
+  --dry-run                          - Parse files without writing
+
+Data Versions:
+  Each run writes to a new draft data version; live data is unchanged until
+  the draft is activated. Pass --version=<id> to add to an existing draft.
+
+  npm run data:versions              - List data versions
+  npm run data:activate -- <id>      - Make a validated draft live
+  npm run data:rollback -- --type=cms_geography
+                                     - Return to the previous version
 
 Data Files Required:
   Place CSV files in: data/cms/
@@ -58,6 +114,12 @@ Data Files Required:
   - zip-county-mapping.csv
   - carrier-participation.csv (optional)
 
+  Place Marketplace PUF CSVs in: data/cms/raw/
+  - plan-attributes-<year>.csv
+  - rate-<year>.csv
+  - benefits-cost-sharing-<year>.csv
+  - service-area-<year>.csv
+
 For file format details, see: lib/data-import/README.md
 
 Examples:
@@ -68,6 +130,9 @@ Examples:
   npm run import:cms:counties
   npm run import:cms:slcsp
 
+  # Import 2025 plan rates for two states
+  npm run import:cms:plans -- --year=2025 --states=NC,TX
+
   # Validate data after import
   npm run import:cms:validate
   `);
@@ -86,43 +151,66 @@ async function main() {
 
     // Validate data only
     if (flags.validate) {
-      await validateImportedData();
+      const result = await validateImportedData(getOption('version'));
+      process.exit(result.valid ? 0 : 1);
+    }
+
+    // Import plan PUFs
+    if (flags.plans) {
+      const ages = getListOption('ages')?.map((age) => parseInt(age, 10));
+      const year = parseInt(getOption('year') ?? String(new Date().getFullYear()), 10);
+      const versionId = flags.dryRun ? undefined : await resolveDraft('aca_plans', `Marketplace plan PUFs ${year}`);
+      const result = await importPlanPUFs({
+        year,
+        states: getListOption('states'),
+        ages: ages?.filter((age) => !isNaN(age)),
+        versionId,
+        dryRun: flags.dryRun,
+      });
+
+      console.log(`\n✅ Plan import completed: ${result.records} records from ${result.plans} plans in ${result.states.length} states`);
+
+      if (versionId) {
+        console.log('');
+        printNextSteps(versionId, await validateImportedData(versionId));
+      }
       process.exit(0);
     }
 
     // Run selective imports
     if (flags.counties || flags.slcsp || flags.zips || flags.carriers) {
       console.log('Running selective import...\n');
+      const versionId = await resolveDraft('cms_geography', 'Selective CMS data import');
 
       if (flags.counties) {
-        await importCountyData();
+        await importCountyData(versionId);
         console.log('');
       }
 
       if (flags.slcsp) {
-        await importSLCSPData();
+        await importSLCSPData(versionId);
         console.log('');
       }
 
       if (flags.zips) {
-        await importZIPMappings();
+        await importZIPMappings(versionId);
         console.log('');
       }
 
       if (flags.carriers) {
-        await importCarrierData();
+        await importCarrierData(versionId);
         console.log('');
       }
 
-      console.log('✅ Selective import completed successfully!');
-      console.log('\nRun `npm run import:cms:validate` to verify data.');
+      console.log('✅ Selective import completed successfully!\n');
+      printNextSteps(versionId, await validateImportedData(versionId));
       process.exit(0);
     }
 
     // Run full import (default)
-    await runFullImport();
+    const { versionId, validation } = await runFullImport({ versionId: getOption('version') });
     console.log('\n✅ Full import completed successfully!');
-    console.log('\nRun `npm run import:cms:validate` to verify data.');
+    printNextSteps(versionId, validation);
 
   } catch (error) {
     console.error('\n❌ Import failed:', error);
@@ -131,7 +219,7 @@ async function main() {
       console.error('\nError details:', error.message);
 
       if (error.message.includes('file not found')) {
-        console.log('\n📝 Note: Ensure CSV files are placed in data/cms/ directory.');
+        console.log('\n📝 Note: Ensure CSV files are placed in data/cms/ directory (PUFs in data/cms/raw/).');
         console.log('See lib/data-import/README.md for file format details.');
       }
 
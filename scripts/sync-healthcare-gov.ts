@@ -8,18 +8,38 @@
  *   npm run api:sync -- --dry-run
  *   npm run api:sync -- --states CA,FL,TX
  *   npm run api:sync -- --year 2025 --clear
+ *   npm run api:sync -- --resume --report=sync-report.json
+ *
+ * Plans are written to a draft data version; activate it with
+ * npm run data:activate -- <version-id>
  */
 
 import 'dotenv/config';
-import { syncMarketplacePlans, type SyncOptions } from '../lib/integrations/healthcare-gov/sync';
+import * as fs from 'fs';
+import { syncMarketplacePlans, type MarketplaceSyncClient, type SyncOptions } from '../lib/integrations/healthcare-gov/sync';
+import {
+  FixtureHealthcareGovClient,
+  RecordingHealthcareGovClient,
+  type MarketplaceFixture,
+} from '../lib/integrations/healthcare-gov/fixture-client';
+import { createHealthcareGovClient } from '../lib/integrations/healthcare-gov/client';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
 const options: SyncOptions = {
   dryRun: args.includes('--dry-run'),
   clearExisting: args.includes('--clear'),
+  resume: args.includes('--resume'),
 };
 
+function getOption(name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+const reportPath = getOption('report');
+const fixturePath = getOption('fixture');
+const recordPath = getOption('record-fixture');
+
 // Parse states
 const statesArg = args.find(arg => arg.startsWith('--states='));
 if (statesArg) {
@@ -38,6 +58,12 @@ if (yearArg) {
   }
 }
 
+// Parse draft version
+const versionArg = args.find(arg => arg.startsWith('--version='));
+if (versionArg) {
+  options.versionId = versionArg.split('=')[1];
+}
+
 // Show help
 if (args.includes('--help') || args.includes('-h')) {
   console.log(`
@@ -48,7 +74,12 @@ Usage:
 
 Options:
   --dry-run              Don't write to database, just log what would happen
-  --clear                Clear existing plans before syncing
+  --clear                Clear the draft's plans for the year before syncing
+  --version=<id>         Add to an existing draft version instead of a new one
+  --resume               Continue the latest unfinished sync for the year
+  --report=<path>        Write the change report (JSON) to a file
+  --fixture=<path>       Replay recorded API responses instead of calling the API
+  --record-fixture=<path>  Save the API responses for later replay
   --states=CA,FL,TX      Sync specific states (comma-separated)
   --year=2025            Sync plans for specific year
   --help, -h             Show this help message
@@ -58,6 +89,14 @@ Examples:
   npm run api:sync -- --dry-run
   npm run api:sync -- --states=CA,FL --year=2025
   npm run api:sync -- --clear --states=NY
+  npm run api:sync -- --resume --report=sync-report.json
+
+Syncs are incremental: unchanged plans are skipped, plans no longer offered
+are marked inactive, and progress is checkpointed per county so a failed
+sync can be continued with --resume.
+
+Live runs write to a draft data version. Review it, then activate:
+  npm run data:activate -- <version-id>
 
 Environment Variables:
   HEALTHCARE_GOV_API_KEY    Your Healthcare.gov API key (required)
@@ -68,8 +107,13 @@ Get an API key at:
   process.exit(0);
 }
 
-// Check for API key
-if (!process.env.HEALTHCARE_GOV_API_KEY) {
+if (fixturePath && recordPath) {
+  console.error('❌ Use either --fixture or --record-fixture, not both');
+  process.exit(1);
+}
+
+// Check for API key (not needed when replaying a fixture)
+if (!fixturePath && !process.env.HEALTHCARE_GOV_API_KEY) {
   console.error(`
 ❌ Error: HEALTHCARE_GOV_API_KEY environment variable not set.
 
@@ -103,16 +147,46 @@ async function main() {
     console.log('⚠️  Will clear existing plans before syncing');
   }
 
+  if (fixturePath) {
+    console.log(`Replaying: ${fixturePath}`);
+  }
+
   console.log('');
 
   try {
-    const result = await syncMarketplacePlans(options);
+    let client: MarketplaceSyncClient | undefined;
+    let recorder: RecordingHealthcareGovClient | undefined;
+    if (fixturePath) {
+      client = new FixtureHealthcareGovClient(JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as MarketplaceFixture);
+    } else if (recordPath) {
+      client = recorder = new RecordingHealthcareGovClient(createHealthcareGovClient());
+    }
+
+    const result = await syncMarketplacePlans(options, { client });
+
+    if (reportPath) {
+      fs.writeFileSync(reportPath, JSON.stringify(result.report, null, 2));
+      console.log(`\n📝 Change report written to ${reportPath}`);
+    }
+
+    if (recorder && recordPath) {
+      fs.writeFileSync(recordPath, JSON.stringify(recorder.toFixture(), null, 2));
+      console.log(`📼 API responses recorded to ${recordPath}`);
+    }
 
     if (result.success) {
       console.log('\n✅ Sync completed successfully!');
+      if (result.dataVersionId) {
+        console.log(result.validation?.valid
+          ? `\nActivate with: npm run data:activate -- ${result.dataVersionId}`
+          : `\n⚠️  Draft ${result.dataVersionId} failed validation and cannot be activated`);
+      }
       process.exit(0);
     } else {
       console.log('\n⚠️  Sync completed with errors');
+      if (result.dataVersionId) {
+        console.log('Continue with: npm run api:sync -- --resume');
+      }
       process.exit(1);
     }
   } catch (error) {
@@ -37,6 +37,41 @@ export interface CurrentInsurance {
   coverageNotes: string; // Additional details about coverage
 }
 
+/**
+ * A tax filing unit within the residence (e.g. an unmarried partner or an
+ * adult child who files their own return). Members are referenced by their
+ * index in adultAges / childAges.
+ */
+export interface TaxHousehold {
+  id: string;
+  label: string;
+  adultIndexes: number[];
+  childIndexes: number[];
+  // Household MAGI for this return (primary household falls back to annualIncome)
+  annualIncome: number | null;
+}
+
+export type TaxFilingStatus = 'single' | 'married_joint' | 'married_separate' | 'head_of_household';
+
+/**
+ * Itemized annual income for the household. When present it replaces the
+ * single annualIncome figure: MAGI is derived from the components (including
+ * the self-employment tax deduction and the Social Security add-back) and the
+ * same profile feeds the MAGI optimizer, HSA calculator and job-change wizard.
+ */
+export interface IncomeProfile {
+  filingStatus?: TaxFilingStatus;
+  wages?: number;
+  selfEmploymentIncome?: number; // Net profit (Schedule C / K-1)
+  socialSecurityBenefits?: number; // Total benefits received (taxable and non-taxable)
+  taxExemptInterest?: number;
+  foreignIncomeExclusion?: number; // Excluded foreign earned income and housing
+  investmentIncome?: number;
+  otherIncome?: number;
+  iraContribution?: number; // Deductible traditional IRA contributions
+  hsaContribution?: number; // Personal HSA contributions (not through payroll)
+}
+
 export interface CalculatorFormData {
   // Step 1: Residences (array-based for infinite properties)
   residences: Residence[];
@@ -49,6 +84,7 @@ export interface CalculatorFormData {
   childAges: number[];
   childrenUseTobacco: boolean[]; // Tobacco usage for each child
   hasMedicareEligible: boolean;
+  taxHouseholds?: TaxHousehold[]; // Separate tax filing units; omitted when everyone files together
 
   // Step 2.1: Employment & Coverage (NEW - Phase 1)
   hasEmployerInsurance: boolean;
@@ -92,7 +128,9 @@ export interface CalculatorFormData {
   budget: string;
   incomeRange?: string; // DEPRECATED - kept for backward compatibility with old saved forms
   annualIncome: number | null; // Exact annual household income (supports millions/billions)
+  incomeProfile?: IncomeProfile; // Itemized income; when set, annualIncome is its derived MAGI
   netWorth: number | null; // Total net worth for risk tolerance assessment
+  planYear?: number; // Marketplace plan year for subsidy rules (defaults to current plan year)
 
   // Current step tracker
   currentStep: number;
@@ -143,6 +181,7 @@ export interface SubsidyAnalysis {
   estimatedMonthlySubsidy: number;
   estimatedAfterSubsidyCost: CostRange;
   fplPercentage: number;
+  planYear?: number; // Plan year whose FPL and contribution tables were applied
   explanation: string;
   subsidyActionItems: string[];
   // Real SLCSP data (optional)
@@ -150,6 +189,72 @@ export interface SubsidyAnalysis {
   isRealSLCSP?: boolean;
   slcspSource?: 'api' | 'database' | 'estimate' | 'cache';
   slcspPlanName?: string;
+  // Per tax household results when the residence has more than one filing unit
+  taxHouseholds?: TaxHouseholdSubsidy[];
+  // Per-member Medicaid/CHIP eligibility (primary tax household)
+  medicaidEligibility?: import('./medicaidEligibility').MedicaidEligibilityResult;
+}
+
+export interface TaxHouseholdSubsidy {
+  taxHouseholdId: string;
+  label: string;
+  householdSize: number;
+  memberAges: number[];
+  annualIncome: number;
+  fplPercentage: number;
+  medicareOnly: boolean; // Every member is 65+, so no marketplace subsidy applies
+  medicaidEligible: boolean;
+  subsidyEligible: boolean;
+  estimatedMonthlySubsidy: number;
+  benchmarkPremium?: number;
+  isRealSLCSP?: boolean;
+  explanation: string;
+  medicaidEligibility?: import('./medicaidEligibility').MedicaidEligibilityResult;
+}
+
+// ============================================================================
+// COVERAGE GAP TYPES
+// ============================================================================
+
+export type CoverageGapPathId =
+  | 'self-employment-income'
+  | 'additional-wages'
+  | 'ichra'
+  | 'community-health-center'
+  | 'charity-care';
+
+export interface CoverageGapPath {
+  id: CoverageGapPathId;
+  title: string;
+  description: string;
+  feasibility: 'high' | 'medium' | 'low';
+  /** Extra annual income needed to reach 100% FPL (0 when not income-based) */
+  additionalIncomeRequired: number;
+  /** Annual cost to the household (taxes on new income, sliding-scale fees) */
+  annualCost: number;
+  /** Estimated annual value of coverage or assistance gained */
+  annualBenefit: number;
+  /** annualBenefit - annualCost */
+  netAnnualImpact: number;
+  requirements: string[];
+}
+
+export interface CoverageGapAnalysis {
+  inCoverageGap: boolean;
+  state: string;
+  planYear: number;
+  fplPercentage: number;
+  povertyGuideline: number;
+  /** Income shortfall to reach 100% FPL */
+  incomeNeededForSubsidy: number;
+  /** Adults with no Medicaid and no premium tax credit */
+  adultsInGap: number;
+  /** Annual benchmark (SLCSP) premium for the adults in the gap */
+  annualBenchmarkPremium: number;
+  /** Remediation paths sorted by net annual impact */
+  paths: CoverageGapPath[];
+  recommendedPathId?: CoverageGapPathId;
+  warnings: string[];
 }
 
 export interface EmployerPlanAnalysis {
@@ -178,6 +283,9 @@ export interface InsuranceRecommendation {
   // Employer comparison (Phase 2)
   employerPlanAnalysis?: EmployerPlanAnalysis;
 
+  // Remediation paths for adults in the Medicaid coverage gap
+  coverageGapAnalysis?: CoverageGapAnalysis;
+
   // Current insurance comparison (if provided)
   currentInsuranceSummary?: string;
   costComparison?: {
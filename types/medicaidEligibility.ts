@@ -0,0 +1,87 @@
+/**
+ * Medicaid / CHIP Eligibility Types
+ *
+ * Defines types for per-member Medicaid, CHIP and marketplace eligibility
+ */
+
+/**
+ * Coverage program a household member is routed to
+ */
+export type CoverageProgram = 'medicaid' | 'chip' | 'marketplace' | 'medicare' | 'coverage-gap';
+
+/**
+ * Medicaid eligibility group used to pick the income threshold
+ */
+export type MedicaidEligibilityGroup = 'child' | 'pregnant' | 'parent' | 'adult' | 'medicare';
+
+/**
+ * State income limits as % FPL, before the 5% MAGI disregard
+ */
+export interface StateMedicaidThresholds {
+  state: string;
+  /** Whether the state adopted the ACA adult expansion */
+  expansion: boolean;
+  /** Adults without dependent children (null when not covered) */
+  adult: number | null;
+  /** Parents and caretaker relatives */
+  parent: number;
+  /** Pregnant individuals (Medicaid or CHIP-funded coverage) */
+  pregnant: number;
+  /** Medicaid for children ages 0-18 */
+  childMedicaid: number;
+  /** Upper limit for CHIP (equal to childMedicaid when the state has no separate CHIP) */
+  chip: number;
+}
+
+/**
+ * Household member evaluated by the eligibility engine
+ */
+export interface EligibilityMemberInput {
+  id?: string;
+  age: number;
+  isPregnant?: boolean;
+}
+
+export interface MedicaidEligibilityInput {
+  state: string;
+  /** MAGI household size (defaults to the number of members) */
+  householdSize?: number;
+  /** Household MAGI for the year */
+  annualMAGI: number;
+  members: EligibilityMemberInput[];
+  planYear?: number;
+}
+
+/**
+ * Eligibility outcome for one household member
+ */
+export interface MemberEligibility {
+  memberId: string;
+  age: number;
+  group: MedicaidEligibilityGroup;
+  program: CoverageProgram;
+  /** Member's FPL % (pregnant members count the expected child) */
+  fplPercent: number;
+  /** Limit that applied, including the 5% disregard (null when the group is not covered) */
+  thresholdPercent: number | null;
+  /** Whether eligibility depends on the 5% disregard */
+  usedDisregard: boolean;
+  reason: string;
+}
+
+export interface MedicaidEligibilityResult {
+  state: string;
+  planYear: number;
+  householdSize: number;
+  annualMAGI: number;
+  povertyGuideline: number;
+  fplPercent: number;
+  isExpansionState: boolean;
+  members: MemberEligibility[];
+  /** Some members qualify for Medicaid/CHIP while others need other coverage */
+  isSplitFamily: boolean;
+  anyMedicaidOrCHIP: boolean;
+  allMedicaidOrCHIP: boolean;
+  summary: string;
+  actionItems: string[];
+}